@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  archiveGraceDays,
+  graceEndedWindow,
+  pingArchivedJobs,
+} from '@/lib/services/archived-jobs-indexnow.service'
+
+type Row = Record<string, unknown>
+
+/** Minimale query-builder: per tabel een vaste resultaatset. */
+function fakeSb(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const q: any = {
+      select: () => q,
+      eq: () => q,
+      gte: () => q,
+      lte: () => q,
+      in: () => q,
+      not: () => q,
+      limit: () => q,
+      then: (resolve: (v: unknown) => void) => resolve({ data: tables[table] ?? [], error: null }),
+    }
+    return q
+  }
+  return { from } as any
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+})
+
+describe('archiveGraceDays', () => {
+  it('valt terug op 30 dagen bij een ontbrekende of ongeldige waarde', () => {
+    vi.stubEnv('ARCHIVED_JOB_GRACE_DAYS', '')
+    expect(archiveGraceDays()).toBe(30)
+    vi.stubEnv('ARCHIVED_JOB_GRACE_DAYS', 'abc')
+    expect(archiveGraceDays()).toBe(30)
+    vi.stubEnv('ARCHIVED_JOB_GRACE_DAYS', '14')
+    expect(archiveGraceDays()).toBe(14)
+  })
+})
+
+describe('graceEndedWindow', () => {
+  it('geeft het etmaal waarin de grace-periode verstreek', () => {
+    vi.stubEnv('ARCHIVED_JOB_GRACE_DAYS', '30')
+    const window = graceEndedWindow(new Date('2026-07-31T03:00:00.000Z'))
+    expect(window).toEqual({
+      fromIso: '2026-06-30T03:00:00.000Z',
+      toIso: '2026-07-01T03:00:00.000Z',
+    })
+  })
+})
+
+describe('pingArchivedJobs', () => {
+  it('pingt per portaal en slaat portalen zonder host of key over', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const sb = fakeSb({
+      job_postings: [
+        { slug: 'monteur-delft', platform_id: 'p1' },
+        { slug: 'kok-delft', platform_id: 'p1' },
+        { slug: 'chauffeur-gouda', platform_id: 'p2' },
+      ],
+      platforms: [
+        { id: 'p1', domain: 'delftsebanen.nl', preview_domain: null, indexnow_key: 'key-1' },
+        { id: 'p2', domain: 'goudsebanen.nl', preview_domain: null, indexnow_key: null },
+      ],
+    })
+
+    const result = await pingArchivedJobs(sb, '2026-07-01T00:00:00Z', '2026-07-01T01:00:00Z')
+    expect(result).toEqual({ jobs: 3, platforms: 1, submitted: 4 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string)
+    expect(body.host).toBe('delftsebanen.nl')
+    expect(body.urlList).toEqual([
+      'https://delftsebanen.nl/vacature/monteur-delft',
+      'https://delftsebanen.nl/vacature/kok-delft',
+      'https://delftsebanen.nl/vacatures',
+      'https://delftsebanen.nl/sitemap.xml',
+    ])
+  })
+
+  it('doet niets zonder gearchiveerde publieke vacatures', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    const result = await pingArchivedJobs(fakeSb({}), 'a', 'b')
+    expect(result).toEqual({ jobs: 0, platforms: 0, submitted: 0 })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+
+vi.mock('@/lib/scrapers/shared/delisting', () => ({
+  archiveNotSeenSince: vi.fn(async () => 2),
+}))
+
+import { archiveNotSeenSince } from '@/lib/scrapers/shared/delisting'
+import {
+  importAtsSource,
+  resolveAtsSlug,
+  atsContentHash,
+  AtsImportError,
+  ATS_DELIST_REASON,
+} from '@/lib/services/ats-feeds/ats-import.service'
+import { ATS_FEEDS } from '@/lib/services/ats-feeds/feeds'
+
+const NOW = '2026-10-01T06:15:00.000Z'
+const fix = (name: string) => readFileSync(resolve(__dirname, 'fixtures', name), 'utf-8')
+
+const SOURCE = { id: 'src-1', company_id: 'co-1', url: 'https://acme.recruitee.com', ats_type: 'recruitee' }
+
+type Row = { id: string; content_hash?: string; archived_reason?: string | null }
+
+/** Mock: `bySourceId` = rijen op (source_id, external_vacancy_id), `byUrl` = rijen op (company_id, url). */
+function mockSupabase(bySourceId: Record<string, Row> = {}, byUrl: Record<string, Row> = {}) {
+  const inserts: Array<Record<string, unknown>> = []
+  const updates: Array<{ id: unknown; patch: Record<string, unknown> }> = []
+  const client = {
+    from: () => ({
+      select: () => {
+        const filters: Record<string, unknown> = {}
+        const q = {
+          eq: (col: string, val: unknown) => {
+            filters[col] = val
+            return q
+          },
+          maybeSingle: async () => {
+            if ('external_vacancy_id' in filters) {
+              return { data: bySourceId[filters.external_vacancy_id as string] ?? null, error: null }
+            }
+            return { data: byUrl[filters.url as string] ?? null, error: null }
+          },
+        }
+        return q
+      },
+      update: (patch: Record<string, unknown>) => ({
+        eq: async (_col: string, id: unknown) => {
+          updates.push({ id, patch })
+          return { error: null }
+        },
+      }),
+      insert: async (row: Record<string, unknown>) => {
+        inserts.push(row)
+        return { error: null }
+      },
+    }),
+  }
+  return { client: client as any, inserts, updates }
+}
+
+function okFetch(body: string) {
+  return vi.fn(async () => new Response(body, { status: 200 })) as unknown as typeof fetch
+}
+
+describe('resolveAtsSlug', () => {
+  it('haalt type en slug uit de bron-URL', () => {
+    expect(resolveAtsSlug({ url: 'https://jobs.lever.co/Acme/' })).toEqual({ type: 'lever', slug: 'acme' })
+  })
+
+  it('geen slug voor een Greenhouse embed zonder ?for=', () => {
+    expect(resolveAtsSlug({ url: 'https://boards.greenhouse.io/embed/job_board' })).toBeNull()
+  })
+})
+
+describe('importAtsSource', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  it('insert nieuwe vacatures met source_id + external_vacancy_id en draait daarna de delisting-sweep', async () => {
+    const { client, inserts } = mockSupabase()
+    const fetchImpl = okFetch(fix('recruitee.json'))
+
+    const result = await importAtsSource(client, SOURCE, { fetchImpl, nowIso: NOW })
+
+    expect(fetchImpl).toHaveBeenCalledWith('https://acme.recruitee.com/api/offers/', expect.anything())
+    expect(result).toMatchObject({ fetched: 1, inserted: 1, archived: 2 })
+    expect(inserts[0]).toMatchObject({
+      company_id: 'co-1',
+      source_id: 'src-1',
+      external_vacancy_id: '1789001',
+      location: 'Veldhoven',
+      needs_detail_scrape: false,
+      last_seen_in_sitemap: NOW,
+      review_status: 'pending',
+    })
+    expect(archiveNotSeenSince).toHaveBeenCalledWith(client, 'src-1', NOW, NOW, ATS_DELIST_REASON)
+  })
+
+  it('ongewijzigde vacature: alleen last_seen verversen', async () => {
+    const [job] = ATS_FEEDS.recruitee.parse(fix('recruitee.json'), 'acme')
+    const { client, updates } = mockSupabase({ '1789001': { id: 'jp-1', content_hash: atsContentHash(job) } })
+
+    const result = await importAtsSource(client, SOURCE, { fetchImpl: okFetch(fix('recruitee.json')), nowIso: NOW })
+
+    expect(result.unchanged).toBe(1)
+    expect(updates).toEqual([{ id: 'jp-1', patch: { last_seen_in_sitemap: NOW } }])
+  })
+
+  it('door de sweep gearchiveerde vacature die terug is in de feed wordt weer actief', async () => {
+    const [job] = ATS_FEEDS.recruitee.parse(fix('recruitee.json'), 'acme')
+    const { client, updates } = mockSupabase({
+      '1789001': { id: 'jp-1', content_hash: atsContentHash(job), archived_reason: ATS_DELIST_REASON },
+    })
+
+    const result = await importAtsSource(client, SOURCE, { fetchImpl: okFetch(fix('recruitee.json')), nowIso: NOW })
+
+    expect(result.updated).toBe(1)
+    expect(updates).toEqual([
+      { id: 'jp-1', patch: { last_seen_in_sitemap: NOW, archived_at: null, archived_reason: null, status: 'active' } },
+    ])
+  })
+
+  it('anders gearchiveerde vacature blijft gearchiveerd', async () => {
+    const [job] = ATS_FEEDS.recruitee.parse(fix('recruitee.json'), 'acme')
+    const { client, updates } = mockSupabase({
+      '1789001': { id: 'jp-1', content_hash: atsContentHash(job), archived_reason: 'manual' },
+    })
+
+    await importAtsSource(client, SOURCE, { fetchImpl: okFetch(fix('recruitee.json')), nowIso: NOW })
+
+    expect(updates).toEqual([{ id: 'jp-1', patch: { last_seen_in_sitemap: NOW } }])
+  })
+
+  it('gewijzigde vacature: volledige patch', async () => {
+    const { client, updates } = mockSupabase({ '1789001': { id: 'jp-1', content_hash: 'oud' } })
+
+    const result = await importAtsSource(client, SOURCE, { fetchImpl: okFetch(fix('recruitee.json')), nowIso: NOW })
+
+    expect(result.updated).toBe(1)
+    expect(updates[0].patch).toMatchObject({ title: 'Monteur Elektrotechniek', working_hours_min: 32 })
+  })
+
+  it('adopteert een rij die de career-page-flow op (company_id, url) aanmaakte', async () => {
+    const { client, updates, inserts } = mockSupabase(
+      {},
+      { 'https://acme.recruitee.com/o/monteur-elektrotechniek': { id: 'jp-9' } },
+    )
+
+    const result = await importAtsSource(client, SOURCE, { fetchImpl: okFetch(fix('recruitee.json')), nowIso: NOW })
+
+    expect(result.adopted).toBe(1)
+    expect(inserts).toHaveLength(0)
+    expect(updates[0]).toMatchObject({ id: 'jp-9', patch: { source_id: 'src-1', external_vacancy_id: '1789001' } })
+  })
+
+  it('HTTP-fout: AtsImportError en niets gearchiveerd', async () => {
+    const { client } = mockSupabase()
+    const fetchImpl = vi.fn(async () => new Response('', { status: 503 })) as unknown as typeof fetch
+
+    await expect(importAtsSource(client, SOURCE, { fetchImpl, nowIso: NOW })).rejects.toBeInstanceOf(AtsImportError)
+    expect(archiveNotSeenSince).not.toHaveBeenCalled()
+  })
+
+  it('200 zonder feed-vorm (bv. HTML): AtsImportError en niets gearchiveerd', async () => {
+    const { client } = mockSupabase()
+
+    await expect(
+      importAtsSource(client, SOURCE, { fetchImpl: okFetch('{"message":"maintenance"}'), nowIso: NOW }),
+    ).rejects.toBeInstanceOf(AtsImportError)
+    expect(archiveNotSeenSince).not.toHaveBeenCalled()
+  })
+})
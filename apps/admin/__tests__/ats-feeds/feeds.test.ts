@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { ATS_FEEDS, normalizeEmployment, toIsoDate } from '@/lib/services/ats-feeds/feeds'
+
+const fix = (name: string) => readFileSync(resolve(__dirname, 'fixtures', name), 'utf-8')
+
+describe('ATS feeds', () => {
+  it('greenhouse: decodeert escaped content en slaat items zonder titel over', () => {
+    const jobs = ATS_FEEDS.greenhouse.parse(fix('greenhouse.json'), 'acme')
+    expect(jobs).toHaveLength(1)
+    expect(jobs[0]).toMatchObject({
+      externalId: '4012345',
+      title: 'Backend Developer',
+      url: 'https://boards.greenhouse.io/acme/jobs/4012345',
+      city: 'Eindhoven',
+      descriptionHtml: '<p>Bouw mee aan <strong>ons platform</strong>.</p>',
+    })
+    expect(jobs[0].publishedAt).toBe('2026-09-01T12:00:00.000Z')
+  })
+
+  it('recruitee: alleen published offers, met uren en postcode', () => {
+    const jobs = ATS_FEEDS.recruitee.parse(fix('recruitee.json'), 'acme')
+    expect(jobs).toHaveLength(1)
+    expect(jobs[0]).toMatchObject({
+      externalId: '1789001',
+      city: 'Veldhoven',
+      postalCode: '5504 DA',
+      employment: 'Fulltime',
+      hoursMin: 32,
+      hoursMax: 40,
+      publishedAt: '2026-09-15T09:30:00.000Z',
+    })
+    expect(jobs[0].descriptionHtml).toContain('MBO niveau 3')
+  })
+
+  it('lever: voegt lists en additional samen in de beschrijving', () => {
+    const [job] = ATS_FEEDS.lever.parse(fix('lever.json'), 'acme')
+    expect(job.externalId).toBe('8f2c1a9e-0b5d-4c1e-9a77-3c2d1e0f4b11')
+    expect(job.city).toBe('Den Bosch')
+    expect(job.employment).toBe('Parttime')
+    expect(job.descriptionHtml).toContain('<h3>Wat vragen we</h3>')
+    expect(job.descriptionHtml).toContain('Hybride werken.')
+    expect(job.publishedAt).toBe(new Date(1758096000000).toISOString())
+  })
+
+  it('workable: shortcode als id', () => {
+    const [job] = ATS_FEEDS.workable.parse(fix('workable.json'), 'acme')
+    expect(job).toMatchObject({
+      externalId: 'A1B2C3D4E5',
+      title: 'Planner Logistiek',
+      city: 'Tilburg',
+      postalCode: '5048 AB',
+      employment: 'Fulltime',
+    })
+  })
+
+  it('teamtailor: id uit de job-URL, locatie uit tt:-namespace', () => {
+    const [job] = ATS_FEEDS.teamtailor.parse(fix('teamtailor.rss'), 'acme')
+    expect(job).toMatchObject({
+      externalId: '5123456',
+      title: 'Servicemedewerker',
+      city: 'Helmond',
+      postalCode: '5706 LA',
+      publishedAt: '2026-09-22T06:00:00.000Z',
+    })
+    expect(job.descriptionHtml).toContain('klaar voor onze klanten')
+  })
+
+  it('personio: bouwt de job-URL uit slug + id en combineert de beschrijvingsblokken', () => {
+    const [job] = ATS_FEEDS.personio.parse(fix('personio.xml'), 'acme')
+    expect(job).toMatchObject({
+      externalId: '1402233',
+      title: 'Financieel Administrateur',
+      url: 'https://acme.jobs.personio.de/job/1402233',
+      city: 'Eindhoven',
+      employment: 'Parttime',
+    })
+    expect(job.descriptionHtml).toContain('<h3>Wie ben jij?</h3>')
+  })
+
+  it('gooit bij ongeldige JSON in plaats van een lege lijst te geven', () => {
+    expect(() => ATS_FEEDS.recruitee.parse('<html>maintenance</html>', 'acme')).toThrow()
+  })
+
+  it('gooit bij een onverwachte feed-vorm, maar accepteert een gevalideerde lege feed', () => {
+    expect(() => ATS_FEEDS.greenhouse.parse('{"error":"not found"}', 'acme')).toThrow(/verwachte vorm/)
+    expect(() => ATS_FEEDS.lever.parse('{"ok":false}', 'acme')).toThrow(/verwachte vorm/)
+    expect(() => ATS_FEEDS.teamtailor.parse('<html><body>Jobs</body></html>', 'acme')).toThrow(/verwachte vorm/)
+    expect(() => ATS_FEEDS.personio.parse('<html><body>Login</body></html>', 'acme')).toThrow(/verwachte vorm/)
+    expect(ATS_FEEDS.greenhouse.parse('{"jobs":[]}', 'acme')).toEqual([])
+    expect(ATS_FEEDS.teamtailor.parse('<rss><channel><title>Acme</title></channel></rss>', 'acme')).toEqual([])
+  })
+
+  it('normalizeEmployment en toIsoDate', () => {
+    expect(normalizeEmployment('full_time')).toBe('Fulltime')
+    expect(normalizeEmployment('Freelance')).toBe('Freelance')
+    expect(normalizeEmployment('Oproepkracht')).toBe('Oproepkracht')
+    expect(normalizeEmployment('  ')).toBeNull()
+    expect(toIsoDate('niet een datum')).toBeNull()
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findCandidatePairs,
+  nameSimilarity,
+  normalizeCompanyName,
+  normalizePhone,
+  scoreCompanyPair,
+  syncCandidates,
+  type CandidatePair,
+  type DedupCompany,
+} from '@/lib/services/company-dedup/candidate.service'
+
+function company(overrides: Partial<DedupCompany> & { id: string }): DedupCompany {
+  return {
+    name: 'Bakkerij Jansen B.V.',
+    hoofddomein: null,
+    kvk: null,
+    werknl_employer_id: null,
+    phone: null,
+    postal_code: null,
+    city: null,
+    ...overrides,
+  }
+}
+
+describe('normalisatie', () => {
+  it('rechtsvorm, accenten en leestekens weg', () => {
+    expect(normalizeCompanyName('Café Jansen & Zn. B.V.')).toBe('cafe jansen en zn')
+    expect(normalizeCompanyName('V.O.F. De Molen')).toBe('de molen')
+  })
+
+  it('telefoon naar 9 cijfers zonder landcode', () => {
+    expect(normalizePhone('+31 (0)40 123 4567')).toBe('401234567')
+    expect(normalizePhone('040-1234567')).toBe('401234567')
+    expect(normalizePhone('112')).toBeNull()
+  })
+
+  it('naam-similarity is symmetrisch', () => {
+    expect(nameSimilarity('Jansen', 'Bakkerij Jansen BV')).toBe(nameSimilarity('Bakkerij Jansen BV', 'Jansen'))
+    expect(nameSimilarity('Jansen BV', 'Jansen B.V.')).toBe(1)
+  })
+})
+
+describe('scoreCompanyPair', () => {
+  it('zelfde KvK + domein -> kandidaat met bewijs, ids geordend', () => {
+    const pair = scoreCompanyPair(
+      company({ id: 'b', kvk: '1234 5678', hoofddomein: 'jansen.nl' }),
+      company({ id: 'a', name: 'Jansen Bakkerij', kvk: '12345678', hoofddomein: 'www.jansen.nl' }),
+    )
+    expect(pair).toMatchObject({ company_a_id: 'a', company_b_id: 'b', score: 1 })
+    expect(pair?.signals).toEqual(expect.arrayContaining(['kvk', 'hoofddomein']))
+    expect(pair?.evidence.kvk).toBe('12345678')
+  })
+
+  it('alleen een gelijke naam is niet genoeg, naam + postcode wel', () => {
+    expect(scoreCompanyPair(company({ id: 'a' }), company({ id: 'b' }))).toBeNull()
+    const pair = scoreCompanyPair(company({ id: 'a', postal_code: '5611 AB' }), company({ id: 'b', postal_code: '5611ab' }))
+    expect(pair?.signals).toEqual(['postal_code', 'name'])
+  })
+
+  it('verschillend KvK-nummer drukt de score onder de drempel', () => {
+    expect(
+      scoreCompanyPair(
+        company({ id: 'a', hoofddomein: 'jansen.nl', kvk: '11111111' }),
+        company({ id: 'b', hoofddomein: 'jansen.nl', kvk: '22222222' }),
+      ),
+    ).toBeNull()
+  })
+})
+
+describe('findCandidatePairs', () => {
+  it('vergelijkt alleen binnen blokken en telt elk paar één keer', () => {
+    const pairs = findCandidatePairs([
+      company({ id: 'a', hoofddomein: 'jansen.nl', phone: '040-1234567' }),
+      company({ id: 'b', name: 'Jansen', hoofddomein: 'jansen.nl', phone: '0401234567' }),
+      company({ id: 'c', name: 'Garage Pietersen', postal_code: '5611AB' }),
+    ])
+    expect(pairs).toHaveLength(1)
+    expect(pairs[0]).toMatchObject({ company_a_id: 'a', company_b_id: 'b' })
+  })
+})
+
+describe('syncCandidates', () => {
+  it('nieuw invoegen, pending bijwerken of opruimen, afgewezen laten staan', async () => {
+    const rows: Array<Record<string, any>> = [
+      { id: 'c1', company_a_id: 'a', company_b_id: 'b', status: 'pending', score: 0.6, signals: ['phone'] },
+      { id: 'c2', company_a_id: 'a', company_b_id: 'x', status: 'rejected', score: 0.9, signals: ['kvk'] },
+      { id: 'c3', company_a_id: 'y', company_b_id: 'z', status: 'pending', score: 0.7, signals: ['kvk'] },
+    ]
+    const sb: any = {
+      from: () => {
+        let patch: Record<string, unknown> | null = null
+        let del = false
+        const q: any = {
+          select: () => q,
+          order: () => q,
+          range: async () => ({ data: rows.map((r) => ({ ...r })), error: null }),
+          insert: async (chunk: Array<Record<string, unknown>>) => {
+            chunk.forEach((r, i) => rows.push({ id: `n${i}`, status: 'pending', ...r }))
+            return { error: null }
+          },
+          update: (p: Record<string, unknown>) => ((patch = p), q),
+          delete: () => ((del = true), q),
+          eq: async (_c: string, id: string) => {
+            Object.assign(rows.find((r) => r.id === id)!, patch)
+            return { error: null }
+          },
+          in: async (_c: string, ids: string[]) => {
+            if (del) ids.forEach((id) => rows.splice(rows.findIndex((r) => r.id === id), 1))
+            return { error: null }
+          },
+        }
+        return q
+      },
+    }
+    const pair = (a: string, b: string, score: number, signals: any[]): CandidatePair => ({
+      company_a_id: a,
+      company_b_id: b,
+      score,
+      signals,
+      evidence: {},
+    })
+
+    const stats = await syncCandidates(sb, [
+      pair('a', 'b', 0.9, ['phone', 'hoofddomein']),
+      pair('a', 'x', 1, ['kvk', 'phone']),
+      pair('c', 'd', 0.5, ['name', 'postal_code']),
+    ])
+
+    expect(stats).toEqual({ found: 3, inserted: 1, updated: 1, removed: 1 })
+    expect(rows.find((r) => r.id === 'c1')?.score).toBe(0.9)
+    expect(rows.find((r) => r.id === 'c2')).toMatchObject({ status: 'rejected', score: 0.9 })
+    expect(rows.find((r) => r.id === 'c3')).toBeUndefined()
+  })
+})
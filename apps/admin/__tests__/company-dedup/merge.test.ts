@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  defaultFieldChoices,
+  resolveFieldValues,
+  suggestSurvivor,
+} from '@/lib/services/company-dedup/merge-fields'
+import { mergeCompanies, undoMerge, CompanyMergeError } from '@/lib/services/company-dedup/merge.service'
+
+const SURVIVOR = { id: 's', name: 'Bakkerij Jansen B.V.', website: 'https://jansen.nl', kvk: null, phone: '', is_customer: false }
+const LOSER = { id: 'l', name: 'Bakkerij Jansen', website: 'https://www.jansen.nl', kvk: '12345678', phone: '040-1234567', is_customer: true }
+
+describe('defaultFieldChoices', () => {
+  it('houdt survivor, vult lege velden uit de loser, klant wint', () => {
+    const c = defaultFieldChoices(SURVIVOR, LOSER)
+    expect(c.name).toBe('survivor')
+    expect(c.website).toBe('survivor')
+    expect(c.kvk).toBe('loser')
+    expect(c.phone).toBe('loser')
+    expect(c.is_customer).toBe('loser')
+  })
+})
+
+describe('resolveFieldValues', () => {
+  it('geeft alleen loser-waarden die echt verschillen', () => {
+    expect(resolveFieldValues(SURVIVOR, LOSER, { name: 'loser', kvk: 'survivor' })).toEqual({
+      name: 'Bakkerij Jansen',
+      phone: '040-1234567',
+      is_customer: true,
+    })
+    expect(resolveFieldValues(SURVIVOR, { ...SURVIVOR, id: 'l' }, { name: 'loser' })).toEqual({})
+  })
+})
+
+describe('suggestSurvivor', () => {
+  it('Pipedrive-gekoppeld > meeste verwijzingen > oudste', () => {
+    const a = { id: 'a', pipedrive_id: null, created_at: '2025-01-01' }
+    const b = { id: 'b', pipedrive_id: '42', created_at: '2026-01-01' }
+    expect(suggestSurvivor(a, b).id).toBe('b')
+    expect(suggestSurvivor(a, { ...b, pipedrive_id: null }, { a: 1, b: 5 }).id).toBe('b')
+    expect(suggestSurvivor(a, { ...b, pipedrive_id: null }).id).toBe('a')
+  })
+})
+
+function fakeSb(rpcResult: { data?: unknown; error?: { code?: string; message: string } | null }) {
+  const rpc = vi.fn(async () => ({ data: rpcResult.data ?? null, error: rpcResult.error ?? null }))
+  const from = () => {
+    const q: any = {
+      select: () => q,
+      in: async () => ({ data: [SURVIVOR, LOSER], error: null }),
+    }
+    return q
+  }
+  return { sb: { from, rpc } as any, rpc }
+}
+
+describe('mergeCompanies', () => {
+  it('stuurt de gekozen loser-velden naar merge_companies', async () => {
+    const { sb, rpc } = fakeSb({ data: 'merge-1' })
+    const result = await mergeCompanies(sb, { survivor_id: 's', loser_id: 'l', fields: { name: 'loser' } }, 'user-1')
+    expect(result).toEqual({ merge_id: 'merge-1', survivor_id: 's' })
+    expect(rpc).toHaveBeenCalledWith('merge_companies', {
+      p_survivor: 's',
+      p_loser: 'l',
+      p_fields: { name: 'Bakkerij Jansen', kvk: '12345678', phone: '040-1234567', is_customer: true },
+      p_user: 'user-1',
+    })
+  })
+
+  it('vertaalt RPC-foutcodes naar een status', async () => {
+    const { sb } = fakeSb({ error: { code: '22023', message: 'Merge is al teruggedraaid' } })
+    const err = await undoMerge(sb, 'merge-1', null).catch((e) => e)
+    expect(err).toBeInstanceOf(CompanyMergeError)
+    expect(err.status).toBe(400)
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { domainMatches, emailDomain, resolveClaim } from '@/lib/services/employer-claims/claims.service'
+
+describe('domainMatches', () => {
+  it('exact domein of subdomein, hoofdletterongevoelig', () => {
+    expect(emailDomain('Piet@Jansen.NL')).toBe('jansen.nl')
+    expect(domainMatches('piet@jansen.nl', 'jansen.nl')).toBe(true)
+    expect(domainMatches('piet@mail.jansen.nl', 'Jansen.nl')).toBe(true)
+    expect(domainMatches('piet@notjansen.nl', 'jansen.nl')).toBe(false)
+    expect(domainMatches('piet@gmail.com', null)).toBe(false)
+  })
+})
+
+type Claim = { id: string; company_id: string; user_id: string; email: string; status: string }
+
+function fakeSb(claim: Claim | null, owners = 0) {
+  const calls: { table: string; op: string; payload?: unknown }[] = []
+  const from = (table: string) => {
+    const q: any = {
+      select: () => q,
+      eq: () => q,
+      maybeSingle: async () => ({ data: claim, error: null }),
+      upsert: async (payload: unknown) => {
+        calls.push({ table, op: 'upsert', payload })
+        return { error: null }
+      },
+      update: (payload: unknown) => {
+        calls.push({ table, op: 'update', payload })
+        return { eq: async () => ({ error: null }) }
+      },
+      then: (resolve: (v: unknown) => void) => resolve({ count: owners, error: null }),
+    }
+    return q
+  }
+  return { sb: { from } as any, calls }
+}
+
+const CLAIM: Claim = { id: 'c1', company_id: 'co1', user_id: 'user_abc', email: 'piet@gmail.com', status: 'pending' }
+
+describe('resolveClaim', () => {
+  it('approve: eerste werkgever wordt owner', async () => {
+    const { sb, calls } = fakeSb(CLAIM)
+    const result = await resolveClaim(sb, 'c1', { action: 'approve' }, 'admin-1')
+    expect(result).toEqual({ status: 'approved', role: 'owner' })
+    expect(calls[0]).toMatchObject({
+      table: 'company_members',
+      op: 'upsert',
+      payload: { company_id: 'co1', user_id: 'user_abc', email: 'piet@gmail.com', role: 'owner' },
+    })
+    expect(calls[1]).toMatchObject({ table: 'company_claims', op: 'update', payload: { status: 'approved', reviewed_by: 'admin-1' } })
+  })
+
+  it('approve: bestaande owner -> member', async () => {
+    const { sb } = fakeSb(CLAIM, 1)
+    expect(await resolveClaim(sb, 'c1', { action: 'approve' }, null)).toEqual({ status: 'approved', role: 'member' })
+  })
+
+  it('reject maakt geen lidmaatschap aan', async () => {
+    const { sb, calls } = fakeSb(CLAIM)
+    expect(await resolveClaim(sb, 'c1', { action: 'reject', note: 'Geen relatie met bedrijf' }, 'admin-1')).toEqual({
+      status: 'rejected',
+    })
+    expect(calls.map((c) => c.table)).toEqual(['company_claims'])
+    expect(calls[0].payload).toMatchObject({ note: 'Geen relatie met bedrijf' })
+  })
+
+  it('weigert onbekende of al beoordeelde claims', async () => {
+    await expect(resolveClaim(fakeSb(null).sb, 'x', { action: 'approve' }, null)).rejects.toThrow('niet gevonden')
+    await expect(
+      resolveClaim(fakeSb({ ...CLAIM, status: 'approved' }).sb, 'c1', { action: 'reject' }, null),
+    ).rejects.toThrow('al beoordeeld')
+  })
+})
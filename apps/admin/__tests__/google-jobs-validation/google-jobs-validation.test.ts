@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_INVALID_SHARE,
+  buildStructuredDataReport,
+  structuredDataPassed,
+  toJobPostingJsonLd,
+  validateJobPostingJsonLd,
+  validatePlatformJobPostings,
+  type StructuredDataJobRow,
+} from '@/lib/services/google-jobs-validation.service'
+
+const NOW = new Date('2026-06-18T10:00:00.000Z')
+
+function row(overrides: Partial<StructuredDataJobRow> = {}): StructuredDataJobRow {
+  return {
+    id: 'j1',
+    title: 'Monteur',
+    slug: 'monteur',
+    description: null,
+    content_md: 'Als monteur onderhoud je machines bij klanten in de regio. '.repeat(5),
+    published_at: '2026-06-01T08:00:00.000Z',
+    created_at: '2026-06-01T08:00:00.000Z',
+    end_date: '2026-07-31',
+    employment: 'Fulltime',
+    salary: null,
+    salary_min: 2800,
+    salary_max: 3500,
+    salary_unit: 'MONTH',
+    salary_currency: 'EUR',
+    city: 'Eindhoven',
+    street: 'Markt 1',
+    zipcode: '5611 EB',
+    state: 'Noord-Brabant',
+    companies: {
+      name: 'ASML',
+      logo_url: 'https://example.com/logo.png',
+      city: null,
+      street_address: null,
+      postal_code: null,
+    },
+    ...overrides,
+  }
+}
+
+const codes = (r: StructuredDataJobRow) =>
+  validateJobPostingJsonLd(toJobPostingJsonLd(r, NOW), NOW).issues.map((i) => i.code)
+
+describe('toJobPostingJsonLd', () => {
+  it('vult zoals de vacaturepagina: bedrijfsadres, salaris uit tekst en geschatte validThrough', () => {
+    const { jsonLd, fallbacks } = toJobPostingJsonLd(
+      row({
+        city: null,
+        street: null,
+        end_date: null,
+        salary_min: null,
+        salary_max: null,
+        salary_unit: null,
+        salary: '€ 2.800 - 3.500',
+        employment: 'Vast contract',
+        companies: { name: 'ASML', logo_url: null, city: 'Veldhoven', street_address: 'De Run 6501', postal_code: null },
+      }),
+      NOW,
+    )
+    expect(jsonLd.jobLocation.address).toMatchObject({ addressLocality: 'Veldhoven', streetAddress: 'De Run 6501' })
+    expect(jsonLd.baseSalary).toEqual({
+      '@type': 'MonetaryAmount',
+      currency: 'EUR',
+      value: { '@type': 'QuantitativeValue', unitText: 'MONTH', minValue: 2800, maxValue: 3500 },
+    })
+    expect(jsonLd.employmentType).toBe('FULL_TIME')
+    expect(jsonLd.validThrough).toBe('2026-07-31T08:00:00.000Z')
+    expect(fallbacks).toEqual({ description: false, validThrough: true, company: false, city: false })
+  })
+
+  it('pakt een {"text"}-beschrijving uit en stript HTML', () => {
+    const { jsonLd } = toJobPostingJsonLd(row({ content_md: null, description: '{"text":"<p>Werk  aan</p> machines"}' }), NOW)
+    expect(jsonLd.description).toBe('Werk aan machines')
+  })
+
+  it('markeert de placeholder-teksten van de pagina als fallback', () => {
+    const { jsonLd, fallbacks } = toJobPostingJsonLd(row({ content_md: null, city: null, companies: null }), NOW)
+    expect(jsonLd.description).toBe('Monteur bij Onbekend bedrijf')
+    expect(jsonLd.jobLocation.address).toMatchObject({ addressLocality: 'Nederland' })
+    expect(fallbacks).toMatchObject({ description: true, company: true, city: true })
+  })
+})
+
+describe('validateJobPostingJsonLd', () => {
+  it('een complete vacature scoort 100 zonder issues', () => {
+    const result = validateJobPostingJsonLd(toJobPostingJsonLd(row(), NOW), NOW)
+    expect(result).toEqual({ score: 100, valid: true, issues: [] })
+  })
+
+  it('ontbrekende aanbevolen velden zijn warnings en laten de vacature geldig', () => {
+    const r = row({ salary_min: null, salary_max: null, employment: null, state: null })
+    const result = validateJobPostingJsonLd(toJobPostingJsonLd(r, NOW), NOW)
+    expect(result.valid).toBe(true)
+    expect(result.score).toBeLessThan(100)
+    expect(result.issues.map((i) => i.code)).toEqual([
+      'missing_base_salary',
+      'missing_employment_type',
+      'missing_region',
+    ])
+  })
+
+  it('korte tekst, plaats "Nederland" en verlopen validThrough zijn errors', () => {
+    const r = row({ content_md: 'Kort', city: null, end_date: '2026-06-01' })
+    const result = validateJobPostingJsonLd(toJobPostingJsonLd(r, NOW), NOW)
+    expect(result.valid).toBe(false)
+    expect(result.issues.filter((i) => i.severity === 'error').map((i) => i.code)).toEqual([
+      'short_description',
+      'missing_locality',
+      'expired_valid_through',
+    ])
+  })
+
+  it('een lege beschrijving telt alleen als ontbrekend', () => {
+    expect(codes(row({ content_md: null }))).toContain('missing_description')
+    expect(codes(row({ content_md: null }))).not.toContain('short_description')
+  })
+})
+
+describe('buildStructuredDataReport', () => {
+  it('telt geldig/ongeldig, issues en sorteert de slechtste eerst', () => {
+    const report = buildStructuredDataReport(
+      'p1',
+      [row({ id: 'ok' }), row({ id: 'kort', content_md: 'Kort', state: null }), row({ id: 'regio', state: null })],
+      NOW,
+    )
+    expect(report.total).toBe(3)
+    expect(report.valid).toBe(2)
+    expect(report.invalid).toBe(1)
+    expect(report.invalid_share).toBeCloseTo(1 / 3)
+    expect(report.issues.map((i) => [i.code, i.count])).toEqual([
+      ['missing_region', 2],
+      ['short_description', 1],
+    ])
+    expect(report.postings.map((p) => p.id)).toEqual(['kort', 'regio', 'ok'])
+    expect(structuredDataPassed(report)).toBe(false)
+  })
+
+  it('zonder vacatures blokkeert het rapport niet', () => {
+    const report = buildStructuredDataReport('p1', [], NOW)
+    expect(report.average_score).toBeNull()
+    expect(structuredDataPassed(report)).toBe(true)
+  })
+
+  it('het aandeel ongeldig mag precies op de drempel liggen', () => {
+    const valid = Array.from({ length: 4 }, (_, i) => row({ id: `ok-${i}` }))
+    const report = buildStructuredDataReport('p1', [...valid, row({ id: 'fout', title: '' })], NOW)
+    expect(report.invalid_share).toBe(MAX_INVALID_SHARE)
+    expect(structuredDataPassed(report)).toBe(true)
+  })
+})
+
+describe('validatePlatformJobPostings', () => {
+  it('laadt de vacatures en pakt de bedrijfsrelatie uit', async () => {
+    const { companies, ...rest } = row()
+    const q: any = {
+      select: () => q,
+      eq: () => q,
+      not: () => q,
+      is: () => q,
+      order: () => q,
+      range: () => q,
+      then: (resolve: (v: unknown) => void) => resolve({ data: [{ ...rest, companies: [companies] }], error: null }),
+    }
+    const sb = { from: () => q } as any
+
+    const report = await validatePlatformJobPostings(sb, 'p1', NOW)
+    expect(report.total).toBe(1)
+    expect(report.postings[0]).toMatchObject({ id: 'j1', score: 100, valid: true })
+  })
+})
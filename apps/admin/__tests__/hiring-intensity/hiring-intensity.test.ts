@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest'
+import { hiringIntensityTier, selectByHiringIntensity } from '@/lib/services/hiring-intensity/score'
+import { pushHiringIntensity, refreshHiringIntensity } from '@/lib/services/hiring-intensity/intensity.service'
+
+type Row = Record<string, unknown>
+
+function fakeSb(rpcs: Record<string, Row[]>) {
+  const updates: { values: Row; id: unknown }[] = []
+  const rpc = vi.fn(async (name: string) => ({ data: rpcs[name] ?? [], error: null }))
+  const from = () => ({
+    update: (values: Row) => ({
+      eq: async (_col: string, id: unknown) => {
+        updates.push({ values, id })
+        return { error: null }
+      },
+    }),
+  })
+  return { sb: { rpc, from } as any, updates, rpc }
+}
+
+describe('hiringIntensityTier', () => {
+  it('deelt scores in niveaus in', () => {
+    expect(hiringIntensityTier(null)).toBe('none')
+    expect(hiringIntensityTier(0)).toBe('none')
+    expect(hiringIntensityTier(1)).toBe('low')
+    expect(hiringIntensityTier(40)).toBe('medium')
+    expect(hiringIntensityTier(69)).toBe('medium')
+    expect(hiringIntensityTier(70)).toBe('high')
+  })
+})
+
+describe('selectByHiringIntensity', () => {
+  const c = (id: string, company_id: string, platform_id: string) => ({ id, company_id, platform_id })
+
+  it('filtert op minimale score en past de caps opnieuw toe', () => {
+    const scores = new Map<string, number | null>([['a', 80], ['b', 30], ['c', 55], ['d', null]])
+    const pool = [
+      c('1', 'a', 'p1'),
+      c('2', 'b', 'p1'),
+      c('3', 'a', 'p1'),
+      c('4', 'c', 'p1'),
+      c('5', 'd', 'p2'),
+      c('6', 'c', 'p2'),
+      c('7', 'x', 'p2'),
+      c('8', 'a', 'p2'),
+    ]
+    expect(selectByHiringIntensity(pool, scores, 50, 10, 2).map((x) => x.id)).toEqual(['1', '3', '6', '8'])
+    expect(selectByHiringIntensity(pool, scores, 50, 3, 2).map((x) => x.id)).toEqual(['1', '3', '6'])
+  })
+})
+
+describe('refreshHiringIntensity', () => {
+  it('geeft de tellingen van de RPC terug', async () => {
+    const { sb, rpc } = fakeSb({ refresh_hiring_intensity: [{ scored: 120, changed: 14, cleared: 3 }] })
+    expect(await refreshHiringIntensity(sb)).toEqual({ scored: 120, changed: 14, cleared: 3 })
+    expect(rpc).toHaveBeenCalledWith('refresh_hiring_intensity')
+  })
+})
+
+describe('pushHiringIntensity', () => {
+  it('pusht de wachtrij en onthoudt alleen geslaagde pushes', async () => {
+    const { sb, updates } = fakeSb({
+      hiring_intensity_push_queue: [
+        { id: 'c1', pipedrive_id: '101', hiring_intensity_score: 72 },
+        { id: 'c2', pipedrive_id: '102', hiring_intensity_score: null },
+        { id: 'c3', pipedrive_id: '103', hiring_intensity_score: 45 },
+        { id: 'c4', pipedrive_id: 'geen-id', hiring_intensity_score: 10 },
+      ],
+    })
+    const client = {
+      setHiringIntensity: vi.fn(async (orgId: number) =>
+        orgId === 103 ? { success: false, reason: 'not found' } : { success: true },
+      ),
+    }
+
+    const stats = await pushHiringIntensity(sb, client)
+    expect(stats).toEqual({ pushed: 2, push_failed: 2 })
+    expect(client.setHiringIntensity.mock.calls).toEqual([[101, 72], [102, null], [103, 45]])
+    const pushed = updates.filter((u) => 'hiring_intensity_pushed_score' in u.values)
+    expect(pushed.map((u) => [u.id, u.values.hiring_intensity_pushed_score])).toEqual([['c1', 72], ['c2', null]])
+  })
+
+  it('legt mislukte pushes vast en wist ze na een geslaagde push', async () => {
+    const { sb, updates } = fakeSb({
+      hiring_intensity_push_queue: [
+        { id: 'c1', pipedrive_id: '101', hiring_intensity_score: 72, hiring_intensity_push_attempts: 2 },
+        { id: 'c2', pipedrive_id: '102', hiring_intensity_score: 45, hiring_intensity_push_attempts: 1 },
+        { id: 'c3', pipedrive_id: 'geen-id', hiring_intensity_score: 10, hiring_intensity_push_attempts: 0 },
+      ],
+    })
+    const client = {
+      setHiringIntensity: vi.fn(async (orgId: number) =>
+        orgId === 102 ? { success: false, reason: 'not found' } : { success: true },
+      ),
+    }
+
+    await pushHiringIntensity(sb, client)
+    expect(updates.map((u) => [u.id, u.values.hiring_intensity_push_error, u.values.hiring_intensity_push_attempts])).toEqual([
+      ['c1', null, 0],
+      ['c2', 'not found', 2],
+      ['c3', 'ongeldig pipedrive_id: geen-id', 1],
+    ])
+    expect(updates[1].values.hiring_intensity_push_failed_at).toEqual(expect.any(String))
+    expect(updates[0].values.hiring_intensity_push_failed_at).toBeNull()
+  })
+
+  it('stopt bij de deadline', async () => {
+    const { sb } = fakeSb({
+      hiring_intensity_push_queue: [{ id: 'c1', pipedrive_id: '101', hiring_intensity_score: 72 }],
+    })
+    const client = { setHiringIntensity: vi.fn(async () => ({ success: true })) }
+    expect(await pushHiringIntensity(sb, client, { deadline: Date.now() - 1 })).toEqual({ pushed: 0, push_failed: 0 })
+    expect(client.setHiringIntensity).not.toHaveBeenCalled()
+  })
+})
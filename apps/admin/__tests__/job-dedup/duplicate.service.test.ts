@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest'
+import {
+  scorePair,
+  pickCanonical,
+  checkPosting,
+  resolveDuplicate,
+  type DedupPosting,
+  type FingerprintRow,
+} from '@/lib/services/job-dedup/duplicate.service'
+
+const BODY = `Als servicemonteur ben je verantwoordelijk voor onderhoud en storingen aan koelinstallaties bij klanten
+in de regio. Je werkt zelfstandig vanuit een eigen bus en rapporteert aan de planning. Wij bieden een goed salaris,
+een leaseauto en volop opleidingsmogelijkheden binnen een groeiend familiebedrijf met veertig collega's.`
+
+function fp(overrides: Partial<FingerprintRow> = {}): FingerprintRow {
+  return {
+    job_posting_id: 'a',
+    company_id: 'co-1',
+    platform_id: 'plat-1',
+    title_norm: 'servicemonteur',
+    city_norm: 'eindhoven',
+    minhash: Array.from({ length: 64 }, (_, i) => i),
+    ...overrides,
+  }
+}
+
+function posting(overrides: Partial<DedupPosting> & { id: string }): DedupPosting {
+  return {
+    title: 'Servicemonteur',
+    description: BODY,
+    city: 'Eindhoven',
+    company_id: 'co-1',
+    platform_id: 'plat-1',
+    canonical_id: null,
+    review_status: 'pending',
+    published_at: null,
+    created_at: '2026-09-01T00:00:00Z',
+    source_id: null,
+    ...overrides,
+  }
+}
+
+type Rows = Record<string, Array<Record<string, any>>>
+
+/** In-memory Supabase-fake met precies de filters die de service gebruikt. */
+function fakeDb(tables: Rows) {
+  const from = (table: string) => {
+    const rows = (tables[table] ??= [])
+    const preds: Array<(r: Record<string, any>) => boolean> = []
+    let op: { kind: 'select' | 'update'; patch?: Record<string, unknown> } = { kind: 'select' }
+    const matching = () => rows.filter((r) => preds.every((p) => p(r)))
+    const exec = () => {
+      const hit = matching()
+      if (op.kind === 'update') hit.forEach((r) => Object.assign(r, op.patch))
+      return { data: hit.map((r) => ({ ...r })), error: null, count: hit.length }
+    }
+    const q: any = {
+      select: () => q,
+      update: (patch: Record<string, unknown>) => {
+        op = { kind: 'update', patch }
+        return q
+      },
+      insert: async (row: Record<string, unknown>) => {
+        rows.push({ id: `dup-${rows.length + 1}`, ...row })
+        return { error: null }
+      },
+      upsert: async (row: Record<string, any>) => {
+        const i = rows.findIndex((r) => r.job_posting_id === row.job_posting_id)
+        if (i >= 0) rows[i] = row
+        else rows.push(row)
+        return { error: null }
+      },
+      eq: (c: string, v: unknown) => (preds.push((r) => r[c] === v), q),
+      neq: (c: string, v: unknown) => (preds.push((r) => r[c] !== v), q),
+      is: (c: string, v: unknown) => (preds.push((r) => (r[c] ?? null) === v), q),
+      in: (c: string, vs: unknown[]) => (preds.push((r) => vs.includes(r[c])), q),
+      overlaps: (c: string, vs: string[]) => (preds.push((r) => r[c].some((x: string) => vs.includes(x))), q),
+      or: (expr: string) => {
+        // "a.eq.x,b.eq.x" of "a.in.(x,y),b.in.(x,y)"
+        const parts = expr.match(/[a-z_]+\.(eq\.[^,]+|in\.\([^)]*\))/g) ?? []
+        const tests = parts.map((p) => {
+          const [col, kind, ...rest] = p.split('.')
+          const val = rest.join('.')
+          const set = kind === 'in' ? val.slice(1, -1).split(',') : [val]
+          return (r: Record<string, any>) => set.includes(r[col])
+        })
+        preds.push((r) => tests.some((t) => t(r)))
+        return q
+      },
+      order: () => q,
+      range: () => q,
+      maybeSingle: async () => ({ data: exec().data[0] ?? null, error: null }),
+      then: (resolve: (v: unknown) => void) => resolve(exec()),
+    }
+    return q
+  }
+  return { from } as any
+}
+
+describe('scorePair', () => {
+  it('zelfde titel + beschrijving -> auto', () => {
+    expect(scorePair(fp(), fp({ job_posting_id: 'b' }))).toMatchObject({ score: 1, decision: 'auto' })
+  })
+
+  it('andere plaats, ander of geen platform -> geen match', () => {
+    expect(scorePair(fp(), fp({ job_posting_id: 'b', city_norm: 'veldhoven' }))).toBeNull()
+    expect(scorePair(fp({ platform_id: 'p1' }), fp({ job_posting_id: 'b', platform_id: 'p2' }))).toBeNull()
+    expect(scorePair(fp(), fp({ job_posting_id: 'b', platform_id: null }))).toBeNull()
+    expect(scorePair(fp({ platform_id: null }), fp({ job_posting_id: 'b', platform_id: null }))).toBeNull()
+  })
+
+  it('borderline -> review; alleen titel nooit auto', () => {
+    const half = Array.from({ length: 64 }, (_, i) => (i < 32 ? i : 1000 + i))
+    const r = scorePair(fp(), fp({ job_posting_id: 'b', minhash: half }))
+    expect(r).toMatchObject({ score: 0.75, decision: 'review' })
+    expect(scorePair(fp({ minhash: null }), fp({ job_posting_id: 'b' }))).toMatchObject({
+      description_similarity: null,
+      decision: 'review',
+    })
+  })
+})
+
+describe('pickCanonical', () => {
+  it('gepubliceerd > eigen career-page > completer > oudste', () => {
+    const published = posting({ id: 'pub', review_status: 'approved', published_at: '2026-09-02T00:00:00Z', description: null })
+    const career = posting({ id: 'career', source_id: 'src-career' })
+    const older = posting({ id: 'older', created_at: '2026-08-01T00:00:00Z' })
+    expect(pickCanonical([older, career, published], new Set(['src-career'])).id).toBe('pub')
+    expect(pickCanonical([older, career], new Set(['src-career'])).id).toBe('career')
+    expect(pickCanonical([posting({ id: 'newer' }), older]).id).toBe('older')
+  })
+
+  it('kiest nooit een pending, afgewezen of gearchiveerde rij boven een approved rij', () => {
+    const approved = posting({ id: 'approved', review_status: 'approved', description: null })
+    const pendingPublished = posting({ id: 'pending', published_at: '2026-08-01T00:00:00Z', source_id: 'src-career' })
+    const rejected = posting({ id: 'rejected', review_status: 'rejected', published_at: '2026-08-01T00:00:00Z' })
+    const archived = posting({ id: 'archived', review_status: 'approved', archived_at: '2026-09-05T00:00:00Z' })
+    expect(pickCanonical([pendingPublished, rejected, archived, approved], new Set(['src-career'])).id).toBe('approved')
+  })
+})
+
+describe('checkPosting', () => {
+  it('voegt een zeker duplicaat samen onder de gepubliceerde vacature', async () => {
+    const existing = posting({ id: 'p1', review_status: 'approved', published_at: '2026-09-01T00:00:00Z' })
+    const incoming = posting({ id: 'p2', title: 'Servicemonteur (m/v)' })
+    const tables: Rows = { job_postings: [{ ...existing, archived_at: null }, { ...incoming, archived_at: null }], job_sources: [] }
+    const db = fakeDb(tables)
+
+    await checkPosting(db, existing)
+    const result = await checkPosting(db, incoming)
+
+    expect(result).toEqual({ candidates: 1, auto_merged: 1, queued_for_review: 0 })
+    expect(tables.job_postings.find((r) => r.id === 'p2')?.canonical_id).toBe('p1')
+    expect(tables.job_postings.find((r) => r.id === 'p1')?.canonical_id).toBeNull()
+    expect(tables.job_posting_duplicates[0]).toMatchObject({ posting_a_id: 'p1', posting_b_id: 'p2', status: 'auto_merged' })
+    expect(tables.job_postings.every((r) => r.dedup_checked_at)).toBe(true)
+  })
+
+  it('slaat een eerder afgewezen paar over', async () => {
+    const a = posting({ id: 'p1' })
+    const b = posting({ id: 'p2' })
+    const tables: Rows = {
+      job_postings: [{ ...a, archived_at: null }, { ...b, archived_at: null }],
+      job_posting_duplicates: [{ id: 'd1', posting_a_id: 'p1', posting_b_id: 'p2', status: 'rejected' }],
+    }
+    const db = fakeDb(tables)
+    await checkPosting(db, a)
+    expect(await checkPosting(db, b)).toEqual({ candidates: 1, auto_merged: 0, queued_for_review: 0 })
+    expect(tables.job_postings.every((r) => r.canonical_id === null)).toBe(true)
+  })
+
+  it('clustert niet over platforms heen', async () => {
+    const a = posting({ id: 'p1', review_status: 'approved' })
+    const b = posting({ id: 'p2', platform_id: 'plat-2' })
+    const tables: Rows = { job_postings: [{ ...a, archived_at: null }, { ...b, archived_at: null }], job_sources: [] }
+    const db = fakeDb(tables)
+    await checkPosting(db, a)
+    expect(await checkPosting(db, b)).toEqual({ candidates: 0, auto_merged: 0, queued_for_review: 0 })
+    expect(tables.job_postings.every((r) => r.canonical_id === null)).toBe(true)
+  })
+})
+
+describe('resolveDuplicate', () => {
+  it('merge met geforceerde canonical, reject koppelt de sibling weer los', async () => {
+    const tables: Rows = {
+      job_postings: [
+        { ...posting({ id: 'p1' }), archived_at: null },
+        { ...posting({ id: 'p2' }), archived_at: null },
+      ],
+      job_sources: [],
+      job_posting_duplicates: [{ id: 'd1', posting_a_id: 'p1', posting_b_id: 'p2', status: 'pending' }],
+    }
+    const db = fakeDb(tables)
+
+    expect(await resolveDuplicate(db, 'd1', { action: 'merge', canonical_id: 'p2' }, 'user-1')).toEqual({
+      status: 'merged',
+      canonical_id: 'p2',
+    })
+    expect(tables.job_postings.find((r) => r.id === 'p1')?.canonical_id).toBe('p2')
+    expect(tables.job_posting_duplicates[0]).toMatchObject({ status: 'merged', reviewed_by: 'user-1' })
+
+    await resolveDuplicate(db, 'd1', { action: 'reject' }, 'user-1')
+    expect(tables.job_postings.find((r) => r.id === 'p1')?.canonical_id).toBeNull()
+    expect(tables.job_posting_duplicates[0].status).toBe('rejected')
+  })
+
+  it('weigert een niet-approved geforceerde canonical als de groep een approved rij heeft', async () => {
+    const tables: Rows = {
+      job_postings: [
+        { ...posting({ id: 'p1', review_status: 'approved' }), archived_at: null },
+        { ...posting({ id: 'p2' }), archived_at: null },
+      ],
+      job_sources: [],
+      job_posting_duplicates: [{ id: 'd1', posting_a_id: 'p1', posting_b_id: 'p2', status: 'pending' }],
+    }
+    await expect(resolveDuplicate(fakeDb(tables), 'd1', { action: 'merge', canonical_id: 'p2' }, null)).rejects.toThrow(
+      /goedgekeurde/,
+    )
+    expect(tables.job_postings.every((r) => r.canonical_id === null)).toBe(true)
+  })
+
+  it('canonical_id moet bij het paar horen', async () => {
+    const db = fakeDb({ job_posting_duplicates: [{ id: 'd1', posting_a_id: 'p1', posting_b_id: 'p2', status: 'pending' }] })
+    await expect(resolveDuplicate(db, 'd1', { action: 'merge', canonical_id: 'p3' }, null)).rejects.toThrow(
+      'canonical_id hoort niet bij dit paar',
+    )
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeTitle,
+  titleSimilarity,
+  shingles,
+  minhashSignature,
+  estimateSimilarity,
+  lshBands,
+  fingerprint,
+  BANDS,
+  NUM_HASHES,
+} from '@/lib/services/job-dedup/minhash'
+
+const BODY = `Als servicemonteur ben je verantwoordelijk voor onderhoud en storingen aan koelinstallaties bij klanten
+in de regio. Je werkt zelfstandig vanuit een eigen bus en rapporteert aan de planning. Wij bieden een goed salaris,
+een leaseauto en volop opleidingsmogelijkheden binnen een groeiend familiebedrijf met veertig collega's.`
+
+describe('normalizeTitle', () => {
+  it('haalt geslachts-/uren-markers en accenten weg', () => {
+    expect(normalizeTitle('Servicemonteur (m/v/x) 32-40 uur')).toBe('servicemonteur')
+    expect(normalizeTitle('Vacature: Café-medewerker M/V fulltime')).toBe('cafe medewerker')
+  })
+})
+
+describe('titleSimilarity', () => {
+  it('Jaccard op tokens', () => {
+    expect(titleSimilarity('allround monteur', 'allround monteur')).toBe(1)
+    expect(titleSimilarity('allround monteur', 'monteur')).toBe(0.5)
+    expect(titleSimilarity('', 'monteur')).toBe(0)
+  })
+})
+
+describe('minhash', () => {
+  it('HTML en opmaak maken niet uit; signatuur past in int4', () => {
+    const a = minhashSignature(shingles(BODY))!
+    const b = minhashSignature(shingles(`<p>${BODY.replace(/\n/g, '</p><p>')}</p>`))!
+    expect(a).toHaveLength(NUM_HASHES)
+    expect(estimateSimilarity(a, b)).toBe(1)
+    expect(Math.max(...a)).toBeLessThanOrEqual(0x7fffffff)
+  })
+
+  it('kleine toevoeging scoort hoog, andere tekst laag', () => {
+    const base = minhashSignature(shingles(BODY))!
+    const extended = minhashSignature(shingles(`${BODY} Solliciteer voor 1 november via onze website.`))!
+    const other = minhashSignature(
+      shingles('Wij zoeken een administratief medewerker voor de debiteurenadministratie van ons kantoor in Eindhoven.'),
+    )!
+    expect(estimateSimilarity(base, extended)).toBeGreaterThan(0.7)
+    expect(estimateSimilarity(base, other)).toBeLessThan(0.2)
+  })
+
+  it('gelijke signaturen delen alle banden', () => {
+    const sig = minhashSignature(shingles(BODY))!
+    expect(lshBands(sig)).toHaveLength(BANDS)
+    expect(lshBands(sig)).toEqual(lshBands([...sig]))
+  })
+})
+
+describe('fingerprint', () => {
+  it('zonder (korte) beschrijving alleen een titel-band', () => {
+    const fp = fingerprint({ title: 'Monteur (m/v)', description: 'Kort.', city: "'s-Hertogenbosch" })
+    expect(fp.minhash).toBeNull()
+    expect(fp.lshBands).toEqual(['t:monteur'])
+    expect(fp.cityNorm).toBe('s hertogenbosch')
+  })
+
+  it('met beschrijving: banden + titel-band', () => {
+    const fp = fingerprint({ title: 'Servicemonteur', description: BODY, city: null })
+    expect(fp.lshBands).toHaveLength(BANDS + 1)
+    expect(fp.cityNorm).toBeNull()
+  })
+})
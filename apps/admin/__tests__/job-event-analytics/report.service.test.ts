@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { parseReportRange, sumCounts } from '@/lib/services/job-event-analytics/report.service'
+
+const NOW = new Date('2026-07-15T10:00:00Z')
+
+describe('parseReportRange', () => {
+  it('standaard de laatste 30 dagen t/m vandaag', () => {
+    expect(parseReportRange(null, null, NOW)).toEqual({ from: '2026-06-16', to: '2026-07-15' })
+  })
+
+  it('neemt een geldige periode over', () => {
+    expect(parseReportRange('2026-01-01', '2026-01-31', NOW)).toEqual({ from: '2026-01-01', to: '2026-01-31' })
+  })
+
+  it('valt terug bij ongeldige, omgekeerde of te lange periodes', () => {
+    expect(parseReportRange('gisteren', '2026-07-01', NOW)).toEqual({ from: '2026-06-02', to: '2026-07-01' })
+    expect(parseReportRange('2026-07-10', '2026-07-01', NOW)).toEqual({ from: '2026-06-02', to: '2026-07-01' })
+    expect(parseReportRange('2024-01-01', '2026-07-01', NOW)).toEqual({ from: '2026-06-02', to: '2026-07-01' })
+  })
+})
+
+describe('sumCounts', () => {
+  it('telt op en berekent het sollicitatiepercentage', () => {
+    const totals = sumCounts([
+      { views: 150, apply_clicks: 9, applications: 1, saves: 4, shares: 2 },
+      { views: 50, apply_clicks: 3, applications: 0, saves: 0, shares: 1 },
+    ])
+    expect(totals).toEqual({ views: 200, apply_clicks: 12, applications: 1, saves: 4, shares: 3, apply_rate: 6.5 })
+  })
+
+  it('geen percentage zonder views', () => {
+    expect(sumCounts([]).apply_rate).toBeNull()
+  })
+})
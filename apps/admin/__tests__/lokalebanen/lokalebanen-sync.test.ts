@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { generateContentHash } from '@/lib/data-hashing'
+import { lokaleBanenContentHash } from '@/lib/services/lokalebanen-push.service'
+import { classifyPushState, loadLokaleBanenDrift } from '@/lib/services/lokalebanen-sync.service'
+
+type Row = Record<string, unknown>
+
+const job = (overrides: Row = {}): Row => ({
+  id: 'jp-1',
+  title: 'Monteur',
+  description: 'Wij zoeken een monteur.',
+  city: 'Eindhoven',
+  employment: 'Vast',
+  education_level: 'MBO',
+  categories: 'Techniek',
+  working_hours_min: 32,
+  working_hours_max: 40,
+  salary: null,
+  end_date: null,
+  platform_id: 'pl-1',
+  archived_at: null,
+  review_status: 'approved',
+  companies: { id: 'c1', name: 'ACME', lokalebanen_id: '900' },
+  ...overrides,
+})
+
+function fakeSb(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    let rows = tables[table] ?? []
+    const q: any = {
+      select: () => q,
+      order: () => q,
+      range: () => q,
+      eq: (col: string, val: unknown) => {
+        rows = rows.filter((r) => r[col] === val)
+        return q
+      },
+      in: (col: string, vals: unknown[]) => {
+        rows = rows.filter((r) => vals.includes(r[col]))
+        return q
+      },
+      then: (resolve: (v: unknown) => void) => resolve({ data: rows, error: null }),
+    }
+    return q
+  }
+  return { from } as any
+}
+
+describe('generateContentHash', () => {
+  it('hangt alleen af van de gekozen velden, niet van volgorde of undefined vs null', () => {
+    const a = generateContentHash({ title: 'x', city: null, other: 1 }, ['title', 'city'])
+    const b = generateContentHash({ city: undefined, other: 2, title: 'x' }, ['title', 'city'])
+    expect(a).toBe(b)
+    expect(a).toMatch(/^[0-9a-f]{16}$/)
+    expect(generateContentHash({ title: 'y' }, ['title', 'city'])).not.toBe(a)
+  })
+})
+
+describe('classifyPushState', () => {
+  const hash = lokaleBanenContentHash(job())
+
+  it('trekt in bij archivering, afkeuring en verwijdering', () => {
+    expect(classifyPushState({ content_hash: hash }, null)).toEqual({ action: 'withdraw', reason: 'deleted' })
+    expect(classifyPushState({ content_hash: hash }, job({ archived_at: '2026-06-01T00:00:00Z' }) as any))
+      .toEqual({ action: 'withdraw', reason: 'archived' })
+    expect(classifyPushState({ content_hash: hash }, job({ review_status: 'rejected' }) as any))
+      .toEqual({ action: 'withdraw', reason: 'rejected' })
+  })
+
+  it('update alleen bij een wijziging in de LB-velden', () => {
+    expect(classifyPushState({ content_hash: hash }, job({ review_status: 'pending' }) as any).action).toBe('in_sync')
+    expect(classifyPushState({ content_hash: hash }, job({ title: 'Senior monteur' }) as any))
+      .toEqual({ action: 'update', currentHash: lokaleBanenContentHash(job({ title: 'Senior monteur' })) })
+  })
+
+  it('neemt een push zonder hash als basis', () => {
+    expect(classifyPushState({ content_hash: null }, job() as any)).toEqual({ action: 'baseline', currentHash: hash })
+  })
+})
+
+describe('loadLokaleBanenDrift', () => {
+  it('koppelt live push-state aan vacatures en telt per actie', async () => {
+    const state = (id: string, jobId: string | null, overrides: Row = {}): Row => ({
+      id, job_posting_id: jobId, lokalebanen_id: `lb-${id}`, state: 'live',
+      content_hash: lokaleBanenContentHash(job()), error_count: 0, ...overrides,
+    })
+    const sb = fakeSb({
+      lokalebanen_push_state: [
+        state('s1', 'jp-1'),
+        state('s2', 'jp-2'),
+        state('s3', null, { error_count: 5 }),
+        state('s4', 'jp-4', { content_hash: null }),
+        state('s5', 'jp-1', { state: 'withdrawn' }),
+      ],
+      job_postings: [job(), job({ id: 'jp-2', city: 'Veldhoven' }), job({ id: 'jp-4' })],
+    })
+
+    const { items, summary } = await loadLokaleBanenDrift(sb)
+    expect(items.map((i) => [i.state.id, i.action])).toEqual([
+      ['s1', 'in_sync'],
+      ['s2', 'update'],
+      ['s3', 'withdraw'],
+      ['s4', 'baseline'],
+    ])
+    expect(summary).toEqual({ live: 4, inSync: 1, baseline: 1, update: 1, withdraw: 1, stuck: 1 })
+  })
+})
@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyPipedriveEvent,
+  handlePipedriveWebhook,
+  normalizePipedriveEvent,
+  orgStatusKey,
+} from '@/lib/services/pipedrive-inbound-sync.service'
+
+type Row = Record<string, unknown>
+
+const STATUS_FIELD = 'e8a27f47529d2091399f063b834339316d7d852a'
+
+/**
+ * Query-builder over in-memory tabellen: `eq` filtert, updates worden
+ * toegepast en gelogd, een insert met bestaande `event_id` geeft 23505.
+ */
+function fakeSb(tables: Record<string, Row[]>) {
+  const updates: { table: string; id: unknown; fields: Row }[] = []
+  const from = (table: string) => {
+    const rows = (tables[table] ??= [])
+    const filters: [string, unknown][] = []
+    const match = () => rows.filter((r) => filters.every(([c, v]) => r[c] === v))
+    const q: any = {
+      select: () => q,
+      not: () => q,
+      limit: () => q,
+      eq: (col: string, val: unknown) => {
+        filters.push([col, val])
+        return q
+      },
+      maybeSingle: async () => ({ data: match()[0] ?? null, error: null }),
+      insert: async (row: Row) => {
+        if (rows.some((r) => r.event_id === row.event_id)) {
+          return { error: { code: '23505', message: 'duplicate key' } }
+        }
+        rows.push({ status: 'received', ...row })
+        return { error: null }
+      },
+      update: (fields: Row) => ({
+        eq: async (col: string, val: unknown) => {
+          for (const r of rows.filter((r) => r[col] === val)) {
+            Object.assign(r, fields)
+            if (table !== 'pipedrive_webhook_events') updates.push({ table, id: r.id, fields })
+          }
+          return { error: null }
+        },
+      }),
+      then: (resolve: (v: unknown) => void) => resolve({ data: match(), error: null }),
+    }
+    return q
+  }
+  return { sb: { from } as any, tables, updates }
+}
+
+function v2(entity: string, action: string, data: Row | null, previous: Row | null = null, meta: Row = {}) {
+  return {
+    meta: {
+      id: `evt-${entity}-${action}-${data?.id ?? previous?.id}`,
+      version: '2.0',
+      entity,
+      action,
+      entity_id: String(data?.id ?? previous?.id),
+      change_source: 'app',
+      timestamp: '2026-06-20T10:00:00.000Z',
+      ...meta,
+    },
+    data,
+    previous,
+  }
+}
+
+const company = (overrides: Row = {}): Row => ({
+  id: 'c1',
+  pipedrive_id: '42',
+  status: 'Prospect',
+  is_customer: false,
+  pipedrive_status: null,
+  pipedrive_updated_at: null,
+  ...overrides,
+})
+
+describe('normalizePipedriveEvent', () => {
+  it('leest v2-events', () => {
+    const event = normalizePipedriveEvent(v2('organization', 'change', { id: 42, name: 'ASML' }))
+    expect(event).toMatchObject({
+      eventId: 'evt-organization-change-42',
+      entity: 'organization',
+      action: 'change',
+      entityId: 42,
+      changeSource: 'app',
+      occurredAt: '2026-06-20T10:00:00.000Z',
+    })
+  })
+
+  it('leest v1-events, inclusief merge met de opgegane entiteit', () => {
+    const event = normalizePipedriveEvent({
+      meta: { action: 'merged', object: 'person', id: 7, webhook_id: 9, timestamp: 1781949600 },
+      current: { id: 7, name: 'Jan' },
+      previous: { id: 8, name: 'Jan B.' },
+    })
+    expect(event).toMatchObject({ entity: 'person', action: 'merge', entityId: 7, mergedId: 8 })
+    expect(event?.eventId).toBe('9:person:7:merged:1781949600')
+  })
+
+  it('negeert andere entiteiten en lege bodies', () => {
+    expect(normalizePipedriveEvent(v2('activity', 'create', { id: 1 }))).toBeNull()
+    expect(normalizePipedriveEvent(null)).toBeNull()
+  })
+})
+
+describe('orgStatusKey', () => {
+  it('leest v2 custom_fields, v1 top-level en onderscheidt ontbrekend van leeg', () => {
+    expect(orgStatusKey({ custom_fields: { [STATUS_FIELD]: { type: 'enum', id: 303 } } })).toBe('KLANT')
+    expect(orgStatusKey({ [STATUS_FIELD]: '302' })).toBe('BENADEREN')
+    expect(orgStatusKey({ custom_fields: { [STATUS_FIELD]: null } })).toBeNull()
+    expect(orgStatusKey({ name: 'ASML' })).toBeUndefined()
+  })
+})
+
+describe('applyPipedriveEvent: organization', () => {
+  it('zet Klant door naar status, pipedrive_status en is_customer', async () => {
+    const { sb, updates } = fakeSb({ companies: [company()] })
+    const event = normalizePipedriveEvent(
+      v2('organization', 'change', { id: 42, custom_fields: { [STATUS_FIELD]: { id: 303 } } }),
+    )!
+    const result = await applyPipedriveEvent(sb, event)
+
+    expect(result.status).toBe('applied')
+    expect(updates).toEqual([
+      {
+        table: 'companies',
+        id: 'c1',
+        fields: {
+          pipedrive_status: 'Klant',
+          status: 'Klant',
+          is_customer: true,
+          pipedrive_updated_at: '2026-06-20T10:00:00.000Z',
+        },
+      },
+    ])
+  })
+
+  it('laat de lokale status staan bij een Instantly-status', async () => {
+    const { sb, updates } = fakeSb({ companies: [company({ status: 'Benaderen' })] })
+    const event = normalizePipedriveEvent(
+      v2('organization', 'change', { id: 42, custom_fields: { [STATUS_FIELD]: { id: 345 } } }),
+    )!
+    await applyPipedriveEvent(sb, event)
+    expect(updates[0].fields).toEqual({
+      pipedrive_status: 'In campagne Instantly',
+      pipedrive_updated_at: '2026-06-20T10:00:00.000Z',
+    })
+  })
+
+  it('slaat echo, out-of-order en ongekoppelde orgs over', async () => {
+    const status = { custom_fields: { [STATUS_FIELD]: { id: 303 } } }
+    const echo = normalizePipedriveEvent(v2('organization', 'change', { id: 42, ...status }, null, { change_source: 'api' }))!
+    const { sb } = fakeSb({ companies: [company({ pipedrive_updated_at: '2026-06-21T00:00:00.000Z' })] })
+
+    expect(await applyPipedriveEvent(sb, echo)).toMatchObject({ status: 'skipped', reason: 'echo' })
+    const stale = normalizePipedriveEvent(v2('organization', 'change', { id: 42, ...status }))!
+    expect(await applyPipedriveEvent(sb, stale)).toMatchObject({ status: 'skipped', reason: 'stale' })
+    const unknown = normalizePipedriveEvent(v2('organization', 'change', { id: 99, ...status }))!
+    expect(await applyPipedriveEvent(sb, unknown)).toMatchObject({ status: 'skipped', reason: 'unlinked' })
+  })
+
+  it('werkt bij een echo alleen de spiegel pipedrive_status bij', async () => {
+    const { sb, updates } = fakeSb({ companies: [company({ pipedrive_status: 'Benaderen' })] })
+    const echo = normalizePipedriveEvent(
+      v2('organization', 'change', { id: 42, custom_fields: { [STATUS_FIELD]: { id: 303 } } }, null, {
+        change_source: 'api',
+      }),
+    )!
+    expect(await applyPipedriveEvent(sb, echo)).toMatchObject({ status: 'applied' })
+    expect(updates).toEqual([
+      {
+        table: 'companies',
+        id: 'c1',
+        fields: { pipedrive_status: 'Klant', pipedrive_updated_at: '2026-06-20T10:00:00.000Z' },
+      },
+    ])
+
+    const person = normalizePipedriveEvent(v2('person', 'change', { id: 7, name: 'Jan' }, null, { change_source: 'api' }))!
+    expect(await applyPipedriveEvent(sb, person)).toMatchObject({ status: 'skipped', reason: 'echo' })
+  })
+
+  it('ontkoppelt bij delete en hangt om bij merge', async () => {
+    const { sb, tables } = fakeSb({
+      companies: [company(), company({ id: 'c2', pipedrive_id: '43' })],
+    })
+    await applyPipedriveEvent(sb, normalizePipedriveEvent(v2('organization', 'delete', null, { id: 42 }))!)
+    expect(tables.companies[0]).toMatchObject({ pipedrive_id: null, pipedrive_synced: false })
+
+    await applyPipedriveEvent(
+      sb,
+      normalizePipedriveEvent({
+        meta: { action: 'merged', object: 'organization', id: 50, timestamp: 1781949600 },
+        current: { id: 50 },
+        previous: { id: 43 },
+      })!,
+    )
+    expect(tables.companies[1].pipedrive_id).toBe('50')
+  })
+})
+
+describe('applyPipedriveEvent: person en deal', () => {
+  it('vult alleen lege contactvelden aan', async () => {
+    const { sb, updates } = fakeSb({
+      contacts: [
+        { id: 'p1', pipedrive_person_id: '7', first_name: 'Jan', last_name: null, email: 'jan@asml.nl', phone: null, pipedrive_updated_at: null },
+      ],
+    })
+    const event = normalizePipedriveEvent(
+      v2('person', 'change', {
+        id: 7,
+        first_name: 'Johannes',
+        last_name: 'Jansen',
+        emails: [{ value: 'j.jansen@asml.nl', primary: true }],
+        phones: [{ value: '040 123 4567', primary: true }],
+      }),
+    )!
+    await applyPipedriveEvent(sb, event)
+    expect(updates).toEqual([
+      {
+        table: 'contacts',
+        id: 'p1',
+        fields: { last_name: 'Jansen', phone: '040 123 4567', pipedrive_updated_at: '2026-06-20T10:00:00.000Z' },
+      },
+    ])
+  })
+
+  it('een gewonnen deal maakt het bedrijf Klant, een ongewijzigde status niet', async () => {
+    const { sb, updates } = fakeSb({ companies: [company()] })
+    const unchanged = normalizePipedriveEvent(v2('deal', 'change', { id: 5, status: 'won', org_id: 42 }, { value: 100 }))!
+    expect(await applyPipedriveEvent(sb, unchanged)).toMatchObject({ status: 'skipped' })
+
+    const won = normalizePipedriveEvent(v2('deal', 'change', { id: 5, status: 'won', org_id: 42 }, { status: 'open' }))!
+    expect(await applyPipedriveEvent(sb, won)).toMatchObject({ status: 'applied' })
+    expect(updates[0].fields).toMatchObject({ status: 'Klant', is_customer: true })
+  })
+})
+
+describe('handlePipedriveWebhook', () => {
+  it('logt het event met uitkomst en verwerkt een retry niet opnieuw', async () => {
+    const { sb, tables, updates } = fakeSb({ companies: [company()] })
+    const body = v2('organization', 'change', { id: 42, custom_fields: { [STATUS_FIELD]: { id: 303 } } })
+
+    const first = await handlePipedriveWebhook(sb, body)
+    expect(first.status).toBe('applied')
+    expect(tables.pipedrive_webhook_events[0]).toMatchObject({
+      event_id: 'evt-organization-change-42',
+      status: 'applied',
+      reason: null,
+    })
+
+    const retry = await handlePipedriveWebhook(sb, body)
+    expect(retry).toMatchObject({ status: 'skipped', reason: 'duplicate', duplicate: true })
+    expect(updates).toHaveLength(1)
+  })
+
+  it('onbekende payloads worden niet gelogd', async () => {
+    const { sb, tables } = fakeSb({})
+    expect(await handlePipedriveWebhook(sb, { hello: 'world' })).toMatchObject({ reason: 'unsupported' })
+    expect(tables.pipedrive_webhook_events).toBeUndefined()
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyPackagePublication,
+  packageExpiry,
+  resolvePublicPlatformForPostcode,
+} from '@/lib/services/platform-publication.service'
+
+type Row = Record<string, unknown>
+
+/** Minimale query-builder: per tabel een vaste resultaatset, updates worden gelogd. */
+function fakeSb(tables: Record<string, Row[]>) {
+  const updates: { table: string; id: unknown; payload: Row }[] = []
+  const from = (table: string) => {
+    const q: any = {
+      select: () => q,
+      eq: () => q,
+      in: () => q,
+      not: () => q,
+      order: () => q,
+      limit: () => q,
+      update: (payload: Row) => ({
+        eq: async (_col: string, id: unknown) => {
+          updates.push({ table, id, payload })
+          return { error: null }
+        },
+      }),
+      then: (resolve: (v: unknown) => void) => resolve({ data: tables[table] ?? [], error: null }),
+    }
+    return q
+  }
+  return { sb: { from } as any, updates }
+}
+
+const NOW = '2026-06-18T10:00:00.000Z'
+
+describe('packageExpiry', () => {
+  it('telt de pakket-looptijd op bij het goedkeurmoment', () => {
+    expect(packageExpiry(NOW, 30)).toBe('2026-07-18T10:00:00.000Z')
+    expect(packageExpiry(NOW, null)).toBeNull()
+  })
+})
+
+describe('resolvePublicPlatformForPostcode', () => {
+  it('kiest het dichtstbijzijnde publieke platform', async () => {
+    const { sb } = fakeSb({
+      postcode_platform_lookup: [{ regio_platform: 'Niet Live' }, { regio_platform: 'Haagse Banen' }],
+      platforms: [{ id: 'p-haag', regio_platform: 'Haagse Banen' }],
+    })
+    expect(await resolvePublicPlatformForPostcode(sb, '2511 AB')).toBe('p-haag')
+  })
+
+  it('null bij ontbrekende of ongeldige postcode', async () => {
+    const { sb } = fakeSb({})
+    expect(await resolvePublicPlatformForPostcode(sb, null)).toBeNull()
+    expect(await resolvePublicPlatformForPostcode(sb, 'AB12')).toBeNull()
+  })
+})
+
+describe('applyPackagePublication', () => {
+  it('zet expires_at en alleen een platform als er nog geen is', async () => {
+    const { sb, updates } = fakeSb({
+      job_postings: [
+        { id: 'j1', zipcode: '2511AB', platform_id: null, package_code: 'online', vacancy_packages: { duration_days: 30 } },
+        { id: 'j2', zipcode: '2511AB', platform_id: 'p-keuze', package_code: 'onbeperkt', vacancy_packages: { duration_days: null } },
+      ],
+      postcode_platform_lookup: [{ regio_platform: 'Haagse Banen' }],
+      platforms: [{ id: 'p-haag', regio_platform: 'Haagse Banen' }],
+    })
+
+    const result = await applyPackagePublication(sb, ['j1', 'j2'], NOW)
+    expect(result).toEqual({ updated: 2, errors: [] })
+    expect(updates).toEqual([
+      { table: 'job_postings', id: 'j1', payload: { expires_at: '2026-07-18T10:00:00.000Z', platform_id: 'p-haag' } },
+      { table: 'job_postings', id: 'j2', payload: { expires_at: null } },
+    ])
+  })
+
+  it('laat een lopende looptijd staan bij opnieuw goedkeuren na een bewerking', async () => {
+    const { sb, updates } = fakeSb({
+      job_postings: [
+        {
+          id: 'j1',
+          zipcode: '2511AB',
+          platform_id: 'p-haag',
+          package_code: 'online',
+          expires_at: '2026-07-01T00:00:00.000Z',
+          vacancy_packages: { duration_days: 30 },
+        },
+      ],
+    })
+
+    expect(await applyPackagePublication(sb, ['j1'], NOW)).toEqual({ updated: 0, errors: [] })
+    expect(updates).toEqual([])
+  })
+
+  it('doet niets zonder ids', async () => {
+    const { sb, updates } = fakeSb({})
+    expect(await applyPackagePublication(sb, [], NOW)).toEqual({ updated: 0, errors: [] })
+    expect(updates).toEqual([])
+  })
+})
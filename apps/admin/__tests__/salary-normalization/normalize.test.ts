@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeSalary,
+  normalizeStructuredSalary,
+  salaryColumns,
+  toSalaryUnit,
+} from '@/lib/services/salary-normalization/normalize'
+
+describe('normalizeSalary', () => {
+  it('bereik per maand', () => {
+    expect(normalizeSalary('€ 2.800 - € 3.400 bruto per maand')).toEqual({
+      min: 2800, max: 3400, unit: 'MONTH', currency: 'EUR',
+    })
+    expect(normalizeSalary('2800 - 3500')).toEqual({ min: 2800, max: 3500, unit: 'MONTH', currency: 'EUR' })
+  })
+
+  it('uurloon met decimalen en ",-"', () => {
+    expect(normalizeSalary('€ 14,50 - € 17,- per uur')).toEqual({ min: 14.5, max: 17, unit: 'HOUR', currency: 'EUR' })
+    expect(normalizeSalary('Uurloon 12.50')).toEqual({ min: 12.5, max: 12.5, unit: 'HOUR', currency: 'EUR' })
+  })
+
+  it('"vanaf" en "tot" geven een open kant', () => {
+    expect(normalizeSalary('Vanaf €15,- per uur')).toEqual({ min: 15, max: null, unit: 'HOUR', currency: 'EUR' })
+    expect(normalizeSalary('Tot € 4.200 per maand')).toEqual({ min: null, max: 4200, unit: 'MONTH', currency: 'EUR' })
+  })
+
+  it('jaarsalaris, ook als "k"', () => {
+    expect(normalizeSalary('€ 48.000 - € 60.000 per jaar')?.unit).toBe('YEAR')
+    expect(normalizeSalary('€45k - €55k')).toEqual({ min: 45000, max: 55000, unit: 'YEAR', currency: 'EUR' })
+  })
+
+  it('negeert schaalnummers, uren per week en percentages', () => {
+    expect(normalizeSalary('CAO schaal 8: € 2.900 - € 4.100')).toEqual({
+      min: 2900, max: 4100, unit: 'MONTH', currency: 'EUR',
+    })
+    expect(normalizeSalary('32-40 uur per week, € 16 per uur + 8% vakantiegeld')).toEqual({
+      min: 16, max: 16, unit: 'HOUR', currency: 'EUR',
+    })
+    expect(normalizeSalary('€ 3.100 per maand, 13e maand')).toEqual({ min: 3100, max: 3100, unit: 'MONTH', currency: 'EUR' })
+  })
+
+  it('null zonder (plausibel) bedrag', () => {
+    expect(normalizeSalary('Conform CAO')).toBeNull()
+    expect(normalizeSalary('Marktconform')).toBeNull()
+    expect(normalizeSalary('')).toBeNull()
+    expect(normalizeSalary(null)).toBeNull()
+    expect(normalizeSalary('€ 500')).toBeNull()
+    expect(normalizeSalary('€ 3.000 per uur')).toBeNull()
+  })
+})
+
+describe('toSalaryUnit', () => {
+  it('schema.org unitText en Nederlandse periodes', () => {
+    expect(toSalaryUnit('MONTH')).toBe('MONTH')
+    expect(toSalaryUnit('hour')).toBe('HOUR')
+    expect(toSalaryUnit('per jaar')).toBe('YEAR')
+    expect(toSalaryUnit('kwartaal')).toBeNull()
+    expect(toSalaryUnit(undefined)).toBeNull()
+  })
+})
+
+describe('normalizeStructuredSalary', () => {
+  it('valideert JSON-LD min/max/unitText', () => {
+    expect(normalizeStructuredSalary({ min: 3000, max: 3800, unit: 'MONTH', currency: 'eur' })).toEqual({
+      min: 3000, max: 3800, unit: 'MONTH', currency: 'EUR',
+    })
+    expect(normalizeStructuredSalary({ min: 16, unit: 'HOUR' })).toEqual({ min: 16, max: 16, unit: 'HOUR', currency: 'EUR' })
+    expect(normalizeStructuredSalary({ min: 3000, unit: 'HOUR' })).toBeNull()
+  })
+})
+
+describe('salaryColumns', () => {
+  const NOW = '2026-06-20T10:00:00.000Z'
+
+  it('structured gaat voor de tekst', () => {
+    expect(salaryColumns('€ 2.800 per maand', { min: 16, max: 18, unit: 'HOUR' }, NOW)).toEqual({
+      salary_min: 16, salary_max: 18, salary_unit: 'HOUR', salary_currency: 'EUR', salary_normalized_at: NOW,
+    })
+  })
+
+  it('valt terug op de tekst en stempelt ook zonder salaris', () => {
+    expect(salaryColumns('€ 2.800 per maand', { min: 2800, unit: 'HOUR' }, NOW).salary_unit).toBe('MONTH')
+    expect(salaryColumns('n.o.t.k.', null, NOW)).toEqual({
+      salary_min: null, salary_max: null, salary_unit: null, salary_currency: 'EUR', salary_normalized_at: NOW,
+    })
+  })
+})
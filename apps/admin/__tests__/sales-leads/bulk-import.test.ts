@@ -0,0 +1,161 @@
+import { deflateRawSync } from 'zlib'
+import { describe, expect, it } from 'vitest'
+import { fileParserService } from '@/lib/services/file-parser.service'
+import {
+  classifyImportRows,
+  mapImportRows,
+  suggestColumnMapping,
+  summarizeImport,
+  validateColumnMapping,
+  type ExistingMatches,
+} from '@/lib/services/sales-leads/bulk-import.service'
+
+/** Minimale zip (deflate) zodat de .xlsx-reader zonder fixture-bestand getest kan worden. */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuf = Buffer.from(name)
+    const data = deflateRawSync(Buffer.from(content))
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt16LE(nameBuf.length, 26)
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt16LE(nameBuf.length, 28)
+    central.writeUInt32LE(offset, 42)
+    locals.push(local, nameBuf, data)
+    centrals.push(central, nameBuf)
+    offset += local.length + nameBuf.length + data.length
+  }
+  const centralDir = Buffer.concat(centrals)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(Object.keys(files).length, 10)
+  eocd.writeUInt32LE(centralDir.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, centralDir, eocd])
+}
+
+const noMatches = (): ExistingMatches => ({
+  runsByDomain: new Map(),
+  companiesByDomain: new Map(),
+  companiesByKvk: new Map(),
+})
+
+describe('fileParserService.parseTable', () => {
+  it('leest CSV met puntkomma, quotes en BOM', async () => {
+    const csv = '\uFEFFBedrijf;Website;Plaats\r\n"Bakker; Zonen";bakker.nl;Eindhoven\r\n"Het ""Huis""";huis.nl;\r\n'
+    const table = await fileParserService.parseTable(new File([csv], 'beurs.csv'))
+    expect(table.errors).toEqual([])
+    expect(table.headers).toEqual(['Bedrijf', 'Website', 'Plaats'])
+    expect(table.rows).toEqual([
+      ['Bakker; Zonen', 'bakker.nl', 'Eindhoven'],
+      ['Het "Huis"', 'huis.nl', ''],
+    ])
+  })
+
+  it('leest het eerste werkblad van een .xlsx (shared en inline strings, lege cellen)', async () => {
+    const xlsx = buildZip({
+      'xl/sharedStrings.xml': '<sst><si><t>Naam</t></si><si><t>Domein</t></si><si><t>A &amp; B</t></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>KvK</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>12345678</v></c></row>' +
+        '</sheetData></worksheet>',
+    })
+    const table = await fileParserService.parseTable(new File([new Uint8Array(xlsx)], 'lijst.xlsx'))
+    expect(table.errors).toEqual([])
+    expect(table.headers).toEqual(['Naam', 'Domein', 'KvK'])
+    expect(table.rows).toEqual([['A & B', '', '12345678']])
+  })
+
+  it('weigert .xls met een duidelijke melding', async () => {
+    const table = await fileParserService.parseTable(new File(['x'], 'oud.xls'))
+    expect(table.errors[0].message).toMatch(/\.xlsx/)
+  })
+})
+
+describe('suggestColumnMapping', () => {
+  it('herkent Nederlandse en Engelse kopteksten', () => {
+    expect(suggestColumnMapping(['Bedrijfsnaam', 'Website', 'KvK-nummer', 'Vestigingsplaats']))
+      .toEqual({ name: 0, domain: 1, kvk: 2, city: 3 })
+    expect(suggestColumnMapping(['Company', 'E-mail', 'City'])).toEqual({ name: 0, domain: 1, city: 2 })
+  })
+
+  it('vereist een domein- of KvK-kolom binnen het bestand', () => {
+    expect(validateColumnMapping({ name: 0 }, 2)).toMatch(/domein- of KvK-kolom/)
+    expect(validateColumnMapping({ domain: 5 }, 2)).toMatch(/Ongeldige kolom/)
+    expect(validateColumnMapping({ domain: 1 }, 2)).toBeNull()
+  })
+})
+
+describe('classifyImportRows', () => {
+  const rows = mapImportRows(
+    {
+      rows: [
+        ['Nieuw BV', 'https://www.nieuw.nl/contact', ''],
+        ['Dubbel BV', 'nieuw.nl', ''],
+        ['Run BV', 'run.nl', ''],
+        ['Bekend BV', 'bekend.nl', ''],
+        ['KvK BV', '', '1234 5678'],
+        ['Gmail', 'info@gmail.com', ''],
+        ['Leeg', 'geen domein', ''],
+      ],
+    },
+    { name: 0, domain: 1, kvk: 2 },
+  )
+
+  it('normaliseert domeinen en KvK en telt de kopregel mee in het regelnummer', () => {
+    expect(rows[0]).toMatchObject({ row_number: 2, domain: 'nieuw.nl' })
+    expect(rows[4]).toMatchObject({ domain: null, kvk: '12345678' })
+  })
+
+  it('classificeert tegen runs, bedrijven en dubbelingen in het bestand', () => {
+    const existing = noMatches()
+    existing.runsByDomain.set('run.nl', { id: 'run-1', status: 'review' })
+    existing.companiesByDomain.set('bekend.nl', { id: 'c-1', name: 'Bekend' })
+    existing.companiesByKvk.set('12345678', { id: 'c-2', name: 'KvK', hoofddomein: 'kvk-bv.nl' })
+
+    const result = classifyImportRows(rows, existing)
+    expect(result.map((r) => [r.row_number, r.classification])).toEqual([
+      [2, 'new'],
+      [3, 'duplicate_in_file'],
+      [4, 'existing_run'],
+      [5, 'existing_company'],
+      [6, 'existing_company'],
+      [7, 'invalid'],
+      [8, 'invalid'],
+    ])
+    expect(result[2].existing_run_id).toBe('run-1')
+    expect(result[4]).toMatchObject({ domain: 'kvk-bv.nl', existing_company_id: 'c-2' })
+    expect(result[6].message).toBe('Ongeldig domein "geen domein"')
+    expect(result[0]).not.toHaveProperty('raw_domain')
+  })
+})
+
+describe('summarizeImport', () => {
+  it('telt selectie, wachtrij en runs per status', () => {
+    const summary = summarizeImport(
+      [
+        { classification: 'new', include: true, dispatched_at: '2026-06-29T10:00:00Z' },
+        { classification: 'new', include: true, dispatched_at: null },
+        { classification: 'existing_company', include: false, dispatched_at: null },
+        { classification: 'invalid', include: false, dispatched_at: null },
+      ],
+      ['enriching'],
+    )
+    expect(summary).toEqual({
+      total: 4,
+      classification: { new: 2, existing_company: 1, existing_run: 0, duplicate_in_file: 0, invalid: 1 },
+      selected: 2,
+      pending: 1,
+      runs: { enriching: 1 },
+    })
+  })
+})
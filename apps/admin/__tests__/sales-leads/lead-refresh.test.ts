@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  contactStillPresent,
+  diffSnapshots,
+  formatSignalsNote,
+  type RefreshSnapshot,
+} from '@/lib/services/sales-leads/lead-refresh.service'
+import type { NormalizedContact } from '@/lib/services/sales-leads/types'
+
+const contact = (name: string, overrides: Partial<NormalizedContact> = {}): NormalizedContact => ({
+  name,
+  source_origin: ['apollo'],
+  ...overrides,
+})
+
+const snapshot = (overrides: Partial<RefreshSnapshot> = {}): RefreshSnapshot => ({
+  source_overrides: {},
+  hoofddomein: null,
+  deal_note_text: '',
+  company_name: 'ACME',
+  address: { street: 'Markt', number: '1', postcode: '5611 AA', city: 'Eindhoven' },
+  employee_count: 40,
+  vacancies: [{ title: 'Monteur', source: 'website_werkenbij' }],
+  tracked_contacts: [contact('Jan de Vries', { title: 'HR manager' })],
+  ...overrides,
+})
+
+const all = { vacanciesRefreshed: true, contactsRefreshed: true }
+
+describe('diffSnapshots', () => {
+  it('geeft geen signalen bij dezelfde data of alleen opmaakverschillen in het adres', () => {
+    const next = snapshot({ address: { street: 'Markt', number: '1', postcode: '5611aa', city: 'EINDHOVEN' } })
+    expect(diffSnapshots(snapshot(), next, all)).toEqual([])
+  })
+
+  it('detecteert verhuizing, groei en nieuwe vacatures', () => {
+    const next = snapshot({
+      address: { full: 'Stationsplein 9, 5611 BC Eindhoven', postcode: '5611 BC', number: '9' },
+      employee_count: 55,
+      vacancies: [
+        { title: 'Monteur', source: 'website_werkenbij' },
+        { title: 'Planner', source: 'website_werkenbij' },
+        { title: 'planner ', source: 'website_werkenbij' },
+      ],
+    })
+    const signals = diffSnapshots(snapshot(), next, all)
+    expect(signals.map((s) => s.type)).toEqual(['address_moved', 'headcount_change', 'new_vacancies'])
+    expect(signals[0]).toMatchObject({ from: 'Markt 1, 5611 AA Eindhoven', to: 'Stationsplein 9, 5611 BC Eindhoven' })
+    expect(signals[1]).toMatchObject({ from: 40, to: 55, change_pct: 0.375 })
+    expect(signals[2]).toMatchObject({ count: 1, titles: ['Planner'] })
+  })
+
+  it('negeert kleine personeelsschommelingen', () => {
+    expect(diffSnapshots(snapshot(), snapshot({ employee_count: 44 }), all)).toEqual([])
+    expect(diffSnapshots(snapshot({ employee_count: 10 }), snapshot({ employee_count: 14 }), all)).toEqual([])
+  })
+
+  it('meldt vertrokken contacten en vacatures alleen als die bronnen ververst zijn', () => {
+    const next = snapshot({ tracked_contacts: [], vacancies: [{ title: 'Planner', source: 'website_werkenbij' }] })
+    expect(diffSnapshots(snapshot(), next, { vacanciesRefreshed: false, contactsRefreshed: false })).toEqual([])
+
+    const signals = diffSnapshots(snapshot(), next, all)
+    expect(signals.find((s) => s.type === 'contact_left')).toMatchObject({
+      name: 'Jan de Vries',
+      summary: 'Jan de Vries (HR manager) niet meer gevonden bij het bedrijf',
+    })
+  })
+})
+
+describe('contactStillPresent', () => {
+  it('matcht op volledige naam of op voornaam + beginletter achternaam bij cold candidates', () => {
+    const jan = contact('Jan de Vries', { first_name: 'Jan', last_name: 'Vries' })
+    expect(contactStillPresent(jan, { contacts: [contact('jan  de vries')], cold: [] })).toBe(true)
+    expect(contactStillPresent(jan, {
+      contacts: [],
+      cold: [{ apollo_id: 'a1', first_name: 'Jan', last_name_obfuscated: 'V***s', has_email: true, has_direct_phone: 'no' }],
+    })).toBe(true)
+    expect(contactStillPresent(jan, {
+      contacts: [contact('Piet Jansen')],
+      cold: [{ apollo_id: 'a2', first_name: 'Jan', last_name_obfuscated: 'B***n', has_email: true, has_direct_phone: 'no' }],
+    })).toBe(false)
+  })
+})
+
+describe('formatSignalsNote', () => {
+  it('escapet HTML in samenvattingen', () => {
+    expect(formatSignalsNote([{ type: 'contact_left', summary: 'A <b>', name: 'A', title: null }]))
+      .toContain('<li>A &lt;b&gt;</li>')
+  })
+})
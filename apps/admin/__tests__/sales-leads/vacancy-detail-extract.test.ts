@@ -1,8 +1,16 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+vi.mock('@/lib/scrapers/werkenindekempen/ai-parser', async (orig) => {
+  const actual = await orig<typeof import('@/lib/scrapers/werkenindekempen/ai-parser')>()
+  return { ...actual, extractFromDescription: vi.fn(actual.extractFromDescription) }
+})
+
 import {
   parseStructuredDetail,
   extractVacancyDetailFromHtml,
+  detailFieldsToJobPostingUpdate,
 } from '@/lib/services/sales-leads/vacancy-detail/extract'
+import { extractFromDescription } from '@/lib/scrapers/werkenindekempen/ai-parser'
 
 const JSON_LD_HTML = `<!doctype html><html><head>
 <script type="application/ld+json">${JSON.stringify({
@@ -61,10 +69,71 @@ describe('extractVacancyDetailFromHtml (zonder Mistral-key)', () => {
     const fields = await extractVacancyDetailFromHtml(JSON_LD_HTML, 'https://x.nl/vac/1')
     expect(fields.salary).toContain('3.000')
     expect(fields.employment).toBe('Fulltime/Parttime')
-    // Mistral uit -> geen AI-velden
-    expect(fields.education_level).toBeNull()
+    // Opleiding via tekstpatroon ("MBO-niveau"); Mistral uit -> overige AI-velden leeg
+    expect(fields.education_level).toBe('MBO')
+    expect(fields.field_methods?.education_level).toBe('pattern')
     expect(fields.career_level).toBeNull()
     expect(fields.working_hours_min).toBeNull()
     expect(fields.categories).toBeNull()
   })
 })
+
+const MICRODATA_HTML = `<!doctype html><html><body>
+<div itemscope itemtype="https://schema.org/JobPosting">
+  <h1 itemprop="title">Senior Servicemonteur</h1>
+  <meta itemprop="datePosted" content="2026-09-01">
+  <span itemprop="employmentType">FULL_TIME</span>
+  <div itemprop="description"><p>Jij onderhoudt installaties bij klanten in de regio. Je werkt 38-40 uur per week en hebt een MBO niveau 4 diploma.</p></div>
+  <div itemprop="baseSalary" itemscope itemtype="https://schema.org/MonetaryAmount">
+    <meta itemprop="currency" content="EUR">
+    <div itemprop="value" itemscope itemtype="https://schema.org/QuantitativeValue">
+      <meta itemprop="minValue" content="3.200"><meta itemprop="maxValue" content="4.100">
+      <meta itemprop="unitText" content="MONTH">
+    </div>
+  </div>
+</div></body></html>`
+
+describe('extractVacancyDetailFromHtml (Mistral alleen voor ontbrekende velden)', () => {
+  beforeEach(() => {
+    vi.mocked(extractFromDescription).mockReset()
+    vi.mocked(extractFromDescription).mockResolvedValue({
+      contact: null,
+      working_hours_min: 20,
+      working_hours_max: 24,
+      education_level: 'HBO',
+      career_level: 'Junior',
+      categories: ['Techniek'],
+    })
+  })
+
+  it('microdata + patronen vullen alles behalve categories; Mistral vult alleen categories', async () => {
+    const fields = await extractVacancyDetailFromHtml(MICRODATA_HTML, 'https://x.nl/vac/3')
+    expect(fields.salary).toContain('3.200')
+    expect(fields.employment).toBe('Fulltime')
+    expect(fields.working_hours_min).toBe(38)
+    expect(fields.working_hours_max).toBe(40)
+    expect(fields.education_level).toBe('MBO')
+    expect(fields.career_level).toBe('Senior')
+    expect(fields.categories).toBe('Techniek')
+    expect(fields.field_methods).toMatchObject({
+      salary: 'microdata',
+      description: 'microdata',
+      working_hours_min: 'pattern',
+      education_level: 'pattern',
+      career_level: 'pattern',
+      categories: 'mistral',
+    })
+    expect(detailFieldsToJobPostingUpdate(fields).detail_field_methods).toEqual(fields.field_methods)
+  })
+
+  it('geen Mistral-call als structured data + patronen alle AI-velden vullen', async () => {
+    const html = MICRODATA_HTML.replace(
+      '<span itemprop="employmentType">',
+      '<span itemprop="industry">Installatietechniek</span><span itemprop="employmentType">',
+    )
+    const fields = await extractVacancyDetailFromHtml(html, 'https://x.nl/vac/4')
+    expect(extractFromDescription).not.toHaveBeenCalled()
+    expect(fields.categories).toBe('Installatietechniek')
+    expect(fields.field_methods?.categories).toBe('microdata')
+  })
+})
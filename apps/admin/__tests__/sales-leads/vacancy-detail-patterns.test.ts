@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractWorkingHours,
+  extractEducationLevel,
+  extractCareerLevel,
+} from '@/lib/services/sales-leads/vacancy-detail/patterns'
+
+describe('extractWorkingHours', () => {
+  it.each([
+    ['Je werkt 32-40 uur per week.', { min: 32, max: 40 }],
+    ['Voor 24 tot 32 uur', { min: 24, max: 32 }],
+    ['16 t/m 24 u', { min: 16, max: 24 }],
+    ['Fulltime, 40 uur per week', { min: 40, max: null }],
+    ['Een 36-urige werkweek', { min: 36, max: null }],
+    ['38 uur p/w', { min: 38, max: null }],
+  ])('%s', (text, expected) => {
+    expect(extractWorkingHours(text)).toEqual(expected)
+  })
+
+  it('negeert tijden, bedragen en onzinnige uren', () => {
+    expect(extractWorkingHours('Werktijden 08:00 - 17:00 uur')).toBeNull()
+    expect(extractWorkingHours('Salaris 2.500-3.000 per maand')).toBeNull()
+    expect(extractWorkingHours('Bereikbaar 24 uur per dag')).toBeNull()
+    expect(extractWorkingHours('90 uur per week')).toBeNull()
+    expect(extractWorkingHours('40-32 uur')).toBeNull()
+  })
+})
+
+describe('extractEducationLevel', () => {
+  it('herkent niveaus en kiest de hoogste eis', () => {
+    expect(extractEducationLevel('Je hebt MBO niveau 4 afgerond')).toBe('MBO')
+    expect(extractEducationLevel('een afgeronde mbo-3 opleiding')).toBe('MBO')
+    expect(extractEducationLevel('HBO/WO werk- en denkniveau')).toBe('WO')
+    expect(extractEducationLevel('minimaal een bachelor')).toBe('HBO')
+    expect(extractEducationLevel('vmbo of havo')).toBe('HAVO')
+  })
+
+  it('geen vals WO op "wo" (woensdag) of "Scrum Master"', () => {
+    expect(extractEducationLevel('Werkdagen ma t/m wo')).toBeNull()
+    expect(extractEducationLevel('Je werkt samen met de Scrum Master')).toBeNull()
+  })
+})
+
+describe('extractCareerLevel', () => {
+  it('één expliciet niveau', () => {
+    expect(extractCareerLevel('Wij zoeken een senior developer')).toBe('Senior')
+    expect(extractCareerLevel('Afstudeerstage marketing')).toBe('Stage')
+  })
+
+  it('meerdere niveaus is ambigu', () => {
+    expect(extractCareerLevel('Junior of medior consultant')).toBeNull()
+    expect(extractCareerLevel('Een leuke baan')).toBeNull()
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractStructuredJobPosting,
+  unflattenDevalue,
+} from '@/lib/services/sales-leads/vacancy-detail/structured-data'
+
+const LONG = 'Als medewerker binnendienst ben je het aanspreekpunt voor klanten en collega\'s. '.repeat(4)
+
+describe('extractStructuredJobPosting', () => {
+  it('JSON-LD in een @graph met @type-array', () => {
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebPage', name: 'Vacatures' },
+        { '@type': ['JobPosting'], title: 'Planner', datePosted: '2026-09-01', workHours: '32-36' },
+      ],
+    })}</script>`
+    const r = extractStructuredJobPosting(html)
+    expect(r?.format).toBe('json_ld')
+    expect(r?.posting).toMatchObject({ title: 'Planner', datePosted: '2026-09-01', workHours: '32-36' })
+  })
+
+  it('JSON-LD zonder werkgever/locatie is geldig (lenient)', () => {
+    const html = `<script type="application/ld+json">{"@type":"JobPosting","title":"Monteur"}</script>`
+    expect(extractStructuredJobPosting(html)?.posting.title).toBe('Monteur')
+  })
+
+  it('RDFa met schema:-prefix', () => {
+    const html = `<div vocab="https://schema.org/" typeof="JobPosting">
+      <h1 property="title">Verpleegkundige</h1>
+      <span property="schema:employmentType">PART_TIME</span>
+      <time property="datePosted" datetime="2026-08-15">15 augustus</time>
+      <div property="description"><p>Zorg voor onze bewoners.</p></div>
+    </div>`
+    const r = extractStructuredJobPosting(html)
+    expect(r?.format).toBe('rdfa')
+    expect(r?.posting).toMatchObject({
+      title: 'Verpleegkundige',
+      employmentType: 'PART_TIME',
+      datePosted: '2026-08-15',
+      description: '<p>Zorg voor onze bewoners.</p>',
+    })
+  })
+
+  it('__NEXT_DATA__ zonder schema.org-type: heuristiek op vacature-achtige objecten', () => {
+    const data = {
+      props: {
+        pageProps: {
+          menu: [{ title: 'Home' }],
+          vacancy: { title: 'Medewerker binnendienst', content: LONG, hoursPerWeek: '24-32', publishedAt: '2026-09-10' },
+        },
+      },
+    }
+    const html = `<script id="__NEXT_DATA__" type="application/json">${JSON.stringify(data)}</script>`
+    const r = extractStructuredJobPosting(html)
+    expect(r?.format).toBe('next_data')
+    expect(r?.posting).toMatchObject({ title: 'Medewerker binnendienst', workHours: '24-32', datePosted: '2026-09-10' })
+  })
+
+  it('Nuxt 3 payload (devalue) met Reactive-wrapper', () => {
+    // devalue: [root, ...] met indexen; ["Reactive", i] wrapt state.
+    const payload = [
+      { data: 1 },
+      ['Reactive', 2],
+      { job: 3 },
+      { '@type': 4, title: 5, employmentType: 6 },
+      'JobPosting',
+      'Chauffeur C/E',
+      'FULL_TIME',
+    ]
+    const html = `<script type="application/json" id="__NUXT_DATA__">${JSON.stringify(payload)}</script>`
+    const r = extractStructuredJobPosting(html)
+    expect(r?.format).toBe('nuxt_data')
+    expect(r?.posting).toMatchObject({ title: 'Chauffeur C/E', employmentType: 'FULL_TIME' })
+  })
+
+  it('JSON-LD wint van microdata; geen structured data -> null', () => {
+    const html = `<script type="application/ld+json">{"@type":"JobPosting","title":"A"}</script>
+      <div itemscope itemtype="https://schema.org/JobPosting"><span itemprop="title">B</span></div>`
+    expect(extractStructuredJobPosting(html)?.posting.title).toBe('A')
+    expect(extractStructuredJobPosting('<html><body><h1>Vacature</h1></body></html>')).toBeNull()
+  })
+})
+
+describe('unflattenDevalue', () => {
+  it('lost indexen en gedeelde referenties op', () => {
+    expect(unflattenDevalue([{ a: 1, b: 1 }, { x: 2 }, 'y'])).toEqual({ a: { x: 'y' }, b: { x: 'y' } })
+    expect(unflattenDevalue('geen array')).toBeNull()
+  })
+})
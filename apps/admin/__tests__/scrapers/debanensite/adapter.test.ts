@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { debanensiteAdapter, mapDetail, toListing } from "@/lib/scrapers/debanensite/adapter";
+import { getScraperAdapter } from "@/lib/scrapers/shared";
+import { getEmptyResult } from "@/lib/scrapers/debanensite/ai-parser";
+import type { NextDataJobPosting } from "@/lib/scrapers/debanensite/types";
+
+const job: NextDataJobPosting = {
+  _id: "abc-123",
+  _source: {
+    title: "Magazijnmedewerker",
+    description: "<p>Orderpicken</p>",
+    slug: "magazijnmedewerker-venlo",
+    companyBranch: { name: "Logistiek BV" },
+    address: { city: "Venlo", location: [6.17, 51.37] },
+    employmentType: { name: "Full-time" },
+  },
+};
+
+const listHtml = (jobs: NextDataJobPosting[], page: number, total: number) => `
+  <html><body>
+    <span>Pagina ${page} van ${total}</span>
+    <script id="__NEXT_DATA__" type="application/json">${JSON.stringify({ props: { pageProps: { jobPostings: jobs, totalResults: jobs.length } } })}</script>
+  </body></html>`;
+
+const detailHtml = `
+  <script type="application/ld+json">${JSON.stringify({
+    "@type": "JobPosting",
+    datePosted: "2026-06-01",
+    validThrough: "2026-07-01",
+    description: "<p>Kort</p>",
+    hiringOrganization: { name: "Logistiek BV", logo: "https://debanensite.nl/logo.png" },
+    jobLocation: { address: { streetAddress: "Havenweg 1", postalCode: "5928 AA", addressLocality: "Venlo", addressRegion: "Limburg" } },
+    baseSalary: { value: { minValue: 2800, maxValue: 3200, unitText: "MONTH" } },
+  })}</script>`;
+
+function stubFetch(status: number, body: string) {
+  const fetchMock = vi.fn(async () => new Response(body, { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("debanensite adapter", () => {
+  test("staat in de registry", () => {
+    expect(getScraperAdapter("debanensite")).toBe(debanensiteAdapter);
+  });
+
+  test("toListing mapt de lijst-JSON", () => {
+    const listing = toListing(job);
+    expect(listing.externalId).toBe("abc-123");
+    expect(listing.url).toBe("https://debanensite.nl/vacature/magazijnmedewerker-venlo/abc-123");
+    expect(listing.city).toBe("Venlo");
+    expect(listing.fields).toMatchObject({ employment: "Fulltime", longitude: "6.17", latitude: "51.37" });
+  });
+
+  test("scanPage geeft items en done op de laatste pagina", async () => {
+    stubFetch(200, listHtml([job], 3, 3));
+    const page = await debanensiteAdapter.scanPage(null, 3);
+    expect(page.items).toHaveLength(1);
+    expect(page.done).toBe(true);
+  });
+
+  test("scanPage zonder __NEXT_DATA__ throwt i.p.v. een lege pagina", async () => {
+    stubFetch(200, "<html><body>Onderhoud</body></html>");
+    await expect(debanensiteAdapter.scanPage(null, 1)).rejects.toThrow(/__NEXT_DATA__/);
+  });
+
+  test("fetchDetail meldt notFound bij 404", async () => {
+    stubFetch(404, "");
+    expect(await debanensiteAdapter.fetchDetail(null, { externalId: "x", url: "https://debanensite.nl/vacature/x" })).toEqual({
+      notFound: true,
+    });
+  });
+
+  test("fetchDetail + mapDetail halen werkgever, adres en salaris uit JSON-LD", async () => {
+    stubFetch(200, detailHtml);
+    const result = await debanensiteAdapter.fetchDetail(null, { externalId: "abc-123", url: "https://debanensite.nl/vacature/abc-123" });
+    if (result.notFound) throw new Error("verwacht detail");
+
+    const mapped = mapDetail(result.detail);
+    expect(mapped.expiresAt).toBe("2026-07-01");
+    expect(mapped.employer).toMatchObject({ name: "Logistiek BV", postalCode: "5928 AA", streetAddress: "Havenweg 1" });
+    expect(mapped.jobPatch).toMatchObject({ state: "Limburg", published_at: "2026-06-01" });
+    expect(String(mapped.jobPatch.salary)).toMatch(/per maand$/);
+    expect(mapped.contact).toBeNull();
+  });
+
+  test("mapDetail zonder werkgevernaam levert geen employer", () => {
+    const mapped = mapDetail({
+      page: {
+        datePosted: null, validThrough: null, province: null, workField: null, educationLevel: null,
+        companyAddress: null, salaryMin: null, salaryMax: null, salaryPeriod: null, logoUrl: null,
+        description: null, companyName: null,
+      },
+      ai: { ...getEmptyResult(), contact_name: "Piet Jansen", working_hours: "32" },
+    });
+    expect(mapped.employer).toBeNull();
+    expect(mapped.contact).toMatchObject({ name: "Piet Jansen" });
+    expect(mapped.jobPatch.working_hours_min).toBe(32);
+  });
+});
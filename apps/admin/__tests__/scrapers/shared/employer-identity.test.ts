@@ -0,0 +1,116 @@
+import { describe, test, expect } from "vitest";
+import { findOrCreateEmployer, domainFromWebsite } from "@/lib/scrapers/shared/employer-identity";
+import type { EmployerIdentity } from "@/lib/scrapers/shared/adapter";
+
+const identity: EmployerIdentity = {
+  externalId: "emp-42",
+  name: "Bakkerij De Kempen B.V.",
+  website: "https://www.bakkerijdekempen.nl/over-ons",
+  city: "Veldhoven",
+  postalCode: "5504AA",
+  streetAddress: "Dorpstraat 1",
+  isBemiddelaar: false,
+};
+
+/** Supabase-mock: hits per tabel+kolom, registreert upserts/updates/inserts. */
+function mockClient(hits: { external?: string; hoofddomein?: string; nameAddress?: string; normalized?: string }) {
+  const upserts: Array<Record<string, unknown>> = [];
+  const updates: Array<Record<string, unknown>> = [];
+  const inserts: Array<Record<string, unknown>> = [];
+  const client = {
+    from: (table: string) => ({
+      select: () => {
+        const cols: string[] = [];
+        const q = {
+          eq: (col: string) => {
+            cols.push(col);
+            return q;
+          },
+          maybeSingle: async () => {
+            if (table === "company_external_ids") {
+              return { data: hits.external ? { company_id: hits.external } : null, error: null };
+            }
+            if (cols.includes("hoofddomein")) return { data: hits.hoofddomein ? { id: hits.hoofddomein } : null, error: null };
+            if (cols.includes("postal_code")) return { data: hits.nameAddress ? { id: hits.nameAddress } : null, error: null };
+            return { data: hits.normalized ? { id: hits.normalized } : null, error: null };
+          },
+        };
+        return q;
+      },
+      upsert: async (row: Record<string, unknown>) => {
+        upserts.push(row);
+        return { error: null };
+      },
+      update: (patch: Record<string, unknown>) => ({
+        eq: async () => {
+          updates.push(patch);
+          return { error: null };
+        },
+      }),
+      insert: (row: Record<string, unknown>) => {
+        inserts.push(row);
+        return { select: () => ({ single: async () => ({ data: { id: "new-1" }, error: null }) }) };
+      },
+    }),
+    _upserts: upserts,
+    _updates: updates,
+    _inserts: inserts,
+  };
+  return client;
+}
+
+describe("domainFromWebsite", () => {
+  test("strip www. en pad, null bij leeg", () => {
+    expect(domainFromWebsite("https://www.bakkerijdekempen.nl/over-ons")).toBe("bakkerijdekempen.nl");
+    expect(domainFromWebsite("jobs.acme.nl")).toBe("jobs.acme.nl");
+    expect(domainFromWebsite(null)).toBeNull();
+  });
+});
+
+describe("findOrCreateEmployer", () => {
+  test("laag 1: bron-id hit, geen backfill", async () => {
+    const c = mockClient({ external: "c-1" });
+    const r = await findOrCreateEmployer(c as any, identity, "src-1");
+    expect(r).toEqual({ id: "c-1", matchedLayer: "external_id" });
+    expect(c._upserts).toHaveLength(0);
+  });
+
+  test("laag 2: hoofddomein hit legt bron-id vast", async () => {
+    const c = mockClient({ hoofddomein: "c-2" });
+    const r = await findOrCreateEmployer(c as any, identity, "src-1");
+    expect(r.matchedLayer).toBe("hoofddomein");
+    expect(c._upserts[0]).toEqual({ source_id: "src-1", external_id: "emp-42", company_id: "c-2" });
+  });
+
+  test("laag 3: naam + adres", async () => {
+    const c = mockClient({ nameAddress: "c-3" });
+    const r = await findOrCreateEmployer(c as any, { ...identity, website: null }, "src-1");
+    expect(r).toEqual(expect.objectContaining({ id: "c-3", matchedLayer: "name_address" }));
+  });
+
+  test("laag 4: normalized_name alleen met bron-id", async () => {
+    const withId = await findOrCreateEmployer(mockClient({ normalized: "c-4" }) as any, { ...identity, website: null, postalCode: null }, "src-1");
+    expect(withId.matchedLayer).toBe("normalized_name");
+
+    const c = mockClient({ normalized: "c-4" });
+    const withoutId = await findOrCreateEmployer(c as any, { ...identity, externalId: null, website: null, postalCode: null }, "src-1");
+    expect(withoutId.matchedLayer).toBe("new");
+    expect(c._upserts).toHaveLength(0);
+  });
+
+  test("bemiddelaar-vlag gaat bij fallback-match alleen naar true", async () => {
+    const c = mockClient({ hoofddomein: "c-2" });
+    await findOrCreateEmployer(c as any, { ...identity, isBemiddelaar: true }, "src-1");
+    expect(c._updates).toEqual([{ is_bemiddelaar: true }]);
+  });
+
+  test("create: nieuwe company met hoofddomein + bron-id mapping", async () => {
+    const c = mockClient({});
+    const r = await findOrCreateEmployer(c as any, identity, "src-1");
+    expect(r).toEqual({ id: "new-1", matchedLayer: "new", conflict: undefined });
+    expect(c._inserts[0]).toEqual(
+      expect.objectContaining({ normalized_name: "bakkerij de kempen bv", hoofddomein: "bakkerijdekempen.nl", source: "src-1", status: "Prospect" })
+    );
+    expect(c._upserts[0]).toEqual(expect.objectContaining({ company_id: "new-1", external_id: "emp-42" }));
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/scrapers/shared/db-client", () => ({
+  getOrCreateJobSource: vi.fn(async () => "src-1"),
+  updateJobSourceStatus: vi.fn(async () => {}),
+}));
+vi.mock("@/lib/scrapers/shared/scrape-queue", () => ({
+  enqueue: vi.fn(async (_s: unknown, _src: string, ids: string[]) => ids.length),
+  claimBatch: vi.fn(),
+  finalize: vi.fn(async () => {}),
+  reapStaleProcessing: vi.fn(async () => 0),
+}));
+vi.mock("@/lib/scrapers/shared/scan-state", async (orig) => ({
+  ...(await orig<typeof import("@/lib/scrapers/shared/scan-state")>()),
+  getScanState: vi.fn(),
+  startPass: vi.fn(),
+  saveCursor: vi.fn(async () => {}),
+  completePass: vi.fn(),
+}));
+vi.mock("@/lib/scrapers/shared/delisting", async (orig) => ({
+  ...(await orig<typeof import("@/lib/scrapers/shared/delisting")>()),
+  archiveNotSeenSince: vi.fn(async () => 4),
+  archivePosting: vi.fn(),
+}));
+vi.mock("@/lib/scrapers/shared/employer-identity", () => ({ findOrCreateEmployer: vi.fn() }));
+vi.mock("@/lib/scrapers/shared/contact-service", () => ({ findOrCreateContact: vi.fn() }));
+
+import {
+  runListScan,
+  runDetailWorker,
+  processQueued,
+  pageAllKnown,
+  isExpired,
+} from "@/lib/scrapers/shared/runtime";
+import { enqueue, claimBatch, finalize } from "@/lib/scrapers/shared/scrape-queue";
+import { getScanState, startPass, saveCursor, completePass } from "@/lib/scrapers/shared/scan-state";
+import { archiveNotSeenSince, archivePosting } from "@/lib/scrapers/shared/delisting";
+import { findOrCreateEmployer } from "@/lib/scrapers/shared/employer-identity";
+import { findOrCreateContact } from "@/lib/scrapers/shared/contact-service";
+import type { ScraperAdapter, ListPage } from "@/lib/scrapers/shared/adapter";
+
+const NOW = "2026-06-10T12:00:00.000Z";
+const noSleep = async () => {};
+
+interface Item {
+  id: string;
+}
+
+/** Supabase-mock: `known` externalIds bestaan al in job_postings, de rest wordt geinsert. */
+function mockSupabase(known: string[] = [], row: { external_vacancy_id: string | null; url: string } | null = null) {
+  const inserts: Array<Record<string, unknown>> = [];
+  const updates: Array<Record<string, unknown>> = [];
+  const client = {
+    from: () => ({
+      select: () => {
+        const filters: Record<string, unknown> = {};
+        const q = {
+          eq: (col: string, val: unknown) => {
+            filters[col] = val;
+            return q;
+          },
+          maybeSingle: async () => {
+            if ("id" in filters) return { data: row, error: null };
+            const ext = filters.external_vacancy_id as string;
+            return { data: known.includes(ext) ? { id: `jp-${ext}` } : null, error: null };
+          },
+        };
+        return q;
+      },
+      insert: (r: Record<string, unknown>) => {
+        inserts.push(r);
+        return { select: () => ({ single: async () => ({ data: { id: `jp-${r.external_vacancy_id}` }, error: null }) }) };
+      },
+      update: (patch: Record<string, unknown>) => ({
+        eq: async () => {
+          updates.push(patch);
+          return { error: null };
+        },
+      }),
+    }),
+    _inserts: inserts,
+    _updates: updates,
+  };
+  return client;
+}
+
+function adapter(pages: ListPage<Item>[], detail?: unknown): ScraperAdapter<object, Item, unknown> {
+  return {
+    slug: "testbord",
+    sourceName: "Testbord",
+    logPrefix: "[testbord]",
+    createSession: async () => ({}),
+    scanPage: vi.fn(async (_s: object, page: number) => pages[page - 1] ?? { items: [], done: true }),
+    toListing: (item: Item) => ({ externalId: item.id, url: `https://bord.test/${item.id}`, title: `Vacature ${item.id}`, city: "Eindhoven" }),
+    fetchDetail: vi.fn(async () => (detail === undefined ? { notFound: true as const } : { notFound: false as const, detail })),
+    mapDetail: (d: unknown) => d as never,
+  };
+}
+
+beforeEach(() => vi.clearAllMocks());
+
+describe("pure helpers", () => {
+  test("pageAllKnown: alleen true voor niet-lege pagina met enkel seen", () => {
+    expect(pageAllKnown([])).toBe(false);
+    expect(pageAllKnown(["seen", "seen"])).toBe(true);
+    expect(pageAllKnown(["seen", "new"])).toBe(false);
+  });
+
+  test("isExpired: null en ongeldige datum zijn niet verlopen", () => {
+    expect(isExpired(null, NOW)).toBe(false);
+    expect(isExpired("geen-datum", NOW)).toBe(false);
+    expect(isExpired("2026-06-01T00:00:00Z", NOW)).toBe(true);
+    expect(isExpired("2026-07-01T00:00:00Z", NOW)).toBe(false);
+  });
+});
+
+describe("runListScan", () => {
+  test("incrementeel: insert nieuwe, enqueue, stopt na 2 volledig-bekende pagina's", async () => {
+    const a = adapter([
+      { items: [{ id: "1" }, { id: "2" }], done: false },
+      { items: [{ id: "3" }], done: false },
+      { items: [{ id: "4" }], done: false },
+      { items: [{ id: "5" }], done: false },
+    ]);
+    const c = mockSupabase(["3", "4"]);
+
+    const r = await runListScan(c as any, a, { mode: "incremental", sleep: noSleep });
+    expect(r.success).toBe(true);
+    expect(r.stats).toEqual(expect.objectContaining({ new: 2, seen: 2, pages_scanned: 3, stop_reason: "known_pages" }));
+    expect(a.scanPage).toHaveBeenCalledTimes(3);
+    expect(c._inserts[0]).toEqual(
+      expect.objectContaining({ external_vacancy_id: "1", source_id: "src-1", company_id: null, location: "Eindhoven", review_status: "pending" })
+    );
+    expect(enqueue).toHaveBeenCalledWith(c, "src-1", ["jp-1", "jp-2"], expect.stringMatching(/^testbord-/));
+    expect(archiveNotSeenSince).not.toHaveBeenCalled();
+  });
+
+  test("volledig: niet due -> skipped zonder scan", async () => {
+    (getScanState as any).mockResolvedValue({ source_id: "src-1", pass_cursor: 0, pass_started_at: null, pass_completed_at: new Date().toISOString() });
+    const a = adapter([]);
+    const r = await runListScan(mockSupabase() as any, a, { mode: "full", sleep: noSleep });
+    expect(r).toEqual(expect.objectContaining({ success: true, skipped: "pass niet due" }));
+    expect(a.scanPage).not.toHaveBeenCalled();
+  });
+
+  test("volledig: einde bron -> delisting-sweep + completePass", async () => {
+    (getScanState as any).mockResolvedValue({ source_id: "src-1", pass_cursor: 0, pass_started_at: null, pass_completed_at: null });
+    const a = adapter([
+      { items: [{ id: "1" }], done: false },
+      { items: [{ id: "2" }], done: true },
+    ]);
+    const r = await runListScan(mockSupabase(["1", "2"]) as any, a, { mode: "full", sleep: noSleep });
+    expect(startPass).toHaveBeenCalledOnce();
+    expect(r.stats).toEqual(expect.objectContaining({ pass_complete: true, archived: 4, stop_reason: "end_of_source" }));
+    expect(archiveNotSeenSince).toHaveBeenCalledWith(expect.anything(), "src-1", expect.any(String), expect.any(String), "not_in_source");
+    expect(completePass).toHaveBeenCalledOnce();
+    expect(saveCursor).not.toHaveBeenCalled();
+  });
+
+  test("volledig: maxPages bereikt -> cursor bewaren, geen sweep", async () => {
+    (getScanState as any).mockResolvedValue({ source_id: "src-1", pass_cursor: 5, pass_started_at: "2026-06-08T00:00:00Z", pass_completed_at: null });
+    const a = adapter(Array.from({ length: 10 }, (_, i) => ({ items: [{ id: String(i + 1) }], done: false })));
+    const r = await runListScan(mockSupabase() as any, a, { mode: "full", maxPages: 2, sleep: noSleep });
+    expect(a.scanPage).toHaveBeenNthCalledWith(1, expect.anything(), 5);
+    expect(r.stats.stop_reason).toBe("max_pages");
+    expect(saveCursor).toHaveBeenCalledWith(expect.anything(), "src-1", 7);
+    expect(archiveNotSeenSince).not.toHaveBeenCalled();
+  });
+});
+
+describe("processQueued", () => {
+  const ROW = { external_vacancy_id: "77", url: "https://bord.test/77" };
+
+  test("verrijkt: employer-dedup + job patch + contact + finalize success", async () => {
+    (findOrCreateEmployer as any).mockResolvedValue({ id: "comp-1", matchedLayer: "hoofddomein" });
+    const a = adapter([], {
+      jobPatch: { description: "tekst" },
+      employer: { externalId: "e1", name: "Bakkerij", website: null, city: null, postalCode: null, streetAddress: null },
+      contact: { name: "Jan", email: "jan@bakkerij.nl" },
+      expiresAt: "2026-12-31T00:00:00.000Z",
+    });
+    const c = mockSupabase([], ROW);
+
+    const r = await processQueued(c as any, a, {}, "src-1", "jp-77", NOW);
+    expect(r).toBe("enriched");
+    expect(a.fetchDetail).toHaveBeenCalledWith({}, { externalId: "77", url: "https://bord.test/77" });
+    expect(c._updates.at(-1)).toEqual(
+      expect.objectContaining({ description: "tekst", company_id: "comp-1", detail_scraped_at: NOW, expires_at: "2026-12-31T00:00:00.000Z" })
+    );
+    expect(findOrCreateContact).toHaveBeenCalledWith(c, "comp-1", expect.objectContaining({ email: "jan@bakkerij.nl" }), "Testbord");
+    expect(finalize).toHaveBeenCalledWith(c, "jp-77", expect.objectContaining({ status: "success" }));
+  });
+
+  test("zonder werkgever blijft een bestaande company_id staan", async () => {
+    const a = adapter([], { jobPatch: { description: "tekst" }, employer: null, contact: null, expiresAt: null });
+    const c = mockSupabase([], ROW);
+
+    expect(await processQueued(c as any, a, {}, "src-1", "jp-77", NOW)).toBe("enriched");
+    expect(findOrCreateEmployer).not.toHaveBeenCalled();
+    expect(c._updates.at(-1)).toMatchObject({ description: "tekst", detail_scraped_at: NOW });
+    expect(c._updates.at(-1)).not.toHaveProperty("company_id");
+  });
+
+  test("404 -> archiveert met delistReason, geen dedup", async () => {
+    const a = { ...adapter([]), delistReason: "not_in_testbord" };
+    const r = await processQueued(mockSupabase([], ROW) as any, a, {}, "src-1", "jp-77", NOW);
+    expect(r).toBe("archived_gone");
+    expect(archivePosting).toHaveBeenCalledWith(expect.anything(), "jp-77", "not_in_testbord", NOW);
+    expect(findOrCreateEmployer).not.toHaveBeenCalled();
+  });
+
+  test("verstreken vervaldatum -> archiveert als expired", async () => {
+    const a = adapter([], { jobPatch: {}, employer: null, contact: null, expiresAt: "2026-01-01T00:00:00Z" });
+    const r = await processQueued(mockSupabase([], ROW) as any, a, {}, "src-1", "jp-77", NOW);
+    expect(r).toBe("archived_expired");
+    expect(archivePosting).toHaveBeenCalledWith(expect.anything(), "jp-77", "expired", NOW);
+  });
+
+  test("zonder external_vacancy_id -> validation_failed", async () => {
+    const r = await processQueued(mockSupabase([], null) as any, adapter([]), {}, "src-1", "jp-77", NOW);
+    expect(r).toBe("skipped_no_ref");
+    expect(finalize).toHaveBeenCalledWith(expect.anything(), "jp-77", expect.objectContaining({ status: "validation_failed" }));
+  });
+});
+
+describe("runDetailWorker", () => {
+  test("drained de queue en finalized een fout als error", async () => {
+    (claimBatch as any)
+      .mockResolvedValueOnce([{ jobPostingId: "jp-1", attempts: 1 }])
+      .mockResolvedValueOnce([]);
+    const a = adapter([]);
+    (a.fetchDetail as any).mockRejectedValueOnce(new Error("HTTP 500"));
+    const c = mockSupabase([], { external_vacancy_id: "1", url: "u" });
+
+    const r = await runDetailWorker(c as any, a, { sleep: noSleep });
+    expect(r.success).toBe(true);
+    expect(r.stats.errors).toBe(1);
+    expect(claimBatch).toHaveBeenCalledWith(c, "src-1", null, 20);
+    expect(finalize).toHaveBeenCalledWith(c, "jp-1", expect.objectContaining({ status: "error", error: "HTTP 500" }));
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  translateVacancy,
+  translationSourceHash,
+} from '@/lib/services/vacancy-translation.service'
+import { findStaleTranslations, translationSource } from '@/lib/automations/vacancy-translate'
+
+type Row = Record<string, unknown>
+
+/** Minimale query-builder: per tabel een vaste resultaatset. */
+function fakeSb(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const q: any = {
+      select: () => q,
+      eq: () => q,
+      in: () => q,
+      not: () => q,
+      is: () => q,
+      order: () => q,
+      range: () => q,
+      then: (resolve: (v: unknown) => void) => resolve({ data: tables[table] ?? [], error: null }),
+    }
+    return q
+  }
+  return { from } as any
+}
+
+function mistralReply(content: unknown) {
+  return new Response(
+    JSON.stringify({ choices: [{ message: { content: JSON.stringify(content) } }] }),
+    { status: 200 },
+  )
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+})
+
+describe('translationSourceHash', () => {
+  it('is stabiel en verandert mee met titel, tekst en SEO-omschrijving', () => {
+    const source = { title: 'Monteur', content_md: '## Wat ga je doen?', seo_description: null }
+    expect(translationSourceHash(source)).toBe(translationSourceHash({ ...source }))
+    expect(translationSourceHash(source)).not.toBe(translationSourceHash({ ...source, title: 'Monteur B' }))
+    expect(translationSourceHash(source)).not.toBe(
+      translationSourceHash({ ...source, seo_description: 'Monteur in Eindhoven' }),
+    )
+  })
+})
+
+describe('translateVacancy', () => {
+  it('gooit zonder MISTRAL_API_KEY', async () => {
+    vi.stubEnv('MISTRAL_API_KEY', '')
+    await expect(
+      translateVacancy({ title: 'Monteur', content_md: null, seo_description: null }),
+    ).rejects.toThrow('MISTRAL_API_KEY')
+  })
+
+  it('geeft de vertaling terug en verzint geen tekst bij een lege bron', async () => {
+    vi.stubEnv('MISTRAL_API_KEY', 'test')
+    const fetchMock = vi.fn(async () =>
+      mistralReply({ title: ' Mechanic ', content_md: 'Invented text', seo_description: 'Invented' }),
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await translateVacancy(
+      { title: 'Monteur', content_md: null, seo_description: null },
+      { companyName: 'ASML', city: 'Veldhoven' },
+    )
+    expect(result).toEqual({ title: 'Mechanic', content_md: null, seo_description: null })
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string)
+    expect(body.response_format).toEqual({ type: 'json_object' })
+    expect(body.messages[1].content).toContain('Company: ASML')
+  })
+
+  it('gooit bij een antwoord zonder titel', async () => {
+    vi.stubEnv('MISTRAL_API_KEY', 'test')
+    vi.stubGlobal('fetch', vi.fn(async () => mistralReply({ content_md: 'x' })))
+    await expect(
+      translateVacancy({ title: 'Monteur', content_md: 'tekst', seo_description: null }),
+    ).rejects.toThrow('title')
+  })
+})
+
+describe('findStaleTranslations', () => {
+  it('selecteert vacatures zonder of met verouderde vertaling', async () => {
+    const base = { slug: null, platform_id: 'p1', city: 'Eindhoven', description: null, seo_description: null, companies: null }
+    const fresh = { ...base, id: 'fresh', title: 'Kok', content_md: 'Koken' }
+    const stale = { ...base, id: 'stale', title: 'Monteur', content_md: 'Nieuwe tekst' }
+    const missing = { ...base, id: 'missing', title: 'Chauffeur', content_md: null, description: 'Rijden' }
+
+    const sb = fakeSb({
+      job_postings: [fresh, stale, missing],
+      job_posting_translations: [
+        { job_posting_id: 'fresh', source_hash: translationSourceHash(translationSource(fresh)) },
+        { job_posting_id: 'stale', source_hash: 'oud' },
+      ],
+    })
+
+    const { rows, error } = await findStaleTranslations(sb)
+    expect(error).toBeUndefined()
+    expect(rows.map((r) => r.id)).toEqual(['stale', 'missing'])
+    expect(translationSource(missing).content_md).toBe('Rijden')
+  })
+})
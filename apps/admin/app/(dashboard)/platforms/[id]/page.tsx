@@ -9,10 +9,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { toast } from "sonner"
 import {
   ArrowLeft,
+  BarChart3,
   CheckCircle2,
   ChevronDown,
   CircleDashed,
   ExternalLink,
+  FileCheck,
   Loader2,
   Mail,
   Monitor,
@@ -44,8 +46,18 @@ import { ContentTab } from "./tabs/content-tab"
 import { SeoTab } from "./tabs/seo-tab"
 import { ContactTab } from "./tabs/contact-tab"
 import { GoLiveTab } from "./tabs/go-live-tab"
+import { AnalyticsTab } from "./tabs/analytics-tab"
+import { StructuredDataTab } from "./tabs/structured-data-tab"
 
-type TabKey = "basics" | "branding" | "content" | "seo" | "contact" | "go-live"
+type TabKey =
+  | "basics"
+  | "branding"
+  | "content"
+  | "seo"
+  | "contact"
+  | "go-live"
+  | "analytics"
+  | "structured-data"
 
 export default function PlatformDetailPage() {
   const params = useParams()
@@ -258,7 +270,7 @@ export default function PlatformDetailPage() {
         onValueChange={(v) => setActiveTab(v as TabKey)}
         className="space-y-6"
       >
-        <TabsList className="grid w-full grid-cols-3 sm:grid-cols-6 h-auto">
+        <TabsList className="grid w-full grid-cols-4 sm:grid-cols-8 h-auto">
           <TabsTrigger value="basics" className="flex items-center gap-1.5 py-2">
             <Settings className="size-4" />
             <span className="hidden sm:inline">Basis</span>
@@ -283,6 +295,14 @@ export default function PlatformDetailPage() {
             <Rocket className="size-4" />
             <span className="hidden sm:inline">Go-Live</span>
           </TabsTrigger>
+          <TabsTrigger value="analytics" className="flex items-center gap-1.5 py-2">
+            <BarChart3 className="size-4" />
+            <span className="hidden sm:inline">Statistieken</span>
+          </TabsTrigger>
+          <TabsTrigger value="structured-data" className="flex items-center gap-1.5 py-2">
+            <FileCheck className="size-4" />
+            <span className="hidden sm:inline">Google Jobs</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="basics">
@@ -314,6 +334,14 @@ export default function PlatformDetailPage() {
             }}
           />
         </TabsContent>
+
+        <TabsContent value="analytics">
+          <AnalyticsTab platform={platform} />
+        </TabsContent>
+
+        <TabsContent value="structured-data">
+          <StructuredDataTab platform={platform} />
+        </TabsContent>
       </Tabs>
     </div>
   )
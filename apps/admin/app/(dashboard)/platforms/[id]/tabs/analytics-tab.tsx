@@ -0,0 +1,278 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { BarChart3, Loader2, RefreshCw, X } from "lucide-react"
+import { toast } from "sonner"
+import type {
+  JobEventReport,
+  ReportRow,
+} from "@/lib/services/job-event-analytics/report.service"
+import type { PlatformDetail } from "../types"
+
+export interface AnalyticsTabProps {
+  platform: PlatformDetail
+}
+
+const PERIODS = [7, 30, 90] as const
+type Period = (typeof PERIODS)[number]
+
+function isoDay(d: Date): string {
+  return d.toISOString().slice(0, 10)
+}
+
+function formatNumber(n: number): string {
+  return n.toLocaleString("nl-NL")
+}
+
+function applyRate(row: ReportRow): string {
+  if (row.views === 0) return "–"
+  const rate = ((row.apply_clicks + row.applications) / row.views) * 100
+  return `${rate.toLocaleString("nl-NL", { maximumFractionDigits: 1 })}%`
+}
+
+interface ReportTableProps {
+  title: string
+  description?: string
+  rows: ReportRow[]
+  firstColumn: string
+  emptyText?: string
+  /** Maakt de eerste kolom klikbaar (bv. filteren op bedrijf). */
+  onSelect?: (row: ReportRow) => void
+}
+
+function ReportTable({
+  title,
+  description,
+  rows,
+  firstColumn,
+  emptyText = "Nog geen events in deze periode.",
+  onSelect,
+}: ReportTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{emptyText}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{firstColumn}</TableHead>
+                <TableHead className="text-right">Views</TableHead>
+                <TableHead className="text-right">Kliks</TableHead>
+                <TableHead className="text-right">Sollicitaties</TableHead>
+                <TableHead className="text-right">Opgeslagen</TableHead>
+                <TableHead className="text-right">Gedeeld</TableHead>
+                <TableHead className="text-right">Conversie</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key || "(geen)"}>
+                  <TableCell className="max-w-[280px] truncate font-medium">
+                    {onSelect && row.key ? (
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() => onSelect(row)}
+                      >
+                        {row.label}
+                      </button>
+                    ) : (
+                      row.label
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatNumber(row.views)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatNumber(row.apply_clicks)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatNumber(row.applications)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatNumber(row.saves)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatNumber(row.shares)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{applyRate(row)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function AnalyticsTab({ platform }: AnalyticsTabProps) {
+  const [period, setPeriod] = useState<Period>(30)
+  const [company, setCompany] = useState<{ id: string; name: string } | null>(null)
+  const [report, setReport] = useState<JobEventReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const to = new Date()
+      const from = new Date(to.getTime() - (period - 1) * 86_400_000)
+      const qs = new URLSearchParams({ from: isoDay(from), to: isoDay(to) })
+      if (company) qs.set("company_id", company.id)
+      const res = await fetch(`/api/platforms/${platform.id}/analytics?${qs}`)
+      const json = await res.json()
+      if (!res.ok || json.error) {
+        toast.error(json.error || "Kan statistieken niet ophalen")
+        return
+      }
+      setReport(json.data as JobEventReport)
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unknown error"
+      toast.error(`Fout bij laden statistieken: ${msg}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [platform.id, period, company])
+
+  useEffect(() => {
+    void fetchReport()
+  }, [fetchReport])
+
+  // Nieuwste dag bovenaan; de RPC levert ze oplopend.
+  const days = report ? [...report.days].reverse() : []
+  const dayRows = days.map((d) => ({
+    ...d,
+    label: new Date(`${d.key}T00:00:00`).toLocaleDateString("nl-NL", {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+    }),
+  }))
+  const sources = (report?.sources ?? []).map((r) => ({
+    ...r,
+    label: r.key === "direct" ? "Direct" : r.key === "internal" ? "Intern" : r.key,
+  }))
+
+  const totals = report?.totals
+  const tiles: { label: string; value: string }[] = totals
+    ? [
+        { label: "Views", value: formatNumber(totals.views) },
+        { label: "Sollicitatiekliks", value: formatNumber(totals.apply_clicks) },
+        { label: "Sollicitaties", value: formatNumber(totals.applications) },
+        { label: "Opgeslagen", value: formatNumber(totals.saves) },
+        { label: "Gedeeld", value: formatNumber(totals.shares) },
+        {
+          label: "Conversie",
+          value:
+            totals.apply_rate === null
+              ? "–"
+              : `${totals.apply_rate.toLocaleString("nl-NL")}%`,
+        },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="size-5" />
+            Statistieken
+          </CardTitle>
+          <CardDescription>
+            Views, sollicitatiekliks, sollicitaties, opslaan en delen van vacatures op{" "}
+            {platform.domain || "dit portaal"}, met de bron (verwijzer of UTM) waarmee
+            de bezoeker binnenkwam. Conversie = (kliks + sollicitaties) / views.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {PERIODS.map((p) => (
+              <Button
+                key={p}
+                size="sm"
+                variant={period === p ? "default" : "outline"}
+                onClick={() => setPeriod(p)}
+              >
+                {p} dagen
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => void fetchReport()}
+              disabled={loading}
+            >
+              {loading ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <RefreshCw className="size-4" />
+              )}
+            </Button>
+            {company && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Bedrijf: {company.name}
+                <button
+                  type="button"
+                  aria-label="Bedrijfsfilter wissen"
+                  onClick={() => setCompany(null)}
+                >
+                  <X className="size-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+
+          {tiles.length > 0 && (
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+              {tiles.map((t) => (
+                <div key={t.label} className="rounded-md border p-3">
+                  <div className="text-xs text-muted-foreground">{t.label}</div>
+                  <div className="text-xl font-semibold tabular-nums">{t.value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          {!company && (
+            <ReportTable
+              title="Per bedrijf"
+              description="Klik op een bedrijf om alle cijfers daarop te filteren."
+              firstColumn="Bedrijf"
+              rows={report.companies}
+              onSelect={(row) => setCompany({ id: row.key, name: row.label })}
+            />
+          )}
+          <ReportTable title="Top vacatures" firstColumn="Vacature" rows={report.jobs} />
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ReportTable title="Bronnen" firstColumn="Verwijzer" rows={sources} />
+            <ReportTable
+              title="UTM-campagnes"
+              firstColumn="utm_campaign"
+              rows={report.utm_campaigns.filter((r) => r.key !== "")}
+              emptyText="Geen verkeer met utm_campaign in deze periode."
+            />
+          </div>
+          <ReportTable
+            title="UTM-bronnen"
+            firstColumn="utm_source"
+            rows={report.utm_sources.filter((r) => r.key !== "")}
+            emptyText="Geen verkeer met utm_source in deze periode."
+          />
+          <ReportTable title="Per dag" firstColumn="Dag" rows={dayRows} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -216,6 +216,11 @@ export function GoLiveTab({ platform, onPublished, onRefresh }: GoLiveTabProps)
                         {!item.required && (
                           <p className="text-xs text-muted-foreground">Optioneel</p>
                         )}
+                        {item.key === "structured_data" && !item.passed && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.value} ongeldige vacatures, zie de tab Google Jobs
+                          </p>
+                        )}
                       </div>
                     </div>
                     <Badge
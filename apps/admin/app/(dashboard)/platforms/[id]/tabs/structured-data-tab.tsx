@@ -0,0 +1,232 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { FileCheck, Loader2, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import {
+  MAX_INVALID_SHARE,
+  type IssueCode,
+  type StructuredDataReport,
+} from "@/lib/services/google-jobs-validation.service"
+import type { PlatformDetail } from "../types"
+
+export interface StructuredDataTabProps {
+  platform: PlatformDetail
+}
+
+function formatPercent(share: number): string {
+  return `${(share * 100).toLocaleString("nl-NL", { maximumFractionDigits: 1 })}%`
+}
+
+function scoreClass(score: number): string {
+  if (score >= 90) return "bg-green-100 text-green-800 border-green-200"
+  if (score >= 70) return "bg-amber-100 text-amber-800 border-amber-200"
+  return "bg-red-100 text-red-800 border-red-200"
+}
+
+export function StructuredDataTab({ platform }: StructuredDataTabProps) {
+  const [report, setReport] = useState<StructuredDataReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/platforms/${platform.id}/structured-data`)
+      const json = await res.json()
+      if (!res.ok || json.error) {
+        toast.error(json.error || "Kan rapport niet ophalen")
+        return
+      }
+      setReport(json.data as StructuredDataReport)
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unknown error"
+      toast.error(`Fout bij laden rapport: ${msg}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [platform.id])
+
+  useEffect(() => {
+    void fetchReport()
+  }, [fetchReport])
+
+  const messages = new Map<IssueCode, string>(
+    (report?.issues ?? []).map((i) => [i.code, i.message]),
+  )
+  const blocking = !!report && report.invalid_share > MAX_INVALID_SHARE
+
+  const tiles: { label: string; value: string }[] = report
+    ? [
+        { label: "Gepubliceerd", value: report.total.toLocaleString("nl-NL") },
+        { label: "Geldig", value: report.valid.toLocaleString("nl-NL") },
+        { label: "Ongeldig", value: report.invalid.toLocaleString("nl-NL") },
+        { label: "Ongeldig aandeel", value: formatPercent(report.invalid_share) },
+        {
+          label: "Gem. score",
+          value: report.average_score === null ? "–" : String(report.average_score),
+        },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileCheck className="size-5" />
+                Google for Jobs
+              </CardTitle>
+              <CardDescription>
+                Controle van de JobPosting-structured data van alle gepubliceerde vacatures
+                op {platform.domain || "dit portaal"}. Een vacature is ongeldig als een
+                verplicht veld ontbreekt, de beschrijving te kort is of validThrough
+                verlopen is. Boven {formatPercent(MAX_INVALID_SHARE)} ongeldig blokkeert
+                de go-live.
+              </CardDescription>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => void fetchReport()}
+              disabled={loading}
+            >
+              <RefreshCw className={loading ? "h-4 w-4 mr-2 animate-spin" : "h-4 w-4 mr-2"} />
+              Herladen
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading && !report ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-6">
+              <Loader2 className="size-4 animate-spin" />
+              Vacatures controleren...
+            </div>
+          ) : report ? (
+            <>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+                {tiles.map((t) => (
+                  <div key={t.label} className="rounded-md border p-3">
+                    <div className="text-xs text-muted-foreground">{t.label}</div>
+                    <div className="text-xl font-semibold tabular-nums">{t.value}</div>
+                  </div>
+                ))}
+              </div>
+              {blocking && (
+                <p className="text-xs text-red-700">
+                  Te veel ongeldige vacatures: live zetten is geblokkeerd tot het aandeel
+                  onder {formatPercent(MAX_INVALID_SHARE)} zakt.
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">Geen data beschikbaar.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && report.total > 0 && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Issues</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.issues.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Geen issues gevonden.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Issue</TableHead>
+                      <TableHead>Veld</TableHead>
+                      <TableHead>Ernst</TableHead>
+                      <TableHead className="text-right">Vacatures</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.issues.map((issue) => (
+                      <TableRow key={issue.code}>
+                        <TableCell className="font-medium">{issue.message}</TableCell>
+                        <TableCell className="font-mono text-xs">{issue.field}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="secondary"
+                            className={
+                              issue.severity === "error"
+                                ? "bg-red-100 text-red-800 border-red-200"
+                                : "bg-amber-100 text-amber-800 border-amber-200"
+                            }
+                          >
+                            {issue.severity === "error" ? "Verplicht" : "Aanbevolen"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {issue.count.toLocaleString("nl-NL")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Laagst scorende vacatures</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vacature</TableHead>
+                    <TableHead>Issues</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.postings.map((posting) => (
+                    <TableRow key={posting.id}>
+                      <TableCell className="max-w-[280px] truncate font-medium">
+                        <Link
+                          href={`/vacatures/${posting.id}/bewerken`}
+                          className="hover:underline"
+                        >
+                          {posting.title || "(geen titel)"}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {posting.issues.map((code) => messages.get(code) ?? code).join(", ") ||
+                          "–"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant="secondary" className={scoreClass(posting.score)}>
+                          {posting.score}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
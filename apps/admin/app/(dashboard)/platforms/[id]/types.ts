@@ -178,6 +178,11 @@ export const GO_LIVE_CHECKS = [
   { key: "seo_description", label: "SEO description", required: true },
   { key: "min_approved_vacancies", label: "Min. 10 approved vacatures", required: true },
   { key: "about_text", label: "About text ingevuld", required: true },
+  {
+    key: "structured_data",
+    label: "Max. 20% vacatures met ongeldige Google for Jobs-data",
+    required: true,
+  },
 ] as const
 
 export type GoLiveCheckKey = (typeof GO_LIVE_CHECKS)[number]["key"]
@@ -0,0 +1,18 @@
+import { CandidateReview } from '@/components/company-dedup/candidate-review'
+
+export const dynamic = 'force-dynamic'
+
+export default function BedrijvenReviewPage() {
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-900">Dubbele bedrijven</h1>
+        <p className="text-sm text-slate-500 mt-1">
+          Waarschijnlijke duplicaten uit de nachtelijke scan, met per paar het bewijs. Samenvoegen opent de
+          merge-tool; een afgewezen paar wordt niet opnieuw voorgesteld.
+        </p>
+      </div>
+      <CandidateReview />
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { DuplicateReview } from '@/components/job-dedup/duplicate-review'
+
+export const dynamic = 'force-dynamic'
+
+export default function DuplicatenReviewPage() {
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-900">Dubbele vacatures</h1>
+        <p className="text-sm text-slate-500 mt-1">
+          Vacatures die via meerdere bronnen binnenkwamen. Zekere duplicaten worden automatisch samengevoegd;
+          hier beoordeel je de twijfelgevallen. Publieke sites tonen per groep alleen de canonical.
+        </p>
+      </div>
+      <DuplicateReview />
+    </div>
+  )
+}
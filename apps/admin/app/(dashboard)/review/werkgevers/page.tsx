@@ -0,0 +1,18 @@
+import { ClaimReview } from '@/components/employer-claims/claim-review'
+
+export const dynamic = 'force-dynamic'
+
+export default function WerkgeversReviewPage() {
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-900">Werkgeversclaims</h1>
+        <p className="text-sm text-slate-500 mt-1">
+          Claims uit het werkgeversportaal waarbij het e-maildomein niet overeenkomt met het bedrijf. Goedkeuren
+          geeft de werkgever toegang tot het profiel, de vacatures en de sollicitaties van dit bedrijf.
+        </p>
+      </div>
+      <ClaimReview />
+    </div>
+  )
+}
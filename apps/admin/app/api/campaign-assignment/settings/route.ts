@@ -10,6 +10,7 @@ export interface CampaignAssignmentSettings {
   max_per_platform: number
   is_enabled: boolean
   delay_between_contacts_ms: number
+  min_hiring_intensity: number | null
   updated_at: string
   updated_by: string | null
 }
@@ -36,6 +37,7 @@ async function getHandler(_request: NextRequest, _auth: AuthResult) {
             max_per_platform: 30,
             is_enabled: true,
             delay_between_contacts_ms: 500,
+            min_hiring_intensity: null,
             updated_at: new Date().toISOString(),
             updated_by: null
           } as CampaignAssignmentSettings,
@@ -68,7 +70,7 @@ async function getHandler(_request: NextRequest, _auth: AuthResult) {
 async function putHandler(request: NextRequest, _auth: AuthResult) {
   try {
     const body = await request.json()
-    const { max_total_contacts, max_per_platform, is_enabled, delay_between_contacts_ms } = body
+    const { max_total_contacts, max_per_platform, is_enabled, delay_between_contacts_ms, min_hiring_intensity } = body
 
     // Validation
     if (max_total_contacts !== undefined && (typeof max_total_contacts !== 'number' || max_total_contacts < 1 || max_total_contacts > 5000)) {
@@ -92,6 +94,13 @@ async function putHandler(request: NextRequest, _auth: AuthResult) {
       )
     }
 
+    if (min_hiring_intensity !== undefined && min_hiring_intensity !== null && (!Number.isInteger(min_hiring_intensity) || min_hiring_intensity < 1 || min_hiring_intensity > 100)) {
+      return NextResponse.json(
+        { success: false, error: 'min_hiring_intensity must be null or between 1 and 100' },
+        { status: 400 }
+      )
+    }
+
     const supabase = createServiceRoleClient()
 
     // Build update object with only provided fields
@@ -100,6 +109,7 @@ async function putHandler(request: NextRequest, _auth: AuthResult) {
     if (max_per_platform !== undefined) updates.max_per_platform = max_per_platform
     if (is_enabled !== undefined) updates.is_enabled = is_enabled
     if (delay_between_contacts_ms !== undefined) updates.delay_between_contacts_ms = delay_between_contacts_ms
+    if (min_hiring_intensity !== undefined) updates.min_hiring_intensity = min_hiring_intensity
 
     // First try to update existing settings
     const { data: existingData } = await supabase
@@ -138,7 +148,8 @@ async function putHandler(request: NextRequest, _auth: AuthResult) {
         max_total_contacts: max_total_contacts ?? 500,
         max_per_platform: max_per_platform ?? 30,
         is_enabled: is_enabled ?? true,
-        delay_between_contacts_ms: delay_between_contacts_ms ?? 500
+        delay_between_contacts_ms: delay_between_contacts_ms ?? 500,
+        min_hiring_intensity: min_hiring_intensity ?? null
       }
 
       const { data, error } = await supabase
@@ -0,0 +1,53 @@
+// @auth ADMIN
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import {
+  CompanyMergeError,
+  getMergePreview,
+  mergeCompanies,
+  mergeInputSchema,
+  mergePreviewSchema,
+} from '@/lib/services/company-dedup/merge.service'
+
+function errorResponse(e: unknown) {
+  const status = e instanceof CompanyMergeError ? e.status : 500
+  return NextResponse.json({ error: (e as Error).message }, { status })
+}
+
+async function getHandler(req: NextRequest, auth: AuthResult) {
+  void auth
+  const params = Object.fromEntries(req.nextUrl.searchParams.entries())
+  const parsed = mergePreviewSchema.safeParse(params)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Ongeldige input', issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const preview = await getMergePreview(createServiceRoleClient(), parsed.data.a, parsed.data.b)
+    return NextResponse.json(preview)
+  } catch (e) {
+    return errorResponse(e)
+  }
+}
+
+async function postHandler(req: NextRequest, auth: AuthResult) {
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Body moet JSON zijn' }, { status: 400 })
+  }
+  const parsed = mergeInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Ongeldige input', issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const result = await mergeCompanies(createServiceRoleClient(), parsed.data, auth.user.id)
+    return NextResponse.json(result)
+  } catch (e) {
+    return errorResponse(e)
+  }
+}
+
+export const GET = withAdminAuth(getHandler)
+export const POST = withAdminAuth(postHandler)
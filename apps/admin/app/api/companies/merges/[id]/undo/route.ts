@@ -0,0 +1,20 @@
+// @auth ADMIN
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { CompanyMergeError, undoMerge } from '@/lib/services/company-dedup/merge.service'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+async function postHandler(_req: NextRequest, auth: AuthResult, ctx: Ctx) {
+  const { id } = await ctx.params
+  try {
+    await undoMerge(createServiceRoleClient(), id, auth.user.id)
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    const status = e instanceof CompanyMergeError ? e.status : 500
+    return NextResponse.json({ error: (e as Error).message }, { status })
+  }
+}
+
+export const POST = withAdminAuth(postHandler)
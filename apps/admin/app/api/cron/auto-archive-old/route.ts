@@ -5,6 +5,12 @@
  * Roept auto_archive_old_postings(120, 2000) RPC herhaaldelijk aan tot 0
  * records overblijven. Slaat approved+gepubliceerde vacatures over zodat
  * live publieke pagina's niet stilletjes offline gaan door tijdsverloop.
+ * Uitzondering: werkgeversvacatures met een pakket gaan offline zodra hun
+ * `expires_at` (pakket-looptijd) verstreken is.
+ *
+ * Daarna IndexNow: de URL's die deze run gearchiveerd zijn ("niet meer
+ * beschikbaar"-pagina) en die waarvan de grace-periode het afgelopen etmaal
+ * verstreek (de publieke site geeft nu 410).
  *
  * Schedule: dagelijks 03:00 UTC (= 04:00 NL winter, 05:00 NL zomer)
  */
@@ -12,6 +18,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withCronMonitoring } from '@/lib/cron-monitor'
 import { createClient } from '@supabase/supabase-js'
+import { archiveExpiredPackageVacancies } from '@/lib/services/platform-publication.service'
+import { graceEndedWindow, pingArchivedJobs } from '@/lib/services/archived-jobs-indexnow.service'
 
 export const dynamic = 'force-dynamic'
 
@@ -25,6 +33,7 @@ const SOFT_DEADLINE_MS = 240_000 // stop nieuwe batches als we al >4 min draaien
 
 async function autoArchiveHandler(_request: NextRequest) {
   const startTime = Date.now()
+  const startedAtIso = new Date(startTime).toISOString()
 
   const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -56,12 +65,31 @@ async function autoArchiveHandler(_request: NextRequest) {
     if (count === 0) break // klaar
   }
 
+  const expired = await archiveExpiredPackageVacancies(supabase)
+  if (expired.error) {
+    errors.push(expired.error)
+    console.error('[auto-archive-old] package expiry error:', expired.error)
+  }
+
+  const archivedPing = await pingArchivedJobs(supabase, startedAtIso, new Date().toISOString())
+  const grace = graceEndedWindow()
+  const gonePing = await pingArchivedJobs(supabase, grace.fromIso, grace.toIso)
+  for (const ping of [archivedPing, gonePing]) {
+    if (ping.error) {
+      errors.push(`indexnow: ${ping.error}`)
+      console.error('[auto-archive-old] IndexNow error:', ping.error)
+    }
+  }
+
   const durationMs = Date.now() - startTime
 
   return NextResponse.json({
     success: errors.length === 0,
     message: `Auto-archive completed: ${totalArchived} records in ${batches} batches`,
     archived: totalArchived,
+    package_expired: expired.archived,
+    indexnow_archived: archivedPing.submitted,
+    indexnow_gone: gonePing.submitted,
     batches,
     age_days: AGE_DAYS,
     duration_ms: durationMs,
@@ -0,0 +1,22 @@
+// @auth SECRET
+// apps/admin/app/api/cron/job-dedup/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAutomationMonitoring } from '@/lib/automation-monitor'
+import { run } from '@/lib/automations/job-dedup'
+
+async function handler(_req: NextRequest) {
+  const result = await run()
+  return NextResponse.json({
+    success: result.success,
+    stats: result.stats,
+    error: result.error,
+    message: result.success ? 'completed' : 'failed',
+  }, { status: result.success ? 200 : 500 })
+}
+
+export const POST = withAutomationMonitoring('job-dedup')(handler)
+export const GET = POST  // Vercel Cron stuurt GET
+export const runtime = 'nodejs'
+export const preferredRegion = ['fra1', 'ams1']
+export const maxDuration = 300
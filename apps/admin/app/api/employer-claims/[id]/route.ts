@@ -0,0 +1,30 @@
+// @auth ADMIN
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { resolveClaim, resolveClaimSchema } from '@/lib/services/employer-claims/claims.service'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+/** Goedkeuren geeft een externe werkgever toegang tot bedrijfsdata, dus alleen admins. */
+async function postHandler(req: NextRequest, auth: AuthResult, ctx: Ctx) {
+  const { id } = await ctx.params
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Body moet JSON zijn' }, { status: 400 })
+  }
+  const parsed = resolveClaimSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Ongeldige input', issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const result = await resolveClaim(createServiceRoleClient(), id, parsed.data, auth.user.id)
+    return NextResponse.json(result)
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 500 })
+  }
+}
+
+export const POST = withAdminAuth(postHandler)
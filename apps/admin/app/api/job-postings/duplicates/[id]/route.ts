@@ -0,0 +1,29 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { resolveDuplicate, resolveDuplicateSchema } from '@/lib/services/job-dedup/duplicate.service'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+async function postHandler(req: NextRequest, auth: AuthResult, ctx: Ctx) {
+  const { id } = await ctx.params
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Body moet JSON zijn' }, { status: 400 })
+  }
+  const parsed = resolveDuplicateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Ongeldige input', issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const result = await resolveDuplicate(createServiceRoleClient(), id, parsed.data, auth.user.id)
+    return NextResponse.json(result)
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 500 })
+  }
+}
+
+export const POST = withAuth(postHandler)
@@ -0,0 +1,22 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { listDuplicates, listDuplicatesSchema } from '@/lib/services/job-dedup/duplicate.service'
+
+async function getHandler(req: NextRequest, auth: AuthResult) {
+  void auth
+  const params = Object.fromEntries(req.nextUrl.searchParams.entries())
+  const parsed = listDuplicatesSchema.safeParse(params)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Ongeldige filters', issues: parsed.error.issues }, { status: 400 })
+  }
+  try {
+    const result = await listDuplicates(createServiceRoleClient(), parsed.data)
+    return NextResponse.json(result)
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 500 })
+  }
+}
+
+export const GET = withAuth(getHandler)
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, AuthResult } from '@/lib/auth-middleware'
 import { validateJobPostingsForPush } from '@/lib/services/lokalebanen-push.service'
+import { loadLokaleBanenDrift, MAX_SYNC_ERRORS } from '@/lib/services/lokalebanen-sync.service'
 
 /**
  * POST /api/lokalebanen/validate
@@ -34,4 +35,36 @@ async function handler(req: NextRequest, authResult: AuthResult) {
   }
 }
 
+/**
+ * GET /api/lokalebanen/validate
+ * Drift report: pushed vacancies whose LB copy is out of date (update) or
+ * should be taken offline (withdraw). Resolved by the lokalebanen-sync cron.
+ */
+async function driftHandler(_req: NextRequest, authResult: AuthResult) {
+  const { supabase } = authResult
+
+  try {
+    const { items, summary } = await loadLokaleBanenDrift(supabase)
+
+    const drift = items
+      .filter(item => item.action === 'update' || item.action === 'withdraw')
+      .map(item => ({
+        jobPostingId: item.state.job_posting_id,
+        lokaleBanenId: item.state.lokalebanen_id,
+        title: item.job?.title ?? null,
+        action: item.action,
+        reason: item.reason ?? null,
+        pushedAt: item.state.pushed_at,
+        lastError: item.state.last_error,
+        stuck: item.state.error_count >= MAX_SYNC_ERRORS,
+      }))
+
+    return NextResponse.json({ success: true, summary, drift })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Drift check failed'
+    return NextResponse.json({ success: false, error: message }, { status: 500 })
+  }
+}
+
 export const POST = withAuth(handler)
+export const GET = withAuth(driftHandler)
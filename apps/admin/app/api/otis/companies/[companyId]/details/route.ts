@@ -57,7 +57,10 @@ async function getHandler(
         status,
         start,
         hoofddomein,
-        subdomeinen
+        subdomeinen,
+        hiring_intensity_score,
+        hiring_intensity,
+        hiring_intensity_updated_at
       `)
       .eq('id', companyId)
       .single()
@@ -0,0 +1,47 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from "next/server"
+import { withAuth, AuthResult } from "@/lib/auth-middleware"
+import { createServiceRoleClient } from "@/lib/supabase-server"
+import {
+  getJobEventReport,
+  parseReportRange,
+} from "@/lib/services/job-event-analytics/report.service"
+
+export const dynamic = "force-dynamic"
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/platforms/[id]/analytics?from=&to=&company_id=
+ *
+ * Vacature-attributie van één portaal (views, kliks, sollicitaties, opslaan,
+ * delen) per dag, bedrijf, vacature, bron en UTM. Met `company_id` alleen de
+ * vacatures van dat bedrijf op dit portaal.
+ */
+async function getHandler(
+  request: NextRequest,
+  _authResult: AuthResult,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params
+    const sp = request.nextUrl.searchParams
+    const companyId = sp.get("company_id")
+    if (!UUID_RE.test(id) || (companyId && !UUID_RE.test(companyId))) {
+      return NextResponse.json({ error: "Ongeldig id" }, { status: 400 })
+    }
+
+    const range = parseReportRange(sp.get("from"), sp.get("to"))
+    const report = await getJobEventReport(createServiceRoleClient(), {
+      platformId: id,
+      companyId,
+      ...range,
+    })
+    return NextResponse.json({ data: report })
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export const GET = withAuth(getHandler)
@@ -0,0 +1,36 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from "next/server"
+import { withAuth, AuthResult } from "@/lib/auth-middleware"
+import { createServiceRoleClient } from "@/lib/supabase-server"
+import { validatePlatformJobPostings } from "@/lib/services/google-jobs-validation.service"
+
+export const dynamic = "force-dynamic"
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/platforms/[id]/structured-data
+ *
+ * Google for Jobs-rapport van één portaal: score en issues van de JobPosting
+ * JSON-LD van alle gepubliceerde vacatures, plus de slechtst scorende.
+ */
+async function getHandler(
+  _request: NextRequest,
+  _authResult: AuthResult,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params
+    if (!UUID_RE.test(id)) {
+      return NextResponse.json({ error: "Ongeldig id" }, { status: 400 })
+    }
+
+    const report = await validatePlatformJobPostings(createServiceRoleClient(), id)
+    return NextResponse.json({ data: report })
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export const GET = withAuth(getHandler)
@@ -8,6 +8,7 @@ import {
   resolvePlatformHost,
   buildVacatureUrlList,
 } from "@/lib/services/indexnow.service"
+import { applyPackagePublication } from "@/lib/services/platform-publication.service"
 
 export const dynamic = "force-dynamic"
 
@@ -38,6 +39,11 @@ async function postHandler(request: NextRequest, authResult: AuthResult) {
     const errors: string[] = []
     let approved = 0
 
+    // Step 0: Werkgeversportaal-vacatures krijgen hun pakket-looptijd en een
+    // *publiek* regioplatform, vóór de generieke lookup hieronder.
+    const packageResult = await applyPackagePublication(supabase, validIds)
+    errors.push(...packageResult.errors)
+
     // Step 1: Auto-assign platform_id via postcode_platform_lookup for jobs without platform.
     // postcode_platform_lookup stores regio_platform (text), so we need to join
     // with the platforms table to get the UUID.
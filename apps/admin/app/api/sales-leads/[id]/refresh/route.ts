@@ -0,0 +1,69 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from 'next/server'
+import { waitUntil } from '@vercel/functions'
+import { withAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { LeadRefreshService } from '@/lib/services/sales-leads/lead-refresh.service'
+
+// De refresh draait na de response door (website-crawl, tot enkele minuten).
+export const maxDuration = 300
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/sales-leads/[id]/refresh
+ * Laatste refreshes van een run met hun signalen.
+ */
+async function getHandler(_req: NextRequest, _auth: AuthResult, ctx: RouteContext) {
+  const { id } = await ctx.params
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('sales_lead_refreshes')
+    .select('id, trigger, status, sources_refreshed, signals, signal_count, pipedrive_activity_id, error, started_at, completed_at')
+    .eq('run_id', id)
+    .order('started_at', { ascending: false })
+    .limit(10)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ refreshes: data ?? [] })
+}
+
+/**
+ * POST /api/sales-leads/[id]/refresh
+ * Handmatige refresh, buiten het interval van de cron om. Alleen voor runs
+ * die naar Pipedrive zijn gesynct.
+ */
+async function postHandler(_req: NextRequest, _auth: AuthResult, ctx: RouteContext) {
+  const { id } = await ctx.params
+  const supabase = createServiceRoleClient()
+
+  const { data: run, error: loadErr } = await supabase
+    .from('sales_lead_runs')
+    .select('id, status, pipedrive_org_id, archived_at')
+    .eq('id', id)
+    .maybeSingle()
+  if (loadErr) return NextResponse.json({ error: loadErr.message }, { status: 500 })
+  if (!run) return NextResponse.json({ error: 'Run niet gevonden' }, { status: 404 })
+  if (run.status !== 'completed' || !run.pipedrive_org_id || run.archived_at) {
+    return NextResponse.json({ error: 'Refresh alleen voor gesyncte, actieve leads' }, { status: 400 })
+  }
+
+  const { count: running } = await supabase
+    .from('sales_lead_refreshes')
+    .select('id', { count: 'exact', head: true })
+    .eq('run_id', id)
+    .eq('status', 'running')
+  if (running) {
+    return NextResponse.json({ error: 'Er loopt al een refresh voor deze lead' }, { status: 409 })
+  }
+
+  waitUntil(
+    new LeadRefreshService().refreshRun(id, 'manual').catch((e) => {
+      console.error('[sales-leads/refresh] faalde', id, e instanceof Error ? e.message : e)
+    }),
+  )
+  return NextResponse.json({ success: true }, { status: 202 })
+}
+
+export const GET = withAuth(getHandler)
+export const POST = withAuth(postHandler)
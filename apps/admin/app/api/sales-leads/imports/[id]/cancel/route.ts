@@ -0,0 +1,30 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/sales-leads/imports/[id]/cancel
+ * Stopt verdere dispatch. Runs die al aangemaakt zijn lopen gewoon door.
+ */
+async function handler(_req: NextRequest, _auth: AuthResult, ctx: RouteContext) {
+  const { id } = await ctx.params
+  const supabase = createServiceRoleClient()
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from('sales_lead_imports')
+    .update({ status: 'cancelled', completed_at: now, updated_at: now })
+    .eq('id', id)
+    .in('status', ['preview', 'dispatching'])
+    .select('id')
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Import niet gevonden of al afgerond' }, { status: 409 })
+  }
+  return NextResponse.json({ success: true })
+}
+
+export const POST = withAuth(handler)
@@ -0,0 +1,69 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { summarizeImport } from '@/lib/services/sales-leads/bulk-import.service'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const PAGE_SIZE = 1000
+
+/**
+ * GET /api/sales-leads/imports/[id]
+ * Import met alle rijen (incl. status van de aangemaakte run) en een
+ * samenvatting voor de preview en de voortgang.
+ */
+async function handler(_req: NextRequest, _auth: AuthResult, ctx: RouteContext) {
+  const { id } = await ctx.params
+  const supabase = createServiceRoleClient()
+
+  const { data: imp, error: impErr } = await supabase
+    .from('sales_lead_imports')
+    .select('id, file_name, status, total_rows, column_mapping, scrape_vacancies, contactmoment_override, created_at, started_at, completed_at, sales_lead_owner_config(label)')
+    .eq('id', id)
+    .maybeSingle()
+  if (impErr) return NextResponse.json({ error: impErr.message }, { status: 500 })
+  if (!imp) return NextResponse.json({ error: 'Import niet gevonden' }, { status: 404 })
+
+  type Row = {
+    id: string
+    row_number: number
+    company_name: string | null
+    domain: string | null
+    kvk: string | null
+    city: string | null
+    classification: string
+    message: string | null
+    existing_run_id: string | null
+    existing_company_id: string | null
+    include: boolean
+    dispatched_at: string | null
+    run_id: string | null
+    run: { status: string } | { status: string }[] | null
+  }
+  const rows: Row[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sales_lead_import_rows')
+      .select('id, row_number, company_name, domain, kvk, city, classification, message, existing_run_id, existing_company_id, include, dispatched_at, run_id, run:sales_lead_runs!sales_lead_import_rows_run_id_fkey(status)')
+      .eq('import_id', id)
+      .order('row_number', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+    rows.push(...((data ?? []) as unknown as Row[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const withStatus = rows.map(({ run, ...r }) => ({
+    ...r,
+    run_status: (Array.isArray(run) ? run[0]?.status : run?.status) ?? null,
+  }))
+  const summary = summarizeImport(
+    withStatus,
+    withStatus.map((r) => r.run_status).filter((s): s is string => !!s),
+  )
+
+  return NextResponse.json({ import: imp, rows: withStatus, summary })
+}
+
+export const GET = withAuth(handler)
@@ -0,0 +1,77 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from 'next/server'
+import { waitUntil } from '@vercel/functions'
+import { withAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { dispatchImportBatch } from '@/lib/services/sales-leads/bulk-import.service'
+
+// Eerste golf dispatchen (max MAX_IN_FLIGHT runs); de cron
+// sales-lead-import-dispatch vult daarna aan.
+export const maxDuration = 60
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/sales-leads/imports/[id]/start
+ * Body: { include_existing_companies?: boolean }
+ * Zet de import van 'preview' naar 'dispatching'. Standaard worden alleen
+ * 'new'-rijen verrijkt; met include_existing_companies ook bedrijven die al
+ * in de database staan.
+ */
+async function handler(req: NextRequest, _auth: AuthResult, ctx: RouteContext) {
+  const { id } = await ctx.params
+  const body = (await req.json().catch(() => ({}))) as { include_existing_companies?: boolean }
+  const supabase = createServiceRoleClient()
+
+  const { data: imp, error: loadErr } = await supabase
+    .from('sales_lead_imports')
+    .select('id, status')
+    .eq('id', id)
+    .maybeSingle()
+  if (loadErr) return NextResponse.json({ error: loadErr.message }, { status: 500 })
+  if (!imp) return NextResponse.json({ error: 'Import niet gevonden' }, { status: 404 })
+  if (imp.status !== 'preview') {
+    return NextResponse.json({ error: `Import is al gestart (status: ${imp.status})` }, { status: 409 })
+  }
+
+  if (body.include_existing_companies === true) {
+    const { error } = await supabase
+      .from('sales_lead_import_rows')
+      .update({ include: true })
+      .eq('import_id', id)
+      .eq('classification', 'existing_company')
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const { count: selected } = await supabase
+    .from('sales_lead_import_rows')
+    .select('id', { count: 'exact', head: true })
+    .eq('import_id', id)
+    .eq('include', true)
+  if (!selected) {
+    return NextResponse.json({ error: 'Geen rijen om te verrijken' }, { status: 400 })
+  }
+
+  const now = new Date().toISOString()
+  const { data: started, error: startErr } = await supabase
+    .from('sales_lead_imports')
+    .update({ status: 'dispatching', started_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('status', 'preview')
+    .select('id')
+  if (startErr) return NextResponse.json({ error: startErr.message }, { status: 500 })
+  if (!started || started.length === 0) {
+    return NextResponse.json({ error: 'Import is al gestart' }, { status: 409 })
+  }
+
+  waitUntil(
+    dispatchImportBatch(supabase, req, id).catch((e) => {
+      console.error('[sales-lead-import] eerste dispatch faalde', id, e instanceof Error ? e.message : e)
+    }),
+  )
+
+  return NextResponse.json({ success: true, selected })
+}
+
+export const POST = withAuth(handler)
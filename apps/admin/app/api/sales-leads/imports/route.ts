@@ -0,0 +1,141 @@
+// @auth SESSION
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthResult } from '@/lib/auth-middleware'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import type { Json } from '@/lib/supabase'
+import { fileParserService } from '@/lib/services/file-parser.service'
+import {
+  classifyImportRows,
+  findExistingMatches,
+  mapImportRows,
+  MAX_IMPORT_ROWS,
+  suggestColumnMapping,
+  validateColumnMapping,
+  type ColumnMapping,
+} from '@/lib/services/sales-leads/bulk-import.service'
+
+export const maxDuration = 60
+export const runtime = 'nodejs'
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024
+const SAMPLE_ROWS = 5
+const INSERT_CHUNK = 500
+
+/**
+ * GET /api/sales-leads/imports
+ * Laatste bulk-imports voor het overzicht.
+ */
+async function listHandler() {
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('sales_lead_imports')
+    .select('id, file_name, status, total_rows, created_at, started_at, completed_at, sales_lead_owner_config(label)')
+    .order('created_at', { ascending: false })
+    .limit(20)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ imports: data ?? [] })
+}
+
+/**
+ * POST /api/sales-leads/imports (multipart/form-data)
+ *
+ * Zonder `mapping`: analyseer het bestand en geef kopteksten, voorbeeldrijen
+ * en een voorgestelde kolommapping terug (niets opgeslagen).
+ * Met `mapping` + `owner_config_id`: classificeer alle rijen (dedup tegen
+ * runs en bedrijven) en sla de import op in status 'preview'. Rijen die
+ * 'new' zijn staan standaard aan.
+ */
+async function createHandler(req: NextRequest, auth: AuthResult) {
+  const form = await req.formData().catch(() => null)
+  const file = form?.get('file')
+  if (!form || !(file instanceof File)) {
+    return NextResponse.json({ error: 'Bestand ontbreekt' }, { status: 400 })
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: 'Bestand te groot (max 5MB)' }, { status: 400 })
+  }
+
+  const table = await fileParserService.parseTable(file)
+  if (table.errors.length > 0) {
+    return NextResponse.json({ error: table.errors[0].message }, { status: 400 })
+  }
+  if (table.totalRows > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Maximum ${MAX_IMPORT_ROWS} rijen per import (${table.totalRows} ontvangen)` },
+      { status: 400 },
+    )
+  }
+
+  const mappingRaw = form.get('mapping')
+  if (typeof mappingRaw !== 'string' || mappingRaw.length === 0) {
+    return NextResponse.json({
+      headers: table.headers,
+      sample: table.rows.slice(0, SAMPLE_ROWS),
+      suggested_mapping: suggestColumnMapping(table.headers),
+      total_rows: table.totalRows,
+    })
+  }
+
+  let mapping: ColumnMapping
+  try {
+    mapping = JSON.parse(mappingRaw) as ColumnMapping
+  } catch {
+    return NextResponse.json({ error: 'Ongeldige kolommapping' }, { status: 400 })
+  }
+  const mappingError = validateColumnMapping(mapping, table.headers.length)
+  if (mappingError) return NextResponse.json({ error: mappingError }, { status: 400 })
+
+  const ownerConfigId = form.get('owner_config_id')
+  if (typeof ownerConfigId !== 'string' || ownerConfigId.length === 0) {
+    return NextResponse.json({ error: 'owner_config_id verplicht' }, { status: 400 })
+  }
+  const contactmoment = form.get('contactmoment_override')
+  if (typeof contactmoment === 'string' && contactmoment.length > 0 && !/^\d{4}-\d{2}-\d{2}$/.test(contactmoment)) {
+    return NextResponse.json({ error: 'contactmoment_override moet YYYY-MM-DD zijn' }, { status: 400 })
+  }
+
+  const supabase = createServiceRoleClient()
+  const rows = mapImportRows(table, mapping)
+  let classified
+  try {
+    classified = classifyImportRows(rows, await findExistingMatches(supabase, rows))
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Dedup faalde' }, { status: 500 })
+  }
+
+  const { data: imp, error: impErr } = await supabase
+    .from('sales_lead_imports')
+    .insert({
+      created_by: auth.user.id,
+      file_name: file.name,
+      owner_config_id: ownerConfigId,
+      scrape_vacancies: form.get('scrape_vacancies') !== 'false',
+      contactmoment_override: typeof contactmoment === 'string' && contactmoment.length > 0 ? contactmoment : null,
+      column_mapping: mapping as unknown as Json,
+      total_rows: classified.length,
+    })
+    .select('id')
+    .single()
+  if (impErr || !imp) {
+    return NextResponse.json({ error: `Import opslaan faalde: ${impErr?.message ?? 'onbekend'}` }, { status: 500 })
+  }
+
+  for (let i = 0; i < classified.length; i += INSERT_CHUNK) {
+    const { error } = await supabase.from('sales_lead_import_rows').insert(
+      classified.slice(i, i + INSERT_CHUNK).map((r) => ({
+        import_id: imp.id,
+        ...r,
+        include: r.classification === 'new',
+      })),
+    )
+    if (error) {
+      await supabase.from('sales_lead_imports').delete().eq('id', imp.id)
+      return NextResponse.json({ error: `Rijen opslaan faalde: ${error.message}` }, { status: 500 })
+    }
+  }
+
+  return NextResponse.json({ import_id: imp.id }, { status: 201 })
+}
+
+export const GET = withAuth(listHandler)
+export const POST = withAuth(createHandler)
@@ -0,0 +1,71 @@
+// @auth SECRET
+/**
+ * Lijst-scan voor een adapter-scraper (lib/scrapers/shared/registry.ts).
+ *
+ * GET (cron): incrementeel, stopt na N opeenvolgende volledig-bekende pagina's. Archiveert nooit.
+ *   `?mode=full` (Vercel-crons kunnen alleen GET) draait de volledige pass.
+ * POST (manual/cron): body { mode?: "incremental" | "full", maxPages?, stopAfterKnownPages? }.
+ *   mode "full" loopt cursor-gestuurd over meerdere runs en draait bij voltooiing de delisting-sweep.
+ *
+ * De incrementele scan van adapters met een automationId wordt gemonitord via withAutomationMonitoring.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withCronAuth } from "@/lib/auth-middleware";
+import { withAutomationMonitoring } from "@/lib/automation-monitor";
+import { createSupabaseClient, getScraperAdapter, runListScan, type ScanMode } from "@/lib/scrapers/shared";
+
+export const runtime = "nodejs";
+export const preferredRegion = ["fra1", "ams1"];
+export const maxDuration = 300;
+
+interface ScanBody {
+  mode?: ScanMode;
+  maxPages?: number;
+  stopAfterKnownPages?: number;
+}
+
+async function scan(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> },
+  defaultMode: ScanMode
+): Promise<NextResponse> {
+  const startTime = Date.now();
+  const { slug } = await params;
+  const adapter = getScraperAdapter(slug);
+  if (!adapter) {
+    return NextResponse.json({ success: false, error: `Onbekende scraper: ${slug}` }, { status: 404 });
+  }
+
+  let body: ScanBody = {};
+  try {
+    body = await req.json();
+  } catch {
+    /* lege body toegestaan (cron-GET) */
+  }
+  const requested = body.mode ?? req.nextUrl.searchParams.get("mode");
+  const mode: ScanMode = requested === "full" || requested === "incremental" ? requested : defaultMode;
+
+  const run = async (): Promise<NextResponse> => {
+    const result = await runListScan(createSupabaseClient(), adapter, {
+      mode,
+      maxPages: body.maxPages,
+      stopAfterKnownPages: body.stopAfterKnownPages,
+    });
+
+    return NextResponse.json(
+      { ...result, duration_ms: Date.now() - startTime },
+      { status: result.success ? 200 : 500 }
+    );
+  };
+
+  // De self-gating volledige pass draait vaak en meestal als no-op; alleen de incrementele scan telt als run.
+  return adapter.automationId && mode === "incremental" ? withAutomationMonitoring(adapter.automationId)(run)(req) : run();
+}
+
+export const GET = withCronAuth((req: NextRequest, ctx: { params: Promise<{ slug: string }> }) =>
+  scan(req, ctx, "incremental")
+);
+export const POST = withCronAuth((req: NextRequest, ctx: { params: Promise<{ slug: string }> }) =>
+  scan(req, ctx, "incremental")
+);
@@ -0,0 +1,51 @@
+// @auth SECRET
+/**
+ * Detail-worker voor een adapter-scraper (lib/scrapers/shared/registry.ts).
+ *
+ * Claimt batches uit scrape_queue (atomic via scrape_claim_batch, FOR UPDATE SKIP LOCKED),
+ * dus meerdere instances kunnen parallel draaien. Zonder orchestrationId (cron-GET)
+ * drained de worker alles wat pending is voor deze bron.
+ *
+ * POST body: { orchestrationId?, batchSize?, maxBatches? }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withCronAuth } from "@/lib/auth-middleware";
+import { createSupabaseClient, getScraperAdapter, runDetailWorker } from "@/lib/scrapers/shared";
+
+export const runtime = "nodejs";
+export const preferredRegion = ["fra1", "ams1"];
+export const maxDuration = 300;
+
+async function handler(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+): Promise<NextResponse> {
+  const startTime = Date.now();
+  const { slug } = await params;
+  const adapter = getScraperAdapter(slug);
+  if (!adapter) {
+    return NextResponse.json({ success: false, error: `Onbekende scraper: ${slug}` }, { status: 404 });
+  }
+
+  let body: { orchestrationId?: string; batchSize?: number; maxBatches?: number } = {};
+  try {
+    body = await req.json();
+  } catch {
+    /* lege body toegestaan (cron-GET) */
+  }
+
+  const result = await runDetailWorker(createSupabaseClient(), adapter, {
+    orchestrationId: body.orchestrationId ?? null,
+    batchSize: body.batchSize,
+    maxBatches: body.maxBatches,
+  });
+
+  return NextResponse.json(
+    { ...result, duration_ms: Date.now() - startTime },
+    { status: result.success ? 200 : 500 }
+  );
+}
+
+export const POST = withCronAuth(handler);
+export const GET = POST;
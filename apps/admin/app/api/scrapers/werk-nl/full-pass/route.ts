@@ -7,7 +7,8 @@
  * Loopt cursor-gestuurd over ALLE vacatures, verspreid over meerdere cron-runs.
  * Elke geziene vacature krijgt een verse `last_seen_in_sitemap`; nieuwe worden
  * geinsert + enqueued. Bij het bereiken van het einde volgens totalResults is de
- * pass VOLTOOID: de delisting-sweep archiveert alles dat sinds pass-start niet gezien is.
+ * pass VOLTOOID: de delisting-sweep archiveert alles dat sinds pass-start niet gezien is
+ * en meldt de gearchiveerde detailpagina's bij IndexNow.
  * Een nieuwe pass start automatisch als de vorige > STALE_DAYS geleden voltooide.
  */
 
@@ -19,6 +20,7 @@ import { searchPage } from "@/lib/scrapers/werk_nl/search-client";
 import { upsertListing } from "@/lib/scrapers/werk_nl/upsert";
 import { enqueue } from "@/lib/scrapers/werk_nl/queue";
 import { archiveNotSeenSince } from "@/lib/scrapers/werk_nl/delisted";
+import { pingArchivedJobs } from "@/lib/services/archived-jobs-indexnow.service";
 import { getScanState, isPassDue, startPass, saveCursor, completePass } from "@/lib/scrapers/werk_nl/scan-state";
 import { JOB_SOURCE_NAME } from "@/lib/scrapers/werk_nl/constants";
 import { hasTimeBudget, shouldCompleteFullPass } from "@/lib/scrapers/werk_nl/scan-progress";
@@ -99,6 +101,10 @@ async function handler(_req: NextRequest): Promise<NextResponse> {
     let archived = 0;
     if (passComplete) {
       archived = await archiveNotSeenSince(supabase, sourceId, passStartedAt, nowIso);
+      if (archived > 0) {
+        const ping = await pingArchivedJobs(supabase, nowIso, nowIso);
+        if (ping.error) console.warn(`[werknl] IndexNow na delisting faalde: ${ping.error}`);
+      }
       await completePass(supabase, nowIso);
     } else {
       await saveCursor(supabase, cursor);
@@ -11,6 +11,7 @@ import {
   resolvePlatformHost,
   buildVacatureUrlList,
 } from '@/lib/services/indexnow.service'
+import { applyPackagePublication } from '@/lib/services/platform-publication.service'
 
 export const dynamic = 'force-dynamic'
 
@@ -30,6 +31,12 @@ async function publishHandler(
       )
     }
 
+    // Werkgeversportaal-vacature: pakket-looptijd + publiek regioplatform
+    const packageResult = await applyPackagePublication(supabase, [id])
+    if (packageResult.errors.length > 0) {
+      console.warn(`[publish] package publication ${id}:`, packageResult.errors.join('; '))
+    }
+
     // Fetch current state to auto-generate slug + platform if missing
     const { data: current, error: fetchErr } = await supabase
       .from('job_postings')
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, AuthResult } from '@/lib/auth-middleware'
 import { createServiceRoleClient } from '@/lib/supabase-server'
 import { revalidatePublicSite } from '@/lib/services/public-site-revalidate.service'
+import { salaryColumns } from '@/lib/services/salary-normalization/normalize'
 import type { Database } from '@/lib/supabase'
 
 type JobPostingUpdate = Database['public']['Tables']['job_postings']['Update']
@@ -55,6 +56,7 @@ async function getVacatureHandler(
         header_image_url,
         seo_title,
         seo_description,
+        english_friendly,
         content_enriched_at,
         companies (
           id,
@@ -144,7 +146,20 @@ async function updateVacatureHandler(
     if (hasField('street')) updateFields.street = body.street || null
     if (hasField('state')) updateFields.state = body.state || null
     if (hasField('description')) updateFields.description = body.description || null
-    if (hasField('salary')) updateFields.salary = body.salary || null
+    // Salaristekst altijd samen met de gestructureerde kolommen schrijven;
+    // salary_min/max/unit (AI-herschrijving) gaan voor, anders wordt de tekst geparsed.
+    if (hasField('salary')) {
+      updateFields.salary = body.salary || null
+      Object.assign(
+        updateFields,
+        salaryColumns(
+          body.salary || null,
+          hasField('salary_unit')
+            ? { min: body.salary_min, max: body.salary_max, unit: body.salary_unit, currency: body.salary_currency }
+            : null
+        )
+      )
+    }
     if (hasField('employment')) updateFields.employment = body.employment || null
     if (hasField('education_level')) updateFields.education_level = body.education_level || null
     if (hasField('categories')) updateFields.categories = body.categories || null
@@ -154,6 +169,7 @@ async function updateVacatureHandler(
     if (hasField('header_image_url')) updateFields.header_image_url = body.header_image_url
     if (hasField('seo_title')) updateFields.seo_title = body.seo_title || null
     if (hasField('seo_description')) updateFields.seo_description = body.seo_description || null
+    if (hasField('english_friendly')) updateFields.english_friendly = body.english_friendly === true
 
     // Numeric fields
     if (hasField('working_hours_min')) {
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, AuthResult } from '@/lib/auth-middleware'
 import { createServiceRoleClient } from '@/lib/supabase-server'
+import { salaryColumns } from '@/lib/services/salary-normalization/normalize'
 import type { Database } from '@/lib/supabase'
 
 type JobPostingUpdate = Database['public']['Tables']['job_postings']['Update']
@@ -114,6 +115,7 @@ async function createVacatureHandler(req: NextRequest, _authResult: AuthResult)
         location,
         description: description || null,
         salary: salary || null,
+        ...salaryColumns(salary || null),
         employment: employment || null,
         working_hours_min: working_hours_min ? parseInt(working_hours_min) : null,
         working_hours_max: working_hours_max ? parseInt(working_hours_max) : null,
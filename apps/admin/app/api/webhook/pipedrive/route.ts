@@ -0,0 +1,42 @@
+// @auth SIGNATURE
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { withWebhookSecurity } from '@/lib/webhook-security'
+import { handlePipedriveWebhook } from '@/lib/services/pipedrive-inbound-sync.service'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/webhook/pipedrive
+ *
+ * Inbound Pipedrive-webhooks (v2 of v1) voor organization, person en deal.
+ * Verificatie via de Basic-auth credentials van de webhook
+ * (PIPEDRIVE_WEBHOOK_USER / PIPEDRIVE_WEBHOOK_PASSWORD). Overgeslagen events
+ * krijgen ook een 200; alleen een fout geeft 500 zodat Pipedrive het opnieuw
+ * probeert.
+ */
+async function pipedriveWebhookHandler(_req: NextRequest, payload: unknown) {
+  try {
+    const result = await handlePipedriveWebhook(createServiceRoleClient(), payload)
+    if (result.status === 'error') {
+      console.error(`[pipedrive-webhook] ${result.eventId}: ${result.reason}`)
+      return NextResponse.json({ success: false, error: result.reason }, { status: 500 })
+    }
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      reason: result.reason ?? null,
+      changes: result.changes.length,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[pipedrive-webhook] failed:', message)
+    return NextResponse.json({ success: false, error: message }, { status: 500 })
+  }
+}
+
+export const POST = withWebhookSecurity('pipedrive', pipedriveWebhookHandler, {
+  requireSignature: true,
+  requireTimestamp: false,
+})
@@ -77,6 +77,7 @@ export default function CompaniesPage() {
   const [subdomeinenFilter, setSubdomeinenFilter] = useState<string[]>([])
   const [pipedriveFilter, setPipedriveFilter] = useState("all")
   const [instantlyFilter, setInstantlyFilter] = useState("all")
+  const [hiringIntensityFilter, setHiringIntensityFilter] = useState("all")
   const [dateFrom, setDateFrom] = useState<string | null>(null)
   const [dateTo, setDateTo] = useState<string | null>(null)
 
@@ -160,6 +161,8 @@ export default function CompaniesPage() {
           setPipedriveFilter={setPipedriveFilter}
           instantlyFilter={instantlyFilter}
           setInstantlyFilter={setInstantlyFilter}
+          hiringIntensityFilter={hiringIntensityFilter}
+          setHiringIntensityFilter={setHiringIntensityFilter}
           dateFrom={dateFrom}
           setDateFrom={setDateFrom}
           dateTo={dateTo}
@@ -184,6 +187,7 @@ export default function CompaniesPage() {
         subdomeinenFilter={subdomeinenFilter}
         pipedriveFilter={pipedriveFilter}
         instantlyFilter={instantlyFilter}
+        hiringIntensityFilter={hiringIntensityFilter}
         dateFrom={dateFrom}
         dateTo={dateTo}
         onCompanyClick={handleCompanySelect}
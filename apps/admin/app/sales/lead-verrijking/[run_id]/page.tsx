@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button'
 import { RefreshCw } from 'lucide-react'
 import { LeadSourceStatusGrid } from '@/components/sales/lead-source-status-grid'
 import { LeadSyncStatus } from '@/components/sales/lead-sync-status'
+import { LeadRefreshSignals } from '@/components/sales/lead-refresh-signals'
 import { LeadMasterRecord } from '@/components/sales/lead-master-record'
 import { LeadContactsColumn } from '@/components/sales/lead-contacts-column'
 import { LeadColdContactsCard } from '@/components/sales/lead-cold-contacts-card'
@@ -401,6 +402,11 @@ export default function RunDetailPage({ params }: PageProps) {
           />
         </div>
       )}
+      {run.status === 'completed' && run.pipedrive_org_id && (
+        <div className="mt-6">
+          <LeadRefreshSignals runId={run.id} />
+        </div>
+      )}
       {timedOut && showEnriching && (
         <div className="mt-4 flex items-start justify-between gap-3 rounded-md border border-yellow-300 bg-yellow-50 p-4 text-sm text-yellow-900">
           <div>
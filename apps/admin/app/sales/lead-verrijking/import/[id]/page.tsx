@@ -0,0 +1,19 @@
+import Link from 'next/link'
+import { ChevronLeft } from 'lucide-react'
+import { LeadImportDetail } from '@/components/sales/lead-import-detail'
+
+export default async function LeadImportDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      <div className="mb-6">
+        <Link href="/sales/lead-verrijking" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+          <ChevronLeft className="size-4" />
+          Lead Verrijking
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900 mt-2">Bulk import</h1>
+      </div>
+      <LeadImportDetail importId={id} />
+    </div>
+  )
+}
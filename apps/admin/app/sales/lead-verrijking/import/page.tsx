@@ -0,0 +1,15 @@
+import { LeadImportForm } from '@/components/sales/lead-import-form'
+
+export default function LeadImportPage() {
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Lead Verrijking · Bulk import</h1>
+        <p className="text-gray-500 mt-1 text-sm">
+          Upload een lijst bedrijven, koppel de kolommen en controleer de preview voordat de verrijking start.
+        </p>
+      </div>
+      <LeadImportForm />
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import Link from 'next/link'
 import useSWR from 'swr'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Mail, Plus, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react'
+import { Mail, Plus, ChevronLeft, ChevronRight, RefreshCw, FileSpreadsheet } from 'lucide-react'
 import { LeadRunsFilters, EMPTY_FILTERS, type FilterState } from '@/components/sales/lead-runs-filters'
 import { LeadRunsTable } from '@/components/sales/lead-runs-table'
 import { pollingOptions } from '@/lib/swr-polling'
@@ -82,12 +82,20 @@ export default function LeadVerrijkingPage() {
             Verrijk een bedrijf op basis van URL → review → sync naar Pipedrive.
           </p>
         </div>
-        <Button asChild>
-          <Link href="/sales/lead-verrijking/nieuw">
-            <Plus className="size-4 mr-1" />
-            Nieuwe lead
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href="/sales/lead-verrijking/import">
+              <FileSpreadsheet className="size-4 mr-1" />
+              Bulk import (CSV/Excel)
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/sales/lead-verrijking/nieuw">
+              <Plus className="size-4 mr-1" />
+              Nieuwe lead
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Card>
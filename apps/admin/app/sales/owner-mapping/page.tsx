@@ -20,6 +20,7 @@ type OwnerConfig = {
   wetarget_flag_value: number
   contactmoment_field_key: string | null
   contactmoment_offset_workdays: number
+  refresh_activity_enabled: boolean
   is_active: boolean
   display_order: number
 }
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import {
   Select,
   SelectContent,
@@ -112,6 +113,7 @@ export default function BewerkVacaturePage() {
   const [platformId, setPlatformId] = useState("")
   const [reviewStatus, setReviewStatus] = useState("pending")
   const [headerImageUrl, setHeaderImageUrl] = useState<string | null>(null)
+  const [englishFriendly, setEnglishFriendly] = useState(false)
   const [contentMd, setContentMd] = useState("")
   const [contentEnrichedAt, setContentEnrichedAt] = useState<string | null>(null)
   const [aiRewriting, setAiRewriting] = useState(false)
@@ -221,6 +223,7 @@ export default function BewerkVacaturePage() {
         setPlatformId(data.platform_id || "")
         setReviewStatus(data.review_status || "pending")
         setHeaderImageUrl(data.header_image_url ?? null)
+        setEnglishFriendly(!!data.english_friendly)
         setContentMd(data.content_md || "")
         setContentEnrichedAt(data.content_enriched_at || null)
       } catch {
@@ -298,6 +301,7 @@ export default function BewerkVacaturePage() {
           platform_id: platformId || undefined,
           review_status: reviewStatus,
           header_image_url: headerImageUrl,
+          english_friendly: englishFriendly,
           content_md: contentMd.trim() || null,
         }),
       })
@@ -711,6 +715,21 @@ export default function BewerkVacaturePage() {
                 placeholder="https://werkgever.nl/vacature"
               />
             </div>
+
+            <div className="flex items-start justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="english-friendly">English-friendly</Label>
+                <p className="text-xs text-muted-foreground">
+                  Engelstalige kandidaten welkom. De vacature krijgt een automatisch vertaalde
+                  pagina op /en van de publieke site.
+                </p>
+              </div>
+              <Switch
+                id="english-friendly"
+                checked={englishFriendly}
+                onCheckedChange={setEnglishFriendly}
+              />
+            </div>
           </CardContent>
         </Card>
 
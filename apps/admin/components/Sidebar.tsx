@@ -23,6 +23,8 @@ import {
   Monitor,
   Workflow,
   Sparkles,
+  Copy,
+  BadgeCheck,
   type LucideIcon,
 } from "lucide-react"
 import { Logo } from "@/components/ui/logo"
@@ -77,9 +79,19 @@ const sections: NavSection[] = [
         children: [
           { href: "/job-postings", icon: Briefcase, label: "Overzicht" },
           { href: "/job-postings/scrape-bronnen", icon: Monitor, label: "Scrape-bronnen" },
+          { href: "/review/duplicaten", icon: Copy, label: "Dubbele vacatures" },
+        ],
+      },
+      {
+        href: "/companies",
+        icon: Building2,
+        label: "Bedrijven",
+        children: [
+          { href: "/companies", icon: Building2, label: "Overzicht" },
+          { href: "/review/bedrijven", icon: Copy, label: "Dubbele bedrijven" },
+          { href: "/review/werkgevers", icon: BadgeCheck, label: "Werkgeversclaims" },
         ],
       },
-      { href: "/companies", icon: Building2, label: "Bedrijven" },
       { href: "/contacten", icon: Users, label: "Contacten" },
     ],
   },
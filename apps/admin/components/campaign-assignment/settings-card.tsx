@@ -16,6 +16,7 @@ interface CampaignAssignmentSettings {
   max_per_platform: number
   is_enabled: boolean
   delay_between_contacts_ms: number
+  min_hiring_intensity: number | null
   updated_at: string
 }
 
@@ -73,7 +74,8 @@ export function CampaignAssignmentSettingsCard({ onSettingsChange }: SettingsCar
           max_total_contacts: settings.max_total_contacts,
           max_per_platform: settings.max_per_platform,
           is_enabled: settings.is_enabled,
-          delay_between_contacts_ms: settings.delay_between_contacts_ms
+          delay_between_contacts_ms: settings.delay_between_contacts_ms,
+          min_hiring_intensity: settings.min_hiring_intensity
         })
       })
 
@@ -248,6 +250,27 @@ export function CampaignAssignmentSettingsCard({ onSettingsChange }: SettingsCar
           </p>
         </div>
 
+        {/* Min hiring intensity */}
+        <div className="space-y-2">
+          <Label htmlFor="min-hiring-intensity">Minimale hiring intensity</Label>
+          <Input
+            id="min-hiring-intensity"
+            type="number"
+            min={1}
+            max={100}
+            placeholder="Geen filter"
+            value={settings.min_hiring_intensity ?? ''}
+            onChange={(e) => {
+              const value = parseInt(e.target.value)
+              updateSetting('min_hiring_intensity', value >= 1 ? Math.min(value, 100) : null)
+            }}
+            className="max-w-[200px]"
+          />
+          <p className="text-sm text-muted-foreground">
+            Alleen contacten van bedrijven met minimaal deze score op vacature-activiteit (1-100, leeg = geen filter)
+          </p>
+        </div>
+
         {/* Last updated */}
         <div className="pt-4 border-t text-sm text-muted-foreground">
           Laatst bijgewerkt: {new Date(settings.updated_at).toLocaleString('nl-NL')}
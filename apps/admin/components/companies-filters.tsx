@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Search, RotateCcw, X } from "lucide-react"
 import { DateRangeFilter } from "@/components/ui/table-filters"
+import { HIRING_INTENSITY_FILTER_OPTIONS } from "@/lib/services/hiring-intensity/score"
 
 interface CompaniesFiltersProps {
   searchTerm: string
@@ -34,6 +35,8 @@ interface CompaniesFiltersProps {
   setPipedriveFilter: (value: string) => void
   instantlyFilter: string
   setInstantlyFilter: (value: string) => void
+  hiringIntensityFilter: string
+  setHiringIntensityFilter: (value: string) => void
   dateFrom: string | null
   setDateFrom: (value: string | null) => void
   dateTo: string | null
@@ -69,6 +72,8 @@ export function CompaniesFilters({
   setPipedriveFilter,
   instantlyFilter,
   setInstantlyFilter,
+  hiringIntensityFilter,
+  setHiringIntensityFilter,
   dateFrom,
   setDateFrom,
   dateTo,
@@ -92,6 +97,7 @@ export function CompaniesFilters({
     setSubdomeinenFilter([])
     setPipedriveFilter("all")
     setInstantlyFilter("all")
+    setHiringIntensityFilter("all")
     setDateFrom(null)
     setDateTo(null)
     onResetPage?.()
@@ -112,6 +118,7 @@ export function CompaniesFilters({
     if (subdomeinenFilter.length > 0) count++
     if (pipedriveFilter !== "all") count++
     if (instantlyFilter !== "all") count++
+    if (hiringIntensityFilter !== "all") count++
     if (dateFrom || dateTo) count++
     return count
   }
@@ -251,6 +258,15 @@ export function CompaniesFilters({
                     />
                   </Badge>
                 )}
+                {hiringIntensityFilter !== "all" && (
+                  <Badge variant="secondary" className="gap-1">
+                    Hiring intensity: {HIRING_INTENSITY_FILTER_OPTIONS.find(o => o.value === hiringIntensityFilter)?.label ?? `${hiringIntensityFilter}+`}
+                    <X
+                      className="size-3 cursor-pointer ml-1"
+                      onClick={() => setHiringIntensityFilter("all")}
+                    />
+                  </Badge>
+                )}
                 {(dateFrom || dateTo) && (
                   <Badge variant="secondary" className="gap-1">
                     Aangemaakt: {dateFrom && dateTo
@@ -407,6 +423,19 @@ export function CompaniesFilters({
             </SelectContent>
           </Select>
 
+          {/* Hiring Intensity Filter */}
+          <Select value={hiringIntensityFilter} onValueChange={setHiringIntensityFilter}>
+            <SelectTrigger>
+              <SelectValue placeholder="Hiring intensity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Hiring intensity</SelectItem>
+              {HIRING_INTENSITY_FILTER_OPTIONS.map(o => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           {/* Date Range Filter */}
           <DateRangeFilter
             dateFrom={dateFrom}
@@ -20,9 +20,16 @@ import {
   ExternalLink,
   User,
   Crown,
-  Globe
+  Globe,
+  GitMerge,
+  History,
+  Flame
 } from 'lucide-react'
 import { supabaseService } from '@/lib/supabase-service'
+import { useAuth } from '@/components/auth-provider'
+import { MergeCompaniesDialog } from '@/components/company-dedup/merge-companies-dialog'
+import { MergeHistoryDialog } from '@/components/company-dedup/merge-history-dialog'
+import { HIRING_INTENSITY_TIERS, hiringIntensityTier } from '@/lib/services/hiring-intensity/score'
 
 interface Company {
   id: string
@@ -41,6 +48,7 @@ interface Company {
   pipedrive_synced_at?: string | null
   hoofddomein?: string | null
   subdomeinen?: string[] | null
+  hiring_intensity_score?: number | null
 }
 
 interface CompaniesTabContainerProps {
@@ -57,6 +65,7 @@ interface CompaniesTabContainerProps {
   subdomeinenFilter?: string[]
   pipedriveFilter?: string
   instantlyFilter?: string
+  hiringIntensityFilter?: string
   dateFrom?: string | null
   dateTo?: string | null
   onCompanyClick?: (company: Company) => void
@@ -87,6 +96,7 @@ export function CompaniesTabContainer({
   subdomeinenFilter = [],
   pipedriveFilter = "all",
   instantlyFilter = "all",
+  hiringIntensityFilter = "all",
   dateFrom = null,
   dateTo = null,
   onCompanyClick
@@ -102,6 +112,9 @@ export function CompaniesTabContainer({
   const [selectedCompanies, setSelectedCompanies] = useState<Set<string>>(new Set())
   const [isQualifying, setIsQualifying] = useState<Set<string>>(new Set())
   const webhookRateLimit = useWebhookRateLimit()
+  const { isAdmin } = useAuth()
+  const [mergeIds, setMergeIds] = useState<[string, string] | null>(null)
+  const [historyOpen, setHistoryOpen] = useState(false)
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null)
   const prevSearchTermRef = useRef(searchTerm)
 
@@ -131,6 +144,7 @@ export function CompaniesTabContainer({
     instantlyFilter: instantlyFilter !== "all"
       ? (instantlyFilter as 'synced' | 'not_synced')
       : undefined,
+    minHiringIntensity: hiringIntensityFilter !== "all" ? Number(hiringIntensityFilter) : undefined,
     dateFrom: dateFrom || undefined,
     dateTo: dateTo || undefined,
     qualification_status: (qualificationStatus || 'all') as
@@ -196,7 +210,7 @@ export function CompaniesTabContainer({
   useEffect(() => {
     loadTabData(activeTab)
     loadCounts()
-  }, [JSON.stringify(statusFilter), JSON.stringify(sourceFilter), customerFilter, websiteFilter, JSON.stringify(categorySizeFilter), apolloEnrichedFilter, hasContactsFilter, JSON.stringify(regioPlatformFilter), JSON.stringify(subdomeinenFilter), pipedriveFilter, instantlyFilter, dateFrom, dateTo])
+  }, [JSON.stringify(statusFilter), JSON.stringify(sourceFilter), customerFilter, websiteFilter, JSON.stringify(categorySizeFilter), apolloEnrichedFilter, hasContactsFilter, JSON.stringify(regioPlatformFilter), JSON.stringify(subdomeinenFilter), pipedriveFilter, instantlyFilter, hiringIntensityFilter, dateFrom, dateTo])
 
   // Refresh all data
   const refreshData = async () => {
@@ -610,6 +624,19 @@ export function CompaniesTabContainer({
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {isAdmin && companies.filter(c => selectedCompanies.has(c.id)).length === 2 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    const [a, b] = companies.filter(c => selectedCompanies.has(c.id)).map(c => c.id)
+                    setMergeIds([a, b])
+                  }}
+                >
+                  <GitMerge className="size-4 mr-2" />
+                  Samenvoegen
+                </Button>
+              )}
               {qualificationState === 'qualified' && (
                 <Button 
                   variant="default" 
@@ -741,6 +768,16 @@ export function CompaniesTabContainer({
                 {company.contact_count > 0 && (
                   <Badge variant="secondary">{company.contact_count} contacts</Badge>
                 )}
+                {company.hiring_intensity_score != null && company.hiring_intensity_score > 0 && (
+                  <Badge
+                    variant="outline"
+                    className={HIRING_INTENSITY_TIERS[hiringIntensityTier(company.hiring_intensity_score)].className}
+                    title="Hiring intensity (vacature-activiteit, 0-100)"
+                  >
+                    <Flame className="size-3 mr-1" />
+                    {company.hiring_intensity_score}
+                  </Badge>
+                )}
                 {company.is_customer && (
                   <Badge className="bg-purple-100 text-purple-800 border-purple-200 text-xs">
                     <Crown className="size-3 mr-1" />
@@ -934,16 +971,27 @@ export function CompaniesTabContainer({
               Qualify companies and manage Apollo enrichment ({(counts.qualified + counts.review + counts.disqualified + counts.pending).toLocaleString("nl-NL")}{Object.values(counts.is_capped).some(Boolean) ? "+" : ""} companies total)
             </CardDescription>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={refreshData}
-            className="flex items-center gap-2"
-            disabled={isRefreshing}
-          >
-            <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setHistoryOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <History className="size-4" />
+              Samenvoegingen
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refreshData}
+              className="flex items-center gap-2"
+              disabled={isRefreshing}
+            >
+              <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -1128,6 +1176,22 @@ export function CompaniesTabContainer({
             {renderCompaniesSection('pending')}
           </TabsContent>
         </Tabs>
+
+        <MergeCompaniesDialog
+          open={mergeIds !== null}
+          onOpenChange={(o) => { if (!o) setMergeIds(null) }}
+          companyIds={mergeIds}
+          onMerged={() => {
+            setSelectedCompanies(new Set())
+            refreshData()
+          }}
+        />
+        <MergeHistoryDialog
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          canUndo={isAdmin}
+          onUndone={refreshData}
+        />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,226 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { toast } from 'sonner'
+import { ExternalLink, GitMerge, RotateCcw, X } from 'lucide-react'
+import { useAuth } from '@/components/auth-provider'
+import { MergeCompaniesDialog } from '@/components/company-dedup/merge-companies-dialog'
+import type { CandidateRow, CandidateSignal } from '@/lib/services/company-dedup/candidate.service'
+
+type ListResponse = { rows: CandidateRow[]; total: number; page: number; pageSize: number }
+type Company = NonNullable<CandidateRow['company_a']>
+
+const STATUSES = [
+  { value: 'pending', label: 'Te beoordelen' },
+  { value: 'rejected', label: 'Geen duplicaat' },
+]
+
+const SIGNAL_LABELS: Record<CandidateSignal, string> = {
+  kvk: 'KvK',
+  werknl_employer_id: 'werk.nl-id',
+  hoofddomein: 'Domein',
+  phone: 'Telefoon',
+  postal_code: 'Postcode',
+  name: 'Naam',
+}
+
+function pct(v: number) {
+  return `${Math.round(v * 100)}%`
+}
+
+function evidenceText(row: CandidateRow, signal: CandidateSignal) {
+  if (signal === 'name') return row.evidence.name ? pct(row.evidence.name.similarity) : ''
+  return row.evidence[signal] ?? ''
+}
+
+function CompanyCard({ company }: { company: Company | null }) {
+  if (!company) {
+    return <div className="flex-1 border rounded-lg p-4 text-sm text-slate-400">Bedrijf verwijderd</div>
+  }
+  return (
+    <div className="flex-1 min-w-0 border rounded-lg p-4 bg-white">
+      <a href={`/companies?id=${company.id}`} className="font-medium text-blue-600 hover:underline">
+        {company.name}
+      </a>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-slate-600 mt-3">
+        <dt className="text-slate-400">Website</dt>
+        <dd className="truncate">
+          {company.website ? (
+            <a href={company.website} target="_blank" rel="noreferrer" className="hover:underline inline-flex items-center gap-1">
+              {company.hoofddomein ?? company.website} <ExternalLink className="size-3" />
+            </a>
+          ) : '-'}
+        </dd>
+        <dt className="text-slate-400">KvK</dt>
+        <dd>{company.kvk ?? '-'}</dd>
+        <dt className="text-slate-400">Telefoon</dt>
+        <dd>{company.phone ?? '-'}</dd>
+        <dt className="text-slate-400">Adres</dt>
+        <dd>{[company.postal_code, company.city].filter(Boolean).join(' ') || '-'}</dd>
+        <dt className="text-slate-400">Vacatures</dt>
+        <dd>{company.job_counts ?? 0}</dd>
+        <dt className="text-slate-400">Pipedrive</dt>
+        <dd>{company.pipedrive_id ?? '-'}</dd>
+      </dl>
+    </div>
+  )
+}
+
+export function CandidateReview() {
+  const { isAdmin } = useAuth()
+  const [status, setStatus] = useState('pending')
+  const [rows, setRows] = useState<CandidateRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [merging, setMerging] = useState<CandidateRow | null>(null)
+  const pageSize = 25
+  // Stabiele referentie: de dialoog laadt opnieuw zodra companyIds verandert.
+  const mergeIds = useMemo<[string, string] | null>(
+    () => (merging ? [merging.company_a_id, merging.company_b_id] : null),
+    [merging],
+  )
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const params = new URLSearchParams({ status, page: String(page), pageSize: String(pageSize) })
+    try {
+      const res = await fetch(`/api/companies/duplicates?${params}`)
+      const data = (await res.json()) as ListResponse | { error: string }
+      if (!res.ok) throw new Error('error' in data ? data.error : 'Onbekende fout')
+      const list = data as ListResponse
+      setRows(list.rows)
+      setTotal(list.total)
+    } catch (e) {
+      toast.error('Laden mislukt', { description: (e as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }, [status, page])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const removeRow = (id: string) => {
+    setRows((rs) => rs.filter((r) => r.id !== id))
+    setTotal((t) => Math.max(0, t - 1))
+  }
+
+  const resolve = async (row: CandidateRow, action: 'reject' | 'reopen') => {
+    setBusyId(row.id)
+    try {
+      const res = await fetch(`/api/companies/duplicates/${row.id}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error ?? 'Onbekende fout')
+      toast.success(action === 'reject' ? 'Gemarkeerd als geen duplicaat' : 'Terug in de queue')
+      removeRow(row.id)
+    } catch (e) {
+      toast.error('Opslaan mislukt', { description: (e as Error).message })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={status} onValueChange={(v) => { setStatus(v); setPage(1) }}>
+        <TabsList>
+          {STATUSES.map((s) => (
+            <TabsTrigger key={s.value} value={s.value}>{s.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <p className="text-sm text-slate-500">{total} paar{total === 1 ? '' : 'en'}</p>
+
+      {loading ? (
+        Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-40 w-full" />)
+      ) : rows.length === 0 ? (
+        <div className="border rounded-lg bg-white text-center py-12 text-sm text-slate-500">
+          Geen paren in deze lijst.
+        </div>
+      ) : (
+        rows.map((row) => (
+          <div key={row.id} className="border rounded-lg p-4 bg-slate-50 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-100">score {pct(row.score)}</Badge>
+                {row.signals.map((s) => (
+                  <Badge key={s} variant="outline" title={evidenceText(row, s)}>
+                    {SIGNAL_LABELS[s]}: {evidenceText(row, s)}
+                  </Badge>
+                ))}
+                {row.evidence.kvk_conflict && (
+                  <Badge className="bg-red-100 text-red-700 hover:bg-red-100">
+                    KvK verschilt: {row.evidence.kvk_conflict.a} / {row.evidence.kvk_conflict.b}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {status === 'pending' ? (
+                  <>
+                    <Button size="sm" variant="ghost" disabled={busyId === row.id} onClick={() => resolve(row, 'reject')}>
+                      <X className="size-4 mr-1" />
+                      Geen duplicaat
+                    </Button>
+                    {isAdmin && row.company_a && row.company_b && (
+                      <Button size="sm" variant="outline" disabled={busyId === row.id} onClick={() => setMerging(row)}>
+                        <GitMerge className="size-4 mr-1" />
+                        Samenvoegen
+                      </Button>
+                    )}
+                  </>
+                ) : (
+                  <Button size="sm" variant="ghost" disabled={busyId === row.id} onClick={() => resolve(row, 'reopen')}>
+                    <RotateCcw className="size-4 mr-1" />
+                    Terugzetten
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-col md:flex-row gap-3">
+              <CompanyCard company={row.company_a} />
+              <CompanyCard company={row.company_b} />
+            </div>
+          </div>
+        ))
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+            Vorige
+          </Button>
+          <span className="text-slate-500">
+            {page} / {totalPages}
+          </span>
+          <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage((p) => p + 1)}>
+            Volgende
+          </Button>
+        </div>
+      )}
+
+      <MergeCompaniesDialog
+        open={merging !== null}
+        onOpenChange={(o) => { if (!o) setMerging(null) }}
+        companyIds={mergeIds}
+        onMerged={() => {
+          // De loser is weg, dus de kandidaatrij is via de cascade al verdwenen.
+          if (merging) removeRow(merging.id)
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { toast } from 'sonner'
+import { ArrowLeftRight, Crown, GitMerge } from 'lucide-react'
+import {
+  defaultFieldChoices,
+  isEmptyValue,
+  MERGE_FIELDS,
+  type MergeFieldKey,
+  type MergeSide,
+} from '@/lib/services/company-dedup/merge-fields'
+import type { MergePreview, MergeCompanyRow } from '@/lib/services/company-dedup/merge.service'
+
+type Props = {
+  open: boolean
+  onOpenChange: (o: boolean) => void
+  companyIds: [string, string] | null
+  onMerged: (survivorId: string) => void
+}
+
+function display(v: unknown) {
+  if (isEmptyValue(v)) return '-'
+  if (typeof v === 'boolean') return v ? 'ja' : 'nee'
+  const s = String(v)
+  return s.length > 80 ? `${s.slice(0, 80)}…` : s
+}
+
+function CompanyHeader({ company, survivor, counts }: {
+  company: MergeCompanyRow
+  survivor: boolean
+  counts: MergePreview['counts'][string] | undefined
+}) {
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center gap-1.5">
+        <span className="font-medium truncate">{company.name}</span>
+        {survivor ? (
+          <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100 shrink-0">
+            <Crown className="size-3 mr-1" />
+            Blijft
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="shrink-0">Verdwijnt</Badge>
+        )}
+      </div>
+      {counts && (
+        <p className="text-xs text-slate-500 mt-0.5">
+          {counts.job_postings} vacatures · {counts.contacts} contacten · {counts.job_sources} bronnen · {counts.blocklist_entries} blocklist
+        </p>
+      )}
+    </div>
+  )
+}
+
+export function MergeCompaniesDialog({ open, onOpenChange, companyIds, onMerged }: Props) {
+  const [preview, setPreview] = useState<MergePreview | null>(null)
+  const [survivorId, setSurvivorId] = useState<string | null>(null)
+  const [choices, setChoices] = useState<Partial<Record<MergeFieldKey, MergeSide>>>({})
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open || !companyIds) return
+    setPreview(null)
+    setChoices({})
+    setLoadError(null)
+    setLoading(true)
+    const params = new URLSearchParams({ a: companyIds[0], b: companyIds[1] })
+    fetch(`/api/companies/merge?${params}`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error ?? 'Onbekende fout')
+        setPreview(data as MergePreview)
+        setSurvivorId((data as MergePreview).suggested_survivor_id)
+      })
+      .catch((e) => setLoadError((e as Error).message))
+      .finally(() => setLoading(false))
+  }, [open, companyIds])
+
+  const survivor = preview?.companies.find((c) => c.id === survivorId) ?? null
+  const loser = preview?.companies.find((c) => c.id !== survivorId) ?? null
+
+  // Alleen velden waar de twee verschillen zijn een keuze; de rest blijft gewoon staan.
+  const diffFields = useMemo(() => {
+    if (!survivor || !loser) return []
+    return MERGE_FIELDS.filter(({ key }) => {
+      if (isEmptyValue(survivor[key]) && isEmptyValue(loser[key])) return false
+      return JSON.stringify(survivor[key] ?? null) !== JSON.stringify(loser[key] ?? null)
+    })
+  }, [survivor, loser])
+
+  const defaults = useMemo(
+    () => (survivor && loser ? defaultFieldChoices(survivor, loser) : null),
+    [survivor, loser],
+  )
+
+  const swap = () => {
+    if (!loser) return
+    setSurvivorId(loser.id)
+    setChoices({})
+  }
+
+  const submit = async () => {
+    if (!survivor || !loser || !defaults) return
+    setSaving(true)
+    try {
+      const fields = Object.fromEntries(diffFields.map(({ key }) => [key, choices[key] ?? defaults[key]]))
+      const res = await fetch('/api/companies/merge', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ survivor_id: survivor.id, loser_id: loser.id, fields }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error ?? 'Onbekende fout')
+      toast.success('Bedrijven samengevoegd', {
+        description: `${loser.name} is opgegaan in ${survivor.name}. Terug te draaien via Samenvoegingen.`,
+      })
+      onMerged(survivor.id)
+      onOpenChange(false)
+    } catch (e) {
+      toast.error('Samenvoegen mislukt', { description: (e as Error).message })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bedrijven samenvoegen</DialogTitle>
+          <DialogDescription>
+            Vacatures, contacten, bronnen, blocklist-regels, Instantly-koppelingen en sales-lead-runs gaan naar het
+            bedrijf dat blijft. Kies per veld welke waarde het houdt.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-red-600">Laden mislukt: {loadError}</p>
+        ) : loading || !preview || !survivor || !loser || !defaults ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3 border rounded-lg p-3 bg-slate-50">
+              <CompanyHeader company={survivor} survivor counts={preview.counts[survivor.id]} />
+              <Button size="sm" variant="ghost" onClick={swap} title="Omdraaien">
+                <ArrowLeftRight className="size-4" />
+              </Button>
+              <CompanyHeader company={loser} survivor={false} counts={preview.counts[loser.id]} />
+            </div>
+
+            {diffFields.length === 0 ? (
+              <p className="text-sm text-slate-500">Geen verschillende velden; alleen de verwijzingen worden omgehangen.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="py-1 pr-2 font-medium w-40">Veld</th>
+                    <th className="py-1 pr-2 font-medium">{survivor.name}</th>
+                    <th className="py-1 font-medium">{loser.name}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffFields.map(({ key, label }) => {
+                    const side = choices[key] ?? defaults[key]
+                    const cell = (s: MergeSide, value: unknown) => (
+                      <td className="py-1 pr-2 align-top">
+                        <label className="flex items-start gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            className="mt-1"
+                            name={`merge-${key}`}
+                            checked={side === s}
+                            onChange={() => setChoices((c) => ({ ...c, [key]: s }))}
+                          />
+                          <span className={`break-all ${isEmptyValue(value) ? 'text-slate-400' : ''}`}>{display(value)}</span>
+                        </label>
+                      </td>
+                    )
+                    return (
+                      <tr key={key} className="border-t">
+                        <td className="py-1 pr-2 align-top text-slate-600">{label}</td>
+                        {cell('survivor', survivor[key])}
+                        {cell('loser', loser[key])}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Annuleren
+          </Button>
+          <Button onClick={submit} disabled={saving || loading || !survivor}>
+            <GitMerge className="size-4 mr-1" />
+            Samenvoegen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { toast } from 'sonner'
+import { Undo2 } from 'lucide-react'
+import type { CompanyMergeRow } from '@/lib/services/company-dedup/merge.service'
+
+type Props = {
+  open: boolean
+  onOpenChange: (o: boolean) => void
+  canUndo: boolean
+  onUndone: () => void
+}
+
+type ListResponse = { rows: CompanyMergeRow[]; total: number; page: number; pageSize: number }
+
+function movedSummary(moved: Record<string, unknown>) {
+  const count = (k: string) => (Array.isArray(moved[k]) ? (moved[k] as unknown[]).length : 0)
+  return [
+    [count('job_postings'), 'vacatures'],
+    [count('contacts'), 'contacten'],
+    [count('job_sources'), 'bronnen'],
+    [count('blocklist_entries'), 'blocklist'],
+  ]
+    .filter(([n]) => (n as number) > 0)
+    .map(([n, label]) => `${n} ${label}`)
+    .join(' · ')
+}
+
+export function MergeHistoryDialog({ open, onOpenChange, canUndo, onUndone }: Props) {
+  const [rows, setRows] = useState<CompanyMergeRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch('/api/companies/merges?pageSize=50')
+      const data = (await res.json()) as ListResponse | { error: string }
+      if (!res.ok) throw new Error('error' in data ? data.error : 'Onbekende fout')
+      setRows((data as ListResponse).rows)
+    } catch (e) {
+      toast.error('Laden mislukt', { description: (e as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) load()
+  }, [open, load])
+
+  const undo = async (row: CompanyMergeRow) => {
+    setBusyId(row.id)
+    try {
+      const res = await fetch(`/api/companies/merges/${row.id}/undo`, { method: 'POST' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error ?? 'Onbekende fout')
+      toast.success(`${row.loser_name} is teruggezet`)
+      onUndone()
+      await load()
+    } catch (e) {
+      toast.error('Terugdraaien mislukt', { description: (e as Error).message })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Samenvoegingen</DialogTitle>
+          <DialogDescription>
+            Terugdraaien zet het verdwenen bedrijf terug en hangt precies de verplaatste records weer om.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-12 w-full" />)}
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-slate-500 py-6 text-center">Nog geen samenvoegingen.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {rows.map((row) => (
+              <li key={row.id} className="py-2 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p>
+                    <span className="font-medium">{row.loser_name}</span>
+                    <span className="text-slate-400"> → </span>
+                    <span className="font-medium">{row.survivor?.name ?? row.survivor_id}</span>
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {new Date(row.merged_at).toLocaleString('nl-NL')}
+                    {movedSummary(row.moved) && ` · ${movedSummary(row.moved)}`}
+                  </p>
+                </div>
+                {row.undone_at ? (
+                  <Badge variant="outline" className="shrink-0">teruggedraaid</Badge>
+                ) : canUndo ? (
+                  <Button size="sm" variant="outline" disabled={busyId === row.id} onClick={() => undo(row)}>
+                    <Undo2 className="size-4 mr-1" />
+                    Ongedaan maken
+                  </Button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -28,9 +28,15 @@ import {
   Calendar,
   BarChart3,
   Target,
-  Link
+  Link,
+  Flame
 } from "lucide-react"
 import { toast } from 'sonner'
+import {
+  HIRING_INTENSITY_TIERS,
+  hiringIntensityTier,
+  type HiringIntensityDetail,
+} from '@/lib/services/hiring-intensity/score'
 
 interface CompanyJobPosting {
   id: string
@@ -98,6 +104,9 @@ interface CompanyDetails {
   qualification_notes?: string
   hoofddomein?: string | null
   subdomeinen?: string[] | null
+  hiring_intensity_score?: number | null
+  hiring_intensity?: HiringIntensityDetail | null
+  hiring_intensity_updated_at?: string | null
   enrichment_status?: 'idle' | 'processing' | 'completed' | 'failed'
   enrichment_started_at?: string
   enrichment_completed_at?: string
@@ -621,6 +630,62 @@ export function CompanyDetailsDrawer({
                   </CardContent>
                 </Card>
 
+                {company.hiring_intensity && company.hiring_intensity_score != null && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-x-2">
+                        <Flame className="size-5 text-orange-500" />
+                        Hiring intensity
+                        <Badge
+                          variant="outline"
+                          className={HIRING_INTENSITY_TIERS[hiringIntensityTier(company.hiring_intensity_score)].className}
+                        >
+                          {company.hiring_intensity_score} · {HIRING_INTENSITY_TIERS[hiringIntensityTier(company.hiring_intensity_score)].label}
+                        </Badge>
+                      </CardTitle>
+                      <CardDescription>
+                        Koopsignaal uit vacature-activiteit (0-100)
+                        {company.hiring_intensity_updated_at && `, bijgewerkt ${formatDate(company.hiring_intensity_updated_at)}`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableBody>
+                          <TableRow>
+                            <TableCell className="text-gray-600">Volume (90 dagen)</TableCell>
+                            <TableCell>{company.hiring_intensity.postings_90d} vacatures</TableCell>
+                            <TableCell className="text-right text-gray-500">{company.hiring_intensity.points.volume} / 35</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="text-gray-600">Snelheid (30 dagen)</TableCell>
+                            <TableCell>{company.hiring_intensity.postings_30d} vacatures</TableCell>
+                            <TableCell className="text-right text-gray-500">{company.hiring_intensity.points.velocity} / 25</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="text-gray-600">Herhaalde functies</TableCell>
+                            <TableCell>{company.hiring_intensity.repeat_postings}x opnieuw geplaatst</TableCell>
+                            <TableCell className="text-right text-gray-500">{company.hiring_intensity.points.repeat} / 20</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="text-gray-600">Looptijd tot offline</TableCell>
+                            <TableCell>
+                              {company.hiring_intensity.median_days_to_delist != null
+                                ? `${Math.round(company.hiring_intensity.median_days_to_delist)} dagen (mediaan van ${company.hiring_intensity.delisted})`
+                                : '-'}
+                            </TableCell>
+                            <TableCell className="text-right text-gray-500">{company.hiring_intensity.points.delist} / 15</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell className="text-gray-600">Bronnen (90 dagen)</TableCell>
+                            <TableCell>{company.hiring_intensity.sources_90d}</TableCell>
+                            <TableCell className="text-right text-gray-500">{company.hiring_intensity.points.sources} / 5</TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {company.description && (
                   <Card>
                     <CardHeader>
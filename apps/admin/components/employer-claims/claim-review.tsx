@@ -0,0 +1,170 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { toast } from 'sonner'
+import { Check, ExternalLink, X } from 'lucide-react'
+import { useAuth } from '@/components/auth-provider'
+import { domainMatches, emailDomain, type ClaimRow } from '@/lib/services/employer-claims/claims.service'
+
+type ListResponse = { rows: ClaimRow[]; total: number; page: number; pageSize: number }
+
+const STATUSES = [
+  { value: 'pending', label: 'Te beoordelen' },
+  { value: 'approved', label: 'Goedgekeurd' },
+  { value: 'rejected', label: 'Afgewezen' },
+]
+
+const dateFormat = new Intl.DateTimeFormat('nl-NL', { dateStyle: 'medium', timeStyle: 'short' })
+
+export function ClaimReview() {
+  const { isAdmin } = useAuth()
+  const [status, setStatus] = useState('pending')
+  const [rows, setRows] = useState<ClaimRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const pageSize = 25
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const params = new URLSearchParams({ status, page: String(page), pageSize: String(pageSize) })
+    try {
+      const res = await fetch(`/api/employer-claims?${params}`)
+      const data = (await res.json()) as ListResponse | { error: string }
+      if (!res.ok) throw new Error('error' in data ? data.error : 'Onbekende fout')
+      const list = data as ListResponse
+      setRows(list.rows)
+      setTotal(list.total)
+    } catch (e) {
+      toast.error('Laden mislukt', { description: (e as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }, [status, page])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const resolve = async (row: ClaimRow, action: 'approve' | 'reject') => {
+    setBusyId(row.id)
+    try {
+      const res = await fetch(`/api/employer-claims/${row.id}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error ?? 'Onbekende fout')
+      toast.success(
+        action === 'approve'
+          ? `Goedgekeurd${data.role === 'owner' ? ' (eigenaar)' : ''}`
+          : 'Claim afgewezen',
+      )
+      setRows((rs) => rs.filter((r) => r.id !== row.id))
+      setTotal((t) => Math.max(0, t - 1))
+    } catch (e) {
+      toast.error('Opslaan mislukt', { description: (e as Error).message })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={status} onValueChange={(v) => { setStatus(v); setPage(1) }}>
+        <TabsList>
+          {STATUSES.map((s) => (
+            <TabsTrigger key={s.value} value={s.value}>{s.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <p className="text-sm text-slate-500">{total} claim{total === 1 ? '' : 's'}</p>
+
+      {loading ? (
+        Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+      ) : rows.length === 0 ? (
+        <div className="border rounded-lg bg-white text-center py-12 text-sm text-slate-500">
+          Geen claims in deze lijst.
+        </div>
+      ) : (
+        <div className="border rounded-lg bg-white divide-y">
+          {rows.map((row) => (
+            <div key={row.id} className="flex flex-wrap items-center justify-between gap-4 p-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  {row.company ? (
+                    <a href={`/companies?id=${row.company.id}`} className="font-medium text-blue-600 hover:underline">
+                      {row.company.name}
+                    </a>
+                  ) : (
+                    <span className="text-slate-400">Bedrijf verwijderd</span>
+                  )}
+                  {row.company?.website && (
+                    <a
+                      href={row.company.website}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs text-slate-500 hover:underline inline-flex items-center gap-1"
+                    >
+                      {row.company.hoofddomein ?? row.company.website} <ExternalLink className="size-3" />
+                    </a>
+                  )}
+                  {row.method === 'email_domain' && <Badge variant="outline">Automatisch (domein)</Badge>}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+                  <span>{row.email}</span>
+                  {domainMatches(row.email, row.company?.hoofddomein ?? null) ? (
+                    <Badge className="bg-green-100 text-green-700 hover:bg-green-100">domein komt overeen</Badge>
+                  ) : (
+                    <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">
+                      {emailDomain(row.email) || 'geen domein'}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-slate-400">
+                  {dateFormat.format(new Date(row.created_at))}
+                  {row.note && <> · {row.note}</>}
+                </p>
+              </div>
+              {status === 'pending' && isAdmin && (
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="ghost" disabled={busyId === row.id} onClick={() => resolve(row, 'reject')}>
+                    <X className="size-4 mr-1" />
+                    Afwijzen
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={busyId === row.id} onClick={() => resolve(row, 'approve')}>
+                    <Check className="size-4 mr-1" />
+                    Goedkeuren
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+            Vorige
+          </Button>
+          <span className="text-slate-500">
+            {page} / {totalPages}
+          </span>
+          <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage((p) => p + 1)}>
+            Volgende
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { toast } from 'sonner'
+import { Crown, ExternalLink, GitMerge, X } from 'lucide-react'
+
+type Posting = {
+  id: string
+  title: string
+  city: string | null
+  url: string | null
+  salary: string | null
+  employment: string | null
+  review_status: string | null
+  published_at: string | null
+  canonical_id: string | null
+  archived_at: string | null
+  created_at: string | null
+  description: string | null
+  company: { id: string; name: string } | null
+  source: { id: string; name: string; kind: string } | null
+}
+
+type Pair = {
+  id: string
+  posting_a_id: string
+  posting_b_id: string
+  title_similarity: number
+  description_similarity: number | null
+  score: number
+  status: string
+  created_at: string
+  posting_a: Posting | null
+  posting_b: Posting | null
+}
+
+type ListResponse = { rows: Pair[]; total: number; page: number; pageSize: number }
+
+const STATUSES = [
+  { value: 'pending', label: 'Te beoordelen' },
+  { value: 'auto_merged', label: 'Automatisch samengevoegd' },
+  { value: 'merged', label: 'Samengevoegd' },
+  { value: 'rejected', label: 'Geen duplicaat' },
+]
+
+function pct(v: number | null) {
+  return v === null ? '-' : `${Math.round(v * 100)}%`
+}
+
+function plainText(html: string | null, max = 400) {
+  if (!html) return ''
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+  return text.length > max ? `${text.slice(0, max)}…` : text
+}
+
+function PostingCard({
+  posting,
+  isCanonical,
+  actionable,
+  busy,
+  onKeep,
+}: {
+  posting: Posting | null
+  isCanonical: boolean
+  actionable: boolean
+  busy: boolean
+  onKeep: () => void
+}) {
+  if (!posting) {
+    return <div className="flex-1 border rounded-lg p-4 text-sm text-slate-400">Vacature verwijderd</div>
+  }
+  return (
+    <div className={`flex-1 min-w-0 border rounded-lg p-4 bg-white ${posting.archived_at ? 'opacity-60' : ''}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <a href={`/job-postings?id=${posting.id}`} className="font-medium text-blue-600 hover:underline">
+            {posting.title}
+          </a>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {posting.company?.name ?? 'Onbekend bedrijf'} · {posting.city ?? 'geen plaats'}
+          </p>
+        </div>
+        {isCanonical && (
+          <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100 shrink-0">
+            <Crown className="size-3 mr-1" />
+            Canonical
+          </Badge>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5 mt-2">
+        <Badge variant="outline">{posting.source?.name ?? 'Onbekende bron'}</Badge>
+        {posting.review_status && <Badge variant="outline">{posting.review_status}</Badge>}
+        {posting.published_at && <Badge variant="outline">gepubliceerd</Badge>}
+        {posting.archived_at && <Badge variant="outline">gearchiveerd</Badge>}
+      </div>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-slate-600 mt-3">
+        <dt className="text-slate-400">Salaris</dt>
+        <dd>{posting.salary ?? '-'}</dd>
+        <dt className="text-slate-400">Dienstverband</dt>
+        <dd>{posting.employment ?? '-'}</dd>
+        <dt className="text-slate-400">Binnengekomen</dt>
+        <dd>{posting.created_at ? new Date(posting.created_at).toLocaleDateString('nl-NL') : '-'}</dd>
+      </dl>
+      <p className="text-xs text-slate-500 mt-3 line-clamp-6">{plainText(posting.description)}</p>
+      <div className="flex items-center justify-between mt-3">
+        {posting.url ? (
+          <a href={posting.url} target="_blank" rel="noreferrer" className="text-xs text-slate-500 hover:underline inline-flex items-center gap-1">
+            Bron <ExternalLink className="size-3" />
+          </a>
+        ) : <span />}
+        {actionable && (
+          <Button size="sm" variant="outline" disabled={busy} onClick={onKeep}>
+            <GitMerge className="size-4 mr-1" />
+            Samenvoegen, deze houden
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function DuplicateReview() {
+  const [status, setStatus] = useState('pending')
+  const [rows, setRows] = useState<Pair[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const pageSize = 25
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const params = new URLSearchParams({ status, page: String(page), pageSize: String(pageSize) })
+    try {
+      const res = await fetch(`/api/job-postings/duplicates?${params}`)
+      const data = (await res.json()) as ListResponse | { error: string }
+      if (!res.ok) throw new Error('error' in data ? data.error : 'Onbekende fout')
+      const list = data as ListResponse
+      setRows(list.rows)
+      setTotal(list.total)
+    } catch (e) {
+      toast.error('Laden mislukt', { description: (e as Error).message })
+    } finally {
+      setLoading(false)
+    }
+  }, [status, page])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const resolve = async (pair: Pair, action: 'merge' | 'reject', canonicalId?: string) => {
+    setBusyId(pair.id)
+    try {
+      const res = await fetch(`/api/job-postings/duplicates/${pair.id}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ action, ...(canonicalId ? { canonical_id: canonicalId } : {}) }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error ?? 'Onbekende fout')
+      toast.success(action === 'merge' ? 'Samengevoegd' : 'Gemarkeerd als geen duplicaat')
+      setRows((rs) => rs.filter((r) => r.id !== pair.id))
+      setTotal((t) => Math.max(0, t - 1))
+    } catch (e) {
+      toast.error('Opslaan mislukt', { description: (e as Error).message })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+  const actionable = status === 'pending'
+  // Bij al samengevoegde paren kan de review de koppeling nog ongedaan maken.
+  const undoable = status === 'auto_merged' || status === 'merged'
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={status} onValueChange={(v) => { setStatus(v); setPage(1) }}>
+        <TabsList>
+          {STATUSES.map((s) => (
+            <TabsTrigger key={s.value} value={s.value}>{s.label}</TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <p className="text-sm text-slate-500">{total} paar{total === 1 ? '' : 'en'}</p>
+
+      {loading ? (
+        Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-48 w-full" />)
+      ) : rows.length === 0 ? (
+        <div className="border rounded-lg bg-white text-center py-12 text-sm text-slate-500">
+          Geen paren in deze lijst.
+        </div>
+      ) : (
+        rows.map((pair) => {
+          const canonicalOf = (p: Posting | null, other: Posting | null) =>
+            !!p && !p.canonical_id && other?.canonical_id === p.id
+          return (
+            <div key={pair.id} className="border rounded-lg p-4 bg-slate-50 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-100">score {pct(pair.score)}</Badge>
+                  <span className="text-slate-500">titel {pct(pair.title_similarity)}</span>
+                  <span className="text-slate-500">beschrijving {pct(pair.description_similarity)}</span>
+                </div>
+                {(actionable || undoable) && (
+                  <Button size="sm" variant="ghost" disabled={busyId === pair.id} onClick={() => resolve(pair, 'reject')}>
+                    <X className="size-4 mr-1" />
+                    {undoable ? 'Loskoppelen, geen duplicaat' : 'Geen duplicaat'}
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-col md:flex-row gap-3">
+                <PostingCard
+                  posting={pair.posting_a}
+                  isCanonical={canonicalOf(pair.posting_a, pair.posting_b)}
+                  actionable={actionable}
+                  busy={busyId === pair.id}
+                  onKeep={() => resolve(pair, 'merge', pair.posting_a_id)}
+                />
+                <PostingCard
+                  posting={pair.posting_b}
+                  isCanonical={canonicalOf(pair.posting_b, pair.posting_a)}
+                  actionable={actionable}
+                  busy={busyId === pair.id}
+                  onKeep={() => resolve(pair, 'merge', pair.posting_b_id)}
+                />
+              </div>
+            </div>
+          )
+        })
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+            Vorige
+          </Button>
+          <span className="text-slate-500">
+            {page} / {totalPages}
+          </span>
+          <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage((p) => p + 1)}>
+            Volgende
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
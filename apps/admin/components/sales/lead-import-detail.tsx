@@ -0,0 +1,288 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import useSWR from 'swr'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FileSpreadsheet, RefreshCw } from 'lucide-react'
+import { pollingOptions } from '@/lib/swr-polling'
+import { toast } from 'sonner'
+
+const ACTIVE_POLL_MS = 5000
+
+type Classification = 'new' | 'existing_company' | 'existing_run' | 'duplicate_in_file' | 'invalid'
+
+type ImportRow = {
+  id: string
+  row_number: number
+  company_name: string | null
+  domain: string | null
+  kvk: string | null
+  city: string | null
+  classification: Classification
+  message: string | null
+  existing_run_id: string | null
+  include: boolean
+  dispatched_at: string | null
+  run_id: string | null
+  run_status: string | null
+}
+
+type ImportDetailResponse = {
+  import: {
+    id: string
+    file_name: string
+    status: 'preview' | 'dispatching' | 'completed' | 'cancelled'
+    total_rows: number
+    created_at: string
+    started_at: string | null
+    completed_at: string | null
+    sales_lead_owner_config: { label: string } | null
+  }
+  rows: ImportRow[]
+  summary: {
+    total: number
+    classification: Record<Classification, number>
+    selected: number
+    pending: number
+    runs: Record<string, number>
+  }
+}
+
+const CLASSIFICATION_LABELS: Record<Classification, string> = {
+  new: 'Nieuw',
+  existing_company: 'Bestaand bedrijf',
+  existing_run: 'Al verrijkt',
+  duplicate_in_file: 'Dubbel in bestand',
+  invalid: 'Ongeldig',
+}
+
+const CLASSIFICATION_VARIANTS: Record<Classification, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  new: 'default',
+  existing_company: 'secondary',
+  existing_run: 'outline',
+  duplicate_in_file: 'outline',
+  invalid: 'destructive',
+}
+
+const STATUS_LABELS: Record<ImportDetailResponse['import']['status'], string> = {
+  preview: 'Preview',
+  dispatching: 'Bezig',
+  completed: 'Afgerond',
+  cancelled: 'Geannuleerd',
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    const body = (await res.json().catch(() => ({}))) as { error?: string }
+    throw new Error(body.error ?? `HTTP ${res.status}`)
+  }
+  return res.json()
+}
+
+/**
+ * Preview en voortgang van een bulk-import. In 'preview' kiest sales of
+ * bestaande bedrijven mee moeten; tijdens 'dispatching' pollt de pagina de
+ * status van de aangemaakte runs.
+ */
+export function LeadImportDetail({ importId }: { importId: string }) {
+  const [includeExisting, setIncludeExisting] = useState(false)
+  const [filter, setFilter] = useState<Classification | 'all'>('all')
+  const [busy, setBusy] = useState(false)
+
+  const { data, error, isValidating, mutate } = useSWR<ImportDetailResponse>(
+    `/api/sales-leads/imports/${importId}`,
+    fetcher,
+    pollingOptions<ImportDetailResponse>((latest) => {
+      if (!latest) return ACTIVE_POLL_MS
+      const active = latest.import.status === 'dispatching' || (latest.summary.runs.enriching ?? 0) > 0
+      return active ? ACTIVE_POLL_MS : 0
+    }),
+  )
+
+  async function post(path: 'start' | 'cancel', body?: object) {
+    setBusy(true)
+    try {
+      const res = await fetch(`/api/sales-leads/imports/${importId}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      })
+      const json = (await res.json()) as { selected?: number; error?: string }
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`)
+      toast.success(path === 'start' ? `Verrijking gestart voor ${json.selected} bedrijven` : 'Import geannuleerd')
+      await mutate()
+    } catch (e) {
+      toast.error(path === 'start' ? 'Starten mislukt' : 'Annuleren mislukt', { description: (e as Error).message })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-600">Kon import niet laden: {(error as Error).message}</div>
+  }
+  if (!data) return <div className="text-sm text-gray-500">Laden…</div>
+
+  const { import: imp, rows, summary } = data
+  const c = summary.classification
+  const toStart = c.new + (includeExisting ? c.existing_company : 0)
+  const finished = (summary.runs.review ?? 0) + (summary.runs.completed ?? 0) + (summary.runs.failed ?? 0)
+    + (summary.runs.duplicate ?? 0) + (summary.runs.syncing ?? 0)
+  const visible = filter === 'all' ? rows : rows.filter((r) => r.classification === filter)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="size-5 text-orange-600" />
+            <CardTitle>{imp.file_name}</CardTitle>
+            <Badge variant="outline">{STATUS_LABELS[imp.status]}</Badge>
+            {imp.status === 'dispatching' && (
+              <div className="flex items-center gap-1 text-xs text-blue-600 ml-2">
+                <RefreshCw className={`w-3 h-3 ${isValidating ? 'animate-spin' : ''}`} />
+                Auto-refresh (5s)
+              </div>
+            )}
+          </div>
+          <CardDescription>
+            {summary.total} rijen · dealeigenaar {imp.sales_lead_owner_config?.label ?? 'onbekend'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(CLASSIFICATION_LABELS) as Classification[]).map((k) => (
+              <Badge key={k} variant={CLASSIFICATION_VARIANTS[k]}>
+                {CLASSIFICATION_LABELS[k]}: {c[k]}
+              </Badge>
+            ))}
+          </div>
+
+          {imp.status === 'preview' && (
+            <>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="text-sm font-medium">Bestaande bedrijven ook verrijken</p>
+                  <p className="text-xs text-gray-500">
+                    {c.existing_company} bedrijven staan al in de database. Standaard worden alleen nieuwe bedrijven verrijkt;
+                    bedrijven die al een run hebben worden altijd overgeslagen.
+                  </p>
+                </div>
+                <Switch checked={includeExisting} onCheckedChange={setIncludeExisting} />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" disabled={busy} onClick={() => void post('cancel')}>
+                  Annuleren
+                </Button>
+                <Button
+                  disabled={busy || toStart === 0}
+                  onClick={() => void post('start', { include_existing_companies: includeExisting })}
+                >
+                  Verrijking starten ({toStart})
+                </Button>
+              </div>
+            </>
+          )}
+
+          {imp.status !== 'preview' && summary.selected > 0 && (
+            <div className="space-y-2">
+              <Progress value={(finished / summary.selected) * 100} />
+              <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+                <span>{finished} van {summary.selected} klaar</span>
+                <span>{summary.runs.enriching ?? 0} bezig</span>
+                <span>{summary.pending} in wachtrij</span>
+                <span>{summary.runs.review ?? 0} klaar voor review</span>
+                <span>{summary.runs.failed ?? 0} gefaald</span>
+              </div>
+              {imp.status === 'dispatching' && (
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" disabled={busy} onClick={() => void post('cancel')}>
+                    Wachtrij stoppen
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Rijen</CardTitle>
+            <Select value={filter} onValueChange={(v) => setFilter(v as Classification | 'all')}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle rijen</SelectItem>
+                {(Object.keys(CLASSIFICATION_LABELS) as Classification[]).map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {CLASSIFICATION_LABELS[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-2 pr-2">Rij</th>
+                  <th className="py-2 pr-2">Bedrijf</th>
+                  <th className="py-2 pr-2">Domein</th>
+                  <th className="py-2 pr-2">KvK</th>
+                  <th className="py-2 pr-2">Classificatie</th>
+                  <th className="py-2 pr-2">Run</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((r) => (
+                  <tr key={r.id} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-2 text-gray-500">{r.row_number}</td>
+                    <td className="py-2 pr-2">
+                      {r.company_name ?? '-'}
+                      {r.city && <span className="text-xs text-gray-500"> · {r.city}</span>}
+                    </td>
+                    <td className="py-2 pr-2 font-mono text-xs">{r.domain ?? '-'}</td>
+                    <td className="py-2 pr-2 font-mono text-xs">{r.kvk ?? '-'}</td>
+                    <td className="py-2 pr-2">
+                      <Badge variant={CLASSIFICATION_VARIANTS[r.classification]}>
+                        {CLASSIFICATION_LABELS[r.classification]}
+                      </Badge>
+                      {r.message && <p className="text-[11px] text-gray-500 mt-1">{r.message}</p>}
+                    </td>
+                    <td className="py-2 pr-2 text-xs">
+                      {r.run_id ? (
+                        <Link href={`/sales/lead-verrijking/${r.run_id}`} className="text-blue-600 hover:underline">
+                          {r.run_status ?? 'run'}
+                        </Link>
+                      ) : r.existing_run_id ? (
+                        <Link href={`/sales/lead-verrijking/${r.existing_run_id}`} className="text-gray-500 hover:underline">
+                          bestaande run
+                        </Link>
+                      ) : r.include && imp.status === 'dispatching' ? (
+                        <span className="text-gray-500">wachtrij</span>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FileSpreadsheet } from 'lucide-react'
+import { ContactmomentPickerControl } from '@/components/sales/lead-contactmoment-picker'
+import { toast } from 'sonner'
+
+type OwnerOption = {
+  id: string
+  label: string
+  is_active: boolean
+  contactmoment_offset_workdays?: number
+}
+
+type ImportField = 'name' | 'domain' | 'kvk' | 'city'
+type ColumnMapping = Partial<Record<ImportField, number>>
+
+type AnalyzeResponse = {
+  headers?: string[]
+  sample?: string[][]
+  suggested_mapping?: ColumnMapping
+  total_rows?: number
+  error?: string
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Bedrijfsnaam',
+  domain: 'Website / domein',
+  kvk: 'KvK-nummer',
+  city: 'Plaats',
+}
+
+// SelectItem mag geen lege value hebben.
+const NONE = '__none__'
+
+/**
+ * Bulk-import stap 1: bestand uploaden, kolommen koppelen en dealeigenaar
+ * kiezen. Opslaan maakt de import in status 'preview' aan; de preview en de
+ * start staan op de detailpagina.
+ */
+export function LeadImportForm() {
+  const router = useRouter()
+  const [owners, setOwners] = useState<OwnerOption[]>([])
+  const [file, setFile] = useState<File | null>(null)
+  const [analysis, setAnalysis] = useState<AnalyzeResponse | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [ownerId, setOwnerId] = useState('')
+  const [scrapeVacancies, setScrapeVacancies] = useState(true)
+  const [contactmoment, setContactmoment] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    fetch('/api/sales-leads/owner-config')
+      .then(async (r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`)
+        return r.json() as Promise<{ configs?: OwnerOption[] }>
+      })
+      .then((j) => setOwners((j.configs ?? []).filter((c) => c.is_active)))
+      .catch((e) => {
+        toast.error('Kon dealeigenaren niet laden', { description: (e as Error).message })
+      })
+  }, [])
+
+  async function analyze(selected: File) {
+    setFile(selected)
+    setAnalysis(null)
+    setBusy(true)
+    try {
+      const fd = new FormData()
+      fd.append('file', selected)
+      const res = await fetch('/api/sales-leads/imports', { method: 'POST', body: fd })
+      const body = (await res.json()) as AnalyzeResponse
+      if (!res.ok || !body.headers) throw new Error(body.error ?? `HTTP ${res.status}`)
+      setAnalysis(body)
+      setMapping(body.suggested_mapping ?? {})
+    } catch (e) {
+      toast.error('Bestand niet gelezen', { description: (e as Error).message })
+      setFile(null)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function createImport() {
+    if (!file) return
+    setBusy(true)
+    try {
+      const fd = new FormData()
+      fd.append('file', file)
+      fd.append('mapping', JSON.stringify(mapping))
+      fd.append('owner_config_id', ownerId)
+      fd.append('scrape_vacancies', String(scrapeVacancies))
+      if (contactmoment) fd.append('contactmoment_override', contactmoment)
+      const res = await fetch('/api/sales-leads/imports', { method: 'POST', body: fd })
+      const body = (await res.json()) as { import_id?: string; error?: string }
+      if (!res.ok || !body.import_id) throw new Error(body.error ?? `HTTP ${res.status}`)
+      router.push(`/sales/lead-verrijking/import/${body.import_id}`)
+    } catch (e) {
+      toast.error('Preview maken mislukt', { description: (e as Error).message })
+      setBusy(false)
+    }
+  }
+
+  const headers = analysis?.headers ?? []
+  const offset = owners.find((o) => o.id === ownerId)?.contactmoment_offset_workdays ?? 1
+  const canSubmit = !!analysis && (mapping.domain !== undefined || mapping.kvk !== undefined)
+
+  return (
+    <Card className="max-w-3xl">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet className="size-5 text-orange-600" />
+          <CardTitle>Bulk import</CardTitle>
+        </div>
+        <CardDescription>
+          Upload een CSV- of Excel-bestand (.xlsx, max 2000 rijen) met bijvoorbeeld een beurslijst of KvK-export.
+          Je ziet eerst een preview met dubbelingen voordat er iets verrijkt wordt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="space-y-1">
+          <Label htmlFor="import-file">Bestand</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.txt,.xlsx"
+            disabled={busy}
+            onChange={(e) => {
+              const f = e.target.files?.[0]
+              if (f) void analyze(f)
+            }}
+          />
+          {analysis && (
+            <p className="text-[11px] text-gray-500">
+              {analysis.total_rows} rijen · {headers.length} kolommen
+            </p>
+          )}
+        </div>
+
+        {analysis && (
+          <>
+            <div className="space-y-2">
+              <Label>Kolommen koppelen</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {(Object.keys(FIELD_LABELS) as ImportField[]).map((field) => (
+                  <div key={field} className="space-y-1">
+                    <span className="text-xs text-gray-600">{FIELD_LABELS[field]}</span>
+                    <Select
+                      value={mapping[field] === undefined ? NONE : String(mapping[field])}
+                      onValueChange={(v) => {
+                        setMapping((m) => {
+                          const next = { ...m }
+                          if (v === NONE) delete next[field]
+                          else next[field] = Number(v)
+                          return next
+                        })
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Niet gebruiken</SelectItem>
+                        {headers.map((h, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {h || `Kolom ${i + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[11px] text-gray-500">
+                Domein of KvK-nummer is verplicht. Rijen zonder domein krijgen het hoofddomein van een bekend bedrijf
+                met hetzelfde KvK-nummer, anders worden ze als ongeldig gemarkeerd.
+              </p>
+            </div>
+
+            {(analysis.sample ?? []).length > 0 && (
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {headers.map((h, i) => (
+                        <th key={i} className="px-2 py-1 text-left font-medium text-gray-600">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(analysis.sample ?? []).map((row, r) => (
+                      <tr key={r} className="border-t">
+                        {headers.map((_, i) => (
+                          <td key={i} className="px-2 py-1 text-gray-800">{row[i] ?? ''}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label>Dealeigenaar</Label>
+              <Select value={ownerId} onValueChange={setOwnerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Kies een dealeigenaar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {owners.map((o) => (
+                    <SelectItem key={o.id} value={o.id}>
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Contactmoment (optioneel)</Label>
+              <ContactmomentPickerControl value={contactmoment} offsetWorkdays={offset} onChange={setContactmoment} />
+              <p className="text-[11px] text-gray-500">Override geldt voor alle rijen in deze import.</p>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label className="text-sm">Auto-detect vacatures via /werkenbij</Label>
+                <p className="text-xs text-gray-500">Wanneer aan, scrapt de career-page-discovery vacatures voor elk bedrijf.</p>
+              </div>
+              <Switch checked={scrapeVacancies} onCheckedChange={setScrapeVacancies} />
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={() => router.push('/sales/lead-verrijking')}>
+            Annuleren
+          </Button>
+          <Button type="button" disabled={busy || !canSubmit || !ownerId} onClick={() => void createImport()}>
+            {busy ? 'Bezig…' : 'Preview maken'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
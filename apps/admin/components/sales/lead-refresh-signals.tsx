@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Activity, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { pollingOptions } from '@/lib/swr-polling'
+import { SIGNAL_LABEL } from '@/lib/sales-leads/format-fields'
+import type { LeadSignal } from '@/lib/services/sales-leads/types'
+
+const ACTIVE_POLL_MS = 10_000
+
+type Refresh = {
+  id: string
+  trigger: 'cron' | 'manual'
+  status: 'running' | 'completed' | 'failed'
+  sources_refreshed: string[]
+  signals: LeadSignal[]
+  signal_count: number
+  pipedrive_activity_id: number | null
+  error: string | null
+  started_at: string
+  completed_at: string | null
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    const body = (await res.json().catch(() => ({}))) as { error?: string }
+    throw new Error(body.error ?? `HTTP ${res.status}`)
+  }
+  return res.json()
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('nl-NL', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+/**
+ * Signalen uit de periodieke her-verrijking (cron sales-lead-refresh) van een
+ * gesyncte lead: verhuizing, personeelsgroei/-krimp, nieuwe vacatures en
+ * vertrokken contactpersonen.
+ */
+export function LeadRefreshSignals({ runId }: { runId: string }) {
+  const [starting, setStarting] = useState(false)
+  const { data, error, mutate } = useSWR<{ refreshes: Refresh[] }>(
+    `/api/sales-leads/${runId}/refresh`,
+    fetcher,
+    pollingOptions<{ refreshes: Refresh[] }>((latest) =>
+      latest?.refreshes.some((r) => r.status === 'running') ? ACTIVE_POLL_MS : 0,
+    ),
+  )
+
+  async function startRefresh() {
+    setStarting(true)
+    try {
+      const res = await fetch(`/api/sales-leads/${runId}/refresh`, { method: 'POST' })
+      const body = (await res.json()) as { error?: string }
+      if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`)
+      toast.success('Refresh gestart', { description: 'KvK, Apollo en de website worden opnieuw opgehaald.' })
+      await mutate()
+    } catch (e) {
+      toast.error('Refresh starten mislukt', { description: (e as Error).message })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const refreshes = data?.refreshes ?? []
+  const running = refreshes.some((r) => r.status === 'running')
+  const lastDone = refreshes.find((r) => r.status === 'completed')
+  const withSignals = refreshes.filter((r) => r.status === 'completed' && r.signal_count > 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Activity className="size-5 text-orange-600" />
+            <CardTitle>Signalen</CardTitle>
+          </div>
+          <Button variant="outline" size="sm" disabled={starting || running} onClick={() => void startRefresh()}>
+            <RefreshCw className={`size-3 mr-1 ${running ? 'animate-spin' : ''}`} />
+            {running ? 'Bezig…' : 'Nu verversen'}
+          </Button>
+        </div>
+        <CardDescription>
+          {lastDone
+            ? `Laatst ververst ${formatDate(lastDone.completed_at ?? lastDone.started_at)} (${lastDone.sources_refreshed.join(', ')})`
+            : 'Nog niet ververst. Gesyncte leads worden elke 90 dagen automatisch opnieuw verrijkt.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-sm text-red-600">Kon signalen niet laden: {(error as Error).message}</div>}
+        {data && withSignals.length === 0 && (
+          <p className="text-sm text-gray-500">Geen wijzigingen gevonden.</p>
+        )}
+        {withSignals.map((r) => (
+          <div key={r.id} className="space-y-2">
+            <div className="text-xs text-gray-500">
+              {formatDate(r.completed_at ?? r.started_at)}
+              {r.trigger === 'manual' && ' · handmatig'}
+              {r.pipedrive_activity_id && ' · taak in Pipedrive'}
+            </div>
+            <ul className="space-y-1">
+              {r.signals.map((s, i) => (
+                <li key={i} className="flex items-start gap-2 text-sm">
+                  <Badge variant="secondary" className="shrink-0">{SIGNAL_LABEL[s.type]}</Badge>
+                  <span>{s.summary}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {refreshes[0]?.status === 'failed' && (
+          <p className="text-xs text-red-600">Laatste refresh mislukt: {refreshes[0].error}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -30,6 +30,7 @@ type OwnerConfig = {
   wetarget_flag_value: number
   contactmoment_field_key: string | null
   contactmoment_offset_workdays: number
+  refresh_activity_enabled: boolean
   is_active: boolean
 }
 
@@ -139,6 +140,7 @@ export function OwnerConfigEditModal({ open, onOpenChange, config, onSaved }: Pr
         wetarget_flag_value: form.wetarget_flag_value,
         contactmoment_field_key: form.contactmoment_field_key,
         contactmoment_offset_workdays: form.contactmoment_offset_workdays,
+        refresh_activity_enabled: form.refresh_activity_enabled,
         is_active: form.is_active,
       }),
     })
@@ -284,6 +286,15 @@ export function OwnerConfigEditModal({ open, onOpenChange, config, onSaved }: Pr
               </Select>
             </div>
 
+            <div className="flex items-center gap-2">
+              <Switch
+                id="refresh-activity"
+                checked={form.refresh_activity_enabled}
+                onCheckedChange={(c) => setForm({ ...form, refresh_activity_enabled: c })}
+              />
+              <Label htmlFor="refresh-activity">Pipedrive-taak bij refresh-signalen</Label>
+            </div>
+
             <div className="flex items-center gap-2">
               <Switch
                 id="active"
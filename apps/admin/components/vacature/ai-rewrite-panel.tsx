@@ -20,6 +20,9 @@ interface ExtractedFields {
   education_level: string | null
   categories: string | null
   salary: string | null
+  salary_min: number | null
+  salary_max: number | null
+  salary_unit: string | null
   working_hours_min: number | null
   working_hours_max: number | null
   seo_title: string | null
@@ -93,7 +96,12 @@ export function AIRewritePanel({
       if (ex.employment) payload.employment = ex.employment
       if (ex.education_level) payload.education_level = ex.education_level
       if (ex.categories) payload.categories = ex.categories
-      if (ex.salary) payload.salary = ex.salary
+      if (ex.salary) {
+        payload.salary = ex.salary
+        payload.salary_min = ex.salary_min
+        payload.salary_max = ex.salary_max
+        payload.salary_unit = ex.salary_unit
+      }
       if (ex.working_hours_min != null)
         payload.working_hours_min = ex.working_hours_min
       if (ex.working_hours_max != null)
@@ -12,6 +12,8 @@ interface ApiConfig {
     dailyScrapeUrl: string
     apifySecret: string
     n8nSecret: string
+    pipedriveUser: string
+    pipedrivePassword: string
   }
   system: {
     cronSecret: string
@@ -34,7 +36,9 @@ function getApiConfig(): ApiConfig {
     webhooks: {
       dailyScrapeUrl: process.env.DAILY_SCRAPE_WEBHOOK_URL || '',
       apifySecret: process.env.APIFY_WEBHOOK_SECRET || '',
-      n8nSecret: process.env.N8N_WEBHOOK_SECRET || ''
+      n8nSecret: process.env.N8N_WEBHOOK_SECRET || '',
+      pipedriveUser: process.env.PIPEDRIVE_WEBHOOK_USER || '',
+      pipedrivePassword: process.env.PIPEDRIVE_WEBHOOK_PASSWORD || ''
     },
     system: {
       cronSecret: process.env.CRON_SECRET_KEY || ''
@@ -78,6 +82,19 @@ export function getWebhookConfigValidated() {
   }
 }
 
+/**
+ * Pipedrive webhooks don't sign with HMAC; they send the HTTP Basic
+ * credentials configured on the webhook. Validated separately so a missing
+ * Pipedrive config doesn't break the other webhooks.
+ */
+export function getPipedriveWebhookConfigValidated() {
+  const config = getWebhookConfig()
+  return {
+    user: validateRequiredEnvVar('PIPEDRIVE_WEBHOOK_USER', config.pipedriveUser),
+    password: validateRequiredEnvVar('PIPEDRIVE_WEBHOOK_PASSWORD', config.pipedrivePassword)
+  }
+}
+
 export function getSystemConfig() {
   return getApiConfigSingleton().system
 }
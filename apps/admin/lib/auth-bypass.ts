@@ -19,7 +19,7 @@ const BYPASS_PREFIXES = [
   '/api/auth/reset/', // PUBLIC: custom reset-flow
   '/api/cron/', // SECRET: Vercel Cron (CRON_SECRET)
   '/api/scrapers/', // SECRET: Vercel Cron + manual backfill
-  '/api/webhook/', // SIGNATURE: apify-results, n8n-apify-complete (enkelvoud!)
+  '/api/webhook/', // SIGNATURE: apify-results, n8n-apify-complete, pipedrive (enkelvoud!)
 ]
 
 // Exact-match (geen prefix, want buren hebben een andere klasse).
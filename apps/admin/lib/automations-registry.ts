@@ -80,19 +80,170 @@ export const AUTOMATIONS: AutomationDefinition[] = [
   {
     id: 'debanensite-scraper',
     displayName: 'Debanensite scraper',
-    description: 'Vacatures scrapen van debanensite.nl',
+    description: 'Incrementele lijst-scan van debanensite.nl (adapter-runtime; detail-worker en volledige pass draaien apart)',
     category: 'scraper',
     schedule: '0 6 * * *',
     expectedIntervalMs: 24 * HOUR,
-    handlerPath: '/api/scrapers/debanensite',
+    handlerPath: '/api/scrapers/boards/debanensite',
     displayStats: [
-      { key: 'pages_scraped', label: "pagina's" },
+      { key: 'pages_scanned', label: "pagina's" },
       { key: 'new', label: 'nieuw' },
-      { key: 'updated', label: 'update' },
-      { key: 'errors', label: 'errors' },
+      { key: 'seen', label: 'bekend' },
+      { key: 'enqueued', label: 'in queue' },
     ],
     primaryStatKey: 'new',
   },
+  {
+    id: 'ats-feed-import',
+    displayName: 'ATS-feed import',
+    description: 'Vacatures importeren uit publieke ATS-feeds (Greenhouse, Recruitee, Lever, Workable, Teamtailor, Personio) van approved career-page-bronnen',
+    category: 'scraper',
+    schedule: '15 * * * *',
+    expectedIntervalMs: 1 * HOUR,
+    handlerPath: '/api/cron/ats-feed-import',
+    displayStats: [
+      { key: 'sources_processed', label: 'bronnen' },
+      { key: 'sources_failed', label: 'bronnen gefaald' },
+      { key: 'inserted', label: 'nieuw' },
+      { key: 'updated', label: 'update' },
+      { key: 'adopted', label: 'gekoppeld' },
+      { key: 'archived', label: 'gearchiveerd' },
+      { key: 'remaining', label: 'bronnen due' },
+    ],
+    primaryStatKey: 'inserted',
+  },
+  {
+    id: 'job-dedup',
+    displayName: 'Dubbele vacatures',
+    description: 'Near-duplicate vacatures over bronnen heen detecteren (MinHash); zekere duplicaten samenvoegen onder één canonical, twijfelgevallen naar /review/duplicaten',
+    category: 'maintenance',
+    schedule: '*/20 * * * *',
+    expectedIntervalMs: 20 * MINUTE,
+    handlerPath: '/api/cron/job-dedup',
+    displayStats: [
+      { key: 'checked', label: 'gecheckt' },
+      { key: 'auto_merged', label: 'samengevoegd' },
+      { key: 'queued_for_review', label: 'naar review' },
+      { key: 'failed', label: 'gefaald' },
+      { key: 'remaining', label: 'wachtrij' },
+    ],
+    primaryStatKey: 'auto_merged',
+  },
+  {
+    id: 'company-dedup',
+    displayName: 'Dubbele bedrijven',
+    description: 'Bedrijven scannen op waarschijnlijke duplicaten (hoofddomein, KvK, werk.nl-id, telefoon, postcode, fuzzy naam); gescoorde paren met bewijs naar /review/bedrijven',
+    category: 'maintenance',
+    schedule: '45 2 * * *',
+    expectedIntervalMs: 24 * HOUR,
+    handlerPath: '/api/cron/company-dedup',
+    displayStats: [
+      { key: 'scanned', label: 'bedrijven' },
+      { key: 'found', label: 'kandidaten' },
+      { key: 'inserted', label: 'nieuw' },
+      { key: 'removed', label: 'vervallen' },
+    ],
+    primaryStatKey: 'inserted',
+  },
+  {
+    id: 'hiring-intensity',
+    displayName: 'Hiring intensity',
+    description: 'Koopsignaal per bedrijf uit vacature-activiteit (volume, snelheid, herhaalde functies, looptijd tot delisting, bronnen) berekenen en gewijzigde scores naar het Pipedrive org-veld pushen',
+    category: 'enrichment',
+    schedule: '15 4 * * *',
+    expectedIntervalMs: 24 * HOUR,
+    handlerPath: '/api/cron/hiring-intensity',
+    displayStats: [
+      { key: 'scored', label: 'bedrijven' },
+      { key: 'changed', label: 'gewijzigd' },
+      { key: 'cleared', label: 'vervallen' },
+      { key: 'pushed', label: 'naar Pipedrive' },
+      { key: 'push_failed', label: 'push gefaald' },
+    ],
+    primaryStatKey: 'changed',
+  },
+  {
+    id: 'salary-normalize',
+    displayName: 'Salaris-normalisatie',
+    description: 'Salaristekst van vacatures omzetten naar salary_min/max/unit/currency (uur, maand, jaar); backfill voor bestaande vacatures en vangnet voor writers die niet zelf normaliseren',
+    category: 'maintenance',
+    schedule: '*/15 * * * *',
+    expectedIntervalMs: 15 * MINUTE,
+    handlerPath: '/api/cron/salary-normalize',
+    displayStats: [
+      { key: 'normalized', label: 'genormaliseerd' },
+      { key: 'unparsed', label: 'geen bedrag' },
+      { key: 'failed', label: 'gefaald' },
+      { key: 'remaining', label: 'wachtrij' },
+    ],
+    primaryStatKey: 'normalized',
+  },
+  {
+    id: 'vacancy-translate',
+    displayName: 'Vacature-vertaling (EN)',
+    description: 'English-friendly vacatures via Mistral naar het Engels vertalen voor de /en-pagina\'s van de publieke sites; vertaalt opnieuw als de Nederlandse tekst wijzigt',
+    category: 'enrichment',
+    schedule: '10 * * * *',
+    expectedIntervalMs: HOUR,
+    handlerPath: '/api/cron/vacancy-translate',
+    displayStats: [
+      { key: 'translated', label: 'vertaald' },
+      { key: 'failed', label: 'gefaald' },
+      { key: 'remaining', label: 'wachtrij' },
+    ],
+    primaryStatKey: 'translated',
+  },
+  {
+    id: 'lokalebanen-sync',
+    displayName: 'Lokale Banen sync',
+    description: 'Gepushte vacatures op het Lokale Banen-jobboard bijwerken na een wijziging (content-hash) en intrekken als ze gearchiveerd, afgekeurd of verwijderd zijn',
+    category: 'sync',
+    schedule: '40 * * * *',
+    expectedIntervalMs: HOUR,
+    handlerPath: '/api/cron/lokalebanen-sync',
+    displayStats: [
+      { key: 'updated', label: 'bijgewerkt' },
+      { key: 'withdrawn', label: 'ingetrokken' },
+      { key: 'failed', label: 'gefaald' },
+      { key: 'remaining', label: 'wachtrij' },
+      { key: 'live', label: 'live' },
+    ],
+    primaryStatKey: 'updated',
+  },
+  {
+    id: 'sales-lead-import-dispatch',
+    displayName: 'Sales-lead import dispatch',
+    description: 'Lopende bulk-imports van sales-leads aanvullen tot de in-flight cap (max. 10 runs tegelijk per import) en afgeronde imports afsluiten',
+    category: 'sync',
+    schedule: '*/2 * * * *',
+    expectedIntervalMs: 2 * MINUTE,
+    handlerPath: '/api/cron/sales-lead-import-dispatch',
+    displayStats: [
+      { key: 'dispatched', label: 'gestart' },
+      { key: 'in_flight', label: 'lopend' },
+      { key: 'pending', label: 'wachtrij' },
+      { key: 'completed', label: 'afgerond' },
+      { key: 'imports', label: 'imports' },
+    ],
+    primaryStatKey: 'dispatched',
+  },
+  {
+    id: 'sales-lead-refresh',
+    displayName: 'Sales-lead refresh',
+    description: 'Gesyncte sales-leads elke 90 dagen opnieuw verrijken (KvK, Apollo, website) en wijzigingen als signalen vastleggen, optioneel als Pipedrive-taak',
+    category: 'sync',
+    schedule: '25 * * * *',
+    expectedIntervalMs: HOUR,
+    handlerPath: '/api/cron/sales-lead-refresh',
+    displayStats: [
+      { key: 'refreshed', label: 'ververst' },
+      { key: 'signals', label: 'signalen' },
+      { key: 'activities', label: 'taken' },
+      { key: 'failed', label: 'gefaald' },
+      { key: 'due', label: 'aan de beurt' },
+    ],
+    primaryStatKey: 'refreshed',
+  },
   {
     id: 'werkenindekempen-scraper',
     displayName: 'Werkenindekempen scraper',
@@ -0,0 +1,125 @@
+/**
+ * ATS-feed import automation.
+ *
+ * Loopt over approved, actieve career-page-bronnen met een bekend ATS waarvan
+ * next_scrape_at verstreken is, en importeert hun publieke job-feed
+ * (lib/services/ats-feeds). Per bron wordt de status in job_sources bijgewerkt
+ * (last_scraped_at, consecutive_failures, ...) en next_scrape_at doorgeschoven
+ * volgens scrape_frequency. Resterende bronnen pakt de volgende tick op.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { updateJobSourceStatus } from '@/lib/scrapers/shared/db-client'
+import { AtsImportError, importAtsSource, type AtsSource } from '@/lib/services/ats-feeds/ats-import.service'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+const SOURCES_PER_RUN = 50
+const SOURCE_DELAY_MS = 500
+
+const FREQUENCY_MS: Record<string, number> = {
+  daily: 24 * 3_600_000,
+  weekly: 7 * 24 * 3_600_000,
+  monthly: 30 * 24 * 3_600_000,
+}
+
+export interface AtsFeedImportStats {
+  sources_processed: number
+  sources_failed: number
+  fetched: number
+  inserted: number
+  updated: number
+  adopted: number
+  unchanged: number
+  archived: number
+  remaining: number
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms))
+}
+
+function emptyStats(): AtsFeedImportStats {
+  return {
+    sources_processed: 0,
+    sources_failed: 0,
+    fetched: 0,
+    inserted: 0,
+    updated: 0,
+    adopted: 0,
+    unchanged: 0,
+    archived: 0,
+    remaining: 0,
+  }
+}
+
+export function nextScrapeAt(frequency: string | null, from: Date): string {
+  const interval = FREQUENCY_MS[frequency ?? 'weekly'] ?? FREQUENCY_MS.weekly
+  return new Date(from.getTime() + interval).toISOString()
+}
+
+export async function run(): Promise<{ stats: AtsFeedImportStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+  const nowIso = new Date().toISOString()
+
+  try {
+    const { data: sources, error: selErr } = await supabase
+      .from('job_sources')
+      .select('id, company_id, url, ats_type, scrape_frequency')
+      .eq('kind', 'company_career_page')
+      .eq('review_status', 'approved')
+      .eq('active', true)
+      .not('ats_type', 'is', null)
+      .lte('next_scrape_at', nowIso)
+      .order('next_scrape_at', { ascending: true })
+      .limit(SOURCES_PER_RUN)
+    if (selErr) return { success: false, stats, error: selErr.message }
+
+    for (const source of sources ?? []) {
+      if (Date.now() - startTime >= MAX_RUN_MS) break
+
+      let count = 0
+      let ok = true
+      try {
+        const result = await importAtsSource(supabase, source as AtsSource)
+        count = result.fetched
+        stats.fetched += result.fetched
+        stats.inserted += result.inserted
+        stats.updated += result.updated
+        stats.adopted += result.adopted
+        stats.unchanged += result.unchanged
+        stats.archived += result.archived
+      } catch (e) {
+        ok = false
+        stats.sources_failed++
+        const message = e instanceof Error ? e.message : String(e)
+        console.error(`[ats-feed-import] bron ${source.id}${e instanceof AtsImportError ? '' : ' (onverwacht)'}: ${message}`)
+      }
+      stats.sources_processed++
+
+      await updateJobSourceStatus(supabase, source.id, { success: ok, count })
+      // Ook bij een fout doorschuiven: een kapotte feed mag de queue niet blokkeren.
+      await supabase
+        .from('job_sources')
+        .update({ next_scrape_at: nextScrapeAt(source.scrape_frequency, new Date()) })
+        .eq('id', source.id)
+
+      await sleep(SOURCE_DELAY_MS)
+    }
+
+    const { count } = await supabase
+      .from('job_sources')
+      .select('id', { count: 'exact', head: true })
+      .eq('kind', 'company_career_page')
+      .eq('review_status', 'approved')
+      .eq('active', true)
+      .not('ats_type', 'is', null)
+      .lte('next_scrape_at', new Date().toISOString())
+    stats.remaining = count ?? 0
+
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
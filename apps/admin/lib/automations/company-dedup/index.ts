@@ -0,0 +1,39 @@
+/**
+ * Company-dedup automation.
+ *
+ * Scant alle bedrijven op waarschijnlijke duplicaten (gedeeld hoofddomein,
+ * KvK, werk.nl werkgever-id, telefoon, postcode, fuzzy naam) en zet de
+ * gescoorde paren met bewijs in company_duplicate_candidates. Samenvoegen
+ * gebeurt nooit automatisch: de review op /review/bedrijven opent de
+ * merge-tool. Afgewezen paren worden niet opnieuw voorgesteld.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import {
+  findCandidatePairs,
+  loadDedupCompanies,
+  syncCandidates,
+  type CandidateSyncStats,
+} from '@/lib/services/company-dedup/candidate.service'
+
+function emptyStats(): CandidateSyncStats {
+  return { scanned: 0, found: 0, inserted: 0, updated: 0, removed: 0 }
+}
+
+export async function run(): Promise<{ stats: CandidateSyncStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+
+  try {
+    const companies = await loadDedupCompanies(supabase)
+    stats.scanned = companies.length
+    const pairs = findCandidatePairs(companies)
+    Object.assign(stats, await syncCandidates(supabase, pairs))
+    console.log(
+      `[company-dedup] ${stats.scanned} bedrijven, ${stats.found} kandidaten (${stats.inserted} nieuw, ${stats.updated} bijgewerkt, ${stats.removed} vervallen)`,
+    )
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Hiring-intensity automation.
+ *
+ * Berekent nachtelijk per bedrijf de hiring-intensity score uit
+ * job_postings (volume, snelheid, herhaalde functies, looptijd tot
+ * delisting, bronnen; zie refresh_hiring_intensity) en pusht daarna de
+ * gewijzigde scores van bedrijven in Pipedrive naar het org-veld. Zonder
+ * PIPEDRIVE_HIRING_INTENSITY_FIELD_ID wordt alleen berekend.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { getPipedriveClient, HIRING_INTENSITY_FIELD_ID } from '@/lib/pipedrive-client'
+import {
+  pushHiringIntensity,
+  refreshHiringIntensity,
+  type HiringIntensityPushStats,
+  type HiringIntensityRefresh,
+} from '@/lib/services/hiring-intensity/intensity.service'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+
+export type HiringIntensityStats = HiringIntensityRefresh & HiringIntensityPushStats
+
+function emptyStats(): HiringIntensityStats {
+  return { scored: 0, changed: 0, cleared: 0, pushed: 0, push_failed: 0 }
+}
+
+export async function run(): Promise<{ stats: HiringIntensityStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+
+  try {
+    Object.assign(stats, await refreshHiringIntensity(supabase))
+
+    if (HIRING_INTENSITY_FIELD_ID) {
+      Object.assign(stats, await pushHiringIntensity(supabase, getPipedriveClient(), {
+        deadline: startTime + MAX_RUN_MS,
+      }))
+    }
+
+    console.log(
+      `[hiring-intensity] ${stats.scored} bedrijven gescoord (${stats.changed} gewijzigd, ${stats.cleared} vervallen), ${stats.pushed} naar Pipedrive`,
+    )
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
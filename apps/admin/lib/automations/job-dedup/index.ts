@@ -0,0 +1,72 @@
+/**
+ * Job-dedup automation.
+ *
+ * Haalt actieve vacatures met company_id op waarvan dedup_checked_at leeg is
+ * (nieuw, of inhoud gewijzigd via de trigger) en haalt ze één voor één langs
+ * de detector (lib/services/job-dedup). Zekere duplicaten worden direct
+ * samengevoegd, twijfelgevallen komen in /review/duplicaten. Resterende rijen
+ * pakt de volgende tick op.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { checkPosting, DEDUP_POSTING_SELECT, type DedupPosting } from '@/lib/services/job-dedup/duplicate.service'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+const BATCH_SIZE = 200
+
+export interface JobDedupStats {
+  checked: number
+  failed: number
+  candidates: number
+  auto_merged: number
+  queued_for_review: number
+  remaining: number
+}
+
+function emptyStats(): JobDedupStats {
+  return { checked: 0, failed: 0, candidates: 0, auto_merged: 0, queued_for_review: 0, remaining: 0 }
+}
+
+export async function run(): Promise<{ stats: JobDedupStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+
+  try {
+    const { data: postings, error: selErr } = await supabase
+      .from('job_postings')
+      .select(DEDUP_POSTING_SELECT)
+      .is('dedup_checked_at', null)
+      .is('archived_at', null)
+      .not('company_id', 'is', null)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+    if (selErr) return { success: false, stats, error: selErr.message }
+
+    for (const posting of (postings ?? []) as DedupPosting[]) {
+      if (Date.now() - startTime >= MAX_RUN_MS) break
+      try {
+        const result = await checkPosting(supabase, posting)
+        stats.candidates += result.candidates
+        stats.auto_merged += result.auto_merged
+        stats.queued_for_review += result.queued_for_review
+        stats.checked++
+      } catch (e) {
+        stats.failed++
+        console.error(`[job-dedup] vacature ${posting.id}: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    }
+
+    const { count } = await supabase
+      .from('job_postings')
+      .select('id', { count: 'exact', head: true })
+      .is('dedup_checked_at', null)
+      .is('archived_at', null)
+      .not('company_id', 'is', null)
+    stats.remaining = count ?? 0
+
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
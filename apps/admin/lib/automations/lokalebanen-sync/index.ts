@@ -0,0 +1,193 @@
+/**
+ * Lokalebanen-sync automation.
+ *
+ * Houdt de vacatures die naar het Lokale Banen-jobboard gepusht zijn in lijn
+ * met onze data (zie lokalebanen-sync.service.ts voor de classificatie):
+ * gearchiveerde, afgekeurde en verwijderde vacatures worden bij LB
+ * ingetrokken, gewijzigde vacatures krijgen een update met opnieuw
+ * gegenereerde AI-content. Intrekken gaat eerst; updates kosten een
+ * Mistral-aanroep en zijn per run begrensd. Rijen zonder hash (push van
+ * vóór de push-state) krijgen de huidige hash als basis.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { getLokaleBanenClient, toVacancyUpdate, type LokaleBanenClient } from '@/lib/lokalebanen-client'
+import {
+  applyEnrichUpdates,
+  buildVacancyPayload,
+  loadPushMappings,
+  lokaleBanenContentHash,
+  resolveDomain,
+  type JobPostingWithCompany,
+  type PushMappings,
+} from '@/lib/services/lokalebanen-push.service'
+import {
+  loadLokaleBanenDrift,
+  MAX_SYNC_ERRORS,
+  type DriftItem,
+} from '@/lib/services/lokalebanen-sync.service'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+/** Elke update genereert AI-content (tot ~30s); meer haalt één run niet. */
+const MAX_UPDATES = 25
+
+export interface LokaleBanenSyncStats {
+  live: number
+  withdrawn: number
+  updated: number
+  baselined: number
+  failed: number
+  stuck: number
+  remaining: number
+}
+
+function emptyStats(): LokaleBanenSyncStats {
+  return { live: 0, withdrawn: 0, updated: 0, baselined: 0, failed: 0, stuck: 0, remaining: 0 }
+}
+
+async function markFailed(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, 'public', any>,
+  item: DriftItem,
+  message: string,
+): Promise<void> {
+  console.error(`[lokalebanen-sync] LB-vacature ${item.state.lokalebanen_id}: ${message}`)
+  await supabase
+    .from('lokalebanen_push_state')
+    .update({ last_error: message, error_count: item.state.error_count + 1, updated_at: new Date().toISOString() })
+    .eq('id', item.state.id)
+}
+
+async function withdraw(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, 'public', any>,
+  client: LokaleBanenClient,
+  item: DriftItem,
+): Promise<void> {
+  await client.deleteVacancy(item.state.lokalebanen_id)
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('lokalebanen_push_state')
+    .update({
+      state: 'withdrawn',
+      withdrawn_at: now,
+      withdraw_reason: item.reason,
+      synced_at: now,
+      last_error: null,
+      error_count: 0,
+      updated_at: now,
+    })
+    .eq('id', item.state.id)
+  if (error) throw new Error(error.message)
+
+  // Een teruggezette vacature kan daarna opnieuw gepusht worden.
+  if (item.job) {
+    await supabase
+      .from('job_postings')
+      .update({ lokalebanen_id: null, lokalebanen_pushed_at: null })
+      .eq('id', item.job.id)
+  }
+}
+
+async function update(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, 'public', any>,
+  client: LokaleBanenClient,
+  mappings: PushMappings,
+  item: DriftItem,
+): Promise<void> {
+  const job = item.job
+  if (!job?.companies) throw new Error('vacature zonder bedrijf')
+  const jp = job as JobPostingWithCompany
+
+  const domain = item.state.domain || resolveDomain(jp, mappings)
+  if (!domain) throw new Error('geen domain mapping')
+  const lbCompanyId = item.state.lb_company_id || jp.companies.lokalebanen_id
+  if (!lbCompanyId) throw new Error('geen LB-bedrijf')
+
+  const { payload, enrichUpdates } = await buildVacancyPayload(
+    jp, domain, lbCompanyId, mappings.mappingMap, new Date(item.state.pushed_at),
+  )
+  await applyEnrichUpdates(supabase, jp, enrichUpdates)
+
+  await client.updateVacancy(item.state.lokalebanen_id, toVacancyUpdate(payload))
+
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('lokalebanen_push_state')
+    .update({
+      content_hash: lokaleBanenContentHash({ ...jp, ...enrichUpdates }),
+      domain,
+      lb_company_id: lbCompanyId,
+      synced_at: now,
+      last_error: null,
+      error_count: 0,
+      updated_at: now,
+    })
+    .eq('id', item.state.id)
+  if (error) throw new Error(error.message)
+}
+
+export async function run(): Promise<{ stats: LokaleBanenSyncStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+
+  try {
+    const { items, summary } = await loadLokaleBanenDrift(supabase)
+    stats.live = summary.live
+    stats.stuck = summary.stuck
+
+    // Basis zetten kost geen API-aanroep.
+    for (const item of items.filter((i) => i.action === 'baseline')) {
+      const { error } = await supabase
+        .from('lokalebanen_push_state')
+        .update({ content_hash: item.currentHash, synced_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', item.state.id)
+      if (error) return { success: false, stats, error: error.message }
+      stats.baselined++
+    }
+
+    const pending = items.filter(
+      (i) => (i.action === 'withdraw' || i.action === 'update') && i.state.error_count < MAX_SYNC_ERRORS,
+    )
+    const withdrawals = pending.filter((i) => i.action === 'withdraw')
+    const updates = pending.filter((i) => i.action === 'update')
+    if (pending.length === 0) return { success: true, stats }
+
+    const client = getLokaleBanenClient()
+
+    for (const item of withdrawals) {
+      if (Date.now() - startTime >= MAX_RUN_MS) break
+      try {
+        await withdraw(supabase, client, item)
+        stats.withdrawn++
+      } catch (e) {
+        stats.failed++
+        await markFailed(supabase, item, e instanceof Error ? e.message : String(e))
+      }
+    }
+
+    if (updates.length > 0) {
+      const platformIds = [...new Set(updates.map((i) => i.job?.platform_id).filter((id): id is string => !!id))]
+      const mappings = await loadPushMappings(supabase, platformIds)
+
+      for (const item of updates.slice(0, MAX_UPDATES)) {
+        if (Date.now() - startTime >= MAX_RUN_MS) break
+        try {
+          await update(supabase, client, mappings, item)
+          stats.updated++
+        } catch (e) {
+          stats.failed++
+          await markFailed(supabase, item, e instanceof Error ? e.message : String(e))
+        }
+      }
+    }
+
+    stats.remaining = Math.max(0, pending.length - stats.withdrawn - stats.updated)
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Salary-normalize automation.
+ *
+ * Backfill en vangnet voor de gestructureerde salariskolommen: pakt actieve
+ * vacatures met salaristekst waarvan salary_normalized_at leeg is (bestaande
+ * rijen, writers die niet zelf normaliseren, of een tekstwijziging via de
+ * trigger) en schrijft salary_min/max/unit/currency. Rijen zonder herkenbaar
+ * bedrag krijgen ook een stempel, zodat ze de wachtrij verlaten.
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { salaryColumns } from '@/lib/services/salary-normalization/normalize'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+const BATCH_SIZE = 500
+
+export interface SalaryNormalizeStats {
+  checked: number
+  normalized: number
+  unparsed: number
+  failed: number
+  remaining: number
+}
+
+function emptyStats(): SalaryNormalizeStats {
+  return { checked: 0, normalized: 0, unparsed: 0, failed: 0, remaining: 0 }
+}
+
+export async function run(): Promise<{ stats: SalaryNormalizeStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+  const failedIds = new Set<string>()
+
+  try {
+    while (Date.now() - startTime < MAX_RUN_MS) {
+      const { data: postings, error: selErr } = await supabase
+        .from('job_postings')
+        .select('id, salary')
+        .is('salary_normalized_at', null)
+        .is('archived_at', null)
+        .not('salary', 'is', null)
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE)
+      if (selErr) return { success: false, stats, error: selErr.message }
+
+      // Gefaalde rijen blijven in de wachtrij; niet binnen dezelfde run opnieuw proberen.
+      const batch = (postings ?? []).filter((p) => !failedIds.has(p.id))
+      if (batch.length === 0) break
+
+      for (const posting of batch) {
+        if (Date.now() - startTime >= MAX_RUN_MS) break
+        const columns = salaryColumns(posting.salary)
+        const { error } = await supabase.from('job_postings').update(columns).eq('id', posting.id)
+        if (error) {
+          stats.failed++
+          failedIds.add(posting.id)
+          console.error(`[salary-normalize] vacature ${posting.id}: ${error.message}`)
+          continue
+        }
+        stats.checked++
+        if (columns.salary_unit) stats.normalized++
+        else stats.unparsed++
+      }
+    }
+
+    const { count } = await supabase
+      .from('job_postings')
+      .select('id', { count: 'exact', head: true })
+      .is('salary_normalized_at', null)
+      .is('archived_at', null)
+      .not('salary', 'is', null)
+    stats.remaining = count ?? 0
+
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Sales-lead-import-dispatch automation.
+ *
+ * Vult per lopende bulk-import (status 'dispatching') de in-flight cap aan:
+ * zodra runs van een import klaar zijn, worden de volgende geselecteerde
+ * rijen als sales_lead_run aangemaakt en naar de enrich-worker gestuurd.
+ * Een import zonder wachtende of lopende runs gaat naar 'completed'.
+ */
+
+import type { NextRequest } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { dispatchImportBatch } from '@/lib/services/sales-leads/bulk-import.service'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+
+export interface SalesLeadImportDispatchStats {
+  imports: number
+  dispatched: number
+  in_flight: number
+  pending: number
+  completed: number
+  failed: number
+}
+
+function emptyStats(): SalesLeadImportDispatchStats {
+  return { imports: 0, dispatched: 0, in_flight: 0, pending: 0, completed: 0, failed: 0 }
+}
+
+export async function run(
+  req: NextRequest,
+): Promise<{ stats: SalesLeadImportDispatchStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+
+  try {
+    const { data, error } = await supabase
+      .from('sales_lead_imports')
+      .select('id')
+      .eq('status', 'dispatching')
+      .order('started_at', { ascending: true })
+    if (error) return { success: false, stats, error: error.message }
+
+    for (const { id } of data ?? []) {
+      if (Date.now() - startTime >= MAX_RUN_MS) break
+      stats.imports++
+      try {
+        const result = await dispatchImportBatch(supabase, req, id)
+        stats.dispatched += result.dispatched
+        stats.in_flight += result.in_flight
+        stats.pending += result.pending
+        if (result.completed) stats.completed++
+      } catch (e) {
+        stats.failed++
+        console.error(`[sales-lead-import-dispatch] import ${id}:`, e instanceof Error ? e.message : e)
+      }
+    }
+
+    return { success: stats.failed === 0, stats, error: stats.failed > 0 ? `${stats.failed} import(s) gefaald` : undefined }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Sales-lead-refresh automation.
+ *
+ * Her-verrijkt gesyncte sales-leads waarvan de laatste refresh ouder is dan
+ * REFRESH_INTERVAL_DAYS (zie lead-refresh.service.ts). Per refresh worden
+ * KvK, Apollo en de website opnieuw opgehaald en de verschillen met de vorige
+ * momentopname als signalen op de lead gezet. Een website-crawl kan een paar
+ * minuten duren, dus er lopen er maar een paar per run, achter elkaar
+ * (één Chromium per function-instance).
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import {
+  failStaleRefreshes,
+  findRunsDueForRefresh,
+  LeadRefreshService,
+} from '@/lib/services/sales-leads/lead-refresh.service'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+/** Na dit punt geen nieuwe refresh meer starten; een crawl kan ~90s duren. */
+const MAX_START_MS = 150_000
+const MAX_REFRESHES = 3
+
+export interface SalesLeadRefreshStats {
+  due: number
+  refreshed: number
+  signals: number
+  activities: number
+  failed: number
+  stale_failed: number
+}
+
+function emptyStats(): SalesLeadRefreshStats {
+  return { due: 0, refreshed: 0, signals: 0, activities: 0, failed: 0, stale_failed: 0 }
+}
+
+export async function run(): Promise<{ stats: SalesLeadRefreshStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+
+  try {
+    stats.stale_failed = await failStaleRefreshes(supabase)
+
+    const runIds = await findRunsDueForRefresh(supabase, MAX_REFRESHES)
+    stats.due = runIds.length
+    const service = new LeadRefreshService()
+
+    for (const runId of runIds) {
+      const elapsed = Date.now() - startTime
+      if (elapsed >= MAX_START_MS || elapsed >= MAX_RUN_MS) break
+      try {
+        const result = await service.refreshRun(runId, 'cron')
+        if (result.status === 'completed') {
+          stats.refreshed++
+          stats.signals += result.signals.length
+          if (result.pipedriveActivityId) stats.activities++
+        } else {
+          stats.failed++
+        }
+      } catch (e) {
+        stats.failed++
+        console.error(`[sales-lead-refresh] run ${runId}:`, e instanceof Error ? e.message : e)
+      }
+    }
+
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Vacancy-translate automation.
+ *
+ * Vertaalt publieke "English-friendly" vacatures naar het Engels voor de
+ * /en-pagina's van de publieke sites en bewaart het resultaat in
+ * `job_posting_translations`. Een vacature komt in de wachtrij als er nog
+ * geen vertaling is of als de Nederlandse bron (titel, tekst, SEO-
+ * omschrijving) sinds de vorige vertaling is gewijzigd (`source_hash`).
+ * Portalen met nieuwe vertalingen krijgen een cache-revalidatie.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import { revalidatePublicSite } from '@/lib/services/public-site-revalidate.service'
+import {
+  TRANSLATION_MODEL,
+  translateVacancy,
+  translationSourceHash,
+  type TranslationSource,
+} from '@/lib/services/vacancy-translation.service'
+
+const MAX_RUN_MS = 240_000 // ~60s buffer onder maxDuration=300
+const LOCALE = 'en'
+/** Mistral-aanroepen duren tot 30s; meer dan dit haalt één run niet. */
+const MAX_TRANSLATIONS = 40
+const PAGE_SIZE = 1000
+
+export interface VacancyTranslateStats {
+  candidates: number
+  translated: number
+  failed: number
+  remaining: number
+}
+
+interface CandidateRow {
+  id: string
+  slug: string | null
+  platform_id: string | null
+  title: string
+  city: string | null
+  content_md: string | null
+  description: string | null
+  seo_description: string | null
+  companies: { name: string | null } | { name: string | null }[] | null
+}
+
+function emptyStats(): VacancyTranslateStats {
+  return { candidates: 0, translated: 0, failed: 0, remaining: 0 }
+}
+
+export function translationSource(row: Pick<CandidateRow, 'title' | 'content_md' | 'description' | 'seo_description'>): TranslationSource {
+  return {
+    title: row.title,
+    content_md: row.content_md?.trim() || row.description?.trim() || null,
+    seo_description: row.seo_description?.trim() || null,
+  }
+}
+
+/**
+ * Publieke English-friendly vacatures zonder actuele vertaling, oudste
+ * publicatie eerst.
+ */
+export async function findStaleTranslations(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, 'public', any>,
+): Promise<{ rows: CandidateRow[]; error?: string }> {
+  const rows: CandidateRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('job_postings')
+      .select('id, slug, platform_id, title, city, content_md, description, seo_description, companies(name)')
+      .eq('english_friendly', true)
+      .eq('review_status', 'approved')
+      .not('published_at', 'is', null)
+      .is('archived_at', null)
+      .order('published_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) return { rows: [], error: error.message }
+    rows.push(...((data ?? []) as CandidateRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  if (rows.length === 0) return { rows }
+
+  const hashes = new Map<string, string>()
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('job_posting_translations')
+      .select('job_posting_id, source_hash')
+      .eq('locale', LOCALE)
+      .in('job_posting_id', rows.slice(i, i + PAGE_SIZE).map((r) => r.id))
+    if (error) return { rows: [], error: error.message }
+    for (const t of (data ?? []) as { job_posting_id: string; source_hash: string }[]) {
+      hashes.set(t.job_posting_id, t.source_hash)
+    }
+  }
+
+  return {
+    rows: rows.filter((r) => hashes.get(r.id) !== translationSourceHash(translationSource(r))),
+  }
+}
+
+export async function run(): Promise<{ stats: VacancyTranslateStats; success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient()
+  const stats = emptyStats()
+  const startTime = Date.now()
+
+  try {
+    const { rows, error } = await findStaleTranslations(supabase)
+    if (error) return { success: false, stats, error }
+    stats.candidates = rows.length
+
+    const platformIds = new Set<string>()
+    const jobSlugs: string[] = []
+
+    for (const row of rows.slice(0, MAX_TRANSLATIONS)) {
+      if (Date.now() - startTime >= MAX_RUN_MS) break
+      const source = translationSource(row)
+      const company = Array.isArray(row.companies) ? row.companies[0] : row.companies
+      try {
+        const translation = await translateVacancy(source, {
+          companyName: company?.name ?? null,
+          city: row.city,
+        })
+        const { error: upsertError } = await supabase
+          .from('job_posting_translations')
+          .upsert(
+            {
+              job_posting_id: row.id,
+              locale: LOCALE,
+              ...translation,
+              source_hash: translationSourceHash(source),
+              model: TRANSLATION_MODEL,
+              translated_at: new Date().toISOString(),
+            },
+            { onConflict: 'job_posting_id,locale' },
+          )
+        if (upsertError) throw new Error(upsertError.message)
+        stats.translated++
+        if (row.platform_id) platformIds.add(row.platform_id)
+        if (row.slug) jobSlugs.push(row.slug)
+      } catch (e) {
+        stats.failed++
+        console.error(`[vacancy-translate] vacature ${row.id}: ${e instanceof Error ? e.message : e}`)
+      }
+    }
+
+    stats.remaining = Math.max(0, stats.candidates - stats.translated)
+
+    if (platformIds.size > 0) {
+      await revalidatePublicSite({ platformIds: Array.from(platformIds), jobSlugs })
+    }
+
+    return { success: true, stats }
+  } catch (e) {
+    return { success: false, stats, error: e instanceof Error ? e.message : String(e) }
+  }
+}
@@ -179,4 +179,26 @@ export function compareDataArrays(currentData: any[], newData: any[]): {
       ...(modified > 0 ? [`${modified} items modified`] : [])
     ]
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Stable content hash over selected fields, for detecting whether a record
+ * changed since it was last sent somewhere (e.g. an external jobboard).
+ * Unlike generateDataHash this covers the actual field values; key order and
+ * undefined vs null don't matter.
+ * @param data - The record to hash
+ * @param fields - Fields that make up the content
+ * @returns A 16-character hex hash
+ */
+export function generateContentHash(data: Record<string, unknown>, fields: readonly string[]): string {
+  const content = JSON.stringify(fields.map(field => [field, data[field] ?? null]))
+
+  // Two FNV-1a 32-bit passes with different offsets, concatenated
+  let h1 = 0x811c9dc5
+  let h2 = 0x01000193 ^ 0x9e3779b9
+  for (let i = 0; i < content.length; i++) {
+    const c = content.charCodeAt(i)
+    h1 = Math.imul(h1 ^ c, 0x01000193)
+    h2 = Math.imul(h2 ^ c, 0x01000193)
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0')
+}
@@ -17,7 +17,8 @@ export interface FuzzySearchResult<T> {
   score: number
 }
 
-function calculateScore(query: string, text: string): number {
+/** Score (0-1) of one query against one text, on the same scale as fuzzySearch */
+export function calculateScore(query: string, text: string): number {
   const lowerQuery = query.toLowerCase()
   const lowerText = text.toLowerCase()
   
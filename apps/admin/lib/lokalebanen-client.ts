@@ -1,6 +1,7 @@
 /**
  * Lokale Banen API Client
- * Handles company and vacancy creation on the Lokale Banen jobboard platform
+ * Handles company and vacancy creation, vacancy updates and withdrawals on the
+ * Lokale Banen jobboard platform
  * Auth: Basic Auth, all endpoints require trailing slash
  */
 
@@ -61,6 +62,31 @@ export interface LBCreateResponse {
   id: string
 }
 
+export type LBVacancyUpdate = Omit<LBVacancyCreate, 'domain' | 'company_id'>
+
+/** Update body from a create payload: domain and company are fixed once the vacancy exists. */
+export function toVacancyUpdate(payload: LBVacancyCreate): LBVacancyUpdate {
+  return {
+    title: payload.title,
+    city: payload.city,
+    start_at: payload.start_at,
+    end_at: payload.end_at,
+    sector: payload.sector,
+    employments: payload.employments,
+    educations: payload.educations,
+    weeklyhours: payload.weeklyhours,
+    function_description: payload.function_description,
+    company_profile: payload.company_profile,
+    function_demands: payload.function_demands,
+    interest_text: payload.interest_text,
+  }
+}
+
+export interface LBStatusResponse {
+  status: string
+  message: string
+}
+
 export interface LBDomainsResponse {
   domains: string[]
 }
@@ -144,6 +170,34 @@ export class LokaleBanenClient {
     })
   }
 
+  // --------------------------------------------------------------------------
+  // Update / withdraw endpoints
+  // --------------------------------------------------------------------------
+
+  async updateVacancy(id: string, data: LBVacancyUpdate): Promise<LBStatusResponse> {
+    return this.makeRequest<LBStatusResponse>(`/vacancies/${encodeURIComponent(id)}/update/`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  /**
+   * Take a vacancy offline. A 404 means it is already gone at LB, which is
+   * the desired end state, so it is not treated as an error.
+   */
+  async deleteVacancy(id: string): Promise<LBStatusResponse> {
+    try {
+      return await this.makeRequest<LBStatusResponse>(`/vacancies/${encodeURIComponent(id)}/delete/`, {
+        method: 'POST',
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Lokale Banen API error: 404')) {
+        return { status: 'not_found', message: 'Vacancy no longer exists' }
+      }
+      throw error
+    }
+  }
+
   // --------------------------------------------------------------------------
   // Internal
   // --------------------------------------------------------------------------
@@ -908,6 +908,7 @@ export class PipedriveClient {
     org_id?: number;
     person_id?: number;
     deal_id?: number;
+    user_id?: number; // Assignee; defaults to the API token owner
     note?: string;
     public_description?: string;
   }): Promise<any> {
@@ -1562,12 +1563,44 @@ export class PipedriveClient {
       };
     }
   }
+
+  /**
+   * Set the hiring-intensity score (0-100) on a Pipedrive organization; null clears the field.
+   * Numeric org field, ID stored as HIRING_INTENSITY_FIELD_ID (env).
+   */
+  async setHiringIntensity(
+    orgId: number,
+    score: number | null
+  ): Promise<{ success: boolean; reason?: string }> {
+    try {
+      if (!HIRING_INTENSITY_FIELD_ID) {
+        return { success: false, reason: 'Field ID not configured' };
+      }
+
+      await this.updateOrganizationV2(orgId, {
+        custom_fields: {
+          [HIRING_INTENSITY_FIELD_ID]: score
+        }
+      });
+      return { success: true };
+    } catch (error) {
+      if (error instanceof PipedriveDailyLimitError) throw error;
+      console.error(`Error setting hiring intensity for org ${orgId}:`, error);
+      return {
+        success: false,
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 }
 
 // Nieuwsbrief Status field ID on Pipedrive Organization
 // Set this after creating the field via /api/mailerlite/setup
 const NIEUWSBRIEF_STATUS_FIELD_ID = process.env.PIPEDRIVE_NIEUWSBRIEF_STATUS_FIELD_ID || '';
 
+// Hiring intensity field ID on Pipedrive Organization (numeric, created manually in Pipedrive)
+export const HIRING_INTENSITY_FIELD_ID = process.env.PIPEDRIVE_HIRING_INTENSITY_FIELD_ID || '';
+
 // Lazy singleton (avoids module-level env var validation during build).
 //
 // Concurrency-note: PipedriveClient gebruikt REACTIEVE 429-retry met exponential
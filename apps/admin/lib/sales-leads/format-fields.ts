@@ -1,4 +1,4 @@
-import type { NormalizedFields, NormalizedAddress } from '@/lib/services/sales-leads/types'
+import type { LeadSignal, NormalizedFields, NormalizedAddress } from '@/lib/services/sales-leads/types'
 
 export function formatAddress(a: NormalizedAddress | undefined): string {
   if (!a) return ''
@@ -35,3 +35,11 @@ export function formatFieldValue(
   if (typeof value === 'object') return JSON.stringify(value).slice(0, 60)
   return String(value)
 }
+
+/** Korte labels voor refresh-signalen (badge in de UI, onderwerp van de Pipedrive-taak). */
+export const SIGNAL_LABEL: Record<LeadSignal['type'], string> = {
+  address_moved: 'Verhuisd',
+  headcount_change: 'Personeelsaantal',
+  new_vacancies: 'Nieuwe vacatures',
+  contact_left: 'Contact vertrokken',
+}
@@ -0,0 +1,143 @@
+/**
+ * ScraperAdapter for debanensite.nl (see lib/scrapers/shared/adapter.ts)
+ *
+ * Runs on the generic runtime via /api/scrapers/boards/debanensite:
+ * - List scan: /vacatures?page=X, jobs from __NEXT_DATA__ (newest first)
+ * - Detail: Schema.org JSON-LD on the vacancy page + Mistral extraction of
+ *   contact/company fields from the JSON-LD description
+ * - Delisting: 404/410 on the detail page, or not seen during a full pass
+ */
+
+// Direct imports instead of "../shared": the shared index re-exports the registry,
+// which imports this adapter.
+import { stripHtmlTags } from "../shared/utils";
+import type { DetailResult, ListPage, Listing, ListingRef, MappedDetail, ScraperAdapter } from "../shared/adapter";
+import { salaryColumns } from "@/lib/services/salary-normalization/normalize";
+import { parseNextDataJson, extractJobPostings, getPaginationInfo, generateVacancyUrl, generateSlug } from "./parser";
+import { parseDetailPage, formatJsonLdSalary } from "./detail-parser";
+import { extractDataWithAI } from "./ai-parser";
+import type { AiExtractedData, DetailPageData, NextDataJobPosting } from "./types";
+
+const VACATURES_URL = "https://debanensite.nl/vacatures";
+const USER_AGENT = "Mozilla/5.0 (compatible; LokaleBanen/1.0)";
+
+export interface DebanensiteDetail {
+  page: DetailPageData;
+  ai: AiExtractedData;
+}
+
+async function fetchHtml(url: string): Promise<Response> {
+  return fetch(url, { headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml" } });
+}
+
+function mapEmployment(employmentType: string | null | undefined): string | null {
+  if (employmentType === "Full-time") return "Fulltime";
+  if (employmentType === "Part-time") return "Parttime";
+  return null;
+}
+
+function parseHours(value: string | null): number | null {
+  const match = value?.toString().match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Fetch one list page. A page without __NEXT_DATA__ throws instead of returning
+ * an empty page: the runtime treats an empty page as end of source, which would
+ * complete a full pass and delist every vacancy of this source.
+ */
+async function scanPage(_session: null, page: number): Promise<ListPage<NextDataJobPosting>> {
+  const response = await fetchHtml(page === 1 ? VACATURES_URL : `${VACATURES_URL}?page=${page}`);
+  if (!response.ok) throw new Error(`debanensite page ${page}: HTTP ${response.status}`);
+  const html = await response.text();
+  const nextData = parseNextDataJson(html);
+  if (!nextData) throw new Error(`debanensite page ${page}: no __NEXT_DATA__ found`);
+
+  const { totalPages } = getPaginationInfo(html);
+  return { items: extractJobPostings(nextData), done: page >= totalPages };
+}
+
+export function toListing(job: NextDataJobPosting): Listing {
+  const source = job._source;
+  const title = source?.title || "Onbekende functie";
+  const city = source?.address?.city || null;
+  const slug = source?.slug || generateSlug(title, source?.companyBranch?.name || "", city);
+  // Coordinates are [longitude, latitude]
+  const coordinates = source?.address?.location;
+
+  return {
+    externalId: job._id,
+    url: generateVacancyUrl(slug, job._id),
+    title,
+    city,
+    fields: {
+      description: source?.description || null,
+      employment: mapEmployment(source?.employmentType?.name),
+      country: "Netherlands",
+      longitude: coordinates?.[0]?.toString() ?? null,
+      latitude: coordinates?.[1]?.toString() ?? null,
+    },
+  };
+}
+
+async function fetchDetail(_session: null, ref: ListingRef): Promise<DetailResult<DebanensiteDetail>> {
+  const response = await fetchHtml(ref.url);
+  if (response.status === 404 || response.status === 410) return { notFound: true };
+  if (!response.ok) throw new Error(`debanensite detail HTTP ${response.status}: ${ref.url}`);
+
+  const page = parseDetailPage(await response.text());
+  const ai = await extractDataWithAI(stripHtmlTags(page.description ?? ""));
+  return { notFound: false, detail: { page, ai } };
+}
+
+export function mapDetail({ page, ai }: DebanensiteDetail): MappedDetail {
+  const salary = formatJsonLdSalary(page) ?? ai.salary;
+  const hasContact = Boolean(ai.contact_name || ai.contact_email || ai.contact_phone);
+
+  return {
+    jobPatch: {
+      published_at: page.datePosted,
+      end_date: page.validThrough,
+      state: page.province,
+      zipcode: page.companyAddress?.postalCode ?? null,
+      street: page.companyAddress?.streetAddress ?? null,
+      categories: page.workField,
+      education_level: page.educationLevel,
+      salary,
+      ...salaryColumns(salary),
+      working_hours_min: parseHours(ai.working_hours),
+      working_hours_max: parseHours(ai.working_hours_max),
+    },
+    employer: page.companyName
+      ? {
+          externalId: null,
+          name: page.companyName,
+          website: ai.company_website,
+          city: page.companyAddress?.city ?? null,
+          postalCode: page.companyAddress?.postalCode ?? null,
+          streetAddress: page.companyAddress?.streetAddress ?? null,
+          logoUrl: page.logoUrl,
+        }
+      : null,
+    contact: hasContact
+      ? { name: ai.contact_name, email: ai.contact_email, phone: ai.contact_phone, title: ai.contact_title }
+      : null,
+    expiresAt: page.validThrough,
+  };
+}
+
+export const debanensiteAdapter: ScraperAdapter<null, NextDataJobPosting, DebanensiteDetail> = {
+  slug: "debanensite",
+  sourceName: "De Banensite",
+  logPrefix: "[debanensite]",
+  automationId: "debanensite-scraper",
+
+  createSession: async () => null,
+  scanPage,
+  toListing,
+  fetchDetail,
+  mapDetail,
+
+  pageDelayMs: () => 500,
+  detailDelayMs: () => 200,
+};
@@ -21,6 +21,8 @@ export function parseDetailPage(html: string): DetailPageData {
     salaryMax: null,
     salaryPeriod: null,
     logoUrl: null,
+    description: null,
+    companyName: null,
   };
 
   try {
@@ -93,6 +95,8 @@ export function parseDetailPage(html: string): DetailPageData {
       salaryMax,
       salaryPeriod,
       logoUrl,
+      description: typeof jobPosting.description === "string" ? jobPosting.description : null,
+      companyName: jobPosting.hiringOrganization?.name || null,
     };
   } catch (error) {
     console.error("Failed to parse detail page JSON-LD:", error);
@@ -100,6 +104,20 @@ export function parseDetailPage(html: string): DetailPageData {
   }
 }
 
+/**
+ * Format the structured JSON-LD salary as a display string,
+ * e.g. "€ 3.000 - € 4.000 per maand". Null when the page has no baseSalary.
+ */
+export function formatJsonLdSalary(detail: DetailPageData): string | null {
+  if (detail.salaryMin == null) return null;
+  const fmt = (n: number) => n.toLocaleString("nl-NL", { style: "currency", currency: "EUR", minimumFractionDigits: 0, maximumFractionDigits: 0 });
+  const periodMap: Record<string, string> = { MONTH: "per maand", YEAR: "per jaar", HOUR: "per uur" };
+  const period = detail.salaryPeriod ? periodMap[detail.salaryPeriod] || detail.salaryPeriod.toLowerCase() : "";
+  return detail.salaryMax != null
+    ? `${fmt(detail.salaryMin)} - ${fmt(detail.salaryMax)}${period ? ` ${period}` : ""}`
+    : `${fmt(detail.salaryMin)}${period ? ` ${period}` : ""}`;
+}
+
 /**
  * Fetch and parse detail page
  */
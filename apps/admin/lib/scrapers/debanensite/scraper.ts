@@ -21,9 +21,10 @@ import {
   stripHtmlTags,
   type SupabaseClient,
 } from "../shared";
+import { salaryColumns } from "@/lib/services/salary-normalization/normalize";
 import { parseListPage, generateVacancyUrl, generateSlug } from "./parser";
 import { extractDataWithAI, getEmptyResult } from "./ai-parser";
-import { fetchDetailPage } from "./detail-parser";
+import { fetchDetailPage, formatJsonLdSalary } from "./detail-parser";
 import type {
   ScraperConfig,
   ScrapeResult,
@@ -127,6 +128,7 @@ async function insertJobPosting(
     categories: vacancy.work_field,
     education_level: vacancy.education_level,
     salary: vacancy.salary,
+    ...salaryColumns(vacancy.salary),
     working_hours_min: workingHoursMin,
     working_hours_max: workingHoursMax,
 
@@ -204,15 +206,7 @@ async function processVacancy(
     const contentHash = generateContentHash(title, companyName, city || "", url);
 
     // Build salary string: prefer structured JSON-LD data, fallback to AI extraction
-    let salary = aiData.salary;
-    if (detailData?.salaryMin != null) {
-      const fmt = (n: number) => n.toLocaleString("nl-NL", { style: "currency", currency: "EUR", minimumFractionDigits: 0, maximumFractionDigits: 0 });
-      const periodMap: Record<string, string> = { MONTH: "per maand", YEAR: "per jaar", HOUR: "per uur" };
-      const period = detailData.salaryPeriod ? periodMap[detailData.salaryPeriod] || detailData.salaryPeriod.toLowerCase() : "";
-      salary = detailData.salaryMax != null
-        ? `${fmt(detailData.salaryMin)} - ${fmt(detailData.salaryMax)}${period ? ` ${period}` : ""}`
-        : `${fmt(detailData.salaryMin)}${period ? ` ${period}` : ""}`;
-    }
+    const salary = (detailData && formatJsonLdSalary(detailData)) ?? aiData.salary;
 
     // Combine all data: List JSON + Detail JSON-LD + AI extraction
     const vacancy: ParsedVacancy = {
@@ -81,6 +81,8 @@ export interface DetailPageData {
   salaryMax: number | null;
   salaryPeriod: string | null;
   logoUrl: string | null;
+  description: string | null;
+  companyName: string | null;
 }
 
 /**
@@ -0,0 +1,91 @@
+/**
+ * ScraperAdapter-contract voor regionale vacaturebronnen.
+ *
+ * Een adapter beschrijft alleen het bron-specifieke deel: hoe je een lijstpagina
+ * scant, hoe je een detail ophaalt, hoe je dat naar `job_postings` mapt en wie de
+ * werkgever is. Queue, claim, finalize, incrementele stop, company-dedup en de
+ * delisting-sweep zitten in de generieke runtime (zie runtime.ts), zodat een nieuwe
+ * bron geen eigen queue/dedup/delisted-stack meer nodig heeft.
+ */
+
+import type { ContactData } from "./types";
+
+/** Minimale referentie naar een vacature bij de bron. */
+export interface ListingRef {
+  /** Stabiele bron-id, opgeslagen als job_postings.external_vacancy_id. */
+  externalId: string;
+  /** Publieke URL van de vacature bij de bron. */
+  url: string;
+}
+
+/** Eén vacature uit een lijst-scan, klaar voor een minimale job_postings insert. */
+export interface Listing extends ListingRef {
+  title: string;
+  city: string | null;
+  /** Extra kolommen die al uit de lijst bekend zijn (employment, working_hours_*, ...). */
+  fields?: Record<string, unknown>;
+}
+
+export interface ListPage<TItem> {
+  items: TItem[];
+  /** True als dit de laatste pagina van de bron is (einde van een volledige pass). */
+  done: boolean;
+}
+
+export type DetailResult<TDetail> =
+  | { notFound: true }
+  | { notFound: false; detail: TDetail };
+
+/**
+ * Werkgever-identiteit zoals de bron die levert. `externalId` is de stabiele
+ * bedrijfs-id bij de bron (dedup-laag 1 via company_external_ids).
+ */
+export interface EmployerIdentity {
+  externalId: string | null;
+  name: string;
+  website: string | null;
+  /** Betrouwbare domeinen voor hoofddomein-match; default het domein van `website`. */
+  matchDomains?: string[];
+  city: string | null;
+  postalCode: string | null;
+  streetAddress: string | null;
+  logoUrl?: string | null;
+  isBemiddelaar?: boolean;
+}
+
+export interface MappedDetail {
+  /** Patch op job_postings (description, salary, working_hours_*, ...). */
+  jobPatch: Record<string, unknown>;
+  employer: EmployerIdentity | null;
+  contact: ContactData | null;
+  /** ISO-vervaldatum uit de bron; verstreken -> archiveren i.p.v. verrijken. */
+  expiresAt: string | null;
+}
+
+export interface ScraperAdapter<TSession = unknown, TItem = unknown, TDetail = unknown> {
+  /** URL-slug, gebruikt in /api/scrapers/boards/[slug]. */
+  slug: string;
+  /** job_sources.name */
+  sourceName: string;
+  /** Log-prefix, bv. "[werknl]". */
+  logPrefix: string;
+  /** archived_reason bij delisting; default "not_in_source". */
+  delistReason?: string;
+  /** Id in lib/automations-registry.ts; als gezet wordt de lijst-scan gemonitord onder dit id. */
+  automationId?: string;
+
+  createSession(): Promise<TSession>;
+  /** Lijstpagina ophalen (1-based), gesorteerd op nieuwste. */
+  scanPage(session: TSession, page: number): Promise<ListPage<TItem>>;
+  toListing(item: TItem): Listing;
+  fetchDetail(session: TSession, ref: ListingRef): Promise<DetailResult<TDetail>>;
+  mapDetail(detail: TDetail): MappedDetail;
+
+  /** Politeness-delay tussen lijstpagina's en tussen detailcalls (ms). */
+  pageDelayMs?(): number;
+  detailDelayMs?(): number;
+}
+
+/** Type-erased adapter voor registries en routes. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyScraperAdapter = ScraperAdapter<any, any, any>;
@@ -0,0 +1,42 @@
+/**
+ * Delisting-sweep voor adapter-bronnen.
+ *
+ * Wordt alleen gedraaid na een VOLTOOIDE volledige pass. Archiveert elke nog-actieve
+ * vacature van de bron die sinds de pass-start niet meer gezien is. De incrementele
+ * scan archiveert nooit; dit is het autoritatieve moment (zie CONTEXT.md, Delisting).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const DEFAULT_DELIST_REASON = "not_in_source";
+
+export async function archiveNotSeenSince(
+  supabase: SupabaseClient,
+  sourceId: string,
+  passStartedAtIso: string,
+  nowIso: string,
+  reason: string = DEFAULT_DELIST_REASON
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("job_postings")
+    .update({ archived_at: nowIso, archived_reason: reason, status: "archived" }, { count: "exact" })
+    .eq("source_id", sourceId)
+    .lt("last_seen_in_sitemap", passStartedAtIso)
+    .is("archived_at", null);
+  if (error) throw new Error(`[delisting] sweep faalde: ${error.message}`);
+  return count ?? 0;
+}
+
+/** Archiveert één vacature (404 bij de bron of verstreken vervaldatum). */
+export async function archivePosting(
+  supabase: SupabaseClient,
+  jobPostingId: string,
+  reason: string,
+  nowIso: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("job_postings")
+    .update({ archived_at: nowIso, archived_reason: reason, status: "archived" })
+    .eq("id", jobPostingId);
+  if (error) throw new Error(`[delisting] archiveren faalde (${reason}): ${error.message}`);
+}
@@ -0,0 +1,150 @@
+/**
+ * Bron-agnostische company-dedup voor adapter-scrapers.
+ *
+ * Match-volgorde (eerste hit wint), gegeneraliseerd uit de werk.nl dedup:
+ *   1. company_external_ids (source_id, external_id) = stabiele bedrijfs-id bij de bron
+ *   2. companies.hoofddomein op betrouwbare domeinen
+ *   3. normalized_name + postcode + straat
+ *   4. normalized_name alleen als er een stabiele bron-id is
+ *   5. -> CREATE nieuwe row
+ *
+ * Bij een fallback-match wordt de bron-id vastgelegd in company_external_ids, zodat
+ * volgende runs direct laag 1 raken. is_bemiddelaar gaat alleen monotoon naar true.
+ * Backfill-conflicten throwen niet maar worden via EmployerMatch.conflict gemeld.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { generateNormalizedName } from "./utils";
+import type { EmployerIdentity } from "./adapter";
+
+export interface EmployerMatch {
+  id: string;
+  matchedLayer: "external_id" | "hoofddomein" | "name_address" | "normalized_name" | "new";
+  conflict?: string;
+}
+
+/** Hoofddomein (zonder www., lowercase) uit een website, of null bij invalide input. */
+export function domainFromWebsite(website: string | null | undefined): string | null {
+  if (!website) return null;
+  try {
+    const url = new URL(website.startsWith("http") ? website : `https://${website}`);
+    return url.hostname.replace(/^www\./, "").toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function findByExternalId(
+  supabase: SupabaseClient,
+  sourceId: string,
+  externalId: string
+): Promise<{ id: string } | null> {
+  const { data } = await supabase
+    .from("company_external_ids")
+    .select("company_id")
+    .eq("source_id", sourceId)
+    .eq("external_id", externalId)
+    .maybeSingle();
+  const companyId = (data as { company_id?: string } | null)?.company_id;
+  return companyId ? { id: companyId } : null;
+}
+
+/** Legt de bron-id vast en zet is_bemiddelaar (alleen naar true). Returnt een conflict-melding of undefined. */
+async function backfill(
+  supabase: SupabaseClient,
+  companyId: string,
+  identity: EmployerIdentity,
+  sourceId: string
+): Promise<string | undefined> {
+  const problems: string[] = [];
+  if (identity.externalId) {
+    const { error } = await supabase
+      .from("company_external_ids")
+      .upsert(
+        { source_id: sourceId, external_id: identity.externalId, company_id: companyId },
+        { onConflict: "source_id,external_id", ignoreDuplicates: true }
+      );
+    if (error) problems.push(`external-id backfill: ${error.message}`);
+  }
+  if (identity.isBemiddelaar) {
+    const { error } = await supabase.from("companies").update({ is_bemiddelaar: true }).eq("id", companyId);
+    if (error) problems.push(`bemiddelaar backfill: ${error.message}`);
+  }
+  return problems.length > 0 ? problems.join("; ") : undefined;
+}
+
+export async function findOrCreateEmployer(
+  supabase: SupabaseClient,
+  identity: EmployerIdentity,
+  sourceId: string
+): Promise<EmployerMatch> {
+  const normalized = generateNormalizedName(identity.name);
+  const websiteDomain = domainFromWebsite(identity.website);
+  const domains = identity.matchDomains ?? (websiteDomain ? [websiteDomain] : []);
+
+  // LAAG 1: stabiele bron-id
+  if (identity.externalId) {
+    const hit = await findByExternalId(supabase, sourceId, identity.externalId);
+    if (hit) return { id: hit.id, matchedLayer: "external_id" };
+  }
+
+  // LAAG 2: hoofddomein
+  for (const domain of domains) {
+    const { data } = await supabase.from("companies").select("id").eq("hoofddomein", domain).maybeSingle();
+    if (data?.id) {
+      return { id: data.id, matchedLayer: "hoofddomein", conflict: await backfill(supabase, data.id, identity, sourceId) };
+    }
+  }
+
+  // LAAG 3: naam + adres, strenger dan alleen normalized_name
+  if (normalized && identity.postalCode && identity.streetAddress) {
+    const { data } = await supabase
+      .from("companies")
+      .select("id")
+      .eq("normalized_name", normalized)
+      .eq("postal_code", identity.postalCode)
+      .eq("street_address", identity.streetAddress)
+      .maybeSingle();
+    if (data?.id) {
+      return { id: data.id, matchedLayer: "name_address", conflict: await backfill(supabase, data.id, identity, sourceId) };
+    }
+  }
+
+  // LAAG 4: normalized_name alleen als we daarna een bron-id kunnen vastleggen
+  if (normalized && identity.externalId) {
+    const { data } = await supabase.from("companies").select("id").eq("normalized_name", normalized).maybeSingle();
+    if (data?.id) {
+      return { id: data.id, matchedLayer: "normalized_name", conflict: await backfill(supabase, data.id, identity, sourceId) };
+    }
+  }
+
+  // LAAG 5: CREATE
+  const { data: created, error } = await supabase
+    .from("companies")
+    .insert({
+      name: identity.name,
+      normalized_name: normalized,
+      is_bemiddelaar: identity.isBemiddelaar ?? false,
+      website: identity.website,
+      logo_url: identity.logoUrl ?? null,
+      city: identity.city,
+      location: identity.city,
+      street_address: identity.streetAddress,
+      postal_code: identity.postalCode,
+      hoofddomein: domains[0] ?? null,
+      source: sourceId,
+      status: "Prospect",
+      enrichment_status: "pending",
+      qualification_status: "pending",
+    })
+    .select("id")
+    .single();
+
+  if (error || !created) {
+    throw new Error(`[employer-identity] create company faalde: ${error?.message ?? "geen data"}`);
+  }
+
+  // Bron-id direct vastleggen; is_bemiddelaar staat al op de nieuwe rij.
+  const conflict = await backfill(supabase, created.id, { ...identity, isBemiddelaar: false }, sourceId);
+  return { id: created.id, matchedLayer: "new", conflict };
+}
@@ -5,6 +5,7 @@
  * - Database client creation
  * - Company and contact CRUD with deduplication
  * - Utility functions (phone normalization, name parsing, etc.)
+ * - ScraperAdapter contract + generieke queue/dedup/delisting runtime
  */
 
 // Database
@@ -20,6 +21,24 @@ export {
 export { findOrCreateCompany } from "./company-service";
 export { findOrCreateContact } from "./contact-service";
 
+// Adapter runtime
+export { findOrCreateEmployer, domainFromWebsite, type EmployerMatch } from "./employer-identity";
+export { archiveNotSeenSince, archivePosting } from "./delisting";
+export {
+  runListScan,
+  runDetailWorker,
+  processQueued,
+  upsertListing,
+  pageAllKnown,
+  isExpired,
+  type ScanMode,
+  type ScanOptions,
+  type ScanResult,
+  type WorkerOptions,
+  type WorkerResult,
+} from "./runtime";
+export { getScraperAdapter, listScraperAdapters } from "./registry";
+
 // Utilities
 export {
   delay,
@@ -39,3 +58,13 @@ export type {
   BaseScrapeStats,
   ScraperLogger,
 } from "./types";
+export type {
+  ScraperAdapter,
+  AnyScraperAdapter,
+  Listing,
+  ListingRef,
+  ListPage,
+  DetailResult,
+  EmployerIdentity,
+  MappedDetail,
+} from "./adapter";
@@ -0,0 +1,23 @@
+/**
+ * Registry van adapter-scrapers, ontsloten via /api/scrapers/boards/[slug].
+ *
+ * Een nieuwe regionale bron = een ScraperAdapter implementeren (zie adapter.ts),
+ * hier registreren en crons toevoegen in vercel.json. Queue, dedup en delisting
+ * komen uit de generieke runtime.
+ *
+ * debanensite is de referentie-adapter. werk_nl, werkenindekempen en baanindebuurt
+ * draaien nog op hun eigen stack en staan hier (nog) niet in.
+ */
+
+import type { AnyScraperAdapter } from "./adapter";
+import { debanensiteAdapter } from "../debanensite/adapter";
+
+const ADAPTERS: AnyScraperAdapter[] = [debanensiteAdapter];
+
+export function getScraperAdapter(slug: string): AnyScraperAdapter | null {
+  return ADAPTERS.find((a) => a.slug === slug) ?? null;
+}
+
+export function listScraperAdapters(): AnyScraperAdapter[] {
+  return [...ADAPTERS];
+}
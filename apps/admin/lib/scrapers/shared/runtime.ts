@@ -0,0 +1,404 @@
+/**
+ * Generieke runtime voor adapter-scrapers (zie adapter.ts).
+ *
+ * Lijst-scan:
+ *   - incrementeel: pagineert op nieuwste, stopt na N opeenvolgende volledig-bekende
+ *     pagina's. Archiveert nooit.
+ *   - volledig: cursor-gestuurd over meerdere runs (scrape_scan_state). Bij het einde
+ *     van de bron draait de delisting-sweep op alles wat sinds pass-start niet gezien is.
+ *   Nieuwe vacatures worden als minimale rij geinsert en in scrape_queue gezet.
+ *
+ * Detail-worker:
+ *   claim (scrape_claim_batch) -> fetchDetail -> mapDetail -> employer-dedup ->
+ *   job_postings update -> contact -> finalize. 404 of verstreken vervaldatum ->
+ *   archiveren i.p.v. verrijken.
+ *
+ * Dit is dezelfde flow als werk_nl (Fase 1-3), alleen bron-agnostisch.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AnyScraperAdapter, Listing } from "./adapter";
+import { getOrCreateJobSource, updateJobSourceStatus } from "./db-client";
+import { findOrCreateContact } from "./contact-service";
+import { findOrCreateEmployer } from "./employer-identity";
+import { enqueue, claimBatch, finalize, reapStaleProcessing } from "./scrape-queue";
+import { getScanState, isPassDue, startPass, saveCursor, completePass } from "./scan-state";
+import { archiveNotSeenSince, archivePosting, DEFAULT_DELIST_REASON } from "./delisting";
+import { delay } from "./utils";
+
+export type ListingOutcome = "new" | "seen";
+
+export type ScanMode = "incremental" | "full";
+
+export interface ScanOptions {
+  mode: ScanMode;
+  /** Max pagina's in deze run. */
+  maxPages?: number;
+  /** Incrementeel: stop na zoveel opeenvolgende volledig-bekende pagina's. */
+  stopAfterKnownPages?: number;
+  timeBudgetMs?: number;
+  /** Volledig: nieuwe pass pas als de vorige minstens zoveel dagen geleden voltooide. */
+  staleDays?: number;
+  /** Injecteerbaar voor tests. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ScanStats {
+  mode: ScanMode;
+  pages_scanned: number;
+  new: number;
+  seen: number;
+  enqueued: number;
+  stop_reason: "known_pages" | "time_budget" | "max_pages" | "end_of_source" | null;
+  pass_complete: boolean;
+  archived: number;
+}
+
+export type ScanResult =
+  | { success: true; skipped?: string; stats: ScanStats; orchestrationId: string }
+  | { success: false; error: string; stats: ScanStats; orchestrationId: string };
+
+export type ProcessOutcome = "enriched" | "archived_gone" | "archived_expired" | "skipped_no_ref";
+
+export interface WorkerOptions {
+  /** null = drain-modus: claim alles wat pending is voor deze bron. */
+  orchestrationId?: string | null;
+  batchSize?: number;
+  maxBatches?: number;
+  timeBudgetMs?: number;
+  staleProcessingMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface WorkerResult {
+  success: boolean;
+  error?: string;
+  stats: Record<ProcessOutcome, number> & { errors: number; reaped: number };
+}
+
+const DEFAULT_INCREMENTAL_MAX_PAGES = 1000; // hoge cap; early-stop beeindigt eerder
+const DEFAULT_FULL_MAX_PAGES = 200;
+const DEFAULT_STOP_AFTER_KNOWN_PAGES = 2;
+const DEFAULT_TIME_BUDGET_MS = 270_000; // marge t.o.v. maxDuration 300
+const DEFAULT_STALE_DAYS = 7;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_MAX_BATCHES = 50;
+const DEFAULT_STALE_PROCESSING_MS = 600_000;
+
+/** True als de pagina niet leeg is en uitsluitend reeds-bekende vacatures bevat. */
+export function pageAllKnown(outcomes: ListingOutcome[]): boolean {
+  return outcomes.length > 0 && outcomes.every((o) => o === "seen");
+}
+
+/** True als een ISO-vervaldatum voor `nowIso` ligt. Ongeldige datums tellen niet als verlopen. */
+export function isExpired(expiresAtIso: string | null, nowIso: string): boolean {
+  if (!expiresAtIso) return false;
+  const expires = Date.parse(expiresAtIso);
+  return Number.isFinite(expires) && expires < Date.parse(nowIso);
+}
+
+/**
+ * Upsert van één lijst-vacature in job_postings.
+ * Nieuw -> insert minimale rij (company_id null, review pending). Bestaand -> alleen last_seen verversen.
+ */
+export async function upsertListing(
+  supabase: SupabaseClient,
+  sourceId: string,
+  listing: Listing,
+  nowIso: string
+): Promise<{ jobPostingId: string; outcome: ListingOutcome }> {
+  const { data: existing } = await supabase
+    .from("job_postings")
+    .select("id")
+    .eq("external_vacancy_id", listing.externalId)
+    .eq("source_id", sourceId)
+    .maybeSingle();
+
+  if (existing) {
+    const id = (existing as { id: string }).id;
+    const { error } = await supabase.from("job_postings").update({ last_seen_in_sitemap: nowIso }).eq("id", id);
+    if (error) throw new Error(`[scraper-runtime] last_seen update faalde: ${error.message}`);
+    return { jobPostingId: id, outcome: "seen" };
+  }
+
+  const { data: inserted, error } = await supabase
+    .from("job_postings")
+    .insert({
+      ...listing.fields,
+      title: listing.title,
+      external_vacancy_id: listing.externalId,
+      source_id: sourceId,
+      company_id: null,
+      url: listing.url,
+      city: listing.city,
+      // location = city: de geocoding-cron pakt alleen rijen met location op (zie werk_nl mappers).
+      location: listing.city,
+      status: "new",
+      review_status: "pending",
+      last_seen_in_sitemap: nowIso,
+      scraped_at: nowIso,
+    })
+    .select("id")
+    .single();
+  if (error || !inserted) {
+    throw new Error(`[scraper-runtime] insert faalde: ${error?.message ?? "geen data"}`);
+  }
+  return { jobPostingId: (inserted as { id: string }).id, outcome: "new" };
+}
+
+function emptyScanStats(mode: ScanMode): ScanStats {
+  return {
+    mode,
+    pages_scanned: 0,
+    new: 0,
+    seen: 0,
+    enqueued: 0,
+    stop_reason: null,
+    pass_complete: false,
+    archived: 0,
+  };
+}
+
+export async function runListScan(
+  supabase: SupabaseClient,
+  adapter: AnyScraperAdapter,
+  opts: ScanOptions
+): Promise<ScanResult> {
+  const startTime = Date.now();
+  const sleep = opts.sleep ?? delay;
+  const timeBudgetMs = opts.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const full = opts.mode === "full";
+  const maxPages = Math.max(1, opts.maxPages ?? (full ? DEFAULT_FULL_MAX_PAGES : DEFAULT_INCREMENTAL_MAX_PAGES));
+  const stopThreshold = Math.max(1, opts.stopAfterKnownPages ?? DEFAULT_STOP_AFTER_KNOWN_PAGES);
+  const stats = emptyScanStats(opts.mode);
+  const nowIso = new Date().toISOString();
+
+  const sourceId = await getOrCreateJobSource(supabase, adapter.sourceName);
+
+  // Volledige pass: doorgaan met actieve pass, of een nieuwe starten als due.
+  let cursor = 1;
+  let passStartedAt = nowIso;
+  if (full) {
+    const state = await getScanState(supabase, sourceId);
+    if (state.pass_cursor === 0) {
+      if (!isPassDue(state, Date.now(), opts.staleDays ?? DEFAULT_STALE_DAYS)) {
+        return { success: true, skipped: "pass niet due", stats, orchestrationId: "" };
+      }
+      await startPass(supabase, sourceId, nowIso);
+    } else {
+      cursor = state.pass_cursor;
+      passStartedAt = state.pass_started_at ?? nowIso;
+    }
+  }
+
+  const orchestrationId = full ? `${adapter.slug}-fullpass-${passStartedAt}` : `${adapter.slug}-${crypto.randomUUID()}`;
+  const newIds: string[] = [];
+  let consecutiveKnownPages = 0;
+
+  try {
+    const session = await adapter.createSession();
+
+    while (true) {
+      if (stats.pages_scanned >= maxPages) {
+        stats.stop_reason = "max_pages";
+        break;
+      }
+      if (Date.now() - startTime >= timeBudgetMs) {
+        stats.stop_reason = "time_budget";
+        break;
+      }
+
+      const page = await adapter.scanPage(session, cursor);
+      const outcomes: ListingOutcome[] = [];
+      for (const item of page.items) {
+        const { jobPostingId, outcome } = await upsertListing(supabase, sourceId, adapter.toListing(item), nowIso);
+        outcomes.push(outcome);
+        if (outcome === "new") {
+          stats.new++;
+          newIds.push(jobPostingId);
+        } else {
+          stats.seen++;
+        }
+      }
+      if (page.items.length > 0) stats.pages_scanned++;
+      cursor++;
+
+      if (page.done || page.items.length === 0) {
+        stats.stop_reason = "end_of_source";
+        stats.pass_complete = full;
+        break;
+      }
+      if (!full) {
+        consecutiveKnownPages = pageAllKnown(outcomes) ? consecutiveKnownPages + 1 : 0;
+        if (consecutiveKnownPages >= stopThreshold) {
+          stats.stop_reason = "known_pages";
+          break;
+        }
+      }
+      await sleep(adapter.pageDelayMs?.() ?? 0);
+    }
+
+    stats.enqueued = await enqueue(supabase, sourceId, newIds, orchestrationId);
+
+    if (full) {
+      if (stats.pass_complete) {
+        stats.archived = await archiveNotSeenSince(
+          supabase,
+          sourceId,
+          passStartedAt,
+          nowIso,
+          adapter.delistReason ?? DEFAULT_DELIST_REASON
+        );
+        await completePass(supabase, sourceId, nowIso);
+      } else {
+        await saveCursor(supabase, sourceId, cursor);
+      }
+    }
+
+    await updateJobSourceStatus(supabase, sourceId, { success: true, count: stats.new });
+    console.log(
+      `${adapter.logPrefix} lijst-scan klaar: mode=${opts.mode} pages=${stats.pages_scanned} new=${stats.new} seen=${stats.seen} stop=${stats.stop_reason} archived=${stats.archived}`
+    );
+    return { success: true, stats, orchestrationId };
+  } catch (err) {
+    // Cursor bewaren wat we wel deden, zodat de volgende run verder gaat.
+    if (full) await saveCursor(supabase, sourceId, cursor).catch(() => {});
+    await updateJobSourceStatus(supabase, sourceId, { success: false, earlyExitReason: "fatal", count: stats.new });
+    console.error(`${adapter.logPrefix} lijst-scan fataal:`, err);
+    return { success: false, error: err instanceof Error ? err.message : "Unknown error", stats, orchestrationId };
+  }
+}
+
+/** Verrijk één geclaimde vacature met detaildata en sluit de queue-rij af. */
+export async function processQueued(
+  supabase: SupabaseClient,
+  adapter: AnyScraperAdapter,
+  session: unknown,
+  sourceId: string,
+  jobPostingId: string,
+  nowIso: string
+): Promise<ProcessOutcome> {
+  const { data: row } = await supabase
+    .from("job_postings")
+    .select("external_vacancy_id, url")
+    .eq("id", jobPostingId)
+    .maybeSingle();
+  const ref = row as { external_vacancy_id?: string | null; url?: string | null } | null;
+  if (!ref?.external_vacancy_id) {
+    await finalize(supabase, jobPostingId, { status: "validation_failed", error: "geen external_vacancy_id" });
+    return "skipped_no_ref";
+  }
+
+  const result = await adapter.fetchDetail(session, { externalId: ref.external_vacancy_id, url: ref.url ?? "" });
+
+  // Vacature bestaat niet meer bij de bron -> archiveren.
+  if (result.notFound) {
+    const reason = adapter.delistReason ?? DEFAULT_DELIST_REASON;
+    await archivePosting(supabase, jobPostingId, reason, nowIso);
+    await finalize(supabase, jobPostingId, { status: "success", stats: { archived: reason } });
+    return "archived_gone";
+  }
+
+  const mapped = adapter.mapDetail(result.detail);
+
+  // Verstreken vervaldatum -> archiveren.
+  if (isExpired(mapped.expiresAt, nowIso)) {
+    await archivePosting(supabase, jobPostingId, "expired", nowIso);
+    await finalize(supabase, jobPostingId, { status: "success", stats: { archived: "expired" } });
+    return "archived_expired";
+  }
+
+  let companyId: string | null = null;
+  let matchedLayer: string | null = null;
+  let conflict: string | undefined;
+  if (mapped.employer) {
+    const match = await findOrCreateEmployer(supabase, mapped.employer, sourceId);
+    companyId = match.id;
+    matchedLayer = match.matchedLayer;
+    conflict = match.conflict;
+  }
+
+  const { error } = await supabase
+    .from("job_postings")
+    .update({
+      ...mapped.jobPatch,
+      // Geen werkgever in dit detail: een eerder gekoppeld bedrijf laten staan.
+      ...(companyId ? { company_id: companyId } : {}),
+      expires_at: mapped.expiresAt,
+      detail_scraped_at: nowIso,
+    })
+    .eq("id", jobPostingId);
+  if (error) throw new Error(`${adapter.logPrefix} job_postings verrijken faalde: ${error.message}`);
+
+  if (mapped.contact && companyId) {
+    await findOrCreateContact(supabase, companyId, mapped.contact, adapter.sourceName);
+  }
+
+  await finalize(supabase, jobPostingId, {
+    status: "success",
+    stats: { matched_layer: matchedLayer, ...(conflict ? { conflict } : {}) },
+  });
+  return "enriched";
+}
+
+export async function runDetailWorker(
+  supabase: SupabaseClient,
+  adapter: AnyScraperAdapter,
+  opts: WorkerOptions = {}
+): Promise<WorkerResult> {
+  const startTime = Date.now();
+  const sleep = opts.sleep ?? delay;
+  const timeBudgetMs = opts.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const batchSize = Math.max(1, Math.min(opts.batchSize ?? DEFAULT_BATCH_SIZE, 100));
+  const maxBatches = Math.max(1, Math.min(opts.maxBatches ?? DEFAULT_MAX_BATCHES, 1000));
+  const stats: WorkerResult["stats"] = {
+    enriched: 0,
+    archived_gone: 0,
+    archived_expired: 0,
+    skipped_no_ref: 0,
+    errors: 0,
+    reaped: 0,
+  };
+
+  const sourceId = await getOrCreateJobSource(supabase, adapter.sourceName);
+  const outOfTime = () => Date.now() - startTime > timeBudgetMs;
+
+  try {
+    // Vastgelopen processing-rijen terugzetten naar pending (watchdog).
+    stats.reaped = await reapStaleProcessing(
+      supabase,
+      sourceId,
+      opts.staleProcessingMs ?? DEFAULT_STALE_PROCESSING_MS
+    );
+    const session = await adapter.createSession();
+
+    for (let batch = 0; batch < maxBatches && !outOfTime(); batch++) {
+      const claimed = await claimBatch(supabase, sourceId, opts.orchestrationId ?? null, batchSize);
+      if (claimed.length === 0) break;
+
+      for (const { jobPostingId } of claimed) {
+        if (outOfTime()) break;
+        try {
+          const outcome = await processQueued(supabase, adapter, session, sourceId, jobPostingId, new Date().toISOString());
+          stats[outcome]++;
+        } catch (err) {
+          stats.errors++;
+          const message = err instanceof Error ? err.message : "Unknown error";
+          console.error(`${adapter.logPrefix} worker processQueued faalde (${jobPostingId}):`, message);
+          await finalize(supabase, jobPostingId, { status: "error", error: message.slice(0, 500) }).catch(() => {});
+        }
+        await sleep(adapter.detailDelayMs?.() ?? 0);
+      }
+    }
+
+    await updateJobSourceStatus(supabase, sourceId, { success: true, count: stats.enriched });
+    console.log(
+      `${adapter.logPrefix} worker klaar: enriched=${stats.enriched} gone=${stats.archived_gone} expired=${stats.archived_expired} errors=${stats.errors}`
+    );
+    return { success: true, stats };
+  } catch (err) {
+    await updateJobSourceStatus(supabase, sourceId, { success: false, earlyExitReason: "fatal", count: stats.enriched });
+    console.error(`${adapter.logPrefix} worker fataal:`, err);
+    return { success: false, error: err instanceof Error ? err.message : "Unknown error", stats };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Pass-state per adapter-bron voor de volledige-pass scan.
+ * Eén rij per source_id in scrape_scan_state: cursor + pass-grenzen. Een volledige
+ * pass loopt over meerdere cron-runs (cursor); na voltooiing draait de delisting-sweep.
+ * Zelfde model als werk_nl_scan_state (ADR 0002), maar generiek op source_id.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface SourceScanState {
+  source_id: string;
+  pass_cursor: number;
+  pass_started_at: string | null;
+  pass_completed_at: string | null;
+}
+
+/** Pure beslissing: moet er een nieuwe volledige pass starten? */
+export function isPassDue(state: SourceScanState, nowMs: number, staleDays: number): boolean {
+  if (state.pass_cursor !== 0) return false; // pass loopt al
+  if (!state.pass_completed_at) return true; // nooit eerder voltooid
+  return nowMs - Date.parse(state.pass_completed_at) >= staleDays * 86_400_000;
+}
+
+/** Leest de pass-state; een bron zonder rij start idle (cursor 0, nooit voltooid). */
+export async function getScanState(supabase: SupabaseClient, sourceId: string): Promise<SourceScanState> {
+  const { data, error } = await supabase
+    .from("scrape_scan_state")
+    .select("source_id, pass_cursor, pass_started_at, pass_completed_at")
+    .eq("source_id", sourceId)
+    .maybeSingle();
+  if (error) throw new Error(`[scan-state] lezen faalde: ${error.message}`);
+  return (
+    (data as SourceScanState | null) ?? {
+      source_id: sourceId,
+      pass_cursor: 0,
+      pass_started_at: null,
+      pass_completed_at: null,
+    }
+  );
+}
+
+async function write(supabase: SupabaseClient, sourceId: string, patch: Partial<SourceScanState>): Promise<void> {
+  const { error } = await supabase
+    .from("scrape_scan_state")
+    .upsert({ source_id: sourceId, ...patch }, { onConflict: "source_id" });
+  if (error) throw new Error(`[scan-state] schrijven faalde: ${error.message}`);
+}
+
+/** Start een nieuwe pass: cursor naar 1, pass_started_at = now, completed reset. */
+export function startPass(supabase: SupabaseClient, sourceId: string, nowIso: string): Promise<void> {
+  return write(supabase, sourceId, { pass_cursor: 1, pass_started_at: nowIso, pass_completed_at: null });
+}
+
+/** Persisteer de huidige cursor (voortgang voor de volgende run). */
+export function saveCursor(supabase: SupabaseClient, sourceId: string, cursor: number): Promise<void> {
+  return write(supabase, sourceId, { pass_cursor: cursor });
+}
+
+/** Rond de pass af: cursor naar 0 (idle), pass_completed_at = now. */
+export function completePass(supabase: SupabaseClient, sourceId: string, nowIso: string): Promise<void> {
+  return write(supabase, sourceId, { pass_cursor: 0, pass_completed_at: nowIso });
+}
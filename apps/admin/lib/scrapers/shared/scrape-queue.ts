@@ -0,0 +1,100 @@
+/**
+ * Generieke detail-queue voor adapter-scrapers.
+ * enqueue (vanuit lijst-scan) -> claimBatch (worker, via RPC) -> finalize.
+ *
+ * Eén tabel `scrape_queue` voor alle adapter-bronnen, gescheiden op source_id.
+ * Zelfde model als werk_nl_scrape_queue (ADR 0001): PK = job_posting_id, atomic
+ * claim via `scrape_claim_batch` (FOR UPDATE SKIP LOCKED).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type FinalizeStatus = "success" | "error" | "validation_failed";
+
+export interface ClaimedItem {
+  jobPostingId: string;
+  attempts: number;
+}
+
+const ENQUEUE_CHUNK_SIZE = 500;
+
+/** Enqueue job_posting_ids als pending. Bestaande rijen blijven ongemoeid. */
+export async function enqueue(
+  supabase: SupabaseClient,
+  sourceId: string,
+  jobPostingIds: string[],
+  orchestrationId: string
+): Promise<number> {
+  if (jobPostingIds.length === 0) return 0;
+  const rows = jobPostingIds.map((id) => ({
+    job_posting_id: id,
+    source_id: sourceId,
+    orchestration_id: orchestrationId,
+    status: "pending",
+  }));
+  for (let i = 0; i < rows.length; i += ENQUEUE_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + ENQUEUE_CHUNK_SIZE);
+    const { error } = await supabase
+      .from("scrape_queue")
+      .upsert(chunk, { onConflict: "job_posting_id", ignoreDuplicates: true });
+    if (error) throw new Error(`[scrape-queue] enqueue faalde: ${error.message}`);
+  }
+  return rows.length;
+}
+
+/**
+ * Atomic claim van N pending rijen van één bron.
+ * `orchestrationId = null` claimt orchestratie-agnostisch (cron-worker drain-modus).
+ */
+export async function claimBatch(
+  supabase: SupabaseClient,
+  sourceId: string,
+  orchestrationId: string | null,
+  batchSize: number
+): Promise<ClaimedItem[]> {
+  const { data, error } = await supabase.rpc("scrape_claim_batch", {
+    p_source_id: sourceId,
+    p_orchestration_id: orchestrationId,
+    p_batch_size: batchSize,
+  });
+  if (error) throw new Error(`[scrape-queue] claimBatch faalde: ${error.message}`);
+  return (data ?? []).map((row: { job_posting_id: string; attempts: number }) => ({
+    jobPostingId: row.job_posting_id,
+    attempts: row.attempts,
+  }));
+}
+
+/** Reset 'processing'-rijen van een bron die langer dan staleAfterMs vastzitten. */
+export async function reapStaleProcessing(
+  supabase: SupabaseClient,
+  sourceId: string,
+  staleAfterMs: number
+): Promise<number> {
+  const cutoff = new Date(Date.now() - staleAfterMs).toISOString();
+  const { count, error } = await supabase
+    .from("scrape_queue")
+    .update({ status: "pending", picked_at: null }, { count: "exact" })
+    .eq("source_id", sourceId)
+    .eq("status", "processing")
+    .lt("picked_at", cutoff);
+  if (error) throw new Error(`[scrape-queue] reapStaleProcessing faalde: ${error.message}`);
+  return count ?? 0;
+}
+
+/** Sluit een queue-rij af. */
+export async function finalize(
+  supabase: SupabaseClient,
+  jobPostingId: string,
+  outcome: { status: FinalizeStatus; error?: string; stats?: Record<string, unknown> }
+): Promise<void> {
+  const { error } = await supabase
+    .from("scrape_queue")
+    .update({
+      status: outcome.status,
+      completed_at: new Date().toISOString(),
+      error_message: outcome.error ?? null,
+      result_stats: outcome.stats ?? null,
+    })
+    .eq("job_posting_id", jobPostingId);
+  if (error) throw new Error(`[scrape-queue] finalize faalde: ${error.message}`);
+}
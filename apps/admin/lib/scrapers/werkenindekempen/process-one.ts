@@ -18,6 +18,7 @@ import { parseDetailHtml } from "./detail-parser";
 import { extractFromDescription, emptyMistralResult } from "./ai-parser";
 import { findOrCreateCompanyThreeLayer } from "./dedup";
 import * as N from "./normalizers";
+import { salaryColumns } from "@/lib/services/salary-normalization/normalize";
 import type { MistralResult } from "./types";
 
 export type ProcessOutcome =
@@ -77,6 +78,12 @@ export async function processOne(
   const country = N.normalizeCountry(jp.jobLocation.address.addressCountry ?? null);
   const employment = N.normalizeEmploymentType(jp.employmentType);
   const salary = N.parseSalary(jp.baseSalary);
+  const salaryCols = salaryColumns(salary.displayLabel, {
+    min: salary.min,
+    max: salary.max,
+    unit: salary.period,
+    currency: salary.currency,
+  });
   const postalCode = N.normalizePostalCode(jp.jobLocation.address.postalCode ?? null);
   const publishedAt = N.parsePublishedAt(jp.datePosted);
   const endDate = jp.validThrough ? jp.validThrough.slice(0, 10) : null;
@@ -139,6 +146,7 @@ export async function processOne(
           title: jp.title,
           description: jp.description,
           salary: salary.displayLabel,
+          ...salaryCols,
           employment: employment.label,
           job_type: employment.labels,
           content_hash: contentHash,
@@ -191,6 +199,7 @@ export async function processOne(
     job_type: employment.labels,
     employment: employment.label,
     salary: salary.displayLabel,
+    ...salaryCols,
     published_at: publishedAt,
     end_date: endDate,
     scraped_at: now,
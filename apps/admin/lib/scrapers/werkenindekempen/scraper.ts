@@ -33,6 +33,7 @@ import { extractFromDescription, emptyMistralResult } from "./ai-parser";
 import { findOrCreateCompanyThreeLayer } from "./dedup";
 import { refreshLastSeen, archiveDelisted } from "./delisted";
 import * as N from "./normalizers";
+import { salaryColumns } from "@/lib/services/salary-normalization/normalize";
 import {
   DEFAULT_CONFIG,
   EMPTY_STATS,
@@ -105,6 +106,12 @@ export async function scrapeWerkenindekempen(
       const country = N.normalizeCountry(jp.jobLocation.address.addressCountry ?? null);
       const employment = N.normalizeEmploymentType(jp.employmentType);
       const salary = N.parseSalary(jp.baseSalary);
+      const salaryCols = salaryColumns(salary.displayLabel, {
+        min: salary.min,
+        max: salary.max,
+        unit: salary.period,
+        currency: salary.currency,
+      });
       const postalCode = N.normalizePostalCode(jp.jobLocation.address.postalCode ?? null);
       const publishedAt = N.parsePublishedAt(jp.datePosted);
       const endDate = jp.validThrough ? jp.validThrough.slice(0, 10) : null;
@@ -170,6 +177,7 @@ export async function scrapeWerkenindekempen(
               title: jp.title,
               description: jp.description,
               salary: salary.displayLabel,
+              ...salaryCols,
               employment: employment.label,
               job_type: employment.labels,
               content_hash: contentHash,
@@ -208,6 +216,7 @@ export async function scrapeWerkenindekempen(
           job_type: employment.labels,
           employment: employment.label,
           salary: salary.displayLabel,
+          ...salaryCols,
           published_at: publishedAt,
           // created_at: weggelaten → DB default now() = wanneer WIJ het record aanmaakten.
           // published_at houdt bron-publicatiedatum (datePosted uit JSON-LD).
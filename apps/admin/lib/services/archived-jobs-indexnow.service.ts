@@ -0,0 +1,122 @@
+/**
+ * IndexNow-ping voor gearchiveerde vacatures.
+ *
+ * Archiveren gebeurt in bulk (werk.nl `archiveNotSeenSince`, cron
+ * `auto-archive-old`, pakket-verloop) en niet via de admin-routes die al
+ * pingen. Zonder ping blijven zoekmachines de oude detailpagina tonen tot
+ * hun volgende crawl. De publieke sites tonen een gearchiveerde vacature eerst
+ * als "niet meer beschikbaar"-pagina en geven na de grace-periode 410; we
+ * pingen op beide momenten zodat de index het oppikt.
+ *
+ * Best-effort: gooit nooit, net als `submitToIndexNow`.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  buildVacatureUrlList,
+  resolvePlatformHost,
+  submitToIndexNow,
+} from "@/lib/services/indexnow.service"
+
+const DEFAULT_GRACE_DAYS = 30
+/** Bovengrens per run; meer dan dit komt niet voor na één sweep. */
+const MAX_JOBS = 10_000
+
+/**
+ * Grace-periode van gearchiveerde vacatures op de publieke sites. Zelfde
+ * env-var als public-sites (`src/lib/job-archive.ts`), zelfde default.
+ */
+export function archiveGraceDays(): number {
+  const raw = process.env.ARCHIVED_JOB_GRACE_DAYS?.trim()
+  const days = raw ? Number(raw) : NaN
+  return Number.isFinite(days) && days >= 0 ? Math.floor(days) : DEFAULT_GRACE_DAYS
+}
+
+export interface ArchivedPingResult {
+  jobs: number
+  platforms: number
+  submitted: number
+  error?: string
+}
+
+/**
+ * Pingt de detail-URL's van vacatures die in `[fromIso, toIso]` gearchiveerd
+ * zijn, gegroepeerd per portaal. Alleen vacatures die publiek stonden
+ * (approved + gepubliceerd) hebben een pagina om te melden.
+ */
+export async function pingArchivedJobs(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, "public", any>,
+  fromIso: string,
+  toIso: string,
+): Promise<ArchivedPingResult> {
+  try {
+    const { data: jobs, error } = await supabase
+      .from("job_postings")
+      .select("slug, platform_id")
+      .gte("archived_at", fromIso)
+      .lte("archived_at", toIso)
+      .eq("review_status", "approved")
+      .not("published_at", "is", null)
+      .not("slug", "is", null)
+      .not("platform_id", "is", null)
+      .limit(MAX_JOBS)
+    if (error) return { jobs: 0, platforms: 0, submitted: 0, error: error.message }
+
+    const slugsByPlatform = new Map<string, string[]>()
+    for (const job of (jobs ?? []) as { slug: string; platform_id: string }[]) {
+      const list = slugsByPlatform.get(job.platform_id) ?? []
+      list.push(job.slug)
+      slugsByPlatform.set(job.platform_id, list)
+    }
+    if (slugsByPlatform.size === 0) return { jobs: 0, platforms: 0, submitted: 0 }
+
+    const { data: platforms, error: platformError } = await supabase
+      .from("platforms")
+      .select("id, domain, preview_domain, indexnow_key")
+      .in("id", Array.from(slugsByPlatform.keys()))
+    if (platformError) {
+      return { jobs: jobs?.length ?? 0, platforms: 0, submitted: 0, error: platformError.message }
+    }
+
+    let submitted = 0
+    let pinged = 0
+    for (const platform of (platforms ?? []) as {
+      id: string
+      domain: string | null
+      preview_domain: string | null
+      indexnow_key: string | null
+    }[]) {
+      const host = resolvePlatformHost(platform)
+      if (!host || !platform.indexnow_key) continue
+      const result = await submitToIndexNow({
+        host,
+        key: platform.indexnow_key,
+        urlList: buildVacatureUrlList(host, slugsByPlatform.get(platform.id) ?? []),
+      })
+      if (result.ok) {
+        pinged++
+        submitted += result.submitted ?? 0
+      }
+    }
+
+    return { jobs: jobs?.length ?? 0, platforms: pinged, submitted }
+  } catch (err) {
+    return { jobs: 0, platforms: 0, submitted: 0, error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+/**
+ * Venster van vacatures waarvan de grace-periode in de afgelopen `windowMs`
+ * verstreek (de pagina geeft sinds kort 410). Voor de dagelijkse cron.
+ */
+export function graceEndedWindow(
+  now: Date = new Date(),
+  windowMs: number = 86_400_000,
+): { fromIso: string; toIso: string } {
+  const graceMs = archiveGraceDays() * 86_400_000
+  return {
+    fromIso: new Date(now.getTime() - graceMs - windowMs).toISOString(),
+    toIso: new Date(now.getTime() - graceMs).toISOString(),
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Importeert vacatures van approved career-page-bronnen die op een bekend ATS draaien.
+ *
+ * Per bron (job_sources kind='company_career_page'):
+ *   1. ATS + slug bepalen via detectAts op de bron-URL
+ *   2. publieke feed ophalen en normaliseren (feeds.ts)
+ *   3. per vacature upsert in job_postings op (source_id, external_vacancy_id);
+ *      een rij die de career-page-flow al op (company_id, url) aanmaakte wordt geadopteerd
+ *   4. last_seen_in_sitemap verversen; daarna delisting-sweep voor alles van deze bron
+ *      dat niet meer in de (volledige) feed stond. Staat een door die sweep
+ *      gearchiveerde vacature later weer in de feed, dan wordt hij weer actief
+ *
+ * Beschrijving komt uit de feed, dus needs_detail_scrape blijft uit: de generieke
+ * career-page-detail cron hoeft deze rijen niet meer op te halen.
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { detectAts, type AtsType } from '@/lib/services/sales-leads/ats-detect'
+import { archiveNotSeenSince } from '@/lib/scrapers/shared/delisting'
+import { ATS_FEEDS, type AtsJob } from './feeds'
+
+export const ATS_DELIST_REASON = 'not_in_ats_feed'
+
+const FETCH_TIMEOUT_MS = 20_000
+const USER_AGENT = 'Mozilla/5.0 (compatible; LokaleBanenBot/1.0; +https://lokalebanen.nl)'
+
+export interface AtsSource {
+  id: string
+  company_id: string | null
+  url: string | null
+  ats_type: string | null
+}
+
+export interface AtsImportResult {
+  source_id: string
+  ats_type: AtsType
+  slug: string
+  fetched: number
+  inserted: number
+  updated: number
+  adopted: number
+  unchanged: number
+  archived: number
+}
+
+export class AtsImportError extends Error {
+  constructor(message: string, public readonly sourceId: string) {
+    super(message)
+    this.name = 'AtsImportError'
+  }
+}
+
+/** ATS-type + slug voor een bron. Zonder slug (bv. Greenhouse embed zonder ?for=) geen import. */
+export function resolveAtsSlug(source: Pick<AtsSource, 'url'>): { type: AtsType; slug: string } | null {
+  if (!source.url) return null
+  const match = detectAts(source.url)
+  if (!match?.slug) return null
+  return { type: match.type, slug: match.slug.toLowerCase() }
+}
+
+/** Stabiele hash over de velden die we uit de feed overnemen; wijzigt als de vacature inhoudelijk wijzigt. */
+export function atsContentHash(job: AtsJob): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        job.title,
+        job.url,
+        job.descriptionHtml,
+        job.city,
+        job.postalCode,
+        job.employment,
+        job.hoursMin,
+        job.hoursMax,
+      ]),
+    )
+    .digest('hex')
+}
+
+export async function fetchAtsJobs(
+  type: AtsType,
+  slug: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<AtsJob[]> {
+  const feed = ATS_FEEDS[type]
+  const res = await fetchImpl(feed.url(slug), {
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: feed.format === 'json' ? 'application/json' : 'application/xml, text/xml',
+    },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  })
+  if (!res.ok) throw new Error(`${type} feed HTTP ${res.status} (${slug})`)
+  return feed.parse(await res.text(), slug)
+}
+
+function jobFields(job: AtsJob, hash: string, nowIso: string): Record<string, unknown> {
+  return {
+    title: job.title,
+    url: job.url,
+    description: job.descriptionHtml,
+    city: job.city,
+    // location = city: de geocoding-cron pakt alleen rijen met location op.
+    location: job.city,
+    zipcode: job.postalCode,
+    country: job.country,
+    employment: job.employment,
+    working_hours_min: job.hoursMin,
+    working_hours_max: job.hoursMax,
+    content_hash: hash,
+    last_seen_in_sitemap: nowIso,
+    detail_scraped_at: nowIso,
+    needs_detail_scrape: false,
+    updated_at: nowIso,
+  }
+}
+
+type UpsertOutcome = 'inserted' | 'updated' | 'adopted' | 'unchanged'
+
+async function upsertAtsJob(
+  supabase: SupabaseClient,
+  source: AtsSource,
+  job: AtsJob,
+  nowIso: string,
+): Promise<UpsertOutcome> {
+  const hash = atsContentHash(job)
+
+  const { data: existing, error: selErr } = await supabase
+    .from('job_postings')
+    .select('id, content_hash, archived_reason')
+    .eq('source_id', source.id)
+    .eq('external_vacancy_id', job.externalId)
+    .maybeSingle()
+  if (selErr) throw new Error(`select job_posting: ${selErr.message}`)
+
+  if (existing) {
+    // Alleen onze eigen delisting terugdraaien; handmatig of om een andere reden
+    // gearchiveerd blijft gearchiveerd.
+    const relisted = existing.archived_reason === ATS_DELIST_REASON
+    const unchanged = existing.content_hash === hash && !relisted
+    const patch: Record<string, unknown> =
+      existing.content_hash === hash ? { last_seen_in_sitemap: nowIso } : jobFields(job, hash, nowIso)
+    if (relisted) Object.assign(patch, { archived_at: null, archived_reason: null, status: 'active' })
+    const { error } = await supabase.from('job_postings').update(patch).eq('id', existing.id)
+    if (error) throw new Error(`update job_posting: ${error.message}`)
+    return unchanged ? 'unchanged' : 'updated'
+  }
+
+  // Door de career-page-flow al aangemaakt (dedupe op company_id + url)? Dan adopteren.
+  if (source.company_id) {
+    const { data: linked } = await supabase
+      .from('job_postings')
+      .select('id')
+      .eq('company_id', source.company_id)
+      .eq('url', job.url)
+      .maybeSingle()
+    if (linked) {
+      const { error } = await supabase
+        .from('job_postings')
+        .update({ ...jobFields(job, hash, nowIso), source_id: source.id, external_vacancy_id: job.externalId })
+        .eq('id', linked.id)
+      if (error) throw new Error(`adopt job_posting: ${error.message}`)
+      return 'adopted'
+    }
+  }
+
+  const { error } = await supabase.from('job_postings').insert({
+    ...jobFields(job, hash, nowIso),
+    company_id: source.company_id,
+    source_id: source.id,
+    external_vacancy_id: job.externalId,
+    published_at: job.publishedAt ?? nowIso,
+    scraped_at: nowIso,
+    created_at: nowIso,
+    status: 'new',
+    review_status: 'pending',
+  })
+  if (error) throw new Error(`insert job_posting: ${error.message}`)
+  return 'inserted'
+}
+
+/**
+ * Importeert één bron. Throwt AtsImportError als de bron geen bruikbare ATS-slug heeft
+ * of de feed niet op te halen of niet in de verwachte vorm is; in dat geval wordt er
+ * NIETS gearchiveerd. Een lege lijst is dus een gevalideerde lege feed.
+ */
+export async function importAtsSource(
+  supabase: SupabaseClient,
+  source: AtsSource,
+  opts: { fetchImpl?: typeof fetch; nowIso?: string } = {},
+): Promise<AtsImportResult> {
+  const ats = resolveAtsSlug(source)
+  if (!ats) throw new AtsImportError('Geen ATS-slug af te leiden uit de bron-URL', source.id)
+
+  const nowIso = opts.nowIso ?? new Date().toISOString()
+  let jobs: AtsJob[]
+  try {
+    jobs = await fetchAtsJobs(ats.type, ats.slug, opts.fetchImpl)
+  } catch (e) {
+    throw new AtsImportError(e instanceof Error ? e.message : String(e), source.id)
+  }
+
+  const result: AtsImportResult = {
+    source_id: source.id,
+    ats_type: ats.type,
+    slug: ats.slug,
+    fetched: jobs.length,
+    inserted: 0,
+    updated: 0,
+    adopted: 0,
+    unchanged: 0,
+    archived: 0,
+  }
+
+  // Dubbele ids binnen één feed (komt voor bij multi-location postings) één keer verwerken.
+  const seen = new Set<string>()
+  for (const job of jobs) {
+    if (seen.has(job.externalId)) continue
+    seen.add(job.externalId)
+    const outcome = await upsertAtsJob(supabase, source, job, nowIso)
+    result[outcome]++
+  }
+
+  // Feed is volledig en succesvol opgehaald: alles van deze bron dat niet ververst is, is offline.
+  result.archived = await archiveNotSeenSince(supabase, source.id, nowIso, nowIso, ATS_DELIST_REASON)
+  return result
+}
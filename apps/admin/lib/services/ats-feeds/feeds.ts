@@ -0,0 +1,313 @@
+/**
+ * Publieke job-feeds per ATS-platform, genormaliseerd naar AtsJob.
+ *
+ * Alle feeds zijn publiek en per slug (zie detectAts in sales-leads/ats-detect.ts):
+ *   - Greenhouse: boards-api JSON (content=true voor de beschrijving)
+ *   - Recruitee:  /api/offers JSON
+ *   - Lever:      api.lever.co postings JSON
+ *   - Workable:   widget-API JSON (details=true)
+ *   - Teamtailor: jobs.rss (RSS met tt:-namespace voor locaties)
+ *   - Personio:   /xml (workzag-jobs XML)
+ *
+ * Een feed is een VOLLEDIGE lijst van open vacatures. Dat maakt delisting veilig:
+ * wat niet meer in een succesvol opgehaalde feed staat, is offline.
+ * Parsers zijn tolerant: een item zonder id/titel/url wordt overgeslagen.
+ * De feed-vorm zelf is strikt: een body zonder de verwachte container (HTML-foutpagina,
+ * ontbrekende jobs-key) throwt, zodat een lege lijst altijd een gevalideerde lege feed is.
+ */
+
+import * as cheerio from 'cheerio'
+import type { AtsType } from '@/lib/services/sales-leads/ats-detect'
+
+export interface AtsJob {
+  /** Stabiele id binnen de ATS-account, opgeslagen als external_vacancy_id. */
+  externalId: string
+  title: string
+  url: string
+  descriptionHtml: string | null
+  city: string | null
+  postalCode: string | null
+  country: string | null
+  employment: string | null
+  hoursMin: number | null
+  hoursMax: number | null
+  publishedAt: string | null
+}
+
+export interface AtsFeed {
+  format: 'json' | 'xml'
+  url(slug: string): string
+  parse(body: string, slug: string): AtsJob[]
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function str(value: unknown): string | null {
+  if (typeof value === 'number') return String(value)
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed ? trimmed : null
+}
+
+function num(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value
+  return typeof n === 'number' && Number.isFinite(n) ? n : null
+}
+
+/** ISO-datum of null. Accepteert ISO, RFC-822 (RSS), epoch-ms en "YYYY-MM-DD HH:mm:ss UTC". */
+export function toIsoDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null
+  const input = typeof value === 'string' ? value.replace(/ UTC$/, 'Z').replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T') : value
+  const date = new Date(input as string | number)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/** "fulltime" / "Full-time" / "full_time" -> "Fulltime"; idem parttime. Overige labels ongewijzigd. */
+export function normalizeEmployment(raw: string | null | undefined): string | null {
+  const value = str(raw)
+  if (!value) return null
+  const key = value.toLowerCase().replace(/[\s_-]/g, '')
+  if (key === 'fulltime') return 'Fulltime'
+  if (key === 'parttime') return 'Parttime'
+  if (key === 'internship' || key === 'stage') return 'Stage'
+  if (key === 'temporary' || key === 'contract') return 'Tijdelijk'
+  if (key === 'freelance') return 'Freelance'
+  return value
+}
+
+/** Eerste segment van "Eindhoven, Netherlands" -> "Eindhoven". */
+function cityFromLocation(location: string | null): string | null {
+  if (!location) return null
+  return str(location.split(/[,;|]/)[0])
+}
+
+function decodeEntities(html: string): string {
+  return cheerio.load(`<textarea>${html}</textarea>`)('textarea').text()
+}
+
+function shapeError(ats: AtsType): Error {
+  return new Error(`ATS-feed (${ats}) heeft niet de verwachte vorm`)
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body)
+  } catch {
+    throw new Error('ATS-feed is geen geldige JSON')
+  }
+}
+
+// ─── Feeds ──────────────────────────────────────────────────────────
+
+const greenhouse: AtsFeed = {
+  format: 'json',
+  url: (slug) => `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(slug)}/jobs?content=true`,
+  parse(body) {
+    const raw = parseJson(body) as { jobs?: Array<Record<string, unknown>> } | null
+    if (!Array.isArray(raw?.jobs)) throw shapeError('greenhouse')
+    const jobs: AtsJob[] = []
+    for (const j of raw.jobs) {
+      const id = str(j.id)
+      const title = str(j.title)
+      const url = str(j.absolute_url)
+      if (!id || !title || !url) continue
+      const content = str(j.content)
+      jobs.push({
+        externalId: id,
+        title,
+        url,
+        // Greenhouse levert de content HTML-escaped aan.
+        descriptionHtml: content ? decodeEntities(content) : null,
+        city: cityFromLocation(str((j.location as { name?: unknown } | undefined)?.name)),
+        postalCode: null,
+        country: null,
+        employment: null,
+        hoursMin: null,
+        hoursMax: null,
+        publishedAt: toIsoDate(j.first_published ?? j.updated_at),
+      })
+    }
+    return jobs
+  },
+}
+
+const recruitee: AtsFeed = {
+  format: 'json',
+  url: (slug) => `https://${slug}.recruitee.com/api/offers/`,
+  parse(body) {
+    const raw = parseJson(body) as { offers?: Array<Record<string, unknown>> } | null
+    if (!Array.isArray(raw?.offers)) throw shapeError('recruitee')
+    const jobs: AtsJob[] = []
+    for (const o of raw.offers) {
+      if (o.status && o.status !== 'published') continue
+      const id = str(o.id)
+      const title = str(o.title)
+      const url = str(o.careers_url)
+      if (!id || !title || !url) continue
+      const description = [str(o.description), str(o.requirements)].filter(Boolean).join('\n')
+      jobs.push({
+        externalId: id,
+        title,
+        url,
+        descriptionHtml: description || null,
+        city: str(o.city),
+        postalCode: str(o.postal_code),
+        country: str(o.country_code),
+        employment: normalizeEmployment(str(o.employment_type_code)),
+        hoursMin: num(o.min_hours),
+        hoursMax: num(o.max_hours),
+        publishedAt: toIsoDate(o.published_at),
+      })
+    }
+    return jobs
+  },
+}
+
+const lever: AtsFeed = {
+  format: 'json',
+  url: (slug) => `https://api.lever.co/v0/postings/${encodeURIComponent(slug)}?mode=json`,
+  parse(body) {
+    const raw = parseJson(body)
+    if (!Array.isArray(raw)) throw shapeError('lever')
+    const jobs: AtsJob[] = []
+    for (const p of raw as Array<Record<string, unknown>>) {
+      const id = str(p.id)
+      const title = str(p.text)
+      const url = str(p.hostedUrl)
+      if (!id || !title || !url) continue
+      const categories = (p.categories ?? {}) as Record<string, unknown>
+      const lists = Array.isArray(p.lists) ? (p.lists as Array<{ text?: string; content?: string }>) : []
+      const description = [
+        str(p.description),
+        ...lists.map((l) => `<h3>${l.text ?? ''}</h3><ul>${l.content ?? ''}</ul>`),
+        str(p.additional),
+      ]
+        .filter(Boolean)
+        .join('\n')
+      jobs.push({
+        externalId: id,
+        title,
+        url,
+        descriptionHtml: description || null,
+        city: cityFromLocation(str(categories.location)),
+        postalCode: null,
+        country: str(p.country),
+        employment: normalizeEmployment(str(categories.commitment)),
+        hoursMin: null,
+        hoursMax: null,
+        publishedAt: toIsoDate(p.createdAt),
+      })
+    }
+    return jobs
+  },
+}
+
+const workable: AtsFeed = {
+  format: 'json',
+  url: (slug) => `https://apply.workable.com/api/v1/widget/accounts/${encodeURIComponent(slug)}?details=true`,
+  parse(body) {
+    const raw = parseJson(body) as { jobs?: Array<Record<string, unknown>> } | null
+    if (!Array.isArray(raw?.jobs)) throw shapeError('workable')
+    const jobs: AtsJob[] = []
+    for (const j of raw.jobs) {
+      const id = str(j.shortcode)
+      const title = str(j.title)
+      const url = str(j.url) ?? str(j.shortlink)
+      if (!id || !title || !url) continue
+      jobs.push({
+        externalId: id,
+        title,
+        url,
+        descriptionHtml: str(j.description),
+        city: str(j.city),
+        postalCode: str(j.zip_code),
+        country: str(j.country),
+        employment: normalizeEmployment(str(j.employment_type)),
+        hoursMin: null,
+        hoursMax: null,
+        publishedAt: toIsoDate(j.published_on ?? j.created_at),
+      })
+    }
+    return jobs
+  },
+}
+
+const teamtailor: AtsFeed = {
+  format: 'xml',
+  url: (slug) => `https://${slug}.teamtailor.com/jobs.rss`,
+  parse(body) {
+    const $ = cheerio.load(body, { xmlMode: true })
+    if ($('rss > channel').length === 0) throw shapeError('teamtailor')
+    const jobs: AtsJob[] = []
+    $('item').each((_, el) => {
+      const item = $(el)
+      const url = str(item.children('link').text())
+      const title = str(item.children('title').text())
+      const id = url?.match(/\/jobs\/(\d+)/)?.[1] ?? str(item.children('guid').text())
+      if (!id || !title || !url) return
+      const location = item.find('tt\\:location').first()
+      jobs.push({
+        externalId: id,
+        title,
+        url,
+        descriptionHtml: str(item.children('description').text()),
+        city: str(location.find('tt\\:city').text()),
+        postalCode: str(location.find('tt\\:zip').text()),
+        country: str(location.find('tt\\:country').text()),
+        employment: null,
+        hoursMin: null,
+        hoursMax: null,
+        publishedAt: toIsoDate(str(item.children('pubDate').text())),
+      })
+    })
+    return jobs
+  },
+}
+
+const personio: AtsFeed = {
+  format: 'xml',
+  url: (slug) => `https://${slug}.jobs.personio.de/xml`,
+  parse(body, slug) {
+    const $ = cheerio.load(body, { xmlMode: true })
+    if ($('workzag-jobs').length === 0) throw shapeError('personio')
+    const jobs: AtsJob[] = []
+    $('position').each((_, el) => {
+      const pos = $(el)
+      const id = str(pos.children('id').text())
+      const title = str(pos.children('name').text())
+      if (!id || !title) return
+      const description = pos
+        .find('jobDescription')
+        .map((__, d) => {
+          const heading = str($(d).children('name').text())
+          const value = $(d).children('value').text()
+          return `${heading ? `<h3>${heading}</h3>` : ''}${value}`
+        })
+        .get()
+        .join('\n')
+      jobs.push({
+        externalId: id,
+        title,
+        url: `https://${slug}.jobs.personio.de/job/${id}`,
+        descriptionHtml: description || null,
+        city: str(pos.children('office').text()),
+        postalCode: null,
+        country: null,
+        employment: normalizeEmployment(str(pos.children('schedule').text())),
+        hoursMin: null,
+        hoursMax: null,
+        publishedAt: toIsoDate(str(pos.children('createdAt').text())),
+      })
+    })
+    return jobs
+  },
+}
+
+export const ATS_FEEDS: Record<AtsType, AtsFeed> = {
+  greenhouse,
+  recruitee,
+  lever,
+  workable,
+  teamtailor,
+  personio,
+}
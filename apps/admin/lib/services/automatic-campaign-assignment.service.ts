@@ -15,6 +15,8 @@
 import { createServiceRoleClient } from '@/lib/supabase-server'
 import { instantlyClient } from '@/lib/instantly-client'
 import { pipedriveClient, STATUS_PROSPECT_OPTIONS } from '@/lib/pipedrive-client'
+import { loadHiringIntensityScores } from '@/lib/services/hiring-intensity/intensity.service'
+import { selectByHiringIntensity } from '@/lib/services/hiring-intensity/score'
 
 // ============================================================================
 // TYPES
@@ -104,6 +106,8 @@ export interface CampaignAssignmentSettings {
   max_per_platform: number
   is_enabled: boolean
   delay_between_contacts_ms: number
+  /** Only assign contacts of companies with at least this hiring intensity (null = no filter) */
+  min_hiring_intensity: number | null
   updated_at: string
   updated_by: string | null
 }
@@ -127,6 +131,10 @@ const DEFAULT_MAX_TOTAL = 500
 const DEFAULT_MAX_PER_PLATFORM = 30
 const DEFAULT_DELAY_BETWEEN_CONTACTS_MS = 500 // n8n uses 0.5 seconds
 
+// With a hiring-intensity filter, fetch this many times the caps and filter afterwards
+// (the candidates RPC has no intensity parameter)
+const HIRING_INTENSITY_OVERFETCH = 3
+
 // Chunk size for Vercel function timeout (60-300s)
 // With ~6s per contact, 25 contacts = ~150s processing time (safe margin)
 const DEFAULT_CHUNK_SIZE = 25
@@ -290,12 +298,13 @@ export class AutomaticCampaignAssignmentService {
           max_per_platform: DEFAULT_MAX_PER_PLATFORM,
           is_enabled: true,
           delay_between_contacts_ms: DEFAULT_DELAY_BETWEEN_CONTACTS_MS,
+          min_hiring_intensity: null,
           updated_at: new Date().toISOString(),
           updated_by: null
         }
       }
 
-      return data as CampaignAssignmentSettings
+      return { min_hiring_intensity: null, ...data } as CampaignAssignmentSettings
     } catch (error) {
       console.error('Error fetching settings:', error)
       return {
@@ -304,6 +313,7 @@ export class AutomaticCampaignAssignmentService {
         max_per_platform: DEFAULT_MAX_PER_PLATFORM,
         is_enabled: true,
         delay_between_contacts_ms: DEFAULT_DELAY_BETWEEN_CONTACTS_MS,
+        min_hiring_intensity: null,
         updated_at: new Date().toISOString(),
         updated_by: null
       }
@@ -330,14 +340,40 @@ export class AutomaticCampaignAssignmentService {
   /**
    * Get candidate contacts for campaign assignment
    *
+   * Applies the min_hiring_intensity setting on top of the candidate selection:
+   * fetches HIRING_INTENSITY_OVERFETCH times the caps, keeps contacts of companies
+   * at or above the threshold and re-applies the caps.
+   */
+  async getCandidateContacts(
+    maxTotal: number = DEFAULT_MAX_TOTAL,
+    maxPerPlatform: number = DEFAULT_MAX_PER_PLATFORM
+  ): Promise<CandidateContact[]> {
+    const { min_hiring_intensity: minIntensity } = await this.getSettings()
+    if (!minIntensity) {
+      return this.fetchCandidateContacts(maxTotal, maxPerPlatform)
+    }
+
+    const pool = await this.fetchCandidateContacts(
+      maxTotal * HIRING_INTENSITY_OVERFETCH,
+      maxPerPlatform * HIRING_INTENSITY_OVERFETCH
+    )
+    const scores = await loadHiringIntensityScores(this.supabase, pool.map(c => c.company_id))
+    const candidates = selectByHiringIntensity(pool, scores, minIntensity, maxTotal, maxPerPlatform)
+    console.log(`🔥 Hiring intensity >= ${minIntensity}: ${candidates.length} of ${pool.length} candidates kept`)
+    return candidates
+  }
+
+  /**
+   * Fetch candidate contacts
+   *
    * Uses an optimized RPC function that leverages:
    * 1. A materialized view (mv_campaign_eligible_companies) for pre-filtered companies
    * 2. Composite indexes for fast lookups
    * 3. A 60-second statement timeout to prevent runaway queries
    */
-  async getCandidateContacts(
-    maxTotal: number = DEFAULT_MAX_TOTAL,
-    maxPerPlatform: number = DEFAULT_MAX_PER_PLATFORM
+  private async fetchCandidateContacts(
+    maxTotal: number,
+    maxPerPlatform: number
   ): Promise<CandidateContact[]> {
     console.log(`📋 Fetching candidate contacts (max ${maxTotal} total, ${maxPerPlatform} per platform)...`)
 
@@ -374,7 +410,7 @@ export class AutomaticCampaignAssignmentService {
 
       return candidates
     } catch (err) {
-      console.error('❌ Unexpected error in getCandidateContacts:', err)
+      console.error('❌ Unexpected error in fetchCandidateContacts:', err)
       console.log('⚠️ Falling back to direct query...')
       return this.getCandidateContactsFallback(maxTotal, maxPerPlatform)
     }
@@ -674,10 +710,23 @@ Genereer de personalisatie data in JSON format.`
   }
 
   /**
-   * Check if a company has "Klant" status in Pipedrive
+   * Check if a company has "Klant" status in Pipedrive.
+   * Uses the local mirror (companies.pipedrive_status, kept up to date by the
+   * inbound Pipedrive webhook, including the echoes of our own status writes)
+   * when available; live lookup otherwise.
    */
   async checkPipedriveKlantStatus(pipedriveOrgId: number): Promise<boolean> {
     try {
+      const { data: mirrored } = await this.supabase
+        .from('companies')
+        .select('pipedrive_status')
+        .eq('pipedrive_id', String(pipedriveOrgId))
+        .not('pipedrive_status', 'is', null)
+        .limit(1)
+      if (mirrored && mirrored.length > 0) {
+        return mirrored[0].pipedrive_status === 'Klant'
+      }
+
       const status = await pipedriveClient.getOrganizationStatusProspect(pipedriveOrgId)
       return status === KLANT_STATUS_ID
     } catch (error) {
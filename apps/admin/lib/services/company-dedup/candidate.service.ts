@@ -0,0 +1,399 @@
+/**
+ * Kandidaat-duplicaten tussen bedrijven vinden (automation company-dedup).
+ *
+ * Blocking: elk bedrijf krijgt sleutels per signaal (hoofddomein, KvK,
+ * werk.nl werkgever-id, telefoon, postcode, genormaliseerde naam). Alleen
+ * bedrijven die een sleutel delen worden vergeleken; blokken groter dan
+ * MAX_BLOCK_SIZE (bedrijfsverzamelgebouwen, generieke namen) worden
+ * overgeslagen. Het paar wordt daarna gescoord op alle signalen plus fuzzy
+ * naam (lib/fuzzy-search.ts); een verschillend KvK-nummer telt zwaar tegen.
+ *
+ * Paren vanaf CANDIDATE_THRESHOLD gaan met hun bewijs naar
+ * company_duplicate_candidates; /review/bedrijven opent daarvandaan de
+ * merge-tool (merge.service.ts).
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateScore } from '@/lib/fuzzy-search'
+
+// ─── Schemas ────────────────────────────────────────────────────────
+
+export const CANDIDATE_STATUSES = ['pending', 'rejected'] as const
+export type CandidateStatus = (typeof CANDIDATE_STATUSES)[number]
+
+export const listCandidatesSchema = z.object({
+  status: z.enum(CANDIDATE_STATUSES).default('pending'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+})
+export type ListCandidatesFilters = z.infer<typeof listCandidatesSchema>
+
+export const resolveCandidateSchema = z.object({
+  action: z.enum(['reject', 'reopen']),
+})
+export type ResolveCandidateInput = z.infer<typeof resolveCandidateSchema>
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type DedupCompany = {
+  id: string
+  name: string
+  hoofddomein: string | null
+  kvk: string | null
+  werknl_employer_id: string | null
+  phone: string | null
+  postal_code: string | null
+  city: string | null
+}
+
+export type CandidateSignal = 'hoofddomein' | 'kvk' | 'werknl_employer_id' | 'phone' | 'postal_code' | 'name'
+
+export type CandidateEvidence = Partial<Record<Exclude<CandidateSignal, 'name'>, string>> & {
+  name?: { a: string; b: string; similarity: number }
+  kvk_conflict?: { a: string; b: string }
+}
+
+export type CandidatePair = {
+  company_a_id: string
+  company_b_id: string
+  score: number
+  signals: CandidateSignal[]
+  evidence: CandidateEvidence
+}
+
+export type CandidateSyncStats = {
+  scanned: number
+  found: number
+  inserted: number
+  updated: number
+  removed: number
+}
+
+export type CandidateRow = {
+  id: string
+  company_a_id: string
+  company_b_id: string
+  score: number
+  signals: CandidateSignal[]
+  evidence: CandidateEvidence
+  status: CandidateStatus
+  created_at: string
+  updated_at: string
+  company_a: CandidateCompanySummary | null
+  company_b: CandidateCompanySummary | null
+}
+
+type CandidateCompanySummary = DedupCompany & {
+  website: string | null
+  pipedrive_id: string | null
+  job_counts: number | null
+}
+
+// ─── Scoring ────────────────────────────────────────────────────────
+
+/** Gewicht per exact signaal; naam telt als gewicht × similarity. */
+export const SIGNAL_WEIGHTS: Record<CandidateSignal, number> = {
+  kvk: 0.5,
+  werknl_employer_id: 0.45,
+  hoofddomein: 0.4,
+  phone: 0.3,
+  name: 0.35,
+  postal_code: 0.2,
+}
+export const KVK_CONFLICT_PENALTY = 0.4
+export const CANDIDATE_THRESHOLD = 0.5
+/** Naam-similarity onder deze grens telt niet mee als signaal. */
+export const NAME_MIN_SIMILARITY = 0.6
+export const MAX_BLOCK_SIZE = 50
+
+const LEGAL_FORMS = new Set(['bv', 'nv', 'vof', 'cv', 'holding', 'bvba', 'gmbh', 'ltd', 'inc'])
+
+export function normalizeCompanyName(name: string | null | undefined): string {
+  if (!name) return ''
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' en ')
+    .replace(/\b([a-z])\.(?=[a-z](\.|\b))/g, '$1') // b.v. -> bv, v.o.f. -> vof
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((t) => t && !LEGAL_FORMS.has(t))
+    .join(' ')
+}
+
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+  let digits = phone.replace(/\D/g, '')
+  if (digits.startsWith('0031')) digits = digits.slice(4)
+  else if (digits.startsWith('31') && digits.length >= 11) digits = digits.slice(2)
+  digits = digits.replace(/^0/, '')
+  return digits.length === 9 ? digits : null
+}
+
+export function normalizePostcode(postcode: string | null | undefined): string | null {
+  const pc = (postcode ?? '').toUpperCase().replace(/\s+/g, '')
+  return /^\d{4}[A-Z]{2}$/.test(pc) ? pc : null
+}
+
+export function normalizeKvk(kvk: string | null | undefined): string | null {
+  const digits = (kvk ?? '').replace(/\D/g, '')
+  return digits.length === 8 ? digits : null
+}
+
+function normalizeDomain(domain: string | null | undefined): string | null {
+  const d = (domain ?? '').trim().toLowerCase().replace(/^www\./, '')
+  return d || null
+}
+
+function sortedTokens(name: string): string {
+  return name.split(' ').sort().join(' ')
+}
+
+/**
+ * Fuzzy naam-similarity (0-1), symmetrisch en ongevoelig voor woordvolgorde
+ * ('Jansen Bakkerij' = 'Bakkerij Jansen'). Te korte namen tellen niet.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const na = normalizeCompanyName(a)
+  const nb = normalizeCompanyName(b)
+  if (na.length < 3 || nb.length < 3) return 0
+  const sa = sortedTokens(na)
+  const sb = sortedTokens(nb)
+  return Math.max(calculateScore(na, nb), calculateScore(nb, na), calculateScore(sa, sb), calculateScore(sb, sa))
+}
+
+type Normalized = {
+  hoofddomein: string | null
+  kvk: string | null
+  werknl_employer_id: string | null
+  phone: string | null
+  postal_code: string | null
+  name: string
+}
+
+function normalize(c: DedupCompany): Normalized {
+  return {
+    hoofddomein: normalizeDomain(c.hoofddomein),
+    kvk: normalizeKvk(c.kvk),
+    werknl_employer_id: c.werknl_employer_id?.trim() || null,
+    phone: normalizePhone(c.phone),
+    postal_code: normalizePostcode(c.postal_code),
+    name: normalizeCompanyName(c.name),
+  }
+}
+
+const EXACT_SIGNALS = ['kvk', 'werknl_employer_id', 'hoofddomein', 'phone', 'postal_code'] as const
+
+/** Scoort een paar; null als het onder de drempel blijft. */
+export function scoreCompanyPair(a: DedupCompany, b: DedupCompany): CandidatePair | null {
+  if (a.id === b.id) return null
+  const [first, second] = a.id < b.id ? [a, b] : [b, a]
+  const na = normalize(first)
+  const nb = normalize(second)
+
+  let score = 0
+  const signals: CandidateSignal[] = []
+  const evidence: CandidateEvidence = {}
+
+  for (const key of EXACT_SIGNALS) {
+    if (na[key] && na[key] === nb[key]) {
+      score += SIGNAL_WEIGHTS[key]
+      signals.push(key)
+      evidence[key] = na[key]!
+    }
+  }
+
+  const similarity = nameSimilarity(first.name, second.name)
+  if (similarity >= NAME_MIN_SIMILARITY) {
+    score += SIGNAL_WEIGHTS.name * similarity
+    signals.push('name')
+    evidence.name = { a: first.name, b: second.name, similarity: Math.round(similarity * 100) / 100 }
+  }
+
+  if (na.kvk && nb.kvk && na.kvk !== nb.kvk) {
+    score -= KVK_CONFLICT_PENALTY
+    evidence.kvk_conflict = { a: na.kvk, b: nb.kvk }
+  }
+
+  score = Math.min(1, Math.round(score * 1000) / 1000)
+  if (score < CANDIDATE_THRESHOLD) return null
+  return { company_a_id: first.id, company_b_id: second.id, score, signals, evidence }
+}
+
+function blockKeys(c: DedupCompany): string[] {
+  const n = normalize(c)
+  const keys: string[] = []
+  if (n.hoofddomein) keys.push(`d:${n.hoofddomein}`)
+  if (n.kvk) keys.push(`k:${n.kvk}`)
+  if (n.werknl_employer_id) keys.push(`w:${n.werknl_employer_id}`)
+  if (n.phone) keys.push(`t:${n.phone}`)
+  if (n.postal_code) keys.push(`p:${n.postal_code}`)
+  // Gesorteerde tokens: 'jansen bakkerij' en 'bakkerij jansen' vallen in hetzelfde blok.
+  if (n.name.length >= 3) keys.push(`n:${sortedTokens(n.name)}`)
+  return keys
+}
+
+/** Alle kandidaat-paren binnen een set bedrijven (puur, geen I/O). */
+export function findCandidatePairs(companies: DedupCompany[]): CandidatePair[] {
+  const blocks = new Map<string, DedupCompany[]>()
+  for (const c of companies) {
+    for (const key of blockKeys(c)) {
+      const block = blocks.get(key)
+      if (block) block.push(c)
+      else blocks.set(key, [c])
+    }
+  }
+
+  const seen = new Set<string>()
+  const pairs: CandidatePair[] = []
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [x, y] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]]
+        const key = `${x.id}|${y.id}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        const pair = scoreCompanyPair(x, y)
+        if (pair) pairs.push(pair)
+      }
+    }
+  }
+  return pairs.sort((p, q) => q.score - p.score)
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+const PAGE_SIZE = 1000
+const WRITE_CHUNK = 200
+export const DEDUP_COMPANY_SELECT = 'id, name, hoofddomein, kvk, werknl_employer_id, phone, postal_code, city'
+const SUMMARY_SELECT = `${DEDUP_COMPANY_SELECT}, website, pipedrive_id, job_counts`
+
+export async function loadDedupCompanies(sb: SupabaseClient): Promise<DedupCompany[]> {
+  const out: DedupCompany[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await sb
+      .from('companies')
+      .select(DEDUP_COMPANY_SELECT)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`company-dedup load: ${error.message}`)
+    out.push(...((data ?? []) as DedupCompany[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return out
+}
+
+/**
+ * Schrijft de gevonden paren naar de reviewqueue. Nieuw -> insert, bestaand
+ * pending -> score/bewijs bijwerken, pending dat niet meer gevonden wordt ->
+ * verwijderen. Afgewezen paren blijven ongemoeid.
+ */
+export async function syncCandidates(
+  sb: SupabaseClient,
+  pairs: CandidatePair[],
+): Promise<Omit<CandidateSyncStats, 'scanned'>> {
+  const existing = new Map<string, { id: string; status: CandidateStatus; score: number; signals: string[] }>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await sb
+      .from('company_duplicate_candidates')
+      .select('id, company_a_id, company_b_id, status, score, signals')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`company-dedup sync: ${error.message}`)
+    for (const r of data ?? []) existing.set(`${r.company_a_id}|${r.company_b_id}`, r)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const stats = { found: pairs.length, inserted: 0, updated: 0, removed: 0 }
+  const now = new Date().toISOString()
+  const toInsert: CandidatePair[] = []
+  const found = new Set<string>()
+
+  for (const pair of pairs) {
+    const key = `${pair.company_a_id}|${pair.company_b_id}`
+    found.add(key)
+    const row = existing.get(key)
+    if (!row) {
+      toInsert.push(pair)
+      continue
+    }
+    if (row.status !== 'pending') continue
+    if (row.score === pair.score && row.signals.join(',') === pair.signals.join(',')) continue
+    const { error } = await sb
+      .from('company_duplicate_candidates')
+      .update({ score: pair.score, signals: pair.signals, evidence: pair.evidence, updated_at: now })
+      .eq('id', row.id)
+    if (error) throw new Error(`company-dedup update: ${error.message}`)
+    stats.updated++
+  }
+
+  for (let i = 0; i < toInsert.length; i += WRITE_CHUNK) {
+    const chunk = toInsert.slice(i, i + WRITE_CHUNK)
+    const { error } = await sb.from('company_duplicate_candidates').insert(chunk)
+    if (error) throw new Error(`company-dedup insert: ${error.message}`)
+    stats.inserted += chunk.length
+  }
+
+  const stale = [...existing.entries()]
+    .filter(([key, r]) => r.status === 'pending' && !found.has(key))
+    .map(([, r]) => r.id)
+  for (let i = 0; i < stale.length; i += WRITE_CHUNK) {
+    const chunk = stale.slice(i, i + WRITE_CHUNK)
+    const { error } = await sb.from('company_duplicate_candidates').delete().in('id', chunk)
+    if (error) throw new Error(`company-dedup cleanup: ${error.message}`)
+    stats.removed += chunk.length
+  }
+
+  return stats
+}
+
+export async function listCandidates(
+  sb: SupabaseClient,
+  filters: ListCandidatesFilters,
+): Promise<{ rows: CandidateRow[]; total: number; page: number; pageSize: number }> {
+  const from = (filters.page - 1) * filters.pageSize
+  const { data, error, count } = await sb
+    .from('company_duplicate_candidates')
+    .select(
+      `id, company_a_id, company_b_id, score, signals, evidence, status, created_at, updated_at,
+       company_a:companies!company_duplicate_candidates_company_a_id_fkey(${SUMMARY_SELECT}),
+       company_b:companies!company_duplicate_candidates_company_b_id_fkey(${SUMMARY_SELECT})`,
+      { count: 'exact' },
+    )
+    .eq('status', filters.status)
+    .order('score', { ascending: false })
+    .range(from, from + filters.pageSize - 1)
+  if (error) throw new Error(`company-dedup list: ${error.message}`)
+  return {
+    rows: (data ?? []) as unknown as CandidateRow[],
+    total: count ?? 0,
+    page: filters.page,
+    pageSize: filters.pageSize,
+  }
+}
+
+/** reject: geen duplicaat, finder stelt het paar niet opnieuw voor. reopen: terug naar de queue. */
+export async function resolveCandidate(
+  sb: SupabaseClient,
+  id: string,
+  input: ResolveCandidateInput,
+  userId: string | null,
+): Promise<{ status: CandidateStatus }> {
+  const status: CandidateStatus = input.action === 'reject' ? 'rejected' : 'pending'
+  const { data, error } = await sb
+    .from('company_duplicate_candidates')
+    .update({
+      status,
+      reviewed_at: status === 'rejected' ? new Date().toISOString() : null,
+      reviewed_by: status === 'rejected' ? userId : null,
+    })
+    .eq('id', id)
+    .select('id')
+    .maybeSingle()
+  if (error) throw new Error(`company-dedup resolve: ${error.message}`)
+  if (!data) throw new Error('Kandidaat-paar niet gevonden')
+  return { status }
+}
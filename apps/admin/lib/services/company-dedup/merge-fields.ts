@@ -0,0 +1,94 @@
+/**
+ * Velden die bij het samenvoegen van twee bedrijven per veld gekozen worden.
+ * Puur (geen I/O), zodat de merge-dialoog dezelfde defaults toont als de
+ * service toepast.
+ *
+ * Niet in de lijst: id/created_at/slug (survivor blijft leidend) en afgeleide
+ * tellers (job_counts, instantly_total_*), die de syncs zelf herberekenen.
+ */
+
+export const MERGE_FIELDS = [
+  { key: 'name', label: 'Naam' },
+  { key: 'website', label: 'Website' },
+  { key: 'hoofddomein', label: 'Hoofddomein' },
+  { key: 'kvk', label: 'KvK-nummer' },
+  { key: 'phone', label: 'Telefoon' },
+  { key: 'street_address', label: 'Adres' },
+  { key: 'postal_code', label: 'Postcode' },
+  { key: 'city', label: 'Plaats' },
+  { key: 'country', label: 'Land' },
+  { key: 'description', label: 'Omschrijving' },
+  { key: 'logo_url', label: 'Logo' },
+  { key: 'linkedin_url', label: 'LinkedIn' },
+  { key: 'category_size', label: 'Grootte' },
+  { key: 'is_customer', label: 'Klant' },
+  { key: 'is_bemiddelaar', label: 'Bemiddelaar' },
+  { key: 'qualification_status', label: 'Kwalificatie' },
+  { key: 'pipedrive_id', label: 'Pipedrive-organisatie' },
+  { key: 'apollo_organization_id', label: 'Apollo-organisatie' },
+  { key: 'werknl_employer_id', label: 'werk.nl werkgever-id' },
+  { key: 'werkenindekempen_id', label: 'Werkenindekempen-id' },
+  { key: 'lokalebanen_id', label: 'Lokale Banen-id' },
+] as const
+
+export type MergeFieldKey = (typeof MERGE_FIELDS)[number]['key']
+export type MergeSide = 'survivor' | 'loser'
+export type MergeCompany = { id: string } & Partial<Record<MergeFieldKey, unknown>>
+
+export const MERGE_FIELD_KEYS = MERGE_FIELDS.map((f) => f.key) as [MergeFieldKey, ...MergeFieldKey[]]
+
+export function isEmptyValue(v: unknown): boolean {
+  return v === null || v === undefined || (typeof v === 'string' && v.trim() === '')
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/** Default per veld: survivor, tenzij die leeg is en de loser niet. Klant/bemiddelaar: true wint. */
+export function defaultFieldChoices(
+  survivor: MergeCompany,
+  loser: MergeCompany,
+): Record<MergeFieldKey, MergeSide> {
+  const out = {} as Record<MergeFieldKey, MergeSide>
+  for (const { key } of MERGE_FIELDS) {
+    const s = survivor[key]
+    const l = loser[key]
+    if (key === 'is_customer' || key === 'is_bemiddelaar') out[key] = s !== true && l === true ? 'loser' : 'survivor'
+    else out[key] = isEmptyValue(s) && !isEmptyValue(l) ? 'loser' : 'survivor'
+  }
+  return out
+}
+
+/**
+ * Waarden die op de survivor gezet moeten worden: alleen velden waar de loser
+ * gekozen is en de waarde echt verschilt. Ontbrekende keuzes vallen terug op
+ * defaultFieldChoices.
+ */
+export function resolveFieldValues(
+  survivor: MergeCompany,
+  loser: MergeCompany,
+  choices: Partial<Record<MergeFieldKey, MergeSide>> = {},
+): Partial<Record<MergeFieldKey, unknown>> {
+  const defaults = defaultFieldChoices(survivor, loser)
+  const values: Partial<Record<MergeFieldKey, unknown>> = {}
+  for (const { key } of MERGE_FIELDS) {
+    const side = choices[key] ?? defaults[key]
+    if (side === 'loser' && !sameValue(survivor[key], loser[key])) values[key] = loser[key] ?? null
+  }
+  return values
+}
+
+/** Suggestie welke blijft: Pipedrive-gekoppeld > meeste vacatures + contacten > oudste. */
+export function suggestSurvivor<T extends MergeCompany & { created_at?: string | null }>(
+  a: T,
+  b: T,
+  refs: Record<string, number> = {},
+): T {
+  const hasPd = (c: T) => (isEmptyValue(c.pipedrive_id) ? 0 : 1)
+  if (hasPd(a) !== hasPd(b)) return hasPd(a) > hasPd(b) ? a : b
+  const ra = refs[a.id] ?? 0
+  const rb = refs[b.id] ?? 0
+  if (ra !== rb) return ra > rb ? a : b
+  return (a.created_at ?? '') <= (b.created_at ?? '') ? a : b
+}
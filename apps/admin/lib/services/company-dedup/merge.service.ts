@@ -0,0 +1,195 @@
+/**
+ * Twee bedrijven samenvoegen (/bedrijven).
+ *
+ * De survivor blijft bestaan; per veld wordt gekozen welke waarde hij krijgt
+ * (merge-fields.ts). Het omhangen van alle verwijzingen (vacatures, contacten,
+ * bronnen, blocklist, Instantly-events, werkgeversleden en -claims, event-rollups,
+ * sales-lead-imports, sales-lead-runs via de Pipedrive-org) en het verwijderen van de loser gebeurt atomair in de RPC `merge_companies`.
+ * Die legt in `company_merges` alles vast wat `undo_company_merge` nodig heeft.
+ *
+ * Pipedrive zelf wordt niet aangeraakt: twee orgs daar samenvoegen is niet terug
+ * te draaien. De loser-org staat in de audit (`moved.pipedrive_org`).
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  MERGE_FIELDS,
+  MERGE_FIELD_KEYS,
+  resolveFieldValues,
+  suggestSurvivor,
+  type MergeCompany,
+} from './merge-fields'
+
+// ─── Schemas ────────────────────────────────────────────────────────
+
+const sideSchema = z.enum(['survivor', 'loser'])
+
+export const mergePreviewSchema = z.object({
+  a: z.string().uuid(),
+  b: z.string().uuid(),
+})
+
+export const mergeInputSchema = z
+  .object({
+    survivor_id: z.string().uuid(),
+    loser_id: z.string().uuid(),
+    fields: z.record(z.enum(MERGE_FIELD_KEYS), sideSchema).default({}),
+  })
+  .refine((v) => v.survivor_id !== v.loser_id, { message: 'Kies twee verschillende bedrijven' })
+export type MergeInput = z.infer<typeof mergeInputSchema>
+
+export const listMergesSchema = z.object({
+  company_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+})
+export type ListMergesFilters = z.infer<typeof listMergesSchema>
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type MergeCompanyRow = MergeCompany & {
+  name: string
+  created_at: string | null
+  slug: string | null
+}
+
+export type ReferenceCounts = {
+  job_postings: number
+  contacts: number
+  job_sources: number
+  blocklist_entries: number
+}
+
+export type MergePreview = {
+  companies: [MergeCompanyRow, MergeCompanyRow]
+  counts: Record<string, ReferenceCounts>
+  suggested_survivor_id: string
+  fields: typeof MERGE_FIELDS
+}
+
+export type CompanyMergeRow = {
+  id: string
+  survivor_id: string
+  loser_id: string
+  loser_name: string
+  field_values: Record<string, unknown>
+  moved: Record<string, unknown>
+  merged_by: string | null
+  merged_at: string
+  undone_by: string | null
+  undone_at: string | null
+  survivor: { id: string; name: string } | null
+}
+
+export class CompanyMergeError extends Error {
+  constructor(message: string, public readonly status: number = 500) {
+    super(message)
+    this.name = 'CompanyMergeError'
+  }
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+const COMPANY_SELECT = ['id', 'name', 'slug', 'created_at', ...MERGE_FIELD_KEYS].join(', ')
+
+const REFERENCE_TABLES = ['job_postings', 'contacts', 'job_sources', 'blocklist_entries'] as const
+
+// RPC-foutcodes uit de migratie: P0002 = niet gevonden, 22023 = ongeldige merge.
+function rpcError(error: { code?: string; message: string }): CompanyMergeError {
+  const status = error.code === 'P0002' ? 404 : error.code === '22023' ? 400 : 500
+  return new CompanyMergeError(error.message, status)
+}
+
+async function loadCompanies(sb: SupabaseClient, ids: string[]): Promise<MergeCompanyRow[]> {
+  const { data, error } = await sb.from('companies').select(COMPANY_SELECT).in('id', ids)
+  if (error) throw new CompanyMergeError(`company-merge load: ${error.message}`)
+  const rows = (data ?? []) as unknown as MergeCompanyRow[]
+  const missing = ids.filter((id) => !rows.some((r) => r.id === id))
+  if (missing.length > 0) throw new CompanyMergeError(`Bedrijf niet gevonden: ${missing.join(', ')}`, 404)
+  return ids.map((id) => rows.find((r) => r.id === id)!)
+}
+
+async function referenceCounts(sb: SupabaseClient, companyId: string): Promise<ReferenceCounts> {
+  const counts = await Promise.all(
+    REFERENCE_TABLES.map(async (table) => {
+      const { count } = await sb.from(table).select('id', { count: 'exact', head: true }).eq('company_id', companyId)
+      return count ?? 0
+    }),
+  )
+  return Object.fromEntries(REFERENCE_TABLES.map((t, i) => [t, counts[i]])) as ReferenceCounts
+}
+
+export async function getMergePreview(sb: SupabaseClient, aId: string, bId: string): Promise<MergePreview> {
+  if (aId === bId) throw new CompanyMergeError('Kies twee verschillende bedrijven', 400)
+  const [a, b] = await loadCompanies(sb, [aId, bId])
+  const [countsA, countsB] = await Promise.all([referenceCounts(sb, aId), referenceCounts(sb, bId)])
+  const weight = (c: ReferenceCounts) => c.job_postings + c.contacts
+  const survivor = suggestSurvivor(a, b, { [aId]: weight(countsA), [bId]: weight(countsB) })
+  return {
+    companies: [a, b],
+    counts: { [aId]: countsA, [bId]: countsB },
+    suggested_survivor_id: survivor.id,
+    fields: MERGE_FIELDS,
+  }
+}
+
+export async function mergeCompanies(
+  sb: SupabaseClient,
+  input: MergeInput,
+  userId: string | null,
+): Promise<{ merge_id: string; survivor_id: string }> {
+  const [survivor, loser] = await loadCompanies(sb, [input.survivor_id, input.loser_id])
+  const values = resolveFieldValues(survivor, loser, input.fields)
+
+  const { data, error } = await sb.rpc('merge_companies', {
+    p_survivor: survivor.id,
+    p_loser: loser.id,
+    p_fields: values,
+    p_user: userId,
+  })
+  if (error) throw rpcError(error)
+  console.log(`[company-merge] ${loser.id} (${loser.name}) -> ${survivor.id}, merge ${data}`)
+  return { merge_id: data as string, survivor_id: survivor.id }
+}
+
+export async function undoMerge(sb: SupabaseClient, mergeId: string, userId: string | null): Promise<void> {
+  const { error } = await sb.rpc('undo_company_merge', { p_merge_id: mergeId, p_user: userId })
+  if (error) throw rpcError(error)
+  console.log(`[company-merge] merge ${mergeId} teruggedraaid`)
+}
+
+export async function listMerges(
+  sb: SupabaseClient,
+  filters: ListMergesFilters,
+): Promise<{ rows: CompanyMergeRow[]; total: number; page: number; pageSize: number }> {
+  const from = (filters.page - 1) * filters.pageSize
+  let query = sb
+    .from('company_merges')
+    .select(
+      'id, survivor_id, loser_id, loser_name, field_values, moved, merged_by, merged_at, undone_by, undone_at',
+      { count: 'exact' },
+    )
+  if (filters.company_id) {
+    query = query.or(`survivor_id.eq.${filters.company_id},loser_id.eq.${filters.company_id}`)
+  }
+  const { data, error, count } = await query
+    .order('merged_at', { ascending: false })
+    .range(from, from + filters.pageSize - 1)
+  if (error) throw new CompanyMergeError(`company-merge list: ${error.message}`)
+
+  // Geen FK naar companies (survivor kan later zelf samengevoegd zijn): namen apart ophalen.
+  const rows = (data ?? []) as Omit<CompanyMergeRow, 'survivor'>[]
+  const ids = [...new Set(rows.map((r) => r.survivor_id))]
+  const { data: names } = ids.length
+    ? await sb.from('companies').select('id, name').in('id', ids)
+    : { data: [] as Array<{ id: string; name: string }> }
+  const byId = new Map((names ?? []).map((c: { id: string; name: string }) => [c.id, c]))
+
+  return {
+    rows: rows.map((r) => ({ ...r, survivor: byId.get(r.survivor_id) ?? null })),
+    total: count ?? 0,
+    page: filters.page,
+    pageSize: filters.pageSize,
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Claims van werkgevers op een bedrijfsprofiel (werkgeversportaal).
+ *
+ * Claims met een e-maildomein gelijk aan `companies.hoofddomein` keurt de RPC
+ * `claim_company` zelf goed; wat hier binnenkomt zijn de handmatige claims.
+ * Goedkeuren maakt de werkgever lid van het bedrijf (`company_members`); de
+ * eerste goedgekeurde werkgever wordt owner. Daarmee krijgt hij via RLS
+ * toegang tot het profiel, de vacatures en de sollicitaties.
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// ─── Schemas ────────────────────────────────────────────────────────
+
+export const CLAIM_STATUSES = ['pending', 'approved', 'rejected'] as const
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number]
+
+export const listClaimsSchema = z.object({
+  status: z.enum(CLAIM_STATUSES).default('pending'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+})
+export type ListClaimsFilters = z.infer<typeof listClaimsSchema>
+
+export const resolveClaimSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  note: z.string().trim().max(500).optional(),
+})
+export type ResolveClaimInput = z.infer<typeof resolveClaimSchema>
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type ClaimRow = {
+  id: string
+  company_id: string
+  user_id: string
+  email: string
+  method: 'email_domain' | 'manual'
+  status: ClaimStatus
+  note: string | null
+  reviewed_at: string | null
+  created_at: string
+  company: {
+    id: string
+    name: string
+    slug: string | null
+    hoofddomein: string | null
+    website: string | null
+    city: string | null
+  } | null
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** Domein van een e-mailadres, lowercase. */
+export function emailDomain(email: string): string {
+  return email.split('@')[1]?.toLowerCase() ?? ''
+}
+
+/**
+ * Zelfde regel als `claim_company`: exact domein of subdomein daarvan.
+ * Wordt in de review getoond als hint; handmatige claims matchen per
+ * definitie niet op het moment van claimen.
+ */
+export function domainMatches(email: string, hoofddomein: string | null): boolean {
+  if (!hoofddomein) return false
+  const domain = emailDomain(email)
+  const hoofd = hoofddomein.toLowerCase()
+  return domain === hoofd || domain.endsWith(`.${hoofd}`)
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export async function listClaims(
+  sb: SupabaseClient,
+  filters: ListClaimsFilters,
+): Promise<{ rows: ClaimRow[]; total: number; page: number; pageSize: number }> {
+  const from = (filters.page - 1) * filters.pageSize
+  const { data, error, count } = await sb
+    .from('company_claims')
+    .select(
+      `id, company_id, user_id, email, method, status, note, reviewed_at, created_at,
+       company:companies!company_id(id, name, slug, hoofddomein, website, city)`,
+      { count: 'exact' },
+    )
+    .eq('status', filters.status)
+    .order('created_at', { ascending: filters.status === 'pending' })
+    .range(from, from + filters.pageSize - 1)
+  if (error) throw new Error(`employer-claims list: ${error.message}`)
+  return {
+    rows: (data ?? []) as unknown as ClaimRow[],
+    total: count ?? 0,
+    page: filters.page,
+    pageSize: filters.pageSize,
+  }
+}
+
+/**
+ * approve: werkgever wordt lid (owner als het bedrijf er nog geen heeft).
+ * reject: claim afgewezen, de werkgever ziet dat terug in het portaal en kan
+ * opnieuw claimen.
+ */
+export async function resolveClaim(
+  sb: SupabaseClient,
+  id: string,
+  input: ResolveClaimInput,
+  reviewerId: string | null,
+): Promise<{ status: ClaimStatus; role?: 'owner' | 'member' }> {
+  const { data: claim, error: claimError } = await sb
+    .from('company_claims')
+    .select('id, company_id, user_id, email, status')
+    .eq('id', id)
+    .maybeSingle()
+  if (claimError) throw new Error(`employer-claims resolve: ${claimError.message}`)
+  if (!claim) throw new Error('Claim niet gevonden')
+  if (claim.status !== 'pending') throw new Error('Claim is al beoordeeld')
+
+  let role: 'owner' | 'member' | undefined
+  if (input.action === 'approve') {
+    const { count, error: ownerError } = await sb
+      .from('company_members')
+      .select('id', { count: 'exact', head: true })
+      .eq('company_id', claim.company_id)
+      .eq('role', 'owner')
+    if (ownerError) throw new Error(`employer-claims owner check: ${ownerError.message}`)
+    role = (count ?? 0) > 0 ? 'member' : 'owner'
+
+    const { error: memberError } = await sb
+      .from('company_members')
+      .upsert(
+        { company_id: claim.company_id, user_id: claim.user_id, email: claim.email, role },
+        { onConflict: 'company_id,user_id', ignoreDuplicates: true },
+      )
+    if (memberError) throw new Error(`employer-claims member: ${memberError.message}`)
+  }
+
+  const status: ClaimStatus = input.action === 'approve' ? 'approved' : 'rejected'
+  const { error } = await sb
+    .from('company_claims')
+    .update({
+      status,
+      note: input.note || null,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+  if (error) throw new Error(`employer-claims resolve: ${error.message}`)
+  return role ? { status, role } : { status }
+}
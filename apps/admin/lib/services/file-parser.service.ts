@@ -1,8 +1,11 @@
 /**
  * File Parser Service
- * Handles parsing of CSV and Excel files for blocklist imports
+ * Handles parsing of CSV and Excel files for blocklist imports, plus generic
+ * table parsing (header row + data rows) for imports with a column mapping
  */
 
+import { inflateRawSync } from 'zlib'
+
 interface ParsedBlocklistEntry {
   type: 'email' | 'domain'
   value: string
@@ -19,7 +22,198 @@ interface ParseResult {
   totalRows: number
 }
 
+export interface ParsedTable {
+  headers: string[]
+  /** Data rows (header excluded), padded to the header length */
+  rows: string[][]
+  errors: Array<{
+    row: number
+    message: string
+  }>
+  totalRows: number
+}
+
 export class FileParserService {
+  /**
+   * Parse an uploaded CSV or .xlsx file into a header row and data rows,
+   * without interpreting the columns. Used by imports that let the user map
+   * columns themselves.
+   */
+  async parseTable(file: File): Promise<ParsedTable> {
+    const fileName = file.name.toLowerCase()
+    let matrix: string[][]
+
+    try {
+      const buffer = Buffer.from(await file.arrayBuffer())
+      if (fileName.endsWith('.csv') || fileName.endsWith('.txt')) {
+        matrix = this.parseDelimited(new TextDecoder('utf-8').decode(buffer))
+      } else if (fileName.endsWith('.xlsx')) {
+        matrix = this.readXlsxSheet(buffer)
+      } else if (fileName.endsWith('.xls')) {
+        return this.tableError('Old Excel files (.xls) are not supported. Save as .xlsx or .csv and try again.')
+      } else {
+        return this.tableError('Unsupported file format. Please use .csv or .xlsx files.')
+      }
+    } catch (error) {
+      return this.tableError(`File parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    const nonEmpty = matrix.filter(r => r.some(cell => cell.trim() !== ''))
+    if (nonEmpty.length === 0) {
+      return this.tableError('File is empty')
+    }
+
+    const headers = nonEmpty[0].map(h => h.trim())
+    const rows = nonEmpty.slice(1).map(r => headers.map((_, i) => (r[i] ?? '').trim()))
+    return { headers, rows, errors: [], totalRows: rows.length }
+  }
+
+  private tableError(message: string): ParsedTable {
+    return { headers: [], rows: [], errors: [{ row: 1, message }], totalRows: 0 }
+  }
+
+  /**
+   * RFC 4180 parser with delimiter detection on the header line: Dutch Excel
+   * exports use ';', others ',' or tab. Handles quoted fields with embedded
+   * delimiters, newlines and doubled quotes.
+   */
+  parseDelimited(text: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '')
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? ''
+    const delimiter = [';', '\t', ','].reduce((best, d) =>
+      firstLine.split(d).length > firstLine.split(best).length ? d : best, ',')
+
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let inQuotes = false
+
+    for (let i = 0; i < content.length; i++) {
+      const ch = content[i]
+      if (inQuotes) {
+        if (ch === '"' && content[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (ch === '"') {
+          inQuotes = false
+        } else {
+          field += ch
+        }
+      } else if (ch === '"' && field === '') {
+        inQuotes = true
+      } else if (ch === delimiter) {
+        row.push(field)
+        field = ''
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r' && content[i + 1] === '\n') i++
+        row.push(field)
+        rows.push(row)
+        row = []
+        field = ''
+      } else {
+        field += ch
+      }
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field)
+      rows.push(row)
+    }
+    return rows
+  }
+
+  /**
+   * Minimal .xlsx reader: reads the first worksheet (cell values as text,
+   * shared strings and inline strings resolved). No formulas, no formatting.
+   */
+  private readXlsxSheet(buffer: Buffer): string[][] {
+    const files = this.readZipEntries(buffer)
+    const decode = (name: string) => files.get(name)?.toString('utf-8')
+
+    const xmlText = (s: string) => s
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+      .replace(/&amp;/g, '&')
+
+    const sharedStrings: string[] = []
+    const sst = decode('xl/sharedStrings.xml')
+    if (sst) {
+      for (const si of sst.match(/<si>[\s\S]*?<\/si>/g) ?? []) {
+        sharedStrings.push(xmlText((si.match(/<t[^>]*>[\s\S]*?<\/t>/g) ?? []).join('')))
+      }
+    }
+
+    const sheetName = [...files.keys()].filter(n => /^xl\/worksheets\/sheet\d+\.xml$/.test(n)).sort()[0]
+    const sheet = sheetName ? decode(sheetName) : undefined
+    if (!sheet) throw new Error('No worksheet found in Excel file')
+
+    const colIndex = (ref: string) => {
+      const letters = ref.replace(/\d+$/, '')
+      let n = 0
+      for (const l of letters) n = n * 26 + (l.charCodeAt(0) - 64)
+      return n - 1
+    }
+
+    const rows: string[][] = []
+    for (const rowXml of sheet.match(/<row[^>]*>[\s\S]*?<\/row>/g) ?? []) {
+      const rowNumber = Number(rowXml.match(/<row[^>]*\br="(\d+)"/)?.[1] ?? rows.length + 1)
+      const cells: string[] = []
+      for (const cell of rowXml.match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) ?? []) {
+        const ref = cell.match(/\br="([A-Z]+\d+)"/)?.[1]
+        const type = cell.match(/\bt="(\w+)"/)?.[1]
+        const raw = cell.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+        let value = ''
+        if (type === 's' && raw !== undefined) value = sharedStrings[Number(raw)] ?? ''
+        else if (type === 'inlineStr') value = xmlText(cell.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '')
+        else if (raw !== undefined) value = xmlText(raw)
+        cells[ref ? colIndex(ref) : cells.length] = value
+      }
+      rows[rowNumber - 1] = Array.from(cells, c => c ?? '')
+    }
+    return Array.from(rows, r => r ?? [])
+  }
+
+  /**
+   * Read all entries of a zip archive via the central directory
+   * (stored and deflated entries)
+   */
+  private readZipEntries(buffer: Buffer): Map<string, Buffer> {
+    let eocd = -1
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+      if (buffer.readUInt32LE(i) === 0x06054b50) {
+        eocd = i
+        break
+      }
+    }
+    if (eocd === -1) throw new Error('Not a valid .xlsx file')
+
+    const entries = new Map<string, Buffer>()
+    const count = buffer.readUInt16LE(eocd + 10)
+    let offset = buffer.readUInt32LE(eocd + 16)
+
+    for (let n = 0; n < count; n++) {
+      if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt .xlsx file')
+      const method = buffer.readUInt16LE(offset + 10)
+      const compressedSize = buffer.readUInt32LE(offset + 20)
+      const nameLength = buffer.readUInt16LE(offset + 28)
+      const extraLength = buffer.readUInt16LE(offset + 30)
+      const commentLength = buffer.readUInt16LE(offset + 32)
+      const localOffset = buffer.readUInt32LE(offset + 42)
+      const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength)
+
+      const localNameLength = buffer.readUInt16LE(localOffset + 26)
+      const localExtraLength = buffer.readUInt16LE(localOffset + 28)
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength
+      const data = buffer.subarray(dataStart, dataStart + compressedSize)
+
+      if (method === 0) entries.set(name, data)
+      else if (method === 8) entries.set(name, inflateRawSync(data))
+
+      offset += 46 + nameLength + extraLength + commentLength
+    }
+    return entries
+  }
+
   /**
    * Parse uploaded file based on its type
    */
@@ -0,0 +1,382 @@
+/**
+ * Google for Jobs-controle van de JobPosting JSON-LD op de publieke sites.
+ *
+ * De vacaturepagina in public-sites bouwt de JSON-LD met
+ * `buildJobPostingInput` + `buildJobPostingSchema` (packages/shared), inclusief
+ * de fallbacks (stad 'Nederland', geschatte validThrough, salaris uit vrije
+ * tekst). Deze service roept precies die twee aan en scoort het resultaat
+ * tegen Google's required en recommended velden.
+ *
+ * Required (error): title, description (min. 200 tekens), datePosted,
+ * hiringOrganization.name, addressLocality, addressCountry en een
+ * validThrough in de toekomst. Een error maakt de vacature ongeldig.
+ * Recommended (warning): baseSalary, employmentType, straat, postcode,
+ * regio, logo en een echte einddatum. Weging: error 3, warning 1.
+ *
+ * `validatePublication` blokkeert go-live zodra meer dan
+ * MAX_INVALID_SHARE van de gepubliceerde vacatures ongeldig is.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+// Subpath: deze module wordt ook door de (client-side) structured-data-tab geladen.
+import {
+  buildJobPostingInput,
+  buildJobPostingSchema,
+  type JobPostingInputFallbacks,
+  type JobPostingJsonLd,
+} from "@lokale-banen/shared/schema"
+
+export const MIN_DESCRIPTION_LENGTH = 200
+export const MAX_INVALID_SHARE = 0.2
+/** Aantal slechtste vacatures in het rapport. */
+export const REPORT_WORST_LIMIT = 50
+
+const PAGE_SIZE = 1000
+
+export type IssueSeverity = "error" | "warning"
+
+export type IssueCode =
+  | "missing_title"
+  | "missing_description"
+  | "short_description"
+  | "missing_date_posted"
+  | "missing_hiring_organization"
+  | "missing_locality"
+  | "missing_country"
+  | "expired_valid_through"
+  | "estimated_valid_through"
+  | "missing_base_salary"
+  | "missing_employment_type"
+  | "missing_street_address"
+  | "missing_postal_code"
+  | "missing_region"
+  | "missing_logo"
+
+export interface ValidationIssue {
+  code: IssueCode
+  field: string
+  severity: IssueSeverity
+  message: string
+}
+
+export interface JobPostingValidation {
+  /** 0-100, gewogen naar severity. */
+  score: number
+  /** Geen enkele error. */
+  valid: boolean
+  issues: ValidationIssue[]
+}
+
+/** Kolommen die de vacaturepagina voor de JSON-LD gebruikt. */
+export interface StructuredDataJobRow {
+  id: string
+  title: string | null
+  slug: string | null
+  description: string | null
+  content_md: string | null
+  published_at: string | null
+  created_at: string | null
+  end_date: string | null
+  employment: string | null
+  salary: string | null
+  salary_min: number | null
+  salary_max: number | null
+  salary_unit: string | null
+  salary_currency: string | null
+  city: string | null
+  street: string | null
+  zipcode: string | null
+  state: string | null
+  companies: {
+    name: string | null
+    logo_url: string | null
+    city: string | null
+    street_address: string | null
+    postal_code: string | null
+  } | null
+}
+
+export const STRUCTURED_DATA_JOB_SELECT = `
+  id, title, slug, description, content_md, published_at, created_at, end_date,
+  employment, salary, salary_min, salary_max, salary_unit, salary_currency,
+  city, street, zipcode, state,
+  companies!company_id ( name, logo_url, city, street_address, postal_code )
+`
+
+/** De JSON-LD zoals de site hem serveert, plus welke velden een fallback zijn. */
+export interface JobPostingJsonLdResult {
+  jsonLd: JobPostingJsonLd
+  fallbacks: JobPostingInputFallbacks
+}
+
+/**
+ * De JSON-LD van de Nederlandse vacaturepagina. `directApply` en de
+ * identifier-naam tellen niet mee in de score.
+ */
+export function toJobPostingJsonLd(
+  row: StructuredDataJobRow,
+  now: Date = new Date(),
+): JobPostingJsonLdResult {
+  const { companies, ...job } = row
+  const { input, fallbacks } = buildJobPostingInput(
+    { ...job, company: companies },
+    { locale: "nl", identifierName: "", nativeApply: false, now },
+  )
+  return { jsonLd: buildJobPostingSchema(input), fallbacks }
+}
+
+// ─── Validatie ──────────────────────────────────────────────────────
+
+interface Rule {
+  code: IssueCode
+  field: string
+  severity: IssueSeverity
+  message: string
+  passes: (ld: JobPostingJsonLdResult, now: Date) => boolean
+}
+
+const address = (ld: JobPostingJsonLdResult) =>
+  (ld.jsonLd.jobLocation.address ?? {}) as Record<string, unknown>
+
+const RULES: Rule[] = [
+  {
+    code: "missing_title",
+    field: "title",
+    severity: "error",
+    message: "Titel ontbreekt",
+    passes: ({ jsonLd }) => jsonLd.title.trim().length > 0,
+  },
+  {
+    code: "missing_description",
+    field: "description",
+    severity: "error",
+    message: "Beschrijving ontbreekt",
+    passes: ({ fallbacks }) => !fallbacks.description,
+  },
+  {
+    code: "short_description",
+    field: "description",
+    severity: "error",
+    message: `Beschrijving korter dan ${MIN_DESCRIPTION_LENGTH} tekens`,
+    // Ontbrekend (placeholder-tekst) telt al bij missing_description.
+    passes: ({ jsonLd, fallbacks }) => fallbacks.description || jsonLd.description.length >= MIN_DESCRIPTION_LENGTH,
+  },
+  {
+    code: "missing_date_posted",
+    field: "datePosted",
+    severity: "error",
+    message: "Publicatiedatum ontbreekt",
+    passes: ({ jsonLd }) => !!jsonLd.datePosted && !Number.isNaN(Date.parse(jsonLd.datePosted)),
+  },
+  {
+    code: "missing_hiring_organization",
+    field: "hiringOrganization.name",
+    severity: "error",
+    message: "Werkgever onbekend",
+    passes: ({ fallbacks }) => !fallbacks.company,
+  },
+  {
+    code: "missing_locality",
+    field: "jobLocation.address.addressLocality",
+    severity: "error",
+    message: "Plaats ontbreekt (valt terug op 'Nederland')",
+    passes: ({ fallbacks }) => !fallbacks.city,
+  },
+  {
+    code: "missing_country",
+    field: "jobLocation.address.addressCountry",
+    severity: "error",
+    message: "Land ontbreekt",
+    passes: (ld) => typeof address(ld).addressCountry === "string" && address(ld).addressCountry !== "",
+  },
+  {
+    code: "expired_valid_through",
+    field: "validThrough",
+    severity: "error",
+    message: "validThrough ligt in het verleden",
+    passes: ({ jsonLd }, now) => Date.parse(jsonLd.validThrough) > now.getTime(),
+  },
+  {
+    code: "estimated_valid_through",
+    field: "validThrough",
+    severity: "warning",
+    message: "Geen einddatum; validThrough is geschat",
+    passes: ({ fallbacks }) => !fallbacks.validThrough,
+  },
+  {
+    code: "missing_base_salary",
+    field: "baseSalary",
+    severity: "warning",
+    message: "Salaris ontbreekt",
+    passes: ({ jsonLd }) => jsonLd.baseSalary !== undefined,
+  },
+  {
+    code: "missing_employment_type",
+    field: "employmentType",
+    severity: "warning",
+    message: "Dienstverband ontbreekt of is niet te mappen",
+    passes: ({ jsonLd }) => jsonLd.employmentType !== undefined,
+  },
+  {
+    code: "missing_street_address",
+    field: "jobLocation.address.streetAddress",
+    severity: "warning",
+    message: "Straat ontbreekt",
+    passes: (ld) => address(ld).streetAddress !== undefined,
+  },
+  {
+    code: "missing_postal_code",
+    field: "jobLocation.address.postalCode",
+    severity: "warning",
+    message: "Postcode ontbreekt",
+    passes: (ld) => address(ld).postalCode !== undefined,
+  },
+  {
+    code: "missing_region",
+    field: "jobLocation.address.addressRegion",
+    severity: "warning",
+    message: "Provincie ontbreekt",
+    passes: (ld) => address(ld).addressRegion !== undefined,
+  },
+  {
+    code: "missing_logo",
+    field: "hiringOrganization.logo",
+    severity: "warning",
+    message: "Logo van de werkgever ontbreekt",
+    passes: ({ jsonLd }) => jsonLd.hiringOrganization.logo !== undefined,
+  },
+]
+
+const WEIGHT: Record<IssueSeverity, number> = { error: 3, warning: 1 }
+const TOTAL_WEIGHT = RULES.reduce((sum, r) => sum + WEIGHT[r.severity], 0)
+
+export function validateJobPostingJsonLd(
+  ld: JobPostingJsonLdResult,
+  now: Date = new Date(),
+): JobPostingValidation {
+  const issues: ValidationIssue[] = []
+  let lost = 0
+  for (const rule of RULES) {
+    if (rule.passes(ld, now)) continue
+    issues.push({ code: rule.code, field: rule.field, severity: rule.severity, message: rule.message })
+    lost += WEIGHT[rule.severity]
+  }
+  return {
+    score: Math.round(((TOTAL_WEIGHT - lost) / TOTAL_WEIGHT) * 100),
+    valid: !issues.some((i) => i.severity === "error"),
+    issues,
+  }
+}
+
+// ─── Platformrapport ────────────────────────────────────────────────
+
+export interface IssueCount extends ValidationIssue {
+  count: number
+}
+
+export interface PostingResult {
+  id: string
+  title: string
+  slug: string | null
+  score: number
+  valid: boolean
+  issues: IssueCode[]
+}
+
+export interface StructuredDataReport {
+  platform_id: string
+  checked_at: string
+  total: number
+  valid: number
+  invalid: number
+  /** 0-1; 0 zonder gepubliceerde vacatures. */
+  invalid_share: number
+  average_score: number | null
+  /** Meest voorkomend eerst. */
+  issues: IssueCount[]
+  /** Laagste score eerst, max REPORT_WORST_LIMIT. */
+  postings: PostingResult[]
+}
+
+export function buildStructuredDataReport(
+  platformId: string,
+  rows: StructuredDataJobRow[],
+  now: Date = new Date(),
+): StructuredDataReport {
+  const counts = new Map<IssueCode, IssueCount>()
+  const postings: PostingResult[] = []
+  let scoreSum = 0
+
+  for (const row of rows) {
+    const result = validateJobPostingJsonLd(toJobPostingJsonLd(row, now), now)
+    scoreSum += result.score
+    for (const issue of result.issues) {
+      const entry = counts.get(issue.code)
+      if (entry) entry.count += 1
+      else counts.set(issue.code, { ...issue, count: 1 })
+    }
+    postings.push({
+      id: row.id,
+      title: row.title ?? "",
+      slug: row.slug,
+      score: result.score,
+      valid: result.valid,
+      issues: result.issues.map((i) => i.code),
+    })
+  }
+
+  const total = rows.length
+  const valid = postings.filter((p) => p.valid).length
+  return {
+    platform_id: platformId,
+    checked_at: now.toISOString(),
+    total,
+    valid,
+    invalid: total - valid,
+    invalid_share: total > 0 ? (total - valid) / total : 0,
+    average_score: total > 0 ? Math.round(scoreSum / total) : null,
+    issues: [...counts.values()].sort(
+      (a, b) => b.count - a.count || WEIGHT[b.severity] - WEIGHT[a.severity],
+    ),
+    postings: postings.sort((a, b) => a.score - b.score).slice(0, REPORT_WORST_LIMIT),
+  }
+}
+
+/**
+ * Valideert alle vacatures die op de site van het platform staan: approved,
+ * gepubliceerd, niet gearchiveerd en geen cross-source duplicaat.
+ */
+export async function validatePlatformJobPostings(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, "public", any>,
+  platformId: string,
+  now: Date = new Date(),
+): Promise<StructuredDataReport> {
+  const rows: StructuredDataJobRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("job_postings")
+      .select(STRUCTURED_DATA_JOB_SELECT)
+      .eq("platform_id", platformId)
+      .eq("review_status", "approved")
+      .not("published_at", "is", null)
+      .is("archived_at", null)
+      .is("canonical_id", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`structured-data load: ${error.message}`)
+    for (const row of (data ?? []) as Record<string, unknown>[]) {
+      rows.push({
+        ...row,
+        companies: Array.isArray(row.companies) ? (row.companies[0] ?? null) : row.companies,
+      } as StructuredDataJobRow)
+    }
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return buildStructuredDataReport(platformId, rows, now)
+}
+
+/** Go-live-drempel: te veel ongeldige vacatures blokkeert publicatie. */
+export function structuredDataPassed(report: StructuredDataReport): boolean {
+  return report.invalid_share <= MAX_INVALID_SHARE
+}
@@ -0,0 +1,120 @@
+/**
+ * Server-kant van de hiring-intensity score (zie score.ts).
+ *
+ * - refreshHiringIntensity: draait refresh_hiring_intensity() (set-based in
+ *   SQL over alle job_postings; alleen gewijzigde bedrijven worden
+ *   herschreven)
+ * - pushHiringIntensity: zet gewijzigde scores van bedrijven met een
+ *   pipedrive_id op het Pipedrive org-veld en onthoudt de gepushte waarde in
+ *   hiring_intensity_pushed_score; mislukte pushes komen in
+ *   hiring_intensity_push_error/_attempts/_failed_at (backoff in de wachtrij)
+ * - loadHiringIntensityScores: scores per bedrijf voor het
+ *   campaign-assignment filter
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PipedriveClient } from '@/lib/pipedrive-client'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SB = SupabaseClient<any, 'public', any>
+
+export type HiringIntensityRefresh = { scored: number; changed: number; cleared: number }
+
+export type HiringIntensityPushStats = { pushed: number; push_failed: number }
+
+/** Max. Pipedrive-updates per run (10 tokens per update op het dagbudget). */
+export const MAX_PUSHES = 200
+
+const ID_CHUNK = 200
+
+export async function refreshHiringIntensity(supabase: SB): Promise<HiringIntensityRefresh> {
+  const { data, error } = await supabase.rpc('refresh_hiring_intensity')
+  if (error) throw new Error(`refresh_hiring_intensity faalde: ${error.message}`)
+  const row = (data as HiringIntensityRefresh[] | null)?.[0]
+  return { scored: row?.scored ?? 0, changed: row?.changed ?? 0, cleared: row?.cleared ?? 0 }
+}
+
+type PushQueueRow = {
+  id: string
+  pipedrive_id: string
+  hiring_intensity_score: number | null
+  hiring_intensity_push_attempts: number
+}
+
+/**
+ * Push gewijzigde scores naar Pipedrive, grootste verschuivingen eerst. Een
+ * mislukte push wordt op het bedrijf vastgelegd; hiring_intensity_push_queue
+ * laat het daarna steeds langer wachten. PipedriveDailyLimitError stopt de
+ * run zonder iets vast te leggen.
+ */
+export async function pushHiringIntensity(
+  supabase: SB,
+  client: Pick<PipedriveClient, 'setHiringIntensity'>,
+  opts: { limit?: number; deadline?: number } = {},
+): Promise<HiringIntensityPushStats> {
+  const stats: HiringIntensityPushStats = { pushed: 0, push_failed: 0 }
+
+  const { data, error } = await supabase.rpc('hiring_intensity_push_queue', { p_limit: opts.limit ?? MAX_PUSHES })
+  if (error) throw new Error(`hiring_intensity_push_queue faalde: ${error.message}`)
+
+  for (const row of (data ?? []) as PushQueueRow[]) {
+    if (opts.deadline && Date.now() >= opts.deadline) break
+    const orgId = Number(row.pipedrive_id)
+    if (!Number.isInteger(orgId) || orgId <= 0) {
+      await recordPushFailure(supabase, row, `ongeldig pipedrive_id: ${row.pipedrive_id}`)
+      stats.push_failed++
+      continue
+    }
+
+    const result = await client.setHiringIntensity(orgId, row.hiring_intensity_score)
+    if (!result.success) {
+      console.error(`[hiring-intensity] Pipedrive org ${orgId}: ${result.reason}`)
+      await recordPushFailure(supabase, row, result.reason ?? 'Unknown error')
+      stats.push_failed++
+      continue
+    }
+
+    const { error: updateError } = await supabase
+      .from('companies')
+      .update({
+        hiring_intensity_pushed_score: row.hiring_intensity_score,
+        hiring_intensity_pushed_at: new Date().toISOString(),
+        hiring_intensity_push_error: null,
+        hiring_intensity_push_attempts: 0,
+        hiring_intensity_push_failed_at: null,
+      })
+      .eq('id', row.id)
+    if (updateError) throw new Error(updateError.message)
+    stats.pushed++
+  }
+
+  return stats
+}
+
+async function recordPushFailure(supabase: SB, row: PushQueueRow, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('companies')
+    .update({
+      hiring_intensity_push_error: reason,
+      hiring_intensity_push_attempts: (row.hiring_intensity_push_attempts ?? 0) + 1,
+      hiring_intensity_push_failed_at: new Date().toISOString(),
+    })
+    .eq('id', row.id)
+  if (error) throw new Error(error.message)
+}
+
+export async function loadHiringIntensityScores(supabase: SB, companyIds: string[]): Promise<Map<string, number | null>> {
+  const ids = [...new Set(companyIds)]
+  const scores = new Map<string, number | null>()
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('id, hiring_intensity_score')
+      .in('id', ids.slice(i, i + ID_CHUNK))
+    if (error) throw new Error(`Failed to fetch hiring intensity: ${error.message}`)
+    for (const row of (data ?? []) as { id: string; hiring_intensity_score: number | null }[]) {
+      scores.set(row.id, row.hiring_intensity_score)
+    }
+  }
+  return scores
+}
@@ -0,0 +1,85 @@
+/**
+ * Hiring intensity: koopsignaal per bedrijf uit de eigen vacaturedata.
+ *
+ * De score (0-100) wordt nachtelijk in SQL berekend door
+ * refresh_hiring_intensity() (zie migratie company_hiring_intensity voor de
+ * weging) en staat in companies.hiring_intensity_score, met de invoer en
+ * punten in companies.hiring_intensity. Dit bestand bevat alleen wat zowel
+ * de UI als de server nodig heeft: het detailtype, de niveaus en het filter
+ * voor campaign assignment. Geen server-imports, dus veilig voor client
+ * components.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type HiringIntensityDetail = {
+  postings_90d: number
+  postings_30d: number
+  repeat_postings: number
+  sources_90d: number
+  delisted: number
+  median_days_to_delist: number | null
+  points: {
+    volume: number
+    velocity: number
+    repeat: number
+    delist: number
+    sources: number
+  }
+}
+
+export type HiringIntensityTier = 'high' | 'medium' | 'low' | 'none'
+
+// ─── Niveaus ────────────────────────────────────────────────────────
+
+export const HIRING_INTENSITY_TIERS: Record<HiringIntensityTier, { label: string; min: number; className: string }> = {
+  high: { label: 'Hoog', min: 70, className: 'bg-red-100 text-red-800 border-red-200' },
+  medium: { label: 'Midden', min: 40, className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  low: { label: 'Laag', min: 1, className: 'bg-yellow-50 text-yellow-800 border-yellow-200' },
+  none: { label: 'Geen', min: 0, className: 'bg-gray-100 text-gray-600 border-gray-200' },
+}
+
+/** Filteropties voor /bedrijven: minimale score per niveau. */
+export const HIRING_INTENSITY_FILTER_OPTIONS = [
+  { value: String(HIRING_INTENSITY_TIERS.high.min), label: `${HIRING_INTENSITY_TIERS.high.label} (${HIRING_INTENSITY_TIERS.high.min}+)` },
+  { value: String(HIRING_INTENSITY_TIERS.medium.min), label: `${HIRING_INTENSITY_TIERS.medium.label} of hoger (${HIRING_INTENSITY_TIERS.medium.min}+)` },
+  { value: String(HIRING_INTENSITY_TIERS.low.min), label: 'Met vacature-activiteit' },
+] as const
+
+export function hiringIntensityTier(score: number | null | undefined): HiringIntensityTier {
+  if (score == null || score < HIRING_INTENSITY_TIERS.low.min) return 'none'
+  if (score >= HIRING_INTENSITY_TIERS.high.min) return 'high'
+  if (score >= HIRING_INTENSITY_TIERS.medium.min) return 'medium'
+  return 'low'
+}
+
+// ─── Campaign assignment ────────────────────────────────────────────
+
+/**
+ * Houd alleen kandidaten over van bedrijven met minimaal `minScore`, met
+ * dezelfde caps (totaal en per platform) als de kandidatenselectie. De
+ * volgorde van de invoer blijft behouden; bedrijven zonder score vallen af.
+ */
+export function selectByHiringIntensity<T extends { company_id: string; platform_id: string }>(
+  candidates: T[],
+  scores: Map<string, number | null>,
+  minScore: number,
+  maxTotal: number,
+  maxPerPlatform: number,
+): T[] {
+  const selected: T[] = []
+  const perPlatform = new Map<string, number>()
+
+  for (const candidate of candidates) {
+    if (selected.length >= maxTotal) break
+    const score = scores.get(candidate.company_id)
+    if (score == null || score < minScore) continue
+
+    const count = perPlatform.get(candidate.platform_id) ?? 0
+    if (count >= maxPerPlatform) continue
+    perPlatform.set(candidate.platform_id, count + 1)
+    selected.push(candidate)
+  }
+
+  return selected
+}
@@ -1,6 +1,7 @@
 /**
  * Import Validation Service
- * Validates parsed blocklist entries before database import
+ * Validates parsed blocklist entries before database import, plus shared
+ * helpers (domain normalization, in-file duplicates) for other imports
  */
 
 import { createServiceRoleClient } from '../supabase-server'
@@ -249,6 +250,47 @@ export class ImportValidationService {
     return domainRegex.test(domain.trim())
   }
 
+  /**
+   * Normalize a website, URL or e-mail address to a bare domain
+   * ("https://www.acme.nl/contact" → "acme.nl"). Unlike isValidDomain this
+   * accepts subdomains and multi-part TLDs. Returns null when no valid
+   * domain can be derived.
+   */
+  normalizeDomain(input: string | null | undefined): string | null {
+    let value = (input ?? '').trim().toLowerCase()
+    if (!value) return null
+    if (value.includes('@') && !value.includes('/')) value = value.split('@').pop() ?? ''
+    value = value
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+      .split(/[/?#]/)[0]
+      .replace(/:\d+$/, '')
+      .replace(/^www\./, '')
+      .replace(/\.$/, '')
+    const hostnameRegex = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/
+    return hostnameRegex.test(value) ? value : null
+  }
+
+  /**
+   * Group rows that share the same key; keys that occur once are left out.
+   * Rows without a key (null) are ignored.
+   */
+  findDuplicatesBy<T>(
+    entries: T[],
+    key: (entry: T) => string | null,
+    row: (entry: T) => number
+  ): Array<{ value: string; rows: number[] }> {
+    const valueMap = new Map<string, number[]>()
+    for (const entry of entries) {
+      const k = key(entry)
+      if (!k) continue
+      if (!valueMap.has(k)) valueMap.set(k, [])
+      valueMap.get(k)!.push(row(entry))
+    }
+    return Array.from(valueMap.entries())
+      .filter(([, rows]) => rows.length > 1)
+      .map(([value, rows]) => ({ value, rows }))
+  }
+
   /**
    * Filter out entries that failed validation (have errors, not warnings)
    */
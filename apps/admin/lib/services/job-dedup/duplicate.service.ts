@@ -0,0 +1,479 @@
+/**
+ * Cross-source duplicate-detectie voor job_postings.
+ *
+ * Dezelfde vacature komt via meerdere bronnen binnen (werk.nl, De Banensite,
+ * de eigen werken-bij-pagina, een ATS-feed). Per vacature:
+ *   1. fingerprint (minhash.ts) opslaan in job_posting_fingerprints
+ *   2. kandidaten = zelfde company_id + minstens één gedeelde LSH-band
+ *   3. score per paar: boven de auto-drempel direct samenvoegen, borderline
+ *      paren als 'pending' in job_posting_duplicates voor /review/duplicaten
+ *
+ * Samenvoegen = één canonical per groep (canonical_id IS NULL), de rest wijst
+ * ernaar. Publieke sites tonen alleen canonicals; siblings blijven bestaan
+ * zodat hun bron ze gewoon kan bijwerken of delisten. Daarom clusteren we
+ * alleen binnen één platform en is de canonical altijd een approved vacature
+ * als de groep er een heeft (zie ook de triggers in de job_posting_duplicates
+ * migratie, die een groep vrijgeven als dat niet meer klopt).
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { estimateSimilarity, fingerprint, titleSimilarity, type Fingerprint } from './minhash'
+
+// ─── Schemas ────────────────────────────────────────────────────────
+
+export const duplicateStatusSchema = z.enum(['pending', 'auto_merged', 'merged', 'rejected'])
+export type DuplicateStatus = z.infer<typeof duplicateStatusSchema>
+
+export const listDuplicatesSchema = z.object({
+  status: duplicateStatusSchema.default('pending'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+})
+export type ListDuplicatesFilters = z.infer<typeof listDuplicatesSchema>
+
+export const resolveDuplicateSchema = z.object({
+  action: z.enum(['merge', 'reject']),
+  /** Alleen bij merge: forceer welke van de twee canonical wordt. */
+  canonical_id: z.string().uuid().optional(),
+})
+export type ResolveDuplicateInput = z.infer<typeof resolveDuplicateSchema>
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface DedupPosting {
+  id: string
+  title: string
+  description: string | null
+  city: string | null
+  company_id: string | null
+  platform_id: string | null
+  canonical_id: string | null
+  review_status: string | null
+  published_at: string | null
+  created_at: string | null
+  source_id: string | null
+  archived_at?: string | null
+  salary?: string | null
+  employment?: string | null
+  url?: string | null
+}
+
+export interface FingerprintRow {
+  job_posting_id: string
+  company_id: string
+  platform_id: string | null
+  title_norm: string
+  city_norm: string | null
+  minhash: number[] | null
+}
+
+export type PairDecision = 'auto' | 'review'
+
+export interface PairScore {
+  title_similarity: number
+  description_similarity: number | null
+  score: number
+  decision: PairDecision | null
+}
+
+export interface CheckResult {
+  candidates: number
+  auto_merged: number
+  queued_for_review: number
+}
+
+export interface DuplicatePairRow {
+  id: string
+  posting_a_id: string
+  posting_b_id: string
+  title_similarity: number
+  description_similarity: number | null
+  score: number
+  status: DuplicateStatus
+  created_at: string
+  reviewed_at: string | null
+  reviewed_by: string | null
+  posting_a: DuplicatePostingSummary | null
+  posting_b: DuplicatePostingSummary | null
+}
+
+export interface DuplicatePostingSummary {
+  id: string
+  title: string
+  city: string | null
+  url: string | null
+  salary: string | null
+  employment: string | null
+  review_status: string | null
+  published_at: string | null
+  canonical_id: string | null
+  archived_at: string | null
+  created_at: string | null
+  description: string | null
+  company: { id: string; name: string } | null
+  source: { id: string; name: string; kind: string } | null
+}
+
+// ─── Drempels ───────────────────────────────────────────────────────
+
+export const AUTO_MERGE_SCORE = 0.85
+export const AUTO_MERGE_MIN_TITLE = 0.7
+export const REVIEW_SCORE = 0.6
+/** Zonder beschrijving aan één kant alleen titel: nooit automatisch, wel review. */
+export const TITLE_ONLY_REVIEW = 0.8
+
+export const DEDUP_POSTING_SELECT =
+  'id, title, description, city, company_id, platform_id, canonical_id, review_status, published_at, created_at, source_id, archived_at, salary, employment, url'
+
+const SUMMARY_SELECT = `
+  id, title, city, url, salary, employment, review_status, published_at, canonical_id, archived_at, created_at, description,
+  company:companies!job_postings_company_id_fkey(id,name),
+  source:job_sources!job_postings_source_id_fkey(id,name,kind)
+`.replace(/\s+/g, ' ')
+
+// ─── Scoring (puur) ─────────────────────────────────────────────────
+
+export function scorePair(a: FingerprintRow, b: FingerprintRow): PairScore | null {
+  // Andere plaats = andere vacature (landelijke ketens plaatsen per vestiging).
+  if (a.city_norm && b.city_norm && a.city_norm !== b.city_norm) return null
+  // Alleen binnen één platform: een canonical op een ander (of geen) platform zou
+  // de sibling van zijn eigen tenant-site laten verdwijnen.
+  if (!a.platform_id || a.platform_id !== b.platform_id) return null
+
+  const title = titleSimilarity(a.title_norm, b.title_norm)
+  if (a.minhash && b.minhash) {
+    const desc = estimateSimilarity(a.minhash, b.minhash)
+    const score = 0.5 * title + 0.5 * desc
+    let decision: PairDecision | null = null
+    if (score >= AUTO_MERGE_SCORE && title >= AUTO_MERGE_MIN_TITLE) decision = 'auto'
+    else if (score >= REVIEW_SCORE) decision = 'review'
+    return { title_similarity: title, description_similarity: desc, score, decision }
+  }
+  return {
+    title_similarity: title,
+    description_similarity: null,
+    score: title,
+    decision: title >= TITLE_ONLY_REVIEW ? 'review' : null,
+  }
+}
+
+function completeness(p: DedupPosting): number {
+  return [p.description, p.salary, p.employment, p.city].filter((v) => v && String(v).trim()).length
+    + Math.min(1, (p.description?.length ?? 0) / 2000)
+}
+
+function isLive(p: DedupPosting): boolean {
+  return p.review_status === 'approved' && !p.archived_at
+}
+
+/**
+ * Canonical-keuze: approved (anders verdwijnt de groep van de site) > al
+ * gepubliceerd (URL/SEO blijft stabiel) > eigen werken-bij/ATS-bron > meest
+ * complete rij > oudste.
+ */
+export function pickCanonical(
+  postings: DedupPosting[],
+  careerPageSourceIds: Set<string> = new Set(),
+): DedupPosting {
+  const rank = (p: DedupPosting) => [
+    isLive(p) ? 1 : 0,
+    p.published_at ? 1 : 0,
+    p.source_id && careerPageSourceIds.has(p.source_id) ? 1 : 0,
+    completeness(p),
+  ]
+  return [...postings].sort((x, y) => {
+    const rx = rank(x)
+    const ry = rank(y)
+    for (let i = 0; i < rx.length; i++) if (rx[i] !== ry[i]) return ry[i] - rx[i]
+    return (x.created_at ?? '').localeCompare(y.created_at ?? '')
+  })[0]
+}
+
+function orderedPair(x: string, y: string): { posting_a_id: string; posting_b_id: string } {
+  return x < y ? { posting_a_id: x, posting_b_id: y } : { posting_a_id: y, posting_b_id: x }
+}
+
+// ─── Groepen ────────────────────────────────────────────────────────
+
+/** Alle leden van de groepen waar `ids` in zitten (canonicals + hun siblings). */
+async function loadGroup(sb: SupabaseClient, ids: string[]): Promise<DedupPosting[]> {
+  const { data: direct, error } = await sb.from('job_postings').select(DEDUP_POSTING_SELECT).in('id', ids)
+  if (error) throw new Error(`job-dedup loadGroup: ${error.message}`)
+  const rows = (direct ?? []) as DedupPosting[]
+  const roots = [...new Set(rows.map((p) => p.canonical_id ?? p.id))]
+
+  const { data: related, error: relErr } = await sb
+    .from('job_postings')
+    .select(DEDUP_POSTING_SELECT)
+    .or(`id.in.(${roots.join(',')}),canonical_id.in.(${roots.join(',')})`)
+    .is('archived_at', null)
+  if (relErr) throw new Error(`job-dedup loadGroup: ${relErr.message}`)
+
+  const byId = new Map<string, DedupPosting>()
+  for (const p of [...rows, ...((related ?? []) as DedupPosting[])]) byId.set(p.id, p)
+  return [...byId.values()]
+}
+
+async function careerPageSourceIds(sb: SupabaseClient, postings: DedupPosting[]): Promise<Set<string>> {
+  const sourceIds = [...new Set(postings.map((p) => p.source_id).filter((v): v is string => !!v))]
+  if (sourceIds.length === 0) return new Set()
+  const { data } = await sb
+    .from('job_sources')
+    .select('id')
+    .in('id', sourceIds)
+    .eq('kind', 'company_career_page')
+  return new Set((data ?? []).map((r: { id: string }) => r.id))
+}
+
+/**
+ * Voegt de groepen van `ids` samen onder één canonical (gekozen via
+ * pickCanonical, of geforceerd). Platte structuur: siblings wijzen altijd
+ * direct naar de canonical, nooit naar een andere sibling.
+ */
+export async function mergeGroup(
+  sb: SupabaseClient,
+  ids: string[],
+  forcedCanonicalId?: string,
+): Promise<{ canonical_id: string; members: string[] }> {
+  const group = await loadGroup(sb, ids)
+  if (group.length === 0) throw new Error('job-dedup mergeGroup: geen vacatures gevonden')
+
+  const winner = forcedCanonicalId
+    ? group.find((p) => p.id === forcedCanonicalId)
+    : pickCanonical(group, await careerPageSourceIds(sb, group))
+  if (!winner) throw new Error('job-dedup mergeGroup: canonical hoort niet bij deze groep')
+  if (!isLive(winner) && group.some(isLive)) {
+    throw new Error('job-dedup mergeGroup: canonical moet een goedgekeurde, actieve vacature zijn')
+  }
+
+  const siblings = group.filter((p) => p.id !== winner.id && p.canonical_id !== winner.id).map((p) => p.id)
+  if (siblings.length > 0) {
+    const { error } = await sb.from('job_postings').update({ canonical_id: winner.id }).in('id', siblings)
+    if (error) throw new Error(`job-dedup mergeGroup: ${error.message}`)
+  }
+  if (winner.canonical_id) {
+    const { error } = await sb.from('job_postings').update({ canonical_id: null }).eq('id', winner.id)
+    if (error) throw new Error(`job-dedup mergeGroup: ${error.message}`)
+  }
+  return { canonical_id: winner.id, members: group.map((p) => p.id) }
+}
+
+/**
+ * Haalt één vacature uit haar groep. Was zij de canonical, dan promoot de
+ * beste sibling. dedup_checked_at blijft gezet zodat de detector haar niet
+ * direct opnieuw samenvoegt (pas weer bij een inhoudswijziging).
+ */
+export async function detachPosting(sb: SupabaseClient, id: string): Promise<void> {
+  const { data: self, error: selfErr } = await sb
+    .from('job_postings')
+    .select('id, canonical_id')
+    .eq('id', id)
+    .maybeSingle()
+  if (selfErr) throw new Error(`job-dedup detach: ${selfErr.message}`)
+  if (!self) return
+  const now = new Date().toISOString()
+
+  if (self.canonical_id) {
+    const { error } = await sb
+      .from('job_postings')
+      .update({ canonical_id: null, dedup_checked_at: now })
+      .eq('id', id)
+    if (error) throw new Error(`job-dedup detach: ${error.message}`)
+    return
+  }
+
+  const { data: siblings, error: sibErr } = await sb
+    .from('job_postings')
+    .select(DEDUP_POSTING_SELECT)
+    .eq('canonical_id', id)
+    .is('archived_at', null)
+  if (sibErr) throw new Error(`job-dedup detach: ${sibErr.message}`)
+  const rest = (siblings ?? []) as DedupPosting[]
+  if (rest.length === 0) return
+
+  const next = pickCanonical(rest, await careerPageSourceIds(sb, rest))
+  const { error: promoteErr } = await sb.from('job_postings').update({ canonical_id: null }).eq('id', next.id)
+  if (promoteErr) throw new Error(`job-dedup detach: ${promoteErr.message}`)
+  const others = rest.filter((p) => p.id !== next.id).map((p) => p.id)
+  if (others.length > 0) {
+    const { error } = await sb.from('job_postings').update({ canonical_id: next.id }).in('id', others)
+    if (error) throw new Error(`job-dedup detach: ${error.message}`)
+  }
+  await sb.from('job_postings').update({ dedup_checked_at: now }).eq('id', id)
+}
+
+// ─── Detector ───────────────────────────────────────────────────────
+
+export async function saveFingerprint(
+  sb: SupabaseClient,
+  posting: DedupPosting & { company_id: string },
+): Promise<{ row: FingerprintRow; bands: string[] }> {
+  const fp: Fingerprint = fingerprint(posting)
+  const row: FingerprintRow = {
+    job_posting_id: posting.id,
+    company_id: posting.company_id,
+    platform_id: posting.platform_id,
+    title_norm: fp.titleNorm,
+    city_norm: fp.cityNorm,
+    minhash: fp.minhash,
+  }
+  const { error } = await sb
+    .from('job_posting_fingerprints')
+    .upsert({ ...row, lsh_bands: fp.lshBands, computed_at: new Date().toISOString() }, { onConflict: 'job_posting_id' })
+  if (error) throw new Error(`job-dedup fingerprint: ${error.message}`)
+  return { row, bands: fp.lshBands }
+}
+
+/**
+ * Eén vacature langs de detector. Rejected paren worden niet opnieuw
+ * voorgesteld; bestaande pending paren blijven staan voor review.
+ */
+export async function checkPosting(sb: SupabaseClient, posting: DedupPosting): Promise<CheckResult> {
+  const result: CheckResult = { candidates: 0, auto_merged: 0, queued_for_review: 0 }
+  const now = new Date().toISOString()
+  if (!posting.company_id) return result
+
+  const { row, bands } = await saveFingerprint(sb, { ...posting, company_id: posting.company_id })
+
+  // Zonder platform geen groep; de reset-trigger haalt de vacature opnieuw langs
+  // zodra de geocoding haar een platform geeft.
+  let candidates: FingerprintRow[] = []
+  if (posting.platform_id) {
+    const { data: cands, error: candErr } = await sb
+      .from('job_posting_fingerprints')
+      .select('job_posting_id, company_id, platform_id, title_norm, city_norm, minhash')
+      .eq('company_id', posting.company_id)
+      .eq('platform_id', posting.platform_id)
+      .overlaps('lsh_bands', bands)
+      .neq('job_posting_id', posting.id)
+    if (candErr) throw new Error(`job-dedup kandidaten: ${candErr.message}`)
+    candidates = (cands ?? []) as FingerprintRow[]
+  }
+  if (candidates.length > 0) {
+    // Alleen actieve kandidaten; gearchiveerde fingerprints blijven tot de cascade ze opruimt.
+    const { data: active } = await sb
+      .from('job_postings')
+      .select('id')
+      .in('id', candidates.map((c) => c.job_posting_id))
+      .is('archived_at', null)
+    const activeIds = new Set((active ?? []).map((r: { id: string }) => r.id))
+    candidates = candidates.filter((c) => activeIds.has(c.job_posting_id))
+  }
+  result.candidates = candidates.length
+
+  const { data: existing } = await sb
+    .from('job_posting_duplicates')
+    .select('posting_a_id, posting_b_id, status')
+    .or(`posting_a_id.eq.${posting.id},posting_b_id.eq.${posting.id}`)
+  const known = new Map<string, string>()
+  for (const e of (existing ?? []) as Array<{ posting_a_id: string; posting_b_id: string; status: string }>) {
+    known.set(e.posting_a_id === posting.id ? e.posting_b_id : e.posting_a_id, e.status)
+  }
+
+  const autoIds: string[] = []
+  for (const cand of candidates) {
+    const status = known.get(cand.job_posting_id)
+    if (status === 'rejected') continue
+    const s = scorePair(row, cand)
+    if (!s?.decision) continue
+
+    if (s.decision === 'auto') autoIds.push(cand.job_posting_id)
+    if (status) continue
+    const { error } = await sb.from('job_posting_duplicates').insert({
+      ...orderedPair(posting.id, cand.job_posting_id),
+      title_similarity: s.title_similarity,
+      description_similarity: s.description_similarity,
+      score: s.score,
+      status: s.decision === 'auto' ? 'auto_merged' : 'pending',
+    })
+    if (error && error.code !== '23505') throw new Error(`job-dedup paar: ${error.message}`)
+    if (s.decision === 'review') result.queued_for_review++
+  }
+
+  if (autoIds.length > 0) {
+    await mergeGroup(sb, [posting.id, ...autoIds])
+    result.auto_merged = autoIds.length
+  }
+
+  const { error: doneErr } = await sb.from('job_postings').update({ dedup_checked_at: now }).eq('id', posting.id)
+  if (doneErr) throw new Error(`job-dedup markeren: ${doneErr.message}`)
+  return result
+}
+
+// ─── Review ─────────────────────────────────────────────────────────
+
+export async function listDuplicates(
+  sb: SupabaseClient,
+  filters: ListDuplicatesFilters,
+): Promise<{ rows: DuplicatePairRow[]; total: number; page: number; pageSize: number }> {
+  const from = (filters.page - 1) * filters.pageSize
+  const { data, error, count } = await sb
+    .from('job_posting_duplicates')
+    .select(
+      `id, posting_a_id, posting_b_id, title_similarity, description_similarity, score, status, created_at, reviewed_at, reviewed_by,
+       posting_a:job_postings!job_posting_duplicates_posting_a_id_fkey(${SUMMARY_SELECT}),
+       posting_b:job_postings!job_posting_duplicates_posting_b_id_fkey(${SUMMARY_SELECT})`,
+      { count: 'exact' },
+    )
+    .eq('status', filters.status)
+    .order(filters.status === 'pending' ? 'score' : 'created_at', { ascending: false })
+    .range(from, from + filters.pageSize - 1)
+  if (error) throw new Error(`job-dedup list: ${error.message}`)
+  return {
+    rows: (data ?? []) as unknown as DuplicatePairRow[],
+    total: count ?? 0,
+    page: filters.page,
+    pageSize: filters.pageSize,
+  }
+}
+
+/**
+ * Reviewbeslissing op een paar. merge: beide groepen samenvoegen (optioneel met
+ * geforceerde canonical). reject: paar markeren; was het al (auto) samengevoegd,
+ * dan wordt de niet-canonical weer losgekoppeld.
+ */
+export async function resolveDuplicate(
+  sb: SupabaseClient,
+  id: string,
+  input: ResolveDuplicateInput,
+  userId: string | null,
+): Promise<{ status: DuplicateStatus; canonical_id: string | null }> {
+  const { data: pair, error } = await sb
+    .from('job_posting_duplicates')
+    .select('id, posting_a_id, posting_b_id, status')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw new Error(`job-dedup resolve: ${error.message}`)
+  if (!pair) throw new Error('Duplicaat-paar niet gevonden')
+
+  const ids = [pair.posting_a_id as string, pair.posting_b_id as string]
+  if (input.canonical_id && !ids.includes(input.canonical_id)) {
+    throw new Error('canonical_id hoort niet bij dit paar')
+  }
+
+  let status: DuplicateStatus
+  let canonicalId: string | null = null
+  if (input.action === 'merge') {
+    const merged = await mergeGroup(sb, ids, input.canonical_id)
+    status = 'merged'
+    canonicalId = merged.canonical_id
+  } else {
+    status = 'rejected'
+    if (pair.status === 'auto_merged' || pair.status === 'merged') {
+      const group = await loadGroup(sb, ids)
+      const a = group.find((p) => p.id === ids[0])
+      const b = group.find((p) => p.id === ids[1])
+      // Detach de sibling; zijn beide siblings van een derde canonical, dan b.
+      const target = a && !a.canonical_id ? ids[1] : b && !b.canonical_id ? ids[0] : ids[1]
+      await detachPosting(sb, target)
+    }
+  }
+
+  const { error: updErr } = await sb
+    .from('job_posting_duplicates')
+    .update({ status, reviewed_at: new Date().toISOString(), reviewed_by: userId })
+    .eq('id', id)
+  if (updErr) throw new Error(`job-dedup resolve: ${updErr.message}`)
+  return { status, canonical_id: canonicalId }
+}
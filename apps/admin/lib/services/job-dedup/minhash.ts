@@ -0,0 +1,152 @@
+/**
+ * MinHash-fingerprints voor near-duplicate vacatures.
+ *
+ * Zelfde vacature via verschillende bronnen verschilt vaak in opmaak, een
+ * "(m/v)"-suffix of een extra alinea. Vergelijking daarom op genormaliseerde
+ * titel-tokens (Jaccard) en op woord-3-gram shingles van de beschrijving
+ * (MinHash-schatting van de Jaccard). LSH-banden beperken de kandidaten: twee
+ * vacatures worden alleen vergeleken als ze minstens één band delen.
+ *
+ * Puur, geen I/O. Hashes zijn 31-bit zodat ze in een Postgres int4[] passen.
+ */
+
+import { stripHtmlTags } from '@/lib/scrapers/shared/utils'
+
+export const NUM_HASHES = 64
+export const BANDS = 16
+export const ROWS_PER_BAND = NUM_HASHES / BANDS
+const SHINGLE_SIZE = 3
+const HASH_MASK = 0x7fffffff
+
+export interface Fingerprint {
+  titleNorm: string
+  cityNorm: string | null
+  /** null als de beschrijving te kort is voor een zinvolle signatuur. */
+  minhash: number[] | null
+  lshBands: string[]
+}
+
+// Geslachts-/uren-markers en ruis die tussen bronnen verschilt.
+const TITLE_NOISE = [
+  /\(\s*[mvfhx](\s*\/\s*[mvfhx])+\s*\)/gi,
+  /\b[mvfhx](\s*\/\s*[mvfhx])+\b/gi,
+  /\b\d{1,2}\s*(-|tot|t\/m)\s*\d{1,2}\s*(uur|u)\b/gi,
+  /\b\d{1,2}\s*(uur|u)\b/gi,
+  /\b(fulltime|parttime|full-time|part-time)\b/gi,
+  /\bvacature\b/gi,
+]
+
+function foldText(s: string): string {
+  return s
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export function normalizeTitle(title: string): string {
+  let t = title
+  for (const re of TITLE_NOISE) t = t.replace(re, ' ')
+  return foldText(t)
+}
+
+export function normalizeCity(city: string | null | undefined): string | null {
+  if (!city) return null
+  const c = foldText(city)
+  return c || null
+}
+
+function tokens(s: string): string[] {
+  return s.split(' ').filter(Boolean)
+}
+
+/** Jaccard op unieke tokens van twee (al genormaliseerde) titels. */
+export function titleSimilarity(a: string, b: string): number {
+  const ta = new Set(tokens(a))
+  const tb = new Set(tokens(b))
+  if (ta.size === 0 || tb.size === 0) return 0
+  let inter = 0
+  for (const t of ta) if (tb.has(t)) inter++
+  return inter / (ta.size + tb.size - inter)
+}
+
+/** Woord-3-gram shingles van (HTML-)beschrijvingstekst. */
+export function shingles(description: string): Set<string> {
+  const words = tokens(foldText(stripHtmlTags(description)))
+  const out = new Set<string>()
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    out.add(words.slice(i, i + SHINGLE_SIZE).join(' '))
+  }
+  return out
+}
+
+// FNV-1a over de UTF-16 code units, daarna per seed een murmur3-finalizer.
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+function fmix32(h: number): number {
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0)
+
+export function minhashSignature(items: Set<string>): number[] | null {
+  if (items.size === 0) return null
+  const sig = new Array<number>(NUM_HASHES).fill(HASH_MASK)
+  for (const item of items) {
+    const base = fnv1a(item)
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = fmix32(base ^ SEEDS[i]) & HASH_MASK
+      if (h < sig[i]) sig[i] = h
+    }
+  }
+  return sig
+}
+
+/** Geschatte Jaccard: fractie gelijke posities in de signaturen. */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let same = 0
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++
+  return same / a.length
+}
+
+/** Band-keys `${band}:${hash}`; met 16x4 delen paren vanaf ~0.6 Jaccard vrijwel altijd een band. */
+export function lshBands(sig: number[]): string[] {
+  const out: string[] = []
+  for (let b = 0; b < BANDS; b++) {
+    const rows = sig.slice(b * ROWS_PER_BAND, (b + 1) * ROWS_PER_BAND).join(',')
+    out.push(`${b}:${fnv1a(rows).toString(36)}`)
+  }
+  return out
+}
+
+/**
+ * Fingerprint van een vacature. Zonder bruikbare beschrijving valt de LSH terug
+ * op één titel-band (`t:<titel>`), zodat kale werk.nl-rijen nog kandidaat worden
+ * voor vacatures met exact dezelfde genormaliseerde titel.
+ */
+export function fingerprint(input: {
+  title: string
+  description: string | null
+  city: string | null
+}): Fingerprint {
+  const titleNorm = normalizeTitle(input.title)
+  const sh = input.description ? shingles(input.description) : new Set<string>()
+  const minhash = sh.size >= 5 ? minhashSignature(sh) : null
+  const bands = minhash ? lshBands(minhash) : []
+  bands.push(`t:${titleNorm}`)
+  return { titleNorm, cityNorm: normalizeCity(input.city), minhash, lshBands: bands }
+}
@@ -0,0 +1,132 @@
+/**
+ * Vacature-attributie voor het admin-dashboard: views, sollicitatiekliks,
+ * native sollicitaties, opslaan en delen per portaal, bedrijf, vacature,
+ * bron en UTM. Leest de dagtabel `job_event_daily` (gevuld door de publieke
+ * sites via `record_job_event`) via de RPC `job_event_report`.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database } from "@/lib/supabase"
+
+export const REPORT_DEFAULT_DAYS = 30
+export const REPORT_MAX_DAYS = 366
+
+export type ReportGroup = "day" | "company" | "job" | "source" | "utm_source" | "utm_campaign"
+
+export interface EventCounts {
+  views: number
+  apply_clicks: number
+  applications: number
+  saves: number
+  shares: number
+}
+
+export interface ReportRow extends EventCounts {
+  key: string
+  label: string
+}
+
+export interface JobEventReport {
+  from: string
+  to: string
+  totals: EventCounts & { apply_rate: number | null }
+  days: ReportRow[]
+  /** Leeg als het rapport al op één bedrijf gefilterd is. */
+  companies: ReportRow[]
+  jobs: ReportRow[]
+  sources: ReportRow[]
+  utm_sources: ReportRow[]
+  utm_campaigns: ReportRow[]
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function isoDay(d: Date): string {
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * `?from=&to=` (YYYY-MM-DD) -> geldige periode. Standaard de laatste 30
+ * dagen t/m vandaag; bij een omgekeerde of te lange periode (> 366 dagen)
+ * vallen we terug op de 30 dagen tot `to`.
+ */
+export function parseReportRange(
+  from: string | null | undefined,
+  to: string | null | undefined,
+  now: Date = new Date(),
+): { from: string; to: string } {
+  const valid = (v: string | null | undefined): v is string =>
+    !!v && DATE_RE.test(v) && !Number.isNaN(Date.parse(v))
+  const end = valid(to) ? to : isoDay(now)
+  const endMs = Date.parse(end)
+  const defaultStart = isoDay(new Date(endMs - (REPORT_DEFAULT_DAYS - 1) * 86_400_000))
+  if (!valid(from)) return { from: defaultStart, to: end }
+  const startMs = Date.parse(from)
+  const tooLong = startMs < endMs - (REPORT_MAX_DAYS - 1) * 86_400_000
+  return { from: startMs > endMs || tooLong ? defaultStart : from, to: end }
+}
+
+export function sumCounts(rows: EventCounts[]): EventCounts & { apply_rate: number | null } {
+  const totals = rows.reduce<EventCounts>(
+    (acc, r) => ({
+      views: acc.views + r.views,
+      apply_clicks: acc.apply_clicks + r.apply_clicks,
+      applications: acc.applications + r.applications,
+      saves: acc.saves + r.saves,
+      shares: acc.shares + r.shares,
+    }),
+    { views: 0, apply_clicks: 0, applications: 0, saves: 0, shares: 0 },
+  )
+  const conversions = totals.apply_clicks + totals.applications
+  return {
+    ...totals,
+    apply_rate: totals.views > 0 ? Math.round((conversions / totals.views) * 1000) / 10 : null,
+  }
+}
+
+export async function getJobEventReport(
+  supabase: SupabaseClient<Database>,
+  input: { platformId: string | null; companyId?: string | null; from: string; to: string },
+): Promise<JobEventReport> {
+  const run = async (group: ReportGroup, limit = 50): Promise<ReportRow[]> => {
+    const { data, error } = await supabase.rpc("job_event_report", {
+      p_platform_id: input.platformId,
+      p_from: input.from,
+      p_to: input.to,
+      p_group: group,
+      p_company_id: input.companyId ?? undefined,
+      p_limit: limit,
+    })
+    if (error) throw new Error(`job_event_report(${group}): ${error.message}`)
+    return (data ?? []).map((r) => ({
+      key: r.group_key,
+      label: r.group_label ?? (r.group_key || "(geen)"),
+      views: Number(r.views),
+      apply_clicks: Number(r.apply_clicks),
+      applications: Number(r.applications),
+      saves: Number(r.saves),
+      shares: Number(r.shares),
+    }))
+  }
+
+  const [days, companies, jobs, sources, utmSources, utmCampaigns] = await Promise.all([
+    run("day"),
+    input.companyId ? Promise.resolve([]) : run("company", 25),
+    run("job", 25),
+    run("source", 20),
+    run("utm_source", 20),
+    run("utm_campaign", 20),
+  ])
+
+  return {
+    from: input.from,
+    to: input.to,
+    totals: sumCounts(days),
+    days,
+    companies,
+    jobs,
+    sources,
+    utm_sources: utmSources,
+    utm_campaigns: utmCampaigns,
+  }
+}
@@ -5,10 +5,12 @@
  * 2. Create company if needed (with email from contacts)
  * 3. Generate AI content (function_description, function_demands, etc.)
  * 4. Create vacancy via LB API
+ * 5. Record the push in lokalebanen_push_state (content hash for later updates)
  */
 
-import { getLokaleBanenClient } from '@/lib/lokalebanen-client'
+import { getLokaleBanenClient, type LBVacancyCreate } from '@/lib/lokalebanen-client'
 import { generateVacancyContent } from '@/lib/services/lokalebanen-content.service'
+import { generateContentHash } from '@/lib/data-hashing'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
 // ============================================================================
@@ -38,7 +40,7 @@ export interface PushResult {
   }>
 }
 
-interface JobPostingWithCompany {
+export interface JobPostingWithCompany {
   id: string
   title: string
   description: string | null
@@ -55,6 +57,7 @@ interface JobPostingWithCompany {
   platform_id: string | null
   salary: string | null
   lokalebanen_id: string | null
+  lokalebanen_pushed_at: string | null
   company_id: string
   companies: {
     id: string
@@ -74,6 +77,31 @@ interface MappingRow {
   their_value: string | null
 }
 
+export interface PushMappings {
+  /** "type:our_value" → LB value */
+  mappingMap: Map<string, string | null>
+  /** platform id → regio_platform */
+  platformMap: Map<string, string>
+}
+
+/**
+ * Job posting fields that end up (directly or via AI content) in the LB
+ * vacancy. A change in any of these means the LB copy is out of date.
+ */
+export const LB_CONTENT_FIELDS = [
+  'title', 'description', 'city', 'employment', 'education_level', 'categories',
+  'working_hours_min', 'working_hours_max', 'salary', 'end_date', 'platform_id',
+] as const
+
+export const LB_JOB_POSTING_SELECT = `
+  id, title, description, city, zipcode, street, employment, education_level,
+  categories, working_hours_min, working_hours_max, end_date, created_at,
+  salary, platform_id, lokalebanen_id, lokalebanen_pushed_at, company_id,
+  companies!inner (
+    id, name, city, street_address, postal_code, phone, description, lokalebanen_id
+  )
+`
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -125,6 +153,154 @@ function getPrimaryEmployment(employment: string | null): string | null {
   return employment.split(',')[0].trim()
 }
 
+export function lokaleBanenContentHash(jp: Record<string, unknown>): string {
+  return generateContentHash(jp, LB_CONTENT_FIELDS)
+}
+
+/**
+ * Load the LB value mappings and the platform names needed to resolve domains
+ */
+export async function loadPushMappings(
+  supabase: SupabaseClient,
+  platformIds: string[]
+): Promise<PushMappings> {
+  const { data: mappings } = await supabase
+    .from('lokalebanen_mappings')
+    .select('type, our_value, their_value')
+
+  const mappingMap = new Map<string, string | null>()
+  for (const m of (mappings || []) as MappingRow[]) {
+    mappingMap.set(`${m.type}:${m.our_value}`, m.their_value)
+  }
+
+  const { data: platforms } = await supabase
+    .from('platforms')
+    .select('id, regio_platform')
+    .in('id', platformIds)
+
+  const platformMap = new Map<string, string>()
+  for (const p of (platforms || []) as any[]) {
+    platformMap.set(p.id, p.regio_platform)
+  }
+
+  return { mappingMap, platformMap }
+}
+
+/**
+ * Resolve the LB domain for a job posting via its platform
+ */
+export function resolveDomain(jp: Pick<JobPostingWithCompany, 'platform_id'>, mappings: PushMappings): string | null {
+  const platformName = jp.platform_id ? mappings.platformMap.get(jp.platform_id) : null
+  return (platformName ? mappings.mappingMap.get(`domain:${platformName}`) : null) || null
+}
+
+/**
+ * Build the LB vacancy payload: generate AI content, fill missing fields from
+ * the AI extraction and resolve the LB mappings. `enrichUpdates` holds the
+ * extracted values for fields that are empty in our DB.
+ */
+export async function buildVacancyPayload(
+  jp: JobPostingWithCompany,
+  domain: string,
+  lbCompanyId: string,
+  mappingMap: Map<string, string | null>,
+  startAt: Date = new Date()
+): Promise<{ payload: LBVacancyCreate; enrichUpdates: Record<string, unknown> }> {
+  const company = jp.companies
+
+  // Resolve mappings from our own values
+  const primaryCategory = getPrimaryCategory(jp.categories)
+  const sector = primaryCategory ? mappingMap.get(`sector:${primaryCategory}`) : null
+  const primaryEmployment = getPrimaryEmployment(jp.employment)
+  const employment = primaryEmployment ? mappingMap.get(`employment:${primaryEmployment}`) : null
+  const education = jp.education_level ? mappingMap.get(`education:${jp.education_level}`) : null
+
+  // Tell AI which fields are missing so it focuses on extracting those
+  const missingFields = {
+    employment: !jp.employment,
+    education_level: !jp.education_level,
+    categories: !jp.categories,
+    salary: !jp.working_hours_min,
+    working_hours_min: !jp.working_hours_min,
+    working_hours_max: !jp.working_hours_max,
+    city: !jp.city,
+  }
+
+  const aiResult = await generateVacancyContent(
+    jp.title,
+    jp.description || '',
+    company.name,
+    company.description,
+    missingFields
+  )
+
+  // Use AI-extracted values as fallbacks for missing fields
+  const effectiveEmployment = jp.employment || aiResult.extracted.employment
+  const effectiveEducation = jp.education_level || aiResult.extracted.education_level
+  const effectiveCategories = jp.categories || aiResult.extracted.categories
+  const effectiveCity = jp.city || aiResult.extracted.city || company.city || 'Onbekend'
+  const effectiveHoursMin = jp.working_hours_min ?? aiResult.extracted.working_hours_min
+  const effectiveHoursMax = jp.working_hours_max ?? aiResult.extracted.working_hours_max
+
+  // Re-resolve mappings with AI-extracted values if originals were missing
+  const finalEmployment = effectiveEmployment
+    ? (mappingMap.get(`employment:${getPrimaryEmployment(effectiveEmployment)}`) || employment)
+    : employment
+  const finalEducation = effectiveEducation
+    ? (mappingMap.get(`education:${effectiveEducation}`) || education)
+    : education
+  const finalSector = effectiveCategories
+    ? (mappingMap.get(`sector:${getPrimaryCategory(effectiveCategories)}`) || sector)
+    : sector
+
+  // Extracted fields to write back to our DB (enrich our data)
+  const enrichUpdates: Record<string, unknown> = {}
+  if (!jp.employment && aiResult.extracted.employment) enrichUpdates.employment = aiResult.extracted.employment
+  if (!jp.education_level && aiResult.extracted.education_level) enrichUpdates.education_level = aiResult.extracted.education_level
+  if (!jp.categories && aiResult.extracted.categories) enrichUpdates.categories = aiResult.extracted.categories
+  if (!jp.city && aiResult.extracted.city) enrichUpdates.city = aiResult.extracted.city
+  if (!jp.salary && aiResult.extracted.salary) enrichUpdates.salary = aiResult.extracted.salary
+  if (jp.working_hours_min == null && aiResult.extracted.working_hours_min != null) enrichUpdates.working_hours_min = aiResult.extracted.working_hours_min
+  if (jp.working_hours_max == null && aiResult.extracted.working_hours_max != null) enrichUpdates.working_hours_max = aiResult.extracted.working_hours_max
+
+  const endDate = jp.end_date
+    ? new Date(jp.end_date)
+    : new Date(Date.now() + 60 * 24 * 60 * 60 * 1000) // +60 days default
+
+  return {
+    payload: {
+      domain,
+      title: jp.title,
+      city: effectiveCity,
+      company_id: lbCompanyId,
+      start_at: startAt.toISOString(),
+      end_at: endDate.toISOString(),
+      sector: finalSector || 'overig',
+      employments: finalEmployment || 'fulltime',
+      educations: finalEducation || 'overig',
+      weeklyhours: formatWeeklyHours(effectiveHoursMin, effectiveHoursMax),
+      function_description: aiResult.content.function_description || undefined,
+      function_demands: aiResult.content.function_demands || undefined,
+      company_profile: aiResult.content.company_profile || undefined,
+      interest_text: aiResult.content.interest_text || undefined,
+    },
+    enrichUpdates,
+  }
+}
+
+/**
+ * Write extracted fields back to the job posting (only fields that were empty)
+ */
+export async function applyEnrichUpdates(
+  supabase: SupabaseClient,
+  jp: Pick<JobPostingWithCompany, 'id' | 'title'>,
+  enrichUpdates: Record<string, unknown>
+): Promise<void> {
+  if (Object.keys(enrichUpdates).length === 0) return
+  await supabase.from('job_postings').update(enrichUpdates).eq('id', jp.id)
+  console.log(`📝 Enriched ${Object.keys(enrichUpdates).length} fields for "${jp.title}"`)
+}
+
 // ============================================================================
 // VALIDATION
 // ============================================================================
@@ -279,14 +455,7 @@ export async function pushJobPostingsToLB(
   // Fetch all data upfront
   const { data: jobPostings, error } = await supabase
     .from('job_postings')
-    .select(`
-      id, title, description, city, zipcode, street, employment, education_level,
-      categories, working_hours_min, working_hours_max, end_date, created_at,
-      salary, platform_id, lokalebanen_id, company_id,
-      companies!inner (
-        id, name, city, street_address, postal_code, phone, description, lokalebanen_id
-      )
-    `)
+    .select(LB_JOB_POSTING_SELECT)
     .in('id', jobPostingIds)
     .is('archived_at', null)
 
@@ -295,27 +464,9 @@ export async function pushJobPostingsToLB(
     return result
   }
 
-  // Fetch mappings
-  const { data: mappings } = await supabase
-    .from('lokalebanen_mappings')
-    .select('type, our_value, their_value')
-
-  const mappingMap = new Map<string, string | null>()
-  for (const m of (mappings || []) as MappingRow[]) {
-    mappingMap.set(`${m.type}:${m.our_value}`, m.their_value)
-  }
-
-  // Fetch platform names
+  // Fetch mappings + platform names
   const platformIds = [...new Set(jobPostings.map((jp: any) => jp.platform_id).filter(Boolean))]
-  const { data: platforms } = await supabase
-    .from('platforms')
-    .select('id, regio_platform')
-    .in('id', platformIds)
-
-  const platformMap = new Map<string, string>()
-  for (const p of (platforms || []) as any[]) {
-    platformMap.set(p.id, p.regio_platform)
-  }
+  const mappings = await loadPushMappings(supabase, platformIds)
 
   // Fetch emails for companies
   const companyIds = [...new Set(jobPostings.map((jp: any) => (jp.companies as any).id))]
@@ -369,8 +520,7 @@ export async function pushJobPostingsToLB(
       }
 
       // Resolve domain mapping
-      const platformName = jp.platform_id ? platformMap.get(jp.platform_id) : null
-      const domain = platformName ? mappingMap.get(`domain:${platformName}`) : null
+      const domain = resolveDomain(jp, mappings)
       if (!domain) {
         result.skipped++
         result.details.push({ jobPostingId: jp.id, title: jp.title, status: 'skipped', reason: 'Geen domain mapping' })
@@ -378,17 +528,6 @@ export async function pushJobPostingsToLB(
         continue
       }
 
-      // Resolve sector mapping
-      const primaryCategory = getPrimaryCategory(jp.categories)
-      const sector = primaryCategory ? mappingMap.get(`sector:${primaryCategory}`) : null
-
-      // Resolve employment mapping
-      const primaryEmployment = getPrimaryEmployment(jp.employment)
-      const employment = primaryEmployment ? mappingMap.get(`employment:${primaryEmployment}`) : null
-
-      // Resolve education mapping
-      const education = jp.education_level ? mappingMap.get(`education:${jp.education_level}`) : null
-
       // ----------------------------------------------------------------
       // Step 1: Resolve company (3-layer dedup)
       //   1. Check our DB (lokalebanen_id on companies table)
@@ -471,91 +610,39 @@ export async function pushJobPostingsToLB(
       // ----------------------------------------------------------------
       onProgress({ type: 'ai_generating', jobPostingId: jp.id, current, total, title: jp.title, message: `AI content genereren...` })
 
-      // Tell AI which fields are missing so it focuses on extracting those
-      const missingFields = {
-        employment: !jp.employment,
-        education_level: !jp.education_level,
-        categories: !jp.categories,
-        salary: !jp.working_hours_min,
-        working_hours_min: !jp.working_hours_min,
-        working_hours_max: !jp.working_hours_max,
-        city: !jp.city,
-      }
-
-      const aiResult = await generateVacancyContent(
-        jp.title,
-        jp.description || '',
-        company.name,
-        company.description,
-        missingFields
-      )
-
-      // Use AI-extracted values as fallbacks for missing fields
-      const effectiveEmployment = jp.employment || aiResult.extracted.employment
-      const effectiveEducation = jp.education_level || aiResult.extracted.education_level
-      const effectiveCategories = jp.categories || aiResult.extracted.categories
-      const effectiveCity = jp.city || aiResult.extracted.city || company.city || 'Onbekend'
-      const effectiveHoursMin = jp.working_hours_min ?? aiResult.extracted.working_hours_min
-      const effectiveHoursMax = jp.working_hours_max ?? aiResult.extracted.working_hours_max
-      const effectiveSalary = jp.salary || aiResult.extracted.salary
-
-      // Re-resolve mappings with AI-extracted values if originals were missing
-      const finalEmployment = effectiveEmployment
-        ? (mappingMap.get(`employment:${getPrimaryEmployment(effectiveEmployment)}`) || employment)
-        : employment
-      const finalEducation = effectiveEducation
-        ? (mappingMap.get(`education:${effectiveEducation}`) || education)
-        : education
-      const finalSector = effectiveCategories
-        ? (mappingMap.get(`sector:${getPrimaryCategory(effectiveCategories)}`) || sector)
-        : sector
-
-      // Write extracted fields back to our DB (enrich our data)
-      const enrichUpdates: Record<string, any> = {}
-      if (!jp.employment && aiResult.extracted.employment) enrichUpdates.employment = aiResult.extracted.employment
-      if (!jp.education_level && aiResult.extracted.education_level) enrichUpdates.education_level = aiResult.extracted.education_level
-      if (!jp.categories && aiResult.extracted.categories) enrichUpdates.categories = aiResult.extracted.categories
-      if (!jp.city && aiResult.extracted.city) enrichUpdates.city = aiResult.extracted.city
-      if (!jp.salary && aiResult.extracted.salary) enrichUpdates.salary = aiResult.extracted.salary
-      if (jp.working_hours_min == null && aiResult.extracted.working_hours_min != null) enrichUpdates.working_hours_min = aiResult.extracted.working_hours_min
-      if (jp.working_hours_max == null && aiResult.extracted.working_hours_max != null) enrichUpdates.working_hours_max = aiResult.extracted.working_hours_max
-
-      if (Object.keys(enrichUpdates).length > 0) {
-        await supabase.from('job_postings').update(enrichUpdates).eq('id', jp.id)
-        console.log(`📝 Enriched ${Object.keys(enrichUpdates).length} fields for "${jp.title}"`)
-      }
+      const { payload, enrichUpdates } = await buildVacancyPayload(jp, domain, lbCompanyId, mappings.mappingMap)
+      await applyEnrichUpdates(supabase, jp, enrichUpdates)
 
       // ----------------------------------------------------------------
       // Step 3: Create vacancy
       // ----------------------------------------------------------------
-      const now = new Date()
-      const endDate = jp.end_date
-        ? new Date(jp.end_date)
-        : new Date(now.getTime() + 60 * 24 * 60 * 60 * 1000) // +60 days default
-
-      const vacancyResponse = await client.createVacancy({
-        domain,
-        title: jp.title,
-        city: effectiveCity,
-        company_id: lbCompanyId,
-        start_at: now.toISOString(),
-        end_at: endDate.toISOString(),
-        sector: finalSector || 'overig',
-        employments: finalEmployment || 'fulltime',
-        educations: finalEducation || 'overig',
-        weeklyhours: formatWeeklyHours(effectiveHoursMin, effectiveHoursMax),
-        function_description: aiResult.content.function_description || undefined,
-        function_demands: aiResult.content.function_demands || undefined,
-        company_profile: aiResult.content.company_profile || undefined,
-        interest_text: aiResult.content.interest_text || undefined,
-      })
-
-      // Save LB vacancy ID
+      const vacancyResponse = await client.createVacancy(payload)
+
+      // Save LB vacancy ID + push state (hash over the enriched row)
+      const pushedAt = new Date().toISOString()
       await supabase
         .from('job_postings')
-        .update({ lokalebanen_id: vacancyResponse.id, lokalebanen_pushed_at: new Date().toISOString() })
+        .update({ lokalebanen_id: vacancyResponse.id, lokalebanen_pushed_at: pushedAt })
         .eq('id', jp.id)
 
+      await supabase
+        .from('lokalebanen_push_state')
+        .upsert({
+          job_posting_id: jp.id,
+          lokalebanen_id: vacancyResponse.id,
+          lb_company_id: lbCompanyId,
+          domain,
+          content_hash: lokaleBanenContentHash({ ...jp, ...enrichUpdates }),
+          state: 'live',
+          pushed_at: pushedAt,
+          synced_at: pushedAt,
+          withdrawn_at: null,
+          withdraw_reason: null,
+          last_error: null,
+          error_count: 0,
+          updated_at: pushedAt,
+        }, { onConflict: 'job_posting_id' })
+
       result.success++
       result.details.push({ jobPostingId: jp.id, title: jp.title, status: 'created', lokaleBanenId: vacancyResponse.id })
       onProgress({ type: 'vacancy_created', jobPostingId: jp.id, current, total, title: jp.title, message: `Vacature aangemaakt op Lokale Banen` })
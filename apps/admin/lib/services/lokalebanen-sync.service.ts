@@ -0,0 +1,146 @@
+/**
+ * Lokale Banen Sync Service
+ * Keeps pushed vacancies on the Lokale Banen jobboard in line with our data:
+ * compares each live row in lokalebanen_push_state with the current job
+ * posting and decides whether the LB copy must be updated or withdrawn.
+ *
+ * - withdraw: job posting archived, rejected in review or deleted
+ * - update:   content hash over LB_CONTENT_FIELDS differs from the last push
+ * - baseline: no hash yet (pushed before push-state existed), adopt current
+ *
+ * Used by the lokalebanen-sync cron and by GET /api/lokalebanen/validate
+ * (drift report).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { lokaleBanenContentHash, type JobPostingWithCompany } from '@/lib/services/lokalebanen-push.service'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WithdrawReason = 'archived' | 'rejected' | 'deleted'
+
+export type DriftAction = 'in_sync' | 'baseline' | 'update' | 'withdraw'
+
+export interface PushStateRow {
+  id: string
+  job_posting_id: string | null
+  lokalebanen_id: string
+  lb_company_id: string | null
+  domain: string | null
+  content_hash: string | null
+  pushed_at: string
+  last_error: string | null
+  error_count: number
+}
+
+export type SyncJobPosting = Omit<JobPostingWithCompany, 'companies'> & {
+  archived_at: string | null
+  review_status: string | null
+  companies: JobPostingWithCompany['companies'] | null
+}
+
+export interface DriftItem {
+  state: PushStateRow
+  job: SyncJobPosting | null
+  action: DriftAction
+  reason?: WithdrawReason
+  currentHash?: string
+}
+
+export interface DriftReport {
+  items: DriftItem[]
+  summary: {
+    live: number
+    inSync: number
+    baseline: number
+    update: number
+    withdraw: number
+    /** Rows that failed MAX_SYNC_ERRORS times in a row; skipped by the cron */
+    stuck: number
+  }
+}
+
+/** After this many consecutive failures the cron stops retrying a row */
+export const MAX_SYNC_ERRORS = 5
+
+const PAGE_SIZE = 1000
+const ID_CHUNK = 200
+
+const PUSH_STATE_SELECT =
+  'id, job_posting_id, lokalebanen_id, lb_company_id, domain, content_hash, pushed_at, last_error, error_count'
+
+const SYNC_JOB_POSTING_SELECT = `
+  id, title, description, city, zipcode, street, employment, education_level,
+  categories, working_hours_min, working_hours_max, end_date, created_at,
+  salary, platform_id, lokalebanen_id, lokalebanen_pushed_at, company_id,
+  archived_at, review_status,
+  companies (
+    id, name, city, street_address, postal_code, phone, description, lokalebanen_id
+  )
+`
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Decide what the LB copy of a pushed vacancy needs
+ */
+export function classifyPushState(
+  state: Pick<PushStateRow, 'content_hash'>,
+  job: Pick<SyncJobPosting, 'archived_at' | 'review_status'> | null
+): Omit<DriftItem, 'state' | 'job'> {
+  if (!job) return { action: 'withdraw', reason: 'deleted' }
+  if (job.archived_at) return { action: 'withdraw', reason: 'archived' }
+  if (job.review_status === 'rejected') return { action: 'withdraw', reason: 'rejected' }
+
+  const currentHash = lokaleBanenContentHash(job as Record<string, unknown>)
+  if (!state.content_hash) return { action: 'baseline', currentHash }
+  if (state.content_hash !== currentHash) return { action: 'update', currentHash }
+  return { action: 'in_sync', currentHash }
+}
+
+/**
+ * Load all live push states with their job postings and classify them
+ */
+export async function loadLokaleBanenDrift(supabase: SupabaseClient): Promise<DriftReport> {
+  const states: PushStateRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('lokalebanen_push_state')
+      .select(PUSH_STATE_SELECT)
+      .eq('state', 'live')
+      .order('pushed_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to fetch push state: ${error.message}`)
+    states.push(...((data ?? []) as PushStateRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const jobIds = states.map(s => s.job_posting_id).filter((id): id is string => !!id)
+  const jobs = new Map<string, SyncJobPosting>()
+  for (let i = 0; i < jobIds.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('job_postings')
+      .select(SYNC_JOB_POSTING_SELECT)
+      .in('id', jobIds.slice(i, i + ID_CHUNK))
+    if (error) throw new Error(`Failed to fetch job postings: ${error.message}`)
+    for (const jp of (data ?? []) as unknown as SyncJobPosting[]) {
+      jobs.set(jp.id, jp)
+    }
+  }
+
+  const summary: DriftReport['summary'] = { live: states.length, inSync: 0, baseline: 0, update: 0, withdraw: 0, stuck: 0 }
+  const items: DriftItem[] = states.map(state => {
+    const job = state.job_posting_id ? jobs.get(state.job_posting_id) ?? null : null
+    const item: DriftItem = { state, job, ...classifyPushState(state, job) }
+    if (item.action === 'in_sync') summary.inSync++
+    else summary[item.action]++
+    if (item.action !== 'in_sync' && state.error_count >= MAX_SYNC_ERRORS) summary.stuck++
+    return item
+  })
+
+  return { items, summary }
+}
@@ -0,0 +1,476 @@
+/**
+ * Inbound Pipedrive-sync: webhook-events van organisaties, personen en deals
+ * terugschrijven naar `companies` en `contacts`. De uitgaande kant staat in
+ * pipedrive-sync.service.ts / instantly-pipedrive-sync.service.ts.
+ *
+ * Conflictregels (spiegel van de uitgaande "aanvullen"-regel):
+ *   - Pipedrive is leidend voor wat sales beheert: "Status prospect" van de
+ *     org (-> companies.status, pipedrive_status, is_customer), een gewonnen
+ *     deal (-> Klant), verwijderen en samenvoegen (-> koppeling los of
+ *     omhangen).
+ *   - Voor verrijkte velden is OTIS leidend: een persoon vult alleen lege
+ *     naam-, e-mail- en telefoonvelden aan, overschrijft nooit.
+ *   - Echo's van onze eigen API-calls (`change_source = 'api'`) worden
+ *     overgeslagen; die wijziging staat lokaal al goed en zou anders een lus
+ *     geven. Alleen de spiegel `pipedrive_status` volgt ook een echo: die
+ *     stuurt niets terug naar Pipedrive, en checkPipedriveKlantStatus leest
+ *     hem vóór de live lookup.
+ *   - Out-of-order: een event ouder dan `pipedrive_updated_at` van de rij
+ *     wordt voor die rij overgeslagen.
+ *
+ * Elk event komt in `pipedrive_webhook_events`; `event_id` is uniek zodat een
+ * retry van Pipedrive niet twee keer wordt toegepast.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PIPEDRIVE_FIELD_IDS, getStatusKey, type StatusKey } from '@/lib/constants/status-config'
+
+export type PipedriveEntity = 'organization' | 'person' | 'deal'
+export type PipedriveAction = 'create' | 'change' | 'delete' | 'merge'
+
+export interface PipedriveWebhookEvent {
+  eventId: string
+  entity: PipedriveEntity
+  action: PipedriveAction
+  entityId: number
+  /** Bij een merge: de entiteit die is opgegaan in `entityId`. */
+  mergedId: number | null
+  changeSource: string | null
+  occurredAt: string
+  current: Record<string, unknown> | null
+  previous: Record<string, unknown> | null
+}
+
+export type InboundStatus = 'applied' | 'skipped' | 'error'
+
+export interface InboundChange {
+  table: 'companies' | 'contacts'
+  id: string
+  fields: Record<string, unknown>
+}
+
+export interface InboundResult {
+  status: InboundStatus
+  reason?: string
+  changes: InboundChange[]
+}
+
+// ─── Normaliseren (webhooks v2 en v1) ───────────────────────────────
+
+const ENTITIES = new Set<PipedriveEntity>(['organization', 'person', 'deal'])
+
+/** v1 gebruikt werkwoorden in de verleden tijd. */
+const V1_ACTIONS: Record<string, PipedriveAction> = {
+  added: 'create',
+  updated: 'change',
+  deleted: 'delete',
+  merged: 'merge',
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null
+}
+
+function toId(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value
+  return typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : null
+}
+
+function toIso(value: unknown): string | null {
+  if (typeof value === 'number') return new Date(value * 1000).toISOString()
+  if (typeof value !== 'string' || !value) return null
+  const date = new Date(value.includes('T') || value.endsWith('Z') ? value : `${value.replace(' ', 'T')}Z`)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Webhook-body -> event, of null als het geen org/person/deal-event is.
+ * v2: `{ meta: { id, action, entity, entity_id, change_source, timestamp },
+ * data, previous }`. v1: `{ meta: { action, object, id, webhook_id,
+ * timestamp }, current, previous }`; bij een v1-merge is `current` de
+ * overblijvende en `previous` de opgegane entiteit.
+ */
+export function normalizePipedriveEvent(body: unknown): PipedriveWebhookEvent | null {
+  const root = asRecord(body)
+  const meta = asRecord(root?.meta)
+  if (!root || !meta) return null
+
+  const isV2 = meta.version === '2.0' || 'entity' in meta
+  const entity = (isV2 ? meta.entity : meta.object) as PipedriveEntity
+  if (!ENTITIES.has(entity)) return null
+
+  const rawAction = String(meta.action ?? '')
+  const action = isV2 ? (rawAction as PipedriveAction) : V1_ACTIONS[rawAction]
+  if (!action || !['create', 'change', 'delete', 'merge'].includes(action)) return null
+
+  const current = asRecord(isV2 ? root.data : root.current)
+  const previous = asRecord(root.previous)
+  const entityId = toId(isV2 ? meta.entity_id : meta.id) ?? toId(current?.id) ?? toId(previous?.id)
+  if (!entityId) return null
+
+  const occurredAt =
+    toIso(meta.timestamp) ?? toIso(current?.update_time) ?? new Date().toISOString()
+  const mergedId = action === 'merge' ? toId(previous?.id) : null
+
+  const eventId =
+    typeof meta.id === 'string' && isV2
+      ? meta.id
+      : [meta.webhook_id ?? 'v1', entity, entityId, rawAction, meta.timestamp_micro ?? meta.timestamp].join(':')
+
+  return {
+    eventId,
+    entity,
+    action,
+    entityId,
+    mergedId: mergedId && mergedId !== entityId ? mergedId : null,
+    changeSource: typeof meta.change_source === 'string' ? meta.change_source : null,
+    occurredAt,
+    current,
+    previous,
+  }
+}
+
+// ─── Velden uit de payload ──────────────────────────────────────────
+
+/**
+ * "Status prospect" van een org: v2 zet custom fields onder
+ * `custom_fields[hash]` (`{ id }` of de waarde), v1 direct op het object.
+ * `undefined` = veld niet in de payload, `null` = leeggemaakt.
+ */
+export function orgStatusKey(org: Record<string, unknown> | null): StatusKey | null | undefined {
+  if (!org) return undefined
+  const fieldId = PIPEDRIVE_FIELD_IDS.STATUS_PROSPECT
+  const custom = asRecord(org.custom_fields)
+  let raw: unknown
+  if (custom && fieldId in custom) raw = custom[fieldId]
+  else if (fieldId in org) raw = org[fieldId]
+  else return undefined
+
+  const option = asRecord(raw)
+  const id = toId(option ? (option.id ?? option.value) : raw)
+  return id ? getStatusKey(id) : null
+}
+
+/**
+ * Pipedrive-status -> `companies.status`. Null = lokale status niet
+ * aanraken: de Instantly-statussen zet de campagnesync zelf.
+ */
+const LOCAL_COMPANY_STATUS: Record<StatusKey, string | null> = {
+  KLANT: 'Klant',
+  IN_ONDERHANDELING: 'In onderhandeling',
+  BENADEREN: 'Benaderen',
+  OPNIEUW_BENADEREN: 'opnieuw benaderen',
+  NIET_MEER_BENADEREN: 'Niet meer benaderen',
+  IN_CAMPAGNE: null,
+  NIET_GEREAGEERD_INSTANTLY: null,
+}
+
+const PIPEDRIVE_STATUS_LABEL: Record<StatusKey, string> = {
+  KLANT: 'Klant',
+  IN_ONDERHANDELING: 'In onderhandeling',
+  BENADEREN: 'Benaderen',
+  OPNIEUW_BENADEREN: 'Opnieuw Benaderen',
+  NIET_MEER_BENADEREN: 'Niet meer Benaderen',
+  IN_CAMPAGNE: 'In campagne Instantly',
+  NIET_GEREAGEERD_INSTANTLY: 'Niet gereageerd Instantly',
+}
+
+/** Eerste waarde uit v2 `emails`/`phones` of v1 `email`/`phone` (`[{ value, primary }]`). */
+function firstValue(person: Record<string, unknown>, v2Key: string, v1Key: string): string | null {
+  const list = person[v2Key] ?? person[v1Key]
+  if (typeof list === 'string') return list.trim() || null
+  if (!Array.isArray(list)) return null
+  const items = list.map(asRecord).filter((i): i is Record<string, unknown> => !!i)
+  const pick = items.find((i) => i.primary) ?? items[0]
+  const value = typeof pick?.value === 'string' ? pick.value.trim() : ''
+  return value || null
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/** Org-id van een deal: v2 een getal, v1 soms `{ value }`. */
+function dealOrgId(deal: Record<string, unknown> | null): number | null {
+  if (!deal) return null
+  const org = asRecord(deal.org_id)
+  return toId(org ? org.value : deal.org_id)
+}
+
+// ─── Toepassen ──────────────────────────────────────────────────────
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Sb = SupabaseClient<any, 'public', any>
+
+interface CompanyRow {
+  id: string
+  status: string | null
+  is_customer: boolean | null
+  pipedrive_status: string | null
+  pipedrive_updated_at: string | null
+}
+
+interface ContactRow {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+  phone: string | null
+  pipedrive_updated_at: string | null
+}
+
+const isStale = (row: { pipedrive_updated_at: string | null }, event: PipedriveWebhookEvent) =>
+  !!row.pipedrive_updated_at && Date.parse(row.pipedrive_updated_at) > Date.parse(event.occurredAt)
+
+async function companiesFor(sb: Sb, orgId: number): Promise<CompanyRow[]> {
+  const { data, error } = await sb
+    .from('companies')
+    .select('id, status, is_customer, pipedrive_status, pipedrive_updated_at')
+    .eq('pipedrive_id', String(orgId))
+  if (error) throw new Error(`companies lookup: ${error.message}`)
+  return (data ?? []) as CompanyRow[]
+}
+
+async function contactsFor(sb: Sb, personId: number): Promise<ContactRow[]> {
+  const { data, error } = await sb
+    .from('contacts')
+    .select('id, first_name, last_name, email, phone, pipedrive_updated_at')
+    .eq('pipedrive_person_id', String(personId))
+  if (error) throw new Error(`contacts lookup: ${error.message}`)
+  return (data ?? []) as ContactRow[]
+}
+
+async function update(
+  sb: Sb,
+  table: InboundChange['table'],
+  id: string,
+  fields: Record<string, unknown>,
+  changes: InboundChange[],
+): Promise<void> {
+  const { error } = await sb.from(table).update(fields).eq('id', id)
+  if (error) throw new Error(`${table} update: ${error.message}`)
+  changes.push({ table, id, fields })
+}
+
+/** Rijen die nog niet door een nieuwer event zijn bijgewerkt; `stale` telt de rest. */
+function fresh<T extends { pipedrive_updated_at: string | null }>(rows: T[], event: PipedriveWebhookEvent) {
+  const keep = rows.filter((r) => !isStale(r, event))
+  return { rows: keep, stale: rows.length - keep.length }
+}
+
+function outcome(changes: InboundChange[], stale: number, fallback: string): InboundResult {
+  if (changes.length > 0) return { status: 'applied', changes }
+  return { status: 'skipped', reason: stale > 0 ? 'stale' : fallback, changes }
+}
+
+async function applyOrganization(sb: Sb, event: PipedriveWebhookEvent): Promise<InboundResult> {
+  const changes: InboundChange[] = []
+  const at = event.occurredAt
+
+  if (event.action === 'merge' && event.mergedId) {
+    // Opgegane org -> overblijvende org; status volgt hieronder.
+    for (const row of await companiesFor(sb, event.mergedId)) {
+      await update(sb, 'companies', row.id, { pipedrive_id: String(event.entityId), pipedrive_updated_at: at }, changes)
+    }
+  }
+
+  const linked = fresh(await companiesFor(sb, event.entityId), event)
+  if (linked.rows.length === 0 && changes.length === 0) {
+    return { status: 'skipped', reason: linked.stale > 0 ? 'stale' : 'unlinked', changes }
+  }
+
+  if (event.action === 'delete') {
+    for (const row of linked.rows) {
+      await update(
+        sb,
+        'companies',
+        row.id,
+        { pipedrive_id: null, pipedrive_synced: false, pipedrive_status: null, pipedrive_updated_at: at },
+        changes,
+      )
+    }
+    return outcome(changes, linked.stale, 'unlinked')
+  }
+
+  const key = orgStatusKey(event.current)
+  if (key === undefined) return outcome(changes, linked.stale, 'no_changes')
+
+  const label = key ? PIPEDRIVE_STATUS_LABEL[key] : null
+  const local = key ? LOCAL_COMPANY_STATUS[key] : null
+  for (const row of linked.rows) {
+    const fields: Record<string, unknown> = {}
+    if (row.pipedrive_status !== label) fields.pipedrive_status = label
+    if (local && row.status !== local) fields.status = local
+    const customer = key === 'KLANT'
+    if (key && (row.is_customer ?? false) !== customer) fields.is_customer = customer
+    if (Object.keys(fields).length === 0) continue
+    await update(sb, 'companies', row.id, { ...fields, pipedrive_updated_at: at }, changes)
+  }
+  return outcome(changes, linked.stale, 'no_changes')
+}
+
+/** Echo van een org-wijziging: alleen de spiegel van "Status prospect" bijwerken. */
+async function applyOrganizationMirror(sb: Sb, event: PipedriveWebhookEvent): Promise<InboundResult> {
+  const changes: InboundChange[] = []
+  const key = orgStatusKey(event.current)
+  if (key !== undefined) {
+    const label = key ? PIPEDRIVE_STATUS_LABEL[key] : null
+    for (const row of fresh(await companiesFor(sb, event.entityId), event).rows) {
+      if (row.pipedrive_status === label) continue
+      await update(sb, 'companies', row.id, { pipedrive_status: label, pipedrive_updated_at: event.occurredAt }, changes)
+    }
+  }
+  if (changes.length > 0) return { status: 'applied', changes }
+  return { status: 'skipped', reason: 'echo', changes }
+}
+
+async function applyPerson(sb: Sb, event: PipedriveWebhookEvent): Promise<InboundResult> {
+  const changes: InboundChange[] = []
+  const at = event.occurredAt
+
+  if (event.action === 'merge' && event.mergedId) {
+    for (const row of await contactsFor(sb, event.mergedId)) {
+      await update(sb, 'contacts', row.id, { pipedrive_person_id: String(event.entityId), pipedrive_updated_at: at }, changes)
+    }
+  }
+
+  const linked = fresh(await contactsFor(sb, event.entityId), event)
+  if (linked.rows.length === 0 && changes.length === 0) {
+    return { status: 'skipped', reason: linked.stale > 0 ? 'stale' : 'unlinked', changes }
+  }
+
+  if (event.action === 'delete') {
+    for (const row of linked.rows) {
+      await update(
+        sb,
+        'contacts',
+        row.id,
+        { pipedrive_person_id: null, pipedrive_synced: false, pipedrive_updated_at: at },
+        changes,
+      )
+    }
+    return outcome(changes, linked.stale, 'unlinked')
+  }
+
+  const person = event.current
+  if (!person) return outcome(changes, linked.stale, 'no_changes')
+  const incoming = {
+    first_name: text(person.first_name),
+    last_name: text(person.last_name),
+    email: firstValue(person, 'emails', 'email'),
+    phone: firstValue(person, 'phones', 'phone'),
+  }
+
+  for (const row of linked.rows) {
+    // Alleen aanvullen: een gevuld OTIS-veld blijft staan.
+    const fields: Record<string, unknown> = {}
+    for (const [field, value] of Object.entries(incoming)) {
+      if (value && !text(row[field as keyof typeof incoming])) fields[field] = value
+    }
+    if (Object.keys(fields).length === 0) continue
+    await update(sb, 'contacts', row.id, { ...fields, pipedrive_updated_at: at }, changes)
+  }
+  return outcome(changes, linked.stale, 'no_changes')
+}
+
+async function applyDeal(sb: Sb, event: PipedriveWebhookEvent): Promise<InboundResult> {
+  const changes: InboundChange[] = []
+  const won = event.current?.status === 'won'
+  const wasWon = event.action === 'change' && (event.previous?.status ?? 'won') === 'won'
+  if (event.action === 'delete' || event.action === 'merge' || !won || wasWon) {
+    return { status: 'skipped', reason: 'no_changes', changes }
+  }
+
+  const orgId = dealOrgId(event.current)
+  if (!orgId) return { status: 'skipped', reason: 'unlinked', changes }
+
+  const linked = fresh(await companiesFor(sb, orgId), event)
+  for (const row of linked.rows) {
+    if (row.status === 'Klant' && row.is_customer) continue
+    await update(
+      sb,
+      'companies',
+      row.id,
+      { status: 'Klant', is_customer: true, pipedrive_updated_at: event.occurredAt },
+      changes,
+    )
+  }
+  return outcome(changes, linked.stale, linked.rows.length > 0 ? 'no_changes' : 'unlinked')
+}
+
+/** Past één event toe volgens de conflictregels bovenaan; gooit bij DB-fouten. */
+export async function applyPipedriveEvent(sb: Sb, event: PipedriveWebhookEvent): Promise<InboundResult> {
+  if (event.changeSource === 'api') {
+    if (event.entity === 'organization' && (event.action === 'change' || event.action === 'create')) {
+      return applyOrganizationMirror(sb, event)
+    }
+    return { status: 'skipped', reason: 'echo', changes: [] }
+  }
+  switch (event.entity) {
+    case 'organization':
+      return applyOrganization(sb, event)
+    case 'person':
+      return applyPerson(sb, event)
+    case 'deal':
+      return applyDeal(sb, event)
+  }
+}
+
+/**
+ * Volledige verwerking van één webhook-body: loggen (idempotent op
+ * `event_id`), toepassen en de uitkomst vastleggen. `duplicate` = al eerder
+ * verwerkt; Pipedrive kan dan gewoon een 200 krijgen. Een event met status
+ * `error` wordt bij de retry opnieuw toegepast.
+ */
+export async function handlePipedriveWebhook(
+  sb: Sb,
+  body: unknown,
+): Promise<InboundResult & { eventId?: string; duplicate?: boolean }> {
+  const event = normalizePipedriveEvent(body)
+  if (!event) return { status: 'skipped', reason: 'unsupported', changes: [] }
+
+  const { error: insertError } = await sb.from('pipedrive_webhook_events').insert({
+    event_id: event.eventId,
+    entity: event.entity,
+    action: event.action,
+    pipedrive_id: event.entityId,
+    merged_id: event.mergedId,
+    change_source: event.changeSource,
+    occurred_at: event.occurredAt,
+    payload: body,
+  })
+  if (insertError?.code === '23505') {
+    // Retry na een eerdere fout opnieuw proberen; anders is het een dubbele.
+    const { data: existing } = await sb
+      .from('pipedrive_webhook_events')
+      .select('status')
+      .eq('event_id', event.eventId)
+      .maybeSingle()
+    if (existing?.status !== 'error') {
+      return { status: 'skipped', reason: 'duplicate', changes: [], eventId: event.eventId, duplicate: true }
+    }
+  } else if (insertError) {
+    throw new Error(`pipedrive_webhook_events insert: ${insertError.message}`)
+  }
+
+  let result: InboundResult
+  try {
+    result = await applyPipedriveEvent(sb, event)
+  } catch (err) {
+    result = { status: 'error', reason: err instanceof Error ? err.message : String(err), changes: [] }
+  }
+
+  await sb
+    .from('pipedrive_webhook_events')
+    .update({
+      status: result.status,
+      reason: result.reason ?? null,
+      changes: result.changes,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('event_id', event.eventId)
+
+  return { ...result, eventId: event.eventId }
+}
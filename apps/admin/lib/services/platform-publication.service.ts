@@ -14,6 +14,11 @@ import {
   revalidatePublicSite,
   type RevalidateResult,
 } from "./public-site-revalidate.service"
+import {
+  MAX_INVALID_SHARE,
+  structuredDataPassed,
+  validatePlatformJobPostings,
+} from "./google-jobs-validation.service"
 
 export const MIN_APPROVED_VACANCIES = 10
 
@@ -25,6 +30,7 @@ export type CheckKey =
   | "seo_description"
   | "min_approved_vacancies"
   | "about_text"
+  | "structured_data"
 
 export interface CheckItem {
   key: CheckKey
@@ -76,6 +82,7 @@ export async function validatePublication(
     .eq("review_status", "approved")
 
   const vacancyCount = approvedCount ?? 0
+  const structuredData = await validatePlatformJobPostings(supabase, platformId)
 
   const hostValue = platform.domain || platform.preview_domain
   const checks: CheckItem[] = [
@@ -127,6 +134,13 @@ export async function validatePublication(
       required: true,
       passed: hasValue(platform.about_text),
     },
+    {
+      key: "structured_data",
+      label: `Max. ${Math.round(MAX_INVALID_SHARE * 100)}% vacatures met ongeldige Google for Jobs-data`,
+      required: true,
+      passed: structuredDataPassed(structuredData),
+      value: structuredData.invalid,
+    },
   ]
 
   const allRequiredPassed = checks
@@ -339,3 +353,138 @@ export async function unpublishPlatform(
     approvedCount: freshCount ?? 0,
   }
 }
+
+// ─── Pakketvacatures (werkgeversportaal) ────────────────────────────
+
+/** `expires_at` voor een pakket met looptijd; null = geen vaste looptijd. */
+export function packageExpiry(fromIso: string, durationDays: number | null): string | null {
+  if (!durationDays) return null
+  return new Date(Date.parse(fromIso) + durationDays * 86_400_000).toISOString()
+}
+
+/**
+ * Dichtstbijzijnde *publieke* regioplatform voor een postcode. Anders dan de
+ * lookup in de approve-routes slaan we platforms over die (nog) niet live
+ * staan: een betaalde/self-service vacature moet ook echt zichtbaar zijn.
+ */
+export async function resolvePublicPlatformForPostcode(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, "public", any>,
+  zipcode: string | null,
+): Promise<string | null> {
+  const postcode = zipcode?.replace(/\s+/g, "").substring(0, 4)
+  if (!postcode || !/^\d{4}$/.test(postcode)) return null
+
+  const { data: lookup } = await supabase
+    .from("postcode_platform_lookup")
+    .select("regio_platform")
+    .eq("postcode", postcode)
+    .order("distance", { ascending: true })
+    .limit(10)
+  const regios: string[] = (lookup ?? []).map((r: { regio_platform: string }) => r.regio_platform)
+  if (regios.length === 0) return null
+
+  const { data: platforms } = await supabase
+    .from("platforms")
+    .select("id, regio_platform")
+    .in("regio_platform", regios)
+    .eq("is_public", true)
+  const byRegio = new Map<string, string>(
+    (platforms ?? []).map((p: { id: string; regio_platform: string }) => [p.regio_platform, p.id]),
+  )
+  for (const regio of regios) {
+    const id = byRegio.get(regio)
+    if (id) return id
+  }
+  return null
+}
+
+export interface PackagePublicationResult {
+  /** Aantal pakketvacatures onder de ids. */
+  updated: number
+  errors: string[]
+}
+
+/**
+ * Publicatievoorwaarden van een pakket toepassen op vacatures die net
+ * goedgekeurd worden. Aanroepen vóór de approve-update, zodat de route de
+ * platform-junction, revalidatie en IndexNow met het juiste platform doet.
+ *
+ *   - platform: alleen als de reviewer er zelf geen gekozen heeft, het
+ *     dichtstbijzijnde publieke platform op postcode
+ *   - expires_at: goedkeurmoment + `vacancy_packages.duration_days`, alleen bij
+ *     de eerste goedkeuring. Een bewerking in het portaal stuurt de vacature
+ *     terug naar review; de looptijd loopt dan gewoon door.
+ *
+ * Vacatures zonder `package_code` worden niet aangeraakt.
+ */
+export async function applyPackagePublication(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, "public", any>,
+  jobIds: string[],
+  nowIso: string = new Date().toISOString(),
+): Promise<PackagePublicationResult> {
+  const errors: string[] = []
+  if (jobIds.length === 0) return { updated: 0, errors }
+
+  const { data: jobs, error } = await supabase
+    .from("job_postings")
+    .select("id, zipcode, platform_id, package_code, expires_at, vacancy_packages:package_code(duration_days)")
+    .in("id", jobIds)
+    .not("package_code", "is", null)
+  if (error) return { updated: 0, errors: [error.message] }
+
+  let updated = 0
+  for (const job of jobs ?? []) {
+    const pkg = Array.isArray(job.vacancy_packages) ? job.vacancy_packages[0] : job.vacancy_packages
+    const update: Record<string, unknown> = {}
+    if (!job.expires_at) update.expires_at = packageExpiry(nowIso, pkg?.duration_days ?? null)
+    if (!job.platform_id) {
+      const platformId = await resolvePublicPlatformForPostcode(supabase, job.zipcode)
+      if (platformId) update.platform_id = platformId
+    }
+    if (Object.keys(update).length === 0) continue
+
+    const { error: updateErr } = await supabase.from("job_postings").update(update).eq("id", job.id)
+    if (updateErr) errors.push(`${job.id}: ${updateErr.message}`)
+    else updated++
+  }
+  return { updated, errors }
+}
+
+export interface ExpirePackageResult {
+  archived: number
+  platformIds: string[]
+  error?: string
+}
+
+/**
+ * Verlopen pakketvacatures offline halen (`archived_reason='package_expired'`)
+ * en de betrokken tenants revalideren. Gebruikt door de cron auto-archive-old;
+ * die slaat goedgekeurde vacatures verder bewust over.
+ */
+export async function archiveExpiredPackageVacancies(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: SupabaseClient<any, "public", any>,
+  nowIso: string = new Date().toISOString(),
+): Promise<ExpirePackageResult> {
+  const { data, error } = await supabase
+    .from("job_postings")
+    .update({ archived_at: nowIso, archived_reason: "package_expired" })
+    .not("package_code", "is", null)
+    .is("archived_at", null)
+    .lt("expires_at", nowIso)
+    .select("id, platform_id")
+  if (error) return { archived: 0, platformIds: [], error: error.message }
+
+  const platformIds = Array.from(
+    new Set((data ?? []).map((r: { platform_id: string | null }) => r.platform_id).filter((id): id is string => !!id)),
+  )
+  if (platformIds.length > 0) {
+    const revalidate = await revalidatePublicSite({ platformIds })
+    if (!revalidate.ok && !revalidate.skipped) {
+      console.warn("[archiveExpiredPackageVacancies] revalidate failed:", revalidate.error)
+    }
+  }
+  return { archived: data?.length ?? 0, platformIds }
+}
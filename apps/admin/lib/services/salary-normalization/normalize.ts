@@ -0,0 +1,218 @@
+/**
+ * Salaris-normalisatie voor job_postings.
+ *
+ * Bronnen leveren salaris als vrije tekst ("€ 2.800 - € 3.400 bruto per
+ * maand", "vanaf €15,- per uur", "CAO schaal 8", "€45k") of, bij JSON-LD,
+ * als losse min/max/unitText. Beide worden hier teruggebracht tot
+ * salary_min/max + salary_unit + salary_currency; de maandbedragen voor
+ * sorteren en filteren rekent de database-trigger uit.
+ *
+ * Puur, geen I/O. Onherkenbare of onwaarschijnlijke bedragen geven null:
+ * liever geen salaris dan een fout salaris in Google for Jobs.
+ */
+
+export type SalaryUnit = 'HOUR' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR'
+
+export const SALARY_UNITS: readonly SalaryUnit[] = ['HOUR', 'DAY', 'WEEK', 'MONTH', 'YEAR']
+
+export interface NormalizedSalary {
+  /** null bij "tot € x". */
+  min: number | null
+  /** null bij "vanaf € x". Eén vast bedrag = min en max gelijk. */
+  max: number | null
+  unit: SalaryUnit
+  currency: string
+}
+
+/** Structured input van een bron (JSON-LD baseSalary, AI-extractie). */
+export interface StructuredSalaryInput {
+  min?: number | null
+  max?: number | null
+  unit?: string | null
+  currency?: string | null
+}
+
+/** De job_postings-kolommen zoals writers ze meesturen. */
+export interface SalaryColumns {
+  salary_min: number | null
+  salary_max: number | null
+  salary_unit: SalaryUnit | null
+  salary_currency: string
+  salary_normalized_at: string
+}
+
+// Plausibele bedragen per periode; daarbuiten is het vrijwel zeker een
+// parse-fout (uren, jaartal, postcode) of een verkeerd gelabelde periode.
+const BOUNDS: Record<SalaryUnit, [number, number]> = {
+  HOUR: [5, 250],
+  DAY: [40, 2000],
+  WEEK: [150, 10_000],
+  MONTH: [500, 40_000],
+  YEAR: [6000, 500_000],
+}
+
+const UNIT_ALIASES: Record<string, SalaryUnit> = {
+  hour: 'HOUR', hours: 'HOUR', hourly: 'HOUR', uur: 'HOUR',
+  day: 'DAY', daily: 'DAY', dag: 'DAY',
+  week: 'WEEK', weekly: 'WEEK',
+  month: 'MONTH', monthly: 'MONTH', maand: 'MONTH',
+  year: 'YEAR', yearly: 'YEAR', annual: 'YEAR', annually: 'YEAR', jaar: 'YEAR',
+}
+
+// Periode-aanduidingen in vrije tekst. Bij meerdere wint de eerste in de tekst.
+const UNIT_PATTERNS: [SalaryUnit, RegExp][] = [
+  ['HOUR', /(?:\bper|\/)\s*uur\b|\buurloon|\bp\/u\b|\bper hour\b|\bhourly\b/],
+  ['DAY', /(?:\bper|\/)\s*dag\b|\bdag(?:loon|tarief)|\bper day\b/],
+  ['WEEK', /(?:\bper|\/)\s*week\b|\bweekloon|\bp\/w\b|\bper week\b/],
+  ['MONTH', /(?:\bper|\/)\s*maand\b|\bmaand(?:salaris|loon)|\bp\/m\b|\bp\.m\.|\bper month\b|\bmonthly\b/],
+  ['YEAR', /(?:\bper|\/)\s*jaar\b|\bjaar(?:salaris|loon|inkomen)|\bp\/j\b|\bper (?:year|annum)\b|\bannual|\byearly\b/],
+]
+
+// Getallen die geen bedrag zijn: schaalnummers, percentages, uren per week,
+// "13e maand", "2 jaar ervaring".
+const NOISE_PATTERNS = [
+  /\bschaal\s*\d+[a-z]?\b/g,
+  /\d+(?:[.,]\d+)?\s*%/g,
+  /\b\d+(?:\s*(?:-|\u2013|tot|t\/m|à)\s*\d+)?\s*(?:uur|uren|u)\b(?:\s*(?:per|p\/|\/|in de)\s*week|\s*p\.?w\.?)?/g,
+  /\b\d+\s*(?:e|de|ste)\s+maand\b/g,
+  /(?<![€\d.,]\s?)\b\d{1,2}\s*(?:jaar|jaren|maanden|weken|dagen)\b/g,
+]
+
+// 2.800 | 2.800,50 | 15,- | 12.50 | 3500 | 45k
+const AMOUNT_RE = /(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2})(?!\d)|,-|\.(\d{1,2})(?!\d))?(?:\s*(k)\b)?/g
+
+const RANGE_GAP = /^(?:[-\u2013\u2014~]|tot|totenmet|t\/m|à|a|en|oplopendtot|totmaximaal|totmax\.?)$/
+const MIN_ONLY = /(?:vanaf|minimaal|minimum|min\.|start(?:salaris)?)\s*(?:€|eur|euro)?\s*$/
+const MAX_ONLY = /(?:^|\s)(?:tot|maximaal|maximum|max\.|tot maximaal)\s*(?:€|eur|euro)?\s*$/
+
+interface Amount {
+  value: number
+  start: number
+  end: number
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function inBounds(value: number | null, unit: SalaryUnit): boolean {
+  if (value == null) return true
+  const [lo, hi] = BOUNDS[unit]
+  return value >= lo && value <= hi
+}
+
+/** Bron-periode ("MONTH", "month", "maand", "per uur") -> SalaryUnit. */
+export function toSalaryUnit(value: unknown): SalaryUnit | null {
+  if (typeof value !== 'string') return null
+  const key = value.trim().toLowerCase().replace(/^per\s+/, '')
+  if (SALARY_UNITS.includes(key.toUpperCase() as SalaryUnit)) return key.toUpperCase() as SalaryUnit
+  return UNIT_ALIASES[key] ?? null
+}
+
+/** Periode bij ontbreken van een aanduiding, afgeleid van de grootte van het bedrag. */
+function inferUnit(value: number): SalaryUnit | null {
+  if (value < 100) return 'HOUR'
+  if (value >= 1000 && value < 15_000) return 'MONTH'
+  if (value >= 15_000) return 'YEAR'
+  return null
+}
+
+function detectUnit(text: string): SalaryUnit | null {
+  let best: { unit: SalaryUnit; index: number } | null = null
+  for (const [unit, re] of UNIT_PATTERNS) {
+    const match = re.exec(text)
+    if (match && (!best || match.index < best.index)) best = { unit, index: match.index }
+  }
+  return best?.unit ?? null
+}
+
+function detectCurrency(text: string): string {
+  if (/\$|\busd\b/.test(text)) return 'USD'
+  if (/£|\bgbp\b/.test(text)) return 'GBP'
+  return 'EUR'
+}
+
+function extractAmounts(text: string): Amount[] {
+  const amounts: Amount[] = []
+  for (const m of text.matchAll(AMOUNT_RE)) {
+    const whole = Number(m[1].replace(/\./g, ''))
+    const decimals = m[2] ?? m[3]
+    let value = decimals ? Number(`${whole}.${decimals}`) : whole
+    if (m[4]) value *= 1000
+    if (value > 0) amounts.push({ value, start: m.index!, end: m.index! + m[0].length })
+  }
+  return amounts
+}
+
+/** Min/max/eenheid valideren en afronden; null als het niet plausibel is. */
+function finalize(
+  min: number | null,
+  max: number | null,
+  unit: SalaryUnit | null,
+  currency: string
+): NormalizedSalary | null {
+  if (min == null && max == null) return null
+  if (min != null && max != null && min > max) [min, max] = [max, min]
+  const resolved = unit ?? inferUnit(max ?? min!)
+  if (!resolved || !inBounds(min, resolved) || !inBounds(max, resolved)) return null
+  return {
+    min: min == null ? null : round2(min),
+    max: max == null ? null : round2(max),
+    unit: resolved,
+    currency,
+  }
+}
+
+/** Vrije salaristekst -> genormaliseerd salaris, of null als er geen bedrag in staat. */
+export function normalizeSalary(text: string | null | undefined): NormalizedSalary | null {
+  if (!text) return null
+  let clean = text.toLowerCase().replace(/\s+/g, ' ')
+  const currency = detectCurrency(clean)
+  for (const re of NOISE_PATTERNS) clean = clean.replace(re, ' ')
+  const unit = detectUnit(clean)
+
+  const amounts = extractAmounts(clean)
+  if (amounts.length === 0) return null
+  const [first, second] = amounts
+
+  if (second) {
+    const gap = clean.slice(first.end, second.start).replace(/€|\beuro?\b|,|\s/g, '')
+    if (RANGE_GAP.test(gap)) return finalize(first.value, second.value, unit, currency)
+  }
+
+  const before = clean.slice(0, first.start)
+  if (MIN_ONLY.test(before)) return finalize(first.value, null, unit, currency)
+  if (MAX_ONLY.test(before)) return finalize(null, first.value, unit, currency)
+  return finalize(first.value, first.value, unit, currency)
+}
+
+/** Structured bron-salaris (JSON-LD, AI) valideren; null als onbruikbaar. */
+export function normalizeStructuredSalary(input: StructuredSalaryInput | null | undefined): NormalizedSalary | null {
+  if (!input) return null
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? v : null)
+  const min = num(input.min)
+  const max = num(input.max)
+  const currency = input.currency?.trim().toUpperCase() || 'EUR'
+  return finalize(min, max ?? min, toSalaryUnit(input.unit), currency)
+}
+
+/**
+ * Kolommen voor een insert/update van job_postings. Structured input gaat
+ * voor; anders (of als die niet plausibel is) wordt de tekst geparsed.
+ * `salary_normalized_at` wordt altijd gezet, zodat de backfill de rij niet
+ * opnieuw oppakt.
+ */
+export function salaryColumns(
+  text: string | null | undefined,
+  structured?: StructuredSalaryInput | null,
+  nowIso: string = new Date().toISOString()
+): SalaryColumns {
+  const salary = normalizeStructuredSalary(structured) ?? normalizeSalary(text)
+  return {
+    salary_min: salary?.min ?? null,
+    salary_max: salary?.max ?? null,
+    salary_unit: salary?.unit ?? null,
+    salary_currency: salary?.currency ?? 'EUR',
+    salary_normalized_at: nowIso,
+  }
+}
@@ -0,0 +1,363 @@
+import type { NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ParsedTable } from '@/lib/services/file-parser.service'
+import { importValidationService } from '@/lib/services/import-validation.service'
+import { normalizeKvk } from '@/lib/services/company-dedup/candidate.service'
+import { dispatchEnrichmentWorkers } from '@/lib/services/sales-leads/dispatch-worker'
+
+/**
+ * Bulk-import van sales-leads uit CSV/Excel. Het bestand wordt geparsed met
+ * `fileParserService.parseTable`, de gebruiker mapt kolommen naar
+ * naam/domein/KvK/plaats en elke rij krijgt een classificatie voor de
+ * preview. Runs worden pas bij dispatch aangemaakt, met een cap op het aantal
+ * runs dat tegelijk verrijkt (`MAX_IN_FLIGHT`).
+ */
+
+type SB = SupabaseClient
+
+export const IMPORT_FIELDS = ['name', 'domain', 'kvk', 'city'] as const
+export type ImportField = (typeof IMPORT_FIELDS)[number]
+
+/** Kolomindex per veld; ontbrekend = niet gemapt. */
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export const MAX_IMPORT_ROWS = 2000
+/** Max. runs van één import tegelijk in 'enriching'. */
+export const MAX_IN_FLIGHT = 10
+
+const QUERY_CHUNK = 200
+
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'hotmail.com', 'outlook.com', 'live.com', 'yahoo.com',
+  'icloud.com', 'me.com', 'protonmail.com', 'proton.me',
+])
+
+export type ImportClassification = 'new' | 'existing_company' | 'existing_run' | 'duplicate_in_file' | 'invalid'
+
+export type ImportRowInput = {
+  row_number: number
+  company_name: string | null
+  domain: string | null
+  /** Ruwe waarde uit de domeinkolom, voor de foutmelding bij een ongeldig domein. */
+  raw_domain: string | null
+  kvk: string | null
+  city: string | null
+}
+
+export type ClassifiedImportRow = Omit<ImportRowInput, 'raw_domain'> & {
+  classification: ImportClassification
+  message: string | null
+  existing_run_id: string | null
+  existing_company_id: string | null
+}
+
+export type ExistingMatches = {
+  runsByDomain: Map<string, { id: string; status: string }>
+  companiesByDomain: Map<string, { id: string; name: string }>
+  companiesByKvk: Map<string, { id: string; name: string; hoofddomein: string | null }>
+}
+
+const HEADER_PATTERNS: Array<[ImportField, RegExp]> = [
+  ['kvk', /kvk|kamer van koophandel|coc|chamber/],
+  ['domain', /website|domein|domain|url|site|^www/],
+  ['city', /plaats|stad|city|vestiging|gemeente|town/],
+  ['name', /bedrijf|naam|company|organi[sz]ati|name|firma/],
+]
+
+/**
+ * Stel een kolommapping voor op basis van de kopteksten. Elke kolom wordt
+ * hooguit één keer gebruikt; zonder websitekolom valt het domein terug op
+ * een e-mailkolom.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+  const normalized = headers.map((h) => h.trim().toLowerCase())
+
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    const idx = normalized.findIndex((h, i) => !used.has(i) && pattern.test(h))
+    if (idx !== -1) {
+      mapping[field] = idx
+      used.add(idx)
+    }
+  }
+  if (mapping.domain === undefined) {
+    const idx = normalized.findIndex((h, i) => !used.has(i) && /e-?mail/.test(h))
+    if (idx !== -1) mapping.domain = idx
+  }
+  return mapping
+}
+
+export function validateColumnMapping(mapping: ColumnMapping, headerCount: number): string | null {
+  for (const [field, idx] of Object.entries(mapping)) {
+    if (!(IMPORT_FIELDS as readonly string[]).includes(field)) return `Onbekend veld: ${field}`
+    if (!Number.isInteger(idx) || idx! < 0 || idx! >= headerCount) return `Ongeldige kolom voor ${field}`
+  }
+  if (mapping.domain === undefined && mapping.kvk === undefined) {
+    return 'Map minstens een domein- of KvK-kolom'
+  }
+  return null
+}
+
+/**
+ * Zet de tabelrijen om naar importrijen. Regelnummers tellen de kopregel mee,
+ * zodat ze overeenkomen met wat sales in Excel ziet.
+ */
+export function mapImportRows(table: Pick<ParsedTable, 'rows'>, mapping: ColumnMapping): ImportRowInput[] {
+  const cell = (row: string[], field: ImportField) => {
+    const idx = mapping[field]
+    const value = idx === undefined ? '' : (row[idx] ?? '').trim()
+    return value || null
+  }
+  return table.rows.map((row, i) => {
+    const rawDomain = cell(row, 'domain')
+    return {
+      row_number: i + 2,
+      company_name: cell(row, 'name'),
+      domain: importValidationService.normalizeDomain(rawDomain),
+      raw_domain: rawDomain,
+      kvk: normalizeKvk(cell(row, 'kvk')),
+      city: cell(row, 'city'),
+    }
+  })
+}
+
+/**
+ * Classificeer rijen voor de preview. Volgorde: ongeldig, dubbel in bestand
+ * (eerste voorkomen blijft), bestaande actieve run, bestaand bedrijf, nieuw.
+ * Zonder domein maar met een KvK-match op een bedrijf met hoofddomein wordt
+ * dat domein gebruikt.
+ */
+export function classifyImportRows(rows: ImportRowInput[], existing: ExistingMatches): ClassifiedImportRow[] {
+  const resolved = rows.map((r) => {
+    const kvkCompany = r.kvk ? existing.companiesByKvk.get(r.kvk) : undefined
+    const domain = r.domain ?? importValidationService.normalizeDomain(kvkCompany?.hoofddomein)
+    return { ...r, domain, kvkCompany }
+  })
+
+  const usable = resolved.filter((r) => r.domain && !PUBLIC_EMAIL_DOMAINS.has(r.domain))
+  const laterDuplicates = new Set<number>()
+  for (const dup of importValidationService.findDuplicatesBy(usable, (r) => r.domain, (r) => r.row_number)) {
+    dup.rows.slice(1).forEach((row) => laterDuplicates.add(row))
+  }
+
+  return resolved.map(({ raw_domain, kvkCompany, ...r }) => {
+    const base = { ...r, existing_run_id: null, existing_company_id: null }
+    if (!r.domain) {
+      const message = raw_domain ? `Ongeldig domein "${raw_domain}"` : 'Geen domein'
+      return { ...base, classification: 'invalid' as const, message }
+    }
+    if (PUBLIC_EMAIL_DOMAINS.has(r.domain)) {
+      return { ...base, classification: 'invalid' as const, message: `Publieke email-domein "${r.domain}"` }
+    }
+    if (laterDuplicates.has(r.row_number)) {
+      return { ...base, classification: 'duplicate_in_file' as const, message: `Domein "${r.domain}" staat eerder in het bestand` }
+    }
+    const run = existing.runsByDomain.get(r.domain)
+    if (run) {
+      return { ...base, classification: 'existing_run' as const, message: `Run bestaat al (${run.status})`, existing_run_id: run.id }
+    }
+    const company = existing.companiesByDomain.get(r.domain) ?? kvkCompany
+    if (company) {
+      return {
+        ...base,
+        classification: 'existing_company' as const,
+        message: `Bedrijf bestaat al: ${company.name}`,
+        existing_company_id: company.id,
+      }
+    }
+    return { ...base, classification: 'new' as const, message: null }
+  })
+}
+
+/**
+ * Bestaande actieve runs (niet gearchiveerd, niet failed) en bedrijven op
+ * domein (hoofddomein) of KvK.
+ */
+export async function findExistingMatches(supabase: SB, rows: ImportRowInput[]): Promise<ExistingMatches> {
+  const domains = [...new Set(rows.map((r) => r.domain).filter((d): d is string => !!d))]
+  const kvks = [...new Set(rows.map((r) => r.kvk).filter((k): k is string => !!k))]
+  const matches: ExistingMatches = { runsByDomain: new Map(), companiesByDomain: new Map(), companiesByKvk: new Map() }
+
+  for (let i = 0; i < kvks.length; i += QUERY_CHUNK) {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('id, name, kvk, hoofddomein')
+      .in('kvk', kvks.slice(i, i + QUERY_CHUNK))
+    if (error) throw new Error(`Bedrijven ophalen faalde: ${error.message}`)
+    for (const c of (data ?? []) as Array<{ id: string; name: string; kvk: string; hoofddomein: string | null }>) {
+      if (!matches.companiesByKvk.has(c.kvk)) matches.companiesByKvk.set(c.kvk, c)
+      const d = importValidationService.normalizeDomain(c.hoofddomein)
+      if (d && !domains.includes(d)) domains.push(d)
+    }
+  }
+
+  for (let i = 0; i < domains.length; i += QUERY_CHUNK) {
+    const chunk = domains.slice(i, i + QUERY_CHUNK)
+    const [runs, companies] = await Promise.all([
+      supabase
+        .from('sales_lead_runs')
+        .select('id, status, input_domain')
+        .in('input_domain', chunk)
+        .is('archived_at', null)
+        .neq('status', 'failed'),
+      supabase
+        .from('companies')
+        .select('id, name, hoofddomein')
+        .in('hoofddomein', chunk),
+    ])
+    if (runs.error) throw new Error(`Runs ophalen faalde: ${runs.error.message}`)
+    if (companies.error) throw new Error(`Bedrijven ophalen faalde: ${companies.error.message}`)
+    for (const r of (runs.data ?? []) as Array<{ id: string; status: string; input_domain: string }>) {
+      if (!matches.runsByDomain.has(r.input_domain)) matches.runsByDomain.set(r.input_domain, r)
+    }
+    for (const c of (companies.data ?? []) as Array<{ id: string; name: string; hoofddomein: string }>) {
+      if (!matches.companiesByDomain.has(c.hoofddomein)) matches.companiesByDomain.set(c.hoofddomein, c)
+    }
+  }
+
+  return matches
+}
+
+export type ImportProgress = {
+  total: number
+  classification: Record<ImportClassification, number>
+  selected: number
+  pending: number
+  /** Runs per sales_lead_runs.status (enriching, review, completed, failed, ...) */
+  runs: Record<string, number>
+}
+
+export function summarizeImport(
+  rows: Array<{ classification: string; include: boolean; dispatched_at: string | null }>,
+  runStatuses: string[],
+): ImportProgress {
+  const classification: Record<ImportClassification, number> = {
+    new: 0, existing_company: 0, existing_run: 0, duplicate_in_file: 0, invalid: 0,
+  }
+  let selected = 0
+  let pending = 0
+  for (const r of rows) {
+    if (r.classification in classification) classification[r.classification as ImportClassification]++
+    if (r.include) {
+      selected++
+      if (!r.dispatched_at) pending++
+    }
+  }
+  const runs: Record<string, number> = {}
+  for (const s of runStatuses) runs[s] = (runs[s] ?? 0) + 1
+  return { total: rows.length, classification, selected, pending, runs }
+}
+
+export type DispatchResult = {
+  dispatched: number
+  in_flight: number
+  pending: number
+  completed: boolean
+}
+
+/**
+ * Vul de in-flight cap van een import aan: claim de volgende rijen, maak per
+ * rij een run aan en dispatch de workers. Claimen gebeurt via
+ * `dispatched_at is null`, zodat de cron en de start-route elkaar niet in de
+ * weg zitten. Zonder openstaande rijen en runs gaat de import naar
+ * 'completed'.
+ */
+export async function dispatchImportBatch(supabase: SB, req: NextRequest, importId: string): Promise<DispatchResult> {
+  const result: DispatchResult = { dispatched: 0, in_flight: 0, pending: 0, completed: false }
+
+  const { data: imp, error: impErr } = await supabase
+    .from('sales_lead_imports')
+    .select('id, status, created_by, owner_config_id, scrape_vacancies, contactmoment_override')
+    .eq('id', importId)
+    .maybeSingle()
+  if (impErr) throw new Error(impErr.message)
+  if (!imp || imp.status !== 'dispatching') return result
+
+  const { count: inFlight, error: flightErr } = await supabase
+    .from('sales_lead_runs')
+    .select('id', { count: 'exact', head: true })
+    .eq('import_id', importId)
+    .eq('status', 'enriching')
+  if (flightErr) throw new Error(flightErr.message)
+  result.in_flight = inFlight ?? 0
+
+  const room = MAX_IN_FLIGHT - result.in_flight
+  const runIds: string[] = []
+
+  if (room > 0) {
+    const { data: next, error: nextErr } = await supabase
+      .from('sales_lead_import_rows')
+      .select('id')
+      .eq('import_id', importId)
+      .eq('include', true)
+      .is('dispatched_at', null)
+      .order('row_number', { ascending: true })
+      .limit(room)
+    if (nextErr) throw new Error(nextErr.message)
+
+    const { data: claimed, error: claimErr } = next && next.length > 0
+      ? await supabase
+          .from('sales_lead_import_rows')
+          .update({ dispatched_at: new Date().toISOString() })
+          .in('id', next.map((r: { id: string }) => r.id))
+          .is('dispatched_at', null)
+          .select('id, domain')
+      : { data: [], error: null }
+    if (claimErr) throw new Error(claimErr.message)
+
+    for (const row of (claimed ?? []) as Array<{ id: string; domain: string }>) {
+      const { data: run, error } = await supabase
+        .from('sales_lead_runs')
+        .insert({
+          created_by: imp.created_by,
+          input_url: `https://${row.domain}/`,
+          input_domain: row.domain,
+          owner_config_id: imp.owner_config_id,
+          manual_vacancies: [],
+          scrape_vacancies: imp.scrape_vacancies,
+          contactmoment_override: imp.contactmoment_override,
+          status: 'enriching',
+          import_id: importId,
+        })
+        .select('id')
+        .single()
+      if (error || !run) {
+        console.error('[sales-lead-import] run aanmaken faalde', importId, row.domain, error?.message)
+        await supabase
+          .from('sales_lead_import_rows')
+          .update({ message: `Run aanmaken faalde: ${error?.message ?? 'onbekend'}` })
+          .eq('id', row.id)
+        continue
+      }
+      await supabase.from('sales_lead_import_rows').update({ run_id: run.id }).eq('id', row.id)
+      runIds.push(run.id)
+    }
+
+    await dispatchEnrichmentWorkers(req, runIds)
+  }
+
+  result.dispatched = runIds.length
+  result.in_flight += runIds.length
+
+  const { count: pending, error: pendingErr } = await supabase
+    .from('sales_lead_import_rows')
+    .select('id', { count: 'exact', head: true })
+    .eq('import_id', importId)
+    .eq('include', true)
+    .is('dispatched_at', null)
+  if (pendingErr) throw new Error(pendingErr.message)
+  result.pending = pending ?? 0
+
+  if (result.pending === 0 && result.in_flight === 0) {
+    const now = new Date().toISOString()
+    await supabase
+      .from('sales_lead_imports')
+      .update({ status: 'completed', completed_at: now, updated_at: now })
+      .eq('id', importId)
+      .eq('status', 'dispatching')
+    result.completed = true
+  }
+
+  return result
+}
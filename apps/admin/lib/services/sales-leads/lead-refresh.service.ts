@@ -0,0 +1,439 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceRoleClient } from '@/lib/supabase-server'
+import type { Json } from '@/lib/supabase'
+import { getPipedriveClient } from '@/lib/pipedrive-client'
+import { KvkService } from './kvk.service'
+import { ApolloService, ApolloApiError } from './apollo.service'
+import { WebsiteService } from './website.service'
+import { computePrimaryMaster } from './master-record'
+import { loadSourcePreferences } from './source-preferences'
+import { formatAddress, SIGNAL_LABEL } from '@/lib/sales-leads/format-fields'
+import type {
+  ColdContact,
+  LeadSignal,
+  MasterRecord,
+  NormalizedAddress,
+  NormalizedContact,
+  NormalizedFields,
+  PerSourceEnrichment,
+  RunEnrichments,
+} from './types'
+
+/**
+ * Her-verrijking van sales-leads die al naar Pipedrive zijn gesynct.
+ *
+ * De EnrichmentOrchestrator verrijkt een run één keer en schrijft in de run
+ * zelf. Een refresh haalt KvK, Apollo en de website opnieuw op zonder de run
+ * aan te raken (review-edits in `master_record` blijven staan), bouwt een nieuw
+ * master-record en vergelijkt dat met de vorige momentopname in
+ * `sales_lead_refreshes`. Verschillen worden signalen: verhuisd,
+ * personeelsgroei/-krimp, nieuwe vacatures en vertrokken contactpersonen.
+ *
+ * Google Maps wordt niet opnieuw opgehaald (Apify, duur en 30d gecachet); de
+ * Maps-data van de vorige momentopname blijft staan. Een bron die faalt valt
+ * terug op de vorige momentopname, zodat een storing geen nep-signaal geeft.
+ */
+
+type SB = SupabaseClient
+
+type RefreshSource = 'kvk' | 'apollo' | 'website'
+
+/** Een gesyncte lead komt na zoveel dagen opnieuw aan de beurt */
+export const REFRESH_INTERVAL_DAYS = 90
+/** Refreshes die langer dan dit op 'running' staan zijn gecrasht */
+export const STALE_REFRESH_MS = 15 * 60 * 1000
+
+const HEADCOUNT_MIN_CHANGE_PCT = 0.2
+const HEADCOUNT_MIN_CHANGE_ABS = 5
+const MAX_SIGNAL_TITLES = 10
+
+/**
+ * Momentopname per refresh: het berekende master-record plus de gesyncte
+ * contactpersonen die bij de laatste refresh nog bij het bedrijf gevonden werden.
+ */
+export type RefreshSnapshot = MasterRecord & {
+  tracked_contacts?: NormalizedContact[]
+}
+
+export type RefreshResult = {
+  refreshId: string
+  status: 'completed' | 'failed'
+  sourcesRefreshed: RefreshSource[]
+  signals: LeadSignal[]
+  pipedriveActivityId: number | null
+  error?: string
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────────
+
+function addressMoved(prev: NormalizedAddress | undefined, next: NormalizedAddress | undefined): boolean {
+  if (!prev || !next) return false
+  const pc = (v?: string) => (v ?? '').replace(/\s+/g, '').toUpperCase()
+  const nr = (v?: string) => (v ?? '').replace(/\s+/g, '').toLowerCase()
+  if (pc(prev.postcode) && pc(next.postcode)) {
+    if (pc(prev.postcode) !== pc(next.postcode)) return true
+    return !!nr(prev.number) && !!nr(next.number) && nr(prev.number) !== nr(next.number)
+  }
+  const city = (v?: string) => (v ?? '').trim().toLowerCase()
+  return !!city(prev.city) && !!city(next.city) && city(prev.city) !== city(next.city)
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Staat een gesyncte contactpersoon nog bij het bedrijf? Volledige naam in
+ * Apollo- of website-contacten, of een Apollo cold candidate met dezelfde
+ * voornaam en beginletter van de (geobfusceerde) achternaam.
+ */
+export function contactStillPresent(
+  contact: NormalizedContact,
+  fresh: { contacts: NormalizedContact[]; cold: ColdContact[] },
+): boolean {
+  const key = normalizeName(contact.name)
+  if (fresh.contacts.some((c) => normalizeName(c.name) === key)) return true
+
+  const [first, ...rest] = key.split(' ')
+  const lastInitial = (contact.last_name ?? rest[rest.length - 1] ?? '').trim().toLowerCase().charAt(0)
+  return fresh.cold.some((c) =>
+    (c.first_name ?? '').trim().toLowerCase() === (contact.first_name ?? first ?? '').trim().toLowerCase()
+    && !!lastInitial
+    && (c.last_name_obfuscated ?? '').trim().toLowerCase().charAt(0) === lastInitial,
+  )
+}
+
+/**
+ * Vergelijk twee momentopnames. Vacatures en contactpersonen worden alleen
+ * vergeleken als de bronnen daarvoor in deze refresh zijn opgehaald; anders
+ * zou een ontbrekende lijst als "alles weg" gelezen worden.
+ */
+export function diffSnapshots(
+  prev: RefreshSnapshot,
+  next: RefreshSnapshot,
+  opts: { vacanciesRefreshed: boolean; contactsRefreshed: boolean },
+): LeadSignal[] {
+  const signals: LeadSignal[] = []
+
+  if (addressMoved(prev.address, next.address)) {
+    const from = formatAddress(prev.address) || null
+    const to = formatAddress(next.address) || null
+    signals.push({ type: 'address_moved', summary: `Adres gewijzigd: ${from ?? '?'} -> ${to ?? '?'}`, from, to })
+  }
+
+  const before = prev.employee_count
+  const after = next.employee_count
+  if (before && after && before > 0) {
+    const diff = after - before
+    const pct = diff / before
+    if (Math.abs(diff) >= HEADCOUNT_MIN_CHANGE_ABS && Math.abs(pct) >= HEADCOUNT_MIN_CHANGE_PCT) {
+      const label = diff > 0 ? 'Personeelsgroei' : 'Personeelskrimp'
+      signals.push({
+        type: 'headcount_change',
+        summary: `${label}: ${before} -> ${after} medewerkers (${diff > 0 ? '+' : ''}${Math.round(pct * 100)}%)`,
+        from: before,
+        to: after,
+        change_pct: Math.round(pct * 1000) / 1000,
+      })
+    }
+  }
+
+  if (opts.vacanciesRefreshed) {
+    const known = new Set((prev.vacancies ?? []).map((v) => v.title.trim().toLowerCase()))
+    const added = (next.vacancies ?? []).filter((v) => {
+      const key = v.title.trim().toLowerCase()
+      if (!key || known.has(key)) return false
+      known.add(key)
+      return true
+    })
+    if (added.length > 0) {
+      signals.push({
+        type: 'new_vacancies',
+        summary: `${added.length} nieuwe vacature${added.length === 1 ? '' : 's'}: ${added.slice(0, 3).map((v) => v.title).join(', ')}${added.length > 3 ? ', ...' : ''}`,
+        count: added.length,
+        titles: added.slice(0, MAX_SIGNAL_TITLES).map((v) => v.title),
+      })
+    }
+  }
+
+  if (opts.contactsRefreshed) {
+    const stillThere = new Set((next.tracked_contacts ?? []).map((c) => normalizeName(c.name)))
+    for (const c of prev.tracked_contacts ?? []) {
+      if (stillThere.has(normalizeName(c.name))) continue
+      signals.push({
+        type: 'contact_left',
+        summary: `${c.name}${c.title ? ` (${c.title})` : ''} niet meer gevonden bij het bedrijf`,
+        name: c.name,
+        title: c.title ?? null,
+      })
+    }
+  }
+
+  return signals
+}
+
+/**
+ * Notitie voor de Pipedrive-taak (HTML, zoals Pipedrive-notes).
+ */
+export function formatSignalsNote(signals: LeadSignal[]): string {
+  const items = signals.map((s) => `<li>${escapeHtml(s.summary)}</li>`).join('')
+  return `<p>Automatische her-verrijking vond wijzigingen:</p><ul>${items}</ul>`
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// ─── Planning ────────────────────────────────────────────────────────────
+
+/**
+ * Gesyncte, niet-gearchiveerde runs waarvan de laatste refresh (of de run
+ * zelf, als er nog geen refresh was) ouder is dan REFRESH_INTERVAL_DAYS.
+ */
+export async function findRunsDueForRefresh(supabase: SB, limit: number, now = new Date()): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - REFRESH_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const { data, error } = await supabase
+    .from('sales_lead_runs')
+    .select('id')
+    .eq('status', 'completed')
+    .not('pipedrive_org_id', 'is', null)
+    .is('archived_at', null)
+    .lt('created_at', cutoff)
+    .or(`last_refreshed_at.is.null,last_refreshed_at.lt.${cutoff}`)
+    .order('last_refreshed_at', { ascending: true, nullsFirst: true })
+    .limit(limit)
+  if (error) throw new Error(`Failed to fetch runs due for refresh: ${error.message}`)
+  return (data ?? []).map((r: { id: string }) => r.id)
+}
+
+/**
+ * Zet refreshes die blijven hangen (function-timeout) op failed.
+ */
+export async function failStaleRefreshes(supabase: SB, now = new Date()): Promise<number> {
+  const { data, error } = await supabase
+    .from('sales_lead_refreshes')
+    .update({ status: 'failed', error: 'Time-out: refresh niet afgerond', completed_at: now.toISOString() })
+    .eq('status', 'running')
+    .lt('started_at', new Date(now.getTime() - STALE_REFRESH_MS).toISOString())
+    .select('id')
+  if (error) throw new Error(`Failed to fail stale refreshes: ${error.message}`)
+  return data?.length ?? 0
+}
+
+// ─── Refresh ─────────────────────────────────────────────────────────────
+
+export class LeadRefreshService {
+  private supabase = createServiceRoleClient()
+  private kvk = new KvkService()
+  private apollo = new ApolloService()
+  private website = new WebsiteService()
+
+  async refreshRun(runId: string, trigger: 'cron' | 'manual' = 'cron'): Promise<RefreshResult> {
+    const { data: run, error: runErr } = await this.supabase
+      .from('sales_lead_runs')
+      .select('id, input_url, input_domain, scrape_vacancies, enrichments, master_record, selected_contacts, owner_config_id, pipedrive_org_id, pipedrive_deal_id')
+      .eq('id', runId)
+      .single()
+    if (runErr || !run) throw new Error(`Run ${runId} niet gevonden: ${runErr?.message ?? ''}`)
+
+    const { data: refresh, error: insErr } = await this.supabase
+      .from('sales_lead_refreshes')
+      .insert({ run_id: runId, trigger })
+      .select('id')
+      .single()
+    if (insErr || !refresh) throw new Error(`Refresh aanmaken faalde: ${insErr?.message ?? ''}`)
+
+    const result: RefreshResult = {
+      refreshId: refresh.id,
+      status: 'completed',
+      sourcesRefreshed: [],
+      signals: [],
+      pipedriveActivityId: null,
+    }
+
+    try {
+      const { data: last } = await this.supabase
+        .from('sales_lead_refreshes')
+        .select('enrichments, master_record')
+        .eq('run_id', runId)
+        .eq('status', 'completed')
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const preferences = await loadSourcePreferences(this.supabase).catch(() => ({}))
+      const runEnrichments = (run.enrichments ?? {}) as RunEnrichments
+      const runMaster = run.master_record as MasterRecord | null
+
+      // Baseline: vorige refresh, of anders het berekende (niet door sales
+      // bewerkte) master-record van de run zelf met de gesyncte contacten.
+      const baseEnrichments = (last?.enrichments as RunEnrichments | undefined) ?? runEnrichments
+      const baseline: RefreshSnapshot = (last?.master_record as RefreshSnapshot | null) ?? {
+        ...computePrimaryMaster(runEnrichments, run.input_url, preferences),
+        tracked_contacts: ((run.selected_contacts ?? []) as unknown as NormalizedContact[]).filter(
+          (c) => !!c.name && !c.source_origin?.includes('synthetic'),
+        ),
+      }
+
+      const fresh = await this.fetchSources(
+        run.input_url,
+        run.input_domain,
+        run.scrape_vacancies,
+        runMaster?.kvk_number ?? baseline.kvk_number ?? null,
+      )
+      result.sourcesRefreshed = Object.keys(fresh) as RefreshSource[]
+      if (result.sourcesRefreshed.length === 0) {
+        throw new Error('Geen enkele bron kon worden ververst')
+      }
+
+      const merged: RunEnrichments = { ...baseEnrichments, ...fresh }
+      const contactsRefreshed = !!fresh.apollo && !!fresh.website
+      const nextMaster = computePrimaryMaster(merged, run.input_url, preferences)
+      const next: RefreshSnapshot = {
+        ...nextMaster,
+        tracked_contacts: contactsRefreshed
+          ? (baseline.tracked_contacts ?? []).filter((c) => contactStillPresent(c, {
+              contacts: [...(fresh.apollo?.parsed?.contacts ?? []), ...(fresh.website?.parsed?.contacts ?? [])],
+              cold: fresh.apollo?.parsed?.cold_candidates ?? [],
+            }))
+          : baseline.tracked_contacts ?? [],
+      }
+
+      result.signals = diffSnapshots(baseline, next, {
+        vacanciesRefreshed: !!fresh.website && run.scrape_vacancies,
+        contactsRefreshed,
+      })
+
+      let activityError: string | null = null
+      if (result.signals.length > 0 && run.pipedrive_org_id) {
+        try {
+          result.pipedriveActivityId = await this.createActivity(run, nextMaster.company_name ?? run.input_domain, result.signals)
+        } catch (e) {
+          activityError = `Pipedrive-taak faalde: ${e instanceof Error ? e.message : String(e)}`
+          console.error(`[lead-refresh] ${runId}: ${activityError}`)
+        }
+      }
+
+      const now = new Date().toISOString()
+      await this.supabase
+        .from('sales_lead_refreshes')
+        .update({
+          status: 'completed',
+          sources_refreshed: result.sourcesRefreshed,
+          enrichments: merged as unknown as Json,
+          master_record: next as unknown as Json,
+          signals: result.signals as unknown as Json,
+          signal_count: result.signals.length,
+          pipedrive_activity_id: result.pipedriveActivityId,
+          error: activityError,
+          completed_at: now,
+        })
+        .eq('id', refresh.id)
+    } catch (e) {
+      result.status = 'failed'
+      result.error = e instanceof Error ? e.message : String(e)
+      await this.supabase
+        .from('sales_lead_refreshes')
+        .update({
+          status: 'failed',
+          sources_refreshed: result.sourcesRefreshed,
+          error: result.error,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', refresh.id)
+    }
+
+    // Ook na een mislukte refresh: anders pakt de cron dezelfde run elk uur.
+    await this.supabase
+      .from('sales_lead_runs')
+      .update({ last_refreshed_at: new Date().toISOString() })
+      .eq('id', runId)
+
+    return result
+  }
+
+  /**
+   * KvK (alleen met bekend KvK-nummer; een naam-guess is te onbetrouwbaar om
+   * op te diffen), Apollo organisatie + contacten en de website-crawl.
+   * Returnt alleen de bronnen die gelukt zijn.
+   */
+  private async fetchSources(
+    inputUrl: string,
+    domain: string,
+    scrapeVacancies: boolean,
+    kvkNumber: string | null,
+  ): Promise<Partial<Record<RefreshSource, PerSourceEnrichment>>> {
+    const startedAt = new Date().toISOString()
+    const entry = (parsed: NormalizedFields): PerSourceEnrichment => ({
+      status: 'completed',
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+      parsed,
+    })
+
+    const [kvk, apollo, website] = await Promise.allSettled([
+      kvkNumber ? this.kvk.enrichByKvkNumber(kvkNumber) : Promise.reject(new Error('geen KvK-nummer')),
+      this.fetchApollo(domain),
+      this.website.crawlAndParse(inputUrl, scrapeVacancies),
+    ])
+
+    const out: Partial<Record<RefreshSource, PerSourceEnrichment>> = {}
+    if (kvk.status === 'fulfilled') out.kvk = entry(kvk.value)
+    if (apollo.status === 'fulfilled') out.apollo = entry(apollo.value)
+    if (website.status === 'fulfilled') out.website = entry(website.value)
+    for (const [source, res] of [['kvk', kvk], ['apollo', apollo], ['website', website]] as const) {
+      if (res.status === 'rejected' && !(source === 'kvk' && !kvkNumber)) {
+        console.warn(`[lead-refresh] ${source} voor ${domain} faalde:`, res.reason instanceof Error ? res.reason.message : res.reason)
+      }
+    }
+    return out
+  }
+
+  private async fetchApollo(domain: string): Promise<NormalizedFields> {
+    const [orgRes, warmRes, coldRes] = await Promise.allSettled([
+      this.apollo.enrichOrganization(domain),
+      this.apollo.searchContactsByDomain(domain),
+      this.apollo.searchPeopleByDomain(domain),
+    ])
+    if (orgRes.status === 'rejected' && !(orgRes.reason instanceof ApolloApiError && orgRes.reason.reason === 'not_found')) {
+      throw orgRes.reason
+    }
+    // Zonder beide contactlijsten is "contact vertrokken" niet te bepalen.
+    if (warmRes.status === 'rejected') throw warmRes.reason
+    if (coldRes.status === 'rejected') throw coldRes.reason
+
+    const parsed: NormalizedFields = orgRes.status === 'fulfilled' ? { ...orgRes.value.normalized } : { source: 'apollo' }
+    parsed.contacts = warmRes.value.contacts.length ? warmRes.value.contacts : undefined
+    parsed.cold_candidates = coldRes.value.candidates.length ? coldRes.value.candidates : undefined
+    return parsed
+  }
+
+  /**
+   * Pipedrive-taak voor de dealeigenaar, alleen als die dat aan heeft staan
+   * (`sales_lead_owner_config.refresh_activity_enabled`).
+   */
+  private async createActivity(
+    run: { owner_config_id: string; pipedrive_org_id: number | null; pipedrive_deal_id: number | null },
+    companyName: string,
+    signals: LeadSignal[],
+  ): Promise<number | null> {
+    const { data: owner } = await this.supabase
+      .from('sales_lead_owner_config')
+      .select('pipedrive_user_id, refresh_activity_enabled')
+      .eq('id', run.owner_config_id)
+      .maybeSingle()
+    if (!owner?.refresh_activity_enabled) return null
+
+    const activity = await getPipedriveClient().addActivity({
+      subject: `Leadsignalen ${companyName}: ${[...new Set(signals.map((s) => SIGNAL_LABEL[s.type]))].join(', ')}`.slice(0, 250),
+      type: 'task',
+      done: false,
+      due_date: new Date().toISOString().slice(0, 10),
+      org_id: run.pipedrive_org_id ?? undefined,
+      deal_id: run.pipedrive_deal_id ?? undefined,
+      user_id: owner.pipedrive_user_id,
+      note: formatSignalsNote(signals),
+    })
+    return typeof activity?.id === 'number' ? activity.id : null
+  }
+}
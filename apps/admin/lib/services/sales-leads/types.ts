@@ -148,9 +148,27 @@ export type ColdContact = {
   organization_id?: string
 }
 
+/**
+ * Hoe een detailveld is gevonden. Structured-data-formaten eerst (json_ld,
+ * microdata, rdfa, next_data, nuxt_data), dan Nederlandse tekstpatronen,
+ * dan Mistral. page_markdown = description is de page-markdown (geen structured data).
+ */
+export type DetailFieldMethod =
+  | 'json_ld'
+  | 'microdata'
+  | 'rdfa'
+  | 'next_data'
+  | 'nuxt_data'
+  | 'pattern'
+  | 'mistral'
+  | 'page_markdown'
+
+export type DetailFieldKey = Exclude<keyof VacancyDetailFields, 'field_methods'>
+
 /**
  * Gestructureerde velden uit een vacature-detailpagina, geëxtraheerd door
- * vacancy-detail/extract.ts (JSON-LD eerst, Mistral-fallback).
+ * vacancy-detail/extract.ts (structured data, dan tekstpatronen, Mistral alleen
+ * voor wat dan nog ontbreekt).
  */
 export type VacancyDetailFields = {
   salary: string | null
@@ -164,6 +182,9 @@ export type VacancyDetailFields = {
   working_hours_min: number | null
   working_hours_max: number | null
   categories: string | null
+  // Per gevuld veld de methode. Optioneel: master_records van vóór deze
+  // uitbreiding hebben het niet.
+  field_methods?: Partial<Record<DetailFieldKey, DetailFieldMethod>>
 }
 
 export type NormalizedVacancy = {
@@ -324,6 +345,14 @@ export type MasterRecord = NormalizedFields & {
   } | null
 }
 
+// ─── Refresh-signalen (sales_lead_refreshes.signals) ───────────────────────
+
+export type LeadSignal =
+  | { type: 'address_moved'; summary: string; from: string | null; to: string | null }
+  | { type: 'headcount_change'; summary: string; from: number; to: number; change_pct: number }
+  | { type: 'new_vacancies'; summary: string; count: number; titles: string[] }
+  | { type: 'contact_left'; summary: string; name: string; title: string | null }
+
 // ─── Contact-ranking output (sectie 7.2 spec) ──────────────────────────────
 
 export type ContactRankingPick = {
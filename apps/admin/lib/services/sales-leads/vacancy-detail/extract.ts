@@ -2,19 +2,22 @@
  * Gedeelde vacature-detail-extractor.
  *
  * Haalt een vacature-detailpagina op en extraheert gestructureerde velden.
- * Twee paden:
- *   1. JSON-LD JobPosting (vaak op ATS-pagina's): salary, employment, job_type,
- *      description, published_at, end_date via het strict Zod-schema.
- *   2. Geen (bruikbare) JSON-LD (de meeste eigen werkenbij-pagina's): de
- *      page-markdown wordt de description.
- * In beide paden draait Mistral op de description voor working_hours,
- * education_level, career_level en categories.
+ * Drie lagen, per veld wint de eerste die iets vindt:
+ *   1. Structured data (structured-data.ts): JSON-LD, microdata, RDFa,
+ *      __NEXT_DATA__ of Nuxt-state. Levert salary, employment, job_type,
+ *      description, published_at, end_date en soms uren/opleiding/categorie.
+ *      Zonder bruikbare structured data wordt de page-markdown de description.
+ *   2. Nederlandse tekstpatronen op de description (patterns.ts): werkuren
+ *      ("32-40 uur"), opleidingsniveau ("MBO niveau 4"), carrièreniveau.
+ *   3. Mistral, alleen als working_hours/education_level/career_level/
+ *      categories daarna nog ontbreken, en alleen voor die velden.
+ * Per gevuld veld staat de methode in fields.field_methods.
  *
  * Gebruikt door:
  *   - de website-stap (inline, op het kritieke pad van de run)
  *   - de career-page-detail achtergrond-worker (vangnet voor de overflow)
  *
- * Hergebruikt de werkenindekempen-parsers en de sales-leads fetch-infra.
+ * Hergebruikt de werkenindekempen-normalizers en de sales-leads fetch-infra.
  */
 
 import type { TablesUpdate } from '@/lib/supabase'
@@ -25,16 +28,16 @@ import {
   SsrfBlockedError,
   FetchSizeExceededError,
 } from '@/lib/services/sales-leads/website/ssrf-fetch'
-import {
-  parseDetailHtml,
-  JobPostingValidationError,
-} from '@/lib/scrapers/werkenindekempen/detail-parser'
-import {
-  extractFromDescription,
-  emptyMistralResult,
-} from '@/lib/scrapers/werkenindekempen/ai-parser'
+import { extractFromDescription } from '@/lib/scrapers/werkenindekempen/ai-parser'
 import * as N from '@/lib/scrapers/werkenindekempen/normalizers'
-import type { NormalizedVacancy, VacancyDetailFields } from '@/lib/services/sales-leads/types'
+import type {
+  DetailFieldKey,
+  DetailFieldMethod,
+  NormalizedVacancy,
+  VacancyDetailFields,
+} from '@/lib/services/sales-leads/types'
+import { extractStructuredJobPosting, type StructuredJobPosting } from './structured-data'
+import { extractCareerLevel, extractEducationLevel, extractWorkingHours } from './patterns'
 
 export type { VacancyDetailFields }
 
@@ -59,60 +62,170 @@ export function emptyDetailFields(): VacancyDetailFields {
   }
 }
 
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}/
+
+// Velden die zonder structured data of patroon-hit naar Mistral gaan.
+const AI_FIELDS = ['working_hours_min', 'education_level', 'career_level', 'categories'] as const
+
+// schema.org credentialCategory -> ons opleidingsniveau (alleen eenduidige).
+const CREDENTIAL_LEVELS: Record<string, string> = {
+  'bachelor degree': 'HBO',
+  'postgraduate degree': 'WO',
+}
+
+const SALARY_UNITS: Record<string, string> = {
+  HOUR: 'HOUR', UUR: 'HOUR',
+  WEEK: 'WEEK',
+  MONTH: 'MONTH', MAAND: 'MONTH',
+  YEAR: 'YEAR', JAAR: 'YEAR',
+}
+
+/** "3.000", "3.000,50", "3000.5", "€ 3000" -> number. */
+function toAmount(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+  let s = value.replace(/[€\s]|EUR/gi, '')
+  s = /^\d{1,3}(\.\d{3})+(,\d+)?$/.test(s) ? s.replace(/\./g, '').replace(',', '.') : s.replace(',', '.')
+  const n = parseFloat(s)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * Microdata/RDFa/hydration leveren bedragen als strings en units in
+ * willekeurige casing; N.parseSalary verwacht de JSON-LD-vorm met getallen.
+ */
+function coerceBaseSalary(raw: unknown): unknown {
+  if (!raw || typeof raw !== 'object') return null
+  const bs = raw as Record<string, unknown>
+  const value = bs.value && typeof bs.value === 'object' ? (bs.value as Record<string, unknown>) : { value: bs.value }
+  const unit = (v: unknown) => (typeof v === 'string' ? (SALARY_UNITS[v.trim().toUpperCase()] ?? null) : null)
+  const min = toAmount(value.minValue)
+  const max = toAmount(value.maxValue)
+  const single = typeof value.value === 'string' && value.value.includes('-') ? value.value : toAmount(value.value)
+  return {
+    currency: typeof bs.currency === 'string' ? bs.currency : undefined,
+    unitText: unit(bs.unitText),
+    value: {
+      minValue: min ?? undefined,
+      maxValue: max ?? undefined,
+      value: single ?? undefined,
+      unitText: unit(value.unitText),
+    },
+  }
+}
+
+/** Max 3 brede categorieën uit industry/occupationalCategory; codes (O*NET/ISCO) vallen af. */
+function structuredCategories(p: StructuredJobPosting): string | null {
+  const parts = [p.industry, p.occupationalCategory]
+    .flatMap((v) => (v ? v.split(/\s*,\s*/) : []))
+    .filter((v) => v && !/^\d/.test(v))
+  return [...new Set(parts)].slice(0, 3).join(', ') || null
+}
+
+function structuredHours(workHours: string | null): ReturnType<typeof extractWorkingHours> {
+  if (!workHours) return null
+  // Kale waarde ("40" of "32-40") zonder eenheid: schema.org workHours is per week.
+  const text = /^\d{1,2}(\s*-\s*\d{1,2})?$/.test(workHours) ? `${workHours} uur per week` : workHours
+  return extractWorkingHours(text)
+}
+
+function structuredEducation(requirements: string | null): string | null {
+  if (!requirements) return null
+  return CREDENTIAL_LEVELS[requirements.toLowerCase()] ?? extractEducationLevel(requirements)
+}
+
 /**
  * Extraheer de structurele velden uit reeds-opgehaalde HTML (synchroon, geen
- * netwerk). Returnt de velden plus de plain-text description die als Mistral-
- * input dient. Apart van de Mistral-stap zodat dit deterministisch te testen is.
+ * netwerk): structured data + tekstpatronen. Returnt de velden plus de
+ * plain-text description die als Mistral-input dient. Apart van de
+ * Mistral-stap zodat dit deterministisch te testen is.
  */
 export function parseStructuredDetail(
   html: string,
   finalUrl: string,
 ): { fields: VacancyDetailFields; descriptionText: string } {
   const fields = emptyDetailFields()
-  let descriptionText = ''
+  const methods: Partial<Record<DetailFieldKey, DetailFieldMethod>> = {}
+  const set = <K extends DetailFieldKey>(key: K, value: VacancyDetailFields[K], method: DetailFieldMethod) => {
+    if (value == null || fields[key] != null) return
+    fields[key] = value
+    methods[key] = method
+  }
+  const setHours = (hours: ReturnType<typeof extractWorkingHours>, method: DetailFieldMethod) => {
+    // Min en max altijd uit dezelfde bron, nooit mixen.
+    if (!hours || fields.working_hours_min != null) return
+    set('working_hours_min', hours.min, method)
+    set('working_hours_max', hours.max, method)
+  }
 
+  let structured: ReturnType<typeof extractStructuredJobPosting> = null
   try {
-    const jp = parseDetailHtml(html, finalUrl)
-    const employment = N.normalizeEmploymentType(jp.employmentType)
-    const salary = N.parseSalary(jp.baseSalary)
-    descriptionText = N.stripHtml(jp.description ?? '')
-    fields.description = jp.description || null
-    fields.salary = salary.displayLabel
-    fields.employment = employment.label
-    fields.job_type = employment.labels.length ? employment.labels : null
-    fields.published_at = N.parsePublishedAt(jp.datePosted)
-    fields.end_date = jp.validThrough ? jp.validThrough.slice(0, 10) : null
+    structured = extractStructuredJobPosting(html)
   } catch (e) {
-    // JobPostingValidationError = geen (geldige) JSON-LD. Andere errors
-    // behandelen we identiek: val terug op de page-markdown als description.
-    if (!(e instanceof JobPostingValidationError)) {
-      console.warn(`[vacancy-detail] onverwachte parse-fout ${finalUrl}:`, e)
+    // Onverwacht (de extractors zijn defensief); behandel als "geen structured data".
+    console.warn(`[vacancy-detail] onverwachte parse-fout ${finalUrl}:`, e)
+  }
+
+  if (structured) {
+    const { format, posting } = structured
+    const employment = N.normalizeEmploymentType(posting.employmentType)
+    set('description', posting.description, format)
+    set('salary', N.parseSalary(coerceBaseSalary(posting.baseSalary)).displayLabel, format)
+    set('employment', employment.label, format)
+    set('job_type', employment.labels.length ? employment.labels : null, format)
+    if (posting.datePosted && ISO_DATE_RE.test(posting.datePosted)) {
+      set('published_at', N.parsePublishedAt(posting.datePosted), format)
+    }
+    if (posting.validThrough && ISO_DATE_RE.test(posting.validThrough)) {
+      set('end_date', posting.validThrough.slice(0, 10), format)
     }
-    const md = htmlToMarkdown(html)
-    descriptionText = N.stripHtml(md)
-    fields.description = md || null
+    setHours(structuredHours(posting.workHours), format)
+    set('education_level', structuredEducation(posting.educationRequirements), format)
+    set('categories', structuredCategories(posting), format)
+  }
+
+  if (!fields.description) {
+    set('description', htmlToMarkdown(html) || null, 'page_markdown')
   }
+  const descriptionText = N.stripHtml(fields.description ?? '')
 
+  // Titel meenemen: niveau staat vaak alleen daar ("Senior Servicemonteur").
+  const patternText = [structured?.posting.title, descriptionText].filter(Boolean).join('\n')
+  setHours(extractWorkingHours(patternText), 'pattern')
+  set('education_level', extractEducationLevel(patternText), 'pattern')
+  set('career_level', extractCareerLevel(patternText), 'pattern')
+
+  fields.field_methods = methods
   return { fields, descriptionText }
 }
 
 /**
- * Volledige extractie uit HTML: structurele velden + Mistral-augmentatie op de
- * description. Mistral levert working_hours/education_level/career_level/
- * categories en vult niets in als MISTRAL_API_KEY ontbreekt.
+ * Volledige extractie uit HTML: structured data + patronen, daarna Mistral
+ * alleen voor de AI-velden die nog leeg zijn. Geen Mistral-call als alles al
+ * gevuld is; Mistral vult niets in als MISTRAL_API_KEY ontbreekt.
  */
 export async function extractVacancyDetailFromHtml(
   html: string,
   finalUrl: string,
 ): Promise<VacancyDetailFields> {
   const { fields, descriptionText } = parseStructuredDetail(html, finalUrl)
-  const ai =
-    descriptionText.length >= 50 ? await extractFromDescription(descriptionText) : emptyMistralResult()
-  fields.education_level = ai.education_level
-  fields.career_level = ai.career_level
-  fields.working_hours_min = ai.working_hours_min
-  fields.working_hours_max = ai.working_hours_max
-  fields.categories = ai.categories.join(', ') || null
+  const missing = AI_FIELDS.filter((k) => fields[k] == null)
+  if (missing.length === 0 || descriptionText.length < 50) return fields
+
+  const ai = await extractFromDescription(descriptionText)
+  const methods = (fields.field_methods ??= {})
+  const fill = <K extends DetailFieldKey>(key: K, value: VacancyDetailFields[K]) => {
+    if (value == null || fields[key] != null) return
+    fields[key] = value
+    methods[key] = 'mistral'
+  }
+  if (missing.includes('working_hours_min')) {
+    fill('working_hours_min', ai.working_hours_min)
+    fill('working_hours_max', ai.working_hours_max)
+  }
+  fill('education_level', ai.education_level)
+  fill('career_level', ai.career_level)
+  fill('categories', ai.categories.join(', ') || null)
   return fields
 }
 
@@ -160,6 +273,7 @@ export function detailFieldsToJobPostingUpdate(f: VacancyDetailFields): TablesUp
     working_hours_min: f.working_hours_min,
     working_hours_max: f.working_hours_max,
     categories: f.categories,
+    detail_field_methods: f.field_methods ?? null,
   }
 }
 
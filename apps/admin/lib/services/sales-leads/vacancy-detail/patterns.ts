@@ -0,0 +1,87 @@
+/**
+ * Deterministische Nederlandse tekstpatronen voor vacaturevelden die anders
+ * via Mistral komen: werkuren, opleidingsniveau en carrièreniveau.
+ *
+ * Conservatief: bij twijfel (geen match, onzinnige uren, meerdere
+ * carrièreniveaus) returnt een extractor null en blijft het veld over voor
+ * Mistral. Waarden volgen de enums van het Mistral-schema
+ * (werkenindekempen/types.ts), zodat beide bronnen uitwisselbaar zijn.
+ */
+
+import type { MistralResult } from '@/lib/scrapers/werkenindekempen/types'
+
+export type EducationLevel = NonNullable<MistralResult['education_level']>
+export type CareerLevel = NonNullable<MistralResult['career_level']>
+
+const MIN_HOURS = 4
+const MAX_HOURS = 60
+
+function validHours(n: number): boolean {
+  return Number.isInteger(n) && n >= MIN_HOURS && n <= MAX_HOURS
+}
+
+// "32-40 uur", "32 tot 40 uur", "24 à 32 uur", "16 t/m 24 u". Lookbehind sluit
+// tijden ("08:00-17:00 uur") en bedragen ("1.500-2.000") uit.
+const HOURS_RANGE_RE =
+  /(?<![\d:.,])(\d{1,2})\s*(?:-|–|tot(?:\s+en\s+met)?|t\/m|à|a)\s*(\d{1,2})\s*(?:uur|u\b|urig)/i
+// "40 uur per week", "36 uur p/w", "32 uur in de week", "38-urige werkweek"
+const HOURS_SINGLE_RE =
+  /(?<![\d:.,])(\d{1,2})\s*(?:uur\s*(?:per\s+week|p\/w|p\.w\.?|\/\s*week|in\s+de\s+week|per\s+wk)|-?urige\s+werkweek)/i
+
+/** Werkuren per week uit vrije tekst; enkel getal -> min gevuld, max null (zelfde regel als Mistral). */
+export function extractWorkingHours(text: string): { min: number; max: number | null } | null {
+  if (!text) return null
+  const range = text.match(HOURS_RANGE_RE)
+  if (range) {
+    const min = Number(range[1])
+    const max = Number(range[2])
+    if (validHours(min) && validHours(max) && min <= max) {
+      return min === max ? { min, max: null } : { min, max }
+    }
+  }
+  const single = text.match(HOURS_SINGLE_RE)
+  if (single) {
+    const n = Number(single[1])
+    if (validHours(n)) return { min: n, max: null }
+  }
+  return null
+}
+
+// Volgorde = rangorde: de hoogste genoemde eis wint (Mistral-regel "hoogste eis").
+const EDUCATION_PATTERNS: Array<{ level: EducationLevel; res: RegExp[] }> = [
+  { level: 'PhD', res: [/\b(?:phd|promotie|gepromoveerd|doctoraat)\b/i] },
+  {
+    level: 'WO',
+    // "wo" los alleen in hoofdletters: in lowercase is het ook de afkorting van woensdag.
+    res: [/\bWO\b/, /\bwo[-\s](?:niveau|opleiding|werk- en denkniveau|diploma)|\buniversitair|(?<!scrum\s)\bmaster(?:opleiding|diploma)?\b/i],
+  },
+  { level: 'HBO', res: [/\bhbo\b|\bbachelor(?:opleiding|diploma)?\b|\bhogeschool\b/i] },
+  { level: 'VWO', res: [/\bvwo\b/i] },
+  { level: 'MBO', res: [/\bmbo(?:[-\s]?[1-4])?\b|\bmiddelbaar beroepsonderwijs\b/i] },
+  { level: 'HAVO', res: [/\bhavo\b/i] },
+  { level: 'VMBO', res: [/\bvmbo\b/i] },
+]
+
+/** Hoogste genoemde opleidingseis ("MBO niveau 4" -> MBO, "HBO/WO" -> WO). */
+export function extractEducationLevel(text: string): EducationLevel | null {
+  if (!text) return null
+  const hit = EDUCATION_PATTERNS.find(({ res }) => res.some((re) => re.test(text)))
+  return hit?.level ?? null
+}
+
+const CAREER_PATTERNS: Array<{ level: CareerLevel; re: RegExp }> = [
+  { level: 'Stage', re: /\b(?:stage|stagiair|stagiaire|afstudeerstage|meewerkstage|stageplek)\b/i },
+  { level: 'Junior', re: /\bjunior\b/i },
+  { level: 'Medior', re: /\bmedior\b/i },
+  { level: 'Senior', re: /\bsenior\b/i },
+]
+
+/**
+ * Carrièreniveau alleen als precies één niveau expliciet genoemd wordt.
+ * "junior of medior" is ambigu en blijft over voor Mistral.
+ */
+export function extractCareerLevel(text: string): CareerLevel | null {
+  if (!text) return null
+  const hits = CAREER_PATTERNS.filter(({ re }) => re.test(text)).map(({ level }) => level)
+  return hits.length === 1 ? hits[0] : null
+}
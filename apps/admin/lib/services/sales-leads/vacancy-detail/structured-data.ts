@@ -0,0 +1,298 @@
+/**
+ * Zoekt een vacature-object in de structured data van een detailpagina.
+ *
+ * Formaten, in volgorde (eerste bruikbare wint):
+ *   1. JSON-LD      <script type="application/ld+json"> (ook @graph en @type-arrays)
+ *   2. Microdata    itemscope itemtype=".../JobPosting"
+ *   3. RDFa         typeof="JobPosting" / "schema:JobPosting"
+ *   4. next_data    <script id="__NEXT_DATA__"> (Next.js pages-router hydration)
+ *   5. nuxt_data    <script id="__NUXT_DATA__"> (Nuxt 3, devalue) of window.__NUXT__ = {...}
+ *
+ * In tegenstelling tot de strikte werkenindekempen-parser (die een complete
+ * JobPosting met werkgever/locatie eist) is dit lenient: elk veld is optioneel,
+ * alleen titel of beschrijving moet er zijn. In hydration-blobs zoeken we eerst
+ * een echt schema.org-object en anders een object dat op een vacature lijkt.
+ */
+
+import * as cheerio from 'cheerio'
+import type { Cheerio, CheerioAPI } from 'cheerio'
+import { z } from 'zod'
+
+// domhandler is geen directe dependency; het node-type via cheerio afleiden.
+type AnyNode = Parameters<typeof cheerio.contains>[0]
+type Selection = Cheerio<AnyNode>
+
+export type StructuredFormat = 'json_ld' | 'microdata' | 'rdfa' | 'next_data' | 'nuxt_data'
+
+// ─── Lenient schema ─────────────────────────────────────────────────
+
+function coerceText(value: unknown): unknown {
+  if (typeof value === 'number') return String(value)
+  if (typeof value === 'string') return value.trim() || null
+  if (Array.isArray(value)) {
+    const parts = value.map(coerceText).filter((v): v is string => typeof v === 'string')
+    return parts.length ? parts.join(', ') : null
+  }
+  if (value && typeof value === 'object') {
+    // schema.org-objecten (EducationalOccupationalCredential, DefinedTerm, ...)
+    const o = value as Record<string, unknown>
+    return coerceText(o.credentialCategory ?? o.name ?? o.value ?? null)
+  }
+  return null
+}
+
+const text = () => z.preprocess(coerceText, z.string().nullable()).catch(null)
+
+const StructuredJobPostingSchema = z.object({
+  title: text(),
+  description: text(),
+  datePosted: text(),
+  validThrough: text(),
+  employmentType: z
+    .preprocess((v) => (Array.isArray(v) ? v.map(coerceText).filter(Boolean) : coerceText(v)), z.union([z.string(), z.array(z.string())]).nullable())
+    .catch(null),
+  baseSalary: z.unknown().optional(),
+  workHours: text(),
+  educationRequirements: text(),
+  occupationalCategory: text(),
+  industry: text(),
+})
+export type StructuredJobPosting = z.infer<typeof StructuredJobPostingSchema>
+
+function toPosting(raw: Record<string, unknown>): StructuredJobPosting | null {
+  const posting = StructuredJobPostingSchema.parse(raw)
+  return posting.title || posting.description ? posting : null
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function hasJobPostingType(value: unknown): value is Record<string, unknown> {
+  if (!isRecord(value)) return false
+  const type = value['@type']
+  const types = Array.isArray(type) ? type : [type]
+  return types.some((t) => typeof t === 'string' && /(^|[/:])JobPosting$/.test(t))
+}
+
+function parseJsonSafe(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return null
+  }
+}
+
+const MAX_DEPTH = 12
+
+/** Depth-first zoeken naar het eerste object waarvoor `match` true is. */
+function findObject(
+  root: unknown,
+  match: (o: Record<string, unknown>) => boolean,
+  depth = 0,
+  seen = new Set<unknown>(),
+): Record<string, unknown> | null {
+  if (depth > MAX_DEPTH || root === null || typeof root !== 'object' || seen.has(root)) return null
+  seen.add(root)
+  if (isRecord(root) && match(root)) return root
+  const children = Array.isArray(root) ? root : Object.values(root)
+  for (const child of children) {
+    const hit = findObject(child, match, depth + 1, seen)
+    if (hit) return hit
+  }
+  return null
+}
+
+// ─── JSON-LD ────────────────────────────────────────────────────────
+
+function fromJsonLd($: CheerioAPI): StructuredJobPosting | null {
+  for (const el of $('script[type="application/ld+json"]').toArray()) {
+    const parsed = parseJsonSafe($(el).text().trim())
+    const jp = findObject(parsed, hasJobPostingType)
+    const posting = jp ? toPosting(jp) : null
+    if (posting) return posting
+  }
+  return null
+}
+
+// ─── Microdata / RDFa ───────────────────────────────────────────────
+
+interface ItemSyntax {
+  scopeSelector: string
+  isScope: (el: Selection) => boolean
+  propAttr: 'itemprop' | 'property'
+  propName: (raw: string) => string
+}
+
+const MICRODATA: ItemSyntax = {
+  scopeSelector: '[itemscope][itemtype*="schema.org/JobPosting"]',
+  isScope: (el) => el.is('[itemscope]'),
+  propAttr: 'itemprop',
+  propName: (raw) => raw,
+}
+
+const RDFA: ItemSyntax = {
+  scopeSelector: '[typeof~="JobPosting"], [typeof~="schema:JobPosting"]',
+  isScope: (el) => el.is('[typeof]'),
+  propAttr: 'property',
+  // "schema:title" / "http://schema.org/title" -> "title"
+  propName: (raw) => raw.replace(/^.*[/:#]/, ''),
+}
+
+function propValue(el: Selection, name: string): string | null {
+  const attr = el.attr('content') ?? el.attr('datetime') ?? el.attr('href') ?? el.attr('resource') ?? el.attr('src')
+  if (attr != null) return attr
+  const value = el.attr('value')
+  if (value != null) return value
+  // De beschrijving bewaren we als HTML (net als JSON-LD description).
+  return name === 'description' ? (el.html() ?? '').trim() : el.text().trim()
+}
+
+/** Leest de properties van één item; geneste items (baseSalary, value) worden objecten. */
+function readItem($: CheerioAPI, scope: Selection, syntax: ItemSyntax, depth = 0): Record<string, unknown> {
+  const item: Record<string, unknown> = {}
+  if (depth > MAX_DEPTH) return item
+  const scopeEl = scope.get(0)
+  scope.find(`[${syntax.propAttr}]`).each((_, node) => {
+    const el = $(node)
+    // Alleen properties waarvan dit item de dichtstbijzijnde scope is.
+    const owner = el.parents().filter((__, p) => syntax.isScope($(p))).first().get(0)
+    if (owner !== scopeEl) return
+    const value = syntax.isScope(el) ? readItem($, el, syntax, depth + 1) : null
+    for (const raw of (el.attr(syntax.propAttr) ?? '').split(/\s+/).filter(Boolean)) {
+      const name = syntax.propName(raw)
+      const v = value ?? propValue(el, name)
+      if (name in item) {
+        const prev = item[name]
+        item[name] = Array.isArray(prev) ? [...prev, v] : [prev, v]
+      } else {
+        item[name] = v
+      }
+    }
+  })
+  return item
+}
+
+function fromItemSyntax($: CheerioAPI, syntax: ItemSyntax): StructuredJobPosting | null {
+  const scope = $(syntax.scopeSelector).first()
+  if (!scope.length) return null
+  return toPosting(readItem($, scope, syntax))
+}
+
+// ─── Framework hydration ────────────────────────────────────────────
+
+// Sleutels die frameworks/CMS'en gebruiken, gemapt op schema.org-namen.
+const ALIASES: Record<keyof Omit<StructuredJobPosting, 'baseSalary'>, string[]> = {
+  title: ['title', 'jobTitle', 'name'],
+  description: ['description', 'descriptionHtml', 'content', 'body'],
+  datePosted: ['datePosted', 'publishedAt', 'published_at', 'publicationDate', 'createdAt'],
+  validThrough: ['validThrough', 'expiresAt', 'closingDate', 'endDate'],
+  employmentType: ['employmentType', 'employment_type', 'contractType'],
+  workHours: ['workHours', 'hoursPerWeek', 'workingHours', 'hours'],
+  educationRequirements: ['educationRequirements', 'educationLevel', 'education'],
+  occupationalCategory: ['occupationalCategory', 'category'],
+  industry: ['industry', 'sector'],
+}
+
+const JOB_HINT_KEYS = [
+  ...ALIASES.datePosted,
+  ...ALIASES.validThrough,
+  ...ALIASES.employmentType,
+  ...ALIASES.workHours,
+  'baseSalary',
+  'salary',
+]
+
+/** Heuristiek: titel + lange beschrijving + minstens één vacature-specifieke sleutel. */
+function looksLikeVacancy(o: Record<string, unknown>): boolean {
+  const title = ALIASES.title.some((k) => typeof o[k] === 'string')
+  const description = ALIASES.description.some((k) => typeof o[k] === 'string' && (o[k] as string).length >= 200)
+  return title && description && JOB_HINT_KEYS.some((k) => k in o)
+}
+
+function fromAliases(o: Record<string, unknown>): StructuredJobPosting | null {
+  const raw: Record<string, unknown> = { baseSalary: o.baseSalary }
+  for (const [field, keys] of Object.entries(ALIASES)) {
+    const key = keys.find((k) => o[k] != null && o[k] !== '')
+    if (key) raw[field] = o[key]
+  }
+  return toPosting(raw)
+}
+
+function fromHydration(data: unknown): StructuredJobPosting | null {
+  if (data == null) return null
+  const jp = findObject(data, hasJobPostingType)
+  if (jp) return toPosting(jp)
+  const vacancy = findObject(data, looksLikeVacancy)
+  return vacancy ? fromAliases(vacancy) : null
+}
+
+function fromNextData($: CheerioAPI): StructuredJobPosting | null {
+  const raw = $('script#__NEXT_DATA__').first().text()
+  return raw ? fromHydration(parseJsonSafe(raw)) : null
+}
+
+// devalue-specials (Nuxt 3 payload): negatieve indexen zijn undefined/NaN/Infinity.
+const DEVALUE_WRAPPERS = new Set(['Reactive', 'ShallowReactive', 'Ref', 'ShallowRef', 'EmptyRef', 'EmptyShallowRef'])
+
+/** Minimale devalue.unflatten: objecten/arrays/primitieven + Vue-reactivity-wrappers. */
+export function unflattenDevalue(values: unknown): unknown {
+  if (!Array.isArray(values) || values.length === 0) return null
+  const cache = new Map<number, unknown>()
+  const hydrate = (index: unknown, depth: number): unknown => {
+    if (typeof index !== 'number' || index < 0 || index >= values.length || depth > MAX_DEPTH * 2) return null
+    if (cache.has(index)) return cache.get(index)
+    const value = values[index]
+    if (value === null || typeof value !== 'object') return value
+    if (Array.isArray(value)) {
+      if (typeof value[0] === 'string') {
+        const tag = value[0]
+        if (DEVALUE_WRAPPERS.has(tag)) return hydrate(value[1], depth + 1)
+        if (tag === 'Date') return value[1]
+        return null
+      }
+      const arr: unknown[] = []
+      cache.set(index, arr)
+      for (const i of value) arr.push(hydrate(i, depth + 1))
+      return arr
+    }
+    const obj: Record<string, unknown> = {}
+    cache.set(index, obj)
+    for (const [k, i] of Object.entries(value)) obj[k] = hydrate(i, depth + 1)
+    return obj
+  }
+  return hydrate(0, 0)
+}
+
+const NUXT2_RE = /window\.__NUXT__\s*=\s*(\{[\s\S]*?\})\s*;?\s*<\/script>/
+
+function fromNuxtData($: CheerioAPI, html: string): StructuredJobPosting | null {
+  const nuxt3 = $('script#__NUXT_DATA__').first().text()
+  if (nuxt3) return fromHydration(unflattenDevalue(parseJsonSafe(nuxt3)))
+  // Nuxt 2: alleen als de state een puur JSON-literal is (geen IIFE met argumenten).
+  const nuxt2 = html.match(NUXT2_RE)
+  return nuxt2 ? fromHydration(parseJsonSafe(nuxt2[1])) : null
+}
+
+// ─── Entry ──────────────────────────────────────────────────────────
+
+export function extractStructuredJobPosting(
+  html: string,
+): { format: StructuredFormat; posting: StructuredJobPosting } | null {
+  if (!html) return null
+  const $ = cheerio.load(html)
+  const attempts: Array<[StructuredFormat, () => StructuredJobPosting | null]> = [
+    ['json_ld', () => fromJsonLd($)],
+    ['microdata', () => fromItemSyntax($, MICRODATA)],
+    ['rdfa', () => fromItemSyntax($, RDFA)],
+    ['next_data', () => fromNextData($)],
+    ['nuxt_data', () => fromNuxtData($, html)],
+  ]
+  for (const [format, attempt] of attempts) {
+    const posting = attempt()
+    if (posting) return { format, posting }
+  }
+  return null
+}
@@ -9,8 +9,16 @@
  *   ## Wat bieden we?
  *
  * Extraheert ook ontbrekende metadata (salary, employment, education, hours).
+ * Het salaris komt ook gestructureerd terug (salary_min/max/unit), gevalideerd
+ * door de salaris-normalisatie met de tekst als fallback.
  */
 
+import {
+  normalizeSalary,
+  normalizeStructuredSalary,
+  type SalaryUnit,
+} from '@/lib/services/salary-normalization/normalize'
+
 const MISTRAL_API_URL = 'https://api.mistral.ai/v1/chat/completions'
 
 export interface RewriteExtractedFields {
@@ -18,6 +26,9 @@ export interface RewriteExtractedFields {
   education_level: string | null
   categories: string | null
   salary: string | null
+  salary_min: number | null
+  salary_max: number | null
+  salary_unit: SalaryUnit | null
   working_hours_min: number | null
   working_hours_max: number | null
   seo_title: string | null
@@ -113,6 +124,8 @@ Naast de markdown, extraheer ook deze gestructureerde velden uit de tekst. Geef
 - education_level: Eén van: VMBO/MAVO, MBO, HBO, WO, HAVO, VWO.
 - categories: Eén van: Medisch/Zorg, Techniek, Inkoop/Logistiek/Transport, Productie/Uitvoerend, Financieel/Accounting, Commercieel/Verkoop, Administratief/Secretarieel, Horeca/Detailhandel, Automatisering/Internet, Onderwijs/Onderzoek/Wetenschap, Beveiliging/Defensie/Politie, HR/Training/Opleiding, Marketing/PR/Communicatie, Bouw, Juridisch, Design/Creatie/Journalistiek, Klantenservice/Callcenter/Receptie, Directie/Management, Consultancy/Advies, Overig.
 - salary: Exact salaris of range als tekst (bijv. "€3.000 – €4.000 per maand"). null als niet genoemd.
+- salary_min / salary_max: Onder- en bovenkant van het salaris als getal, zonder valuta of punten (bijv. 3000 en 4000). Bij één bedrag beide gelijk; bij "vanaf" alleen salary_min. null als niet genoemd of niet in bedragen ("conform CAO").
+- salary_unit: Periode van die bedragen. Eén van: HOUR, DAY, WEEK, MONTH, YEAR. null als er geen bedrag is.
 - working_hours_min: Minimum uren per week als getal. null als niet genoemd.
 - working_hours_max: Maximum uren per week als getal. null als niet genoemd.
 - seo_title: SEO-titel max 60 tekens: "{Functietitel} bij {Bedrijf} in {Stad}".
@@ -125,6 +138,9 @@ Naast de markdown, extraheer ook deze gestructureerde velden uit de tekst. Geef
   "education_level": "...",
   "categories": "...",
   "salary": "...",
+  "salary_min": null,
+  "salary_max": null,
+  "salary_unit": null,
   "working_hours_min": null,
   "working_hours_max": null,
   "seo_title": "...",
@@ -258,13 +274,25 @@ ${truncated}`
     throw new Error('AI response bevat geen content_md veld')
   }
 
+  const salaryText = (parsed.salary as string | null) || null
+  const toNumber = (v: unknown) => (v != null && v !== '' ? Number(v) : null)
+  const salary =
+    normalizeStructuredSalary({
+      min: toNumber(parsed.salary_min),
+      max: toNumber(parsed.salary_max),
+      unit: parsed.salary_unit as string | null,
+    }) ?? normalizeSalary(salaryText)
+
   return {
     content_md: parsed.content_md.trim(),
     extracted: {
       employment: (parsed.employment as string | null) || null,
       education_level: (parsed.education_level as string | null) || null,
       categories: (parsed.categories as string | null) || null,
-      salary: (parsed.salary as string | null) || null,
+      salary: salaryText,
+      salary_min: salary?.min ?? null,
+      salary_max: salary?.max ?? null,
+      salary_unit: salary?.unit ?? null,
       working_hours_min: parsed.working_hours_min != null ? Number(parsed.working_hours_min) : null,
       working_hours_max: parsed.working_hours_max != null ? Number(parsed.working_hours_max) : null,
       seo_title: (parsed.seo_title as string | null) || null,
@@ -0,0 +1,160 @@
+/**
+ * Vacancy Translation Service
+ *
+ * Vertaalt de publicatietekst van een vacature (titel, markdown, SEO-
+ * omschrijving) naar het Engels voor de /en-pagina's van de publieke sites.
+ * Zelfde Mistral-aanroep als de AI-herschrijving; het resultaat wordt per
+ * vacature gecachet in `job_posting_translations` met een hash van de
+ * Nederlandse bron, zodat alleen gewijzigde vacatures opnieuw vertaald worden.
+ */
+
+import { createHash } from 'crypto'
+
+const MISTRAL_API_URL = 'https://api.mistral.ai/v1/chat/completions'
+export const TRANSLATION_MODEL = 'mistral-large-latest'
+
+export interface TranslationSource {
+  title: string
+  content_md: string | null
+  seo_description: string | null
+}
+
+export interface VacancyTranslation {
+  title: string
+  content_md: string | null
+  seo_description: string | null
+}
+
+const SYSTEM_PROMPT = `You translate Dutch job postings for regional Dutch job boards (Lokale Banen network) into English for international candidates.
+
+Rules:
+- Translate faithfully. Do NOT add, remove or embellish information.
+- Keep the Markdown structure exactly: same headings, bullet lists and line breaks.
+- Translate the standard section headings as: "## Wat ga je doen?" -> "## What will you do?", "## Wie zoeken we?" -> "## Who are we looking for?", "## Wat bieden we?" -> "## What do we offer?".
+- Keep company names, brand names, place names and amounts unchanged.
+- Keep Dutch-specific qualifications recognisable: translate the meaning and keep the original term in parentheses on first use, e.g. "vocational education (MBO)", "collective labour agreement (CAO)", "VCA safety certificate".
+- Address the candidate as "you". Use British English spelling.
+- The title must be a concise English job title (no company name unless it was in the source title).
+- seo_description: max 155 characters; null if the source has none.
+
+Answer ONLY with valid JSON:
+{
+  "title": "...",
+  "content_md": "...",
+  "seo_description": "..."
+}`
+
+interface MistralResponse {
+  choices: Array<{
+    message: {
+      content: string
+    }
+  }>
+}
+
+/**
+ * Hash van de Nederlandse bron. Wijkt die af van de opgeslagen
+ * `source_hash`, dan is de vertaling verouderd.
+ */
+export function translationSourceHash(source: TranslationSource): string {
+  return createHash('sha256')
+    .update([source.title, source.content_md ?? '', source.seo_description ?? ''].join('\u0000'))
+    .digest('hex')
+}
+
+/**
+ * Vertaal een vacature naar het Engels.
+ */
+export async function translateVacancy(
+  source: TranslationSource,
+  context: { companyName?: string | null; city?: string | null } = {},
+): Promise<VacancyTranslation> {
+  const apiKey = process.env.MISTRAL_API_KEY
+
+  if (!apiKey) {
+    throw new Error('MISTRAL_API_KEY is niet geconfigureerd')
+  }
+
+  if (!source.title.trim()) {
+    throw new Error('Vacature heeft geen titel om te vertalen')
+  }
+
+  // Truncate to avoid token limits
+  const maxChars = 12000
+  const content = (source.content_md ?? '').trim()
+  const truncated = content.length > maxChars ? content.substring(0, maxChars) + '...' : content
+
+  const userPrompt = `Title: ${source.title}
+${context.companyName ? `Company: ${context.companyName}\n` : ''}${context.city ? `Location: ${context.city}\n` : ''}
+SEO description:
+${source.seo_description?.trim() || '(none)'}
+
+Job posting (Markdown):
+${truncated || '(none)'}`
+
+  // 30s timeout to avoid hanging on Mistral downtime
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), 30000)
+
+  let response: Response
+  try {
+    response = await fetch(MISTRAL_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: TRANSLATION_MODEL,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: userPrompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.1,
+        max_tokens: 4000,
+      }),
+      signal: controller.signal,
+    })
+  } catch (err) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new Error('Mistral API timeout (30s), probeer het later opnieuw')
+    }
+    throw err
+  } finally {
+    clearTimeout(timeout)
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Mistral API fout (${response.status}): ${errorText}`)
+  }
+
+  const data: MistralResponse = await response.json()
+  const rawContent = data.choices?.[0]?.message?.content
+
+  if (!rawContent) {
+    throw new Error('Leeg antwoord van Mistral API')
+  }
+
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(rawContent)
+  } catch {
+    throw new Error(`Mistral gaf geen valide JSON: ${rawContent.substring(0, 200)}`)
+  }
+
+  if (!parsed.title || typeof parsed.title !== 'string') {
+    throw new Error('AI response bevat geen title veld')
+  }
+
+  const contentMd = typeof parsed.content_md === 'string' ? parsed.content_md.trim() : ''
+  const seoDescription = typeof parsed.seo_description === 'string' ? parsed.seo_description.trim() : ''
+
+  return {
+    title: parsed.title.trim(),
+    // Geen brontekst = geen vertaalde tekst; het model mag niets verzinnen.
+    content_md: content && contentMd ? contentMd : null,
+    seo_description: source.seo_description?.trim() && seoDescription ? seoDescription : null,
+  }
+}
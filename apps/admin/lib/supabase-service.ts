@@ -247,12 +247,13 @@ export class SupabaseService {
       subdomeinenFilter?: string
       pipedriveFilter?: 'all' | 'synced' | 'not_synced'
       instantlyFilter?: 'all' | 'synced' | 'not_synced'
+      minHiringIntensity?: number
       qualification_status?: 'pending' | 'qualified' | 'disqualified' | 'review' | 'all'
       dateFrom?: string
       dateTo?: string
     } = {},
   ) {
-    const { page = 1, limit = 50, search = "", is_customer, source, orderBy = 'created_at', orderDirection = 'desc', sizeRange, unknownSize, regionIds, status, websiteFilter, categorySize, apolloEnriched, hasContacts, regioPlatformFilter, subdomeinenFilter, pipedriveFilter, instantlyFilter, qualification_status, dateFrom, dateTo } = options
+    const { page = 1, limit = 50, search = "", is_customer, source, orderBy = 'created_at', orderDirection = 'desc', sizeRange, unknownSize, regionIds, status, websiteFilter, categorySize, apolloEnriched, hasContacts, regioPlatformFilter, subdomeinenFilter, pipedriveFilter, instantlyFilter, minHiringIntensity, qualification_status, dateFrom, dateTo } = options
 
     try {
       console.log("getCompanies: Starting with params:", options)
@@ -268,6 +269,7 @@ export class SupabaseService {
       if (apolloEnriched && apolloEnriched !== 'all') activeFilters.push('apolloEnriched')
       if (hasContacts && hasContacts !== 'all') activeFilters.push('hasContacts')
       if (regioPlatformFilter && regioPlatformFilter !== 'all') activeFilters.push('regioPlatformFilter')
+      if (minHiringIntensity) activeFilters.push('minHiringIntensity')
       if (qualification_status && qualification_status !== 'all') activeFilters.push('qualification_status')
       
       console.log("getCompanies: Active filters (AND logic):", activeFilters)
@@ -360,6 +362,11 @@ export class SupabaseService {
         query = query.is('pipedrive_id', null)
       }
 
+      // Hiring intensity filter (nightly score from vacancy activity)
+      if (minHiringIntensity) {
+        query = query.gte('hiring_intensity_score', minHiringIntensity)
+      }
+
       // Qualification status filter for tab-based view
       if (qualification_status && qualification_status !== 'all') {
         console.log("getCompanies: Applying qualification_status filter:", qualification_status)
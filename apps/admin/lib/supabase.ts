@@ -475,6 +475,7 @@ export type Database = {
           is_enabled: boolean
           max_per_platform: number
           max_total_contacts: number
+          min_hiring_intensity: number | null
           updated_at: string
           updated_by: string | null
         }
@@ -484,6 +485,7 @@ export type Database = {
           is_enabled?: boolean
           max_per_platform?: number
           max_total_contacts?: number
+          min_hiring_intensity?: number | null
           updated_at?: string
           updated_by?: string | null
         }
@@ -493,6 +495,7 @@ export type Database = {
           is_enabled?: boolean
           max_per_platform?: number
           max_total_contacts?: number
+          min_hiring_intensity?: number | null
           updated_at?: string
           updated_by?: string | null
         }
@@ -561,6 +564,14 @@ export type Database = {
           enrichment_status: string | null
           geocoded_at: string | null
           geocoding_source: string | null
+          hiring_intensity: Json | null
+          hiring_intensity_push_attempts: number
+          hiring_intensity_push_error: string | null
+          hiring_intensity_push_failed_at: string | null
+          hiring_intensity_pushed_at: string | null
+          hiring_intensity_pushed_score: number | null
+          hiring_intensity_score: number | null
+          hiring_intensity_updated_at: string | null
           hoofddomein: string | null
           hoofddomein_updated_at: string | null
           id: string
@@ -597,8 +608,10 @@ export type Database = {
           normalized_name: string | null
           phone: string | null
           pipedrive_id: string | null
+          pipedrive_status: string | null
           pipedrive_synced: boolean | null
           pipedrive_synced_at: string | null
+          pipedrive_updated_at: string | null
           postal_code: string | null
           postcode_geocode_source: string | null
           postcode_geocoded_at: string | null
@@ -647,6 +660,14 @@ export type Database = {
           enrichment_status?: string | null
           geocoded_at?: string | null
           geocoding_source?: string | null
+          hiring_intensity?: Json | null
+          hiring_intensity_push_attempts?: number
+          hiring_intensity_push_error?: string | null
+          hiring_intensity_push_failed_at?: string | null
+          hiring_intensity_pushed_at?: string | null
+          hiring_intensity_pushed_score?: number | null
+          hiring_intensity_score?: number | null
+          hiring_intensity_updated_at?: string | null
           hoofddomein?: string | null
           hoofddomein_updated_at?: string | null
           id?: string
@@ -683,8 +704,10 @@ export type Database = {
           normalized_name?: string | null
           phone?: string | null
           pipedrive_id?: string | null
+          pipedrive_status?: string | null
           pipedrive_synced?: boolean | null
           pipedrive_synced_at?: string | null
+          pipedrive_updated_at?: string | null
           postal_code?: string | null
           postcode_geocode_source?: string | null
           postcode_geocoded_at?: string | null
@@ -733,6 +756,14 @@ export type Database = {
           enrichment_status?: string | null
           geocoded_at?: string | null
           geocoding_source?: string | null
+          hiring_intensity?: Json | null
+          hiring_intensity_push_attempts?: number
+          hiring_intensity_push_error?: string | null
+          hiring_intensity_push_failed_at?: string | null
+          hiring_intensity_pushed_at?: string | null
+          hiring_intensity_pushed_score?: number | null
+          hiring_intensity_score?: number | null
+          hiring_intensity_updated_at?: string | null
           hoofddomein?: string | null
           hoofddomein_updated_at?: string | null
           id?: string
@@ -769,8 +800,10 @@ export type Database = {
           normalized_name?: string | null
           phone?: string | null
           pipedrive_id?: string | null
+          pipedrive_status?: string | null
           pipedrive_synced?: boolean | null
           pipedrive_synced_at?: string | null
+          pipedrive_updated_at?: string | null
           postal_code?: string | null
           postcode_geocode_source?: string | null
           postcode_geocoded_at?: string | null
@@ -890,6 +923,7 @@ export type Database = {
           pipedrive_sync_failed_at: string | null
           pipedrive_synced: boolean | null
           pipedrive_synced_at: string | null
+          pipedrive_updated_at: string | null
           qualification_notes: string | null
           qualification_status: string
           qualification_timestamp: string | null
@@ -952,6 +986,7 @@ export type Database = {
           pipedrive_sync_failed_at?: string | null
           pipedrive_synced?: boolean | null
           pipedrive_synced_at?: string | null
+          pipedrive_updated_at?: string | null
           qualification_notes?: string | null
           qualification_status?: string
           qualification_timestamp?: string | null
@@ -1014,6 +1049,7 @@ export type Database = {
           pipedrive_sync_failed_at?: string | null
           pipedrive_synced?: boolean | null
           pipedrive_synced_at?: string | null
+          pipedrive_updated_at?: string | null
           qualification_notes?: string | null
           qualification_status?: string
           qualification_timestamp?: string | null
@@ -1799,6 +1835,47 @@ export type Database = {
           },
         ]
       }
+      job_posting_translations: {
+        Row: {
+          content_md: string | null
+          job_posting_id: string
+          locale: string
+          model: string | null
+          seo_description: string | null
+          source_hash: string
+          title: string
+          translated_at: string
+        }
+        Insert: {
+          content_md?: string | null
+          job_posting_id: string
+          locale: string
+          model?: string | null
+          seo_description?: string | null
+          source_hash: string
+          title: string
+          translated_at?: string
+        }
+        Update: {
+          content_md?: string | null
+          job_posting_id?: string
+          locale?: string
+          model?: string | null
+          seo_description?: string | null
+          source_hash?: string
+          title?: string
+          translated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_posting_translations_job_posting_id_fkey"
+            columns: ["job_posting_id"]
+            isOneToOne: false
+            referencedRelation: "job_postings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       job_postings: {
         Row: {
           acquisition_not_appreciated: boolean
@@ -1806,6 +1883,7 @@ export type Database = {
           archived_at: string | null
           archived_by: string | null
           archived_reason: string | null
+          canonical_id: string | null
           career_level: string | null
           categories: string | null
           city: string | null
@@ -1816,11 +1894,14 @@ export type Database = {
           content_md: string | null
           country: string | null
           created_at: string | null
+          dedup_checked_at: string | null
           description: string | null
+          detail_field_methods: Json | null
           detail_scraped_at: string | null
           education_level: string | null
           employment: string | null
           end_date: string | null
+          english_friendly: boolean
           expires_at: string | null
           external_vacancy_id: string | null
           geocoded_via: string | null
@@ -1844,6 +1925,13 @@ export type Database = {
           reviewed_at: string | null
           reviewed_by: string | null
           salary: string | null
+          salary_currency: string
+          salary_max: number | null
+          salary_min: number | null
+          salary_month_max: number | null
+          salary_month_min: number | null
+          salary_normalized_at: string | null
+          salary_unit: string | null
           scraped_at: string | null
           search_vector: unknown
           seo_description: string | null
@@ -1866,6 +1954,7 @@ export type Database = {
           archived_at?: string | null
           archived_by?: string | null
           archived_reason?: string | null
+          canonical_id?: string | null
           career_level?: string | null
           categories?: string | null
           city?: string | null
@@ -1876,11 +1965,14 @@ export type Database = {
           content_md?: string | null
           country?: string | null
           created_at?: string | null
+          dedup_checked_at?: string | null
           description?: string | null
+          detail_field_methods?: Json | null
           detail_scraped_at?: string | null
           education_level?: string | null
           employment?: string | null
           end_date?: string | null
+          english_friendly?: boolean
           expires_at?: string | null
           external_vacancy_id?: string | null
           geocoded_via?: string | null
@@ -1904,6 +1996,13 @@ export type Database = {
           reviewed_at?: string | null
           reviewed_by?: string | null
           salary?: string | null
+          salary_currency?: string
+          salary_max?: number | null
+          salary_min?: number | null
+          salary_month_max?: number | null
+          salary_month_min?: number | null
+          salary_normalized_at?: string | null
+          salary_unit?: string | null
           scraped_at?: string | null
           search_vector?: unknown
           seo_description?: string | null
@@ -1926,6 +2025,7 @@ export type Database = {
           archived_at?: string | null
           archived_by?: string | null
           archived_reason?: string | null
+          canonical_id?: string | null
           career_level?: string | null
           categories?: string | null
           city?: string | null
@@ -1936,11 +2036,14 @@ export type Database = {
           content_md?: string | null
           country?: string | null
           created_at?: string | null
+          dedup_checked_at?: string | null
           description?: string | null
+          detail_field_methods?: Json | null
           detail_scraped_at?: string | null
           education_level?: string | null
           employment?: string | null
           end_date?: string | null
+          english_friendly?: boolean
           expires_at?: string | null
           external_vacancy_id?: string | null
           geocoded_via?: string | null
@@ -1964,6 +2067,13 @@ export type Database = {
           reviewed_at?: string | null
           reviewed_by?: string | null
           salary?: string | null
+          salary_currency?: string
+          salary_max?: number | null
+          salary_min?: number | null
+          salary_month_max?: number | null
+          salary_month_min?: number | null
+          salary_normalized_at?: string | null
+          salary_unit?: string | null
           scraped_at?: string | null
           search_vector?: unknown
           seo_description?: string | null
@@ -2188,6 +2298,65 @@ export type Database = {
         }
         Relationships: []
       }
+      lokalebanen_push_state: {
+        Row: {
+          content_hash: string | null
+          domain: string | null
+          error_count: number
+          id: string
+          job_posting_id: string | null
+          last_error: string | null
+          lb_company_id: string | null
+          lokalebanen_id: string
+          pushed_at: string
+          state: string
+          synced_at: string | null
+          updated_at: string
+          withdraw_reason: string | null
+          withdrawn_at: string | null
+        }
+        Insert: {
+          content_hash?: string | null
+          domain?: string | null
+          error_count?: number
+          id?: string
+          job_posting_id?: string | null
+          last_error?: string | null
+          lb_company_id?: string | null
+          lokalebanen_id: string
+          pushed_at?: string
+          state?: string
+          synced_at?: string | null
+          updated_at?: string
+          withdraw_reason?: string | null
+          withdrawn_at?: string | null
+        }
+        Update: {
+          content_hash?: string | null
+          domain?: string | null
+          error_count?: number
+          id?: string
+          job_posting_id?: string | null
+          last_error?: string | null
+          lb_company_id?: string | null
+          lokalebanen_id?: string
+          pushed_at?: string
+          state?: string
+          synced_at?: string | null
+          updated_at?: string
+          withdraw_reason?: string | null
+          withdrawn_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lokalebanen_push_state_job_posting_id_fkey"
+            columns: ["job_posting_id"]
+            isOneToOne: true
+            referencedRelation: "job_postings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mailerlite_syncs: {
         Row: {
           created_at: string | null
@@ -2323,6 +2492,57 @@ export type Database = {
         }
         Relationships: []
       }
+      pipedrive_webhook_events: {
+        Row: {
+          action: string
+          change_source: string | null
+          changes: Json
+          entity: string
+          event_id: string
+          id: string
+          merged_id: number | null
+          occurred_at: string
+          payload: Json
+          pipedrive_id: number
+          processed_at: string | null
+          reason: string | null
+          received_at: string
+          status: string
+        }
+        Insert: {
+          action: string
+          change_source?: string | null
+          changes?: Json
+          entity: string
+          event_id: string
+          id?: string
+          merged_id?: number | null
+          occurred_at: string
+          payload: Json
+          pipedrive_id: number
+          processed_at?: string | null
+          reason?: string | null
+          received_at?: string
+          status?: string
+        }
+        Update: {
+          action?: string
+          change_source?: string | null
+          changes?: Json
+          entity?: string
+          event_id?: string
+          id?: string
+          merged_id?: number | null
+          occurred_at?: string
+          payload?: Json
+          pipedrive_id?: number
+          processed_at?: string | null
+          reason?: string | null
+          received_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
       platforms: {
         Row: {
           about_text: string | null
@@ -2562,6 +2782,7 @@ export type Database = {
           pipedrive_default_stage_id: number
           pipedrive_pipeline_id: number
           pipedrive_user_id: number
+          refresh_activity_enabled: boolean
           updated_at: string
           wetarget_flag_value: number
         }
@@ -2580,6 +2801,7 @@ export type Database = {
           pipedrive_default_stage_id: number
           pipedrive_pipeline_id: number
           pipedrive_user_id: number
+          refresh_activity_enabled?: boolean
           updated_at?: string
           wetarget_flag_value?: number
         }
@@ -2598,6 +2820,7 @@ export type Database = {
           pipedrive_default_stage_id?: number
           pipedrive_pipeline_id?: number
           pipedrive_user_id?: number
+          refresh_activity_enabled?: boolean
           updated_at?: string
           wetarget_flag_value?: number
         }
@@ -2635,6 +2858,198 @@ export type Database = {
           },
         ]
       }
+      sales_lead_import_rows: {
+        Row: {
+          city: string | null
+          classification: string
+          company_name: string | null
+          dispatched_at: string | null
+          domain: string | null
+          existing_company_id: string | null
+          existing_run_id: string | null
+          id: string
+          import_id: string
+          include: boolean
+          kvk: string | null
+          message: string | null
+          row_number: number
+          run_id: string | null
+        }
+        Insert: {
+          city?: string | null
+          classification: string
+          company_name?: string | null
+          dispatched_at?: string | null
+          domain?: string | null
+          existing_company_id?: string | null
+          existing_run_id?: string | null
+          id?: string
+          import_id: string
+          include?: boolean
+          kvk?: string | null
+          message?: string | null
+          row_number: number
+          run_id?: string | null
+        }
+        Update: {
+          city?: string | null
+          classification?: string
+          company_name?: string | null
+          dispatched_at?: string | null
+          domain?: string | null
+          existing_company_id?: string | null
+          existing_run_id?: string | null
+          id?: string
+          import_id?: string
+          include?: boolean
+          kvk?: string | null
+          message?: string | null
+          row_number?: number
+          run_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_lead_import_rows_existing_company_id_fkey"
+            columns: ["existing_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_lead_import_rows_existing_run_id_fkey"
+            columns: ["existing_run_id"]
+            isOneToOne: false
+            referencedRelation: "sales_lead_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_lead_import_rows_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "sales_lead_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_lead_import_rows_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "sales_lead_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_lead_imports: {
+        Row: {
+          column_mapping: Json
+          completed_at: string | null
+          contactmoment_override: string | null
+          created_at: string
+          created_by: string | null
+          file_name: string
+          id: string
+          owner_config_id: string
+          scrape_vacancies: boolean
+          started_at: string | null
+          status: string
+          total_rows: number
+          updated_at: string
+        }
+        Insert: {
+          column_mapping: Json
+          completed_at?: string | null
+          contactmoment_override?: string | null
+          created_at?: string
+          created_by?: string | null
+          file_name: string
+          id?: string
+          owner_config_id: string
+          scrape_vacancies?: boolean
+          started_at?: string | null
+          status?: string
+          total_rows?: number
+          updated_at?: string
+        }
+        Update: {
+          column_mapping?: Json
+          completed_at?: string | null
+          contactmoment_override?: string | null
+          created_at?: string
+          created_by?: string | null
+          file_name?: string
+          id?: string
+          owner_config_id?: string
+          scrape_vacancies?: boolean
+          started_at?: string | null
+          status?: string
+          total_rows?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_lead_imports_owner_config_id_fkey"
+            columns: ["owner_config_id"]
+            isOneToOne: false
+            referencedRelation: "sales_lead_owner_config"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_lead_refreshes: {
+        Row: {
+          completed_at: string | null
+          enrichments: Json
+          error: string | null
+          id: string
+          master_record: Json | null
+          pipedrive_activity_id: number | null
+          run_id: string
+          signal_count: number
+          signals: Json
+          sources_refreshed: string[]
+          started_at: string
+          status: string
+          trigger: string
+        }
+        Insert: {
+          completed_at?: string | null
+          enrichments?: Json
+          error?: string | null
+          id?: string
+          master_record?: Json | null
+          pipedrive_activity_id?: number | null
+          run_id: string
+          signal_count?: number
+          signals?: Json
+          sources_refreshed?: string[]
+          started_at?: string
+          status?: string
+          trigger?: string
+        }
+        Update: {
+          completed_at?: string | null
+          enrichments?: Json
+          error?: string | null
+          id?: string
+          master_record?: Json | null
+          pipedrive_activity_id?: number | null
+          run_id?: string
+          signal_count?: number
+          signals?: Json
+          sources_refreshed?: string[]
+          started_at?: string
+          status?: string
+          trigger?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_lead_refreshes_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "sales_lead_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sales_lead_runs: {
         Row: {
           archived_at: string | null
@@ -2647,8 +3062,10 @@ export type Database = {
           error: string | null
           existing_pipedrive_org_id: number | null
           id: string
+          import_id: string | null
           input_domain: string
           input_url: string
+          last_refreshed_at: string | null
           manual_vacancies: Json
           master_record: Json | null
           owner_config_id: string
@@ -2672,8 +3089,10 @@ export type Database = {
           error?: string | null
           existing_pipedrive_org_id?: number | null
           id?: string
+          import_id?: string | null
           input_domain: string
           input_url: string
+          last_refreshed_at?: string | null
           manual_vacancies?: Json
           master_record?: Json | null
           owner_config_id: string
@@ -2697,8 +3116,10 @@ export type Database = {
           error?: string | null
           existing_pipedrive_org_id?: number | null
           id?: string
+          import_id?: string | null
           input_domain?: string
           input_url?: string
+          last_refreshed_at?: string | null
           manual_vacancies?: Json
           master_record?: Json | null
           owner_config_id?: string
@@ -3870,6 +4291,15 @@ export type Database = {
         }[]
       }
       gettransactionid: { Args: never; Returns: unknown }
+      hiring_intensity_push_queue: {
+        Args: { p_limit?: number }
+        Returns: {
+          hiring_intensity_push_attempts: number
+          hiring_intensity_score: number | null
+          id: string
+          pipedrive_id: string
+        }[]
+      }
       http: {
         Args: { request: Database["public"]["CompositeTypes"]["http_request"] }
         Returns: Database["public"]["CompositeTypes"]["http_response"]
@@ -3999,6 +4429,25 @@ export type Database = {
         Args: { p_batch_id: string; p_counter_name: string }
         Returns: undefined
       }
+      job_event_report: {
+        Args: {
+          p_company_id?: string
+          p_from: string
+          p_group: string
+          p_limit?: number
+          p_platform_id: string | null
+          p_to: string
+        }
+        Returns: {
+          apply_clicks: number
+          applications: number
+          group_key: string
+          group_label: string | null
+          saves: number
+          shares: number
+          views: number
+        }[]
+      }
       longtransactionsenabled: { Args: never; Returns: boolean }
       populate_geometry_columns:
         | { Args: { tbl_oid: unknown; use_typmod?: boolean }; Returns: number }
@@ -4116,6 +4565,10 @@ export type Database = {
       refresh_contact_stats_mv: { Args: never; Returns: undefined }
       refresh_contacts_materialized_views: { Args: never; Returns: undefined }
       refresh_contacts_stats: { Args: never; Returns: undefined }
+      refresh_hiring_intensity: {
+        Args: never
+        Returns: { changed: number; cleared: number; scored: number }[]
+      }
       refresh_unique_regio_platforms: { Args: never; Returns: undefined }
       run_postcode_backfill_cycle: {
         Args: { batch_size?: number }
@@ -5,7 +5,7 @@
 
 import { NextRequest } from 'next/server'
 import { createHmac, timingSafeEqual } from 'crypto'
-import { getWebhookConfigValidated } from './api-config'
+import { getPipedriveWebhookConfigValidated, getWebhookConfigValidated } from './api-config'
 
 // Webhook security error types
 export class WebhookSecurityError extends Error {
@@ -16,7 +16,7 @@ export class WebhookSecurityError extends Error {
 }
 
 // Webhook types for different services
-export type WebhookType = 'apify' | 'n8n' | 'instantly' | 'general'
+export type WebhookType = 'apify' | 'n8n' | 'instantly' | 'pipedrive' | 'general'
 
 // Webhook validation result
 interface WebhookValidationResult {
@@ -73,6 +73,19 @@ function extractSignature(req: NextRequest): string | null {
   return null
 }
 
+/**
+ * Verify HTTP Basic credentials (Pipedrive sends the user/password configured
+ * on the webhook instead of an HMAC signature)
+ */
+function verifyBasicAuth(req: NextRequest, expected: { user: string; password: string }): boolean {
+  const header = req.headers.get('authorization')
+  if (!header?.startsWith('Basic ')) return false
+
+  const provided = Buffer.from(header.slice(6).trim(), 'base64')
+  const wanted = Buffer.from(`${expected.user}:${expected.password}`)
+  return provided.length === wanted.length && timingSafeEqual(provided, wanted)
+}
+
 /**
  * Validate webhook request timestamp to prevent replay attacks
  */
@@ -146,8 +159,15 @@ export async function validateWebhookRequest(
       }
     }
 
-    // Signature verification
-    if (requireSignature) {
+    // Pipedrive: Basic auth instead of a signature
+    if (requireSignature && webhookType === 'pipedrive') {
+      if (!verifyBasicAuth(req, getPipedriveWebhookConfigValidated())) {
+        return {
+          isValid: false,
+          error: 'Invalid webhook credentials'
+        }
+      }
+    } else if (requireSignature) {
       const providedSignature = extractSignature(req)
 
       if (!providedSignature) {
@@ -0,0 +1,29 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createAuthClient } from '@/lib/supabase'
+import { EMPLOYER_SETTABLE_STATUSES, type ApplicationStatus } from '@/lib/application-status'
+import type { PortalActionResult } from './claims'
+
+export async function setApplicationStatus(
+  applicationId: string,
+  status: ApplicationStatus
+): Promise<PortalActionResult> {
+  if (!EMPLOYER_SETTABLE_STATUSES.includes(status)) {
+    return { ok: false, message: 'Ongeldige status.' }
+  }
+
+  const supabase = await createAuthClient()
+  const { error } = await supabase.rpc('employer_set_application_status', {
+    p_application: applicationId,
+    p_status: status,
+  })
+  if (error) {
+    console.error('setApplicationStatus failed:', error.message)
+    return { ok: false, message: 'Status bijwerken is niet gelukt.' }
+  }
+
+  revalidatePath('/sollicitaties')
+  revalidatePath('/vacatures/[id]', 'page')
+  return { ok: true, message: 'Status bijgewerkt.' }
+}
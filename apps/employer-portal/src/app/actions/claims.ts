@@ -0,0 +1,40 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createAuthClient } from '@/lib/supabase'
+
+export interface PortalActionResult {
+  ok: boolean
+  /** User-facing message (NL). */
+  message: string
+}
+
+/**
+ * Server action: claim een bedrijfsprofiel. De RPC `claim_company` keurt
+ * direct goed bij een match tussen e-maildomein en `hoofddomein` (niet bij
+ * publieke domeinen als gmail.com); anders komt de claim in de reviewqueue
+ * van het admin-dashboard.
+ */
+export async function claimCompany(formData: FormData): Promise<PortalActionResult> {
+  const companyId = formData.get('companyId')
+  if (typeof companyId !== 'string' || !companyId) {
+    return { ok: false, message: 'Kies eerst een bedrijf.' }
+  }
+
+  const supabase = await createAuthClient()
+  const { data, error } = await supabase.rpc('claim_company', { p_company: companyId })
+  if (error) {
+    console.error('claimCompany failed:', error.message)
+    return { ok: false, message: 'Claimen is niet gelukt. Probeer het later opnieuw.' }
+  }
+
+  revalidatePath('/')
+  revalidatePath('/claimen')
+  return data === 'approved'
+    ? { ok: true, message: 'Gelukt: je beheert dit bedrijfsprofiel nu.' }
+    : {
+        ok: true,
+        message:
+          'Je claim is ontvangen. We konden hem niet automatisch via je e-maildomein goedkeuren, dus we controleren hem handmatig.',
+      }
+}
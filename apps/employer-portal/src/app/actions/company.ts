@@ -0,0 +1,213 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import {
+  EDUCATION_LEVELS,
+  EMPLOYMENT_TYPES,
+  VACANCY_CATEGORIES,
+  buildVacancyMarkdown,
+  buildVacancySeo,
+} from '@lokale-banen/shared'
+import { getCompany } from '@/lib/queries'
+import { createAuthClient } from '@/lib/supabase'
+import type { PortalActionResult } from './claims'
+
+/** Velden die `employer_update_company` accepteert. */
+const COMPANY_FIELDS = [
+  'description',
+  'website',
+  'linkedin_url',
+  'phone',
+  'street_address',
+  'postal_code',
+  'city',
+] as const
+
+/** Velden die `employer_update_job` accepteert (naast `archived`). */
+const VACANCY_FIELDS = ['title', 'content_md', 'salary', 'employment', 'url', 'end_date'] as const
+
+/** Vrije tekstvelden van het indienformulier; intro t/m offer worden `content_md`. */
+const SUBMIT_FIELDS = [
+  'title',
+  'city',
+  'zipcode',
+  'street',
+  'salary',
+  'url',
+  'intro',
+  'tasks',
+  'profile',
+  'offer',
+] as const
+
+function pickFields(formData: FormData, fields: readonly string[]): Record<string, string | null> {
+  const values: Record<string, string | null> = {}
+  for (const field of fields) {
+    const raw = formData.get(field)
+    if (typeof raw !== 'string') continue
+    values[field] = raw.trim() === '' ? null : raw.trim()
+  }
+  return values
+}
+
+function isHttpUrl(value: string | null | undefined): boolean {
+  if (!value) return true
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+export async function updateCompany(formData: FormData): Promise<PortalActionResult> {
+  const companyId = formData.get('companyId')
+  if (typeof companyId !== 'string' || !companyId) {
+    return { ok: false, message: 'Onbekend bedrijf.' }
+  }
+
+  const values = pickFields(formData, COMPANY_FIELDS)
+  if (!isHttpUrl(values.website) || !isHttpUrl(values.linkedin_url)) {
+    return { ok: false, message: 'Website en LinkedIn moeten een volledige URL zijn (https://...).' }
+  }
+  if ((values.description?.length ?? 0) > 5000) {
+    return { ok: false, message: 'Omschrijving is te lang (max 5000 tekens).' }
+  }
+
+  const supabase = await createAuthClient()
+  const { error } = await supabase.rpc('employer_update_company', { p_company: companyId, p_values: values })
+  if (error) {
+    console.error('updateCompany failed:', error.message)
+    return { ok: false, message: 'Opslaan is niet gelukt.' }
+  }
+
+  revalidatePath(`/bedrijf/${companyId}`)
+  return { ok: true, message: 'Bedrijfsprofiel opgeslagen.' }
+}
+
+export async function updateVacancy(formData: FormData): Promise<PortalActionResult> {
+  const jobId = formData.get('jobId')
+  if (typeof jobId !== 'string' || !jobId) {
+    return { ok: false, message: 'Onbekende vacature.' }
+  }
+
+  const values: Record<string, string | boolean | null> = pickFields(formData, VACANCY_FIELDS)
+  if ('title' in values && !values.title) {
+    return { ok: false, message: 'Titel is verplicht.' }
+  }
+  if (!isHttpUrl(values.url as string | null)) {
+    return { ok: false, message: 'Sollicitatielink moet een volledige URL zijn (https://...).' }
+  }
+  if (values.end_date && !/^\d{4}-\d{2}-\d{2}$/.test(values.end_date as string)) {
+    return { ok: false, message: 'Ongeldige einddatum.' }
+  }
+  const archived = formData.get('archived')
+  if (archived === 'true' || archived === 'false') values.archived = archived === 'true'
+
+  const supabase = await createAuthClient()
+  const { data: rereview, error } = await supabase.rpc('employer_update_job', { p_job: jobId, p_values: values })
+  if (error) {
+    console.error('updateVacancy failed:', error.message)
+    if (error.message.includes('cannot be reopened')) {
+      return { ok: false, message: 'Deze vacature kan niet heropend worden. Plaats hem opnieuw.' }
+    }
+    return { ok: false, message: 'Opslaan is niet gelukt.' }
+  }
+
+  revalidatePath(`/vacatures/${jobId}`)
+  revalidatePath('/bedrijf/[id]', 'page')
+  if (values.archived === true) return { ok: true, message: 'Vacature gesloten.' }
+  if (values.archived === false) return { ok: true, message: 'Vacature heropend.' }
+  if (rereview === true) {
+    return { ok: true, message: 'Vacature opgeslagen. Na controle van de wijzigingen staat hij weer online.' }
+  }
+  return { ok: true, message: 'Vacature opgeslagen.' }
+}
+
+function pickOption(formData: FormData, field: string, options: readonly string[]): string | null {
+  const raw = formData.get(field)
+  return typeof raw === 'string' && options.includes(raw) ? raw : null
+}
+
+function pickHours(formData: FormData, field: string): number | null {
+  const raw = formData.get(field)
+  if (typeof raw !== 'string' || raw.trim() === '') return null
+  const hours = Number(raw)
+  return Number.isInteger(hours) && hours > 0 && hours <= 60 ? hours : NaN
+}
+
+/**
+ * Nieuwe vacature indienen met een pakket. Het formulier levert dezelfde
+ * velden als de AI-rewrite; `content_md` en de SEO-velden bouwen we hier in
+ * het rewrite-format. De vacature komt `pending` in de reviewqueue en gaat
+ * pas na goedkeuring online.
+ */
+export async function submitVacancy(formData: FormData): Promise<PortalActionResult> {
+  const companyId = formData.get('companyId')
+  const packageCode = formData.get('package')
+  if (typeof companyId !== 'string' || !companyId) {
+    return { ok: false, message: 'Kies een bedrijf.' }
+  }
+  if (typeof packageCode !== 'string' || !packageCode) {
+    return { ok: false, message: 'Kies een pakket.' }
+  }
+
+  const company = await getCompany(companyId)
+  if (!company) return { ok: false, message: 'Je beheert dit bedrijf niet.' }
+
+  const fields = pickFields(formData, SUBMIT_FIELDS)
+  if (!fields.title) return { ok: false, message: 'Titel is verplicht.' }
+  if (!fields.city) return { ok: false, message: 'Plaats is verplicht.' }
+  if (fields.zipcode && !/^\d{4}\s?[a-z]{2}$/i.test(fields.zipcode)) {
+    return { ok: false, message: 'Ongeldige postcode (bijv. 2511 AB).' }
+  }
+  if (!fields.intro || !fields.tasks) {
+    return { ok: false, message: 'Vul minimaal een introductie en de taken in.' }
+  }
+  if (!isHttpUrl(fields.url)) {
+    return { ok: false, message: 'Sollicitatielink moet een volledige URL zijn (https://...).' }
+  }
+
+  const hoursMin = pickHours(formData, 'working_hours_min')
+  const hoursMax = pickHours(formData, 'working_hours_max')
+  if (Number.isNaN(hoursMin) || Number.isNaN(hoursMax) || (hoursMin && hoursMax && hoursMin > hoursMax)) {
+    return { ok: false, message: 'Ongeldig aantal uren per week.' }
+  }
+
+  const contentMd = buildVacancyMarkdown({
+    intro: fields.intro,
+    tasks: fields.tasks,
+    profile: fields.profile ?? '',
+    offer: fields.offer ?? '',
+  })
+  const values = {
+    title: fields.title,
+    city: fields.city,
+    zipcode: fields.zipcode,
+    street: fields.street,
+    salary: fields.salary,
+    url: fields.url,
+    content_md: contentMd,
+    employment: pickOption(formData, 'employment', EMPLOYMENT_TYPES),
+    education_level: pickOption(formData, 'education_level', EDUCATION_LEVELS),
+    categories: pickOption(formData, 'categories', VACANCY_CATEGORIES),
+    working_hours_min: hoursMin,
+    working_hours_max: hoursMax,
+    ...buildVacancySeo({ title: fields.title, companyName: company.name, city: fields.city, intro: fields.intro }),
+  }
+
+  const supabase = await createAuthClient()
+  const { data: jobId, error } = await supabase.rpc('employer_submit_job', {
+    p_company: companyId,
+    p_package: packageCode,
+    p_values: values,
+  })
+  if (error || typeof jobId !== 'string') {
+    console.error('submitVacancy failed:', error?.message)
+    return { ok: false, message: 'Indienen is niet gelukt.' }
+  }
+
+  revalidatePath(`/bedrijf/${companyId}`)
+  redirect(`/vacatures/${jobId}`)
+}
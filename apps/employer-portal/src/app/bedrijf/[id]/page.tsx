@@ -0,0 +1,78 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { CompanyForm } from '@/components/company-form'
+import { buttonClasses } from '@/components/form-field'
+import { getCompany, getCompanyVacancies, getStatsByJob, vacancyStatusLabel } from '@/lib/queries'
+
+export const metadata = { title: 'Bedrijfsprofiel' }
+
+export default async function CompanyPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const company = await getCompany(id)
+  if (!company) notFound()
+
+  const vacancies = await getCompanyVacancies(id)
+  const stats = await getStatsByJob(vacancies.map((v) => v.id))
+
+  return (
+    <div className="space-y-10">
+      <div>
+        <h1 className="text-2xl font-semibold">{company.name}</h1>
+        {company.hoofddomein && <p className="text-sm text-slate-500">{company.hoofddomein}</p>}
+      </div>
+
+      <section>
+        <div className="mb-3 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold">Vacatures</h2>
+          <Link href={`/vacatures/nieuw?bedrijf=${company.id}`} className={buttonClasses}>
+            Nieuwe vacature
+          </Link>
+        </div>
+        {vacancies.length === 0 ? (
+          <p className="text-sm text-slate-500">Er staan nog geen vacatures van dit bedrijf op de sites.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-slate-200 bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-2">Vacature</th>
+                  <th className="px-4 py-2">Status</th>
+                  <th className="px-4 py-2 text-right">Views</th>
+                  <th className="px-4 py-2 text-right">Kliks</th>
+                  <th className="px-4 py-2 text-right">Sollicitaties</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {vacancies.map((vacancy) => {
+                  const s = stats.get(vacancy.id)
+                  return (
+                    <tr key={vacancy.id}>
+                      <td className="px-4 py-2">
+                        <Link href={`/vacatures/${vacancy.id}`} className="font-medium hover:text-brand">
+                          {vacancy.title}
+                        </Link>
+                        {vacancy.city && <span className="text-slate-500"> · {vacancy.city}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-slate-600">
+                        {vacancyStatusLabel(vacancy)}
+                      </td>
+                      <td className="px-4 py-2 text-right tabular-nums">{s?.views ?? 0}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{s?.apply_clicks ?? 0}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{s?.applications ?? 0}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+            <p className="px-4 py-2 text-xs text-slate-500">Statistieken over de laatste 30 dagen.</p>
+          </div>
+        )}
+      </section>
+
+      <section className="max-w-3xl">
+        <h2 className="mb-3 text-lg font-semibold">Bedrijfsprofiel</h2>
+        <CompanyForm company={company} />
+      </section>
+    </div>
+  )
+}
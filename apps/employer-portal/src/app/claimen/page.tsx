@@ -0,0 +1,74 @@
+import { Search } from 'lucide-react'
+import { ClaimButton } from '@/components/claim-button'
+import { buttonClasses, inputClasses } from '@/components/form-field'
+import { getCompanyBySlugForClaim, getMyCompanies, searchClaimableCompanies } from '@/lib/queries'
+
+export const metadata = { title: 'Bedrijf claimen' }
+
+/**
+ * Zoek een bedrijfsprofiel op naam, of kom binnen via `?slug=` vanaf de
+ * "Is dit jouw bedrijf?"-link op de publieke bedrijfspagina.
+ */
+export default async function ClaimPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string; slug?: string }>
+}) {
+  const { q = '', slug } = await searchParams
+  const [results, mine] = await Promise.all([
+    slug
+      ? getCompanyBySlugForClaim(slug).then((c) => (c ? [c] : []))
+      : searchClaimableCompanies(q),
+    getMyCompanies(),
+  ])
+  const memberOf = new Set(mine.map((c) => c.id))
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Bedrijf claimen</h1>
+        <p className="mt-2 text-sm text-slate-600">
+          Komt het domein van je e-mailadres overeen met de website van het bedrijf, dan beheer je het
+          profiel direct. Anders controleren we je claim handmatig.
+        </p>
+      </div>
+
+      <form className="flex gap-2" role="search">
+        <input
+          name="q"
+          defaultValue={q}
+          placeholder="Bedrijfsnaam"
+          aria-label="Bedrijfsnaam"
+          className={inputClasses}
+        />
+        <button type="submit" className={buttonClasses}>
+          <Search className="size-4" aria-hidden="true" /> Zoeken
+        </button>
+      </form>
+
+      {(q || slug) && results.length === 0 && (
+        <p className="text-sm text-slate-500">Geen bedrijven gevonden.</p>
+      )}
+
+      {results.length > 0 && (
+        <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200 bg-white">
+          {results.map((company) => (
+            <li key={company.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <p className="truncate font-medium">{company.name}</p>
+                <p className="text-xs text-slate-500">
+                  {[company.city, company.hoofddomein].filter(Boolean).join(' · ') || '-'}
+                </p>
+              </div>
+              {memberOf.has(company.id) ? (
+                <span className="text-sm text-brand">Je beheert dit bedrijf</span>
+              ) : (
+                <ClaimButton companyId={company.id} />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next'
+import { ClerkProvider } from '@clerk/nextjs'
+import { nlNL } from '@clerk/localizations'
+import { PortalHeader } from '@/components/portal-header'
+import './globals.css'
+
+export const metadata: Metadata = {
+  title: {
+    default: 'Werkgeversportaal | Lokale Banen',
+    template: '%s | Werkgeversportaal',
+  },
+  robots: { index: false, follow: false },
+}
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <ClerkProvider localization={nlNL}>
+      <html lang="nl">
+        <body className="min-h-screen">
+          <PortalHeader />
+          <main className="mx-auto max-w-6xl px-4 py-8">{children}</main>
+        </body>
+      </html>
+    </ClerkProvider>
+  )
+}
@@ -0,0 +1,65 @@
+import Link from 'next/link'
+import { Building2 } from 'lucide-react'
+import { getMyClaims, getMyCompanies } from '@/lib/queries'
+
+const CLAIM_STATUS_LABELS = { pending: 'In behandeling', approved: 'Goedgekeurd', rejected: 'Afgewezen' }
+
+export default async function DashboardPage() {
+  const [companies, claims] = await Promise.all([getMyCompanies(), getMyClaims()])
+  const openClaims = claims.filter((c) => c.status !== 'approved')
+
+  return (
+    <div className="space-y-8">
+      <h1 className="text-2xl font-semibold">Mijn bedrijven</h1>
+
+      {companies.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-slate-300 bg-white p-8 text-center">
+          <p className="text-slate-600">Je beheert nog geen bedrijfsprofiel.</p>
+          <Link href="/claimen" className="mt-3 inline-block font-medium text-brand hover:underline">
+            Zoek en claim je bedrijf
+          </Link>
+        </div>
+      ) : (
+        <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {companies.map((company) => (
+            <li key={company.id}>
+              <Link
+                href={`/bedrijf/${company.id}`}
+                className="flex items-center gap-3 rounded-lg border border-slate-200 bg-white p-4 hover:border-brand"
+              >
+                {company.logo_url ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={company.logo_url} alt="" className="size-10 rounded object-contain" />
+                ) : (
+                  <Building2 className="size-10 text-slate-400" aria-hidden="true" />
+                )}
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{company.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {company.city ?? 'Onbekende plaats'} · {company.role === 'owner' ? 'Eigenaar' : 'Lid'}
+                  </p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {openClaims.length > 0 && (
+        <section>
+          <h2 className="mb-3 text-lg font-semibold">Claims</h2>
+          <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200 bg-white text-sm">
+            {openClaims.map((claim) => (
+              <li key={claim.id} className="flex items-center justify-between p-3">
+                <span>{claim.company_name ?? claim.company_id}</span>
+                <span className={claim.status === 'rejected' ? 'text-red-600' : 'text-slate-500'}>
+                  {CLAIM_STATUS_LABELS[claim.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  )
+}
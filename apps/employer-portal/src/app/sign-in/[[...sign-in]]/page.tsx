@@ -0,0 +1,21 @@
+import { SignIn } from '@clerk/nextjs'
+
+export const metadata = { title: 'Inloggen' }
+
+export default function SignInPage() {
+  return (
+    <div className="flex flex-col items-center gap-6 pt-8">
+      <div className="text-center">
+        <h1 className="text-2xl font-semibold">Werkgeversportaal</h1>
+        <p className="mt-2 text-sm text-slate-600">
+          Log in met je zakelijke e-mailadres om je bedrijfsprofiel en vacatures te beheren.
+        </p>
+      </div>
+      <SignIn
+        appearance={{ variables: { colorPrimary: '#0A6333' } }}
+        fallbackRedirectUrl="/"
+        signUpUrl="/sign-up"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+import { SignUp } from '@clerk/nextjs'
+
+export const metadata = { title: 'Account aanmaken' }
+
+export default function SignUpPage() {
+  return (
+    <div className="flex flex-col items-center gap-6 pt-8">
+      <div className="text-center">
+        <h1 className="text-2xl font-semibold">Werkgeversportaal</h1>
+        <p className="mt-2 text-sm text-slate-600">
+          Gebruik je zakelijke e-mailadres: komt het domein overeen met je bedrijf, dan is je claim
+          direct goedgekeurd.
+        </p>
+      </div>
+      <SignUp
+        appearance={{ variables: { colorPrimary: '#0A6333' } }}
+        fallbackRedirectUrl="/claimen"
+        signInUrl="/sign-in"
+      />
+    </div>
+  )
+}
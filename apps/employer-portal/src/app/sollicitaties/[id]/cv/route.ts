@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthClient, createStorageServiceClient } from '@/lib/supabase'
+
+const BUCKET = 'application-documents'
+
+/**
+ * GET /sollicitaties/:id/cv?file=cv|motivatie
+ *
+ * De bucket is privé. We lezen de sollicitatie eerst met de Clerk-client
+ * (RLS: alleen leden van het bedrijf zien hem) en geven pas daarna een
+ * kortlevende signed URL uit met de service-role client.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const file = request.nextUrl.searchParams.get('file') === 'motivatie' ? 'motivatie' : 'cv'
+
+  const supabase = await createAuthClient()
+  const { data } = await supabase
+    .from('job_applications')
+    .select('cv_path, motivation_path')
+    .eq('id', id)
+    .maybeSingle()
+
+  const path = file === 'cv' ? data?.cv_path : data?.motivation_path
+  if (!path) {
+    return NextResponse.json({ error: 'Niet gevonden' }, { status: 404 })
+  }
+
+  const { data: signed, error } = await createStorageServiceClient()
+    .storage.from(BUCKET)
+    .createSignedUrl(path, 60, { download: true })
+  if (error || !signed) {
+    console.error('signed url failed:', error?.message)
+    return NextResponse.json({ error: 'Bestand niet beschikbaar' }, { status: 500 })
+  }
+
+  return NextResponse.redirect(signed.signedUrl)
+}
@@ -0,0 +1,45 @@
+import { ApplicationList } from '@/components/application-list'
+import { getApplications, getMyCompanies } from '@/lib/queries'
+
+export const metadata = { title: 'Sollicitaties' }
+
+export default async function ApplicationsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ bedrijf?: string }>
+}) {
+  const { bedrijf } = await searchParams
+  const [companies, applications] = await Promise.all([
+    getMyCompanies(),
+    getApplications({ companyId: bedrijf }),
+  ])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-semibold">Sollicitaties</h1>
+        {companies.length > 1 && (
+          <form className="flex items-center gap-2 text-sm">
+            <select
+              name="bedrijf"
+              defaultValue={bedrijf ?? ''}
+              aria-label="Bedrijf"
+              className="rounded-md border border-slate-300 bg-white px-2 py-1"
+            >
+              <option value="">Alle bedrijven</option>
+              {companies.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="text-brand hover:underline">
+              Filter
+            </button>
+          </form>
+        )}
+      </div>
+      <ApplicationList applications={applications} />
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { ApplicationList } from '@/components/application-list'
+import { StatTile, StatsChart } from '@/components/stats-chart'
+import { VacancyForm } from '@/components/vacancy-form'
+import { getApplications, getDailyStats, getPackages, getVacancy, vacancyStatusLabel } from '@/lib/queries'
+
+export const metadata = { title: 'Vacature' }
+
+export default async function VacancyPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const vacancy = await getVacancy(id)
+  if (!vacancy) notFound()
+
+  const [series, applications, packages] = await Promise.all([
+    getDailyStats(id),
+    getApplications({ jobId: id }),
+    vacancy.package_code ? getPackages() : Promise.resolve([]),
+  ])
+  const pkg = packages.find((p) => p.code === vacancy.package_code)
+  const totals = series.reduce(
+    (acc, d) => ({
+      views: acc.views + d.views,
+      apply_clicks: acc.apply_clicks + d.apply_clicks,
+      applications: acc.applications + d.applications,
+    }),
+    { views: 0, apply_clicks: 0, applications: 0 }
+  )
+
+  return (
+    <div className="space-y-10">
+      <div>
+        <Link href={`/bedrijf/${vacancy.company_id}`} className="text-sm text-slate-500 hover:text-brand">
+          Terug naar bedrijf
+        </Link>
+        <h1 className="mt-1 text-2xl font-semibold">{vacancy.title}</h1>
+        <p className="text-sm text-slate-500">
+          {vacancyStatusLabel(vacancy)}
+          {pkg && <> · {pkg.name}</>}
+          {vacancy.expires_at && !vacancy.archived_at && (
+            <> · online tot {new Date(vacancy.expires_at).toLocaleDateString('nl-NL')}</>
+          )}
+        </p>
+        {vacancy.archived_at && <p className="text-sm text-red-600">Deze vacature is gesloten.</p>}
+        {vacancy.review_status === 'pending' && vacancy.package_code && (
+          <p className="text-sm text-slate-500">
+            Je vacature wordt gecontroleerd en gaat na goedkeuring online op de regionale vacaturesite.
+          </p>
+        )}
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">Laatste 30 dagen</h2>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <StatTile label="Views" value={totals.views} />
+          <StatTile label="Kliks op solliciteren" value={totals.apply_clicks} />
+          <StatTile label="Sollicitaties" value={totals.applications} />
+        </div>
+        <div className="rounded-lg border border-slate-200 bg-white p-4">
+          <StatsChart series={series} />
+        </div>
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">Sollicitaties</h2>
+        <ApplicationList applications={applications} showJob={false} />
+      </section>
+
+      <section className="max-w-3xl">
+        <h2 className="mb-3 text-lg font-semibold">Vacature bewerken</h2>
+        <VacancyForm vacancy={vacancy} />
+      </section>
+    </div>
+  )
+}
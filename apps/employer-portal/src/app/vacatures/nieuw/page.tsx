@@ -0,0 +1,54 @@
+import Link from 'next/link'
+import { EDUCATION_LEVELS, EMPLOYMENT_TYPES, VACANCY_CATEGORIES, VACANCY_SECTIONS } from '@lokale-banen/shared'
+import { NewVacancyForm } from '@/components/new-vacancy-form'
+import { getMyCompanies, getPackages } from '@/lib/queries'
+
+export const metadata = { title: 'Nieuwe vacature' }
+
+/**
+ * Self-service plaatsen. Instap vanaf de bedrijfspagina (`?bedrijf=`) of
+ * vanaf de pakkettenpagina van de vacaturesites (`?pakket=`).
+ */
+export default async function NewVacancyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ bedrijf?: string; pakket?: string }>
+}) {
+  const { bedrijf, pakket } = await searchParams
+  const [companies, packages] = await Promise.all([getMyCompanies(), getPackages()])
+
+  if (companies.length === 0) {
+    return (
+      <div className="max-w-3xl rounded-lg border border-dashed border-slate-300 bg-white p-8 text-center">
+        <p className="text-slate-600">Claim eerst je bedrijfsprofiel om vacatures te plaatsen.</p>
+        <Link href="/claimen" className="mt-3 inline-block font-medium text-brand hover:underline">
+          Zoek en claim je bedrijf
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Nieuwe vacature</h1>
+        <p className="mt-2 text-sm text-slate-600">
+          We controleren je vacature voordat hij online gaat op de regionale vacaturesite. De looptijd van je
+          pakket gaat in op het moment van goedkeuren.
+        </p>
+      </div>
+      <NewVacancyForm
+        companies={companies}
+        packages={packages}
+        defaultCompanyId={companies.some((c) => c.id === bedrijf) ? bedrijf : undefined}
+        defaultPackage={packages.some((p) => p.code === pakket) ? pakket : undefined}
+        options={{
+          employmentTypes: EMPLOYMENT_TYPES,
+          educationLevels: EDUCATION_LEVELS,
+          categories: VACANCY_CATEGORIES,
+          sections: VACANCY_SECTIONS,
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { FileText } from 'lucide-react'
+import { setApplicationStatus } from '@/app/actions/applications'
+import type { EmployerApplication } from '@/lib/queries'
+import {
+  APPLICATION_STATUS_LABELS,
+  EMPLOYER_SETTABLE_STATUSES,
+  type ApplicationStatus,
+} from '@/lib/application-status'
+
+const dateFormat = new Intl.DateTimeFormat('nl-NL', { day: 'numeric', month: 'short', year: 'numeric' })
+
+/**
+ * Sollicitaties met contactgegevens, downloads en een statuskeuze. De
+ * kandidaat ziet de status terug onder Mijn sollicitaties op de publieke
+ * sites.
+ */
+export function ApplicationList({
+  applications,
+  showJob = true,
+}: {
+  applications: EmployerApplication[]
+  showJob?: boolean
+}) {
+  if (applications.length === 0) {
+    return <p className="text-sm text-slate-500">Nog geen sollicitaties ontvangen.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200 bg-white">
+      {applications.map((application) => (
+        <ApplicationRow key={application.id} application={application} showJob={showJob} />
+      ))}
+    </ul>
+  )
+}
+
+function ApplicationRow({ application, showJob }: { application: EmployerApplication; showJob: boolean }) {
+  const [status, setStatus] = useState<ApplicationStatus | null>(application.status)
+  const [error, setError] = useState<string | null>(null)
+  const [pending, startTransition] = useTransition()
+  const editable = status !== 'withdrawn'
+
+  function handleChange(next: ApplicationStatus) {
+    const previous = status
+    setStatus(next)
+    setError(null)
+    startTransition(async () => {
+      const res = await setApplicationStatus(application.id, next)
+      if (!res.ok) {
+        setStatus(previous)
+        setError(res.message)
+      }
+    })
+  }
+
+  return (
+    <li className="flex flex-col gap-3 p-4 sm:flex-row sm:items-start sm:justify-between">
+      <div className="min-w-0 space-y-1">
+        <p className="font-medium">{application.candidate_name ?? 'Onbekende kandidaat'}</p>
+        <p className="text-sm text-slate-600">
+          {application.candidate_email && (
+            <a href={`mailto:${application.candidate_email}`} className="hover:text-brand">
+              {application.candidate_email}
+            </a>
+          )}
+          {application.candidate_phone && <span> · {application.candidate_phone}</span>}
+        </p>
+        <p className="text-xs text-slate-500">
+          {dateFormat.format(new Date(application.applied_at))}
+          {showJob && (
+            <>
+              {' · '}
+              <Link href={`/vacatures/${application.job.id}`} className="hover:text-brand">
+                {application.job.title}
+              </Link>
+            </>
+          )}
+        </p>
+        {application.motivation && (
+          <details className="text-sm text-slate-700">
+            <summary className="cursor-pointer text-slate-500">Motivatie</summary>
+            <p className="mt-2 whitespace-pre-line">{application.motivation}</p>
+          </details>
+        )}
+        <div className="flex gap-4 pt-1 text-sm">
+          {application.cv_path && (
+            <a href={`/sollicitaties/${application.id}/cv`} className="inline-flex items-center gap-1 text-brand hover:underline">
+              <FileText className="size-4" aria-hidden="true" /> CV
+            </a>
+          )}
+          {application.motivation_path && (
+            <a
+              href={`/sollicitaties/${application.id}/cv?file=motivatie`}
+              className="inline-flex items-center gap-1 text-brand hover:underline"
+            >
+              <FileText className="size-4" aria-hidden="true" /> Motivatiebrief
+            </a>
+          )}
+        </div>
+      </div>
+      <div className="shrink-0 space-y-1">
+        <select
+          aria-label="Status"
+          value={status ?? 'submitted'}
+          disabled={pending || !editable}
+          onChange={(e) => handleChange(e.target.value as ApplicationStatus)}
+          className="rounded-md border border-slate-300 bg-white px-2 py-1 text-sm disabled:opacity-60"
+        >
+          {!EMPLOYER_SETTABLE_STATUSES.includes(status ?? 'submitted') && (
+            <option value={status ?? 'submitted'} disabled>
+              {APPLICATION_STATUS_LABELS[status ?? 'submitted']}
+            </option>
+          )}
+          {EMPLOYER_SETTABLE_STATUSES.map((s) => (
+            <option key={s} value={s}>
+              {APPLICATION_STATUS_LABELS[s]}
+            </option>
+          ))}
+        </select>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </li>
+  )
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { claimCompany, type PortalActionResult } from '@/app/actions/claims'
+import { ResultMessage, buttonClasses } from './form-field'
+
+export function ClaimButton({ companyId }: { companyId: string }) {
+  const [pending, startTransition] = useTransition()
+  const [result, setResult] = useState<PortalActionResult | null>(null)
+
+  function handleClaim() {
+    const formData = new FormData()
+    formData.set('companyId', companyId)
+    startTransition(async () => setResult(await claimCompany(formData)))
+  }
+
+  if (result?.ok) return <ResultMessage result={result} />
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button type="button" onClick={handleClaim} disabled={pending} className={buttonClasses}>
+        {pending ? 'Bezig...' : 'Claim dit bedrijf'}
+      </button>
+      <ResultMessage result={result} />
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { updateCompany } from '@/app/actions/company'
+import type { PortalActionResult } from '@/app/actions/claims'
+import type { CompanyDetail } from '@/lib/queries'
+import { Field, ResultMessage, buttonClasses, inputClasses } from './form-field'
+
+/**
+ * Bewerken van het publieke bedrijfsprofiel. Naam, logo en domein zijn
+ * bewust niet bewerkbaar: die komen uit de verrijking en bepalen de
+ * claim-check op e-maildomein.
+ */
+export function CompanyForm({ company }: { company: CompanyDetail }) {
+  const [pending, startTransition] = useTransition()
+  const [result, setResult] = useState<PortalActionResult | null>(null)
+
+  function handleSubmit(formData: FormData) {
+    setResult(null)
+    startTransition(async () => setResult(await updateCompany(formData)))
+  }
+
+  return (
+    <form action={handleSubmit} className="space-y-4">
+      <input type="hidden" name="companyId" value={company.id} />
+      <Field id="description" label="Over het bedrijf" hint="Getoond op de bedrijfspagina van de vacaturesites.">
+        <textarea
+          id="description"
+          name="description"
+          rows={6}
+          maxLength={5000}
+          defaultValue={company.description ?? ''}
+          disabled={pending}
+          className={inputClasses}
+        />
+      </Field>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <Field id="website" label="Website">
+          <input id="website" name="website" type="url" defaultValue={company.website ?? ''} disabled={pending} className={inputClasses} />
+        </Field>
+        <Field id="linkedin_url" label="LinkedIn">
+          <input
+            id="linkedin_url"
+            name="linkedin_url"
+            type="url"
+            defaultValue={company.linkedin_url ?? ''}
+            disabled={pending}
+            className={inputClasses}
+          />
+        </Field>
+        <Field id="phone" label="Telefoon">
+          <input id="phone" name="phone" type="tel" defaultValue={company.phone ?? ''} disabled={pending} className={inputClasses} />
+        </Field>
+        <Field id="street_address" label="Adres">
+          <input
+            id="street_address"
+            name="street_address"
+            defaultValue={company.street_address ?? ''}
+            disabled={pending}
+            className={inputClasses}
+          />
+        </Field>
+        <Field id="postal_code" label="Postcode">
+          <input
+            id="postal_code"
+            name="postal_code"
+            defaultValue={company.postal_code ?? ''}
+            disabled={pending}
+            className={inputClasses}
+          />
+        </Field>
+        <Field id="city" label="Plaats">
+          <input id="city" name="city" defaultValue={company.city ?? ''} disabled={pending} className={inputClasses} />
+        </Field>
+      </div>
+      <div className="flex items-center gap-4">
+        <button type="submit" disabled={pending} className={buttonClasses}>
+          {pending ? 'Opslaan...' : 'Opslaan'}
+        </button>
+        <ResultMessage result={result} />
+      </div>
+    </form>
+  )
+}
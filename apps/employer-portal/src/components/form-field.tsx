@@ -0,0 +1,39 @@
+export const inputClasses =
+  'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm outline-none focus:border-brand focus:ring-2 focus:ring-brand/20 disabled:opacity-60'
+
+export const buttonClasses =
+  'inline-flex items-center gap-2 rounded-md bg-brand px-4 py-2 text-sm font-medium text-white hover:bg-brand-hover disabled:cursor-not-allowed disabled:opacity-60'
+
+export const secondaryButtonClasses =
+  'inline-flex items-center gap-2 rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60'
+
+export function Field({
+  id,
+  label,
+  hint,
+  children,
+}: {
+  id: string
+  label: string
+  hint?: string
+  children: React.ReactNode
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="mb-1 block text-sm font-medium text-slate-700">
+        {label}
+      </label>
+      {children}
+      {hint && <p className="mt-1 text-xs text-slate-500">{hint}</p>}
+    </div>
+  )
+}
+
+export function ResultMessage({ result }: { result: { ok: boolean; message: string } | null }) {
+  if (!result) return null
+  return (
+    <p role="status" aria-live="polite" className={`text-sm ${result.ok ? 'text-brand' : 'text-red-600'}`}>
+      {result.message}
+    </p>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { submitVacancy } from '@/app/actions/company'
+import type { PortalActionResult } from '@/app/actions/claims'
+import type { MemberCompany, VacancyPackage } from '@/lib/queries'
+import { Field, ResultMessage, buttonClasses, inputClasses } from './form-field'
+
+export interface VacancyOptions {
+  employmentTypes: readonly string[]
+  educationLevels: readonly string[]
+  categories: readonly string[]
+  sections: { tasks: string; profile: string; offer: string }
+}
+
+function Select({ id, options, disabled }: { id: string; options: readonly string[]; disabled: boolean }) {
+  return (
+    <select id={id} name={id} defaultValue="" disabled={disabled} className={inputClasses}>
+      <option value="">Kies...</option>
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+/**
+ * Nieuwe vacature met pakketkeuze. De secties volgen het vaste format van
+ * de vacaturesites; elke regel wordt een bullet. Waardelijsten komen als
+ * props binnen zodat dit component de gedeelde package niet importeert.
+ */
+export function NewVacancyForm({
+  companies,
+  packages,
+  options,
+  defaultCompanyId,
+  defaultPackage,
+}: {
+  companies: MemberCompany[]
+  packages: VacancyPackage[]
+  options: VacancyOptions
+  defaultCompanyId?: string
+  defaultPackage?: string
+}) {
+  const [pending, startTransition] = useTransition()
+  const [result, setResult] = useState<PortalActionResult | null>(null)
+
+  function handleSubmit(formData: FormData) {
+    setResult(null)
+    startTransition(async () => setResult(await submitVacancy(formData)))
+  }
+
+  return (
+    <form action={handleSubmit} className="space-y-6">
+      <fieldset className="space-y-2">
+        <legend className="mb-1 text-sm font-medium text-slate-700">Pakket</legend>
+        <div className="grid gap-3 sm:grid-cols-3">
+          {packages.map((pkg, i) => (
+            <label
+              key={pkg.code}
+              className="flex cursor-pointer flex-col gap-1 rounded-lg border border-slate-200 bg-white p-4 text-sm has-[:checked]:border-brand has-[:checked]:bg-brand-tint"
+            >
+              <span className="flex items-center gap-2 font-medium">
+                <input
+                  type="radio"
+                  name="package"
+                  value={pkg.code}
+                  required
+                  defaultChecked={defaultPackage ? pkg.code === defaultPackage : i === 0}
+                  disabled={pending}
+                />
+                {pkg.name}
+              </span>
+              <span className="text-slate-500">
+                {pkg.price_label} · {pkg.duration_days ? `${pkg.duration_days} dagen online` : 'geen vaste looptijd'}
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {companies.length > 1 ? (
+        <Field id="companyId" label="Bedrijf">
+          <select
+            id="companyId"
+            name="companyId"
+            defaultValue={defaultCompanyId ?? companies[0].id}
+            disabled={pending}
+            className={inputClasses}
+          >
+            {companies.map((company) => (
+              <option key={company.id} value={company.id}>
+                {company.name}
+              </option>
+            ))}
+          </select>
+        </Field>
+      ) : (
+        <input type="hidden" name="companyId" value={companies[0].id} />
+      )}
+
+      <Field id="title" label="Functietitel">
+        <input id="title" name="title" required maxLength={120} disabled={pending} className={inputClasses} />
+      </Field>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Field id="city" label="Plaats">
+          <input id="city" name="city" required disabled={pending} className={inputClasses} />
+        </Field>
+        <Field id="zipcode" label="Postcode" hint="Bepaalt op welke regionale site de vacature komt.">
+          <input id="zipcode" name="zipcode" placeholder="2511 AB" disabled={pending} className={inputClasses} />
+        </Field>
+        <Field id="street" label="Straat en huisnummer">
+          <input id="street" name="street" disabled={pending} className={inputClasses} />
+        </Field>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Field id="employment" label="Dienstverband">
+          <Select id="employment" options={options.employmentTypes} disabled={pending} />
+        </Field>
+        <Field id="education_level" label="Opleidingsniveau">
+          <Select id="education_level" options={options.educationLevels} disabled={pending} />
+        </Field>
+        <Field id="categories" label="Categorie">
+          <Select id="categories" options={options.categories} disabled={pending} />
+        </Field>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Field id="salary" label="Salaris" hint="Bijv. € 2.800 - € 3.400 per maand.">
+          <input id="salary" name="salary" disabled={pending} className={inputClasses} />
+        </Field>
+        <Field id="working_hours_min" label="Uren per week (min)">
+          <input
+            id="working_hours_min"
+            name="working_hours_min"
+            type="number"
+            min={1}
+            max={60}
+            disabled={pending}
+            className={inputClasses}
+          />
+        </Field>
+        <Field id="working_hours_max" label="Uren per week (max)">
+          <input
+            id="working_hours_max"
+            name="working_hours_max"
+            type="number"
+            min={1}
+            max={60}
+            disabled={pending}
+            className={inputClasses}
+          />
+        </Field>
+      </div>
+
+      <Field id="intro" label="Introductie" hint="Twee of drie zinnen over de functie en het bedrijf.">
+        <textarea id="intro" name="intro" rows={3} required disabled={pending} className={inputClasses} />
+      </Field>
+      <Field id="tasks" label={options.sections.tasks} hint="Eén punt per regel.">
+        <textarea id="tasks" name="tasks" rows={5} required disabled={pending} className={inputClasses} />
+      </Field>
+      <Field id="profile" label={options.sections.profile} hint="Eén punt per regel.">
+        <textarea id="profile" name="profile" rows={5} disabled={pending} className={inputClasses} />
+      </Field>
+      <Field id="offer" label={options.sections.offer} hint="Eén punt per regel.">
+        <textarea id="offer" name="offer" rows={5} disabled={pending} className={inputClasses} />
+      </Field>
+      <Field id="url" label="Sollicitatielink" hint="Leeg laten om alleen via het formulier op de vacaturesite te ontvangen.">
+        <input id="url" name="url" type="url" disabled={pending} className={inputClasses} />
+      </Field>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button type="submit" disabled={pending} className={buttonClasses}>
+          {pending ? 'Indienen...' : 'Vacature indienen'}
+        </button>
+        <ResultMessage result={result} />
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,35 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { UserButton } from '@clerk/nextjs'
+
+const NAV = [
+  { href: '/', label: 'Dashboard' },
+  { href: '/sollicitaties', label: 'Sollicitaties' },
+  { href: '/claimen', label: 'Bedrijf claimen' },
+]
+
+export async function PortalHeader() {
+  const { userId } = await auth()
+
+  return (
+    <header className="border-b border-slate-200 bg-white">
+      <div className="mx-auto flex h-14 max-w-6xl items-center gap-6 px-4">
+        <Link href="/" className="font-semibold text-brand">
+          Lokale Banen <span className="font-normal text-slate-500">werkgevers</span>
+        </Link>
+        {userId && (
+          <>
+            <nav className="flex flex-1 items-center gap-4 text-sm">
+              {NAV.map((item) => (
+                <Link key={item.href} href={item.href} className="text-slate-600 hover:text-brand">
+                  {item.label}
+                </Link>
+              ))}
+            </nav>
+            <UserButton />
+          </>
+        )}
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,28 @@
+import type { DailyStats } from '@/lib/queries'
+
+/** Simpele staafgrafiek van views per dag; kliks en sollicitaties in de tooltip. */
+export function StatsChart({ series }: { series: DailyStats[] }) {
+  const max = Math.max(1, ...series.map((d) => d.views))
+
+  return (
+    <div className="flex h-32 items-end gap-1" role="img" aria-label="Views per dag, laatste 30 dagen">
+      {series.map((d) => (
+        <div
+          key={d.day}
+          title={`${d.day}: ${d.views} views, ${d.apply_clicks} kliks, ${d.applications} sollicitaties`}
+          className="flex-1 rounded-t bg-brand/70 hover:bg-brand"
+          style={{ height: `${Math.max(2, (d.views / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function StatTile({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-4">
+      <p className="text-xs uppercase tracking-wide text-slate-500">{label}</p>
+      <p className="mt-1 text-2xl font-semibold">{value.toLocaleString('nl-NL')}</p>
+    </div>
+  )
+}
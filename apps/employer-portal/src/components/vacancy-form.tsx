@@ -0,0 +1,100 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { updateVacancy } from '@/app/actions/company'
+import type { PortalActionResult } from '@/app/actions/claims'
+import type { Vacancy } from '@/lib/queries'
+import { Field, ResultMessage, buttonClasses, inputClasses, secondaryButtonClasses } from './form-field'
+
+/**
+ * Bewerken en sluiten/heropenen van een vacature. Inhoudelijke wijzigingen aan
+ * een online vacature gaan eerst terug naar review (zie `employer_update_job`).
+ */
+export function VacancyForm({ vacancy }: { vacancy: Vacancy }) {
+  const [pending, startTransition] = useTransition()
+  const [result, setResult] = useState<PortalActionResult | null>(null)
+  const archived = vacancy.archived_at !== null
+  // Alleen zelf gesloten vacatures zijn te heropenen; een verlopen pakket
+  // vraagt om een nieuwe plaatsing (zie `employer_update_job`).
+  const reopenable = vacancy.archived_reason === 'employer_closed'
+
+  function handleSubmit(formData: FormData) {
+    setResult(null)
+    startTransition(async () => setResult(await updateVacancy(formData)))
+  }
+
+  function handleToggleArchived() {
+    const formData = new FormData()
+    formData.set('jobId', vacancy.id)
+    formData.set('archived', archived ? 'false' : 'true')
+    setResult(null)
+    startTransition(async () => setResult(await updateVacancy(formData)))
+  }
+
+  return (
+    <form action={handleSubmit} className="space-y-4">
+      <input type="hidden" name="jobId" value={vacancy.id} />
+      <Field id="title" label="Titel">
+        <input id="title" name="title" required defaultValue={vacancy.title} disabled={pending} className={inputClasses} />
+      </Field>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Field id="salary" label="Salaris">
+          <input id="salary" name="salary" defaultValue={vacancy.salary ?? ''} disabled={pending} className={inputClasses} />
+        </Field>
+        <Field id="employment" label="Dienstverband">
+          <input
+            id="employment"
+            name="employment"
+            defaultValue={vacancy.employment ?? ''}
+            disabled={pending}
+            className={inputClasses}
+          />
+        </Field>
+        <Field id="end_date" label="Sluitingsdatum">
+          <input
+            id="end_date"
+            name="end_date"
+            type="date"
+            defaultValue={vacancy.end_date?.slice(0, 10) ?? ''}
+            disabled={pending}
+            className={inputClasses}
+          />
+        </Field>
+      </div>
+      <Field id="url" label="Sollicitatielink" hint="Leeg laten om alleen via het formulier op de vacaturesite te ontvangen.">
+        <input id="url" name="url" type="url" defaultValue={vacancy.url ?? ''} disabled={pending} className={inputClasses} />
+      </Field>
+      <Field id="content_md" label="Omschrijving" hint="Markdown.">
+        <textarea
+          id="content_md"
+          name="content_md"
+          rows={14}
+          defaultValue={vacancy.content_md ?? ''}
+          disabled={pending}
+          className={`${inputClasses} font-mono`}
+        />
+      </Field>
+      <div className="flex flex-wrap items-center gap-4">
+        <button type="submit" disabled={pending} className={buttonClasses}>
+          {pending ? 'Opslaan...' : 'Opslaan'}
+        </button>
+        {(!archived || reopenable) && (
+          <button type="button" onClick={handleToggleArchived} disabled={pending} className={secondaryButtonClasses}>
+            {archived ? 'Vacature heropenen' : 'Vacature sluiten'}
+          </button>
+        )}
+        {archived && vacancy.archived_reason === 'package_expired' && (
+          <p className="text-sm text-slate-500">
+            Het pakket is verlopen.{' '}
+            <Link href={`/vacatures/nieuw?bedrijf=${vacancy.company_id}`} className="text-brand hover:underline">
+              Plaats de vacature opnieuw
+            </Link>
+            .
+          </p>
+        )}
+        <ResultMessage result={result} />
+      </div>
+    </form>
+  )
+}
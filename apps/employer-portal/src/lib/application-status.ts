@@ -0,0 +1,29 @@
+/**
+ * Sollicitatiestatussen zoals in `job_applications.status`. Los van
+ * `queries.ts` zodat client components ze kunnen importeren zonder de
+ * Clerk/Supabase server-code mee te trekken.
+ */
+
+export const APPLICATION_STATUSES = [
+  'submitted',
+  'forwarded',
+  'in_review',
+  'invited',
+  'rejected',
+  'hired',
+  'withdrawn',
+] as const
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number]
+
+/** Statussen die een werkgever zelf mag zetten (zie `employer_set_application_status`). */
+export const EMPLOYER_SETTABLE_STATUSES: ApplicationStatus[] = ['in_review', 'invited', 'rejected', 'hired']
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  submitted: 'Nieuw',
+  forwarded: 'Nieuw (gemaild)',
+  in_review: 'In behandeling',
+  invited: 'Uitgenodigd',
+  rejected: 'Afgewezen',
+  hired: 'Aangenomen',
+  withdrawn: 'Ingetrokken',
+}
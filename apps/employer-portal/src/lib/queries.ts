@@ -0,0 +1,349 @@
+import { auth } from '@clerk/nextjs/server'
+import { createPublicClient } from '@lokale-banen/database'
+import { createAuthClient } from './supabase'
+import type { ApplicationStatus } from './application-status'
+
+/**
+ * Data-access voor het werkgeversportaal. Alles via de Clerk-client, dus
+ * RLS bepaalt de scope. Omdat `companies` en `job_postings` ook publieke
+ * read-policies hebben, checken detail-queries daarnaast expliciet het
+ * lidmaatschap (`getMembership`) - anders zou elk publiek bedrijf hier
+ * "bewerkbaar" lijken.
+ */
+
+export type MemberRole = 'owner' | 'member'
+export type ClaimStatus = 'pending' | 'approved' | 'rejected'
+
+export interface MemberCompany {
+  id: string
+  name: string
+  slug: string | null
+  city: string | null
+  logo_url: string | null
+  role: MemberRole
+}
+
+export interface CompanyClaim {
+  id: string
+  company_id: string
+  company_name: string | null
+  status: ClaimStatus
+  method: 'email_domain' | 'manual'
+  created_at: string
+}
+
+export interface CompanyDetail {
+  id: string
+  name: string
+  slug: string | null
+  description: string | null
+  website: string | null
+  linkedin_url: string | null
+  logo_url: string | null
+  phone: string | null
+  street_address: string | null
+  postal_code: string | null
+  city: string | null
+  hoofddomein: string | null
+}
+
+export interface Vacancy {
+  id: string
+  company_id: string
+  title: string
+  slug: string | null
+  city: string | null
+  salary: string | null
+  employment: string | null
+  url: string | null
+  content_md: string | null
+  end_date: string | null
+  published_at: string | null
+  archived_at: string | null
+  /** `employer_closed`, `package_expired`, `not_in_*` (bron), ...; alleen `employer_closed` is te heropenen. */
+  archived_reason: string | null
+  review_status: string | null
+  package_code: string | null
+  expires_at: string | null
+}
+
+export interface VacancyPackage {
+  code: string
+  name: string
+  price_label: string
+  duration_days: number | null
+  features: string[]
+}
+
+export interface VacancyStats {
+  views: number
+  apply_clicks: number
+  applications: number
+}
+
+export interface DailyStats extends VacancyStats {
+  day: string
+}
+
+export interface EmployerApplication {
+  id: string
+  applied_at: string
+  status: ApplicationStatus | null
+  candidate_name: string | null
+  candidate_email: string | null
+  candidate_phone: string | null
+  motivation: string | null
+  cv_path: string | null
+  motivation_path: string | null
+  job: { id: string; title: string; company_id: string }
+}
+
+const EMPTY_STATS: VacancyStats = { views: 0, apply_clicks: 0, applications: 0 }
+
+function one<T>(v: T | T[] | null): T | null {
+  return Array.isArray(v) ? (v[0] ?? null) : v
+}
+
+// ── Bedrijven ───────────────────────────────────────────────────────
+
+export async function getMyCompanies(): Promise<MemberCompany[]> {
+  const { userId } = await auth()
+  if (!userId) return []
+
+  const supabase = await createAuthClient()
+  const { data, error } = await supabase
+    .from('company_members')
+    .select('role, companies!company_id ( id, name, slug, city, logo_url )')
+    .eq('user_id', userId)
+
+  if (error || !data) return []
+  return data
+    .map((row) => {
+      const company = one(row.companies as unknown as Omit<MemberCompany, 'role'> | null)
+      return company ? { ...company, role: row.role as MemberRole } : null
+    })
+    .filter((c): c is MemberCompany => c !== null)
+    .sort((a, b) => a.name.localeCompare(b.name, 'nl'))
+}
+
+export async function getMyClaims(): Promise<CompanyClaim[]> {
+  const { userId } = await auth()
+  if (!userId) return []
+
+  const supabase = await createAuthClient()
+  const { data, error } = await supabase
+    .from('company_claims')
+    .select('id, company_id, status, method, created_at, companies!company_id ( name )')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error || !data) return []
+  return data.map((row) => ({
+    id: row.id as string,
+    company_id: row.company_id as string,
+    company_name: one(row.companies as unknown as { name: string } | null)?.name ?? null,
+    status: row.status as ClaimStatus,
+    method: row.method as CompanyClaim['method'],
+    created_at: row.created_at as string,
+  }))
+}
+
+/** Rol van de ingelogde gebruiker bij dit bedrijf, of null als geen lid. */
+export async function getMembership(companyId: string): Promise<MemberRole | null> {
+  const { userId } = await auth()
+  if (!userId) return null
+
+  const supabase = await createAuthClient()
+  const { data } = await supabase
+    .from('company_members')
+    .select('role')
+    .eq('company_id', companyId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  return (data?.role as MemberRole | undefined) ?? null
+}
+
+export async function getCompany(companyId: string): Promise<CompanyDetail | null> {
+  if (!(await getMembership(companyId))) return null
+
+  const supabase = await createAuthClient()
+  const { data } = await supabase
+    .from('companies')
+    .select(
+      'id, name, slug, description, website, linkedin_url, logo_url, phone, street_address, postal_code, city, hoofddomein'
+    )
+    .eq('id', companyId)
+    .maybeSingle()
+  return (data as CompanyDetail | null) ?? null
+}
+
+/**
+ * Zoeken om te claimen: zelfde bron als de bedrijfspagina's op de publieke
+ * sites (`getCompanyBySlug`), dus alleen bedrijven met een slug.
+ */
+export async function searchClaimableCompanies(
+  query: string
+): Promise<Pick<CompanyDetail, 'id' | 'name' | 'slug' | 'city' | 'hoofddomein'>[]> {
+  const q = query.trim()
+  if (q.length < 2) return []
+
+  const supabase = createPublicClient()
+  const { data } = await supabase
+    .from('companies')
+    .select('id, name, slug, city, hoofddomein')
+    .not('slug', 'is', null)
+    .ilike('name', `%${q.replace(/[%_]/g, '')}%`)
+    .order('name')
+    .limit(20)
+  return data ?? []
+}
+
+export async function getCompanyBySlugForClaim(slug: string) {
+  const supabase = createPublicClient()
+  const { data } = await supabase
+    .from('companies')
+    .select('id, name, slug, city, hoofddomein')
+    .eq('slug', slug)
+    .maybeSingle()
+  return data as Pick<CompanyDetail, 'id' | 'name' | 'slug' | 'city' | 'hoofddomein'> | null
+}
+
+// ── Vacatures ───────────────────────────────────────────────────────
+
+const VACANCY_SELECT =
+  'id, company_id, title, slug, city, salary, employment, url, content_md, end_date, published_at, archived_at, archived_reason, review_status, package_code, expires_at'
+
+/** Status zoals de werkgever hem ziet: gesloten gaat voor de reviewstatus. */
+export function vacancyStatusLabel(vacancy: Pick<Vacancy, 'archived_at' | 'review_status'>): string {
+  if (vacancy.archived_at) return 'Gesloten'
+  if (vacancy.review_status === 'approved') return 'Online'
+  if (vacancy.review_status === 'rejected') return 'Afgewezen'
+  return 'In review'
+}
+
+export async function getCompanyVacancies(companyId: string): Promise<Vacancy[]> {
+  if (!(await getMembership(companyId))) return []
+
+  const supabase = await createAuthClient()
+  const { data } = await supabase
+    .from('job_postings')
+    .select(VACANCY_SELECT)
+    .eq('company_id', companyId)
+    .is('canonical_id', null)
+    .order('archived_at', { ascending: false, nullsFirst: true })
+    .order('published_at', { ascending: false, nullsFirst: false })
+    .limit(500)
+  return (data as Vacancy[] | null) ?? []
+}
+
+export async function getVacancy(jobId: string): Promise<Vacancy | null> {
+  const supabase = await createAuthClient()
+  const { data } = await supabase.from('job_postings').select(VACANCY_SELECT).eq('id', jobId).maybeSingle()
+  const vacancy = data as Vacancy | null
+  if (!vacancy || !(await getMembership(vacancy.company_id))) return null
+  return vacancy
+}
+
+// ── Pakketten ───────────────────────────────────────────────────────
+
+/** Actieve pakketten voor self-service plaatsing (publiek leesbaar). */
+export async function getPackages(): Promise<VacancyPackage[]> {
+  const supabase = createPublicClient()
+  const { data } = await supabase
+    .from('vacancy_packages')
+    .select('code, name, price_label, duration_days, features')
+    .order('sort_order')
+  return (data as VacancyPackage[] | null) ?? []
+}
+
+// ── Statistieken ────────────────────────────────────────────────────
+
+function sinceDay(days: number): string {
+  return new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10)
+}
+
+/** Totalen per vacature over de laatste `days` dagen. */
+export async function getStatsByJob(jobIds: string[], days = 30): Promise<Map<string, VacancyStats>> {
+  const totals = new Map<string, VacancyStats>()
+  if (jobIds.length === 0) return totals
+
+  const supabase = await createAuthClient()
+  const { data } = await supabase
+    .from('job_posting_stats')
+    .select('job_posting_id, views, apply_clicks, applications')
+    .in('job_posting_id', jobIds)
+    .gte('day', sinceDay(days))
+
+  for (const row of data ?? []) {
+    const t = totals.get(row.job_posting_id) ?? { ...EMPTY_STATS }
+    t.views += row.views
+    t.apply_clicks += row.apply_clicks
+    t.applications += row.applications
+    totals.set(row.job_posting_id, t)
+  }
+  return totals
+}
+
+/** Dagreeks voor één vacature; dagen zonder events staan er met nullen in. */
+export async function getDailyStats(jobId: string, days = 30): Promise<DailyStats[]> {
+  const supabase = await createAuthClient()
+  const { data } = await supabase
+    .from('job_posting_stats')
+    .select('day, views, apply_clicks, applications')
+    .eq('job_posting_id', jobId)
+    .gte('day', sinceDay(days))
+
+  const byDay = new Map((data ?? []).map((r) => [r.day as string, r as DailyStats]))
+  const series: DailyStats[] = []
+  for (let i = days - 1; i >= 0; i--) {
+    const day = sinceDay(i)
+    series.push(byDay.get(day) ?? { day, ...EMPTY_STATS })
+  }
+  return series
+}
+
+// ── Sollicitaties ───────────────────────────────────────────────────
+
+/**
+ * Native sollicitaties (method `internal_form`) voor de vacatures van de
+ * gebruiker, optioneel beperkt tot één bedrijf of vacature. Klik-tracking
+ * (`external_redirect`) telt alleen mee in de statistieken.
+ */
+export async function getApplications(
+  scope: { companyId?: string; jobId?: string } = {}
+): Promise<EmployerApplication[]> {
+  const supabase = await createAuthClient()
+  let query = supabase
+    .from('job_applications')
+    .select(
+      `id, applied_at, status, candidate_name, candidate_email, candidate_phone,
+       motivation, cv_path, motivation_path,
+       job_postings!job_posting_id!inner ( id, title, company_id )`
+    )
+    .eq('method', 'internal_form')
+    .order('applied_at', { ascending: false })
+    .limit(500)
+  if (scope.jobId) query = query.eq('job_posting_id', scope.jobId)
+  if (scope.companyId) query = query.eq('job_postings.company_id', scope.companyId)
+
+  const { data, error } = await query
+  if (error || !data) return []
+  return data
+    .map((row) => {
+      const job = one(row.job_postings as unknown as EmployerApplication['job'] | null)
+      if (!job) return null
+      return {
+        id: row.id as string,
+        applied_at: row.applied_at as string,
+        status: row.status as ApplicationStatus | null,
+        candidate_name: row.candidate_name as string | null,
+        candidate_email: row.candidate_email as string | null,
+        candidate_phone: row.candidate_phone as string | null,
+        motivation: row.motivation as string | null,
+        cv_path: row.cv_path as string | null,
+        motivation_path: row.motivation_path as string | null,
+        job,
+      }
+    })
+    .filter((a): a is EmployerApplication => a !== null)
+}
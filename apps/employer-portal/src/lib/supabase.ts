@@ -0,0 +1,22 @@
+import { auth } from '@clerk/nextjs/server'
+import { createClerkSupabaseClient } from '@lokale-banen/auth'
+import { createServiceClient } from '@lokale-banen/database'
+
+/**
+ * Supabase client met de Clerk JWT van de ingelogde werkgever. Alle reads
+ * en writes van het portaal lopen hierover; RLS (`is_company_member`)
+ * bepaalt wat zichtbaar is.
+ */
+export async function createAuthClient() {
+  const { getToken } = await auth()
+  return createClerkSupabaseClient(getToken)
+}
+
+/**
+ * Service-role client, uitsluitend voor signed URLs op de private bucket
+ * `application-documents`. Alleen aanroepen nadat de sollicitatie via
+ * `createAuthClient()` (dus door RLS heen) is opgehaald.
+ */
+export function createStorageServiceClient() {
+  return createServiceClient()
+}
@@ -0,0 +1,25 @@
+import type { Config } from 'tailwindcss'
+import baseConfig from '../../packages/config/tailwind.base'
+
+/**
+ * Werkgeversportaal gebruikt de gedeelde preset (DESIGN.md sectie 8) met
+ * neutrale slate-kleuren; geen per-tenant theming zoals op de publieke sites.
+ */
+const config: Config = {
+  content: ['./src/**/*.{ts,tsx}'],
+  presets: [baseConfig as Config],
+  theme: {
+    extend: {
+      colors: {
+        brand: {
+          DEFAULT: '#0A6333',
+          hover: '#08522a',
+          tint: '#e7f0eb',
+        },
+      },
+    },
+  },
+  plugins: [],
+}
+
+export default config
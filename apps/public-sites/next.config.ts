@@ -3,6 +3,11 @@ import { withSentryConfig } from '@sentry/nextjs'
 
 const nextConfig: NextConfig = {
   // cacheComponents: true,  // disabled - re-enable after full RSC audit
+  experimental: {
+    // CV-upload via de submitApplication server-action. Vercel kapt request
+    // bodies af op 4.5 MB; de action zelf staat max 4 MB aan bestanden toe.
+    serverActions: { bodySizeLimit: '4.5mb' },
+  },
   images: {
     remotePatterns: [
       { protocol: 'https', hostname: '**' },
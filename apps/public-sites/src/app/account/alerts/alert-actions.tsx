@@ -0,0 +1,46 @@
+'use client'
+
+import { useTransition } from 'react'
+import { X } from 'lucide-react'
+import { deleteJobAlert, updateJobAlertFrequency } from '@/app/actions/job-alerts'
+import type { AlertFrequency } from '@/lib/job-alerts'
+
+interface AlertActionsProps {
+  alertId: string
+  frequency: AlertFrequency
+}
+
+/** Frequentie wisselen + verwijderen voor één alert op /account/alerts. */
+export function AlertActions({ alertId, frequency }: AlertActionsProps) {
+  const [isPending, startTransition] = useTransition()
+
+  return (
+    <div className="flex items-center gap-2 shrink-0">
+      <label htmlFor={`freq-${alertId}`} className="sr-only">Frequentie</label>
+      <select
+        id={`freq-${alertId}`}
+        defaultValue={frequency}
+        disabled={isPending}
+        onChange={(e) => {
+          const next = e.target.value as AlertFrequency
+          startTransition(async () => {
+            await updateJobAlertFrequency(alertId, next)
+          })
+        }}
+        className="h-11 px-3 rounded-input border border-divider bg-surface text-meta text-primary outline-none focus-visible:border-secondary disabled:opacity-60"
+      >
+        <option value="daily">Dagelijks</option>
+        <option value="instant">Direct</option>
+      </select>
+      <button
+        type="button"
+        onClick={() => startTransition(async () => { await deleteJobAlert(alertId) })}
+        disabled={isPending}
+        aria-label="Verwijder alert"
+        className="inline-flex items-center justify-center min-w-11 min-h-11 text-muted hover:text-primary hover:bg-primary-tint transition-colors shrink-0 focus-visible:outline focus-visible:outline-2 focus-visible:outline-secondary focus-visible:outline-offset-[-3px]"
+      >
+        <X className="size-5" strokeWidth={1.75} aria-hidden="true" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import Link from 'next/link'
+import { getTenant } from '@/lib/tenant'
+import { getCitiesWithJobCounts } from '@/lib/queries'
+import { formatRelative } from '@/lib/utils'
+import { alertFilterSearchParams } from '@/lib/job-alerts'
+import { getMyJobAlerts } from '@/app/actions/job-alerts'
+import {
+  SiteHeader,
+  SiteFooter,
+  Breadcrumbs,
+  PageHero,
+  EmptyState,
+  PillButton,
+  ArrowRight,
+} from '@/components/eyeron'
+import { AlertActions } from './alert-actions'
+
+export const metadata = { title: 'Vacaturealerts' }
+
+export default async function JobAlertsPage() {
+  const tenant = await getTenant()
+  if (!tenant) redirect('/')
+
+  const { userId } = await auth()
+  if (!userId) redirect('/sign-in?redirect_url=/account/alerts')
+
+  const [alerts, cities] = await Promise.all([
+    getMyJobAlerts(),
+    getCitiesWithJobCounts(tenant.id),
+  ])
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader tenant={tenant} />
+
+      <main className="flex-1 max-w-content mx-auto w-full px-pad py-8">
+        <Breadcrumbs
+          className="mb-5"
+          items={[
+            { label: tenant.name, href: '/' },
+            { label: 'Mijn account', href: '/account' },
+            { label: 'Vacaturealerts' },
+          ]}
+        />
+        <PageHero
+          title="Vacaturealerts"
+          description={
+            alerts.length > 0
+              ? `${alerts.length} ${alerts.length === 1 ? 'alert' : 'alerts'} voor ${tenant.name}.`
+              : undefined
+          }
+        />
+
+        {alerts.length > 0 ? (
+          <ul className="grid gap-3 max-w-3xl m-0 p-0 list-none">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className="flex items-start gap-4 bg-surface border border-divider-subtle p-5"
+              >
+                <Link
+                  href={`/${alertFilterSearchParams(alert.filter)}`}
+                  className="flex-1 min-w-0 group no-underline"
+                >
+                  <p className="m-0 text-body font-bold text-primary tracking-tight group-hover:text-primary-hover group-hover:underline underline-offset-2">
+                    {alert.label}
+                  </p>
+                  <p className="m-0 mt-1 text-small font-light text-muted">
+                    {alert.status === 'pending'
+                      ? 'Wacht op bevestiging via e-mail'
+                      : `Aangemaakt ${formatRelative(alert.created_at)}`}
+                  </p>
+                </Link>
+                <AlertActions alertId={alert.id} frequency={alert.frequency} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <EmptyState
+            title="Nog geen vacaturealerts"
+            body="Zoek op de vacaturepagina en klik onder de resultaten op 'Alert aanmaken' om nieuwe vacatures per mail te ontvangen."
+            action={
+              <PillButton href="/" variant="primary">
+                Naar de vacatures
+                <ArrowRight />
+              </PillButton>
+            }
+          />
+        )}
+      </main>
+
+      <SiteFooter tenant={tenant} cities={cities} />
+    </div>
+  )
+}
@@ -2,9 +2,10 @@ import { redirect } from 'next/navigation'
 import { auth, currentUser } from '@clerk/nextjs/server'
 import { SignOutButton } from '@clerk/nextjs'
 import Link from 'next/link'
-import { Bookmark, FileText, Settings, LogOut } from 'lucide-react'
+import { Bookmark, Bell, FileText, Settings, LogOut, Sparkles } from 'lucide-react'
 import { getTenant } from '@/lib/tenant'
 import { getCitiesWithJobCounts } from '@/lib/queries'
+import { getMyJobSeekerProfile, getMyRecommendedJobs } from '@/app/actions/job-seeker-profile'
 import {
   SiteHeader,
   SiteFooter,
@@ -22,6 +23,12 @@ const MENU_ITEMS = [
     description: 'Bewaar vacatures voor later',
     href: '/account/opgeslagen',
   },
+  {
+    icon: Bell,
+    label: 'Vacaturealerts',
+    description: 'Nieuwe vacatures voor je zoekopdrachten per mail',
+    href: '/account/alerts',
+  },
   {
     icon: FileText,
     label: 'Mijn sollicitaties',
@@ -46,7 +53,11 @@ export default async function AccountPage() {
   const user = await currentUser()
   if (!user) redirect('/sign-in?redirect_url=/account')
 
-  const cities = await getCitiesWithJobCounts(tenant.id)
+  const [cities, profile, recommended] = await Promise.all([
+    getCitiesWithJobCounts(tenant.id),
+    getMyJobSeekerProfile(),
+    getMyRecommendedJobs(),
+  ])
 
   const displayName = user.firstName
     ? `${user.firstName} ${user.lastName || ''}`.trim()
@@ -115,6 +126,55 @@ export default async function AccountPage() {
           ))}
         </div>
 
+        {/* Aanbevolen vacatures */}
+        <section aria-labelledby="recommended-heading" className="mt-10 max-w-2xl">
+          <div className="flex items-center gap-3 mb-3">
+            <Sparkles className="size-5 text-primary" strokeWidth={1.75} aria-hidden="true" />
+            <h2 id="recommended-heading" className="m-0 text-h2 font-bold text-primary tracking-tight">
+              Aanbevolen vacatures
+            </h2>
+          </div>
+          {recommended.length > 0 ? (
+            <ul className="grid gap-3 m-0 p-0 list-none">
+              {recommended.map((job) => (
+                <li key={job.id}>
+                  <Link
+                    href={`/vacature/${job.slug || job.id}`}
+                    className="group flex items-start gap-4 bg-surface border border-divider-subtle p-5 no-underline hover:shadow-card-hover transition-shadow"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="m-0 text-body font-bold text-primary tracking-tight truncate group-hover:text-primary-hover group-hover:underline underline-offset-2">
+                        {job.title}
+                      </p>
+                      <p className="m-0 mt-0.5 text-meta font-light text-muted">
+                        {job.company_name || 'Onbekend bedrijf'}
+                        {job.city && ` · ${job.city}`}
+                      </p>
+                      {job.reasons.length > 0 && (
+                        <p className="m-0 mt-1 text-small font-light text-muted">
+                          Past bij je {job.reasons.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    <span className="shrink-0 text-meta font-bold text-secondary">
+                      {job.score}% match
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="m-0 text-meta font-light text-muted">
+              {profile
+                ? 'Op dit moment hebben we geen vacatures die goed bij je voorkeuren passen. '
+                : 'Vul je voorkeuren in en we tonen hier vacatures die bij je passen. '}
+              <Link href="/account/profiel" className="text-primary font-bold underline underline-offset-2">
+                {profile ? 'Voorkeuren aanpassen' : 'Voorkeuren invullen'}
+              </Link>
+            </p>
+          )}
+        </section>
+
         <div className="mt-10 max-w-2xl">
           <SignOutButton>
             <PillButton type="button">
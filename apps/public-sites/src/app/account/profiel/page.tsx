@@ -2,13 +2,15 @@ import { redirect } from 'next/navigation'
 import { auth } from '@clerk/nextjs/server'
 import { UserProfile } from '@clerk/nextjs'
 import { getTenant } from '@/lib/tenant'
-import { getCitiesWithJobCounts } from '@/lib/queries'
+import { getCitiesWithJobCounts, getFilterFacets } from '@/lib/queries'
+import { getMyJobSeekerProfile } from '@/app/actions/job-seeker-profile'
 import {
   SiteHeader,
   SiteFooter,
   Breadcrumbs,
   PageHero,
 } from '@/components/eyeron'
+import { PreferencesForm } from './preferences-form'
 
 export const metadata = { title: 'Mijn profiel' }
 
@@ -19,7 +21,11 @@ export default async function ProfilePage() {
   const { userId } = await auth()
   if (!userId) redirect('/sign-in?redirect_url=/account/profiel')
 
-  const cities = await getCitiesWithJobCounts(tenant.id)
+  const [cities, facets, profile] = await Promise.all([
+    getCitiesWithJobCounts(tenant.id),
+    getFilterFacets(tenant.id),
+    getMyJobSeekerProfile(),
+  ])
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -39,6 +45,19 @@ export default async function ProfilePage() {
           description="Beheer je account-instellingen en voorkeuren."
         />
 
+        <section
+          aria-labelledby="preferences-heading"
+          className="bg-surface border border-divider-subtle p-5 sm:p-7 max-w-3xl mb-8"
+        >
+          <h2 id="preferences-heading" className="m-0 text-h2 font-bold text-primary tracking-tight">
+            Mijn voorkeuren
+          </h2>
+          <p className="m-0 mt-1 mb-6 text-meta font-light text-muted">
+            Op basis hiervan tonen we aanbevolen vacatures op je accountpagina en in je vacaturealerts.
+          </p>
+          <PreferencesForm profile={profile} facets={facets} />
+        </section>
+
         <div className="bg-surface border border-divider-subtle p-2 sm:p-4 max-w-3xl">
           <UserProfile
             appearance={{
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { saveJobSeekerProfile, type JobSeekerProfileResult } from '@/app/actions/job-seeker-profile'
+import type { JobSeekerProfile } from '@/lib/recommendations'
+import type { FilterFacets } from '@/lib/queries'
+import { RADIUS_OPTIONS } from '@/lib/radius'
+import { Checkbox, Radio, PillButton } from '@/components/eyeron'
+
+interface PreferencesFormProps {
+  profile: JobSeekerProfile | null
+  /** Vakgebied-, opleiding- en urenopties van dit portaal. */
+  facets: FilterFacets
+}
+
+const HOURS_LABELS: Record<string, string> = {
+  lt36:    'Parttime < 36 uur',
+  '36-40': 'Fulltime 36 - 40 uur',
+  gt40:    'Meer dan 40 uur',
+}
+
+const inputClass =
+  'w-full h-11 px-4 rounded-input border border-divider bg-surface text-body text-primary placeholder:text-placeholder outline-none focus-visible:border-secondary disabled:opacity-60'
+
+/**
+ * Werkzoekendenvoorkeuren op /account/profiel. Opties komen uit de
+ * filterfacetten, zodat het profiel dezelfde waarden gebruikt als de
+ * filters op /vacatures. Opslaan via `saveJobSeekerProfile`.
+ */
+export function PreferencesForm({ profile, facets }: PreferencesFormProps) {
+  const [pending, startTransition] = useTransition()
+  const [result, setResult] = useState<JobSeekerProfileResult | null>(null)
+
+  // Waarden uit het profiel die (nog) geen facet zijn blijven zichtbaar.
+  const sectors = [...new Set([...facets.sector.map((f) => f.value), ...(profile?.sectors ?? [])])]
+  const education = [
+    ...new Set([...facets.education.map((f) => f.value), ...(profile?.education_levels ?? [])]),
+  ]
+
+  function handleSubmit(formData: FormData) {
+    setResult(null)
+    startTransition(async () => {
+      setResult(await saveJobSeekerProfile(formData))
+    })
+  }
+
+  return (
+    <form action={handleSubmit} className="grid gap-7" noValidate>
+      <div>
+        <label htmlFor="pf-functions" className="block text-body font-bold text-primary mb-1">
+          Gewenste functies
+        </label>
+        <p className="m-0 mb-2 text-meta font-light text-muted">
+          Maximaal 5, gescheiden door komma&apos;s. Bijvoorbeeld: chauffeur, magazijnmedewerker.
+        </p>
+        <input
+          id="pf-functions"
+          name="functions"
+          type="text"
+          defaultValue={profile?.functions.join(', ') ?? ''}
+          disabled={pending}
+          className={inputClass}
+        />
+      </div>
+
+      {sectors.length > 0 && (
+        <fieldset className="m-0 p-0 border-0">
+          <legend className="text-body font-bold text-primary mb-2">Vakgebied</legend>
+          <div className="grid sm:grid-cols-2 gap-x-6">
+            {sectors.map((value) => (
+              <Checkbox
+                key={value}
+                name="sectors"
+                value={value}
+                defaultChecked={profile?.sectors.includes(value)}
+              >
+                {value}
+              </Checkbox>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <fieldset className="m-0 p-0 border-0">
+        <legend className="text-body font-bold text-primary mb-2">Aantal uur per week</legend>
+        <Radio name="hours" value="" defaultChecked={!profile?.hours}>
+          Geen voorkeur
+        </Radio>
+        {Object.entries(HOURS_LABELS).map(([value, label]) => (
+          <Radio key={value} name="hours" value={value} defaultChecked={profile?.hours === value}>
+            {label}
+          </Radio>
+        ))}
+      </fieldset>
+
+      {education.length > 0 && (
+        <fieldset className="m-0 p-0 border-0">
+          <legend className="text-body font-bold text-primary mb-2">Opleidingsniveau</legend>
+          <div className="grid sm:grid-cols-2 gap-x-6">
+            {education.map((value) => (
+              <Checkbox
+                key={value}
+                name="education_levels"
+                value={value}
+                defaultChecked={profile?.education_levels.includes(value)}
+              >
+                {value}
+              </Checkbox>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="pf-postcode" className="block text-body font-bold text-primary mb-2">
+            Postcode
+          </label>
+          <input
+            id="pf-postcode"
+            name="postcode"
+            type="text"
+            inputMode="text"
+            autoComplete="postal-code"
+            placeholder="1234 AB"
+            defaultValue={profile?.postcode ?? ''}
+            disabled={pending}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="pf-distance" className="block text-body font-bold text-primary mb-2">
+            Maximale reisafstand
+          </label>
+          <select
+            id="pf-distance"
+            name="max_distance_km"
+            defaultValue={profile?.max_distance_km ? String(profile.max_distance_km) : ''}
+            disabled={pending}
+            className={inputClass}
+          >
+            <option value="">Geen maximum</option>
+            {RADIUS_OPTIONS.map((km) => (
+              <option key={km} value={km}>
+                {km} km
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <PillButton
+          type="submit"
+          variant="primary"
+          disabled={pending}
+          className="disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {pending ? 'Opslaan...' : 'Voorkeuren opslaan'}
+        </PillButton>
+        {result && (
+          <p
+            role="status"
+            aria-live="polite"
+            className={`m-0 text-meta font-regular ${result.ok ? 'text-secondary' : 'text-red-600'}`}
+          >
+            {result.message}
+          </p>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -6,6 +6,8 @@ import { getTenant } from '@/lib/tenant'
 import { getCitiesWithJobCounts } from '@/lib/queries'
 import { formatRelative } from '@/lib/utils'
 import { getApplications } from '@/app/actions/applications'
+import { APPLICATION_STATUS_LABELS, WITHDRAWABLE_STATUSES } from '@/lib/applications'
+import { WithdrawButton } from './withdraw-button'
 import {
   SiteHeader,
   SiteFooter,
@@ -90,6 +92,13 @@ export default async function ApplicationsPage() {
                         Gesolliciteerd {formatRelative(item.applied_at)}
                         {item.method && ` · Via: ${METHOD_LABELS[item.method] || item.method}`}
                       </p>
+                      {item.status && (
+                        <p className="m-0 mt-2">
+                          <span className="inline-block px-2 py-0.5 bg-primary-tint text-small font-bold text-primary">
+                            {APPLICATION_STATUS_LABELS[item.status] ?? item.status}
+                          </span>
+                        </p>
+                      )}
                     </div>
                     <ExternalLink
                       className="size-4 text-secondary shrink-0 mt-1 group-hover:text-secondary-hover"
@@ -97,6 +106,13 @@ export default async function ApplicationsPage() {
                       aria-hidden="true"
                     />
                   </Link>
+                  {item.method === 'internal_form' &&
+                    item.status &&
+                    WITHDRAWABLE_STATUSES.includes(item.status) && (
+                      <div className="flex justify-end">
+                        <WithdrawButton applicationId={item.id} />
+                      </div>
+                    )}
                 </li>
               )
             })}
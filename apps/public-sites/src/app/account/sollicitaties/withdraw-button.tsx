@@ -0,0 +1,27 @@
+'use client'
+
+import { useTransition } from 'react'
+import { withdrawApplication } from '@/app/actions/applications'
+
+interface WithdrawButtonProps {
+  applicationId: string
+}
+
+/** Sollicitatie intrekken op /account/sollicitaties, met een bevestigingsvraag. */
+export function WithdrawButton({ applicationId }: WithdrawButtonProps) {
+  const [isPending, startTransition] = useTransition()
+
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        if (!window.confirm('Weet je zeker dat je deze sollicitatie wilt intrekken?')) return
+        startTransition(async () => { await withdrawApplication(applicationId) })
+      }}
+      disabled={isPending}
+      className="min-h-11 px-2 text-small font-bold text-muted hover:text-primary transition-colors focus-visible:outline focus-visible:outline-2 focus-visible:outline-secondary focus-visible:outline-offset-[-3px] disabled:opacity-60"
+    >
+      {isPending ? 'Intrekken...' : 'Sollicitatie intrekken'}
+    </button>
+  )
+}
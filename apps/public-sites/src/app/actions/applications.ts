@@ -1,8 +1,27 @@
 'use server'
 
+import { headers } from 'next/headers'
+import { revalidatePath } from 'next/cache'
 import { auth } from '@clerk/nextjs/server'
 import { createAuthClient } from '@/lib/supabase-auth'
+import { createApplicationServiceClient } from '@/lib/supabase'
 import { getTenant } from '@/lib/tenant'
+import { getResendClient, MAIL_FROM } from '@/lib/email'
+import { checkRateLimit } from '@/lib/contact-rate-limit'
+import { tenantBaseUrl } from '@/lib/job-alerts'
+import {
+  MAX_UPLOAD_BYTES,
+  WITHDRAWABLE_STATUSES,
+  findEmployerContact,
+  removeApplicationFiles,
+  storeApplicationFile,
+  uploadExtension,
+  type ApplicationStatus,
+} from '@/lib/applications'
+import {
+  renderApplicationConfirmEmail,
+  renderApplicationEmployerEmail,
+} from '@/lib/application-email'
 
 export async function logApplication(jobId: string) {
   const { userId } = await auth()
@@ -12,7 +31,8 @@ export async function logApplication(jobId: string) {
   if (!tenant) return
 
   const supabase = await createAuthClient()
-  // Upsert to avoid duplicate entries for same user+job
+  // Upsert to avoid duplicate entries for same user+job. ignoreDuplicates so a
+  // later click-through never overwrites a native (internal_form) application.
   const { error } = await supabase.from('job_applications').upsert(
     {
       user_id: userId,
@@ -20,7 +40,7 @@ export async function logApplication(jobId: string) {
       platform_id: tenant.id,
       method: 'external_redirect',
     },
-    { onConflict: 'user_id,job_posting_id' }
+    { onConflict: 'user_id,job_posting_id', ignoreDuplicates: true }
   )
 
   if (error) {
@@ -32,6 +52,7 @@ export interface ApplicationWithDetails {
   id: string
   applied_at: string
   method: string | null
+  status: ApplicationStatus | null
   job: {
     id: string
     title: string
@@ -52,7 +73,7 @@ export async function getApplications(): Promise<ApplicationWithDetails[]> {
     .from('job_applications')
     .select(
       `
-      id, applied_at, method,
+      id, applied_at, method, status,
       job_postings!job_posting_id (
         id, title, slug, city, salary,
         companies!company_id ( name, slug )
@@ -77,6 +98,7 @@ export async function getApplications(): Promise<ApplicationWithDetails[]> {
       id: row.id as string,
       applied_at: row.applied_at as string,
       method: row.method as string | null,
+      status: row.status as ApplicationStatus | null,
       job: jobData
         ? {
             id: jobData.id as string,
@@ -91,3 +113,253 @@ export async function getApplications(): Promise<ApplicationWithDetails[]> {
     }
   })
 }
+
+export interface ApplicationFormResult {
+  ok: boolean
+  /** User-facing message (NL). */
+  message: string
+}
+
+/**
+ * Server action voor het sollicitatieformulier op /vacature/[slug]
+ * (method `internal_form`). Ook zonder account mogelijk.
+ *
+ * 1. Valideren (honeypot, velden, bestandstype en -grootte) + rate-limit per IP
+ * 2. CV (en optioneel motivatiebrief) naar de private bucket
+ * 3. Rij in `job_applications` met status `submitted`
+ * 4. Mail naar het werkgever-contact met bijlagen, reply-to = kandidaat;
+ *    bij succes status `forwarded`. Mislukt dat, dan gaan rij en uploads weer
+ *    weg en vragen we de kandidaat het opnieuw te proberen.
+ * 5. Bevestigingsmail naar de kandidaat
+ */
+export async function submitApplication(formData: FormData): Promise<ApplicationFormResult> {
+  const honeypot = formData.get('website')
+  if (typeof honeypot === 'string' && honeypot.trim() !== '') {
+    return { ok: true, message: 'Bedankt voor je sollicitatie.' }
+  }
+
+  const jobId = (formData.get('jobId') as string | null) ?? ''
+  const name = (formData.get('name') as string | null)?.trim() ?? ''
+  const email = (formData.get('email') as string | null)?.trim().toLowerCase() ?? ''
+  const phone = (formData.get('phone') as string | null)?.trim() || null
+  const motivation = (formData.get('motivation') as string | null)?.trim() || null
+  const cv = formData.get('cv')
+  const letter = formData.get('motivationFile')
+
+  if (!jobId || !name || !email) {
+    return { ok: false, message: 'Vul alstublieft alle verplichte velden in.' }
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { ok: false, message: 'Voer een geldig e-mailadres in.' }
+  }
+  if (name.length > 200 || (phone && phone.length > 40)) {
+    return { ok: false, message: 'Controleer je naam en telefoonnummer.' }
+  }
+  if (motivation && motivation.length > 5000) {
+    return { ok: false, message: 'Motivatie is te lang (max 5000 tekens).' }
+  }
+  if (!(cv instanceof File) || cv.size === 0) {
+    return { ok: false, message: 'Voeg je CV toe.' }
+  }
+  const letterFile = letter instanceof File && letter.size > 0 ? letter : null
+  const cvExt = uploadExtension(cv)
+  const letterExt = letterFile ? uploadExtension(letterFile) : null
+  if (!cvExt || (letterFile && !letterExt)) {
+    return { ok: false, message: 'Alleen PDF- of Word-bestanden zijn toegestaan.' }
+  }
+  if (cv.size + (letterFile?.size ?? 0) > MAX_UPLOAD_BYTES) {
+    return { ok: false, message: 'Bestanden zijn te groot (samen max 4 MB).' }
+  }
+
+  const headersList = await headers()
+  const ip =
+    headersList.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    headersList.get('x-real-ip') ||
+    'unknown'
+  if (!checkRateLimit(`apply:${ip}`)) {
+    return { ok: false, message: 'Te veel sollicitaties verstuurd. Probeer het later opnieuw.' }
+  }
+
+  const tenant = await getTenant()
+  if (!tenant) return { ok: false, message: 'Portaal niet gevonden.' }
+
+  const supabase = createApplicationServiceClient()
+  const { data: job } = await supabase
+    .from('job_postings')
+    .select('id, title, slug, company_id, companies!company_id ( name )')
+    .eq('id', jobId)
+    .eq('platform_id', tenant.id)
+    .eq('review_status', 'approved')
+    .is('archived_at', null)
+    .maybeSingle()
+  if (!job) return { ok: false, message: 'Deze vacature is niet meer beschikbaar.' }
+
+  const contact = await findEmployerContact(job.company_id as string | null)
+  if (!contact) {
+    return { ok: false, message: 'Solliciteren via deze site is voor deze vacature niet mogelijk.' }
+  }
+
+  const { userId } = await auth()
+  if (userId) {
+    const { data: existing } = await supabase
+      .from('job_applications')
+      .select('method')
+      .eq('user_id', userId)
+      .eq('job_posting_id', jobId)
+      .maybeSingle()
+    if (existing?.method === 'internal_form') {
+      return { ok: false, message: 'Je hebt al op deze vacature gesolliciteerd.' }
+    }
+  }
+
+  let cvPath: string
+  let letterPath: string | null = null
+  try {
+    cvPath = await storeApplicationFile(tenant.id, jobId, 'cv', cv, cvExt)
+    if (letterFile && letterExt) {
+      letterPath = await storeApplicationFile(tenant.id, jobId, 'motivatie', letterFile, letterExt)
+    }
+  } catch (err) {
+    console.error('[apply] upload mislukt:', err)
+    return { ok: false, message: 'Uploaden van je CV is mislukt. Probeer het later opnieuw.' }
+  }
+
+  const now = new Date().toISOString()
+  const row = {
+    user_id: userId,
+    job_posting_id: jobId,
+    platform_id: tenant.id,
+    method: 'internal_form',
+    status: 'submitted' as ApplicationStatus,
+    applied_at: now,
+    status_updated_at: now,
+    candidate_name: name,
+    candidate_email: email,
+    candidate_phone: phone,
+    motivation,
+    cv_path: cvPath,
+    motivation_path: letterPath,
+  }
+  // Ingelogd: een eerdere external_redirect-klik wordt de native sollicitatie.
+  const { data: application, error: insertError } = userId
+    ? await supabase
+        .from('job_applications')
+        .upsert(row, { onConflict: 'user_id,job_posting_id' })
+        .select('id')
+        .single()
+    : await supabase.from('job_applications').insert(row).select('id').single()
+  if (insertError || !application) {
+    console.error('[apply] opslaan mislukt:', insertError)
+    await removeApplicationFiles([cvPath, letterPath])
+    return { ok: false, message: 'Er ging iets mis. Probeer het later opnieuw.' }
+  }
+
+  const company = (Array.isArray(job.companies) ? job.companies[0] : job.companies) as
+    | { name: string }
+    | null
+  const mailInput = {
+    tenant,
+    baseUrl: tenantBaseUrl(tenant),
+    job: { id: job.id as string, title: job.title as string, slug: job.slug as string | null },
+    companyName: company?.name ?? 'de werkgever',
+    candidate: { name, email, phone },
+    motivation,
+  }
+  const resend = getResendClient()
+
+  try {
+    const mail = renderApplicationEmployerEmail(mailInput)
+    const attachments = [{ filename: `CV ${name}.${cvExt}`, content: Buffer.from(await cv.arrayBuffer()) }]
+    if (letterFile && letterExt) {
+      attachments.push({
+        filename: `Motivatie ${name}.${letterExt}`,
+        content: Buffer.from(await letterFile.arrayBuffer()),
+      })
+    }
+    const { error: sendError } = await resend.emails.send({
+      from: `${tenant.name} <${MAIL_FROM}>`,
+      to: contact.email,
+      replyTo: email,
+      subject: mail.subject,
+      html: mail.html,
+      text: mail.text,
+      attachments,
+    })
+    if (sendError) throw new Error(sendError.message)
+
+    await supabase
+      .from('job_applications')
+      .update({
+        status: 'forwarded',
+        forwarded_to: contact.email,
+        forwarded_at: new Date().toISOString(),
+        status_updated_at: new Date().toISOString(),
+      })
+      .eq('id', application.id)
+  } catch (err) {
+    // Niet doorgestuurd: rij en uploads weer weg, zodat een nieuwe poging niet op
+    // "al gesolliciteerd" stuit en er geen CV zonder sollicitatie achterblijft.
+    // Een eerdere external_redirect-klik van deze gebruiker gaat daarbij mee.
+    console.error('[apply] doorsturen naar werkgever mislukt:', err)
+    await supabase.from('job_applications').delete().eq('id', application.id)
+    await removeApplicationFiles([cvPath, letterPath])
+    return { ok: false, message: 'Er ging iets mis bij het versturen. Probeer het later opnieuw.' }
+  }
+
+  try {
+    const mail = renderApplicationConfirmEmail(mailInput)
+    await resend.emails.send({
+      from: `${tenant.name} <${MAIL_FROM}>`,
+      to: email,
+      subject: mail.subject,
+      html: mail.html,
+      text: mail.text,
+    })
+  } catch (err) {
+    console.error('[apply] bevestigingsmail mislukt:', err)
+  }
+
+  const attribution = (key: string) =>
+    (formData.get(`attribution_${key}`) as string | null)?.trim().slice(0, 100) || null
+  const { error: trackError } = await supabase.rpc('record_job_event', {
+    p_job: jobId,
+    p_kind: 'application',
+    p_platform_id: tenant.id,
+    p_source: attribution('source'),
+    p_utm_source: attribution('utm_source'),
+    p_utm_medium: attribution('utm_medium'),
+    p_utm_campaign: attribution('utm_campaign'),
+  })
+  if (trackError) console.error('[apply] track mislukt:', trackError.message)
+
+  revalidatePath('/account/sollicitaties')
+  return {
+    ok: true,
+    message: 'Bedankt, je sollicitatie is verstuurd. Je ontvangt een bevestiging per mail.',
+  }
+}
+
+/**
+ * Kandidaat trekt een native sollicitatie in (/account/sollicitaties). De
+ * werkgever ziet de status `withdrawn` in het werkgeversportaal.
+ */
+export async function withdrawApplication(applicationId: string) {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Not authenticated')
+
+  const now = new Date().toISOString()
+  const { error } = await createApplicationServiceClient()
+    .from('job_applications')
+    .update({ status: 'withdrawn', status_updated_at: now })
+    .eq('id', applicationId)
+    .eq('user_id', userId)
+    .eq('method', 'internal_form')
+    .in('status', WITHDRAWABLE_STATUSES)
+
+  if (error) {
+    console.error('Failed to withdraw application:', error)
+    throw new Error('Failed to withdraw application')
+  }
+
+  revalidatePath('/account/sollicitaties')
+}
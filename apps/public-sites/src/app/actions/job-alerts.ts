@@ -0,0 +1,276 @@
+'use server'
+
+import { headers } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { auth, currentUser } from '@clerk/nextjs/server'
+import { getTenant } from '@/lib/tenant'
+import { getResendClient, MAIL_FROM } from '@/lib/email'
+import { checkRateLimit } from '@/lib/contact-rate-limit'
+import { createJobAlertServiceClient } from '@/lib/supabase'
+import { renderAlertConfirmEmail } from '@/lib/job-alert-email'
+import {
+  ALERT_FREQUENCIES,
+  MAX_ALERTS_PER_EMAIL,
+  confirmAlertByToken,
+  describeAlertFilter,
+  findAlertByToken,
+  normalizeAlertFilter,
+  tenantBaseUrl,
+  unsubscribeAlertByToken,
+  type AlertFilter,
+  type AlertFrequency,
+} from '@/lib/job-alerts'
+
+export interface JobAlertResult {
+  ok: boolean
+  /** User-facing message (NL). */
+  message: string
+}
+
+export interface MyJobAlert {
+  id: string
+  filter: AlertFilter
+  label: string
+  frequency: AlertFrequency
+  status: 'pending' | 'active'
+  created_at: string
+}
+
+/** Geverifieerd Clerk-adres van de ingelogde gebruiker, anders null. */
+async function verifiedClerkEmail(): Promise<{ userId: string; email: string } | null> {
+  const { userId } = await auth()
+  if (!userId) return null
+  const user = await currentUser()
+  const primary = user?.primaryEmailAddress ?? user?.emailAddresses[0]
+  if (!primary || primary.verification?.status !== 'verified') return null
+  return { userId, email: primary.emailAddress.toLowerCase() }
+}
+
+/**
+ * Server action: bewaar het huidige zoekfilter als vacaturealert.
+ *
+ * - Ingelogd met geverifieerd adres: alert is direct actief.
+ * - Anders: alert blijft `pending` en we sturen een bevestigingsmail
+ *   (double opt-in). Zonder klik op de link wordt er niets verstuurd.
+ *
+ * Zelfde bescherming als het contactformulier: honeypot `website` en
+ * rate-limit per IP.
+ */
+export async function createJobAlert(formData: FormData): Promise<JobAlertResult> {
+  const honeypot = formData.get('website')
+  if (typeof honeypot === 'string' && honeypot.trim() !== '') {
+    return { ok: true, message: 'Check je inbox om je alert te bevestigen.' }
+  }
+
+  const tenant = await getTenant()
+  if (!tenant) return { ok: false, message: 'Portaal niet gevonden.' }
+
+  const frequencyRaw = formData.get('frequency')
+  const frequency = ALERT_FREQUENCIES.includes(frequencyRaw as AlertFrequency)
+    ? (frequencyRaw as AlertFrequency)
+    : 'daily'
+  const filter = normalizeAlertFilter({
+    q: formData.get('q'),
+    location: formData.get('location'),
+    type: formData.get('type'),
+    hours: formData.get('hours'),
+    education: formData.get('education'),
+    sector: formData.get('sector'),
+  })
+
+  const clerk = await verifiedClerkEmail()
+  const email = clerk?.email ?? ((formData.get('email') as string | null)?.trim().toLowerCase() ?? '')
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 254) {
+    return { ok: false, message: 'Voer een geldig e-mailadres in.' }
+  }
+
+  const headersList = await headers()
+  const ip =
+    headersList.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    headersList.get('x-real-ip') ||
+    'unknown'
+  if (!checkRateLimit(`alert:${ip}`)) {
+    return { ok: false, message: 'Te veel alerts aangemaakt. Probeer het later opnieuw.' }
+  }
+
+  const supabase = createJobAlertServiceClient()
+
+  const { count } = await supabase
+    .from('job_alerts')
+    .select('id', { count: 'exact', head: true })
+    .eq('platform_id', tenant.id)
+    .eq('email', email)
+    .neq('status', 'unsubscribed')
+  if ((count ?? 0) >= MAX_ALERTS_PER_EMAIL) {
+    return {
+      ok: false,
+      message: `Je hebt al ${MAX_ALERTS_PER_EMAIL} alerts. Verwijder er eerst een via je account of de afmeldlink.`,
+    }
+  }
+
+  const now = new Date().toISOString()
+  const active = clerk !== null
+  const row = {
+    platform_id: tenant.id,
+    user_id: clerk?.userId ?? null,
+    email,
+    filter,
+    frequency,
+    status: active ? 'active' : 'pending',
+    confirmed_at: active ? now : null,
+    cursor_published_at: active ? now : null,
+  }
+
+  const { data: inserted, error } = await supabase
+    .from('job_alerts')
+    .insert(row)
+    .select('id, confirm_token, status')
+    .single()
+
+  let alert = inserted as { id: string; confirm_token: string; status: string } | null
+  if (error) {
+    if (error.code !== '23505') {
+      console.error('[job-alerts] insert mislukt:', error)
+      return { ok: false, message: 'Er ging iets mis. Probeer het later opnieuw.' }
+    }
+    // Zelfde adres + filter bestaat al: heractiveren of opnieuw laten bevestigen.
+    const { data: existing } = await supabase
+      .from('job_alerts')
+      .select('id, confirm_token, status')
+      .eq('platform_id', tenant.id)
+      .eq('email', email)
+      .eq('filter', JSON.stringify(filter))
+      .maybeSingle()
+    if (!existing) return { ok: false, message: 'Er ging iets mis. Probeer het later opnieuw.' }
+    if (existing.status === 'active') {
+      return { ok: true, message: 'Je hebt al een alert voor deze zoekopdracht.' }
+    }
+    const { data: updated } = await supabase
+      .from('job_alerts')
+      .update({ ...row, unsubscribed_at: null, updated_at: now })
+      .eq('id', existing.id)
+      .select('id, confirm_token, status')
+      .single()
+    alert = updated
+  }
+
+  if (!alert) return { ok: false, message: 'Er ging iets mis. Probeer het later opnieuw.' }
+
+  if (alert.status === 'active') {
+    revalidatePath('/account/alerts')
+    return { ok: true, message: 'Alert aangemaakt. Je ontvangt nieuwe vacatures per mail.' }
+  }
+
+  try {
+    const baseUrl = tenantBaseUrl(tenant)
+    const mail = renderAlertConfirmEmail({
+      tenant,
+      baseUrl,
+      filterLabel: describeAlertFilter(filter),
+      confirmUrl: `${baseUrl}/vacaturealert/bevestigen?token=${alert.confirm_token}`,
+    })
+    await getResendClient().emails.send({
+      from: `${tenant.name} <${MAIL_FROM}>`,
+      to: email,
+      subject: mail.subject,
+      html: mail.html,
+      text: mail.text,
+    })
+  } catch (err) {
+    console.error('[job-alerts] bevestigingsmail mislukt:', err)
+    return { ok: false, message: 'Er ging iets mis bij het versturen. Probeer het later opnieuw.' }
+  }
+
+  return { ok: true, message: 'Check je inbox om je alert te bevestigen.' }
+}
+
+/**
+ * Knop op /vacaturealert/bevestigen. Bevestigen gebeurt pas op deze POST, niet
+ * bij het openen van de link. Daarna terug naar de pagina, die de nieuwe status toont.
+ */
+export async function confirmJobAlert(formData: FormData) {
+  const token = String(formData.get('token') ?? '')
+  const [tenant, alert] = await Promise.all([getTenant(), findAlertByToken('confirm', token)])
+  if (tenant && alert?.platform_id === tenant.id) await confirmAlertByToken(token)
+  redirect(`/vacaturealert/bevestigen?token=${encodeURIComponent(token)}`)
+}
+
+/** Knop op /vacaturealert/afmelden; mailclients gebruiken POST /api/job-alerts/unsubscribe. */
+export async function unsubscribeJobAlert(formData: FormData) {
+  const token = String(formData.get('token') ?? '')
+  const tenant = await getTenant()
+  if (tenant) await unsubscribeAlertByToken(token, tenant.id)
+  redirect(`/vacaturealert/afmelden?token=${encodeURIComponent(token)}`)
+}
+
+/** Alerts van de ingelogde gebruiker op dit portaal (account-pagina). */
+export async function getMyJobAlerts(): Promise<MyJobAlert[]> {
+  const clerk = await verifiedClerkEmail()
+  if (!clerk) return []
+
+  const tenant = await getTenant()
+  if (!tenant) return []
+
+  // Ook alerts die vóór het inloggen met hetzelfde adres zijn aangemaakt.
+  const supabase = createJobAlertServiceClient()
+  const { data, error } = await supabase
+    .from('job_alerts')
+    .select('id, filter, frequency, status, created_at')
+    .eq('platform_id', tenant.id)
+    .or(`user_id.eq.${clerk.userId},email.eq."${clerk.email}"`)
+    .neq('status', 'unsubscribed')
+    .order('created_at', { ascending: false })
+
+  if (error || !data) return []
+
+  return data.map((row) => ({
+    id: row.id as string,
+    filter: row.filter as AlertFilter,
+    label: describeAlertFilter(row.filter as AlertFilter),
+    frequency: row.frequency as AlertFrequency,
+    status: row.status as 'pending' | 'active',
+    created_at: row.created_at as string,
+  }))
+}
+
+/** Scope-filter zodat een gebruiker alleen zijn eigen alerts kan wijzigen. */
+async function ownAlertScope() {
+  const clerk = await verifiedClerkEmail()
+  if (!clerk) throw new Error('Not authenticated')
+  return `user_id.eq.${clerk.userId},email.eq."${clerk.email}"`
+}
+
+export async function deleteJobAlert(alertId: string) {
+  const scope = await ownAlertScope()
+  const now = new Date().toISOString()
+  const { error } = await createJobAlertServiceClient()
+    .from('job_alerts')
+    .update({ status: 'unsubscribed', unsubscribed_at: now, updated_at: now })
+    .eq('id', alertId)
+    .or(scope)
+
+  if (error) {
+    console.error('Failed to delete job alert:', error)
+    throw new Error('Failed to delete job alert')
+  }
+
+  revalidatePath('/account/alerts')
+}
+
+export async function updateJobAlertFrequency(alertId: string, frequency: AlertFrequency) {
+  if (!ALERT_FREQUENCIES.includes(frequency)) throw new Error('Invalid frequency')
+  const scope = await ownAlertScope()
+  const { error } = await createJobAlertServiceClient()
+    .from('job_alerts')
+    .update({ frequency, updated_at: new Date().toISOString() })
+    .eq('id', alertId)
+    .or(scope)
+
+  if (error) {
+    console.error('Failed to update job alert:', error)
+    throw new Error('Failed to update job alert')
+  }
+
+  revalidatePath('/account/alerts')
+}
@@ -0,0 +1,112 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@clerk/nextjs/server'
+import { getTenant } from '@/lib/tenant'
+import { getFilterFacets, resolveLocation } from '@/lib/queries'
+import { createJobAlertServiceClient } from '@/lib/supabase'
+import {
+  getJobSeekerProfile,
+  getRecommendedJobs,
+  normalizeJobSeekerProfile,
+  normalizePostcode,
+  type JobSeekerProfile,
+  type RecommendedJob,
+} from '@/lib/recommendations'
+
+export interface JobSeekerProfileResult {
+  ok: boolean
+  /** User-facing message (NL). */
+  message: string
+}
+
+/** Profiel van de ingelogde gebruiker op dit portaal, of null. */
+export async function getMyJobSeekerProfile(): Promise<JobSeekerProfile | null> {
+  const { userId } = await auth()
+  if (!userId) return null
+
+  const tenant = await getTenant()
+  if (!tenant) return null
+
+  try {
+    return await getJobSeekerProfile(createJobAlertServiceClient(), tenant.id, userId)
+  } catch (err) {
+    console.error('[job-seeker-profile] ophalen mislukt:', err)
+    return null
+  }
+}
+
+/**
+ * Server action: bewaar de voorkeuren van /account/profiel. Vakgebied en
+ * opleiding worden tegen de facetten van dit portaal gecontroleerd; de
+ * postcode wordt direct naar een punt omgezet voor de afstandsscore.
+ */
+export async function saveJobSeekerProfile(formData: FormData): Promise<JobSeekerProfileResult> {
+  const { userId } = await auth()
+  if (!userId) return { ok: false, message: 'Log in om je voorkeuren op te slaan.' }
+
+  const tenant = await getTenant()
+  if (!tenant) return { ok: false, message: 'Portaal niet gevonden.' }
+
+  const rawPostcode = (formData.get('postcode') as string | null)?.trim() ?? ''
+  if (rawPostcode && !normalizePostcode(rawPostcode)) {
+    return { ok: false, message: 'Voer een geldige postcode in, bijvoorbeeld 1234 AB.' }
+  }
+
+  const facets = await getFilterFacets(tenant.id)
+  const profile = normalizeJobSeekerProfile(
+    {
+      functions: formData.get('functions'),
+      sectors: formData.getAll('sectors'),
+      education_levels: formData.getAll('education_levels'),
+      hours: formData.get('hours'),
+      max_distance_km: formData.get('max_distance_km'),
+      postcode: rawPostcode,
+    },
+    {
+      sectors: facets.sector.map((f) => f.value),
+      education: facets.education.map((f) => f.value),
+    }
+  )
+
+  const home = profile.postcode ? await resolveLocation(profile.postcode) : null
+  if (profile.postcode && !home) {
+    return { ok: false, message: 'Deze postcode kennen we niet. Controleer hem en probeer opnieuw.' }
+  }
+
+  const { error } = await createJobAlertServiceClient()
+    .from('job_seeker_profiles')
+    .upsert(
+      {
+        platform_id: tenant.id,
+        user_id: userId,
+        ...profile,
+        home_latitude: home?.lat ?? null,
+        home_longitude: home?.lng ?? null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'platform_id,user_id' }
+    )
+
+  if (error) {
+    console.error('[job-seeker-profile] opslaan mislukt:', error)
+    return { ok: false, message: 'Er ging iets mis. Probeer het later opnieuw.' }
+  }
+
+  revalidatePath('/account')
+  revalidatePath('/account/profiel')
+  return { ok: true, message: 'Je voorkeuren zijn opgeslagen.' }
+}
+
+/** Aanbevolen vacatures voor de ingelogde gebruiker (accountpagina). */
+export async function getMyRecommendedJobs(limit = 5): Promise<RecommendedJob[]> {
+  const profile = await getMyJobSeekerProfile()
+  if (!profile) return []
+
+  try {
+    return await getRecommendedJobs(createJobAlertServiceClient(), profile, { limit })
+  } catch (err) {
+    console.error('[job-seeker-profile] aanbevelingen mislukt:', err)
+    return []
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { runJobAlertDigest, ALERT_FREQUENCIES, type AlertFrequency } from '@/lib/job-alerts'
+
+export const maxDuration = 300
+
+/**
+ * Vercel Cron: verstuurt vacaturealert-digests. Draait los per frequentie
+ * (`?frequency=instant` elk kwartier, `?frequency=daily` één keer per dag);
+ * zie `vercel.json`. Vercel stuurt `Authorization: Bearer $CRON_SECRET` mee.
+ */
+export async function GET(req: Request) {
+  const expected = process.env.CRON_SECRET
+  if (!expected) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET not configured on public-sites' },
+      { status: 500 }
+    )
+  }
+  if (req.headers.get('authorization') !== `Bearer ${expected}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const frequency = new URL(req.url).searchParams.get('frequency') as AlertFrequency | null
+  if (!frequency || !ALERT_FREQUENCIES.includes(frequency)) {
+    return NextResponse.json({ error: 'Invalid frequency' }, { status: 400 })
+  }
+
+  try {
+    const stats = await runJobAlertDigest(frequency, { maxMs: 240_000 })
+    console.log(`[job-alerts] digest ${frequency}:`, stats)
+    return NextResponse.json({ frequency, ...stats, timestamp: new Date().toISOString() })
+  } catch (err) {
+    console.error('[job-alerts] digest mislukt:', err)
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { unsubscribeAlertByToken } from '@/lib/job-alerts'
+import { getTenant } from '@/lib/tenant'
+
+/**
+ * RFC 8058 one-click unsubscribe: mailclients (Gmail, Apple Mail) POSTen
+ * `List-Unsubscribe=One-Click` naar de URL uit de `List-Unsubscribe`-header.
+ */
+export async function POST(req: Request) {
+  const token = new URL(req.url).searchParams.get('token') ?? ''
+  const tenant = await getTenant()
+  const alert = tenant ? await unsubscribeAlertByToken(token, tenant.id) : null
+  if (!alert) {
+    return NextResponse.json({ error: 'Unknown token' }, { status: 404 })
+  }
+  return NextResponse.json({ unsubscribed: true })
+}
+
+/** Clients die de header als gewone link openen: door naar de afmeldpagina. */
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const target = new URL('/vacaturealert/afmelden', url)
+  target.searchParams.set('token', url.searchParams.get('token') ?? '')
+  return NextResponse.redirect(target, 303)
+}
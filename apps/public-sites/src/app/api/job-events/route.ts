@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { createPublicClient } from '@/lib/supabase'
+import { getTenant } from '@/lib/tenant'
+
+export const dynamic = 'force-dynamic'
+
+const KINDS = ['view', 'apply_click', 'save', 'share'] as const
+const BOT_UA = /bot|crawl|spider|slurp|preview|headless|lighthouse/i
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Korte attributiewaarde of null; de RPC normaliseert verder. */
+function attributionValue(v: unknown): string | null {
+  if (typeof v !== 'string') return null
+  const t = v.trim().slice(0, 100)
+  return t || null
+}
+
+/**
+ * POST /api/job-events
+ * `{ jobId, kind: 'view' | 'apply_click' | 'save' | 'share', source?, utm_source?, utm_medium?, utm_campaign? }`
+ *
+ * Beacon vanaf de publieke sites (`trackJobEvent`). Telt via de RPC
+ * `record_job_event` per portaal, bron en UTM in `job_event_daily` (admin-
+ * dashboard) en, voor views en kliks, in `job_posting_stats`
+ * (werkgeversportaal). Bots tellen niet mee. Altijd 204, tracking mag de
+ * pagina nooit breken.
+ */
+export async function POST(req: Request) {
+  if (BOT_UA.test(req.headers.get('user-agent') ?? '')) {
+    return new NextResponse(null, { status: 204 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = (await req.json()) as Record<string, unknown>
+  } catch {
+    return new NextResponse(null, { status: 204 })
+  }
+
+  const { jobId, kind } = body
+  if (
+    typeof jobId !== 'string' ||
+    !UUID_RE.test(jobId) ||
+    !KINDS.includes(kind as (typeof KINDS)[number])
+  ) {
+    return new NextResponse(null, { status: 204 })
+  }
+
+  const tenant = await getTenant()
+  const { error } = await createPublicClient().rpc('record_job_event', {
+    p_job: jobId,
+    p_kind: kind,
+    p_platform_id: tenant?.id ?? null,
+    p_source: attributionValue(body.source),
+    p_utm_source: attributionValue(body.utm_source),
+    p_utm_medium: attributionValue(body.utm_medium),
+    p_utm_campaign: attributionValue(body.utm_campaign),
+  })
+  if (error) console.error('[job-events] track mislukt:', error.message)
+
+  return new NextResponse(null, { status: 204 })
+}
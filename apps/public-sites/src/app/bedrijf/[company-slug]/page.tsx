@@ -181,6 +181,19 @@ export default async function CompanyPage({ params, searchParams }: CompanyPageP
             body="Er zijn momenteel geen openstaande posities. Kom binnenkort terug, er komen regelmatig nieuwe vacatures bij."
           />
         )}
+
+        {process.env.EMPLOYER_PORTAL_URL && (
+          <p className="m-0 mt-10 text-meta font-light text-muted">
+            Werk je bij {company.name}?{' '}
+            <a
+              href={`${process.env.EMPLOYER_PORTAL_URL}/claimen?slug=${encodeURIComponent(companySlug)}`}
+              className="text-secondary hover:underline underline-offset-2"
+              rel="nofollow"
+            >
+              Beheer dit bedrijfsprofiel
+            </a>
+          </p>
+        )}
       </main>
 
       <SiteFooter tenant={tenant} cities={cities} />
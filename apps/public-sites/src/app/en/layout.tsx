@@ -0,0 +1,7 @@
+/**
+ * Engelstalige pagina's voor internationale kandidaten. De root-layout zet
+ * `<html lang="nl">`; hier markeert `lang` de inhoud als Engels.
+ */
+export default function EnglishLayout({ children }: { children: React.ReactNode }) {
+  return <div lang="en">{children}</div>
+}
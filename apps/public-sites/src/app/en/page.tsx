@@ -0,0 +1,6 @@
+import { redirect } from 'next/navigation'
+
+/** `/en` heeft (nog) geen eigen homepage: door naar het Engelse vacature-overzicht. */
+export default function EnglishHomePage() {
+  redirect('/en/vacatures')
+}
@@ -0,0 +1,223 @@
+import { notFound, redirect } from 'next/navigation'
+import Image from 'next/image'
+import type { Metadata } from 'next'
+import { getTenant } from '@/lib/tenant'
+import {
+  getJobBySlug,
+  getCitiesWithJobCounts,
+} from '@/lib/queries'
+import { applyTranslation, getEnglishJobs, getJobTranslation } from '@/lib/job-translations'
+import { jobLanguageAlternates, jobPath } from '@/lib/i18n'
+import { findEmployerContact } from '@/lib/applications'
+import { unwrapDescription } from '@/lib/utils'
+import { buildJobPostingSchema, buildJobPostingInput, buildBreadcrumbSchema } from '@lokale-banen/shared'
+import {
+  SiteHeader,
+  SiteFooter,
+  Breadcrumbs,
+  JobDetail,
+  ApplyButton,
+  JobViewTracker,
+} from '@/components/eyeron'
+
+interface EnglishJobPageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * Engelse vacature, alleen voor actieve English-friendly vacatures. Zonder
+ * vlag bestaat de pagina niet; gearchiveerd gaat naar de Nederlandse pagina,
+ * die de grace-periode en de 410/308 afhandelt.
+ */
+async function getEnglishJob(tenantId: string, slug: string) {
+  const job = await getJobBySlug(tenantId, slug)
+  if (!job || !job.english_friendly) return null
+  const translation = job.archived_at ? null : await getJobTranslation(tenantId, job.id)
+  return applyTranslation(job, translation)
+}
+
+export async function generateMetadata({ params }: EnglishJobPageProps): Promise<Metadata> {
+  const [{ slug }, tenant] = await Promise.all([params, getTenant()])
+  if (!tenant || tenant.tier === 'master') return {}
+
+  const job = await getEnglishJob(tenant.id, slug)
+  if (!job || job.archived_at) return {}
+
+  const companyName = job.company?.name || ''
+  const title = companyName
+    ? `${job.title} at ${companyName} | ${tenant.name}`
+    : `${job.title} | ${tenant.name}`
+
+  const rawText = (job.seo_description || unwrapDescription(job.description) || '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  const description =
+    rawText.length > 160
+      ? rawText.slice(0, 157) + '...'
+      : rawText || `View the job ${job.title} at ${companyName}`
+
+  const effectiveDomain = tenant.domain ?? tenant.preview_domain
+  const baseUrl = effectiveDomain ? `https://${effectiveDomain}` : undefined
+  const canonicalUrl = baseUrl ? `${baseUrl}${jobPath(slug, 'en')}` : undefined
+  const isExpired = !!(job.end_date && new Date(job.end_date) < new Date())
+
+  const headerImage = job.header_image_url?.trim() || null
+  const ogImages = headerImage
+    ? [{ url: headerImage, width: 1600, height: 900 }]
+    : tenant.og_image_url
+    ? [{ url: tenant.og_image_url }]
+    : undefined
+
+  return {
+    title,
+    description,
+    robots: isExpired ? { index: false, follow: false } : undefined,
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      url: canonicalUrl,
+      publishedTime: job.published_at || undefined,
+      siteName: tenant.name,
+      locale: 'en_GB',
+      images: ogImages,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: ogImages?.map((i) => i.url),
+    },
+    alternates: baseUrl
+      ? { canonical: canonicalUrl, languages: jobLanguageAlternates(baseUrl, slug) }
+      : undefined,
+  }
+}
+
+export default async function EnglishJobPage({ params }: EnglishJobPageProps) {
+  const [{ slug }, tenant] = await Promise.all([params, getTenant()])
+  if (!tenant || tenant.tier === 'master') notFound()
+
+  const job = await getEnglishJob(tenant.id, slug)
+  if (!job) notFound()
+  if (job.archived_at) redirect(jobPath(slug))
+
+  const isExpired = !!(job.end_date && new Date(job.end_date) < new Date())
+
+  const [englishJobs, cities, employerContact] = await Promise.all([
+    getEnglishJobs(tenant.id),
+    getCitiesWithJobCounts(tenant.id),
+    // Fout bij het ophalen = gewoon de externe sollicitatielink tonen.
+    findEmployerContact(job.company_id).catch(() => null),
+  ])
+  const nativeApply = employerContact !== null
+  // Alleen English-friendly vacatures hebben een /en-pagina; die uit
+  // dezelfde plaats eerst.
+  const relatedJobs = englishJobs.jobs
+    .filter((j) => j.id !== job.id)
+    .sort((a, b) => Number(b.city === job.city) - Number(a.city === job.city))
+
+  const effectiveDomain = tenant.domain ?? tenant.preview_domain
+  const baseUrl = effectiveDomain ? `https://${effectiveDomain}` : ''
+  const pagePath = jobPath(slug, 'en')
+
+  const breadcrumbJsonLd = buildBreadcrumbSchema(
+    baseUrl
+      ? [
+          { name: tenant.name, url: `${baseUrl}/` },
+          { name: 'English-friendly jobs', url: `${baseUrl}/en/vacatures` },
+          { name: job.title, url: `${baseUrl}${pagePath}` },
+        ]
+      : []
+  )
+
+  const jsonLd = {
+    ...buildJobPostingSchema(
+      buildJobPostingInput(job, {
+        locale: 'en',
+        identifierName: tenant.name,
+        nativeApply,
+      }).input
+    ),
+    ...(job.header_image_url?.trim() ? { image: job.header_image_url.trim() } : {}),
+  }
+
+  const pageUrl = baseUrl ? `${baseUrl}${pagePath}` : pagePath
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader tenant={tenant} locale="en" alternate={{ locale: 'nl', href: jobPath(slug) }} />
+
+      <main className="flex-1 max-w-content mx-auto w-full px-pad py-8 pb-24 lg:pb-8">
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(jsonLd).replace(/</g, '\\u003c'),
+          }}
+        />
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(breadcrumbJsonLd).replace(/</g, '\\u003c'),
+          }}
+        />
+
+        <Breadcrumbs
+          className="mb-6"
+          locale="en"
+          items={[
+            { label: tenant.name, href: '/' },
+            { label: 'English-friendly jobs', href: '/en/vacatures' },
+            { label: job.title },
+          ]}
+        />
+
+        {job.header_image_url?.trim() && (
+          <div className="relative w-full aspect-[16/9] mb-8 overflow-hidden">
+            <Image
+              src={job.header_image_url.trim()}
+              alt={job.title}
+              fill
+              priority
+              sizes="(max-width: 1280px) 100vw, 1280px"
+              className="object-cover"
+            />
+          </div>
+        )}
+
+        <p className="m-0 mb-6 text-meta text-muted">
+          {job.translated
+            ? 'This job posting was machine-translated from Dutch. '
+            : 'This job posting is not yet available in English and is shown in Dutch. '}
+          English-speaking candidates are welcome.{' '}
+          <a href={jobPath(slug)} hrefLang="nl" className="text-secondary hover:underline underline-offset-2">
+            View the original Dutch version
+          </a>
+          .
+        </p>
+
+        <JobViewTracker jobId={job.id} />
+        <JobDetail
+          job={job}
+          relatedJobs={relatedJobs}
+          pageUrl={pageUrl}
+          nativeApply={nativeApply}
+          locale="en"
+        />
+      </main>
+
+      <SiteFooter tenant={tenant} cities={cities} locale="en" />
+
+      {/* Sticky bottom apply CTA - mobile + tablet (sidebar heeft eigen CTA op desktop) */}
+      <ApplyButton
+        jobUrl={job.url}
+        jobId={job.id}
+        jobTitle={job.title}
+        isExpired={isExpired}
+        nativeApply={nativeApply}
+        locale="en"
+      />
+    </div>
+  )
+}
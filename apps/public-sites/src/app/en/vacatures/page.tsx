@@ -0,0 +1,140 @@
+import { notFound } from 'next/navigation'
+import type { Metadata } from 'next'
+import { getTenant } from '@/lib/tenant'
+import { getCitiesWithJobCounts } from '@/lib/queries'
+import { EN_JOBS_PER_PAGE, getEnglishJobs } from '@/lib/job-translations'
+import { jobPath } from '@/lib/i18n'
+import { buildBreadcrumbSchema, buildItemListSchema } from '@lokale-banen/shared'
+import {
+  SiteHeader,
+  SiteFooter,
+  Breadcrumbs,
+  PageHero,
+  VacatureCard,
+  Pagination,
+  EmptyState,
+  PillButton,
+} from '@/components/eyeron'
+
+interface EnglishJobsPageProps {
+  searchParams: Promise<{ page?: string }>
+}
+
+export async function generateMetadata({ searchParams }: EnglishJobsPageProps): Promise<Metadata> {
+  const [sp, tenant] = await Promise.all([searchParams, getTenant()])
+  if (!tenant || tenant.tier === 'master') return {}
+
+  const page = parseInt(sp.page || '1', 10) || 1
+  const hostDomain = tenant.domain ?? tenant.preview_domain ?? ''
+  const canonicalBase = hostDomain ? `https://${hostDomain}/en/vacatures` : '/en/vacatures'
+  const canonical = page > 1 ? `${canonicalBase}?page=${page}` : canonicalBase
+  const title = page > 1
+    ? `English-friendly jobs, page ${page} | ${tenant.name}`
+    : `English-friendly jobs | ${tenant.name}`
+  const description = `Jobs at local employers where English-speaking candidates are welcome. Browse the current openings at ${tenant.name}.`
+
+  return {
+    title,
+    description,
+    alternates: { canonical },
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      url: canonical,
+      siteName: tenant.name,
+      locale: 'en_GB',
+    },
+  }
+}
+
+export default async function EnglishJobsPage({ searchParams }: EnglishJobsPageProps) {
+  const [sp, tenant] = await Promise.all([searchParams, getTenant()])
+  if (!tenant || tenant.tier === 'master') notFound()
+
+  const pageNum = parseInt(sp.page || '1', 10)
+  const page = isNaN(pageNum) || pageNum < 1 ? 1 : pageNum
+
+  const [{ jobs, total }, cities] = await Promise.all([
+    getEnglishJobs(tenant.id, page),
+    getCitiesWithJobCounts(tenant.id),
+  ])
+  const totalPages = Math.max(1, Math.ceil(total / EN_JOBS_PER_PAGE))
+  if (page > 1 && page > totalPages) notFound()
+
+  const hostDomain = tenant.domain ?? tenant.preview_domain ?? ''
+  const baseUrl = hostDomain ? `https://${hostDomain}` : ''
+  const breadcrumbJsonLd = buildBreadcrumbSchema([
+    { name: tenant.name, url: `${baseUrl}/` },
+    { name: 'English-friendly jobs', url: `${baseUrl}/en/vacatures` },
+  ])
+  const itemListJsonLd = buildItemListSchema({
+    name: `English-friendly jobs at ${tenant.name}`,
+    description: `${total} jobs where English-speaking candidates are welcome`,
+    url: `${baseUrl}/en/vacatures`,
+    numberOfItems: jobs.length,
+    items: jobs.map((job) => ({
+      name: job.title,
+      url: `${baseUrl}${jobPath(job.slug || job.id, 'en')}`,
+    })),
+  })
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader tenant={tenant} locale="en" alternate={{ locale: 'nl', href: '/vacatures' }} />
+
+      <main className="flex-1 max-w-content mx-auto w-full px-pad py-8">
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(breadcrumbJsonLd).replace(/</g, '\\u003c'),
+          }}
+        />
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(itemListJsonLd).replace(/</g, '\\u003c'),
+          }}
+        />
+
+        <Breadcrumbs
+          className="mb-5"
+          locale="en"
+          items={[
+            { label: tenant.name, href: '/' },
+            { label: 'English-friendly jobs' },
+          ]}
+        />
+
+        <PageHero
+          eyebrow="For international candidates"
+          title="English-friendly jobs"
+          accent="English-friendly"
+          description={`${total.toLocaleString('en-GB')} job${total !== 1 ? 's' : ''} at local employers where English-speaking candidates are welcome. Job descriptions are machine-translated from Dutch.`}
+        />
+
+        {jobs.length > 0 ? (
+          <div className="flex flex-col gap-s3">
+            {jobs.map((job) => (
+              <VacatureCard key={job.id} job={job} locale="en" />
+            ))}
+          </div>
+        ) : (
+          <EmptyState
+            title="No English-friendly jobs right now"
+            body="New jobs are added every day. In the meantime you can browse all jobs on this site (in Dutch)."
+            action={
+              <PillButton href="/vacatures" variant="primary">
+                View all jobs
+              </PillButton>
+            }
+          />
+        )}
+
+        <Pagination currentPage={page} totalPages={totalPages} basePath="/en/vacatures" locale="en" />
+      </main>
+
+      <SiteFooter tenant={tenant} cities={cities} locale="en" />
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from 'next/server'
+import { getTenant } from '@/lib/tenant'
+import { jobFeedResponse } from '@/lib/job-feed'
+
+/**
+ * /feeds/vacatures.json - JSON-variant van de vacaturefeed (zelfde set en
+ * velden als /feeds/vacatures.xml, met gestructureerd salaris en locatie).
+ */
+export async function GET(req: NextRequest) {
+  return jobFeedResponse(req, await getTenant(), 'json')
+}
@@ -0,0 +1,12 @@
+import type { NextRequest } from 'next/server'
+import { getTenant } from '@/lib/tenant'
+import { jobFeedResponse } from '@/lib/job-feed'
+
+/**
+ * /feeds/vacatures.xml - vacaturefeed in Indeed XML-formaat per tenant,
+ * voor aggregators (Indeed, Google, Jooble). `?source=jooble` zet de
+ * utm_source op de vacature-URL's. Ondersteunt ETag/Last-Modified.
+ */
+export async function GET(req: NextRequest) {
+  return jobFeedResponse(req, await getTenant(), 'xml')
+}
@@ -6,6 +6,7 @@ import { Analytics } from '@vercel/analytics/next'
 import { SpeedInsights } from '@vercel/speed-insights/next'
 import { buildTenantThemeCss } from '@/lib/theme'
 import { CookieConsent } from '@/components/cookie-consent'
+import { AttributionCapture } from '@/components/attribution-capture'
 import './globals.css'
 
 /**
@@ -131,6 +132,7 @@ export default function RootLayout({
           <>
             {children}
             <CookieConsent />
+            <AttributionCapture />
           </>
         </ClerkProvider>
         <Analytics />
@@ -104,6 +104,7 @@ export async function GET(req: NextRequest) {
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .not('slug', 'is', null)
+    .is('canonical_id', null)
     .order('published_at', { ascending: false })
     .limit(50)
 
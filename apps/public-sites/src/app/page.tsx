@@ -2,6 +2,9 @@ import type { Metadata } from 'next'
 import { redirect } from 'next/navigation'
 import { connection } from 'next/server'
 import { getTenant } from '@/lib/tenant'
+import { normalizeAlertFilter, describeAlertFilter } from '@/lib/job-alerts'
+import { parseRadius } from '@/lib/radius'
+import { parseSalaryMin } from '@/lib/salary'
 import { buildWebSiteSchema } from '@lokale-banen/shared'
 import {
   getJobCount,
@@ -21,10 +24,11 @@ import {
   FilterPanel,
   SortToolbar,
   MobileBottomBar,
+  JobAlertForm,
 } from '@/components/eyeron'
 import { MasterHomepage } from '@/components/eyeron/master-homepage'
 
-const VALID_SORTS = ['newest', 'salary_desc', 'oldest', 'nearest'] as const
+const VALID_SORTS = ['relevance', 'newest', 'salary_desc', 'oldest', 'nearest'] as const
 type ValidSort = (typeof VALID_SORTS)[number]
 
 export async function generateMetadata(): Promise<Metadata> {
@@ -61,6 +65,7 @@ interface HomePageProps {
     education?: string
     sector?: string
     distance?: string
+    salary?: string
     page?: string
     selected?: string
     sort?: string
@@ -109,9 +114,10 @@ export default async function HomePage({ searchParams }: HomePageProps) {
   }
 
   // ─── Regio branch ───────────────────────────────────────────────────────
+  // Met een zoekterm is relevantie de standaardvolgorde.
   const sort: SortOption = VALID_SORTS.includes(params.sort as ValidSort)
     ? (params.sort as SortOption)
-    : 'newest'
+    : params.q?.trim() ? 'relevance' : 'newest'
   const pageNum = parseInt(params.page || '1', 10)
   const page = isNaN(pageNum) || pageNum < 1 ? 1 : pageNum
 
@@ -120,6 +126,9 @@ export default async function HomePage({ searchParams }: HomePageProps) {
   const educationValues = params.education?.split(',')
   const sectorValues = params.sector?.split(',')
 
+  const radiusKm = parseRadius(params.distance)
+  const salaryMin = parseSalaryMin(params.salary)
+
   const filter: JobFilter = {
     query: params.q,
     location: params.location,
@@ -131,6 +140,8 @@ export default async function HomePage({ searchParams }: HomePageProps) {
     sort,
     userLat: userLat && !isNaN(userLat) ? userLat : undefined,
     userLng: userLng && !isNaN(userLng) ? userLng : undefined,
+    radiusKm,
+    salaryMin,
   }
 
   const [totalJobsUnfiltered, totalJobsFiltered, facets, cities] = await Promise.all([
@@ -144,10 +155,15 @@ export default async function HomePage({ searchParams }: HomePageProps) {
     (params.type ? params.type.split(',').length : 0) +
     (params.hours ? params.hours.split(',').length : 0) +
     (educationValues?.length || 0) +
-    (sectorValues?.length || 0)
+    (sectorValues?.length || 0) +
+    (radiusKm ? 1 : 0) +
+    (salaryMin ? 1 : 0)
 
   const region = tenant.central_place || stripBanenSuffix(tenant.name)
-  const hasLocation = userLat != null && userLng != null
+  const alertFilter = normalizeAlertFilter(params)
+  const hasGeolocation = filter.userLat != null && filter.userLng != null
+  // "Dichtstbij" kan vanaf de geolocatie of een getypte postcode/plaats.
+  const hasLocation = hasGeolocation || !!params.location
 
   // JSON-LD WebSite-schema voor sitelinks searchbox
   const baseUrl = tenant.domain ? `https://${tenant.domain}` : ''
@@ -167,6 +183,10 @@ export default async function HomePage({ searchParams }: HomePageProps) {
     activeHours: params.hours,
     activeEducation: params.education,
     activeSector: params.sector,
+    activeLocation: params.location,
+    activeDistance: radiusKm ? String(radiusKm) : undefined,
+    hasGeolocation,
+    activeSalary: salaryMin ? String(salaryMin) : undefined,
   }
 
   return (
@@ -205,6 +225,8 @@ export default async function HomePage({ searchParams }: HomePageProps) {
             />
 
             <JobList tenantId={tenant.id} filter={filter} />
+
+            <JobAlertForm filter={alertFilter} filterLabel={describeAlertFilter(alertFilter)} />
           </div>
 
           <aside
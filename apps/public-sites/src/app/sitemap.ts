@@ -2,6 +2,8 @@ import type { MetadataRoute } from 'next'
 import { headers } from 'next/headers'
 import { createPublicClient } from '@/lib/supabase'
 import { getCitiesWithJobCounts } from '@/lib/queries'
+import { getFunctionCityLandings } from '@/lib/function-landings'
+import { jobLanguageAlternates, jobPath } from '@/lib/i18n'
 
 /**
  * Dynamic sitemap generation per tenant.
@@ -80,12 +82,13 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   // Fetch all approved, published job slugs with dates for this tenant
   const { data: jobs } = await supabase
     .from('job_postings')
-    .select('slug, published_at')
+    .select('slug, published_at, english_friendly')
     .eq('platform_id', tenant.id)
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .not('slug', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .order('published_at', { ascending: false })
     .limit(50000)
 
@@ -113,6 +116,17 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     })
   }
 
+  // Functie x plaats-landingspagina's (alleen boven MIN_LANDING_JOBS)
+  const landings = await getFunctionCityLandings(tenant.id)
+  for (const { citySlug, functionSlug } of landings) {
+    entries.push({
+      url: `${baseUrl}/vacatures/${citySlug}/${functionSlug}`,
+      lastModified: new Date(),
+      changeFrequency: 'daily',
+      priority: 0.7,
+    })
+  }
+
   // Company pages (companies with active jobs on this tenant)
   const { data: companySlugs } = await supabase
     .from('job_postings')
@@ -122,6 +136,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     .not('published_at', 'is', null)
     .not('company_id', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .limit(50000)
 
   if (companySlugs) {
@@ -142,17 +157,45 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   }
 
   if (jobs) {
+    let hasEnglish = false
     for (const job of jobs) {
       const publishedDate = new Date(job.published_at)
       const daysSincePublished = Math.floor(
         (Date.now() - publishedDate.getTime()) / 86400000
       )
+      const changeFrequency = daysSincePublished < 7 ? 'daily' : 'weekly'
+      const priority = daysSincePublished < 3 ? 0.9 : daysSincePublished < 14 ? 0.7 : 0.5
+
+      // English-friendly: beide taalversies, met elkaar als hreflang-alternate.
+      const alternates = job.english_friendly
+        ? { languages: jobLanguageAlternates(baseUrl, job.slug) }
+        : undefined
 
       entries.push({
-        url: `${baseUrl}/vacature/${job.slug}`,
+        url: `${baseUrl}${jobPath(job.slug)}`,
         lastModified: publishedDate,
-        changeFrequency: daysSincePublished < 7 ? 'daily' : 'weekly',
-        priority: daysSincePublished < 3 ? 0.9 : daysSincePublished < 14 ? 0.7 : 0.5,
+        changeFrequency,
+        priority,
+        alternates,
+      })
+      if (job.english_friendly) {
+        hasEnglish = true
+        entries.push({
+          url: `${baseUrl}${jobPath(job.slug, 'en')}`,
+          lastModified: publishedDate,
+          changeFrequency,
+          priority,
+          alternates,
+        })
+      }
+    }
+
+    if (hasEnglish) {
+      entries.push({
+        url: `${baseUrl}/en/vacatures`,
+        lastModified: new Date(),
+        changeFrequency: 'daily',
+        priority: 0.6,
       })
     }
   }
@@ -1,18 +1,21 @@
 import { notFound, redirect } from 'next/navigation'
 import Image from 'next/image'
+import Link from 'next/link'
 import type { Metadata } from 'next'
 import { getTenant } from '@/lib/tenant'
 import {
   getJobBySlug,
   getMasterJobBySlug,
   getRelatedJobs,
-  parseSalary,
-  mapEmploymentType,
   getCitiesWithJobCounts,
 } from '@/lib/queries'
 import { getCanonicalInfo } from '@/lib/canonical'
+import { archiveState } from '@/lib/job-archive'
+import { getFunctionCityLandings, matchFunctionCategories } from '@/lib/function-landings'
+import { jobLanguageAlternates } from '@/lib/i18n'
+import { findEmployerContact } from '@/lib/applications'
 import { unwrapDescription } from '@/lib/utils'
-import { buildJobPostingSchema, buildBreadcrumbSchema } from '@lokale-banen/shared'
+import { buildJobPostingSchema, buildJobPostingInput, buildBreadcrumbSchema } from '@lokale-banen/shared'
 import { slugifyCity } from '@lokale-banen/database'
 import {
   SiteHeader,
@@ -20,16 +23,14 @@ import {
   Breadcrumbs,
   JobDetail,
   ApplyButton,
+  JobViewTracker,
+  VacatureCard,
 } from '@/components/eyeron'
 
 interface JobPageProps {
   params: Promise<{ slug: string }>
 }
 
-/** Grace-window: gearchiveerde detail-pagina blijft 30 dagen bereikbaar
- *  met noindex + "afgelopen"-bordje voordat hij 404 gaat. */
-const ARCHIVE_GRACE_MS = 30 * 86_400_000
-
 export async function generateMetadata({ params }: JobPageProps): Promise<Metadata> {
   const [{ slug }, tenant] = await Promise.all([params, getTenant()])
   if (!tenant) return {}
@@ -61,10 +62,14 @@ export async function generateMetadata({ params }: JobPageProps): Promise<Metada
     (effectiveDomain ? `https://${effectiveDomain}/vacature/${slug}` : undefined)
   const ogUrl = effectiveDomain ? `https://${effectiveDomain}/vacature/${slug}` : undefined
   const isExpired = !!(job.end_date && new Date(job.end_date) < new Date())
-  const isArchived = !!job.archived_at
-  const archivedNoindex =
-    isArchived &&
-    new Date(job.archived_at!).getTime() > Date.now() - ARCHIVE_GRACE_MS
+  // Gearchiveerd binnen de grace-periode: noindex, maar links naar de
+  // gerelateerde vacatures wel volgen.
+  const archivedNoindex = archiveState(job.archived_at) === 'grace'
+  // English-friendly: de Engelse pagina als hreflang-alternate.
+  const languages =
+    job.english_friendly && !job.archived_at && effectiveDomain
+      ? jobLanguageAlternates(`https://${effectiveDomain}`, slug)
+      : undefined
 
   const headerImage = job.header_image_url?.trim() || null
   const ogImages = headerImage
@@ -76,7 +81,11 @@ export async function generateMetadata({ params }: JobPageProps): Promise<Metada
   return {
     title,
     description,
-    robots: isExpired || archivedNoindex ? { index: false, follow: false } : undefined,
+    robots: archivedNoindex
+      ? { index: false, follow: true }
+      : isExpired
+      ? { index: false, follow: false }
+      : undefined,
     openGraph: {
       title,
       description,
@@ -96,6 +105,7 @@ export async function generateMetadata({ params }: JobPageProps): Promise<Metada
       ? {
           canonical: canonicalUrl,
           types: { 'text/markdown': `${canonicalUrl}/md` },
+          languages,
         }
       : undefined,
   }
@@ -109,11 +119,9 @@ export default async function JobPage({ params }: JobPageProps) {
   if (tenant.tier === 'master') {
     const masterJob = await getMasterJobBySlug(slug)
     if (!masterJob) notFound()
-    // Permanent gone (>30d archived) → 404 ipv 301 → 404 round-trip via regio-host.
-    // 0-30d grace: laat redirect doorgaan zodat regio-host het amber-bordje toont.
-    const masterArchivedAt = masterJob.archived_at ? new Date(masterJob.archived_at) : null
-    const masterArchiveAge = masterArchivedAt ? Date.now() - masterArchivedAt.getTime() : 0
-    if (masterArchivedAt && masterArchiveAge >= ARCHIVE_GRACE_MS) {
+    // Permanent gone (na de grace-periode) → 404 ipv 301 → 410 round-trip via regio-host.
+    // Binnen de grace: laat redirect doorgaan zodat regio-host het amber-bordje toont.
+    if (archiveState(masterJob.archived_at) === 'gone') {
       notFound()
     }
     const primaryDomain =
@@ -125,49 +133,42 @@ export default async function JobPage({ params }: JobPageProps) {
   const job = await getJobBySlug(tenant.id, slug)
   if (!job) notFound()
 
-  // Drie-staten archief: actief / grace 30d / permanent gone
-  const archivedAt = job.archived_at ? new Date(job.archived_at) : null
-  const archiveAgeMs = archivedAt ? Date.now() - archivedAt.getTime() : 0
-  const isInGrace = archivedAt && archiveAgeMs < ARCHIVE_GRACE_MS
-  const isPermanentlyGone = archivedAt && !isInGrace
+  // Drie-staten archief: actief / grace / permanent gone (zie lib/job-archive)
+  const archive = archiveState(job.archived_at)
+  const isInGrace = archive === 'grace'
 
-  // Permanent gone - Next.js heeft geen native 410, dus 404 (Google
-  // de-indexeert beide statussen).
-  if (isPermanentlyGone) notFound()
+  // Permanent gone - de proxy geeft normaal al 410 (of een 308 naar een
+  // opvolger); Next.js heeft geen native 410, dus hier als vangnet 404.
+  if (archive === 'gone') notFound()
 
   const isExpired = !!(job.end_date && new Date(job.end_date) < new Date())
 
-  const [relatedJobs, cities] = await Promise.all([
-    getRelatedJobs(tenant.id, job.city, job.id),
+  const [relatedJobs, cities, employerContact, landings] = await Promise.all([
+    getRelatedJobs(
+      tenant.id,
+      job.city,
+      job.id,
+      isInGrace ? { limit: 6, category: job.categories } : undefined
+    ),
     getCitiesWithJobCounts(tenant.id),
+    // Fout bij het ophalen = gewoon de externe sollicitatielink tonen.
+    isInGrace ? null : findEmployerContact(job.company_id).catch(() => null),
+    getFunctionCityLandings(tenant.id),
   ])
+  // Alleen of er een contact is gaat naar de client, nooit het adres zelf.
+  const nativeApply = employerContact !== null
 
   const companyName = job.company?.name || 'Onbekend bedrijf'
-  const salary = parseSalary(job.salary)
-  const employmentType = mapEmploymentType(job.employment)
-
-  const sameAs: string[] = []
-  if (job.company?.website) sameAs.push(job.company.website)
-  if (job.company?.linkedin_url) sameAs.push(job.company.linkedin_url)
-
-  const lat = job.latitude ? parseFloat(job.latitude) : (job.company?.latitude ?? null)
-  const lng = job.longitude ? parseFloat(job.longitude) : (job.company?.longitude ?? null)
-
-  const cleanDescription =
-    (job.content_md || unwrapDescription(job.description) || '')
-      .replace(/<[^>]+>/g, '')
-      .replace(/\s+/g, ' ')
-      .trim() || `${job.title} bij ${companyName}`
-
-  const validThrough = job.end_date
-    ? new Date(job.end_date).toISOString()
-    : job.published_at
-    ? new Date(new Date(job.published_at).getTime() + 60 * 86_400_000).toISOString()
-    : new Date(Date.now() + 30 * 86_400_000).toISOString()
-
   const effectiveDomain = tenant.domain ?? tenant.preview_domain
   const baseUrl = effectiveDomain ? `https://${effectiveDomain}` : ''
   const citySlug = job.city ? slugifyCity(job.city) : null
+
+  // Interne links naar de functie x plaats-landingspagina's van deze vacature.
+  const jobFunctions = new Set(matchFunctionCategories(job).map((f) => f.slug))
+  const landingLinks = landings.filter(
+    (l) => jobFunctions.has(l.functionSlug) && l.citySlug === citySlug
+  )
+
   const breadcrumbItems = baseUrl
     ? [
         { name: tenant.name, url: `${baseUrl}/` },
@@ -180,34 +181,13 @@ export default async function JobPage({ params }: JobPageProps) {
   const breadcrumbJsonLd = buildBreadcrumbSchema(breadcrumbItems)
 
   const jsonLd = {
-    ...buildJobPostingSchema({
-      title: job.title,
-      description: cleanDescription,
-      datePosted: job.published_at || job.created_at,
-      validThrough,
-      employmentType,
-      hiringOrganization: {
-        name: companyName,
-        sameAs: sameAs.length > 0 ? sameAs : undefined,
-        logo: job.company?.logo_url,
-        kvkNumber: job.company?.kvk,
-      },
-      jobLocation: {
-        streetAddress: job.street || job.company?.street_address,
-        city: job.city || job.company?.city || 'Nederland',
-        postalCode: job.zipcode || job.company?.postal_code,
-        region: job.state,
-        country: 'NL',
-        latitude: lat && !isNaN(lat) ? lat : null,
-        longitude: lng && !isNaN(lng) ? lng : null,
-      },
-      salary: salary
-        ? { minValue: salary.min, maxValue: salary.max, currency: 'EUR', unitText: salary.unit }
-        : null,
-      directApply: !job.url,
-      identifier: { name: tenant.name, value: job.id },
-      applicantLocationCountry: 'NL',
-    }),
+    ...buildJobPostingSchema(
+      buildJobPostingInput(job, {
+        locale: 'nl',
+        identifierName: tenant.name,
+        nativeApply,
+      }).input
+    ),
     ...(job.header_image_url?.trim() ? { image: job.header_image_url.trim() } : {}),
   }
 
@@ -215,17 +195,42 @@ export default async function JobPage({ params }: JobPageProps) {
 
   return (
     <div className="flex flex-col min-h-screen">
-      <SiteHeader tenant={tenant} />
+      <SiteHeader
+        tenant={tenant}
+        alternate={
+          job.english_friendly && !isInGrace
+            ? { locale: 'en', href: `/en/vacature/${slug}` }
+            : undefined
+        }
+      />
 
       <main className="flex-1 max-w-content mx-auto w-full px-pad py-8 pb-24 lg:pb-8">
         {isInGrace && (
-          <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-900">
-            <h2 className="text-lg font-semibold">Deze vacature is afgelopen</h2>
-            <p className="mt-1 text-sm text-amber-800">
-              Deze positie is niet meer beschikbaar. Bekijk{' '}
-              <a href="/vacatures" className="underline">andere vacatures</a>.
-            </p>
-          </div>
+          <section className="mb-8">
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-900">
+              <h2 className="text-lg font-semibold">Deze vacature is niet meer beschikbaar</h2>
+              <p className="mt-1 text-sm text-amber-800">
+                {companyName} zoekt niet meer voor deze positie. Bekijk{' '}
+                {relatedJobs.length > 0 ? 'de actuele vacatures hieronder of ' : ''}
+                <a href={citySlug ? `/vacatures/${citySlug}` : '/vacatures'} className="underline">
+                  {job.city ? `alle vacatures in ${job.city}` : 'alle vacatures'}
+                </a>
+                .
+              </p>
+            </div>
+            {relatedJobs.length > 0 && (
+              <div className="mt-6">
+                <h2 className="m-0 mb-4 text-h2 font-bold text-primary tracking-tight">
+                  {job.city ? `Actuele vacatures in ${job.city}` : 'Actuele vacatures'}
+                </h2>
+                <div className="flex flex-col gap-s3">
+                  {relatedJobs.map((relatedJob) => (
+                    <VacatureCard key={relatedJob.id} job={relatedJob} />
+                  ))}
+                </div>
+              </div>
+            )}
+          </section>
         )}
         <script
           type="application/ld+json"
@@ -264,7 +269,35 @@ export default async function JobPage({ params }: JobPageProps) {
           </div>
         )}
 
-        <JobDetail job={job} relatedJobs={relatedJobs} pageUrl={pageUrl} />
+        <JobViewTracker jobId={job.id} />
+        <JobDetail
+          job={job}
+          relatedJobs={isInGrace ? [] : relatedJobs}
+          pageUrl={pageUrl}
+          nativeApply={nativeApply}
+          archived={isInGrace}
+        />
+
+        {landingLinks.length > 0 && (
+          <nav aria-label="Meer vacatures" className="mt-10 pt-6 border-t border-divider-subtle">
+            <h2 className="m-0 mb-3 text-meta font-bold text-primary tracking-tight">
+              Meer vacatures
+            </h2>
+            <ul className="flex flex-wrap gap-2">
+              {landingLinks.map((l) => (
+                <li key={l.functionSlug}>
+                  <Link
+                    href={`/vacatures/${l.citySlug}/${l.functionSlug}`}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-primary text-meta font-bold tracking-tight text-primary hover:bg-primary-tint transition-colors"
+                  >
+                    Vacatures voor {l.label} in {l.city}
+                    <span className="text-muted font-light">({l.count})</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
       </main>
 
       <SiteFooter tenant={tenant} cities={cities} />
@@ -274,7 +307,8 @@ export default async function JobPage({ params }: JobPageProps) {
         jobUrl={job.url}
         jobId={job.id}
         jobTitle={job.title}
-        isExpired={isExpired}
+        isExpired={isExpired || isInGrace}
+        nativeApply={nativeApply}
       />
     </div>
   )
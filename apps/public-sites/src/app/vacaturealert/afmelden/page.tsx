@@ -0,0 +1,76 @@
+import { notFound } from 'next/navigation'
+import { getTenant } from '@/lib/tenant'
+import { getCitiesWithJobCounts } from '@/lib/queries'
+import { findAlertByToken, describeAlertFilter } from '@/lib/job-alerts'
+import { unsubscribeJobAlert } from '@/app/actions/job-alerts'
+import {
+  SiteHeader,
+  SiteFooter,
+  Breadcrumbs,
+  PageHero,
+  PillButton,
+  ArrowRight,
+} from '@/components/eyeron'
+
+export const metadata = { title: 'Afmelden vacaturealert', robots: { index: false } }
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+/**
+ * Afmeldlink uit de footer van elke digest-mail. Geen login nodig; het
+ * afmelden zelf gebeurt pas met de knop (POST), zodat een linkscanner die de
+ * mail opent niemand afmeldt.
+ */
+export default async function UnsubscribeAlertPage({ searchParams }: UnsubscribePageProps) {
+  const [sp, tenant] = await Promise.all([searchParams, getTenant()])
+  if (!tenant) notFound()
+
+  const [found, cities] = await Promise.all([
+    sp.token ? findAlertByToken('unsubscribe', sp.token) : Promise.resolve(null),
+    getCitiesWithJobCounts(tenant.id),
+  ])
+  // Een alert van een ander portaal is hier een ongeldige link.
+  const alert = found?.platform_id === tenant.id ? found : null
+  const done = alert?.status === 'unsubscribed'
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader tenant={tenant} />
+
+      <main className="flex-1 max-w-content mx-auto w-full px-pad py-8">
+        <Breadcrumbs
+          className="mb-5"
+          items={[{ label: tenant.name, href: '/' }, { label: 'Vacaturealert' }]}
+        />
+        <PageHero
+          title={!alert ? 'Link ongeldig' : done ? 'Je bent afgemeld' : 'Vacaturealert afmelden'}
+          description={
+            !alert
+              ? 'Deze afmeldlink is ongeldig. Beheer je alerts via je account of neem contact met ons op.'
+              : done
+                ? `Je ontvangt geen mails meer voor: ${describeAlertFilter(alert.filter)}`
+                : `Je ontvangt nu mails voor: ${describeAlertFilter(alert.filter)}`
+          }
+        />
+        {alert && !done ? (
+          <form action={unsubscribeJobAlert}>
+            <input type="hidden" name="token" value={sp.token} />
+            <PillButton type="submit" variant="primary">
+              Afmelden
+              <ArrowRight />
+            </PillButton>
+          </form>
+        ) : (
+          <PillButton href="/" variant="primary">
+            Naar de vacatures
+            <ArrowRight />
+          </PillButton>
+        )}
+      </main>
+
+      <SiteFooter tenant={tenant} cities={cities} />
+    </div>
+  )
+}
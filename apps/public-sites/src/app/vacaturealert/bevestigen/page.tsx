@@ -0,0 +1,76 @@
+import { notFound } from 'next/navigation'
+import { getTenant } from '@/lib/tenant'
+import { getCitiesWithJobCounts } from '@/lib/queries'
+import { findAlertByToken, describeAlertFilter, alertFilterSearchParams } from '@/lib/job-alerts'
+import { confirmJobAlert } from '@/app/actions/job-alerts'
+import {
+  SiteHeader,
+  SiteFooter,
+  Breadcrumbs,
+  PageHero,
+  PillButton,
+  ArrowRight,
+} from '@/components/eyeron'
+
+export const metadata = { title: 'Vacaturealert bevestigen', robots: { index: false } }
+
+interface ConfirmPageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+/**
+ * Landingspagina van de double opt-in link uit de bevestigingsmail. Het
+ * bevestigen zelf gebeurt pas met de knop (POST): linkscanners en prefetchers
+ * openen de link ook.
+ */
+export default async function ConfirmAlertPage({ searchParams }: ConfirmPageProps) {
+  const [sp, tenant] = await Promise.all([searchParams, getTenant()])
+  if (!tenant) notFound()
+
+  const [alert, cities] = await Promise.all([
+    sp.token ? findAlertByToken('confirm', sp.token) : Promise.resolve(null),
+    getCitiesWithJobCounts(tenant.id),
+  ])
+  const own = alert !== null && alert.platform_id === tenant.id
+  const ok = own && alert.status === 'active'
+  const pending = own && alert.status === 'pending'
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader tenant={tenant} />
+
+      <main className="flex-1 max-w-content mx-auto w-full px-pad py-8">
+        <Breadcrumbs
+          className="mb-5"
+          items={[{ label: tenant.name, href: '/' }, { label: 'Vacaturealert' }]}
+        />
+        <PageHero
+          title={ok ? 'Je vacaturealert is actief' : pending ? 'Bevestig je vacaturealert' : 'Link ongeldig'}
+          description={
+            ok
+              ? `Je ontvangt voortaan nieuwe vacatures voor: ${describeAlertFilter(alert.filter)}`
+              : pending
+                ? `Bevestig om nieuwe vacatures te ontvangen voor: ${describeAlertFilter(alert.filter)}`
+                : 'Deze bevestigingslink is ongeldig of verlopen. Maak de alert opnieuw aan vanaf de zoekresultaten.'
+          }
+        />
+        {pending ? (
+          <form action={confirmJobAlert}>
+            <input type="hidden" name="token" value={sp.token} />
+            <PillButton type="submit" variant="primary">
+              Alert bevestigen
+              <ArrowRight />
+            </PillButton>
+          </form>
+        ) : (
+          <PillButton href={ok ? `/${alertFilterSearchParams(alert.filter)}` : '/'} variant="primary">
+            Naar de vacatures
+            <ArrowRight />
+          </PillButton>
+        )}
+      </main>
+
+      <SiteFooter tenant={tenant} cities={cities} />
+    </div>
+  )
+}
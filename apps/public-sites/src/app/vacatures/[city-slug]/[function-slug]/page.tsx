@@ -0,0 +1,232 @@
+import { notFound } from 'next/navigation'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { getTenant } from '@/lib/tenant'
+import { getCitiesWithJobCounts } from '@/lib/queries'
+import {
+  LANDING_JOBS_PER_PAGE,
+  buildLandingIntro,
+  getFunctionCategory,
+  getFunctionCityJobs,
+  getFunctionCityLanding,
+  getFunctionCityLandings,
+} from '@/lib/function-landings'
+import { buildBreadcrumbSchema, buildItemListSchema } from '@lokale-banen/shared'
+import {
+  SiteHeader,
+  SiteFooter,
+  Breadcrumbs,
+  PageHero,
+  VacatureCard,
+  Pagination,
+  ArrowRight,
+} from '@/components/eyeron'
+
+interface FunctionCityPageProps {
+  params: Promise<{ 'city-slug': string; 'function-slug': string }>
+  searchParams: Promise<{ page?: string }>
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1)
+}
+
+export async function generateMetadata({ params, searchParams }: FunctionCityPageProps): Promise<Metadata> {
+  const [{ 'city-slug': citySlug, 'function-slug': functionSlug }, sp, tenant] = await Promise.all([
+    params,
+    searchParams,
+    getTenant(),
+  ])
+  if (!tenant) return {}
+
+  const landing = await getFunctionCityLanding(tenant.id, citySlug, functionSlug)
+  if (!landing) return {}
+
+  const page = parseInt(sp.page || '1', 10) || 1
+  const heading = `Vacatures voor ${landing.label} in ${landing.city}`
+  const title = page > 1
+    ? `${heading}, pagina ${page} | ${tenant.name}`
+    : `${heading} | ${tenant.name}`
+  const description = `${landing.count} actuele vacatures voor ${landing.label} in ${landing.city}. Bekijk het lokale aanbod bij ${tenant.name}.`
+
+  const canonicalBase = `https://${tenant.domain}/vacatures/${citySlug}/${functionSlug}`
+  const canonical = page > 1 ? `${canonicalBase}?page=${page}` : canonicalBase
+
+  return {
+    title,
+    description,
+    alternates: { canonical },
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      url: canonical,
+      siteName: tenant.name,
+    },
+  }
+}
+
+export default async function FunctionCityPage({ params, searchParams }: FunctionCityPageProps) {
+  const [{ 'city-slug': citySlug, 'function-slug': functionSlug }, sp, tenant] = await Promise.all([
+    params,
+    searchParams,
+    getTenant(),
+  ])
+  if (!tenant) notFound()
+
+  const fn = getFunctionCategory(functionSlug)
+  if (!fn) notFound()
+
+  // Alleen combinaties boven de drempel bestaan; de rest is een dunne pagina.
+  const [landings, cities] = await Promise.all([
+    getFunctionCityLandings(tenant.id),
+    getCitiesWithJobCounts(tenant.id),
+  ])
+  const landing = landings.find((l) => l.citySlug === citySlug && l.functionSlug === fn.slug)
+  if (!landing) notFound()
+
+  const pageNum = parseInt(sp.page || '1', 10)
+  const page = isNaN(pageNum) || pageNum < 1 ? 1 : pageNum
+
+  const { jobs, total } = await getFunctionCityJobs(tenant.id, fn, landing.city, page)
+  const totalPages = Math.ceil(total / LANDING_JOBS_PER_PAGE)
+  if (page > 1 && page > totalPages) notFound()
+
+  const intro = buildLandingIntro(fn, landing, jobs, tenant.name)
+  const otherFunctions = landings
+    .filter((l) => l.citySlug === citySlug && l.functionSlug !== fn.slug)
+    .slice(0, 8)
+  const otherCities = landings
+    .filter((l) => l.functionSlug === fn.slug && l.citySlug !== citySlug)
+    .slice(0, 8)
+
+  const heading = `Vacatures voor ${landing.label} in ${landing.city}`
+  const baseUrl = `https://${tenant.domain}`
+  const pagePath = `/vacatures/${citySlug}/${fn.slug}`
+  const breadcrumbJsonLd = buildBreadcrumbSchema([
+    { name: tenant.name, url: `${baseUrl}/` },
+    { name: `Vacatures in ${landing.city}`, url: `${baseUrl}/vacatures/${citySlug}` },
+    { name: heading, url: `${baseUrl}${pagePath}` },
+  ])
+  const itemListJsonLd = buildItemListSchema({
+    name: heading,
+    description: `${total} vacatures voor ${landing.label} in ${landing.city} bij ${tenant.name}`,
+    url: `${baseUrl}${pagePath}`,
+    numberOfItems: jobs.length,
+    items: jobs.map(job => ({
+      name: job.title,
+      url: `${baseUrl}/vacature/${job.slug || job.id}`,
+    })),
+  })
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader tenant={tenant} />
+
+      <main className="flex-1 max-w-content mx-auto w-full px-pad py-8">
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(breadcrumbJsonLd).replace(/</g, '\\u003c'),
+          }}
+        />
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(itemListJsonLd).replace(/</g, '\\u003c'),
+          }}
+        />
+
+        <Breadcrumbs
+          className="mb-5"
+          items={[
+            { label: tenant.name, href: '/' },
+            { label: `Vacatures in ${landing.city}`, href: `/vacatures/${citySlug}` },
+            { label: capitalize(landing.label) },
+          ]}
+        />
+
+        <PageHero
+          eyebrow={`Vacatures in ${landing.city}`}
+          title={heading}
+          accent={landing.city}
+          description={`${total.toLocaleString('nl-NL')} actuele vacature${total !== 1 ? 's' : ''} voor ${landing.label} in ${landing.city}.`}
+        />
+
+        {page === 1 && (
+          <div className="mb-8 max-w-[720px] flex flex-col gap-3 text-body text-muted">
+            {intro.map((paragraph) => (
+              <p key={paragraph} className="m-0">{paragraph}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-s3">
+          {jobs.map((job) => (
+            <VacatureCard key={job.id} job={job} />
+          ))}
+        </div>
+
+        <Pagination
+          currentPage={page}
+          totalPages={totalPages}
+          basePath={pagePath}
+        />
+
+        {(otherFunctions.length > 0 || otherCities.length > 0) && (
+          <section className="mt-12 pt-8 border-t border-divider flex flex-col gap-8">
+            {otherFunctions.length > 0 && (
+              <div>
+                <h2 className="text-h2 font-bold text-primary tracking-tight m-0 mb-4">
+                  Meer vacatures in {landing.city}
+                </h2>
+                <LandingLinks
+                  links={otherFunctions.map((l) => ({
+                    href: `/vacatures/${l.citySlug}/${l.functionSlug}`,
+                    label: capitalize(l.label),
+                    count: l.count,
+                  }))}
+                />
+              </div>
+            )}
+            {otherCities.length > 0 && (
+              <div>
+                <h2 className="text-h2 font-bold text-primary tracking-tight m-0 mb-4">
+                  {capitalize(landing.label)} in andere plaatsen
+                </h2>
+                <LandingLinks
+                  links={otherCities.map((l) => ({
+                    href: `/vacatures/${l.citySlug}/${l.functionSlug}`,
+                    label: l.city,
+                    count: l.count,
+                  }))}
+                />
+              </div>
+            )}
+          </section>
+        )}
+      </main>
+
+      <SiteFooter tenant={tenant} cities={cities} />
+    </div>
+  )
+}
+
+function LandingLinks({ links }: { links: { href: string; label: string; count: number }[] }) {
+  return (
+    <ul className="flex flex-wrap gap-2">
+      {links.map((link) => (
+        <li key={link.href}>
+          <Link
+            href={link.href}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-primary text-meta font-bold tracking-tight text-primary hover:bg-primary-tint transition-colors"
+          >
+            {link.label}
+            <span className="text-muted font-light">({link.count})</span>
+            <ArrowRight width={11} height={8} className="text-secondary" />
+          </Link>
+        </li>
+      ))}
+    </ul>
+  )
+}
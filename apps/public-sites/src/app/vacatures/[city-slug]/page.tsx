@@ -7,6 +7,7 @@ import {
   getNearbyCities,
   getCitiesWithJobCounts,
 } from '@/lib/queries'
+import { getFunctionCityLandings } from '@/lib/function-landings'
 import { buildBreadcrumbSchema, buildItemListSchema } from '@lokale-banen/shared'
 import {
   SiteHeader,
@@ -64,13 +65,15 @@ export default async function CityPage({ params, searchParams }: CityPageProps)
   const pageNum = parseInt(sp.page || '1', 10)
   const page = isNaN(pageNum) || pageNum < 1 ? 1 : pageNum
 
-  const [{ jobs, total, cityName }, nearbyCities, cities] = await Promise.all([
+  const [{ jobs, total, cityName }, nearbyCities, cities, landings] = await Promise.all([
     getJobsByCitySlug(tenant.id, citySlug, page),
     getNearbyCities(tenant.id, citySlug),
     getCitiesWithJobCounts(tenant.id),
+    getFunctionCityLandings(tenant.id),
   ])
   if (!cityName) notFound()
 
+  const cityLandings = landings.filter((l) => l.citySlug === citySlug)
   const totalPages = Math.ceil(total / 20)
   if (page > 1 && page > totalPages) notFound()
 
@@ -148,6 +151,28 @@ export default async function CityPage({ params, searchParams }: CityPageProps)
           basePath={`/vacatures/${citySlug}`}
         />
 
+        {cityLandings.length > 0 && (
+          <section className="mt-12 pt-8 border-t border-divider">
+            <h2 className="text-h2 font-bold text-primary tracking-tight m-0 mb-4">
+              Vacatures per vakgebied in {cityName}
+            </h2>
+            <ul className="flex flex-wrap gap-2">
+              {cityLandings.map((l) => (
+                <li key={l.functionSlug}>
+                  <Link
+                    href={`/vacatures/${citySlug}/${l.functionSlug}`}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-primary text-meta font-bold tracking-tight text-primary hover:bg-primary-tint transition-colors"
+                  >
+                    {l.label.charAt(0).toUpperCase() + l.label.slice(1)}
+                    <span className="text-muted font-light">({l.count})</span>
+                    <ArrowRight width={11} height={8} className="text-secondary" />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {nearbyCities.length > 0 && (
           <section className="mt-12 pt-8 border-t border-divider">
             <h2 className="text-h2 font-bold text-primary tracking-tight m-0 mb-4">
@@ -1,6 +1,9 @@
 import { notFound } from 'next/navigation'
 import type { Metadata } from 'next'
 import { getTenant } from '@/lib/tenant'
+import { normalizeAlertFilter, describeAlertFilter } from '@/lib/job-alerts'
+import { parseRadius } from '@/lib/radius'
+import { parseSalaryMin } from '@/lib/salary'
 import {
   getApprovedJobs,
   getJobCount,
@@ -23,6 +26,7 @@ import {
   FilterPanel,
   SortToolbar,
   MobileBottomBar,
+  JobAlertForm,
 } from '@/components/eyeron'
 
 interface VacaturesPageProps {
@@ -33,12 +37,17 @@ interface VacaturesPageProps {
     hours?: string
     education?: string
     sector?: string
-    sort?: 'newest' | 'salary_desc' | 'oldest'
+    location?: string
+    distance?: string
+    salary?: string
+    lat?: string
+    lng?: string
+    sort?: 'relevance' | 'newest' | 'salary_desc' | 'oldest' | 'nearest'
   }>
 }
 
 const PAGE_SIZE = 20
-const VALID_SORTS = ['newest', 'salary_desc', 'oldest'] as const
+const VALID_SORTS = ['relevance', 'newest', 'salary_desc', 'oldest', 'nearest'] as const
 type ValidSort = (typeof VALID_SORTS)[number]
 
 export async function generateMetadata({
@@ -135,22 +144,34 @@ export default async function VacaturesPage({ searchParams }: VacaturesPageProps
   }
 
   // ── Regio ───────────────────────────────────────────────────────────────
+  // Met een zoekterm is relevantie de standaardvolgorde.
   const sort: SortOption = VALID_SORTS.includes(sp.sort as ValidSort)
     ? (sp.sort as SortOption)
-    : 'newest'
+    : sp.q?.trim() ? 'relevance' : 'newest'
 
   const educationValues = sp.education?.split(',')
   const sectorValues = sp.sector?.split(',')
+  const userLat = sp.lat ? parseFloat(sp.lat) : NaN
+  const userLng = sp.lng ? parseFloat(sp.lng) : NaN
+  const radiusKm = parseRadius(sp.distance)
+  const salaryMin = parseSalaryMin(sp.salary)
 
   const filter: JobFilter = {
     query: sp.q,
+    location: sp.location,
     type: sp.type,
     hours: sp.hours,
     education: educationValues,
     sector: sectorValues,
     page,
     sort,
+    userLat: isNaN(userLat) ? undefined : userLat,
+    userLng: isNaN(userLng) ? undefined : userLng,
+    radiusKm,
+    salaryMin,
   }
+  const hasGeolocation = filter.userLat != null && filter.userLng != null
+  const hasLocation = hasGeolocation || !!sp.location
 
   const [{ jobs, total }, totalJobsUnfiltered, facets, cities] = await Promise.all([
     getApprovedJobs(tenant.id, filter),
@@ -165,7 +186,9 @@ export default async function VacaturesPage({ searchParams }: VacaturesPageProps
     (sp.type ? sp.type.split(',').length : 0) +
     (sp.hours ? sp.hours.split(',').length : 0) +
     (educationValues?.length || 0) +
-    (sectorValues?.length || 0)
+    (sectorValues?.length || 0) +
+    (radiusKm ? 1 : 0) +
+    (salaryMin ? 1 : 0)
 
   const hostDomain = tenant.domain ?? tenant.preview_domain ?? ''
   const baseUrl = hostDomain ? `https://${hostDomain}` : ''
@@ -184,12 +207,18 @@ export default async function VacaturesPage({ searchParams }: VacaturesPageProps
     })),
   })
 
+  const alertFilter = normalizeAlertFilter(sp)
+
   const filterPanelProps = {
     facets,
     activeType: sp.type,
     activeHours: sp.hours,
     activeEducation: sp.education,
     activeSector: sp.sector,
+    activeLocation: sp.location,
+    activeDistance: radiusKm ? String(radiusKm) : undefined,
+    hasGeolocation,
+    activeSalary: salaryMin ? String(salaryMin) : undefined,
   }
 
   return (
@@ -230,14 +259,14 @@ export default async function VacaturesPage({ searchParams }: VacaturesPageProps
               total={total}
               currentPage={page}
               currentSort={sort}
-              hasLocation={false}
+              hasLocation={hasLocation}
               className="mt-2"
             />
 
             {jobs.length > 0 ? (
               <div className="flex flex-col gap-s3">
                 {jobs.map((job) => (
-                  <VacatureCard key={job.id} job={job} />
+                  <VacatureCard key={job.id} job={job} distanceKm={job.distance_km ?? null} />
                 ))}
               </div>
             ) : (
@@ -250,13 +279,15 @@ export default async function VacaturesPage({ searchParams }: VacaturesPageProps
                 body={
                   activeFilterCount > 0
                     ? 'Pas je filters aan om meer resultaten te zien.'
-                    : 'Er komen regelmatig nieuwe vacatures bij. Kom binnenkort terug, of zet een melding in je account.'
+                    : 'Er komen regelmatig nieuwe vacatures bij. Kom binnenkort terug, of zet hieronder een vacaturealert.'
                 }
                 action={<PillButton href="/vacatures">Wis alle filters</PillButton>}
               />
             )}
 
             <Pagination currentPage={page} totalPages={totalPages} basePath="/vacatures" />
+
+            <JobAlertForm filter={alertFilter} filterLabel={describeAlertFilter(alertFilter)} />
           </div>
 
           <aside
@@ -274,7 +305,7 @@ export default async function VacaturesPage({ searchParams }: VacaturesPageProps
         activeFilterCount={activeFilterCount}
         resultCount={total}
         currentSort={sort}
-        hasLocation={false}
+        hasLocation={hasLocation}
       />
 
       <SiteFooter tenant={tenant} cities={cities} />
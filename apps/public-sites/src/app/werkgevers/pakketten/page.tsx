@@ -48,6 +48,11 @@ export default async function PakkettenPage() {
   const cities = await getCitiesWithJobCounts(tenant.id)
   const mailSubjectBase = encodeURIComponent(`[${tenant.name}] Vacature plaatsen`)
   const mailto = `mailto:${COMPANY_INFO.centralEmail}?subject=${mailSubjectBase}`
+  // Met werkgeversportaal: direct zelf plaatsen met het gekozen pakket
+  // (codes = vacancy_packages.code). Zonder portaal blijft het mailen.
+  const portalUrl = process.env.EMPLOYER_PORTAL_URL
+  const packageHref = (code: string) =>
+    portalUrl ? `${portalUrl}/vacatures/nieuw?pakket=${code}` : mailto
 
   // Welke socials heeft dit portaal? Bepaalt of we de "Aanwezig op X"
   // USP tonen + welke icoontjes op de social-campaign card komen.
@@ -142,7 +147,7 @@ export default async function PakkettenPage() {
                   'Nieuwsbrief plaatsing',
                   'Social media plaatsing',
                 ]}
-                ctaHref={mailto}
+                ctaHref={packageHref('online')}
               />
 
               {/* Card 2 - Op aanvraag (highlighted, brand) */}
@@ -157,7 +162,7 @@ export default async function PakkettenPage() {
                   'Monitoring en optimalisatie',
                 ]}
                 disclaimer="Vraag vrijblijvend een prijsvoorstel aan! Op basis van de functie kunnen wij passend advies geven."
-                ctaHref={mailto}
+                ctaHref={packageHref('online_social')}
                 highlighted
                 socialPresence={socialPresence}
               />
@@ -174,7 +179,7 @@ export default async function PakkettenPage() {
                   'Volledige integratie met je ATS',
                 ]}
                 disclaimer="Vraag vrijblijvend een prijsvoorstel aan! Op basis van de advertentietekst kunnen wij passend advies geven."
-                ctaHref={mailto}
+                ctaHref={packageHref('onbeperkt')}
               />
             </div>
 
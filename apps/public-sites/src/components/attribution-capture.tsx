@@ -0,0 +1,15 @@
+'use client'
+
+import { useEffect } from 'react'
+import { captureAttribution } from '@/lib/track-job-event'
+
+/**
+ * Legt bij de eerste pagina van een sessie de bron (verwijzer + UTM) vast
+ * voor de vacature-events. Rendert niets.
+ */
+export function AttributionCapture() {
+  useEffect(() => {
+    captureAttribution()
+  }, [])
+  return null
+}
@@ -0,0 +1,205 @@
+'use client'
+
+import { useRef, useState, useTransition } from 'react'
+import { useUser } from '@clerk/nextjs'
+import { Send } from 'lucide-react'
+import { submitApplication, type ApplicationFormResult } from '@/app/actions/applications'
+import { captureAttribution } from '@/lib/track-job-event'
+import { getDictionary, type Locale } from '@/lib/i18n'
+import { PillButton } from './pill-button'
+
+interface ApplicationFormProps {
+  jobId: string
+  jobTitle: string
+  locale?: Locale
+}
+
+const ACCEPT = '.pdf,.doc,.docx'
+const MAX_UPLOAD_BYTES = 4 * 1024 * 1024
+
+const inputClasses =
+  'w-full px-4 rounded-input border border-divider bg-surface text-body text-primary placeholder:text-placeholder outline-none focus-visible:border-secondary focus-visible:shadow-[0_0_0_3px_color-mix(in_srgb,var(--secondary)_25%,transparent)] disabled:opacity-60'
+
+/**
+ * Sollicitatieformulier op de vacaturepagina (anker `#solliciteren`).
+ * Server-action submit met CV-upload; de werkgever krijgt de sollicitatie
+ * per mail, de kandidaat een bevestiging.
+ *
+ * - Ingelogd: naam en e-mail worden vooraf ingevuld uit Clerk
+ * - Client-side check op totale bestandsgrootte (server checkt opnieuw)
+ * - Honeypot `website` + rate-limit per IP, zoals het contactformulier
+ */
+export function ApplicationForm({ jobId, jobTitle, locale }: ApplicationFormProps) {
+  const t = getDictionary(locale).applicationForm
+  const { user } = useUser()
+  const formRef = useRef<HTMLFormElement>(null)
+  const [pending, startTransition] = useTransition()
+  const [result, setResult] = useState<ApplicationFormResult | null>(null)
+
+  function handleSubmit(formData: FormData) {
+    setResult(null)
+    const size = ['cv', 'motivationFile'].reduce((sum, key) => {
+      const f = formData.get(key)
+      return sum + (f instanceof File ? f.size : 0)
+    }, 0)
+    if (size > MAX_UPLOAD_BYTES) {
+      setResult({ ok: false, message: t.tooLarge })
+      return
+    }
+    // Bron van de sessie meesturen voor de sollicitatie-attributie.
+    for (const [key, value] of Object.entries(captureAttribution())) {
+      if (value) formData.set(`attribution_${key}`, value)
+    }
+    startTransition(async () => {
+      const res = await submitApplication(formData)
+      setResult(res)
+      if (res.ok) formRef.current?.reset()
+    })
+  }
+
+  const defaultName = user ? [user.firstName, user.lastName].filter(Boolean).join(' ') : ''
+  const defaultEmail = user?.primaryEmailAddress?.emailAddress ?? ''
+
+  return (
+    <section id="solliciteren" className="mt-10 bg-surface shadow-card px-6 py-5 scroll-mt-24">
+      <h2 className="m-0 text-h3 font-bold text-primary tracking-tight">{t.heading}</h2>
+      <p className="m-0 mt-1 text-meta text-muted">
+        {t.intro(jobTitle)}
+      </p>
+
+      {result?.ok ? (
+        <p role="status" aria-live="polite" className="m-0 mt-4 text-meta font-regular text-secondary">
+          {result.message}
+        </p>
+      ) : (
+        <form ref={formRef} action={handleSubmit} className="mt-5 space-y-4" noValidate>
+          <input type="hidden" name="jobId" value={jobId} />
+          <div
+            aria-hidden="true"
+            style={{ position: 'absolute', left: '-9999px', top: 'auto', width: 1, height: 1, overflow: 'hidden' }}
+          >
+            <label htmlFor="ap-website">Website</label>
+            <input id="ap-website" name="website" type="text" autoComplete="off" tabIndex={-1} />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Label id="ap-name" label={t.name} required>
+              <input
+                id="ap-name"
+                name="name"
+                type="text"
+                required
+                autoComplete="name"
+                defaultValue={defaultName}
+                disabled={pending}
+                className={`${inputClasses} h-11`}
+              />
+            </Label>
+            <Label id="ap-email" label={t.email} required>
+              <input
+                id="ap-email"
+                name="email"
+                type="email"
+                required
+                autoComplete="email"
+                defaultValue={defaultEmail}
+                disabled={pending}
+                className={`${inputClasses} h-11`}
+              />
+            </Label>
+          </div>
+
+          <Label id="ap-phone" label={t.phone}>
+            <input
+              id="ap-phone"
+              name="phone"
+              type="tel"
+              autoComplete="tel"
+              disabled={pending}
+              className={`${inputClasses} h-11`}
+            />
+          </Label>
+
+          <Label id="ap-motivation" label={t.motivation}>
+            <textarea
+              id="ap-motivation"
+              name="motivation"
+              rows={5}
+              maxLength={5000}
+              disabled={pending}
+              className={`${inputClasses} py-3`}
+            />
+          </Label>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Label id="ap-cv" label={t.cv} required>
+              <input
+                id="ap-cv"
+                name="cv"
+                type="file"
+                accept={ACCEPT}
+                required
+                disabled={pending}
+                className="block w-full text-meta text-muted file:mr-3 file:rounded-button file:border-0 file:bg-primary-tint file:px-4 file:py-2 file:text-meta file:font-bold file:text-primary"
+              />
+            </Label>
+            <Label id="ap-letter" label={t.letter}>
+              <input
+                id="ap-letter"
+                name="motivationFile"
+                type="file"
+                accept={ACCEPT}
+                disabled={pending}
+                className="block w-full text-meta text-muted file:mr-3 file:rounded-button file:border-0 file:bg-primary-tint file:px-4 file:py-2 file:text-meta file:font-bold file:text-primary"
+              />
+            </Label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <PillButton
+              type="submit"
+              variant="primary"
+              size="lg"
+              disabled={pending}
+              className="disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              <Send className="size-4" strokeWidth={2} aria-hidden="true" />
+              {pending ? t.submitting : t.submit}
+            </PillButton>
+            <p className="m-0 text-small font-light text-muted">
+              {t.fileNote}
+            </p>
+          </div>
+
+          {result && (
+            <p role="status" aria-live="polite" className="m-0 text-meta font-regular text-red-600">
+              {result.message}
+            </p>
+          )}
+        </form>
+      )}
+    </section>
+  )
+}
+
+function Label({
+  id,
+  label,
+  required,
+  children,
+}: {
+  id: string
+  label: string
+  required?: boolean
+  children: React.ReactNode
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-meta font-bold text-primary tracking-tight mb-1.5">
+        {label}
+        {required && <span className="text-secondary"> *</span>}
+      </label>
+      {children}
+    </div>
+  )
+}
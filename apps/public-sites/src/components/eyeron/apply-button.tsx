@@ -2,7 +2,9 @@
 
 import { ExternalLink } from 'lucide-react'
 import { logApplication } from '@/app/actions/applications'
+import { trackJobEvent } from '@/lib/track-job-event'
 import { cn } from '@/lib/utils'
+import { getDictionary, type Locale } from '@/lib/i18n'
 import { PillButton } from './pill-button'
 
 interface ApplyButtonProps {
@@ -10,11 +12,14 @@ interface ApplyButtonProps {
   jobId: string
   jobTitle: string
   isExpired?: boolean
+  /** Sollicitatieformulier op de pagina zelf: CTA scrollt naar `#solliciteren`. */
+  nativeApply?: boolean
   /**
    * "sticky-mobile" = sticky bottom bar op <lg (mobile + tablet, default).
    * "inline" = inline button (gebruik op detail-page sidebar).
    */
   variant?: 'sticky-mobile' | 'inline'
+  locale?: Locale
 }
 
 /**
@@ -22,25 +27,51 @@ interface ApplyButtonProps {
  * scroll-positie). Inline-variant voor de desktop-sidebar.
  *
  * Disabled state bij verlopen vacature of ontbrekende sollicitatielink.
+ * Met `nativeApply` linkt de CTA naar het formulier op de pagina in plaats
+ * van naar de werkgever-site (en wordt er geen external_redirect gelogd).
  */
 export function ApplyButton({
   jobUrl,
   jobId,
   isExpired,
+  nativeApply,
   variant = 'sticky-mobile',
+  locale,
 }: ApplyButtonProps) {
+  const t = getDictionary(locale)
+
   function handleClick() {
+    trackJobEvent(jobId, 'apply_click')
     logApplication(jobId).catch((err) => {
       console.error('Failed to log application:', err)
     })
   }
 
-  const disabled = !jobUrl || isExpired
+  const disabled = (!jobUrl && !nativeApply) || isExpired
   const buttonLabel = isExpired
-    ? 'Vacature verlopen'
-    : !jobUrl
-    ? 'Geen sollicitatielink'
-    : 'Solliciteer direct'
+    ? t.apply.expired
+    : !jobUrl && !nativeApply
+    ? t.apply.noLink
+    : t.apply.apply
+
+  const activeButton = nativeApply ? (
+    <PillButton href="#solliciteren" variant="primary" size="lg" className="w-full">
+      {buttonLabel}
+    </PillButton>
+  ) : (
+    <PillButton
+      href={jobUrl as string}
+      variant="primary"
+      size="lg"
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={handleClick}
+      className="w-full"
+    >
+      {buttonLabel}
+      <ExternalLink className="size-4" strokeWidth={2} aria-hidden="true" />
+    </PillButton>
+  )
 
   if (variant === 'inline') {
     return disabled ? (
@@ -48,18 +79,7 @@ export function ApplyButton({
         {buttonLabel}
       </PillButton>
     ) : (
-      <PillButton
-        href={jobUrl as string}
-        variant="primary"
-        size="lg"
-        target="_blank"
-        rel="noopener noreferrer"
-        onClick={handleClick}
-        className="w-full"
-      >
-        {buttonLabel}
-        <ExternalLink className="size-4" strokeWidth={2} aria-hidden="true" />
-      </PillButton>
+      activeButton
     )
   }
 
@@ -77,18 +97,7 @@ export function ApplyButton({
           {buttonLabel}
         </PillButton>
       ) : (
-        <PillButton
-          href={jobUrl as string}
-          variant="primary"
-          size="lg"
-          target="_blank"
-          rel="noopener noreferrer"
-          onClick={handleClick}
-          className="w-full"
-        >
-          {buttonLabel}
-          <ExternalLink className="size-4" strokeWidth={2} aria-hidden="true" />
-        </PillButton>
+        activeButton
       )}
     </div>
   )
@@ -1,6 +1,7 @@
 'use client'
 
 import { logApplication } from '@/app/actions/applications'
+import { trackJobEvent } from '@/lib/track-job-event'
 
 interface ApplyLinkProps {
   jobUrl: string
@@ -16,6 +17,7 @@ interface ApplyLinkProps {
  */
 export function ApplyLink({ jobUrl, jobId, className, children }: ApplyLinkProps) {
   function handleClick() {
+    trackJobEvent(jobId, 'apply_click')
     logApplication(jobId).catch((err) => {
       console.error('Failed to log application:', err)
     })
@@ -1,5 +1,6 @@
 import Link from 'next/link'
 import { ChevronRight } from 'lucide-react'
+import { getDictionary, type Locale } from '@/lib/i18n'
 
 export interface BreadcrumbItem {
   label: string
@@ -9,15 +10,16 @@ export interface BreadcrumbItem {
 interface BreadcrumbsProps {
   items: BreadcrumbItem[]
   className?: string
+  locale?: Locale
 }
 
 /**
  * Eyeron breadcrumbs - primary tekst, secondary chevrons. Laatste item
  * (de huidige pagina) is geen link.
  */
-export function Breadcrumbs({ items, className }: BreadcrumbsProps) {
+export function Breadcrumbs({ items, className, locale }: BreadcrumbsProps) {
   return (
-    <nav aria-label="Kruimelpad" className={className}>
+    <nav aria-label={getDictionary(locale).breadcrumbs} className={className}>
       <ol className="flex flex-wrap items-center gap-2 text-meta font-light text-muted">
         {items.map((item, i) => {
           const isLast = i === items.length - 1
@@ -0,0 +1,75 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { RADIUS_OPTIONS } from '@/lib/radius'
+import { FilterGroup } from './filter-group'
+
+interface DistanceFilterProps {
+  /** Huidige `?location=` - postcode of plaats. */
+  activeLocation?: string
+  /** Huidige `?distance=` in km. */
+  activeDistance?: string
+  /** True als er ?lat=&lng= in de URL zit - dan werkt de straal ook zonder locatie. */
+  hasGeolocation: boolean
+}
+
+/**
+ * "Afstand"-groep van het filterpaneel: postcode of plaats + straal. De
+ * locatie wordt server-side via `cities` herleid (zie `resolveLocation`);
+ * straal en "dichtstbij" draaien in de database.
+ */
+export function DistanceFilter({ activeLocation, activeDistance, hasGeolocation }: DistanceFilterProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [location, setLocation] = useState(activeLocation ?? '')
+  const [, startTransition] = useTransition()
+
+  function submitLocation(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const params = new URLSearchParams(searchParams.toString())
+    params.delete('page')
+    const trimmed = location.trim()
+    if (trimmed) params.set('location', trimmed)
+    else params.delete('location')
+    startTransition(() => {
+      router.push(`?${params.toString()}`, { scroll: false })
+    })
+  }
+
+  const hasOrigin = !!activeLocation || hasGeolocation
+
+  return (
+    <div className="mb-6">
+      <form onSubmit={submitLocation} role="search" className="mb-3">
+        <label htmlFor="filter-location" className="block text-body font-medium text-primary tracking-tight mb-2">
+          Postcode of plaats
+        </label>
+        <input
+          id="filter-location"
+          name="location"
+          type="search"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          onBlur={(e) => e.currentTarget.form?.requestSubmit()}
+          placeholder="Bijv. 2511 of Delft"
+          autoComplete="postal-code"
+          className="w-full h-10 px-4 rounded-input border border-divider bg-surface text-meta text-primary placeholder:text-placeholder outline-none focus-visible:border-secondary"
+        />
+      </form>
+
+      <FilterGroup
+        label="Afstand"
+        paramName="distance"
+        type="radio"
+        options={RADIUS_OPTIONS.map((km) => ({ value: String(km), label: `Binnen ${km} km` }))}
+        activeValues={activeDistance ? [activeDistance] : []}
+      />
+      {!hasOrigin && (
+        <p className="m-0 mt-1 text-small font-light text-muted">
+          Vul een postcode of plaats in om op afstand te filteren.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -14,7 +14,7 @@ interface FilterOption {
 interface FilterGroupProps {
   /** Heading boven de groep, bv. "Afstand" of "Dienstverband". */
   label: string
-  /** URL-parameter naam, bv. "type", "hours", "education", "sector", "distance". */
+  /** URL-parameter naam, bv. "type", "hours", "education", "sector", "distance", "salary". */
   paramName: string
   /** "radio" = single value, "checkbox" = comma-separated multiple values. */
   type: 'radio' | 'checkbox'
@@ -1,5 +1,7 @@
 import type { FilterFacets } from '@/lib/queries'
 import { FilterGroup } from './filter-group'
+import { DistanceFilter } from './distance-filter'
+import { SALARY_OPTIONS, salaryOptionLabel } from '@/lib/salary'
 
 export interface FilterPanelProps {
   facets: FilterFacets
@@ -8,6 +10,13 @@ export interface FilterPanelProps {
   activeHours?: string
   activeEducation?: string
   activeSector?: string
+  /** `?location=` en `?distance=` uit URL - voor de Afstand-groep. */
+  activeLocation?: string
+  activeDistance?: string
+  /** True als er ?lat=&lng= in de URL zit. */
+  hasGeolocation?: boolean
+  /** `?salary=` - minimaal maandsalaris. */
+  activeSalary?: string
   /** Header weglaten - bv. in mobile drawer waar de drawer-head al "Filters" toont. */
   hideHeading?: boolean
 }
@@ -20,8 +29,8 @@ const HOURS_LABELS: Record<string, string> = {
 
 /**
  * Filter-paneel per Eyeron-spec - 344px breed sidebar op desktop.
- * Componeert 4 FilterGroups: Afstand (radio) + Dienstverband, Vakgebied,
- * Aantal uur per week (allemaal checkbox).
+ * Componeert 5 FilterGroups: Afstand (radio) + Dienstverband, Vakgebied,
+ * Aantal uur per week (checkbox) + Salaris (radio).
  *
  * Server-component die alleen client-componenten (FilterGroup) inschakelt
  * voor de interactiviteit. Geen "use client" hier zelf nodig.
@@ -32,6 +41,10 @@ export function FilterPanel({
   activeHours,
   activeEducation: _activeEducation,
   activeSector,
+  activeLocation,
+  activeDistance,
+  hasGeolocation = false,
+  activeSalary,
   hideHeading,
 }: FilterPanelProps) {
   // URL-strings → arrays voor checkbox-groepen
@@ -47,6 +60,12 @@ export function FilterPanel({
         </h2>
       )}
 
+      <DistanceFilter
+        activeLocation={activeLocation}
+        activeDistance={activeDistance}
+        hasGeolocation={hasGeolocation}
+      />
+
       <FilterGroup
         label="Dienstverband"
         paramName="type"
@@ -82,6 +101,17 @@ export function FilterPanel({
         }))}
         activeValues={hoursValues}
       />
+
+      <FilterGroup
+        label="Salaris"
+        paramName="salary"
+        type="radio"
+        options={SALARY_OPTIONS.map((amount) => ({
+          value: String(amount),
+          label: salaryOptionLabel(amount),
+        }))}
+        activeValues={activeSalary ? [activeSalary] : []}
+      />
     </aside>
   )
 }
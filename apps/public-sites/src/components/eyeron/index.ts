@@ -29,6 +29,7 @@ export { SaveJobButton } from './save-job-button'
 
 // Filters + sort (fase 5)
 export { FilterGroup } from './filter-group'
+export { DistanceFilter } from './distance-filter'
 export { FilterPanel } from './filter-panel'
 export type { FilterPanelProps } from './filter-panel'
 export { SortToolbar } from './sort-toolbar'
@@ -45,6 +46,8 @@ export { JobDetail } from './job-detail'
 export { CompanyProfile } from './company-profile'
 export { ApplyButton } from './apply-button'
 export { ApplyLink } from './apply-link'
+export { ApplicationForm } from './application-form'
+export { JobViewTracker } from './job-view-tracker'
 export { ShareButtons } from './share-buttons'
 
 // Static content (fase 9)
@@ -52,3 +55,4 @@ export { ProseContent } from './prose-content'
 
 // Forms
 export { ContactForm } from './contact-form'
+export { JobAlertForm } from './job-alert-form'
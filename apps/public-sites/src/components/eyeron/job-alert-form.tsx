@@ -0,0 +1,129 @@
+'use client'
+
+import { useRef, useState, useTransition } from 'react'
+import { useUser } from '@clerk/nextjs'
+import { Bell } from 'lucide-react'
+import { createJobAlert, type JobAlertResult } from '@/app/actions/job-alerts'
+import type { AlertFilter } from '@/lib/job-alerts'
+import { PillButton } from './pill-button'
+
+interface JobAlertFormProps {
+  /** Huidige zoekopdracht, wordt als hidden inputs meegestuurd. */
+  filter: AlertFilter
+  /** Leesbare omschrijving van het filter (server-side via `describeAlertFilter`). */
+  filterLabel: string
+  className?: string
+}
+
+/**
+ * "Zet een vacaturealert" onder de zoekresultaten. Slaat het actieve filter
+ * op via de `createJobAlert` server-action.
+ *
+ * - Ingelogd: geen e-mailveld, alert is direct actief op het Clerk-adres.
+ * - Anoniem: e-mailveld + bevestigingsmail (double opt-in).
+ * - Honeypot `website` + server-side rate-limit, zoals het contactformulier.
+ */
+export function JobAlertForm({ filter, filterLabel, className }: JobAlertFormProps) {
+  const { isSignedIn } = useUser()
+  const formRef = useRef<HTMLFormElement>(null)
+  const [pending, startTransition] = useTransition()
+  const [result, setResult] = useState<JobAlertResult | null>(null)
+
+  function handleSubmit(formData: FormData) {
+    setResult(null)
+    startTransition(async () => {
+      const res = await createJobAlert(formData)
+      setResult(res)
+      if (res.ok) formRef.current?.reset()
+    })
+  }
+
+  return (
+    <section
+      aria-labelledby="job-alert-heading"
+      className={`bg-surface border border-divider-subtle p-5 mt-s6 ${className ?? ''}`}
+    >
+      <div className="flex items-start gap-4">
+        <span className="inline-flex items-center justify-center size-11 bg-primary-tint shrink-0">
+          <Bell className="size-5 text-primary" strokeWidth={1.75} aria-hidden="true" />
+        </span>
+        <div className="flex-1 min-w-0">
+          <h2 id="job-alert-heading" className="m-0 text-body font-bold text-primary tracking-tight">
+            Mis geen nieuwe vacatures
+          </h2>
+          <p className="m-0 mt-0.5 text-meta font-light text-muted">
+            Ontvang een mail zodra er nieuwe vacatures zijn voor: {filterLabel}
+          </p>
+
+          <form ref={formRef} action={handleSubmit} className="mt-4 flex flex-col sm:flex-row gap-3" noValidate>
+            <div
+              aria-hidden="true"
+              style={{ position: 'absolute', left: '-9999px', top: 'auto', width: 1, height: 1, overflow: 'hidden' }}
+            >
+              <label htmlFor="ja-website">Website</label>
+              <input id="ja-website" name="website" type="text" autoComplete="off" tabIndex={-1} />
+            </div>
+
+            {filter.query && <input type="hidden" name="q" value={filter.query} />}
+            {filter.location && <input type="hidden" name="location" value={filter.location} />}
+            {filter.type && <input type="hidden" name="type" value={filter.type} />}
+            {filter.hours && <input type="hidden" name="hours" value={filter.hours} />}
+            {filter.education?.length ? (
+              <input type="hidden" name="education" value={filter.education.join(',')} />
+            ) : null}
+            {filter.sector?.length ? (
+              <input type="hidden" name="sector" value={filter.sector.join(',')} />
+            ) : null}
+
+            {!isSignedIn && (
+              <>
+                <label htmlFor="ja-email" className="sr-only">E-mailadres</label>
+                <input
+                  id="ja-email"
+                  name="email"
+                  type="email"
+                  required
+                  autoComplete="email"
+                  placeholder="jouw@email.nl"
+                  disabled={pending}
+                  className="flex-1 min-w-0 h-11 px-4 rounded-input border border-divider bg-surface text-body text-primary placeholder:text-placeholder outline-none focus-visible:border-secondary focus-visible:shadow-[0_0_0_3px_color-mix(in_srgb,var(--secondary)_25%,transparent)] disabled:opacity-60"
+                />
+              </>
+            )}
+
+            <label htmlFor="ja-frequency" className="sr-only">Frequentie</label>
+            <select
+              id="ja-frequency"
+              name="frequency"
+              defaultValue="daily"
+              disabled={pending}
+              className="h-11 px-4 rounded-input border border-divider bg-surface text-body text-primary outline-none focus-visible:border-secondary disabled:opacity-60"
+            >
+              <option value="daily">Dagelijks</option>
+              <option value="instant">Direct</option>
+            </select>
+
+            <PillButton
+              type="submit"
+              variant="primary"
+              disabled={pending}
+              className="disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {pending ? 'Opslaan...' : 'Alert aanmaken'}
+            </PillButton>
+          </form>
+
+          {result && (
+            <p
+              role="status"
+              aria-live="polite"
+              className={`m-0 mt-3 text-meta font-regular ${result.ok ? 'text-secondary' : 'text-red-600'}`}
+            >
+              {result.message}
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
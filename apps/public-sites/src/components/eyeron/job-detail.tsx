@@ -5,8 +5,10 @@ import rehypeRaw from 'rehype-raw'
 import { Briefcase, Clock, GraduationCap, MapPin, Calendar, Globe, Linkedin } from 'lucide-react'
 import { formatRelative, resolveApplyUrl, stripChatGptArtifacts, unwrapDescription } from '@/lib/utils'
 import type { JobPosting } from '@/lib/queries'
+import { getDictionary, type Dictionary, type Locale } from '@/lib/i18n'
 import { slugifyCity } from '@lokale-banen/database'
 import { ApplyButton } from './apply-button'
+import { ApplicationForm } from './application-form'
 import { SaveJobButton } from './save-job-button'
 import { ShareButtons } from './share-buttons'
 import { VacatureCard } from './vacature-card'
@@ -16,6 +18,12 @@ interface JobDetailProps {
   relatedJobs: JobPosting[]
   /** Volledige URL voor share-functies. */
   pageUrl: string
+  /** Werkgever heeft een contact voor sollicitaties: toon het formulier op de pagina. */
+  nativeApply?: boolean
+  /** Gearchiveerd (grace-periode): geen sollicitatie-CTA; de pagina toont zelf het bordje. */
+  archived?: boolean
+  /** Taal van de UI-teksten; de vacaturetekst zelf komt al vertaald binnen. */
+  locale?: Locale
 }
 
 /**
@@ -23,9 +31,17 @@ interface JobDetailProps {
  *   - Main: title + company + meta-pills + description + company-block + related
  *   - Aside (sticky): apply-CTA + save + share + key-facts
  */
-export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
-  const companyName = job.company?.name || 'Onbekend bedrijf'
-  const isExpired = !!(job.end_date && new Date(job.end_date) < new Date())
+export function JobDetail({
+  job,
+  relatedJobs,
+  pageUrl,
+  nativeApply,
+  archived,
+  locale,
+}: JobDetailProps) {
+  const t = getDictionary(locale)
+  const companyName = job.company?.name || t.job.unknownCompany
+  const isExpired = archived || !!(job.end_date && new Date(job.end_date) < new Date())
   const markdownContent = stripChatGptArtifacts(
     (job.content_md || unwrapDescription(job.description) || '').trim()
   )
@@ -35,10 +51,10 @@ export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
     <article className="lg:grid lg:gap-gap-content lg:items-start lg:[grid-template-columns:1fr_344px]">
       {/* ── Main column ── */}
       <div className="min-w-0">
-        {isExpired && (
+        {isExpired && !archived && (
           <div className="bg-surface shadow-card px-5 py-4 mb-6">
             <p className="m-0 text-meta font-bold text-primary">
-              Deze vacature is verlopen en niet meer beschikbaar.
+              {t.job.expired}
             </p>
           </div>
         )}
@@ -81,20 +97,19 @@ export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
             jobId={job.id}
             jobTitle={job.title}
             isExpired={isExpired}
+            nativeApply={nativeApply}
             variant="inline"
+            locale={locale}
           />
         </div>
 
         {/* Key facts - mobile + tablet (op desktop dekt de sticky sidebar dit af) */}
-        <MobileFacts job={job} />
+        <MobileFacts job={job} t={t} />
 
         {/* Description */}
         <div className="mt-8">
           {!markdownContent ? (
-            <p className="text-meta text-muted italic">
-              Er is geen beschrijving beschikbaar voor deze vacature. Bezoek de
-              website van de werkgever voor meer informatie.
-            </p>
+            <p className="text-meta text-muted italic">{t.job.noDescription}</p>
           ) : (
             <div className="prose max-w-none prose-headings:text-primary prose-headings:font-bold prose-headings:tracking-tight prose-h2:text-h2 prose-h2:mt-10 prose-h2:mb-4 prose-h3:text-h3 prose-h3:mt-8 prose-h3:mb-3 prose-p:text-lead prose-p:font-light prose-p:text-muted prose-li:text-lead prose-li:font-light prose-li:text-muted prose-strong:text-primary prose-strong:font-bold prose-a:text-secondary prose-a:no-underline hover:prose-a:underline">
               <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
@@ -104,11 +119,15 @@ export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
           )}
         </div>
 
+        {nativeApply && !isExpired && (
+          <ApplicationForm jobId={job.id} jobTitle={job.title} locale={locale} />
+        )}
+
         {/* Company block */}
         {job.company && (
           <section className="mt-10 bg-surface shadow-card px-6 py-5">
             <h2 className="m-0 text-h3 font-bold text-primary tracking-tight">
-              Over {companyName}
+              {t.job.about(companyName)}
             </h2>
             {job.company.description && (
               <p className="m-0 mt-2 text-meta text-muted line-clamp-4">
@@ -121,7 +140,7 @@ export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
                   href={`/bedrijf/${job.company.slug}`}
                   className="inline-flex items-center gap-2 text-meta font-regular text-secondary hover:underline underline-offset-2"
                 >
-                  Alle vacatures bij {companyName}
+                  {t.job.allJobsAt(companyName)}
                 </Link>
               )}
               {job.company.website && (
@@ -154,14 +173,14 @@ export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
         {relatedJobs.length > 0 && (
           <section className="mt-12 pt-8 border-t border-divider">
             <h2 className="m-0 text-h2 font-bold text-primary tracking-tight">
-              {job.city ? `Andere vacatures in ${job.city}` : 'Andere vacatures'}
+              {job.city ? t.job.otherJobsIn(job.city) : t.job.otherJobs}
             </h2>
             <p className="m-0 mt-1 mb-6 text-meta text-muted">
-              Vacatures bij andere werkgevers in dezelfde regio
+              {t.job.otherJobsNote}
             </p>
             <div className="flex flex-col gap-s3">
               {relatedJobs.slice(0, 3).map((relatedJob) => (
-                <VacatureCard key={relatedJob.id} job={relatedJob} />
+                <VacatureCard key={relatedJob.id} job={relatedJob} locale={locale} />
               ))}
             </div>
           </section>
@@ -169,7 +188,7 @@ export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
 
         {/* Share row (mobile + bottom of content) */}
         <div className="mt-10 pt-6 border-t border-divider-subtle">
-          <ShareButtons url={pageUrl} title={job.title} />
+          <ShareButtons url={pageUrl} jobId={job.id} title={job.title} locale={locale} />
         </div>
       </div>
 
@@ -184,40 +203,52 @@ export function JobDetail({ job, relatedJobs, pageUrl }: JobDetailProps) {
             jobId={job.id}
             jobTitle={job.title}
             isExpired={isExpired}
+            nativeApply={nativeApply}
             variant="inline"
+            locale={locale}
           />
 
           <div className="flex items-center justify-between gap-2">
-            <SaveJobButton jobId={job.id} variant="detail" />
-            <ShareButtons url={pageUrl} title={job.title} variant="card" />
+            <SaveJobButton jobId={job.id} variant="detail" locale={locale} />
+            <ShareButtons
+              url={pageUrl}
+              jobId={job.id}
+              title={job.title}
+              variant="card"
+              locale={locale}
+            />
           </div>
 
           <dl className="mt-2 grid gap-3 pt-4 border-t border-divider-subtle">
             {job.salary && job.salary.trim() !== '-' && job.salary.trim() !== '' && (
-              <FactRow icon={MoneyIcon} label="Salaris" value={job.salary} />
+              <FactRow icon={MoneyIcon} label={t.job.salary} value={job.salary} />
             )}
             {job.employment && (
-              <FactRow icon={Briefcase} label="Dienstverband" value={job.employment} />
+              <FactRow icon={Briefcase} label={t.job.employment} value={job.employment} />
             )}
             {(job.working_hours_min || job.working_hours_max) && (
               <FactRow
                 icon={Clock}
-                label="Uren per week"
-                value={formatHours(job.working_hours_min, job.working_hours_max)}
+                label={t.job.hoursPerWeek}
+                value={t.hours(job.working_hours_min, job.working_hours_max)}
               />
             )}
             {job.education_level && (
-              <FactRow icon={GraduationCap} label="Opleiding" value={job.education_level} />
+              <FactRow icon={GraduationCap} label={t.job.education} value={job.education_level} />
             )}
             {job.city && (
               <FactRow
                 icon={MapPin}
-                label="Locatie"
+                label={t.job.location}
                 value={[job.city, job.state].filter(Boolean).join(', ')}
               />
             )}
             {job.published_at && (
-              <FactRow icon={Calendar} label="Geplaatst" value={formatRelative(job.published_at)} />
+              <FactRow
+                icon={Calendar}
+                label={t.job.posted}
+                value={formatRelative(job.published_at, locale)}
+              />
             )}
           </dl>
         </div>
@@ -253,24 +284,24 @@ function FactRow({
  * zodat werkzoekenden salaris/dienstverband/uren/locatie zien voordat ze
  * door de hele beschrijving scrollen. Op desktop dekt de sticky sidebar dit af.
  */
-function MobileFacts({ job }: { job: JobPosting }) {
+function MobileFacts({ job, t }: { job: JobPosting; t: Dictionary }) {
   const hasSalary = !!(job.salary && job.salary.trim() !== '-' && job.salary.trim() !== '')
   const hasHours = job.working_hours_min != null || job.working_hours_max != null
-  const hours = hasHours ? formatHours(job.working_hours_min, job.working_hours_max) : null
+  const hours = hasHours ? t.hours(job.working_hours_min, job.working_hours_max) : null
 
   if (!hasSalary && !job.employment && !hours && !job.city) return null
 
   return (
     <dl className="lg:hidden mt-6 bg-surface shadow-card p-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
-      {hasSalary && <FactRow icon={MoneyIcon} label="Salaris" value={job.salary as string} />}
+      {hasSalary && <FactRow icon={MoneyIcon} label={t.job.salary} value={job.salary as string} />}
       {job.employment && (
-        <FactRow icon={Briefcase} label="Dienstverband" value={job.employment} />
+        <FactRow icon={Briefcase} label={t.job.employment} value={job.employment} />
       )}
-      {hours && <FactRow icon={Clock} label="Uren per week" value={hours} />}
+      {hours && <FactRow icon={Clock} label={t.job.hoursPerWeek} value={hours} />}
       {job.city && (
         <FactRow
           icon={MapPin}
-          label="Locatie"
+          label={t.job.location}
           value={[job.city, job.state].filter(Boolean).join(', ')}
         />
       )}
@@ -295,9 +326,3 @@ function MoneyIcon({ className, strokeWidth }: { className?: string; strokeWidth
     </svg>
   )
 }
-
-function formatHours(min: number | null, max: number | null): string {
-  if (min == null && max == null) return ''
-  if (min != null && max != null && min !== max) return `${min} tot ${max} uur`
-  return `${min ?? max} uur`
-}
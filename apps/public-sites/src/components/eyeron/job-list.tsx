@@ -1,6 +1,5 @@
 import { Suspense } from 'react'
-import { getApprovedJobs, type JobFilter, type JobPosting } from '@/lib/queries'
-import { haversineKm } from '@/lib/utils'
+import { getApprovedJobs, type JobFilter } from '@/lib/queries'
 import { VacatureCard } from './vacature-card'
 import { VacatureCardSkeleton } from './vacature-card-skeleton'
 import { EmptyState } from './empty-state'
@@ -29,23 +28,11 @@ export function JobList({ tenantId, filter }: JobListProps) {
 }
 
 async function JobListContent({ tenantId, filter }: JobListProps) {
-  const { jobs: rawJobs, total } = await getApprovedJobs(tenantId, filter)
+  // Straal en "dichtstbij" lopen in de database (jobs_near) over de hele
+  // tenant-set; `distance_km` is dan per vacature gezet.
+  const { jobs, total } = await getApprovedJobs(tenantId, filter)
   const currentPage = filter.page || 1
   const hasMore = currentPage * PAGE_SIZE < total
-  const hasLocation = filter.userLat != null && filter.userLng != null
-
-  // Client-side sort op afstand wanneer ?sort=nearest + locatie beschikbaar.
-  const jobs =
-    filter.sort === 'nearest' && hasLocation
-      ? [...rawJobs].sort((a, b) => {
-          const da = jobDistanceKm(a, filter.userLat, filter.userLng)
-          const db = jobDistanceKm(b, filter.userLat, filter.userLng)
-          if (da == null && db == null) return 0
-          if (da == null) return 1
-          if (db == null) return -1
-          return da - db
-        })
-      : rawJobs
 
   if (jobs.length === 0) {
     return <EmptyState />
@@ -61,7 +48,7 @@ async function JobListContent({ tenantId, filter }: JobListProps) {
           <VacatureCard
             key={job.id}
             job={job}
-            distanceKm={jobDistanceKm(job, filter.userLat, filter.userLng)}
+            distanceKm={job.distance_km ?? null}
           />
         ))}
       </div>
@@ -80,18 +67,6 @@ async function JobListContent({ tenantId, filter }: JobListProps) {
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
-function jobDistanceKm(
-  job: JobPosting,
-  userLat: number | undefined,
-  userLng: number | undefined
-): number | null {
-  if (userLat == null || userLng == null) return null
-  const lat = job.latitude ? parseFloat(job.latitude) : (job.company?.latitude ?? null)
-  const lng = job.longitude ? parseFloat(job.longitude) : (job.company?.longitude ?? null)
-  if (lat == null || lng == null || isNaN(lat) || isNaN(lng)) return null
-  return haversineKm(userLat, userLng, lat, lng)
-}
-
 function buildNextPageParams(filter: JobFilter, page: number): URLSearchParams {
   const p = new URLSearchParams()
   if (filter.query) p.set('q', filter.query)
@@ -103,6 +78,8 @@ function buildNextPageParams(filter: JobFilter, page: number): URLSearchParams {
   if (filter.sort && filter.sort !== 'newest') p.set('sort', filter.sort)
   if (filter.userLat != null) p.set('lat', String(filter.userLat))
   if (filter.userLng != null) p.set('lng', String(filter.userLng))
+  if (filter.radiusKm) p.set('distance', String(filter.radiusKm))
+  if (filter.salaryMin) p.set('salary', String(filter.salaryMin))
   p.set('page', String(page))
   return p
 }
@@ -0,0 +1,15 @@
+'use client'
+
+import { useEffect } from 'react'
+import { trackJobEvent } from '@/lib/track-job-event'
+
+/**
+ * Telt één view per vacaturepagina-bezoek (client-side, dus geen SSR- of
+ * prefetch-hits). Rendert niets.
+ */
+export function JobViewTracker({ jobId }: { jobId: string }) {
+  useEffect(() => {
+    trackJobEvent(jobId, 'view')
+  }, [jobId])
+  return null
+}
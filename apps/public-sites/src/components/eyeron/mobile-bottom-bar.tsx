@@ -20,6 +20,7 @@ interface MobileBottomBarProps {
 }
 
 const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance',   label: 'Meest relevant' },
   { value: 'newest',      label: 'Toon nieuwste eerst' },
   { value: 'oldest',      label: 'Toon oudste eerst' },
   { value: 'salary_desc', label: 'Hoogste salaris eerst' },
@@ -46,6 +47,10 @@ export function MobileBottomBar({
   const searchParams = useSearchParams()
   const [, startTransition] = useTransition()
   const sortRef = useRef<HTMLDivElement>(null)
+  // Zelfde regel als SortToolbar: "Meest relevant" alleen (en standaard) bij ?q=.
+  const hasQuery = !!searchParams.get('q')?.trim()
+  const defaultSort: SortOption = hasQuery ? 'relevance' : 'newest'
+  const sortOptions = SORT_OPTIONS.filter((o) => o.value !== 'relevance' || hasQuery)
 
   // ESC + body-scroll-lock voor drawer
   useEffect(() => {
@@ -71,7 +76,7 @@ export function MobileBottomBar({
 
   function clearFilters() {
     const params = new URLSearchParams(searchParams.toString())
-    for (const k of ['type', 'hours', 'education', 'sector', 'distance', 'page']) {
+    for (const k of ['type', 'hours', 'education', 'sector', 'distance', 'salary', 'page']) {
       params.delete(k)
     }
     startTransition(() => router.push(`?${params.toString()}`, { scroll: false }))
@@ -80,14 +85,14 @@ export function MobileBottomBar({
   function selectSort(value: SortOption) {
     setSortOpen(false)
     const params = new URLSearchParams(searchParams.toString())
-    if (value === 'newest') params.delete('sort')
+    if (value === defaultSort) params.delete('sort')
     else params.set('sort', value)
     params.delete('page')
     startTransition(() => router.push(`?${params.toString()}`, { scroll: false }))
   }
 
   const currentSortLabel =
-    SORT_OPTIONS.find((o) => o.value === currentSort)?.label ?? 'Sorteer'
+    sortOptions.find((o) => o.value === currentSort)?.label ?? 'Sorteer'
 
   return (
     <>
@@ -129,7 +134,7 @@ export function MobileBottomBar({
               role="listbox"
               className="absolute bottom-full mb-2 right-0 left-0 z-30 bg-surface border border-divider shadow-card-hover py-1"
             >
-              {SORT_OPTIONS.map((opt) => {
+              {sortOptions.map((opt) => {
                 const disabled = opt.value === 'nearest' && !hasLocation
                 const selected = opt.value === currentSort
                 return (
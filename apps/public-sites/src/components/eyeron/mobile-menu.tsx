@@ -3,20 +3,15 @@
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { Menu, X, Bookmark } from 'lucide-react'
+import { getDictionary, type Locale } from '@/lib/i18n'
 import { Wordmark } from './wordmark'
 
 interface MobileMenuProps {
   /** Tenant-naam voor de wordmark in de drawer-header. */
   tenantName: string
+  locale?: Locale
 }
 
-const NAV_ITEMS = [
-  { label: 'Vacatures',  href: '/vacatures' },
-  { label: 'Bedrijven',  href: '/bedrijven' },
-  { label: 'Werkgevers', href: '/werkgevers' },
-  { label: 'Hulp',       href: '/contact' },
-]
-
 /**
  * Hamburger + slide-in drawer voor mobile/tablet (<lg breakpoint).
  * Behaviors:
@@ -25,8 +20,9 @@ const NAV_ITEMS = [
  *  - body-scroll-lock terwijl open
  *  - drawer schakelt naar `aria-hidden` voor a11y wanneer dicht
  */
-export function MobileMenu({ tenantName }: MobileMenuProps) {
+export function MobileMenu({ tenantName, locale }: MobileMenuProps) {
   const [open, setOpen] = useState(false)
+  const t = getDictionary(locale)
 
   // ESC + body-scroll-lock
   useEffect(() => {
@@ -47,7 +43,7 @@ export function MobileMenu({ tenantName }: MobileMenuProps) {
       <button
         type="button"
         className="lg:hidden inline-flex items-center justify-center min-w-11 min-h-11 rounded-md text-primary hover:bg-primary-tint transition-colors"
-        aria-label="Open menu"
+        aria-label={t.header.openMenu}
         aria-expanded={open}
         onClick={() => setOpen(true)}
       >
@@ -58,14 +54,14 @@ export function MobileMenu({ tenantName }: MobileMenuProps) {
         className="fixed inset-0 z-50 lg:hidden"
         role="dialog"
         aria-modal="true"
-        aria-label="Hoofdnavigatie"
+        aria-label={t.header.mainNav}
         aria-hidden={!open}
         style={{ pointerEvents: open ? 'auto' : 'none' }}
       >
         {/* Overlay */}
         <button
           type="button"
-          aria-label="Sluit menu"
+          aria-label={t.header.closeMenu}
           onClick={() => setOpen(false)}
           className="absolute inset-0 bg-[rgba(15,23,42,0.45)] transition-opacity duration-200"
           style={{ opacity: open ? 1 : 0 }}
@@ -82,7 +78,7 @@ export function MobileMenu({ tenantName }: MobileMenuProps) {
             <button
               type="button"
               className="inline-flex items-center justify-center min-w-11 min-h-11 rounded-md text-primary hover:bg-primary-tint"
-              aria-label="Sluit menu"
+              aria-label={t.header.closeMenu}
               onClick={() => setOpen(false)}
             >
               <X className="size-6" strokeWidth={2} aria-hidden="true" />
@@ -91,7 +87,7 @@ export function MobileMenu({ tenantName }: MobileMenuProps) {
 
           <nav className="flex-1 overflow-y-auto px-5 py-4">
             <ul className="space-y-1">
-              {NAV_ITEMS.map((item) => (
+              {t.header.nav.map((item) => (
                 <li key={item.label}>
                   <Link
                     href={item.href}
@@ -112,7 +108,7 @@ export function MobileMenu({ tenantName }: MobileMenuProps) {
               className="inline-flex items-center gap-2 py-3 px-3 rounded-md text-meta font-bold text-primary hover:bg-primary-tint"
             >
               <Bookmark className="size-5" strokeWidth={1.75} aria-hidden="true" />
-              Opgeslagen vacatures
+              {t.header.saved}
             </Link>
           </div>
         </div>
@@ -1,6 +1,7 @@
 import Link from 'next/link'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { getDictionary, type Locale } from '@/lib/i18n'
 
 interface PaginationProps {
   currentPage: number
@@ -10,6 +11,7 @@ interface PaginationProps {
   /** Extra search-params om te behouden. */
   searchParams?: Record<string, string>
   className?: string
+  locale?: Locale
 }
 
 /**
@@ -24,8 +26,10 @@ export function Pagination({
   basePath,
   searchParams = {},
   className,
+  locale,
 }: PaginationProps) {
   if (totalPages <= 1) return null
+  const t = getDictionary(locale)
 
   function buildHref(page: number): string {
     const params = new URLSearchParams(searchParams)
@@ -42,11 +46,11 @@ export function Pagination({
         'flex items-center justify-center gap-1 py-6',
         className
       )}
-      aria-label="Paginering"
+      aria-label={t.pagination.label}
     >
       <PageStep
         href={currentPage > 1 ? buildHref(currentPage - 1) : undefined}
-        aria-label="Vorige pagina"
+        aria-label={t.pagination.previous}
       >
         <ChevronLeft className="size-4" strokeWidth={2} aria-hidden="true" />
       </PageStep>
@@ -80,7 +84,7 @@ export function Pagination({
 
       <PageStep
         href={currentPage < totalPages ? buildHref(currentPage + 1) : undefined}
-        aria-label="Volgende pagina"
+        aria-label={t.pagination.next}
       >
         <ChevronRight className="size-4" strokeWidth={2} aria-hidden="true" />
       </PageStep>
@@ -4,7 +4,9 @@ import { useState, useEffect, useTransition } from 'react'
 import { useUser } from '@clerk/nextjs'
 import { Bookmark } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { getDictionary, type Locale } from '@/lib/i18n'
 import { saveJob, unsaveJob } from '@/app/actions/saved-jobs'
+import { trackJobEvent } from '@/lib/track-job-event'
 
 type Variant = 'card-corner' | 'detail'
 
@@ -12,6 +14,7 @@ interface SaveJobButtonProps {
   jobId: string
   initialSaved?: boolean
   variant?: Variant
+  locale?: Locale
 }
 
 const VARIANT_CLASSES: Record<Variant, string> = {
@@ -38,7 +41,9 @@ export function SaveJobButton({
   jobId,
   initialSaved = false,
   variant = 'card-corner',
+  locale,
 }: SaveJobButtonProps) {
+  const t = getDictionary(locale)
   const { isSignedIn, isLoaded } = useUser()
   const [saved, setSaved] = useState(initialSaved)
   const [isPending, startTransition] = useTransition()
@@ -59,6 +64,7 @@ export function SaveJobButton({
   function handleToggle() {
     const newSaved = !saved
     setSaved(newSaved)
+    if (newSaved) trackJobEvent(jobId, 'save')
 
     if (isSignedIn) {
       startTransition(async () => {
@@ -99,7 +105,7 @@ export function SaveJobButton({
         type="button"
         onClick={handleToggle}
         disabled={isPending}
-        aria-label={saved ? 'Verwijder uit opgeslagen' : 'Vacature opslaan'}
+        aria-label={saved ? t.save.unsave : t.save.save}
         aria-pressed={saved}
         className={cn(
           'inline-flex items-center justify-center transition-colors',
@@ -121,9 +127,9 @@ export function SaveJobButton({
         <div className="absolute right-0 top-full mt-2 z-50 w-64 bg-surface border border-divider p-3 shadow-card-hover">
           <p className="text-meta text-muted font-light leading-snug">
             <a href="/sign-up" className="font-bold text-primary hover:underline">
-              Maak een account aan
+              {t.save.signUp}
             </a>{' '}
-            om je opgeslagen vacatures permanent te bewaren.
+            {t.save.signUpRest}
           </p>
         </div>
       )}
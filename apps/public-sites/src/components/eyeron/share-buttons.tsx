@@ -2,24 +2,35 @@
 
 import { useState } from 'react'
 import { MessageCircle, Link2, Check } from 'lucide-react'
+import { trackJobEvent } from '@/lib/track-job-event'
+import { getDictionary, type Locale } from '@/lib/i18n'
 
 interface ShareButtonsProps {
   url: string
+  /** Vacature-id voor de share-telling; zonder id wordt er niet geteld. */
+  jobId?: string
   title: string
   /** Inline (klein, default) of "card" voor sidebar context (groter). */
   variant?: 'inline' | 'card'
+  locale?: Locale
 }
 
 /**
  * Share-buttons - WhatsApp en kopieer-link. Eyeron-styled met primary-tint
  * hover en secondary check-feedback bij gekopieerd.
  */
-export function ShareButtons({ url, title, variant = 'inline' }: ShareButtonsProps) {
+export function ShareButtons({ url, jobId, title, variant = 'inline', locale }: ShareButtonsProps) {
+  const t = getDictionary(locale)
   const [copied, setCopied] = useState(false)
 
   const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(`${title} ${url}`)}`
 
+  function trackShare() {
+    if (jobId) trackJobEvent(jobId, 'share')
+  }
+
   async function copyLink() {
+    trackShare()
     try {
       await navigator.clipboard.writeText(url)
       setCopied(true)
@@ -40,15 +51,16 @@ export function ShareButtons({ url, title, variant = 'inline' }: ShareButtonsPro
 
   return (
     <div className="flex items-center gap-2">
-      <span className="text-meta font-light text-muted">Delen:</span>
+      <span className="text-meta font-light text-muted">{t.share.label}</span>
       <a
         href={whatsappUrl}
         target="_blank"
         rel="noopener noreferrer"
+        onClick={trackShare}
         className={`inline-flex items-center justify-center min-w-11 min-h-11 ${
           isCard ? 'rounded-button border border-primary text-primary' : 'text-primary'
         } hover:bg-primary-tint transition-colors`}
-        aria-label="Deel via WhatsApp"
+        aria-label={t.share.whatsapp}
       >
         <MessageCircle className="size-5" strokeWidth={1.75} aria-hidden="true" />
       </a>
@@ -58,7 +70,7 @@ export function ShareButtons({ url, title, variant = 'inline' }: ShareButtonsPro
         className={`inline-flex items-center justify-center min-w-11 min-h-11 ${
           isCard ? 'rounded-button border border-primary' : ''
         } ${copied ? 'text-secondary' : 'text-primary'} hover:bg-primary-tint transition-colors`}
-        aria-label={copied ? 'Link gekopieerd' : 'Kopieer link'}
+        aria-label={copied ? t.share.copied : t.share.copy}
       >
         {copied ? (
           <Check className="size-5" strokeWidth={2.25} aria-hidden="true" />
@@ -1,5 +1,6 @@
 import Link from 'next/link'
 import type { Tenant } from '@/lib/tenant'
+import { getDictionary, type Locale } from '@/lib/i18n'
 import { MasterLogo, PortalLogo } from './portal-logo'
 
 interface SiteFooterProps {
@@ -9,25 +10,9 @@ interface SiteFooterProps {
    * `getCitiesWithJobCounts(tenant.id)`.
    */
   cities: Array<{ city: string; slug: string }>
+  locale?: Locale
 }
 
-interface FooterLink {
-  label: string
-  href: string
-}
-
-const WERKGEVERS_LINKS: FooterLink[] = [
-  { label: 'Plaats vacature', href: '/werkgevers' },
-  { label: 'Tarieven',        href: '/werkgevers/pakketten' },
-]
-
-const OVER_LINKS: FooterLink[] = [
-  { label: 'Over ons',     href: '/over-ons' },
-  { label: 'Contact',      href: '/contact' },
-  { label: 'Privacy',      href: '/privacy' },
-  { label: 'Voorwaarden',  href: '/voorwaarden' },
-]
-
 /**
  * Footer per Eyeron-spec: primary bg, 4 kolommen op desktop
  * (brand+tagline | Werkzoekenden | Werkgevers | Over LokaleBanen),
@@ -36,7 +21,8 @@ const OVER_LINKS: FooterLink[] = [
  * Voor de master-tenant (lokalebanen.nl) wordt de master-logo niet getoond
  * (het is per definitie het merk zelf).
  */
-export function SiteFooter({ tenant, cities }: SiteFooterProps) {
+export function SiteFooter({ tenant, cities, locale }: SiteFooterProps) {
+  const t = getDictionary(locale)
   const isMaster = tenant.tier === 'master'
   const topCities = cities.slice(0, 5)
 
@@ -57,34 +43,35 @@ export function SiteFooter({ tenant, cities }: SiteFooterProps) {
               />
             </div>
             <p className="text-meta font-light leading-relaxed max-w-[24ch]">
-              Onderdeel van het LokaleBanen-netwerk. Tientallen regionale sites,
-              één missie: werk dichtbij huis vinden.
+              {t.footer.tagline}
             </p>
           </div>
 
           {/* Werkzoekenden - data-driven steden */}
-          <FooterColumn heading="Werkzoekenden">
-            <FooterLinkItem href="/">Vacatures zoeken</FooterLinkItem>
+          <FooterColumn heading={t.footer.jobSeekers}>
+            <FooterLinkItem href={locale === 'en' ? '/en/vacatures' : '/'}>
+              {t.footer.searchJobs}
+            </FooterLinkItem>
             {topCities.map(({ city, slug }) => (
               <FooterLinkItem key={slug} href={`/vacatures/${slug}`}>
                 {city}
               </FooterLinkItem>
             ))}
             <FooterLinkItem href="/account/opgeslagen">
-              Opgeslagen vacatures
+              {t.footer.saved}
             </FooterLinkItem>
           </FooterColumn>
 
-          <FooterColumn heading="Werkgevers">
-            {WERKGEVERS_LINKS.map((l) => (
+          <FooterColumn heading={t.footer.employers}>
+            {t.footer.employerLinks.map((l) => (
               <FooterLinkItem key={l.label} href={l.href}>
                 {l.label}
               </FooterLinkItem>
             ))}
           </FooterColumn>
 
-          <FooterColumn heading="Over LokaleBanen">
-            {OVER_LINKS.map((l) => (
+          <FooterColumn heading={t.footer.about}>
+            {t.footer.aboutLinks.map((l) => (
               <FooterLinkItem key={l.label} href={l.href}>
                 {l.label}
               </FooterLinkItem>
@@ -94,13 +81,13 @@ export function SiteFooter({ tenant, cities }: SiteFooterProps) {
 
         <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 pt-5">
           <p className="text-small font-light text-on-dark m-0" suppressHydrationWarning>
-            © {new Date().getFullYear()} {tenant.name} · Alle rechten voorbehouden
+            © {new Date().getFullYear()} {tenant.name} · {t.footer.rights}
           </p>
           {!isMaster && (
             <Link
               href="https://lokalebanen.nl"
               className="inline-flex items-center gap-2 hover:opacity-80 transition-opacity"
-              aria-label="LokaleBanen netwerk"
+              aria-label={t.footer.network}
             >
               <MasterLogo height={33} className="brightness-0 invert" />
             </Link>
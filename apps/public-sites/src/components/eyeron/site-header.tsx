@@ -1,21 +1,18 @@
 import Link from 'next/link'
 import { Bookmark, PlusCircle } from 'lucide-react'
 import type { Tenant } from '@/lib/tenant'
+import { getDictionary, type Locale } from '@/lib/i18n'
 import { PortalLogo } from './portal-logo'
 import { UserNav } from './user-nav'
 import { MobileMenu } from './mobile-menu'
 
 interface SiteHeaderProps {
   tenant: Tenant
+  locale?: Locale
+  /** Dezelfde pagina in de andere taal; toont dan een taalwissel. */
+  alternate?: { locale: Locale; href: string }
 }
 
-const NAV_ITEMS = [
-  { label: 'Vacatures',  href: '/vacatures' },
-  { label: 'Bedrijven',  href: '/bedrijven' },
-  { label: 'Werkgevers', href: '/werkgevers' },
-  { label: 'Hulp',       href: '/contact' },
-]
-
 /**
  * Top header per Eyeron-spec: 99px desktop / 64px mobile, witte achtergrond,
  * logo links, nav rechts (>=lg), bookmark + user-actions, hamburger op mobile.
@@ -23,11 +20,13 @@ const NAV_ITEMS = [
  * Sticky positioning zodat search altijd binnen handbereik blijft op mobile -
  * standaard UX-pattern voor job-boards.
  */
-export function SiteHeader({ tenant }: SiteHeaderProps) {
+export function SiteHeader({ tenant, locale, alternate }: SiteHeaderProps) {
+  const t = getDictionary(locale)
+
   return (
     <header className="sticky top-0 z-30 bg-surface h-header-mob lg:h-header-desk shadow-[0_1px_0_rgba(15,23,42,0.04)]">
       <div className="max-w-content mx-auto h-full px-pad flex items-center justify-between gap-4">
-        <Link href="/" className="flex items-center gap-3 shrink-0" aria-label="Naar de homepage">
+        <Link href="/" className="flex items-center gap-3 shrink-0" aria-label={t.header.home}>
           <PortalLogo
             tenantName={tenant.name}
             logoUrl={tenant.logo_url}
@@ -38,10 +37,10 @@ export function SiteHeader({ tenant }: SiteHeaderProps) {
 
         <div className="flex items-center gap-4 lg:gap-7">
           <nav
-            aria-label="Hoofdnavigatie"
+            aria-label={t.header.mainNav}
             className="hidden lg:flex items-center gap-7"
           >
-            {NAV_ITEMS.map((item) => (
+            {t.header.nav.map((item) => (
               <Link
                 key={item.label}
                 href={item.href}
@@ -52,16 +51,27 @@ export function SiteHeader({ tenant }: SiteHeaderProps) {
             ))}
           </nav>
 
+          {alternate && (
+            <Link
+              href={alternate.href}
+              hrefLang={alternate.locale}
+              lang={alternate.locale}
+              className="text-meta font-bold tracking-tight text-primary hover:underline underline-offset-4"
+            >
+              {alternate.locale === 'en' ? 'English' : 'Nederlands'}
+            </Link>
+          )}
+
           <div className="flex items-center gap-1">
             <Link
               href="/account/opgeslagen"
-              aria-label="Opgeslagen vacatures"
+              aria-label={t.header.saved}
               className="hidden sm:inline-flex items-center justify-center min-w-11 min-h-11 rounded-md text-primary hover:bg-primary-tint transition-colors"
             >
               <Bookmark className="size-5" strokeWidth={1.75} aria-hidden="true" />
             </Link>
             <UserNav />
-            <MobileMenu tenantName={tenant.name} />
+            <MobileMenu tenantName={tenant.name} locale={locale} />
           </div>
 
           <Link
@@ -69,7 +79,7 @@ export function SiteHeader({ tenant }: SiteHeaderProps) {
             className="hidden md:inline-flex items-center gap-2 h-11 px-[22px] rounded-button bg-secondary text-secondary-ink text-meta font-bold tracking-tight transition-colors hover:bg-secondary-hover focus-visible:outline focus-visible:outline-2 focus-visible:outline-secondary focus-visible:outline-offset-2"
           >
             <PlusCircle className="size-4" strokeWidth={2} aria-hidden="true" />
-            Vacature plaatsen
+            {t.header.postJob}
           </Link>
         </div>
       </div>
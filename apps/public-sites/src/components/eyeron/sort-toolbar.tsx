@@ -23,6 +23,7 @@ interface SortOptionDef {
 }
 
 const SORT_OPTIONS: SortOptionDef[] = [
+  { value: 'relevance',   label: 'Meest relevant' },
   { value: 'newest',      label: 'Toon nieuwste eerst' },
   { value: 'oldest',      label: 'Toon oudste eerst' },
   { value: 'salary_desc', label: 'Hoogste salaris eerst' },
@@ -32,6 +33,8 @@ const SORT_OPTIONS: SortOptionDef[] = [
 /**
  * Sort-toolbar boven de vacature-lijst - count links, sort-pill rechts.
  * Sort-pill opent een mini-popover met opties; selecteren = router.push.
+ * "Meest relevant" verschijnt alleen bij een zoekterm (?q=) en is dan de
+ * standaard; zonder zoekterm is dat "nieuwste eerst".
  */
 export function SortToolbar({
   total,
@@ -46,6 +49,9 @@ export function SortToolbar({
   const [open, setOpen] = useState(false)
   const [, startTransition] = useTransition()
   const containerRef = useRef<HTMLDivElement>(null)
+  const hasQuery = !!searchParams.get('q')?.trim()
+  const defaultSort: SortOption = hasQuery ? 'relevance' : 'newest'
+  const options = SORT_OPTIONS.filter((o) => o.value !== 'relevance' || hasQuery)
 
   // Click-outside + ESC sluit popover
   useEffect(() => {
@@ -65,7 +71,7 @@ export function SortToolbar({
   function selectSort(value: SortOption) {
     setOpen(false)
     const params = new URLSearchParams(searchParams.toString())
-    if (value === 'newest') params.delete('sort')
+    if (value === defaultSort) params.delete('sort')
     else params.set('sort', value)
     params.delete('page')
     startTransition(() => {
@@ -75,7 +81,7 @@ export function SortToolbar({
 
   const from = (currentPage - 1) * pageSize + 1
   const to = Math.min(currentPage * pageSize, total)
-  const currentLabel = SORT_OPTIONS.find((o) => o.value === currentSort)?.label
+  const currentLabel = options.find((o) => o.value === currentSort)?.label
                     ?? 'Toon nieuwste eerst'
 
   return (
@@ -105,7 +111,7 @@ export function SortToolbar({
             role="listbox"
             className="absolute right-0 mt-2 z-20 min-w-[220px] bg-surface border border-divider shadow-card-hover py-1"
           >
-            {SORT_OPTIONS.map((opt) => {
+            {options.map((opt) => {
               const disabled = opt.value === 'nearest' && !hasLocation
               const selected = opt.value === currentSort
               return (
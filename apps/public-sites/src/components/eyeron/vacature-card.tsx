@@ -2,6 +2,7 @@ import Link from 'next/link'
 import { Briefcase, Clock, GraduationCap } from 'lucide-react'
 import type { JobPosting } from '@/lib/queries'
 import { unwrapDescription } from '@/lib/utils'
+import { getDictionary, jobPath, type Locale } from '@/lib/i18n'
 import { ArrowRight } from './arrow-right'
 import { SaveJobButton } from './save-job-button'
 
@@ -9,6 +10,8 @@ interface VacatureCardProps {
   job: JobPosting
   /** Optionele afstand in km (server-side berekend uit user-coords). */
   distanceKm?: number | null
+  /** Taal van de kaart; `en` linkt naar de Engelse detailpagina. */
+  locale?: Locale
 }
 
 /**
@@ -19,11 +22,15 @@ interface VacatureCardProps {
  *
  * Mobile (<sm): stacked layout met logo bovenop (100px) en meta onder content.
  */
-export function VacatureCard({ job, distanceKm }: VacatureCardProps) {
-  const detailHref = `/vacature/${job.slug || job.id}`
+export function VacatureCard({ job, distanceKm, locale }: VacatureCardProps) {
+  const t = getDictionary(locale)
+  const detailHref = jobPath(job.slug || job.id, locale)
   const company = job.company
   const employment = formatEmployment(job.employment, job.job_type)
-  const hours = formatHours(job.working_hours_min, job.working_hours_max)
+  const hours =
+    job.working_hours_min == null && job.working_hours_max == null
+      ? null
+      : t.hours(job.working_hours_min, job.working_hours_max)
   const education = job.education_level
 
   return (
@@ -70,7 +77,7 @@ export function VacatureCard({ job, distanceKm }: VacatureCardProps) {
           className="relative z-[2] inline-flex items-center gap-2 text-meta font-regular text-secondary hover:text-secondary-hover hover:underline underline-offset-2 mt-1"
         >
           <ArrowRight width={13} height={8} />
-          Bekijk vacature
+          {t.card.view}
         </Link>
         {job.url && (
           <a
@@ -80,13 +87,13 @@ export function VacatureCard({ job, distanceKm }: VacatureCardProps) {
             className="relative z-[2] inline-flex items-center gap-2 text-meta font-bold text-primary hover:text-primary-hover hover:underline underline-offset-2"
           >
             <ArrowRight width={13} height={8} />
-            Solliciteer direct
+            {t.card.apply}
           </a>
         )}
       </div>
 
       <div className="absolute top-0 right-0 z-[2]">
-        <SaveJobButton jobId={job.id} variant="card-corner" />
+        <SaveJobButton jobId={job.id} variant="card-corner" locale={locale} />
       </div>
     </article>
   )
@@ -146,12 +153,6 @@ function formatEmployment(
   return parts.length > 0 ? parts.join(' / ') : null
 }
 
-function formatHours(min: number | null, max: number | null): string | null {
-  if (min == null && max == null) return null
-  if (min != null && max != null && min !== max) return `${min} tot ${max} uur`
-  return `${min ?? max} uur`
-}
-
 /** Strip HTML/markdown tot een leesbare 1-regel preview. */
 function plainText(input: string): string {
   return (unwrapDescription(input) ?? '')
@@ -0,0 +1,93 @@
+/**
+ * Mails rond een native sollicitatie: bevestiging naar de kandidaat en de
+ * sollicitatie zelf naar het werkgever-contact (CV als bijlage).
+ */
+
+import type { Tenant } from './tenant'
+import { emailButton, emailLayout, escapeHtml, type RenderedEmail } from './email-layout'
+
+export interface ApplicationMailInput {
+  tenant: Tenant
+  baseUrl: string
+  job: { id: string; title: string; slug: string | null }
+  companyName: string
+  candidate: { name: string; email: string; phone: string | null }
+  motivation: string | null
+}
+
+function jobUrl({ baseUrl, job }: Pick<ApplicationMailInput, 'baseUrl' | 'job'>): string {
+  return `${baseUrl}/vacature/${job.slug || job.id}`
+}
+
+/** Tekst → HTML-paragrafen met behoud van regeleindes. */
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((p) => `<p style="margin:0 0 12px">${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('')
+}
+
+export function renderApplicationConfirmEmail(input: ApplicationMailInput): RenderedEmail {
+  const { tenant, baseUrl, job, companyName, candidate } = input
+  const url = jobUrl(input)
+  const subject = `Je sollicitatie op ${job.title} is verstuurd`
+  const html = emailLayout(
+    tenant,
+    baseUrl,
+    `<h1 style="font-size:22px;margin:0 0 12px">Bedankt voor je sollicitatie</h1>
+<p style="margin:0 0 12px">Hoi ${escapeHtml(candidate.name)},</p>
+<p style="margin:0 0 12px">Je sollicitatie op <strong>${escapeHtml(job.title)}</strong> bij ${escapeHtml(companyName)} is ontvangen en doorgestuurd naar de werkgever. Die neemt rechtstreeks contact met je op.</p>
+<p style="margin:0 0 24px">${emailButton(url, 'Bekijk de vacature', tenant)}</p>
+<p style="margin:0;font-size:13px;color:#6b6b6b">Heb je een account? Dan zie je de status ook onder Mijn sollicitaties.</p>`,
+    `Deze mail is verstuurd door ${escapeHtml(tenant.name)}.`
+  )
+  const text = [
+    `Hoi ${candidate.name},`,
+    '',
+    `Je sollicitatie op ${job.title} bij ${companyName} is ontvangen en doorgestuurd naar de werkgever. Die neemt rechtstreeks contact met je op.`,
+    '',
+    `Vacature: ${url}`,
+  ].join('\n')
+  return { subject, html, text }
+}
+
+export function renderApplicationEmployerEmail(input: ApplicationMailInput): RenderedEmail {
+  const { tenant, baseUrl, job, candidate, motivation } = input
+  const url = jobUrl(input)
+  const subject = `Nieuwe sollicitatie: ${job.title} - ${candidate.name}`
+  const contactRows = [
+    ['Naam', candidate.name],
+    ['E-mail', candidate.email],
+    ['Telefoon', candidate.phone],
+  ]
+    .filter(([, v]) => v)
+    .map(
+      ([k, v]) =>
+        `<tr><td style="padding:2px 12px 2px 0;color:#6b6b6b">${k}</td><td style="padding:2px 0">${escapeHtml(v as string)}</td></tr>`
+    )
+    .join('')
+  const html = emailLayout(
+    tenant,
+    baseUrl,
+    `<h1 style="font-size:22px;margin:0 0 12px">Nieuwe sollicitatie</h1>
+<p style="margin:0 0 16px">Via ${escapeHtml(tenant.name)} is gesolliciteerd op <a href="${url}">${escapeHtml(job.title)}</a>.</p>
+<table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 0 16px;font-size:14px">${contactRows}</table>
+${motivation ? `<h2 style="font-size:16px;margin:16px 0 8px">Motivatie</h2>${paragraphs(motivation)}` : ''}
+<p style="margin:16px 0 0;font-size:13px;color:#6b6b6b">Het CV staat als bijlage bij deze mail. Beantwoord deze mail om direct te reageren aan de kandidaat.</p>`,
+    `Je ontvangt deze mail als contactpersoon bij een vacature op ${escapeHtml(tenant.name)}.`
+  )
+  const text = [
+    `Via ${tenant.name} is gesolliciteerd op ${job.title}.`,
+    url,
+    '',
+    `Naam:     ${candidate.name}`,
+    `E-mail:   ${candidate.email}`,
+    candidate.phone ? `Telefoon: ${candidate.phone}` : null,
+    '',
+    motivation ? `Motivatie:\n${motivation}\n` : null,
+    'Het CV staat als bijlage bij deze mail. Beantwoord deze mail om direct te reageren aan de kandidaat.',
+  ]
+    .filter((line) => line !== null)
+    .join('\n')
+  return { subject, html, text }
+}
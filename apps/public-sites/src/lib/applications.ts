@@ -0,0 +1,113 @@
+/**
+ * Native sollicitaties (method `internal_form`): validatie van uploads,
+ * opslag in de private bucket `application-documents` en het bepalen van
+ * het werkgever-contact waar de sollicitatie naartoe gaat.
+ *
+ * Alleen server-side gebruiken: alles loopt via de service-role client.
+ */
+
+import { createApplicationServiceClient } from './supabase'
+
+export type ApplicationStatus =
+  | 'submitted'
+  | 'forwarded'
+  | 'in_review'
+  | 'invited'
+  | 'rejected'
+  | 'hired'
+  | 'withdrawn'
+
+/** Kandidaat-vriendelijke labels voor /account/sollicitaties. */
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  submitted: 'Ontvangen',
+  forwarded: 'Doorgestuurd naar werkgever',
+  in_review: 'In behandeling',
+  invited: 'Uitgenodigd voor gesprek',
+  rejected: 'Afgewezen',
+  hired: 'Aangenomen',
+  withdrawn: 'Ingetrokken',
+}
+
+/** Statussen waarin de kandidaat de sollicitatie nog kan intrekken. */
+export const WITHDRAWABLE_STATUSES: ApplicationStatus[] = ['submitted', 'forwarded', 'in_review', 'invited']
+
+export const APPLICATION_BUCKET = 'application-documents'
+
+/**
+ * Vercel weigert request bodies boven 4.5 MB, en de bestanden gaan als
+ * server-action FormData mee. Daarom een limiet op het totaal, niet per file.
+ */
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024
+
+const ALLOWED_TYPES: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+}
+
+export const ALLOWED_UPLOAD_ACCEPT = '.pdf,.doc,.docx'
+
+/** Extensie voor een toegestaan bestandstype, anders null. */
+export function uploadExtension(file: File): string | null {
+  const byType = ALLOWED_TYPES[file.type]
+  if (byType) return byType
+  // Sommige browsers sturen een lege of generieke MIME-type mee.
+  const ext = file.name.split('.').pop()?.toLowerCase()
+  return ext && Object.values(ALLOWED_TYPES).includes(ext) ? ext : null
+}
+
+export interface EmployerContact {
+  email: string
+  name: string | null
+}
+
+/**
+ * Contact van het bedrijf dat sollicitaties ontvangt: key contact eerst,
+ * daarna laagste `contact_priority`. Geblokkeerde of gebouncete adressen
+ * tellen niet mee.
+ */
+export async function findEmployerContact(companyId: string | null): Promise<EmployerContact | null> {
+  if (!companyId) return null
+  const supabase = createApplicationServiceClient()
+  const { data } = await supabase
+    .from('contacts')
+    .select('email, name, first_name, last_name, is_key_contact, contact_priority')
+    .eq('company_id', companyId)
+    .not('email', 'is', null)
+    .not('is_blocked', 'is', true)
+    .not('instantly_bounced', 'is', true)
+    .order('is_key_contact', { ascending: false, nullsFirst: false })
+    .order('contact_priority', { ascending: true, nullsFirst: false })
+    .limit(1)
+    .maybeSingle()
+  if (!data?.email) return null
+  const name =
+    (data.name as string | null) ??
+    ([data.first_name, data.last_name].filter(Boolean).join(' ') || null)
+  return { email: data.email as string, name }
+}
+
+/** Upload naar de private bucket; geeft het storage-pad terug. */
+export async function storeApplicationFile(
+  platformId: string,
+  jobId: string,
+  kind: 'cv' | 'motivatie',
+  file: File,
+  ext: string
+): Promise<string> {
+  const path = `${platformId}/${jobId}/${crypto.randomUUID()}-${kind}.${ext}`
+  const supabase = createApplicationServiceClient()
+  const { error } = await supabase.storage
+    .from(APPLICATION_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined, upsert: false })
+  if (error) throw new Error(`upload ${kind}: ${error.message}`)
+  return path
+}
+
+/** Uploads van een sollicitatie die niet is doorgekomen weer opruimen (best effort). */
+export async function removeApplicationFiles(paths: Array<string | null>): Promise<void> {
+  const files = paths.filter((path): path is string => Boolean(path))
+  if (files.length === 0) return
+  const { error } = await createApplicationServiceClient().storage.from(APPLICATION_BUCKET).remove(files)
+  if (error) console.error('[apply] opruimen uploads mislukt:', error.message)
+}
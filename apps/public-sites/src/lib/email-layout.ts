@@ -0,0 +1,45 @@
+/**
+ * Gedeelde HTML-layout voor transactionele mails van de publieke sites
+ * (vacaturealerts, sollicitaties), in de huisstijl van het portaal.
+ *
+ * Mailclients negeren `<style>`-blokken en CSS-variabelen, dus de kleuren uit
+ * `resolveTheme` worden hier als inline styles gezet. Layout bewust simpel
+ * (één kolom, tabellen) zodat Outlook het ook rendert.
+ */
+
+import { resolveTheme } from './theme'
+import type { Tenant } from './tenant'
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function emailLayout(tenant: Tenant, baseUrl: string, body: string, footer: string): string {
+  const theme = resolveTheme({ primary: tenant.primary_color, secondary: tenant.secondary_color })
+  const logo = tenant.logo_url
+    ? `<img src="${escapeHtml(tenant.logo_url)}" alt="${escapeHtml(tenant.name)}" height="32" style="display:block;height:32px;border:0">`
+    : `<span style="font-size:20px;font-weight:700;color:${theme.primaryInk}">${escapeHtml(tenant.name)}</span>`
+  return `<!doctype html>
+<html lang="nl"><body style="margin:0;padding:0;background:#f5f4f0;font-family:Arial,Helvetica,sans-serif;color:#1a1a1a">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f5f4f0"><tr><td align="center" style="padding:24px 12px">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff">
+<tr><td style="background:${theme.primary};padding:20px 24px"><a href="${baseUrl}" style="text-decoration:none">${logo}</a></td></tr>
+<tr><td style="padding:24px">${body}</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #e5e3dc;font-size:12px;color:#6b6b6b">${footer}</td></tr>
+</table></td></tr></table></body></html>`
+}
+
+export function emailButton(href: string, label: string, tenant: Tenant): string {
+  const theme = resolveTheme({ primary: tenant.primary_color, secondary: tenant.secondary_color })
+  return `<a href="${href}" style="display:inline-block;background:${theme.secondary};color:${theme.secondaryInk};padding:12px 20px;border-radius:999px;font-weight:700;text-decoration:none">${escapeHtml(label)}</a>`
+}
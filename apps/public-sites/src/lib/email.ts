@@ -3,8 +3,8 @@ import { Resend } from 'resend'
 /**
  * Lazy Resend client - instantieert pas bij eerste gebruik zodat builds
  * zonder RESEND_API_KEY niet falen. Calls die geen key hebben → throw.
- * Op de public-sites wordt dit alleen aangeroepen vanuit server-actions
- * voor contactformulier-submissions naar info@lokalebanen.nl.
+ * Op de public-sites wordt dit aangeroepen vanuit server-actions (contact-
+ * formulier, vacaturealerts, sollicitaties) en de alert-digest cron.
  */
 let _resend: Resend | null = null
 export function getResendClient(): Resend {
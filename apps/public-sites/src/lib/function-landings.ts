@@ -0,0 +1,351 @@
+/**
+ * Programmatische landingspagina's functie x plaats
+ * (`/vacatures/<plaats>/<functie>`), voor zoekvragen als "vacatures
+ * chauffeur Eindhoven" of "zorg vacatures Veldhoven".
+ *
+ * - `FUNCTION_CATEGORIES`: vaste taxonomie; een functie matcht op een
+ *   sectorwaarde uit `job_postings.categories` en/of een woord in de titel.
+ * - `getFunctionCityLandings`: alle combinaties met minstens
+ *   `MIN_LANDING_JOBS` actieve vacatures (RPC `function_city_job_counts`).
+ *   Alleen die pagina's bestaan, staan in de sitemap en krijgen links.
+ * - `buildLandingIntro`: unieke introtekst uit de echte vacatures
+ *   (werkgevers, salaris, uren), zodat de pagina's niet op elkaar lijken.
+ */
+
+import { unstable_cache } from 'next/cache'
+import { slugifyCity } from '@lokale-banen/database'
+import { createPublicClient } from './supabase'
+import type { JobPosting } from './queries'
+
+export interface FunctionCategory {
+  slug: string
+  /** Zoals in "Vacatures voor {label} in Eindhoven". */
+  label: string
+  /** Waarden uit `job_postings.categories` (sector). */
+  categories: string[]
+  /** Woorden die in de titel moeten voorkomen (case-insensitive). */
+  titleKeywords: string[]
+  /** Eén zin over het werk; begin van de introtekst. */
+  blurb: string
+}
+
+export const FUNCTION_CATEGORIES: FunctionCategory[] = [
+  {
+    slug: 'chauffeur',
+    label: 'chauffeurs',
+    categories: [],
+    titleKeywords: ['chauffeur', 'bestuurder', 'bezorger'],
+    blurb: 'Als chauffeur ben je de schakel tussen bedrijf en klant, op de bus, de bestelwagen of de vrachtwagen.',
+  },
+  {
+    slug: 'zorg',
+    label: 'de zorg',
+    categories: ['Medisch/Zorg'],
+    titleKeywords: ['verpleegkundige', 'verzorgende', 'zorgmedewerker', 'begeleider'],
+    blurb: 'In de zorg werk je dicht bij mensen: in een ziekenhuis, verpleeghuis, de thuiszorg of de gehandicaptenzorg.',
+  },
+  {
+    slug: 'techniek',
+    label: 'techniek',
+    categories: ['Techniek'],
+    titleKeywords: ['monteur', 'technicus', 'installateur', 'elektricien'],
+    blurb: 'Technische vakmensen installeren, onderhouden en repareren alles van installaties tot machines.',
+  },
+  {
+    slug: 'logistiek',
+    label: 'logistiek',
+    categories: ['Inkoop/Logistiek/Transport'],
+    titleKeywords: ['magazijn', 'orderpicker', 'heftruck', 'logistiek'],
+    blurb: 'In de logistiek zorg je dat goederen op tijd binnenkomen, worden opgeslagen en de deur weer uitgaan.',
+  },
+  {
+    slug: 'productie',
+    label: 'productie',
+    categories: ['Productie/Uitvoerend'],
+    titleKeywords: ['productiemedewerker', 'operator', 'inpakker'],
+    blurb: 'Productiewerk draait om het maken, bedienen en controleren van producten, vaak in ploegendienst.',
+  },
+  {
+    slug: 'administratie',
+    label: 'administratief werk',
+    categories: ['Administratief/Secretarieel', 'Financieel/Accounting'],
+    titleKeywords: ['administratief', 'boekhouder', 'secretaresse', 'officemanager'],
+    blurb: 'Administratieve functies houden de organisatie op orde: van facturen en planning tot secretariaat.',
+  },
+  {
+    slug: 'horeca',
+    label: 'horeca en retail',
+    categories: ['Horeca/Detailhandel'],
+    titleKeywords: ['kok', 'keukenmedewerker', 'bediening', 'winkelmedewerker'],
+    blurb: 'In de horeca en de winkel sta je direct in contact met gasten en klanten.',
+  },
+  {
+    slug: 'ict',
+    label: 'ICT',
+    categories: ['Automatisering/Internet'],
+    titleKeywords: ['developer', 'ontwikkelaar', 'programmeur', 'systeembeheerder'],
+    blurb: 'ICT-professionals bouwen en beheren de software, systemen en netwerken waar bedrijven op draaien.',
+  },
+  {
+    slug: 'onderwijs',
+    label: 'het onderwijs',
+    categories: ['Onderwijs/Onderzoek/Wetenschap'],
+    titleKeywords: ['docent', 'leraar', 'leerkracht', 'onderwijsassistent'],
+    blurb: 'In het onderwijs help je kinderen, jongeren of volwassenen verder, van basisschool tot beroepsopleiding.',
+  },
+  {
+    slug: 'bouw',
+    label: 'de bouw',
+    categories: ['Bouw'],
+    titleKeywords: ['timmerman', 'metselaar', 'uitvoerder', 'loodgieter'],
+    blurb: 'In de bouw werk je aan woningen, utiliteit en infrastructuur, op de bouwplaats of op kantoor.',
+  },
+  {
+    slug: 'verkoop',
+    label: 'verkoop',
+    categories: ['Commercieel/Verkoop'],
+    titleKeywords: ['verkoper', 'accountmanager', 'verkoopmedewerker'],
+    blurb: 'Commerciële functies draaien om klanten vinden, adviseren en binnenhalen.',
+  },
+  {
+    slug: 'klantenservice',
+    label: 'klantenservice',
+    categories: ['Klantenservice/Callcenter/Receptie'],
+    titleKeywords: ['klantenservice', 'receptionist', 'klantcontact'],
+    blurb: 'Bij de klantenservice en receptie ben je het eerste aanspreekpunt, aan de telefoon, via chat of aan de balie.',
+  },
+  {
+    slug: 'schoonmaak',
+    label: 'schoonmaak',
+    categories: [],
+    titleKeywords: ['schoonmaak', 'schoonmaker', 'interieurverzorger'],
+    blurb: 'Schoonmakers zorgen voor schone kantoren, scholen, zorginstellingen en woningen.',
+  },
+]
+
+/** Minder actieve vacatures dan dit: geen pagina (dunne content). */
+export const MIN_LANDING_JOBS = 5
+
+export const LANDING_JOBS_PER_PAGE = 20
+
+export function getFunctionCategory(slug: string): FunctionCategory | null {
+  return FUNCTION_CATEGORIES.find((f) => f.slug === slug) ?? null
+}
+
+/** Functies waar deze vacature onder valt (voor links vanaf de detailpagina). */
+export function matchFunctionCategories(job: {
+  title: string
+  categories?: string | null
+}): FunctionCategory[] {
+  const title = job.title.toLowerCase()
+  return FUNCTION_CATEGORIES.filter(
+    (f) =>
+      (!!job.categories && f.categories.includes(job.categories)) ||
+      f.titleKeywords.some((k) => title.includes(k))
+  )
+}
+
+export interface FunctionCityLanding {
+  functionSlug: string
+  /** Label van de functie, bv. "chauffeurs". */
+  label: string
+  city: string
+  citySlug: string
+  count: number
+}
+
+async function fetchFunctionCityLandingsUncached(tenantId: string): Promise<FunctionCityLanding[]> {
+  const { data, error } = await createPublicClient().rpc('function_city_job_counts', {
+    p_platform_id: tenantId,
+    p_functions: FUNCTION_CATEGORIES.map((f) => ({
+      slug: f.slug,
+      categories: f.categories,
+      title_patterns: f.titleKeywords.map((k) => `%${k}%`),
+    })),
+  })
+  if (error || !data) return []
+
+  // Spellingvarianten van een plaats samenvoegen op slug, zoals
+  // getCitiesWithJobCounts; de meest voorkomende spelling wint.
+  const merged = new Map<string, { functionSlug: string; citySlug: string; names: Map<string, number>; count: number }>()
+  for (const row of data as { function_slug: string; city: string; job_count: number }[]) {
+    const citySlug = slugifyCity(row.city)
+    if (!citySlug) continue
+    const key = `${row.function_slug}:${citySlug}`
+    const entry = merged.get(key) ?? { functionSlug: row.function_slug, citySlug, names: new Map(), count: 0 }
+    const count = Number(row.job_count)
+    entry.count += count
+    entry.names.set(row.city, (entry.names.get(row.city) ?? 0) + count)
+    merged.set(key, entry)
+  }
+
+  const landings: FunctionCityLanding[] = []
+  for (const entry of merged.values()) {
+    const fn = getFunctionCategory(entry.functionSlug)
+    if (!fn || entry.count < MIN_LANDING_JOBS) continue
+    const city = [...entry.names.entries()].sort((a, b) => b[1] - a[1])[0][0]
+    landings.push({ functionSlug: fn.slug, label: fn.label, city, citySlug: entry.citySlug, count: entry.count })
+  }
+  return landings.sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Alle functie x plaats-combinaties boven de drempel, meeste vacatures
+ * eerst. Gecachet en mee-geïnvalideerd met tag `jobs:${tenantId}`.
+ */
+export async function getFunctionCityLandings(tenantId: string): Promise<FunctionCityLanding[]> {
+  const cached = unstable_cache(
+    () => fetchFunctionCityLandingsUncached(tenantId),
+    [`function-landings:${tenantId}`],
+    { tags: [`jobs:${tenantId}`], revalidate: 3600 }
+  )
+  return cached()
+}
+
+export async function getFunctionCityLanding(
+  tenantId: string,
+  citySlug: string,
+  functionSlug: string
+): Promise<FunctionCityLanding | null> {
+  const landings = await getFunctionCityLandings(tenantId)
+  return landings.find((l) => l.citySlug === citySlug && l.functionSlug === functionSlug) ?? null
+}
+
+function pgrstQuote(value: string): string {
+  return `"${value.replace(/["\\]/g, '')}"`
+}
+
+/** PostgREST `.or()`-filter: sector in de lijst of een titelwoord. */
+function functionOrFilter(fn: FunctionCategory): string {
+  return [
+    ...(fn.categories.length > 0 ? [`categories.in.(${fn.categories.map(pgrstQuote).join(',')})`] : []),
+    ...fn.titleKeywords.map((k) => `title.ilike.*${k}*`),
+  ].join(',')
+}
+
+export interface LandingJob extends JobPosting {
+  salary_month_min?: number | null
+  salary_month_max?: number | null
+}
+
+export async function getFunctionCityJobs(
+  tenantId: string,
+  fn: FunctionCategory,
+  city: string,
+  page = 1
+): Promise<{ jobs: LandingJob[]; total: number }> {
+  const from = (page - 1) * LANDING_JOBS_PER_PAGE
+  const { data, count, error } = await createPublicClient()
+    .from('job_postings')
+    .select(
+      `
+      id, title, slug, company_id, city, state,
+      employment, job_type, salary, salary_month_min, salary_month_max,
+      description, url, published_at, end_date, created_at,
+      working_hours_min, working_hours_max, categories,
+      companies!company_id (
+        id, name, slug, logo_url, website, linkedin_url, description, city
+      )
+    `,
+      { count: 'exact' }
+    )
+    .eq('platform_id', tenantId)
+    .eq('review_status', 'approved')
+    .not('published_at', 'is', null)
+    .is('archived_at', null)
+    .is('canonical_id', null)
+    .ilike('city', city)
+    .or(functionOrFilter(fn))
+    .order('published_at', { ascending: false })
+    .range(from, from + LANDING_JOBS_PER_PAGE - 1)
+
+  if (error || !data) return { jobs: [], total: 0 }
+  const jobs = (data as Record<string, unknown>[]).map((row) => ({
+    ...row,
+    company: Array.isArray(row.companies) ? row.companies[0] : row.companies,
+  })) as unknown as LandingJob[]
+  return { jobs, total: count ?? 0 }
+}
+
+function listNames(names: string[]): string {
+  if (names.length <= 1) return names[0] ?? ''
+  return `${names.slice(0, -1).join(', ')} en ${names[names.length - 1]}`
+}
+
+function euro(n: number): string {
+  return `€ ${Math.round(n).toLocaleString('nl-NL')}`
+}
+
+/** Kleine, stabiele hash om per pagina een zinsvariant te kiezen. */
+function variant(seed: string, options: number): number {
+  let h = 0
+  for (let i = 0; i < seed.length; i++) h = (h * 31 + seed.charCodeAt(i)) | 0
+  return Math.abs(h) % options
+}
+
+/**
+ * Introtekst uit de vacatures op de eerste pagina: aantal, de grootste
+ * werkgevers, het maandsalaris (fulltime) en het aandeel parttime.
+ */
+export function buildLandingIntro(
+  fn: FunctionCategory,
+  landing: FunctionCityLanding,
+  jobs: LandingJob[],
+  tenantName: string
+): string[] {
+  const employerCounts = new Map<string, number>()
+  for (const job of jobs) {
+    const name = job.company?.name
+    if (name) employerCounts.set(name, (employerCounts.get(name) ?? 0) + 1)
+  }
+  const employers = [...employerCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([name]) => name)
+
+  const salaries = jobs
+    .flatMap((j) => [j.salary_month_min, j.salary_month_max])
+    .filter((n): n is number => typeof n === 'number' && n > 0)
+  const withHours = jobs.filter((j) => j.working_hours_max != null)
+  const parttime = withHours.filter((j) => (j.working_hours_max ?? 0) < 32).length
+
+  const seed = `${landing.functionSlug}:${landing.citySlug}`
+  const opening = [
+    `Er staan op dit moment ${landing.count} vacatures voor ${fn.label} in ${landing.city} op ${tenantName}.`,
+    `Zoek je werk in ${fn.label} in ${landing.city}? ${tenantName} heeft nu ${landing.count} actuele vacatures.`,
+    `${landing.count} vacatures voor ${fn.label} in ${landing.city}: dat is het actuele aanbod op ${tenantName}.`,
+  ][variant(seed, 3)]
+
+  const paragraphs = [`${opening} ${fn.blurb}`]
+
+  const facts: string[] = []
+  if (employers.length > 0) {
+    facts.push(
+      employers.length === 1
+        ? `${employers[0]} is een van de werkgevers die nu werving heeft openstaan.`
+        : `Onder meer ${listNames(employers)} hebben nu vacatures openstaan.`
+    )
+  }
+  if (salaries.length >= 2) {
+    const min = Math.min(...salaries)
+    const max = Math.max(...salaries)
+    facts.push(
+      min === max
+        ? `Waar een salaris vermeld staat, ligt dat rond ${euro(min)} per maand (fulltime).`
+        : `Waar een salaris vermeld staat, ligt dat tussen ${euro(min)} en ${euro(max)} per maand (fulltime).`
+    )
+  }
+  if (withHours.length >= 3) {
+    const share = Math.round((parttime / withHours.length) * 100)
+    facts.push(
+      share >= 50
+        ? `Veel functies zijn parttime (${share}% onder de 32 uur), handig te combineren met andere verplichtingen.`
+        : share > 0
+        ? `De meeste functies zijn fulltime; ${share}% is ook parttime (onder de 32 uur).`
+        : 'Alle functies met een opgegeven urenaantal zijn fulltime.'
+    )
+  }
+  if (facts.length > 0) paragraphs.push(facts.join(' '))
+
+  return paragraphs
+}
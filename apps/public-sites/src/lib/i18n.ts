@@ -0,0 +1,256 @@
+/**
+ * UI-teksten per taal voor de publieke sites. Nederlands is de standaard;
+ * Engels bedient internationale kandidaten op `/en` (alleen vacatures die
+ * de werkgever als "English-friendly" markeert, zie `job-translations.ts`).
+ *
+ * Componenten krijgen een optionele `locale`-prop en halen hun teksten via
+ * `getDictionary(locale)`; zonder prop blijft alles Nederlands. Bewust een
+ * plat object zonder i18n-library: de Engelse set beslaat alleen de
+ * vacaturepagina's en wat daar omheen zit.
+ */
+
+export type Locale = 'nl' | 'en'
+
+export const DEFAULT_LOCALE: Locale = 'nl'
+
+/** Taalcode voor `hreflang` en `<html lang>`. */
+export const HREFLANG: Record<Locale, string> = {
+  nl: 'nl-NL',
+  en: 'en',
+}
+
+const nl = {
+  dateLocale: 'nl-NL',
+  header: {
+    nav: [
+      { label: 'Vacatures', href: '/vacatures' },
+      { label: 'Bedrijven', href: '/bedrijven' },
+      { label: 'Werkgevers', href: '/werkgevers' },
+      { label: 'Hulp', href: '/contact' },
+    ],
+    home: 'Naar de homepage',
+    mainNav: 'Hoofdnavigatie',
+    saved: 'Opgeslagen vacatures',
+    postJob: 'Vacature plaatsen',
+    openMenu: 'Open menu',
+    closeMenu: 'Sluit menu',
+  },
+  footer: {
+    tagline:
+      'Onderdeel van het LokaleBanen-netwerk. Tientallen regionale sites, één missie: werk dichtbij huis vinden.',
+    jobSeekers: 'Werkzoekenden',
+    searchJobs: 'Vacatures zoeken',
+    saved: 'Opgeslagen vacatures',
+    employers: 'Werkgevers',
+    employerLinks: [
+      { label: 'Plaats vacature', href: '/werkgevers' },
+      { label: 'Tarieven', href: '/werkgevers/pakketten' },
+    ],
+    about: 'Over LokaleBanen',
+    aboutLinks: [
+      { label: 'Over ons', href: '/over-ons' },
+      { label: 'Contact', href: '/contact' },
+      { label: 'Privacy', href: '/privacy' },
+      { label: 'Voorwaarden', href: '/voorwaarden' },
+    ],
+    rights: 'Alle rechten voorbehouden',
+    network: 'LokaleBanen netwerk',
+  },
+  breadcrumbs: 'Kruimelpad',
+  pagination: {
+    label: 'Paginering',
+    previous: 'Vorige pagina',
+    next: 'Volgende pagina',
+  },
+  card: {
+    view: 'Bekijk vacature',
+    apply: 'Solliciteer direct',
+  },
+  apply: {
+    expired: 'Vacature verlopen',
+    noLink: 'Geen sollicitatielink',
+    apply: 'Solliciteer direct',
+  },
+  save: {
+    save: 'Vacature opslaan',
+    unsave: 'Verwijder uit opgeslagen',
+    signUp: 'Maak een account aan',
+    signUpRest: 'om je opgeslagen vacatures permanent te bewaren.',
+  },
+  share: {
+    label: 'Delen:',
+    whatsapp: 'Deel via WhatsApp',
+    copy: 'Kopieer link',
+    copied: 'Link gekopieerd',
+  },
+  applicationForm: {
+    heading: 'Solliciteer direct',
+    intro: (jobTitle: string) => `Je sollicitatie op ${jobTitle} gaat rechtstreeks naar de werkgever.`,
+    name: 'Naam',
+    email: 'E-mail',
+    phone: 'Telefoon',
+    motivation: 'Motivatie',
+    cv: 'CV (PDF of Word)',
+    letter: 'Motivatiebrief (optioneel)',
+    submit: 'Verstuur sollicitatie',
+    submitting: 'Versturen...',
+    fileNote: 'Bestanden samen max 4 MB. We delen je gegevens alleen met deze werkgever.',
+    tooLarge: 'Bestanden zijn te groot (samen max 4 MB).',
+  },
+  job: {
+    unknownCompany: 'Onbekend bedrijf',
+    expired: 'Deze vacature is verlopen en niet meer beschikbaar.',
+    noDescription:
+      'Er is geen beschrijving beschikbaar voor deze vacature. Bezoek de website van de werkgever voor meer informatie.',
+    about: (company: string) => `Over ${company}`,
+    allJobsAt: (company: string) => `Alle vacatures bij ${company}`,
+    otherJobsIn: (city: string) => `Andere vacatures in ${city}`,
+    otherJobs: 'Andere vacatures',
+    otherJobsNote: 'Vacatures bij andere werkgevers in dezelfde regio',
+    salary: 'Salaris',
+    employment: 'Dienstverband',
+    hoursPerWeek: 'Uren per week',
+    education: 'Opleiding',
+    location: 'Locatie',
+    posted: 'Geplaatst',
+  },
+  hours: (min: number | null, max: number | null) =>
+    min != null && max != null && min !== max ? `${min} tot ${max} uur` : `${min ?? max} uur`,
+  relative: {
+    today: 'Vandaag',
+    yesterday: 'Gisteren',
+    daysAgo: (n: number) => `${n} dagen geleden`,
+    weeksAgo: (n: number) => `${n} weken geleden`,
+  },
+}
+
+export type Dictionary = typeof nl
+
+const en: Dictionary = {
+  dateLocale: 'en-GB',
+  header: {
+    nav: [
+      { label: 'Jobs', href: '/en/vacatures' },
+      { label: 'Companies', href: '/bedrijven' },
+      { label: 'Employers', href: '/werkgevers' },
+      { label: 'Help', href: '/contact' },
+    ],
+    home: 'Go to the homepage',
+    mainNav: 'Main navigation',
+    saved: 'Saved jobs',
+    postJob: 'Post a job',
+    openMenu: 'Open menu',
+    closeMenu: 'Close menu',
+  },
+  footer: {
+    tagline:
+      'Part of the LokaleBanen network. Dozens of regional sites, one mission: finding work close to home.',
+    jobSeekers: 'Job seekers',
+    searchJobs: 'Search jobs',
+    saved: 'Saved jobs',
+    employers: 'Employers',
+    employerLinks: [
+      { label: 'Post a job', href: '/werkgevers' },
+      { label: 'Pricing', href: '/werkgevers/pakketten' },
+    ],
+    about: 'About LokaleBanen',
+    aboutLinks: [
+      { label: 'About us', href: '/over-ons' },
+      { label: 'Contact', href: '/contact' },
+      { label: 'Privacy', href: '/privacy' },
+      { label: 'Terms', href: '/voorwaarden' },
+    ],
+    rights: 'All rights reserved',
+    network: 'LokaleBanen network',
+  },
+  breadcrumbs: 'Breadcrumb',
+  pagination: {
+    label: 'Pagination',
+    previous: 'Previous page',
+    next: 'Next page',
+  },
+  card: {
+    view: 'View job',
+    apply: 'Apply now',
+  },
+  apply: {
+    expired: 'Job expired',
+    noLink: 'No application link',
+    apply: 'Apply now',
+  },
+  save: {
+    save: 'Save job',
+    unsave: 'Remove from saved jobs',
+    signUp: 'Create an account',
+    signUpRest: 'to keep your saved jobs permanently.',
+  },
+  share: {
+    label: 'Share:',
+    whatsapp: 'Share via WhatsApp',
+    copy: 'Copy link',
+    copied: 'Link copied',
+  },
+  applicationForm: {
+    heading: 'Apply now',
+    intro: (jobTitle: string) => `Your application for ${jobTitle} goes straight to the employer.`,
+    name: 'Name',
+    email: 'Email',
+    phone: 'Phone',
+    motivation: 'Motivation',
+    cv: 'CV (PDF or Word)',
+    letter: 'Cover letter (optional)',
+    submit: 'Send application',
+    submitting: 'Sending...',
+    fileNote: 'Files up to 4 MB combined. We only share your details with this employer.',
+    tooLarge: 'Files are too large (4 MB combined at most).',
+  },
+  job: {
+    unknownCompany: 'Unknown company',
+    expired: 'This job has expired and is no longer available.',
+    noDescription:
+      "No description is available for this job. Visit the employer's website for more information.",
+    about: (company: string) => `About ${company}`,
+    allJobsAt: (company: string) => `All jobs at ${company}`,
+    otherJobsIn: (city: string) => `Other jobs in ${city}`,
+    otherJobs: 'Other jobs',
+    otherJobsNote: 'Jobs at other employers in the same region',
+    salary: 'Salary',
+    employment: 'Employment',
+    hoursPerWeek: 'Hours per week',
+    education: 'Education',
+    location: 'Location',
+    posted: 'Posted',
+  },
+  hours: (min: number | null, max: number | null) =>
+    min != null && max != null && min !== max ? `${min} to ${max} hours` : `${min ?? max} hours`,
+  relative: {
+    today: 'Today',
+    yesterday: 'Yesterday',
+    daysAgo: (n: number) => `${n} days ago`,
+    weeksAgo: (n: number) => (n === 1 ? '1 week ago' : `${n} weeks ago`),
+  },
+}
+
+const DICTIONARIES: Record<Locale, Dictionary> = { nl, en }
+
+export function getDictionary(locale: Locale = DEFAULT_LOCALE): Dictionary {
+  return DICTIONARIES[locale]
+}
+
+/** Detail-URL van een vacature in de gegeven taal. */
+export function jobPath(slug: string, locale: Locale = DEFAULT_LOCALE): string {
+  return locale === 'en' ? `/en/vacature/${slug}` : `/vacature/${slug}`
+}
+
+/**
+ * `hreflang`-alternates van een vacature met een Engelse pagina; de
+ * Nederlandse versie is ook de x-default.
+ */
+export function jobLanguageAlternates(baseUrl: string, slug: string): Record<string, string> {
+  const nlUrl = `${baseUrl}${jobPath(slug, 'nl')}`
+  return {
+    [HREFLANG.nl]: nlUrl,
+    [HREFLANG.en]: `${baseUrl}${jobPath(slug, 'en')}`,
+    'x-default': nlUrl,
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * HTML + tekst voor vacaturealert-mails, in de huisstijl van het portaal
+ * (layout uit `email-layout.ts`).
+ */
+
+import { resolveTheme } from './theme'
+import type { Tenant } from './tenant'
+import { emailButton, emailLayout, escapeHtml, type RenderedEmail } from './email-layout'
+
+export interface AlertEmailJob {
+  id: string
+  title: string
+  slug: string | null
+  city: string | null
+  salary: string | null
+  employment: string | null
+  published_at: string
+  company_name: string | null
+}
+
+export function renderAlertConfirmEmail(input: {
+  tenant: Tenant
+  baseUrl: string
+  filterLabel: string
+  confirmUrl: string
+}): RenderedEmail {
+  const { tenant, baseUrl, filterLabel, confirmUrl } = input
+  const subject = `Bevestig je vacaturealert bij ${tenant.name}`
+  const html = emailLayout(
+    tenant,
+    baseUrl,
+    `<h1 style="font-size:22px;margin:0 0 12px">Bevestig je vacaturealert</h1>
+<p style="margin:0 0 8px">Je hebt een vacaturealert aangemaakt voor:</p>
+<p style="margin:0 0 20px;font-weight:700">${escapeHtml(filterLabel)}</p>
+<p style="margin:0 0 24px">${emailButton(confirmUrl, 'Alert bevestigen', tenant)}</p>
+<p style="margin:0;font-size:13px;color:#6b6b6b">Heb je dit niet aangevraagd? Dan kun je deze mail negeren; zonder bevestiging sturen we niets.</p>`,
+    `Deze mail is verstuurd door ${escapeHtml(tenant.name)}.`
+  )
+  const text = [
+    `Je hebt een vacaturealert aangemaakt bij ${tenant.name} voor: ${filterLabel}`,
+    '',
+    `Bevestig via: ${confirmUrl}`,
+    '',
+    'Heb je dit niet aangevraagd? Dan kun je deze mail negeren.',
+  ].join('\n')
+  return { subject, html, text }
+}
+
+export function renderAlertDigestEmail(input: {
+  tenant: Tenant
+  baseUrl: string
+  filterLabel: string
+  searchUrl: string
+  unsubscribeUrl: string
+  jobs: AlertEmailJob[]
+  total: number
+  /** Aanbevolen vacatures uit het werkzoekendenprofiel (alleen ingelogde gebruikers). */
+  recommended?: AlertEmailJob[]
+}): RenderedEmail {
+  const { tenant, baseUrl, filterLabel, searchUrl, unsubscribeUrl, jobs, total, recommended = [] } = input
+  const theme = resolveTheme({ primary: tenant.primary_color, secondary: tenant.secondary_color })
+  const subject =
+    total === 1
+      ? `1 nieuwe vacature: ${jobs[0].title}`
+      : `${total} nieuwe vacatures voor ${filterLabel}`
+
+  const jobRows = (list: AlertEmailJob[]) =>
+    list
+      .map((job) => {
+        const url = `${baseUrl}/vacature/${job.slug || job.id}`
+        const meta = [job.company_name, job.city, job.employment].filter(Boolean).join(' · ')
+        const salary = job.salary && job.salary.trim() !== '-' ? job.salary : null
+        return `<tr><td style="padding:12px 0;border-bottom:1px solid #e5e3dc">
+<a href="${url}" style="font-size:16px;font-weight:700;color:${theme.primary};text-decoration:none">${escapeHtml(job.title)}</a>
+${meta ? `<div style="font-size:13px;color:#6b6b6b;margin-top:2px">${escapeHtml(meta)}</div>` : ''}
+${salary ? `<div style="font-size:13px;font-weight:700;margin-top:2px">${escapeHtml(salary)}</div>` : ''}
+</td></tr>`
+      })
+      .join('\n')
+  const rows = jobRows(jobs)
+
+  const recommendedHtml =
+    recommended.length > 0
+      ? `<h2 style="font-size:18px;margin:32px 0 4px">Aanbevolen voor jou</h2>
+<p style="margin:0 0 8px;color:#6b6b6b">Op basis van je voorkeuren in je profiel.</p>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${jobRows(recommended)}</table>`
+      : ''
+
+  const more = total > jobs.length ? `Bekijk alle ${total} vacatures` : 'Bekijk alle vacatures'
+  const html = emailLayout(
+    tenant,
+    baseUrl,
+    `<h1 style="font-size:22px;margin:0 0 4px">Nieuwe vacatures</h1>
+<p style="margin:0 0 16px;color:#6b6b6b">${escapeHtml(filterLabel)}</p>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows}</table>
+<p style="margin:24px 0 0">${emailButton(searchUrl, more, tenant)}</p>${recommendedHtml}`,
+    `Je ontvangt deze mail omdat je een vacaturealert hebt bij ${escapeHtml(tenant.name)}. <a href="${unsubscribeUrl}" style="color:#6b6b6b">Afmelden</a>`
+  )
+
+  const text = [
+    `Nieuwe vacatures bij ${tenant.name} voor: ${filterLabel}`,
+    '',
+    ...jobs.map((job) =>
+      [
+        job.title,
+        [job.company_name, job.city].filter(Boolean).join(', '),
+        `${baseUrl}/vacature/${job.slug || job.id}`,
+        '',
+      ].join('\n')
+    ),
+    `${more}: ${searchUrl}`,
+    '',
+    ...(recommended.length > 0
+      ? [
+          'Aanbevolen voor jou (op basis van je profiel):',
+          '',
+          ...recommended.map((job) => `${job.title}\n${baseUrl}/vacature/${job.slug || job.id}\n`),
+        ]
+      : []),
+    `Afmelden: ${unsubscribeUrl}`,
+  ].join('\n')
+
+  return { subject, html, text }
+}
@@ -0,0 +1,377 @@
+/**
+ * Vacaturealerts: opgeslagen JobFilter per portaal, gemaild als digest.
+ *
+ * - `normalizeAlertFilter` maakt van de /vacatures-searchParams een stabiel
+ *   filter (zelfde filter = zelfde alert, unique index in de DB).
+ * - `runJobAlertDigest` wordt door de cron-route aangeroepen: per actieve
+ *   alert de nieuwe vacatures sinds `cursor_published_at` ophalen met exact
+ *   dezelfde filterlogica als de listing (`applyJobFilter`), mailen via
+ *   Resend en de cursor doorschuiven. Alerts van ingelogde gebruikers met
+ *   een werkzoekendenprofiel krijgen daaronder een paar aanbevolen vacatures
+ *   (`getRecommendedJobs`).
+ *
+ * Alleen server-side gebruiken: alles loopt via de service-role client.
+ */
+
+import { applyJobFilter, jobsSearchArgs, type JobFilter } from './queries'
+import { createJobAlertServiceClient } from './supabase'
+import { getTenantById, type Tenant } from './tenant'
+import { getResendClient, MAIL_FROM } from './email'
+import { renderAlertDigestEmail, type AlertEmailJob } from './job-alert-email'
+import { getJobSeekerProfile, getRecommendedJobs, type JobSeekerProfile } from './recommendations'
+
+export type AlertFrequency = 'daily' | 'instant'
+export type AlertStatus = 'pending' | 'active' | 'unsubscribed'
+export type AlertFilter = Pick<JobFilter, 'query' | 'location' | 'type' | 'hours' | 'education' | 'sector'>
+
+export interface JobAlert {
+  id: string
+  platform_id: string
+  user_id: string | null
+  email: string
+  filter: AlertFilter
+  frequency: AlertFrequency
+  status: AlertStatus
+  confirm_token: string
+  unsubscribe_token: string
+  confirmed_at: string | null
+  cursor_published_at: string | null
+  last_sent_at: string | null
+  created_at: string
+}
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['daily', 'instant']
+export const MAX_ALERTS_PER_EMAIL = 10
+/** Max. vacatures per digest-mail; de rest staat achter de "bekijk alle"-link. */
+export const DIGEST_MAX_JOBS = 10
+/** Max. aanbevolen vacatures onder de digest. */
+export const DIGEST_MAX_RECOMMENDED = 3
+
+const HOURS_VALUES = ['lt36', '36-40', 'gt40']
+
+function cleanText(v: unknown, max = 100): string | undefined {
+  if (typeof v !== 'string') return undefined
+  const t = v.trim().slice(0, max)
+  return t || undefined
+}
+
+function cleanList(v: unknown): string[] | undefined {
+  const raw = Array.isArray(v) ? v : typeof v === 'string' ? v.split(',') : []
+  const list = [...new Set(raw.map((x) => cleanText(x)).filter((x): x is string => !!x))].sort()
+  return list.length > 0 ? list.slice(0, 20) : undefined
+}
+
+/**
+ * Stabiel alert-filter uit ruwe input (searchParams of form-velden). Lege
+ * velden vallen weg en lijsten worden gesorteerd, zodat hetzelfde filter
+ * altijd dezelfde JSON oplevert.
+ */
+export function normalizeAlertFilter(input: Record<string, unknown>): AlertFilter {
+  const filter: AlertFilter = {}
+  const query = cleanText(input.query ?? input.q)
+  const location = cleanText(input.location)
+  const type = cleanText(input.type, 30)?.toLowerCase()
+  const hours = cleanText(input.hours, 10)
+  const education = cleanList(input.education)
+  const sector = cleanList(input.sector)
+  if (query) filter.query = query
+  if (location) filter.location = location
+  if (type && type !== 'alle') filter.type = type
+  if (hours && HOURS_VALUES.includes(hours)) filter.hours = hours
+  if (education) filter.education = education
+  if (sector) filter.sector = sector
+  return filter
+}
+
+const HOURS_LABELS: Record<string, string> = {
+  lt36: 'minder dan 36 uur',
+  '36-40': '36-40 uur',
+  gt40: 'meer dan 40 uur',
+}
+
+/** Korte NL-omschrijving van een filter, voor mail-onderwerp en accountpagina. */
+export function describeAlertFilter(filter: AlertFilter): string {
+  const parts: string[] = []
+  if (filter.query) parts.push(`"${filter.query}"`)
+  if (filter.location) parts.push(`in ${filter.location}`)
+  if (filter.type) parts.push(filter.type)
+  if (filter.hours) parts.push(HOURS_LABELS[filter.hours] ?? filter.hours)
+  if (filter.education?.length) parts.push(filter.education.join(', '))
+  if (filter.sector?.length) parts.push(filter.sector.join(', '))
+  return parts.length > 0 ? parts.join(' · ') : 'Alle vacatures'
+}
+
+/** Querystring voor de homepage-zoekresultaten die dezelfde vacatures tonen als de alert. */
+export function alertFilterSearchParams(filter: AlertFilter): string {
+  const sp = new URLSearchParams()
+  if (filter.query) sp.set('q', filter.query)
+  if (filter.location) sp.set('location', filter.location)
+  if (filter.type) sp.set('type', filter.type)
+  if (filter.hours) sp.set('hours', filter.hours)
+  if (filter.education?.length) sp.set('education', filter.education.join(','))
+  if (filter.sector?.length) sp.set('sector', filter.sector.join(','))
+  const qs = sp.toString()
+  return qs ? `?${qs}` : ''
+}
+
+export function tenantBaseUrl(tenant: Pick<Tenant, 'domain' | 'preview_domain'>): string {
+  const host = tenant.domain ?? tenant.preview_domain
+  return host ? `https://${host}` : 'https://lokalebanen.nl'
+}
+
+const ALERT_SELECT =
+  'id, platform_id, user_id, email, filter, frequency, status, confirm_token, unsubscribe_token, confirmed_at, cursor_published_at, last_sent_at, created_at'
+
+// ── Tokens ──────────────────────────────────────────────────────────
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Alert bij een bevestig- of afmeldtoken, zonder iets te wijzigen. De pagina's
+ * achter de mail-links gebruiken dit op GET; de wijziging zelf loopt via een
+ * server action (linkscanners en prefetchers openen mail-links ook).
+ */
+export async function findAlertByToken(
+  kind: 'confirm' | 'unsubscribe',
+  token: string
+): Promise<JobAlert | null> {
+  if (!UUID_RE.test(token)) return null
+  const { data, error } = await createJobAlertServiceClient()
+    .from('job_alerts')
+    .select(ALERT_SELECT)
+    .eq(kind === 'confirm' ? 'confirm_token' : 'unsubscribe_token', token)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  return data as JobAlert | null
+}
+
+/**
+ * Double opt-in: zet een pending alert op actief. De cursor start op "nu",
+ * zodat de eerste digest alleen vacatures bevat die na bevestiging live gingen.
+ * Idempotent: een al actieve alert wordt gewoon teruggegeven.
+ */
+export async function confirmAlertByToken(token: string): Promise<JobAlert | null> {
+  if (!UUID_RE.test(token)) return null
+  const supabase = createJobAlertServiceClient()
+  const { data } = await supabase
+    .from('job_alerts')
+    .select(ALERT_SELECT)
+    .eq('confirm_token', token)
+    .maybeSingle()
+  const alert = data as JobAlert | null
+  if (!alert || alert.status !== 'pending') return alert
+
+  const now = new Date().toISOString()
+  const { data: updated, error } = await supabase
+    .from('job_alerts')
+    .update({ status: 'active', confirmed_at: now, cursor_published_at: now, updated_at: now })
+    .eq('id', alert.id)
+    .select(ALERT_SELECT)
+    .single()
+  if (error) throw new Error(error.message)
+  return updated as JobAlert
+}
+
+/**
+ * Afmelden via de link in de mail (of List-Unsubscribe one-click). Alleen op
+ * het portaal van de alert: de links in de digest wijzen daar altijd naartoe.
+ */
+export async function unsubscribeAlertByToken(
+  token: string,
+  platformId: string
+): Promise<JobAlert | null> {
+  if (!UUID_RE.test(token)) return null
+  const now = new Date().toISOString()
+  const supabase = createJobAlertServiceClient()
+  const { data, error } = await supabase
+    .from('job_alerts')
+    .update({ status: 'unsubscribed', unsubscribed_at: now, updated_at: now })
+    .eq('unsubscribe_token', token)
+    .eq('platform_id', platformId)
+    .select(ALERT_SELECT)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  return data as JobAlert | null
+}
+
+// ── Digest ──────────────────────────────────────────────────────────
+
+export interface DigestStats {
+  alerts: number
+  sent: number
+  empty: number
+  failed: number
+  skipped_tenants: number
+}
+
+async function newJobsForAlert(
+  supabase: ReturnType<typeof createJobAlertServiceClient>,
+  alert: JobAlert,
+  since: string
+): Promise<{ jobs: AlertEmailJob[]; total: number }> {
+  const select = 'id, title, slug, city, salary, employment, published_at, companies!company_id ( name )'
+  // Zoekterm: zelfde full-text matching als de listing (jobs_search).
+  const search = alert.filter.query?.trim()
+  let query = (
+    search
+      ? supabase
+          .rpc('jobs_search', jobsSearchArgs(alert.platform_id, search), { count: 'exact' })
+          .select(select)
+      : supabase
+          .from('job_postings')
+          .select(select, { count: 'exact' })
+          .eq('platform_id', alert.platform_id)
+          .eq('review_status', 'approved')
+          .not('published_at', 'is', null)
+          .is('archived_at', null)
+          .is('canonical_id', null)
+  ).gt('published_at', since)
+
+  query = applyJobFilter(query, search ? { ...alert.filter, query: undefined } : alert.filter)
+
+  const { data, count, error } = await query
+    .order('published_at', { ascending: false })
+    .limit(DIGEST_MAX_JOBS)
+  if (error) throw new Error(error.message)
+
+  // rpc() typt het resultaat als enkele rij; jobs_search is setof.
+  const rows = (data ?? []) as unknown as Record<string, unknown>[]
+  const jobs = rows.map((row) => {
+    const company = (Array.isArray(row.companies) ? row.companies[0] : row.companies) as
+      | { name: string }
+      | null
+    return {
+      id: row.id as string,
+      title: row.title as string,
+      slug: row.slug as string | null,
+      city: row.city as string | null,
+      salary: row.salary as string | null,
+      employment: row.employment as string | null,
+      published_at: row.published_at as string,
+      company_name: company?.name ?? null,
+    }
+  })
+  return { jobs, total: count ?? jobs.length }
+}
+
+/**
+ * Aanbevelingen uit het profiel van de alert-eigenaar: alleen vacatures die
+ * sinds de vorige mail live gingen en niet al in de digest staan. Een
+ * mislukte berekening houdt de digest zelf niet tegen.
+ */
+async function recommendedJobsForAlert(
+  supabase: ReturnType<typeof createJobAlertServiceClient>,
+  alert: JobAlert,
+  since: string,
+  jobs: AlertEmailJob[],
+  profiles: Map<string, JobSeekerProfile | null>
+): Promise<AlertEmailJob[]> {
+  if (!alert.user_id) return []
+  try {
+    const key = `${alert.platform_id}:${alert.user_id}`
+    if (!profiles.has(key)) {
+      profiles.set(key, await getJobSeekerProfile(supabase, alert.platform_id, alert.user_id))
+    }
+    const profile = profiles.get(key)
+    if (!profile) return []
+    return await getRecommendedJobs(supabase, profile, {
+      limit: DIGEST_MAX_RECOMMENDED,
+      since,
+      excludeIds: jobs.map((j) => j.id),
+    })
+  } catch (err) {
+    console.error(`[job-alerts] aanbevelingen voor alert ${alert.id}:`, err)
+    return []
+  }
+}
+
+/**
+ * Verstuurt de digest voor alle actieve alerts met deze frequentie. Een alert
+ * zonder nieuwe vacatures krijgt geen mail. Stopt netjes na `maxMs`; de
+ * volgende run pakt de rest op (cursor staat nog op de oude waarde).
+ */
+export async function runJobAlertDigest(
+  frequency: AlertFrequency,
+  { maxMs = 240_000 }: { maxMs?: number } = {}
+): Promise<DigestStats> {
+  const startedAt = Date.now()
+  const supabase = createJobAlertServiceClient()
+  const stats: DigestStats = { alerts: 0, sent: 0, empty: 0, failed: 0, skipped_tenants: 0 }
+
+  const { data, error } = await supabase
+    .from('job_alerts')
+    .select(ALERT_SELECT)
+    .eq('status', 'active')
+    .eq('frequency', frequency)
+    .order('last_sent_at', { ascending: true, nullsFirst: true })
+    .limit(5000)
+  if (error) throw new Error(`job_alerts: ${error.message}`)
+
+  const alerts = (data ?? []) as JobAlert[]
+  stats.alerts = alerts.length
+  const tenants = new Map<string, Tenant | null>()
+  const profiles = new Map<string, JobSeekerProfile | null>()
+  const resend = getResendClient()
+
+  for (const alert of alerts) {
+    if (Date.now() - startedAt >= maxMs) break
+
+    if (!tenants.has(alert.platform_id)) {
+      tenants.set(alert.platform_id, await getTenantById(alert.platform_id))
+    }
+    const tenant = tenants.get(alert.platform_id)
+    if (!tenant || !tenant.is_public) {
+      stats.skipped_tenants++
+      continue
+    }
+
+    try {
+      const since = alert.cursor_published_at ?? alert.confirmed_at ?? alert.created_at
+      const { jobs, total } = await newJobsForAlert(supabase, alert, since)
+      if (jobs.length === 0) {
+        stats.empty++
+        continue
+      }
+
+      const recommended = await recommendedJobsForAlert(supabase, alert, since, jobs, profiles)
+
+      const baseUrl = tenantBaseUrl(tenant)
+      const unsubscribeUrl = `${baseUrl}/api/job-alerts/unsubscribe?token=${alert.unsubscribe_token}`
+      const mail = renderAlertDigestEmail({
+        tenant,
+        baseUrl,
+        filterLabel: describeAlertFilter(alert.filter),
+        searchUrl: `${baseUrl}/${alertFilterSearchParams(alert.filter)}`,
+        unsubscribeUrl: `${baseUrl}/vacaturealert/afmelden?token=${alert.unsubscribe_token}`,
+        jobs,
+        total,
+        recommended,
+      })
+
+      await resend.emails.send({
+        from: `${tenant.name} <${MAIL_FROM}>`,
+        to: alert.email,
+        subject: mail.subject,
+        html: mail.html,
+        text: mail.text,
+        headers: {
+          // RFC 8058 one-click: mailclients POSTen naar deze URL.
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      })
+
+      const newest = jobs.reduce((max, j) => (j.published_at > max ? j.published_at : max), since)
+      await supabase
+        .from('job_alerts')
+        .update({ cursor_published_at: newest, last_sent_at: new Date().toISOString() })
+        .eq('id', alert.id)
+      stats.sent++
+    } catch (err) {
+      stats.failed++
+      console.error(`[job-alerts] alert ${alert.id}:`, err)
+    }
+  }
+
+  return stats
+}
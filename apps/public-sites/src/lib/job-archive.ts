@@ -0,0 +1,90 @@
+import { createPublicClient } from './supabase'
+
+/**
+ * Levenscyclus van een gearchiveerde vacature op de publieke sites:
+ *
+ *   - actief: normale detailpagina
+ *   - grace (standaard 30 dagen na `archived_at`): "niet meer beschikbaar"-
+ *     pagina met noindex, `validThrough` = archiveringsmoment en live
+ *     vacatures in de buurt
+ *   - gone: 410 vanuit de proxy, of een 308 naar een live opvolger
+ *     (zelfde bedrijf en titel) zodra die er is
+ *
+ * De grace-periode is instelbaar via `ARCHIVED_JOB_GRACE_DAYS` (ook gelezen
+ * door de admin-cron die verlopen URL's bij IndexNow meldt).
+ */
+
+const DEFAULT_GRACE_DAYS = 30
+
+export function archiveGraceDays(): number {
+  const raw = process.env.ARCHIVED_JOB_GRACE_DAYS?.trim()
+  const days = raw ? Number(raw) : NaN
+  return Number.isFinite(days) && days >= 0 ? Math.floor(days) : DEFAULT_GRACE_DAYS
+}
+
+export type ArchiveState = 'active' | 'grace' | 'gone'
+
+export function archiveState(archivedAt: string | null | undefined, now = Date.now()): ArchiveState {
+  if (!archivedAt) return 'active'
+  const age = now - new Date(archivedAt).getTime()
+  return age < archiveGraceDays() * 86_400_000 ? 'grace' : 'gone'
+}
+
+export type ArchivedJobRoute =
+  | { action: 'redirect'; targetSlug: string }
+  | { action: 'gone' }
+
+/**
+ * Proxy-cache per instance: de proxy draait op elke /vacature/<slug>-GET, de
+ * RPC hoeft dat niet. Ook "geen route" (actieve vacature) wordt gecachet.
+ * Een opvolger of het verlopen van de grace-periode is hooguit de TTL later
+ * zichtbaar; fouten worden niet gecachet.
+ */
+const ROUTE_CACHE_TTL_MS = 10 * 60_000
+const ROUTE_CACHE_MAX = 5_000
+const routeCache = new Map<string, { route: ArchivedJobRoute | null; expiresAt: number }>()
+
+function cacheRoute(key: string, route: ArchivedJobRoute | null, now: number) {
+  if (routeCache.size >= ROUTE_CACHE_MAX) {
+    // Map houdt invoegvolgorde aan: de oudste entry eruit.
+    const oldest = routeCache.keys().next().value
+    if (oldest !== undefined) routeCache.delete(oldest)
+  }
+  routeCache.set(key, { route, expiresAt: now + ROUTE_CACHE_TTL_MS })
+}
+
+/**
+ * Vraagt via RPC `archived_job_route` of /vacature/<slug> op deze host
+ * moet doorverwijzen (live opvolger) of 410 moet geven. Null = de pagina
+ * zelf laten renderen; ook bij een fout, de proxy mag nooit blokkeren.
+ */
+export async function resolveArchivedJobRoute(
+  host: string,
+  slug: string,
+  now = Date.now()
+): Promise<ArchivedJobRoute | null> {
+  const key = `${host}/${slug}`
+  const cached = routeCache.get(key)
+  if (cached && cached.expiresAt > now) return cached.route
+  routeCache.delete(key)
+
+  try {
+    const { data, error } = await createPublicClient().rpc('archived_job_route', {
+      p_host: host,
+      p_slug: slug,
+      p_grace_days: archiveGraceDays(),
+    })
+    if (error || !Array.isArray(data)) return null
+    const row = data[0] as { action: string; target_slug: string | null } | undefined
+    let route: ArchivedJobRoute | null = null
+    if (row?.action === 'redirect' && row.target_slug) {
+      route = { action: 'redirect', targetSlug: row.target_slug }
+    } else if (row?.action === 'gone') {
+      route = { action: 'gone' }
+    }
+    cacheRoute(key, route, now)
+    return route
+  } catch {
+    return null
+  }
+}
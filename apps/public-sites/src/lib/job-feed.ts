@@ -0,0 +1,319 @@
+/**
+ * Vacaturefeeds voor aggregators (Indeed, Google, Jooble) per portaal:
+ * `/feeds/vacatures.xml` (Indeed XML) en `/feeds/vacatures.json`.
+ *
+ * - Zelfde set als de sitemap: goedgekeurd, gepubliceerd, niet gearchiveerd,
+ *   geen duplicaat (`canonical_id`), met slug.
+ * - De vacature-URL krijgt UTM-tags (`utm_source` = `?source=`, standaard
+ *   `feed`), zodat sollicitaties via een aggregator herkenbaar zijn.
+ * - Incrementeel ophalen: ETag + Last-Modified op basis van het aantal
+ *   vacatures en de laatste `updated_at`. Een 304 kost alleen die twee
+ *   lichte queries; de feed zelf wordt dan niet opgebouwd.
+ */
+
+import { createHash } from 'node:crypto'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { createPublicClient } from './supabase'
+import { jobSalary, mapEmploymentType, type JobPosting } from './queries'
+import { tenantBaseUrl } from './job-alerts'
+import { unwrapDescription } from './utils'
+import type { Tenant } from './tenant'
+
+export type FeedFormat = 'xml' | 'json'
+
+/** Max. vacatures per feed (Indeed adviseert < 50 MB per bestand). */
+const FEED_LIMIT = 5000
+const FEED_CACHE_CONTROL = 'public, max-age=900, s-maxage=900, stale-while-revalidate=3600'
+const SOURCE_RE = /^[a-z0-9][a-z0-9_-]{0,29}$/
+
+type FeedJob = Pick<
+  JobPosting,
+  | 'id'
+  | 'title'
+  | 'slug'
+  | 'city'
+  | 'state'
+  | 'zipcode'
+  | 'street'
+  | 'latitude'
+  | 'longitude'
+  | 'employment'
+  | 'salary'
+  | 'salary_min'
+  | 'salary_max'
+  | 'salary_unit'
+  | 'salary_currency'
+  | 'description'
+  | 'content_md'
+  | 'published_at'
+  | 'end_date'
+  | 'education_level'
+  | 'categories'
+> & { updated_at: string; company_name: string | null }
+
+const FEED_SELECT = `
+  id, title, slug, city, state, zipcode, street, latitude, longitude,
+  employment, salary, salary_min, salary_max, salary_unit, salary_currency,
+  description, content_md, published_at, end_date, updated_at,
+  education_level, categories,
+  companies!company_id ( name )
+`
+
+/** Indeed `jobtype` per schema.org employmentType (via `mapEmploymentType`). */
+const INDEED_JOB_TYPES: Record<string, string> = {
+  FULL_TIME: 'fulltime',
+  PART_TIME: 'parttime',
+  CONTRACTOR: 'contract',
+  INTERN: 'internship',
+  TEMPORARY: 'temporary',
+}
+
+const SALARY_UNIT_LABELS: Record<string, string> = {
+  HOUR: 'per uur',
+  DAY: 'per dag',
+  WEEK: 'per week',
+  MONTH: 'per maand',
+  YEAR: 'per jaar',
+}
+
+/** De feed-set: zelfde voorwaarden als de sitemap. */
+function publishedJobs(tenantId: string, columns: string, options?: { count: 'exact'; head: true }) {
+  return createPublicClient()
+    .from('job_postings')
+    .select(columns, options)
+    .eq('platform_id', tenantId)
+    .eq('review_status', 'approved')
+    .not('published_at', 'is', null)
+    .is('archived_at', null)
+    .is('canonical_id', null)
+    .not('slug', 'is', null)
+}
+
+// ── Versie (ETag / Last-Modified) ───────────────────────────────────
+
+interface FeedVersion {
+  count: number
+  lastModified: Date
+}
+
+/**
+ * Aantal vacatures + laatste wijziging. Een nieuwe, gewijzigde of (door een
+ * lager aantal) verdwenen vacature levert een andere versie op.
+ */
+async function getFeedVersion(tenantId: string): Promise<FeedVersion | null> {
+  const [{ count, error: countError }, { data, error }] = await Promise.all([
+    publishedJobs(tenantId, 'id', { count: 'exact', head: true }),
+    publishedJobs(tenantId, 'updated_at')
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+  if (countError || error) return null
+  // HTTP-datums hebben secondeprecisie.
+  const lastModified = new Date((data as { updated_at: string } | null)?.updated_at ?? 0)
+  lastModified.setMilliseconds(0)
+  return { count: count ?? 0, lastModified }
+}
+
+function feedEtag(tenantId: string, format: FeedFormat, source: string, version: FeedVersion): string {
+  const hash = createHash('sha1')
+    .update(`${tenantId}:${format}:${source}:${version.count}:${version.lastModified.getTime()}`)
+    .digest('hex')
+    .slice(0, 20)
+  return `W/"${hash}"`
+}
+
+function isNotModified(req: NextRequest, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.headers.get('if-none-match')
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*')
+  }
+  const ifModifiedSince = req.headers.get('if-modified-since')
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince)
+    return !Number.isNaN(since) && lastModified.getTime() <= since
+  }
+  return false
+}
+
+// ── Velden ──────────────────────────────────────────────────────────
+
+/** Vacature-URL met UTM-tags voor de aggregator. */
+function feedJobUrl(baseUrl: string, tenant: Tenant, job: FeedJob, source: string): string {
+  const url = new URL(`${baseUrl}/vacature/${job.slug}`)
+  url.searchParams.set('utm_source', source)
+  url.searchParams.set('utm_medium', 'job_feed')
+  url.searchParams.set('utm_campaign', tenant.domain ?? tenant.preview_domain ?? tenant.id)
+  return url.toString()
+}
+
+/** Zelfde regel als de JobPosting JSON-LD: einddatum of 60 dagen na publicatie. */
+function validThrough(job: FeedJob): string {
+  return job.end_date
+    ? new Date(job.end_date).toISOString()
+    : new Date(new Date(job.published_at as string).getTime() + 60 * 86_400_000).toISOString()
+}
+
+function jobDescription(job: FeedJob): string {
+  return (job.content_md || unwrapDescription(job.description) || '').trim()
+}
+
+function salaryText(salary: NonNullable<ReturnType<typeof jobSalary>>): string {
+  const fmt = (n: number) => n.toLocaleString('nl-NL')
+  const symbol = salary.currency === 'EUR' ? '€ ' : `${salary.currency} `
+  const amount =
+    salary.min != null && salary.max != null && salary.min !== salary.max
+      ? `${symbol}${fmt(salary.min)} - ${fmt(salary.max)}`
+      : `${symbol}${fmt((salary.min ?? salary.max) as number)}`
+  return `${amount} ${SALARY_UNIT_LABELS[salary.unit] ?? ''}`.trim()
+}
+
+function toNumber(v: string | null): number | null {
+  if (v == null || v === '') return null
+  const n = Number(v)
+  return Number.isFinite(n) ? n : null
+}
+
+// ── Opbouw ──────────────────────────────────────────────────────────
+
+async function getFeedJobs(tenantId: string): Promise<FeedJob[]> {
+  const { data, error } = await publishedJobs(tenantId, FEED_SELECT)
+    .order('published_at', { ascending: false })
+    .limit(FEED_LIMIT)
+  if (error || !data) {
+    throw new Error(`job feed: ${error?.message ?? 'geen data'}`)
+  }
+  return (data as unknown as Record<string, unknown>[]).map((row) => {
+    const company = (Array.isArray(row.companies) ? row.companies[0] : row.companies) as
+      | { name: string }
+      | null
+    return { ...row, company_name: company?.name ?? null } as unknown as FeedJob
+  })
+}
+
+function cdata(value: string | number | null | undefined): string {
+  return `<![CDATA[${String(value ?? '').replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+function renderIndeedXml(tenant: Tenant, baseUrl: string, jobs: FeedJob[], source: string, lastModified: Date): string {
+  const items = jobs.map((job) => {
+    const salary = jobSalary(job)
+    const jobType = INDEED_JOB_TYPES[mapEmploymentType(job.employment) ?? '']
+    const fields = [
+      `    <title>${cdata(job.title)}</title>`,
+      `    <date>${cdata(new Date(job.published_at as string).toUTCString())}</date>`,
+      `    <referencenumber>${cdata(job.id)}</referencenumber>`,
+      `    <url>${cdata(feedJobUrl(baseUrl, tenant, job, source))}</url>`,
+      `    <company>${cdata(job.company_name ?? tenant.name)}</company>`,
+      `    <sourcename>${cdata(tenant.name)}</sourcename>`,
+      `    <city>${cdata(job.city)}</city>`,
+      job.state ? `    <state>${cdata(job.state)}</state>` : null,
+      `    <country>${cdata('NL')}</country>`,
+      job.zipcode ? `    <postalcode>${cdata(job.zipcode)}</postalcode>` : null,
+      job.street ? `    <streetaddress>${cdata(job.street)}</streetaddress>` : null,
+      `    <description>${cdata(jobDescription(job) || `${job.title} bij ${job.company_name ?? tenant.name}`)}</description>`,
+      salary ? `    <salary>${cdata(salaryText(salary))}</salary>` : null,
+      job.education_level ? `    <education>${cdata(job.education_level)}</education>` : null,
+      jobType ? `    <jobtype>${cdata(jobType)}</jobtype>` : null,
+      job.categories ? `    <category>${cdata(job.categories)}</category>` : null,
+      `    <expirationdate>${cdata(validThrough(job).slice(0, 10))}</expirationdate>`,
+    ].filter((line) => line !== null)
+    return `  <job>\n${fields.join('\n')}\n  </job>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<source>
+  <publisher>${cdata(tenant.name)}</publisher>
+  <publisherurl>${cdata(baseUrl)}</publisherurl>
+  <lastBuildDate>${cdata(lastModified.toUTCString())}</lastBuildDate>
+${items.join('\n')}
+</source>
+`
+}
+
+function renderJsonFeed(tenant: Tenant, baseUrl: string, jobs: FeedJob[], source: string, lastModified: Date) {
+  return {
+    publisher: tenant.name,
+    publisher_url: baseUrl,
+    updated_at: lastModified.toISOString(),
+    count: jobs.length,
+    jobs: jobs.map((job) => {
+      const salary = jobSalary(job)
+      return {
+        id: job.id,
+        title: job.title,
+        url: feedJobUrl(baseUrl, tenant, job, source),
+        company: job.company_name,
+        description: jobDescription(job),
+        employment_type: mapEmploymentType(job.employment) ?? null,
+        employment: job.employment,
+        category: job.categories,
+        education_level: job.education_level,
+        location: {
+          street: job.street,
+          postal_code: job.zipcode,
+          city: job.city,
+          region: job.state,
+          country: 'NL',
+          latitude: toNumber(job.latitude),
+          longitude: toNumber(job.longitude),
+        },
+        salary: salary
+          ? { min: salary.min, max: salary.max, unit: salary.unit, currency: salary.currency, text: salaryText(salary) }
+          : null,
+        date_posted: job.published_at,
+        valid_through: validThrough(job),
+        updated_at: job.updated_at,
+      }
+    }),
+  }
+}
+
+/**
+ * Feed-response voor de route handlers. 404 voor het master-portaal (dat
+ * heeft geen eigen vacatures), 304 als de client de huidige versie al heeft.
+ */
+export async function jobFeedResponse(
+  req: NextRequest,
+  tenant: Tenant | null,
+  format: FeedFormat
+): Promise<NextResponse> {
+  if (!tenant || tenant.tier === 'master') {
+    return new NextResponse('Not found', { status: 404 })
+  }
+
+  const sourceParam = req.nextUrl.searchParams.get('source')?.toLowerCase() ?? ''
+  const source = SOURCE_RE.test(sourceParam) ? sourceParam : 'feed'
+
+  const version = await getFeedVersion(tenant.id)
+  if (!version) return new NextResponse('Feed tijdelijk niet beschikbaar', { status: 503 })
+
+  const etag = feedEtag(tenant.id, format, source, version)
+  const cacheHeaders = {
+    ETag: etag,
+    'Last-Modified': version.lastModified.toUTCString(),
+    'Cache-Control': FEED_CACHE_CONTROL,
+  }
+  if (isNotModified(req, etag, version.lastModified)) {
+    return new NextResponse(null, { status: 304, headers: cacheHeaders })
+  }
+
+  let jobs: FeedJob[]
+  try {
+    jobs = await getFeedJobs(tenant.id)
+  } catch (err) {
+    console.error(`[job-feed] ${tenant.id}:`, err)
+    return new NextResponse('Feed tijdelijk niet beschikbaar', { status: 503 })
+  }
+
+  const baseUrl = tenantBaseUrl(tenant)
+  if (format === 'json') {
+    return NextResponse.json(renderJsonFeed(tenant, baseUrl, jobs, source, version.lastModified), {
+      headers: cacheHeaders,
+    })
+  }
+  return new NextResponse(renderIndeedXml(tenant, baseUrl, jobs, source, version.lastModified), {
+    headers: { ...cacheHeaders, 'Content-Type': 'application/xml; charset=utf-8' },
+  })
+}
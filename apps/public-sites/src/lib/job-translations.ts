@@ -0,0 +1,108 @@
+import { unstable_cache } from 'next/cache'
+import { createPublicClient } from './supabase'
+import type { JobPosting } from './queries'
+
+/**
+ * Engelstalige vacaturepagina's (/en) voor internationale kandidaten.
+ *
+ * Alleen vacatures met `english_friendly` krijgen een /en-pagina. De tekst
+ * komt uit `job_posting_translations` (machinevertaling door de admin-cron
+ * `vacancy-translate`, per vacature gecachet); zolang die er nog niet is
+ * toont de pagina de Nederlandse tekst met een melding.
+ */
+
+export const EN_JOBS_PER_PAGE = 20
+
+export interface JobTranslation {
+  title: string
+  content_md: string | null
+  seo_description: string | null
+}
+
+/** Vacature met de Engelse teksten erin; `translated` = er was een vertaling. */
+export type TranslatedJob = JobPosting & { translated: boolean }
+
+/**
+ * Zet de vertaalde velden over de Nederlandse heen. De SEO-titel is
+ * Nederlands en vervalt; de pagina bouwt er zelf een.
+ */
+export function applyTranslation(job: JobPosting, translation: JobTranslation | null): TranslatedJob {
+  if (!translation) return { ...job, translated: false }
+  return {
+    ...job,
+    title: translation.title,
+    content_md: translation.content_md ?? job.content_md,
+    description: translation.content_md ?? job.description,
+    seo_title: null,
+    seo_description: translation.seo_description,
+    translated: true,
+  }
+}
+
+async function fetchTranslationUncached(jobId: string): Promise<JobTranslation | null> {
+  const { data, error } = await createPublicClient()
+    .from('job_posting_translations')
+    .select('title, content_md, seo_description')
+    .eq('job_posting_id', jobId)
+    .eq('locale', 'en')
+    .maybeSingle()
+  if (error || !data) return null
+  return data as JobTranslation
+}
+
+export async function getJobTranslation(
+  tenantId: string,
+  jobId: string
+): Promise<JobTranslation | null> {
+  const cached = unstable_cache(
+    () => fetchTranslationUncached(jobId),
+    [`job-translation:en:${jobId}`],
+    { tags: [`jobs:${tenantId}`], revalidate: 3600 }
+  )
+  return cached()
+}
+
+/**
+ * Actieve English-friendly vacatures voor /en/vacatures, nieuwste eerst,
+ * met de vertaalde titel en tekst waar beschikbaar.
+ */
+export async function getEnglishJobs(
+  tenantId: string,
+  page = 1
+): Promise<{ jobs: TranslatedJob[]; total: number }> {
+  const from = (page - 1) * EN_JOBS_PER_PAGE
+  const { data, count, error } = await createPublicClient()
+    .from('job_postings')
+    .select(
+      `
+      id, title, slug, company_id, city, state,
+      employment, job_type, salary,
+      description, url, published_at, end_date, created_at,
+      education_level, working_hours_min, working_hours_max,
+      companies!company_id (
+        id, name, slug, logo_url, website, linkedin_url, description, city
+      ),
+      job_posting_translations ( title, content_md, seo_description, locale )
+    `,
+      { count: 'exact' }
+    )
+    .eq('platform_id', tenantId)
+    .eq('english_friendly', true)
+    .eq('review_status', 'approved')
+    .not('published_at', 'is', null)
+    .is('archived_at', null)
+    .is('canonical_id', null)
+    .order('published_at', { ascending: false })
+    .range(from, from + EN_JOBS_PER_PAGE - 1)
+
+  if (error || !data) return { jobs: [], total: 0 }
+  const jobs = (data as Record<string, unknown>[]).map((row) => {
+    const translations = (row.job_posting_translations ?? []) as (JobTranslation & { locale: string })[]
+    const job = {
+      ...row,
+      company: Array.isArray(row.companies) ? row.companies[0] : row.companies,
+    } as unknown as JobPosting
+    return applyTranslation(job, translations.find((t) => t.locale === 'en') ?? null)
+  })
+  return { jobs, total: count ?? 0 }
+}
@@ -1,6 +1,7 @@
 import { unstable_cache } from 'next/cache'
 import { createPublicClient, createPreviewServiceClient } from './supabase'
 import { slugifyCity } from '@lokale-banen/database'
+import { haversineKm } from './utils'
 
 export interface JobPosting {
   id: string
@@ -16,6 +17,14 @@ export interface JobPosting {
   employment: string | null
   job_type: string[] | null
   salary: string | null
+  /**
+   * Genormaliseerd salaris (admin salary-normalization); alleen in de
+   * lijst- en detail-selects. Unit = schema.org unitText (HOUR, MONTH, ...).
+   */
+  salary_min?: number | null
+  salary_max?: number | null
+  salary_unit?: string | null
+  salary_currency?: string | null
   description: string | null
   content_md: string | null
   header_image_url: string | null
@@ -31,6 +40,8 @@ export interface JobPosting {
   categories: string | null
   working_hours_min: number | null
   working_hours_max: number | null
+  /** Engelstalige kandidaten welkom: heeft een /en-pagina. Alleen in de detail-select. */
+  english_friendly?: boolean
   company: {
     id: string
     name: string
@@ -46,11 +57,17 @@ export interface JobPosting {
     postal_code: string | null
     street_address: string | null
   } | null
+  /** Afstand tot de zoeklocatie of geolocatie (km), gezet door getApprovedJobs. */
+  distance_km?: number | null
 }
 
-export type SortOption = 'newest' | 'salary_desc' | 'oldest' | 'nearest'
+export type SortOption = 'relevance' | 'newest' | 'salary_desc' | 'oldest' | 'nearest'
 
 export interface JobFilter {
+  /**
+   * Zoekterm. Listing, tellingen en alerts zoeken full-text (Nederlands, met
+   * synoniemen en typo-fallback) via de RPC `jobs_search`.
+   */
   query?: string
   location?: string
   type?: string
@@ -62,6 +79,18 @@ export interface JobFilter {
   /** User's geolocation for distance chip - from URL ?lat=X&lng=Y. */
   userLat?: number
   userLng?: number
+  /**
+   * Straal in km rond `location` (postcode of plaats, via `cities`) of,
+   * als die niet te herleiden is, rond de geolocatie. URL ?distance=.
+   */
+  radiusKm?: number
+  /** Minimaal bruto maandsalaris (fulltime-equivalent). URL ?salary=. */
+  salaryMin?: number
+}
+
+export interface GeoPoint {
+  lat: number
+  lng: number
 }
 
 /** Escape ILIKE wildcard characters in user input. */
@@ -74,69 +103,26 @@ const JOBS_PER_PAGE = 20
 const VALID_TYPES = ['vast', 'tijdelijk', 'fulltime', 'parttime', 'stage', 'bijbaan', 'freelance', 'vrijwilliger'] as const
 
 /**
- * Fetch approved, published jobs for a tenant with optional filters.
- *
- * Cached per (tenantId, filter) combinatie en invalidated door
- * tag `jobs:${tenantId}` zodra admin een platform-edit doet of nieuwe
- * vacatures approved/unapproved worden.
+ * Minimal PostgREST builder surface used by `applyJobFilter`. Every filter
+ * method returns the builder itself, so the helper keeps the caller's query
+ * type (select list, count options) intact.
  */
-export async function getApprovedJobs(
-  tenantId: string,
-  filter: JobFilter = {}
-): Promise<{ jobs: JobPosting[]; total: number }> {
-  const cached = unstable_cache(
-    () => fetchApprovedJobsUncached(tenantId, filter),
-    [`jobs:${tenantId}`, JSON.stringify(filter)],
-    {
-      tags: [`jobs:${tenantId}`],
-      revalidate: 300,
-    }
-  )
-  return cached()
+interface JobFilterQuery<Self> {
+  or(filters: string): Self
+  ilike(column: string, pattern: string): Self
+  lt(column: string, value: number): Self
+  gte(column: string, value: number): Self
+  in(column: string, values: string[]): Self
 }
 
-async function fetchApprovedJobsUncached(
-  tenantId: string,
-  filter: JobFilter
-): Promise<{ jobs: JobPosting[]; total: number }> {
-  const supabase = createPublicClient()
-  const page = filter.page || 1
-  const from = (page - 1) * JOBS_PER_PAGE
-  const to = from + JOBS_PER_PAGE - 1
-
-  let query = supabase
-    .from('job_postings')
-    .select(
-      `
-      id, title, slug, company_id, city, state,
-      latitude, longitude,
-      employment, job_type, salary,
-      description, url, published_at, end_date, created_at,
-      education_level, working_hours_min, working_hours_max, categories,
-      companies!company_id (
-        id, name, slug, logo_url, website, linkedin_url, description, city,
-        latitude, longitude
-      )
-    `,
-      { count: 'exact' }
-    )
-    .eq('platform_id', tenantId)
-    .eq('review_status', 'approved')
-    .not('published_at', 'is', null)
-    .is('archived_at', null)
-
-  // Apply sort order
-  const sort = filter.sort || 'newest'
-  if (sort === 'salary_desc') {
-    query = query.order('salary', { ascending: false, nullsFirst: false })
-  } else if (sort === 'oldest') {
-    query = query.order('published_at', { ascending: true })
-  } else {
-    query = query.order('published_at', { ascending: false })
-  }
-
-  query = query.range(from, to)
-
+/**
+ * Apply the content filters of a JobFilter (type, query, location, hours,
+ * education, sector, salary) to a job_postings query. Shared by the listing
+ * and by the job-alert digest so an alert matches exactly what /vacatures
+ * showed. Paging and sort stay with the caller. Callers on `jobs_search`
+ * drop `query` first; the ILIKE below only covers plain table queries.
+ */
+export function applyJobFilter<Q extends JobFilterQuery<Q>>(query: Q, filter: JobFilter): Q {
   // Filter by employment type (strict validation to prevent injection)
   if (filter.type && filter.type !== 'alle') {
     const normalizedType = filter.type.toLowerCase() as typeof VALID_TYPES[number]
@@ -146,6 +132,12 @@ async function fetchApprovedJobsUncached(
     }
   }
 
+  // Salary floor on the monthly-normalized top of the range; postings
+  // without a recognized salary drop out.
+  if (filter.salaryMin) {
+    query = query.gte('salary_month_max', filter.salaryMin)
+  }
+
   // Text search on title (escape ILIKE wildcards)
   if (filter.query) {
     const q = escapeIlike(filter.query)
@@ -185,6 +177,187 @@ async function fetchApprovedJobsUncached(
     query = query.in('categories', filter.sector)
   }
 
+  return query
+}
+
+/**
+ * Getypte postcode of plaatsnaam -> punt, via `cities` (RPC
+ * `resolve_location`). Null als de locatie onbekend is.
+ */
+export async function resolveLocation(location: string): Promise<GeoPoint | null> {
+  const trimmed = location.trim()
+  if (trimmed.length < 2) return null
+
+  const supabase = createPublicClient()
+  const { data, error } = await supabase.rpc('resolve_location', { p_query: trimmed })
+  const row = Array.isArray(data) ? data[0] : null
+  if (error || !row || row.latitude == null || row.longitude == null) return null
+  return { lat: row.latitude, lng: row.longitude }
+}
+
+/**
+ * Bepaalt of een filter een geo-zoekvraag is (straal of "dichtstbij") en
+ * vanaf welk punt. Een herleidbare `location` wint van de geolocatie en
+ * vervangt dan het tekstfilter op `city`; een onbekende plaats blijft een
+ * tekstfilter.
+ */
+async function resolveGeoSearch(
+  filter: JobFilter
+): Promise<{ origin: GeoPoint | null; filter: JobFilter }> {
+  if (!filter.radiusKm && filter.sort !== 'nearest') return { origin: null, filter }
+
+  if (filter.location) {
+    const origin = await resolveLocation(filter.location)
+    if (origin) return { origin, filter: { ...filter, location: undefined } }
+  }
+  if (filter.userLat != null && filter.userLng != null) {
+    return { origin: { lat: filter.userLat, lng: filter.userLng }, filter }
+  }
+  return { origin: null, filter }
+}
+
+function jobsNearArgs(tenantId: string, origin: GeoPoint, radiusKm: number | undefined) {
+  return {
+    p_platform_id: tenantId,
+    p_lat: origin.lat,
+    p_lng: origin.lng,
+    p_radius_km: radiusKm ?? null,
+  }
+}
+
+/** Argumenten voor de RPC `jobs_search`; met een punt ook straal en "dichtstbij". */
+export function jobsSearchArgs(
+  tenantId: string,
+  search: string,
+  origin: GeoPoint | null = null,
+  radiusKm?: number,
+  order: 'relevance' | 'nearest' = 'relevance'
+) {
+  return {
+    p_platform_id: tenantId,
+    p_query: search,
+    p_lat: origin?.lat ?? null,
+    p_lng: origin?.lng ?? null,
+    p_radius_km: origin ? radiusKm ?? null : null,
+    p_order: origin ? order : 'relevance',
+  }
+}
+
+/**
+ * Welke RPC de basisset levert: `jobs_search` bij een zoekterm (doet ook de
+ * straal), `jobs_near` bij alleen een punt, anders null = gewone tabel-query.
+ * `filter` is het restfilter voor `applyJobFilter`, zonder de zoekterm als
+ * die al in de RPC zit.
+ */
+function jobsRpc(
+  tenantId: string,
+  geo: { origin: GeoPoint | null; filter: JobFilter }
+): { rpc: { fn: string; args: Record<string, unknown> } | null; filter: JobFilter; search: string | null } {
+  const search = geo.filter.query?.trim() || null
+  if (search) {
+    const order = geo.filter.sort === 'nearest' ? 'nearest' : 'relevance'
+    return {
+      rpc: { fn: 'jobs_search', args: jobsSearchArgs(tenantId, search, geo.origin, geo.filter.radiusKm, order) },
+      filter: { ...geo.filter, query: undefined },
+      search,
+    }
+  }
+  if (geo.origin) {
+    return {
+      rpc: { fn: 'jobs_near', args: jobsNearArgs(tenantId, geo.origin, geo.filter.radiusKm) },
+      filter: geo.filter,
+      search: null,
+    }
+  }
+  return { rpc: null, filter: geo.filter, search: null }
+}
+
+/** Zelfde positie-fallback als `jobs_near`: vacature, anders bedrijf. */
+function jobDistanceKm(job: JobPosting, origin: GeoPoint): number | null {
+  const lat = job.latitude ? parseFloat(job.latitude) : (job.company?.latitude ?? null)
+  const lng = job.longitude ? parseFloat(job.longitude) : (job.company?.longitude ?? null)
+  if (lat == null || lng == null || isNaN(lat) || isNaN(lng)) return null
+  return haversineKm(origin.lat, origin.lng, lat, lng)
+}
+
+/**
+ * Fetch approved, published jobs for a tenant with optional filters.
+ * Alleen canonicals: cross-source duplicaten (canonical_id gezet) blijven
+ * verborgen, net als in de tellingen, sitemap en gerelateerde vacatures.
+ *
+ * Cached per (tenantId, filter) combinatie en invalidated door
+ * tag `jobs:${tenantId}` zodra admin een platform-edit doet of nieuwe
+ * vacatures approved/unapproved worden.
+ */
+export async function getApprovedJobs(
+  tenantId: string,
+  filter: JobFilter = {}
+): Promise<{ jobs: JobPosting[]; total: number }> {
+  const cached = unstable_cache(
+    () => fetchApprovedJobsUncached(tenantId, filter),
+    [`jobs:${tenantId}`, JSON.stringify(filter)],
+    {
+      tags: [`jobs:${tenantId}`],
+      revalidate: 300,
+    }
+  )
+  return cached()
+}
+
+const JOB_LIST_SELECT = `
+      id, title, slug, company_id, city, state,
+      latitude, longitude,
+      employment, job_type, salary, salary_min, salary_max, salary_unit, salary_currency,
+      description, url, published_at, end_date, created_at,
+      education_level, working_hours_min, working_hours_max, categories,
+      companies!company_id (
+        id, name, slug, logo_url, website, linkedin_url, description, city,
+        latitude, longitude
+      )
+    `
+
+async function fetchApprovedJobsUncached(
+  tenantId: string,
+  filter: JobFilter
+): Promise<{ jobs: JobPosting[]; total: number }> {
+  const supabase = createPublicClient()
+  const page = filter.page || 1
+  const from = (page - 1) * JOBS_PER_PAGE
+  const to = from + JOBS_PER_PAGE - 1
+  const sort = filter.sort || 'newest'
+
+  // Zoekterm/straal/nearest: `jobs_search` of `jobs_near` doet tenant-scope,
+  // matching en volgorde in de database; de contentfilters worden er gewoon
+  // op geketend.
+  const geo = await resolveGeoSearch(filter)
+  const { rpc, filter: restFilter, search } = jobsRpc(tenantId, geo)
+  let query = rpc
+    ? supabase
+        .rpc(rpc.fn, rpc.args, { count: 'exact' })
+        .select(JOB_LIST_SELECT)
+    : supabase
+        .from('job_postings')
+        .select(JOB_LIST_SELECT, { count: 'exact' })
+        .eq('platform_id', tenantId)
+        .eq('review_status', 'approved')
+        .not('published_at', 'is', null)
+        .is('archived_at', null)
+        .is('canonical_id', null)
+
+  // Apply sort order ('nearest'/'relevance' = volgorde van de RPC)
+  const keepRpcOrder = (sort === 'nearest' && !!geo.origin) || (sort === 'relevance' && !!search)
+  if (sort === 'salary_desc') {
+    query = query.order('salary_month_max', { ascending: false, nullsFirst: false })
+  } else if (sort === 'oldest') {
+    query = query.order('published_at', { ascending: true })
+  } else if (!keepRpcOrder) {
+    query = query.order('published_at', { ascending: false })
+  }
+
+  query = query.range(from, to)
+
+  query = applyJobFilter(query, restFilter)
+
   const { data, count, error } = await query
 
   if (error) {
@@ -192,11 +365,21 @@ async function fetchApprovedJobsUncached(
     return { jobs: [], total: 0 }
   }
 
-  const jobs = (data || []).map((row: Record<string, unknown>) => ({
+  // rpc() typt het resultaat als enkele rij; jobs_near/jobs_search zijn setof.
+  const rows = (data || []) as unknown as Record<string, unknown>[]
+  const jobs = rows.map((row) => ({
     ...row,
     company: Array.isArray(row.companies) ? row.companies[0] : row.companies,
   })) as unknown as JobPosting[]
 
+  // Afstandschip: zoeklocatie, of anders de geolocatie van de bezoeker.
+  const chipOrigin =
+    geo.origin ??
+    (filter.userLat != null && filter.userLng != null ? { lat: filter.userLat, lng: filter.userLng } : null)
+  if (chipOrigin) {
+    for (const job of jobs) job.distance_km = jobDistanceKm(job, chipOrigin)
+  }
+
   return { jobs, total: count || 0 }
 }
 
@@ -219,6 +402,7 @@ export async function getFreshnessStats(tenantId: string): Promise<{
       .eq('review_status', 'approved')
       .not('published_at', 'is', null)
       .is('archived_at', null)
+      .is('canonical_id', null)
       .order('published_at', { ascending: false })
       .limit(1)
       .maybeSingle(),
@@ -228,6 +412,7 @@ export async function getFreshnessStats(tenantId: string): Promise<{
       .eq('platform_id', tenantId)
       .eq('review_status', 'approved')
       .is('archived_at', null)
+      .is('canonical_id', null)
       .gte('published_at', todayStart.toISOString()),
   ])
 
@@ -247,31 +432,22 @@ export async function getJobCount(
 
   const supabase = createPublicClient()
 
-  let query = supabase
-    .from('job_postings')
-    .select('id', { count: 'exact', head: true })
-    .eq('platform_id', tenantId)
-    .eq('review_status', 'approved')
-    .not('published_at', 'is', null)
-    .is('archived_at', null)
-
-  if (filter.type && filter.type !== 'alle') {
-    const normalizedType = filter.type.toLowerCase() as typeof VALID_TYPES[number]
-    if (VALID_TYPES.includes(normalizedType)) {
-      const typeLabel = normalizedType.charAt(0).toUpperCase() + normalizedType.slice(1)
-      query = query.or(`employment.ilike.%${normalizedType}%,job_type.cs.{"${typeLabel}"}`)
-    }
-  }
-
-  if (filter.query) {
-    const q = escapeIlike(filter.query)
-    query = query.ilike('title', `%${q}%`)
-  }
-
-  if (filter.location) {
-    const loc = escapeIlike(filter.location)
-    query = query.ilike('city', `%${loc}%`)
-  }
+  const geo = await resolveGeoSearch(filter)
+  const { rpc, filter: restFilter } = jobsRpc(tenantId, geo)
+  let query = rpc
+    ? supabase
+        .rpc(rpc.fn, rpc.args, { count: 'exact', head: true })
+        .select('id')
+    : supabase
+        .from('job_postings')
+        .select('id', { count: 'exact', head: true })
+        .eq('platform_id', tenantId)
+        .eq('review_status', 'approved')
+        .not('published_at', 'is', null)
+        .is('archived_at', null)
+        .is('canonical_id', null)
+
+  query = applyJobFilter(query, restFilter)
 
   const { count, error } = await query
   if (error) return 0
@@ -345,10 +521,10 @@ export async function getJobBySlug(
       `
       id, title, slug, company_id, city, state, zipcode, street,
       latitude, longitude,
-      employment, job_type, salary, categories,
+      employment, job_type, salary, salary_min, salary_max, salary_unit, salary_currency, categories,
       description, content_md, header_image_url, url, published_at, end_date, created_at,
       seo_title, seo_description, education_level, career_level,
-      working_hours_min, working_hours_max, archived_at,
+      working_hours_min, working_hours_max, archived_at, english_friendly,
       companies!company_id (
         id, name, slug, logo_url, website, linkedin_url, description, city,
         kvk, latitude, longitude, postal_code, street_address
@@ -387,7 +563,7 @@ export async function getJobByIdForPreview(
       `
       id, title, slug, company_id, city, state, zipcode, street,
       latitude, longitude,
-      employment, job_type, salary, categories,
+      employment, job_type, salary, salary_min, salary_max, salary_unit, salary_currency, categories,
       description, content_md, header_image_url, url, published_at, end_date, created_at,
       seo_title, seo_description, education_level, career_level,
       working_hours_min, working_hours_max, review_status,
@@ -412,21 +588,26 @@ export async function getJobByIdForPreview(
 /**
  * Fetch related jobs in the same city, excluding the current job.
  * Returns up to 3 results for the "Vergelijkbare banen" section.
+ *
+ * With `category` (expired-vacancy page) the list is topped up with live
+ * jobs in the same sector when the city alone yields fewer than `limit`.
  */
 export async function getRelatedJobs(
   tenantId: string,
   city: string | null,
-  excludeId: string
+  excludeId: string,
+  options: { limit?: number; category?: string | null } = {}
 ): Promise<JobPosting[]> {
-
-  if (!city) return []
+  const limit = options.limit ?? 3
+  if (!city && !options.category) return []
 
   const supabase = createPublicClient()
 
-  const { data, error } = await supabase
-    .from('job_postings')
-    .select(
-      `
+  const baseQuery = () =>
+    supabase
+      .from('job_postings')
+      .select(
+        `
       id, title, slug, company_id, city, state,
       employment, job_type, salary,
       description, url, published_at, end_date, created_at,
@@ -435,29 +616,46 @@ export async function getRelatedJobs(
         id, name, slug, logo_url, website, linkedin_url, description, city
       )
     `
-    )
-    .eq('platform_id', tenantId)
-    .eq('review_status', 'approved')
-    .not('published_at', 'is', null)
-    .is('archived_at', null)
-    .ilike('city', city)
-    .neq('id', excludeId)
-    .order('published_at', { ascending: false })
-    .limit(3)
+      )
+      .eq('platform_id', tenantId)
+      .eq('review_status', 'approved')
+      .not('published_at', 'is', null)
+      .is('archived_at', null)
+      .is('canonical_id', null)
+      .neq('id', excludeId)
+      .order('published_at', { ascending: false })
 
-  if (error || !data) return []
+  let rows: Record<string, unknown>[] = []
+  if (city) {
+    const { data, error } = await baseQuery().ilike('city', city).limit(limit)
+    if (!error && data) rows = data as Record<string, unknown>[]
+  }
 
-  return (data || []).map((row: Record<string, unknown>) => ({
+  if (rows.length < limit && options.category) {
+    const seen = new Set(rows.map((r) => r.id))
+    const { data, error } = await baseQuery()
+      .eq('categories', options.category)
+      .limit(limit)
+    if (!error && data) {
+      for (const row of data as Record<string, unknown>[]) {
+        if (rows.length >= limit) break
+        if (!seen.has(row.id)) rows.push(row)
+      }
+    }
+  }
+
+  return rows.map((row) => ({
     ...row,
     company: Array.isArray(row.companies) ? row.companies[0] : row.companies,
   })) as unknown as JobPosting[]
 }
 
 /**
- * Suggesties voor het zoekveld - top-N unieke job-titles die matchen op
- * de query. Sorteert op frequentie (vacatures met dezelfde titel komen
- * eerst). Gebruikt door /api/search/suggest voor de autosuggest-dropdown
- * in de SearchBanner.
+ * Suggesties voor het zoekveld - top-N unieke job-titles die de query
+ * bevatten of er sterk op lijken (trigram, vangt typefouten). Meest
+ * gelijkend en meest voorkomend eerst, via RPC `job_title_suggestions`.
+ * Gebruikt door /api/search/suggest voor de autosuggest-dropdown in de
+ * SearchBanner.
  */
 export async function getJobTitleSuggestions(
   tenantId: string,
@@ -468,33 +666,14 @@ export async function getJobTitleSuggestions(
   if (trimmed.length < 2) return []
 
   const supabase = createPublicClient()
-  const q = escapeIlike(trimmed)
-
-  // Pull top-200 matching titles; dedupe + count in-memory (Supabase RPC
-  // group-by zou robuuster zijn, maar 200 rows is goed te overzien).
-  const { data, error } = await supabase
-    .from('job_postings')
-    .select('title')
-    .eq('platform_id', tenantId)
-    .eq('review_status', 'approved')
-    .not('published_at', 'is', null)
-    .is('archived_at', null)
-    .ilike('title', `%${q}%`)
-    .limit(200)
-
-  if (error || !data) return []
-
-  const counts = new Map<string, number>()
-  for (const row of data) {
-    const title = (row.title as string | null)?.trim()
-    if (!title) continue
-    counts.set(title, (counts.get(title) ?? 0) + 1)
-  }
+  const { data, error } = await supabase.rpc('job_title_suggestions', {
+    p_platform_id: tenantId,
+    p_query: trimmed,
+    p_limit: limit,
+  })
 
-  return Array.from(counts.entries())
-    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
-    .slice(0, limit)
-    .map(([title]) => title)
+  if (error || !Array.isArray(data)) return []
+  return (data as { title: string }[]).map((row) => row.title)
 }
 
 /** Lightweight type for sitemap entries */
@@ -520,6 +699,7 @@ export async function getSitemapJobs(
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .not('slug', 'is', null)
     .order('published_at', { ascending: false })
     .limit(50000)
@@ -561,6 +741,7 @@ export async function getLlmsJobs(
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .not('slug', 'is', null)
     .order('published_at', { ascending: false })
     .limit(limit)
@@ -596,6 +777,7 @@ export async function getApprovedJobCount(tenantId: string): Promise<number> {
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
 
   if (error) return 0
   return count ?? 0
@@ -698,6 +880,7 @@ export async function getJobsByCitySlug(
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .ilike('city', match.city)
     .order('published_at', { ascending: false })
     .range(from, to)
@@ -777,6 +960,7 @@ export async function getCompanyBySlug(
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
 
   if (!count || count === 0) return null
 
@@ -814,6 +998,7 @@ export async function getJobsByCompany(
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .order('published_at', { ascending: false })
     .range(from, to)
 
@@ -857,6 +1042,7 @@ export async function getCompaniesWithJobCounts(
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .not('company_id', 'is', null)
 
   if (!data || data.length === 0) return []
@@ -914,6 +1100,7 @@ export async function getTopCities(
     .eq('review_status', 'approved')
     .not('published_at', 'is', null)
     .is('archived_at', null)
+    .is('canonical_id', null)
     .not('city', 'is', null)
 
   if (!data || data.length === 0) return []
@@ -936,53 +1123,8 @@ export async function getTopCities(
 // Helpers for JSON-LD schema
 // ---------------------------------------------------------------------------
 
-/**
- * Parse salary text like "2800 - 3500" into min/max numbers.
- * Returns null if the string can't be parsed.
- */
-export function parseSalary(
-  salary: string | null
-): { min: number; max: number; unit: string } | null {
-  if (!salary || salary.trim() === '-' || salary.trim() === '') return null
-  // Match patterns like "2800 - 3500", "2.800 - 3.500", "€2800-3500"
-  const cleaned = salary.replace(/[€\s.]/g, '')
-  const match = cleaned.match(/(\d+)\s*-\s*(\d+)/)
-  if (!match) return null
-  const min = parseInt(match[1], 10)
-  const max = parseInt(match[2], 10)
-  if (isNaN(min) || isNaN(max) || min <= 0) return null
-  return { min, max, unit: 'MONTH' }
-}
-
-/**
- * Map Dutch employment type strings to schema.org employmentType values.
- */
-const EMPLOYMENT_TYPE_MAP: Record<string, string> = {
-  vast: 'FULL_TIME',
-  fulltime: 'FULL_TIME',
-  voltijd: 'FULL_TIME',
-  tijdelijk: 'TEMPORARY',
-  parttime: 'PART_TIME',
-  deeltijd: 'PART_TIME',
-  stage: 'INTERN',
-  intern: 'INTERN',
-  vrijwilliger: 'VOLUNTEER',
-  bijbaan: 'PART_TIME',
-  freelance: 'CONTRACTOR',
-  zzp: 'CONTRACTOR',
-}
-
-export function mapEmploymentType(type: string | null): string | undefined {
-  if (!type) return undefined
-  const lower = type.toLowerCase().trim()
-  // Direct match
-  if (EMPLOYMENT_TYPE_MAP[lower]) return EMPLOYMENT_TYPE_MAP[lower]
-  // Partial match
-  for (const [key, value] of Object.entries(EMPLOYMENT_TYPE_MAP)) {
-    if (lower.includes(key)) return value
-  }
-  return undefined
-}
+// Shared with the Google for Jobs validator in admin (packages/shared).
+export { jobSalary, parseSalary, mapEmploymentType } from '@lokale-banen/shared'
 
 // ---------------------------------------------------------------------------
 // Master aggregator queries (lokalebanen.nl - tier='master')
@@ -1057,6 +1199,7 @@ export async function getJobsAcrossAllPlatforms(
     .eq('job_postings.review_status', 'approved')
     .not('job_postings.published_at', 'is', null)
     .is('job_postings.archived_at', null)
+    .is('job_postings.canonical_id', null)
 
   if (options.platformId) {
     query = query.eq('platform_id', options.platformId)
@@ -1145,6 +1288,7 @@ export async function getTopPlatforms(): Promise<PlatformSummary[]> {
         .eq('job_postings.review_status', 'approved')
         .not('job_postings.published_at', 'is', null)
         .is('job_postings.archived_at', null)
+        .is('job_postings.canonical_id', null)
       return { id: p.id, count: count ?? 0 }
     })
   )
@@ -1186,6 +1330,7 @@ export async function getTopCitiesAcrossPlatforms(
     .eq('job_postings.review_status', 'approved')
     .not('job_postings.published_at', 'is', null)
     .is('job_postings.archived_at', null)
+    .is('job_postings.canonical_id', null)
     .not('job_postings.city', 'is', null)
     .limit(50000)
 
@@ -1230,6 +1375,7 @@ export async function getMasterJobCount(): Promise<number> {
     .eq('job_postings.review_status', 'approved')
     .not('job_postings.published_at', 'is', null)
     .is('job_postings.archived_at', null)
+    .is('job_postings.canonical_id', null)
 
   if (error) return 0
   return count ?? 0
@@ -1251,7 +1397,7 @@ export async function getMasterJobBySlug(
       `
       id, title, slug, company_id, city, state, zipcode, street,
       latitude, longitude,
-      employment, job_type, salary, categories,
+      employment, job_type, salary, salary_min, salary_max, salary_unit, salary_currency, categories,
       description, content_md, header_image_url, url, published_at, end_date, created_at,
       archived_at,
       seo_title, seo_description, education_level, career_level,
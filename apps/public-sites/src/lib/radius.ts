@@ -0,0 +1,11 @@
+/**
+ * Straal-opties voor het Afstand-filter (km). Los van `queries.ts` zodat
+ * client-componenten ze kunnen importeren.
+ */
+export const RADIUS_OPTIONS = [5, 10, 25, 50] as const
+
+/** `?distance=` -> km, alleen de aangeboden opties. */
+export function parseRadius(value: string | undefined): number | undefined {
+  const km = Number(value)
+  return (RADIUS_OPTIONS as readonly number[]).includes(km) ? km : undefined
+}
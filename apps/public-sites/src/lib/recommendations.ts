@@ -0,0 +1,356 @@
+/**
+ * Aanbevolen vacatures op basis van het werkzoekendenprofiel
+ * (`job_seeker_profiles`, beheerd op /account/profiel).
+ *
+ * - `normalizeJobSeekerProfile` maakt van form-input een schoon profiel;
+ *   vakgebied en opleiding alleen met waarden uit `getFilterFacets`.
+ * - `scoreJob` geeft een vacature een score van 0-100 op functie, vakgebied,
+ *   uren, opleiding en afstand (haversine vanaf de postcode). Alleen de
+ *   dimensies die in het profiel zijn ingevuld tellen mee; buiten de
+ *   maximale reisafstand valt een vacature af.
+ * - `getRecommendedJobs` haalt kandidaten op en geeft de beste terug; wordt
+ *   gebruikt door de accountpagina en de alert-digest.
+ *
+ * Alleen server-side gebruiken: alles loopt via de service-role client.
+ */
+
+import type { createJobAlertServiceClient } from './supabase'
+import { haversineKm } from './utils'
+
+export type JobSeekerHours = 'lt36' | '36-40' | 'gt40'
+
+export interface JobSeekerProfile {
+  platform_id: string
+  user_id: string
+  functions: string[]
+  sectors: string[]
+  education_levels: string[]
+  hours: JobSeekerHours | null
+  max_distance_km: number | null
+  postcode: string | null
+  home_latitude: number | null
+  home_longitude: number | null
+  updated_at?: string
+}
+
+export type JobSeekerProfileInput = Pick<
+  JobSeekerProfile,
+  'functions' | 'sectors' | 'education_levels' | 'hours' | 'max_distance_km' | 'postcode'
+>
+
+export interface RecommendedJob {
+  id: string
+  title: string
+  slug: string | null
+  city: string | null
+  salary: string | null
+  employment: string | null
+  published_at: string
+  company_name: string | null
+  /** 0-100, aandeel van de haalbare punten voor dit profiel. */
+  score: number
+  /** Korte NL-redenen, bv. "functie", "vakgebied", "reisafstand (8 km)". */
+  reasons: string[]
+  distance_km: number | null
+}
+
+export const MAX_PROFILE_FUNCTIONS = 5
+/** Onder deze score tonen we een vacature niet als aanbeveling. */
+export const MIN_RECOMMENDATION_SCORE = 50
+
+const HOURS_VALUES: JobSeekerHours[] = ['lt36', '36-40', 'gt40']
+const POSTCODE_RE = /^(\d{4})\s?([a-z]{2})?$/i
+/** Kandidaten per berekening; de nieuwste eerst. */
+const CANDIDATE_LIMIT = 500
+/** Aanbevelingen op de accountpagina kijken zo ver terug. */
+const DEFAULT_LOOKBACK_DAYS = 60
+
+const WEIGHTS = {
+  function: 40,
+  sector: 25,
+  hours: 15,
+  education: 10,
+  distance: 10,
+} as const
+
+const PROFILE_SELECT =
+  'platform_id, user_id, functions, sectors, education_levels, hours, max_distance_km, postcode, home_latitude, home_longitude, updated_at'
+
+const CANDIDATE_SELECT =
+  'id, title, slug, city, salary, employment, published_at, categories, education_level, working_hours_min, working_hours_max, latitude, longitude, companies!company_id ( name, latitude, longitude )'
+
+type ServiceClient = ReturnType<typeof createJobAlertServiceClient>
+
+// ── Profiel ─────────────────────────────────────────────────────────
+
+function cleanText(v: unknown, max: number): string | undefined {
+  if (typeof v !== 'string') return undefined
+  const t = v.trim().replace(/\s+/g, ' ').slice(0, max)
+  return t || undefined
+}
+
+function cleanList(v: unknown, max: number): string[] {
+  const raw = Array.isArray(v) ? v : typeof v === 'string' ? v.split(',') : []
+  return [...new Set(raw.map((x) => cleanText(x, max)).filter((x): x is string => !!x))]
+}
+
+/** "1234ab" -> "1234 AB"; null als het geen Nederlandse postcode is. */
+export function normalizePostcode(value: unknown): string | null {
+  const match = cleanText(value, 10)?.match(POSTCODE_RE)
+  if (!match) return null
+  return match[2] ? `${match[1]} ${match[2].toUpperCase()}` : match[1]
+}
+
+/**
+ * Schoon profiel uit ruwe form-input. Functies zijn vrije tekst (max 5),
+ * vakgebied en opleiding alleen waarden die als facet bestaan, uren alleen
+ * de filter-buckets. Een ongeldige postcode wordt genegeerd (null).
+ */
+export function normalizeJobSeekerProfile(
+  input: Record<string, unknown>,
+  allowed: { sectors: string[]; education: string[] }
+): JobSeekerProfileInput {
+  const hours = cleanText(input.hours, 10)
+  const distance = Number(input.max_distance_km)
+  return {
+    functions: cleanList(input.functions, 60).slice(0, MAX_PROFILE_FUNCTIONS),
+    sectors: cleanList(input.sectors, 100).filter((s) => allowed.sectors.includes(s)).sort(),
+    education_levels: cleanList(input.education_levels, 100)
+      .filter((e) => allowed.education.includes(e))
+      .sort(),
+    hours: hours && HOURS_VALUES.includes(hours as JobSeekerHours) ? (hours as JobSeekerHours) : null,
+    max_distance_km: Number.isInteger(distance) && distance >= 1 && distance <= 200 ? distance : null,
+    postcode: normalizePostcode(input.postcode),
+  }
+}
+
+/** True als het profiel niets bevat om op te scoren. */
+export function isEmptyProfile(profile: JobSeekerProfileInput): boolean {
+  return (
+    profile.functions.length === 0 &&
+    profile.sectors.length === 0 &&
+    profile.education_levels.length === 0 &&
+    !profile.hours &&
+    !profile.postcode
+  )
+}
+
+export async function getJobSeekerProfile(
+  supabase: ServiceClient,
+  platformId: string,
+  userId: string
+): Promise<JobSeekerProfile | null> {
+  const { data, error } = await supabase
+    .from('job_seeker_profiles')
+    .select(PROFILE_SELECT)
+    .eq('platform_id', platformId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw new Error(`job_seeker_profiles: ${error.message}`)
+  return data as JobSeekerProfile | null
+}
+
+// ── Scoren ──────────────────────────────────────────────────────────
+
+export interface ScorableJob {
+  title: string
+  categories: string | null
+  education_level: string | null
+  working_hours_min: number | null
+  working_hours_max: number | null
+  /** Vacature- of anders bedrijfslocatie. */
+  latitude: number | null
+  longitude: number | null
+}
+
+/**
+ * Uren-bucket van een vacature, met dezelfde grenzen als het Uren-filter
+ * (`applyJobFilter`). Null als de uren onbekend zijn.
+ */
+export function jobHoursBucket(min: number | null, max: number | null): JobSeekerHours | null {
+  if ((min != null && min > 40) || (max != null && max > 40)) return 'gt40'
+  if (max != null && max < 36) return 'lt36'
+  if (min != null && min >= 36) return '36-40'
+  return null
+}
+
+function functionMatch(title: string, fn: string): 'full' | 'partial' | null {
+  const t = title.toLowerCase()
+  const f = fn.toLowerCase()
+  if (t.includes(f)) return 'full'
+  const words = f.split(/[^\p{L}\p{N}]+/u).filter((w) => w.length >= 4)
+  return words.some((w) => t.includes(w)) ? 'partial' : null
+}
+
+/**
+ * Score 0-100 voor een vacature bij dit profiel, of null als de vacature
+ * buiten de maximale reisafstand ligt. Onbekende uren of opleiding bij de
+ * vacature tellen half, een onbekende locatie telt niet mee.
+ */
+export function scoreJob(
+  profile: JobSeekerProfileInput & Pick<JobSeekerProfile, 'home_latitude' | 'home_longitude'>,
+  job: ScorableJob
+): { score: number; reasons: string[]; distance_km: number | null } | null {
+  let points = 0
+  let max = 0
+  const reasons: string[] = []
+
+  if (profile.functions.length > 0) {
+    max += WEIGHTS.function
+    const matches = profile.functions.map((fn) => functionMatch(job.title, fn))
+    if (matches.includes('full')) {
+      points += WEIGHTS.function
+      reasons.push('functie')
+    } else if (matches.includes('partial')) {
+      points += WEIGHTS.function / 2
+      reasons.push('functie')
+    }
+  }
+
+  if (profile.sectors.length > 0) {
+    max += WEIGHTS.sector
+    if (job.categories && profile.sectors.includes(job.categories)) {
+      points += WEIGHTS.sector
+      reasons.push('vakgebied')
+    }
+  }
+
+  if (profile.hours) {
+    max += WEIGHTS.hours
+    const bucket = jobHoursBucket(job.working_hours_min, job.working_hours_max)
+    if (bucket === profile.hours) {
+      points += WEIGHTS.hours
+      reasons.push('uren')
+    } else if (bucket === null) {
+      points += WEIGHTS.hours / 2
+    }
+  }
+
+  if (profile.education_levels.length > 0) {
+    max += WEIGHTS.education
+    if (!job.education_level) {
+      points += WEIGHTS.education / 2
+    } else if (profile.education_levels.includes(job.education_level)) {
+      points += WEIGHTS.education
+      reasons.push('opleiding')
+    }
+  }
+
+  let distance: number | null = null
+  if (profile.home_latitude != null && profile.home_longitude != null) {
+    max += WEIGHTS.distance
+    if (job.latitude != null && job.longitude != null) {
+      distance = haversineKm(profile.home_latitude, profile.home_longitude, job.latitude, job.longitude)
+      if (profile.max_distance_km && distance > profile.max_distance_km) return null
+      const range = profile.max_distance_km ?? 50
+      points += WEIGHTS.distance * Math.max(0, 1 - distance / range)
+      reasons.push(`reisafstand (${Math.round(distance)} km)`)
+    }
+  }
+
+  if (max === 0) return null
+  return { score: Math.round((100 * points) / max), reasons, distance_km: distance }
+}
+
+// ── Ophalen ─────────────────────────────────────────────────────────
+
+function toNumber(v: unknown): number | null {
+  if (v == null || v === '') return null
+  const n = Number(v)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Waarde als dubbel-gequote PostgREST-literal (voor `or()`/`in`). */
+function pgrstQuote(value: string): string {
+  return `"${value.replace(/["\\]/g, '')}"`
+}
+
+/**
+ * Beste aanbevelingen voor een profiel. Heeft het profiel functies of
+ * vakgebieden, dan beperken we de kandidaten in de database al tot vacatures
+ * waarvan de titel een functie bevat of het vakgebied klopt; anders de
+ * nieuwste vacatures van het portaal.
+ */
+export async function getRecommendedJobs(
+  supabase: ServiceClient,
+  profile: JobSeekerProfile,
+  {
+    limit = 10,
+    since,
+    excludeIds = [],
+  }: { limit?: number; since?: string; excludeIds?: string[] } = {}
+): Promise<RecommendedJob[]> {
+  if (isEmptyProfile(profile)) return []
+
+  const after =
+    since ?? new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  let query = supabase
+    .from('job_postings')
+    .select(CANDIDATE_SELECT)
+    .eq('platform_id', profile.platform_id)
+    .eq('review_status', 'approved')
+    .not('published_at', 'is', null)
+    .is('archived_at', null)
+    .is('canonical_id', null)
+    .gt('published_at', after)
+
+  const prefilter = [
+    ...profile.functions.map((fn) => `title.ilike.${pgrstQuote(`*${fn.replace(/[%_*]/g, '')}*`)}`),
+    ...(profile.sectors.length > 0 ? [`categories.in.(${profile.sectors.map(pgrstQuote).join(',')})`] : []),
+  ]
+  // Functies matchen in de score ook op losse woorden; die vallen buiten het
+  // prefilter, daarom per woord (>= 4 tekens) een extra ilike.
+  for (const fn of profile.functions) {
+    for (const word of fn.split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length >= 4 && word.toLowerCase() !== fn.toLowerCase()) {
+        prefilter.push(`title.ilike.${pgrstQuote(`*${word}*`)}`)
+      }
+    }
+  }
+  if (prefilter.length > 0) query = query.or(prefilter.join(','))
+
+  const { data, error } = await query
+    .order('published_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT)
+  if (error) throw new Error(`job_postings: ${error.message}`)
+
+  const exclude = new Set(excludeIds)
+  const scored: RecommendedJob[] = []
+  for (const row of (data ?? []) as Record<string, unknown>[]) {
+    if (exclude.has(row.id as string)) continue
+    const company = (Array.isArray(row.companies) ? row.companies[0] : row.companies) as
+      | { name: string; latitude: number | string | null; longitude: number | string | null }
+      | null
+    // Vacaturelocatie, anders die van het bedrijf (altijd als paar).
+    const jobPoint = [toNumber(row.latitude), toNumber(row.longitude)]
+    const [lat, lng] =
+      jobPoint[0] != null && jobPoint[1] != null
+        ? jobPoint
+        : [toNumber(company?.latitude), toNumber(company?.longitude)]
+    const result = scoreJob(profile, {
+      title: row.title as string,
+      categories: row.categories as string | null,
+      education_level: row.education_level as string | null,
+      working_hours_min: row.working_hours_min as number | null,
+      working_hours_max: row.working_hours_max as number | null,
+      latitude: lat,
+      longitude: lng,
+    })
+    if (!result || result.score < MIN_RECOMMENDATION_SCORE) continue
+    scored.push({
+      id: row.id as string,
+      title: row.title as string,
+      slug: row.slug as string | null,
+      city: row.city as string | null,
+      salary: row.salary as string | null,
+      employment: row.employment as string | null,
+      published_at: row.published_at as string,
+      company_name: company?.name ?? null,
+      ...result,
+    })
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.published_at.localeCompare(a.published_at))
+    .slice(0, limit)
+}
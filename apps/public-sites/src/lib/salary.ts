@@ -0,0 +1,18 @@
+/**
+ * Salaris-opties voor het Salaris-filter: ondergrens in bruto per maand,
+ * fulltime-equivalent (`job_postings.salary_month_max`, dus uurlonen en
+ * jaarsalarissen tellen omgerekend mee). Los van `queries.ts` zodat
+ * client-componenten ze kunnen importeren.
+ */
+export const SALARY_OPTIONS = [2500, 3000, 3500, 4000, 5000] as const
+
+/** `?salary=` -> maandbedrag, alleen de aangeboden opties. */
+export function parseSalaryMin(value: string | undefined): number | undefined {
+  const amount = Number(value)
+  return (SALARY_OPTIONS as readonly number[]).includes(amount) ? amount : undefined
+}
+
+/** "Vanaf € 3.000 p/m" */
+export function salaryOptionLabel(amount: number): string {
+  return `Vanaf € ${amount.toLocaleString('nl-NL')} p/m`
+}
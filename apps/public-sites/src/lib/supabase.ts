@@ -27,3 +27,30 @@ export function createPreviewServiceClient() {
     auth: { persistSession: false },
   })
 }
+
+/**
+ * Service-role Supabase client for job-alert writes (`job_alerts` has no RLS
+ * policies). Only call from server actions / routes that first verify either
+ * the Clerk session, a confirm/unsubscribe token or the cron secret.
+ */
+export function createJobAlertServiceClient() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!key) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false },
+  })
+}
+
+/**
+ * Service-role Supabase client for native applications: writes to
+ * `job_applications` for anonymous candidates, uploads to the private
+ * `application-documents` bucket and reads employer `contacts`. Only call
+ * from the apply server action; contact data never reaches the client.
+ */
+export function createApplicationServiceClient() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!key) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false },
+  })
+}
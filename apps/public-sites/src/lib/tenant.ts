@@ -179,7 +179,8 @@ export async function getTenantByHostForPreview(host: string): Promise<Tenant |
 /**
  * Tenant lookup by platform ID, bypassing is_public and host filters.
  * Used by the admin draft preview route to render with the correct tenant
- * theme when the vacancy's platform has no domain configured yet.
+ * theme when the vacancy's platform has no domain configured yet, and by the
+ * job-alert digest, which runs outside any tenant host.
  */
 export async function getTenantById(platformId: string): Promise<Tenant | null> {
   // Uses service role to bypass RLS (preview is behind HMAC token verification).
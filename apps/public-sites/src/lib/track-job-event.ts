@@ -0,0 +1,74 @@
+/**
+ * Fire-and-forget beacon naar `/api/job-events`. Client-side only; faalt
+ * stil zodat tracking nooit een klik of paginaweergave blokkeert.
+ *
+ * Elk event krijgt de attributie van het begin van de sessie mee: de
+ * verwijzer-host en UTM-tags van de eerste pagina (`captureAttribution`,
+ * vanuit de root-layout). Alleen in sessionStorage, geen cookies of
+ * bezoekers-id's.
+ */
+
+export type JobEventKind = 'view' | 'apply_click' | 'save' | 'share'
+
+export interface JobEventAttribution {
+  /** Verwijzer-host zonder www., 'direct' of 'internal'. */
+  source: string
+  utm_source?: string
+  utm_medium?: string
+  utm_campaign?: string
+}
+
+const STORAGE_KEY = 'lb_attribution'
+const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign'] as const
+
+function readAttribution(): JobEventAttribution | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as JobEventAttribution) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Legt de bron van deze sessie vast bij de eerste pagina. Een nieuwe
+ * binnenkomst met UTM-tags (bv. via een vacaturefeed) overschrijft de
+ * bestaande attributie; interne navigatie niet.
+ */
+export function captureAttribution(): JobEventAttribution {
+  const existing = readAttribution()
+  try {
+    const params = new URLSearchParams(window.location.search)
+    const utm: Partial<Record<(typeof UTM_KEYS)[number], string>> = {}
+    for (const key of UTM_KEYS) {
+      const value = params.get(key)?.trim().slice(0, 100)
+      if (value) utm[key] = value
+    }
+    if (existing && Object.keys(utm).length === 0) return existing
+
+    let source = 'direct'
+    if (document.referrer) {
+      const host = new URL(document.referrer).hostname.replace(/^www\./, '')
+      source = host === window.location.hostname.replace(/^www\./, '') ? 'internal' : host
+    }
+    const attribution: JobEventAttribution = { source, ...utm }
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(attribution))
+    return attribution
+  } catch {
+    return existing ?? { source: 'direct' }
+  }
+}
+
+export function trackJobEvent(jobId: string, kind: JobEventKind) {
+  try {
+    const attribution = captureAttribution()
+    const body = JSON.stringify({ jobId, kind, ...attribution })
+    if (navigator.sendBeacon) {
+      navigator.sendBeacon('/api/job-events', new Blob([body], { type: 'application/json' }))
+    } else {
+      fetch('/api/job-events', { method: 'POST', body, keepalive: true }).catch(() => {})
+    }
+  } catch {
+    // tracking is best-effort
+  }
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import { getDictionary, type Locale } from './i18n'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -95,22 +96,23 @@ export function getLinkColor(secondary: string, primary: string): string {
 }
 
 /**
- * Format a date as a relative time string in Dutch.
+ * Format a date as a relative time string (Dutch by default).
  * Uses day-level granularity to avoid stale "2 uur geleden" on cached pages.
  */
-export function formatRelative(date: string | Date): string {
+export function formatRelative(date: string | Date, locale: Locale = 'nl'): string {
+  const t = getDictionary(locale)
   const d = new Date(date)
   const now = new Date()
   const diffMs = now.getTime() - d.getTime()
   const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
 
-  if (diffDays === 0) return 'Vandaag'
-  if (diffDays === 1) return 'Gisteren'
-  if (diffDays < 7) return `${diffDays} dagen geleden`
-  if (diffDays < 30) return `${Math.floor(diffDays / 7)} weken geleden`
+  if (diffDays === 0) return t.relative.today
+  if (diffDays === 1) return t.relative.yesterday
+  if (diffDays < 7) return t.relative.daysAgo(diffDays)
+  if (diffDays < 30) return t.relative.weeksAgo(Math.floor(diffDays / 7))
 
   // Meer dan een maand: toon datum
-  return d.toLocaleDateString('nl-NL', { day: 'numeric', month: 'short' })
+  return d.toLocaleDateString(t.dateLocale, { day: 'numeric', month: 'short' })
 }
 
 /**
@@ -125,32 +127,9 @@ export function createSlug(title: string, id: string): string {
   return `${slug}-${id.slice(0, 8)}`
 }
 
-/**
- * Sommige bronnen (o.a. Indeed via Apify) slaan de omschrijving op als ruwe
- * JSON-string `{"text":"..."}` i.p.v. platte tekst. Pak in dat geval het
- * `text`-veld uit zodat consumers nooit ruwe JSON tonen. Alle andere input
- * (gewone tekst, HTML, markdown, null) wordt ongewijzigd teruggegeven.
- */
-export function unwrapDescription(
-  input: string | null | undefined
-): string | null {
-  if (input == null) return null
-  const trimmed = input.trim()
-  if (!trimmed.startsWith('{')) return input
-  try {
-    const parsed = JSON.parse(trimmed)
-    if (
-      parsed &&
-      typeof parsed === 'object' &&
-      typeof (parsed as { text?: unknown }).text === 'string'
-    ) {
-      return (parsed as { text: string }).text
-    }
-  } catch {
-    // Geen geldige JSON: behandel als gewone tekst.
-  }
-  return input
-}
+// Uitpakken van `{"text":"..."}`-omschrijvingen; gedeeld met de JSON-LD-invulling.
+// Via de schema-subpath: utils wordt ook client-side geladen.
+export { unwrapDescription } from '@lokale-banen/shared/schema'
 
 /**
  * Strip "--" artefacten uit content (typisch ChatGPT/Mistral-output dat de
@@ -2,8 +2,32 @@ import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import * as Sentry from '@sentry/nextjs'
+import { resolveArchivedJobRoute } from '@/lib/job-archive'
 
 const isProtectedRoute = createRouteMatcher(['/account(.*)'])
+const JOB_DETAIL_PATH = /^(\/en)?\/vacature\/([^/]+)\/?$/
+
+/** Minimale 410-pagina; zoekmachines halen de URL hierna uit de index. */
+function goneResponse(): NextResponse {
+  const html = `<!doctype html>
+<html lang="nl">
+<head><meta charset="utf-8"><meta name="robots" content="noindex"><title>Vacature niet meer beschikbaar</title>
+<meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="font-family:system-ui,sans-serif;max-width:36rem;margin:4rem auto;padding:0 1rem;line-height:1.5">
+<h1>Deze vacature bestaat niet meer</h1>
+<p>De vacature is vervuld of verlopen en is verwijderd.</p>
+<p><a href="/vacatures">Bekijk alle actuele vacatures</a></p>
+</body>
+</html>`
+  return new NextResponse(html, {
+    status: 410,
+    headers: {
+      'content-type': 'text/html; charset=utf-8',
+      'x-robots-tag': 'noindex',
+      'cache-control': 'public, max-age=3600',
+    },
+  })
+}
 
 export default clerkMiddleware(async (auth, req: NextRequest) => {
   if (isProtectedRoute(req)) {
@@ -16,6 +40,21 @@ export default clerkMiddleware(async (auth, req: NextRequest) => {
 
   Sentry.setTag('tenant', hostname || 'unknown')
 
+  // Gearchiveerde vacature (ook /en/vacature): 308 naar een live opvolger of,
+  // na de grace-periode, 410. Actieve vacatures gaan ongewijzigd door. De
+  // opvolger gaat naar de Nederlandse pagina: die bestaat altijd, de Engelse
+  // alleen voor english_friendly vacatures.
+  const jobMatch = JOB_DETAIL_PATH.exec(req.nextUrl.pathname)
+  if (jobMatch && hostname && (req.method === 'GET' || req.method === 'HEAD')) {
+    const route = await resolveArchivedJobRoute(hostname, jobMatch[2])
+    if (route?.action === 'redirect') {
+      const target = req.nextUrl.clone()
+      target.pathname = `/vacature/${route.targetSlug}`
+      return NextResponse.redirect(target, 308)
+    }
+    if (route?.action === 'gone') return goneResponse()
+  }
+
   const requestHeaders = new Headers(req.headers)
   requestHeaders.set('x-tenant-host', hostname)
 
@@ -11,9 +11,26 @@ export { formatRelative } from './date'
 // Preview tokens (admin draft preview on public site)
 export { generatePreviewToken, verifyPreviewToken } from './preview-token'
 
+// Vacancy fields (AI-rewrite + werkgeversportaal)
+export {
+  EMPLOYMENT_TYPES,
+  EDUCATION_LEVELS,
+  VACANCY_CATEGORIES,
+  VACANCY_SECTIONS,
+  buildVacancyMarkdown,
+  buildVacancySeo,
+} from './vacancy'
+export type { VacancyStructuredFields, VacancySectionsInput } from './vacancy'
+
 // JSON-LD schema builders
 export {
   buildJobPostingSchema,
+  buildJobPostingInput,
+  jobSalary,
+  parseSalary,
+  mapEmploymentType,
+  unwrapDescription,
+  JOB_POSTING_FALLBACK_CITY,
   buildOrganizationSchema,
   buildWebSiteSchema,
   buildBreadcrumbSchema,
@@ -22,6 +39,9 @@ export {
 export type {
   JobPostingSchemaInput,
   JobPostingJsonLd,
+  JobPostingSource,
+  JobPostingInputOptions,
+  JobPostingInputFallbacks,
   OrganizationSchemaInput,
   OrganizationJsonLd,
   WebSiteSchemaInput,
@@ -1,6 +1,20 @@
 export { buildJobPostingSchema } from './job-posting'
 export type { JobPostingSchemaInput, JobPostingJsonLd } from './job-posting'
 
+export {
+  buildJobPostingInput,
+  jobSalary,
+  parseSalary,
+  mapEmploymentType,
+  unwrapDescription,
+  JOB_POSTING_FALLBACK_CITY,
+} from './job-posting-input'
+export type {
+  JobPostingSource,
+  JobPostingInputOptions,
+  JobPostingInputFallbacks,
+} from './job-posting-input'
+
 export { buildOrganizationSchema } from './organization'
 export type { OrganizationSchemaInput, OrganizationJsonLd } from './organization'
 
@@ -0,0 +1,237 @@
+/**
+ * Fill a JobPostingSchemaInput from a job_postings row, with the fallbacks
+ * the public vacancy pages use (city 'Nederland', estimated validThrough,
+ * salary from free text, placeholder description).
+ *
+ * Shared by the vacancy pages in public-sites and the Google for Jobs
+ * validator in admin, so the validator scores the exact JSON-LD the sites
+ * serve. `fallbacks` tells which fields were filled in rather than taken
+ * from the row.
+ */
+
+import type { JobPostingSchemaInput } from './job-posting'
+
+const DAY_MS = 86_400_000
+
+export const JOB_POSTING_FALLBACK_CITY = 'Nederland'
+
+/** The job_postings columns (and company join) the JSON-LD is built from. */
+export interface JobPostingSource {
+  id: string
+  title: string | null
+  description: string | null
+  content_md: string | null
+  published_at: string | null
+  created_at: string | null
+  end_date: string | null
+  archived_at?: string | null
+  employment: string | null
+  salary: string | null
+  salary_min?: number | null
+  salary_max?: number | null
+  salary_unit?: string | null
+  salary_currency?: string | null
+  city: string | null
+  street: string | null
+  zipcode: string | null
+  state: string | null
+  latitude?: string | null
+  longitude?: string | null
+  url?: string | null
+  company: {
+    name: string | null
+    logo_url: string | null
+    website?: string | null
+    linkedin_url?: string | null
+    kvk?: string | null
+    city: string | null
+    street_address: string | null
+    postal_code: string | null
+    latitude?: number | null
+    longitude?: number | null
+  } | null
+}
+
+export interface JobPostingInputOptions {
+  locale: 'nl' | 'en'
+  /** `identifier.name`, normally the tenant name. */
+  identifierName: string
+  /** Native apply form on the site (an employer contact is known). */
+  nativeApply: boolean
+  now?: Date
+}
+
+export interface JobPostingInputFallbacks {
+  description: boolean
+  validThrough: boolean
+  company: boolean
+  city: boolean
+}
+
+const FALLBACK_COMPANY = { nl: 'Onbekend bedrijf', en: 'Unknown company' } as const
+const FALLBACK_DESCRIPTION_JOINER = { nl: 'bij', en: 'at' } as const
+
+/**
+ * Some sources (e.g. Indeed via Apify) store the description as a raw JSON
+ * string `{"text":"..."}`. Unwrap the `text` field so consumers never show
+ * raw JSON; any other input (plain text, HTML, markdown, null) is returned
+ * unchanged.
+ */
+export function unwrapDescription(input: string | null | undefined): string | null {
+  if (input == null) return null
+  const trimmed = input.trim()
+  if (!trimmed.startsWith('{')) return input
+  try {
+    const parsed = JSON.parse(trimmed)
+    if (parsed && typeof parsed === 'object' && typeof (parsed as { text?: unknown }).text === 'string') {
+      return (parsed as { text: string }).text
+    }
+  } catch {
+    // Not valid JSON: plain text.
+  }
+  return input
+}
+
+/**
+ * Salary for the JobPosting `baseSalary`: the normalized columns when the
+ * admin pipeline filled them (any unit, open-ended ranges), otherwise the
+ * legacy text parse. Returns null without a usable amount.
+ */
+export function jobSalary(
+  job: Pick<JobPostingSource, 'salary' | 'salary_min' | 'salary_max' | 'salary_unit' | 'salary_currency'>
+): { min: number | null; max: number | null; unit: string; currency: string } | null {
+  if (job.salary_unit && (job.salary_min != null || job.salary_max != null)) {
+    return {
+      min: job.salary_min != null ? Number(job.salary_min) : null,
+      max: job.salary_max != null ? Number(job.salary_max) : null,
+      unit: job.salary_unit,
+      currency: job.salary_currency || 'EUR',
+    }
+  }
+  const parsed = parseSalary(job.salary)
+  return parsed ? { ...parsed, currency: 'EUR' } : null
+}
+
+/**
+ * Parse salary text like "2800 - 3500" into min/max numbers.
+ * Returns null if the string can't be parsed. Fallback for postings the
+ * salary normalization hasn't reached yet; prefer `jobSalary`.
+ */
+export function parseSalary(salary: string | null): { min: number; max: number; unit: string } | null {
+  if (!salary || salary.trim() === '-' || salary.trim() === '') return null
+  // Match patterns like "2800 - 3500", "2.800 - 3.500", "€2800-3500"
+  const cleaned = salary.replace(/[€\s.]/g, '')
+  const match = cleaned.match(/(\d+)\s*-\s*(\d+)/)
+  if (!match) return null
+  const min = parseInt(match[1], 10)
+  const max = parseInt(match[2], 10)
+  if (isNaN(min) || isNaN(max) || min <= 0) return null
+  return { min, max, unit: 'MONTH' }
+}
+
+/**
+ * Map Dutch employment type strings to schema.org employmentType values.
+ */
+const EMPLOYMENT_TYPE_MAP: Record<string, string> = {
+  vast: 'FULL_TIME',
+  fulltime: 'FULL_TIME',
+  voltijd: 'FULL_TIME',
+  tijdelijk: 'TEMPORARY',
+  parttime: 'PART_TIME',
+  deeltijd: 'PART_TIME',
+  stage: 'INTERN',
+  intern: 'INTERN',
+  vrijwilliger: 'VOLUNTEER',
+  bijbaan: 'PART_TIME',
+  freelance: 'CONTRACTOR',
+  zzp: 'CONTRACTOR',
+}
+
+export function mapEmploymentType(type: string | null): string | undefined {
+  if (!type) return undefined
+  const lower = type.toLowerCase().trim()
+  // Direct match
+  if (EMPLOYMENT_TYPE_MAP[lower]) return EMPLOYMENT_TYPE_MAP[lower]
+  // Partial match
+  for (const [key, value] of Object.entries(EMPLOYMENT_TYPE_MAP)) {
+    if (lower.includes(key)) return value
+  }
+  return undefined
+}
+
+function present(value: string | null | undefined): string | null {
+  return typeof value === 'string' && value.trim().length > 0 ? value : null
+}
+
+function coordinate(own: string | null | undefined, company: number | null | undefined): number | null {
+  const value = own ? parseFloat(own) : (company ?? null)
+  return value && !isNaN(value) ? value : null
+}
+
+export function buildJobPostingInput(
+  job: JobPostingSource,
+  options: JobPostingInputOptions
+): { input: JobPostingSchemaInput; fallbacks: JobPostingInputFallbacks } {
+  const now = options.now ?? new Date()
+  const company = job.company
+  const title = job.title ?? ''
+  const companyName = present(company?.name) ?? FALLBACK_COMPANY[options.locale]
+  const city = present(job.city) ?? present(company?.city)
+
+  const description = (job.content_md || unwrapDescription(job.description) || '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  // Archived: the posting ran out at the moment it was archived.
+  const validThrough = job.archived_at
+    ? new Date(job.archived_at).toISOString()
+    : job.end_date
+      ? new Date(job.end_date).toISOString()
+      : job.published_at
+        ? new Date(new Date(job.published_at).getTime() + 60 * DAY_MS).toISOString()
+        : new Date(now.getTime() + 30 * DAY_MS).toISOString()
+
+  const sameAs: string[] = []
+  if (company?.website) sameAs.push(company.website)
+  if (company?.linkedin_url) sameAs.push(company.linkedin_url)
+
+  const salary = jobSalary(job)
+
+  return {
+    input: {
+      title,
+      description: description || `${title} ${FALLBACK_DESCRIPTION_JOINER[options.locale]} ${companyName}`,
+      datePosted: (job.published_at || job.created_at) ?? '',
+      validThrough,
+      employmentType: mapEmploymentType(job.employment),
+      hiringOrganization: {
+        name: companyName,
+        sameAs: sameAs.length > 0 ? sameAs : undefined,
+        logo: company?.logo_url,
+        kvkNumber: company?.kvk,
+      },
+      jobLocation: {
+        streetAddress: job.street || company?.street_address,
+        city: city ?? JOB_POSTING_FALLBACK_CITY,
+        postalCode: job.zipcode || company?.postal_code,
+        region: job.state,
+        country: 'NL',
+        latitude: coordinate(job.latitude, company?.latitude),
+        longitude: coordinate(job.longitude, company?.longitude),
+      },
+      salary: salary
+        ? { minValue: salary.min, maxValue: salary.max, currency: salary.currency, unitText: salary.unit }
+        : null,
+      directApply: options.nativeApply || !job.url,
+      identifier: { name: options.identifierName, value: job.id },
+      applicantLocationCountry: 'NL',
+    },
+    fallbacks: {
+      description: !description,
+      validThrough: !job.archived_at && !job.end_date,
+      company: !present(company?.name),
+      city: !city,
+    },
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Gestructureerde vacaturevelden zoals de AI-rewrite ze oplevert
+ * (apps/admin/lib/services/vacancy-ai-rewrite.service.ts). Het
+ * werkgeversportaal gebruikt dezelfde waardelijsten en hetzelfde
+ * markdown-format, zodat self-service vacatures er op de publieke sites
+ * hetzelfde uitzien als herschreven vacatures.
+ *
+ * Houd de lijsten gelijk aan de prompt van de rewrite-service.
+ */
+
+export const EMPLOYMENT_TYPES = [
+  'Vast',
+  'Tijdelijk',
+  'Parttime',
+  'Stage',
+  'Bijbaan',
+  'Freelance',
+  'Vrijwilliger',
+] as const
+
+export const EDUCATION_LEVELS = ['VMBO/MAVO', 'MBO', 'HBO', 'WO', 'HAVO', 'VWO'] as const
+
+export const VACANCY_CATEGORIES = [
+  'Medisch/Zorg',
+  'Techniek',
+  'Inkoop/Logistiek/Transport',
+  'Productie/Uitvoerend',
+  'Financieel/Accounting',
+  'Commercieel/Verkoop',
+  'Administratief/Secretarieel',
+  'Horeca/Detailhandel',
+  'Automatisering/Internet',
+  'Onderwijs/Onderzoek/Wetenschap',
+  'Beveiliging/Defensie/Politie',
+  'HR/Training/Opleiding',
+  'Marketing/PR/Communicatie',
+  'Bouw',
+  'Juridisch',
+  'Design/Creatie/Journalistiek',
+  'Klantenservice/Callcenter/Receptie',
+  'Directie/Management',
+  'Consultancy/Advies',
+  'Overig',
+] as const
+
+/** Vaste H2-secties van `content_md`, in deze volgorde. */
+export const VACANCY_SECTIONS = {
+  tasks: 'Wat ga je doen?',
+  profile: 'Wie zoeken we?',
+  offer: 'Wat bieden we?',
+} as const
+
+/** Zelfde vorm als `RewriteExtractedFields` in de rewrite-service. */
+export interface VacancyStructuredFields {
+  employment: string | null
+  education_level: string | null
+  categories: string | null
+  salary: string | null
+  working_hours_min: number | null
+  working_hours_max: number | null
+  seo_title: string | null
+  seo_description: string | null
+}
+
+export interface VacancySectionsInput {
+  intro: string
+  tasks: string
+  profile: string
+  offer: string
+}
+
+/** Regels -> markdown bullets; bestaande "-", "*" of "•" worden genormaliseerd. */
+function toBullets(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^\s*[-*•]\s*/, '').trim())
+    .filter(Boolean)
+    .map((line) => `- ${line}`)
+    .join('\n')
+}
+
+/**
+ * Bouwt `content_md` in het format van de rewrite-service: korte intro
+ * zonder heading, daarna de drie secties als bullet lists.
+ *
+ * @example
+ * buildVacancyMarkdown({ intro: 'Bakkerij Jansen zoekt...', tasks: 'Brood bakken', profile: '', offer: '' })
+ * // => 'Bakkerij Jansen zoekt...\n\n## Wat ga je doen?\n\n- Brood bakken'
+ */
+export function buildVacancyMarkdown(input: VacancySectionsInput): string {
+  const parts = [input.intro.trim()]
+  for (const key of ['tasks', 'profile', 'offer'] as const) {
+    const bullets = toBullets(input[key])
+    if (bullets) parts.push(`## ${VACANCY_SECTIONS[key]}\n\n${bullets}`)
+  }
+  return parts.filter(Boolean).join('\n\n')
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 3).trimEnd()}...`
+}
+
+/**
+ * SEO-velden zoals de rewrite-service ze voorschrijft:
+ * titel "{Functietitel} bij {Bedrijf} in {Stad}" (max 60), beschrijving max 155.
+ */
+export function buildVacancySeo(input: {
+  title: string
+  companyName: string
+  city?: string | null
+  intro?: string | null
+}): Pick<VacancyStructuredFields, 'seo_title' | 'seo_description'> {
+  const seoTitle = [input.title, `bij ${input.companyName}`, input.city ? `in ${input.city}` : null]
+    .filter(Boolean)
+    .join(' ')
+  const intro = (input.intro ?? '').replace(/\s+/g, ' ').trim()
+  return {
+    seo_title: truncate(seoTitle, 60),
+    seo_description: intro ? truncate(intro, 155) : null,
+  }
+}
@@ -0,0 +1,81 @@
+-- Generieke scraper-runtime voor adapter-bronnen (lib/scrapers/shared/runtime.ts).
+-- Zelfde model als werk.nl Fase 2/3 (ADR 0001/0002), maar gedeeld over bronnen via source_id.
+
+-- ── Queue (detail-verrijking) ─────────────────────────────────────────────
+-- Service-role only, RLS aan, geen policies (zoals werk_nl_scrape_queue).
+create table scrape_queue (
+  job_posting_id    uuid primary key references job_postings(id) on delete cascade,
+  source_id         uuid not null references job_sources(id) on delete cascade,
+  orchestration_id  text not null,
+  enqueued_at       timestamptz not null default now(),
+  picked_at         timestamptz,
+  completed_at      timestamptz,
+  status            text not null default 'pending'
+                    check (status in ('pending','processing','success','error','validation_failed')),
+  attempts          smallint not null default 0,
+  error_message     text,
+  result_stats      jsonb
+);
+create index idx_scrape_queue_orch on scrape_queue (orchestration_id);
+create index idx_scrape_queue_pending on scrape_queue (source_id, status, enqueued_at) where status = 'pending';
+alter table scrape_queue enable row level security;
+comment on table scrape_queue is 'Detail-queue voor adapter-scrapers. job_posting_id = primary key. Service-role only.';
+
+-- ── Atomic claim RPC per bron ─────────────────────────────────────────────
+-- null p_orchestration_id => claim oudste pending van de bron (cron-worker drain).
+create or replace function scrape_claim_batch(
+  p_source_id uuid,
+  p_orchestration_id text,
+  p_batch_size int
+) returns table (job_posting_id uuid, attempts smallint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with picked as (
+    select q.job_posting_id
+    from scrape_queue q
+    where q.source_id = p_source_id
+      and (p_orchestration_id is null or q.orchestration_id = p_orchestration_id)
+      and q.status = 'pending'
+    order by q.enqueued_at asc
+    limit p_batch_size
+    for update skip locked
+  )
+  update scrape_queue q
+     set status = 'processing',
+         picked_at = now(),
+         attempts = q.attempts + 1
+   from picked
+   where q.job_posting_id = picked.job_posting_id
+  returning q.job_posting_id, q.attempts;
+end;
+$$;
+revoke all on function scrape_claim_batch(uuid, text, int) from public, anon, authenticated;
+grant execute on function scrape_claim_batch(uuid, text, int) to service_role;
+comment on function scrape_claim_batch is 'Atomic claim van N pending scrape_queue-rijen van één bron. Service-role only.';
+
+-- ── Pass-state per bron ───────────────────────────────────────────────────
+create table scrape_scan_state (
+  source_id          uuid primary key references job_sources(id) on delete cascade,
+  pass_cursor        int not null default 0,
+  pass_started_at    timestamptz,
+  pass_completed_at  timestamptz
+);
+alter table scrape_scan_state enable row level security;
+comment on table scrape_scan_state is 'Voortgang van de volledige-pass scan per adapter-bron (cursor + pass-grenzen). Service-role only.';
+
+-- ── Company-dedup laag 1: stabiele bedrijfs-id per bron ───────────────────
+-- Vervangt per bron een eigen kolom (werknl_employer_id, werkenindekempen_id) voor nieuwe bronnen.
+create table company_external_ids (
+  source_id    uuid not null references job_sources(id) on delete cascade,
+  external_id  text not null,
+  company_id   uuid not null references companies(id) on delete cascade,
+  created_at   timestamptz not null default now(),
+  primary key (source_id, external_id)
+);
+create index idx_company_external_ids_company on company_external_ids (company_id);
+alter table company_external_ids enable row level security;
+comment on table company_external_ids is 'Bedrijfs-id bij een bron -> company (dedup-laag 1 voor adapter-scrapers). Service-role only.';
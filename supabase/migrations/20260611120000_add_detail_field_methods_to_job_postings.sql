@@ -0,0 +1,9 @@
+-- Herkomst per detailveld van de vacancy-detail-extractor (lib/services/sales-leads/vacancy-detail).
+-- Map van veldnaam naar methode, bv. {"salary": "json_ld", "working_hours_min": "pattern",
+-- "categories": "mistral"}. Mogelijke methodes: json_ld, microdata, rdfa, next_data,
+-- nuxt_data, pattern, mistral, page_markdown. Null = niet via de extractor verrijkt.
+ALTER TABLE job_postings
+  ADD COLUMN IF NOT EXISTS detail_field_methods jsonb;
+
+COMMENT ON COLUMN job_postings.detail_field_methods IS
+  'Per detailveld de extractiemethode (json_ld/microdata/rdfa/next_data/nuxt_data/pattern/mistral/page_markdown).';
@@ -0,0 +1,116 @@
+-- Cross-source duplicate-detectie voor job_postings (lib/services/job-dedup, cron job-dedup).
+-- Dezelfde vacature komt binnen via werk.nl, De Banensite, de eigen werken-bij-pagina, ...
+-- Per groep near-duplicates is er één canonical (canonical_id IS NULL); de siblings wijzen
+-- ernaar via canonical_id. Publieke overzichten tonen alleen canonicals.
+
+-- ── Canonical-koppeling + detector-queue ──────────────────────────────────
+alter table job_postings
+  add column if not exists canonical_id uuid references job_postings(id) on delete set null,
+  add column if not exists dedup_checked_at timestamptz;
+
+create index if not exists idx_job_postings_canonical_id
+  on job_postings (canonical_id) where canonical_id is not null;
+-- Smalle partial index voor de detector: alleen nog-niet-gecheckte actieve rijen.
+create index if not exists idx_job_postings_dedup_pending
+  on job_postings (created_at) where dedup_checked_at is null and archived_at is null;
+
+comment on column job_postings.canonical_id is
+  'Null = canonical (of geen duplicaten). Anders: id van de canonical posting van de duplicate-groep.';
+comment on column job_postings.dedup_checked_at is
+  'Laatste duplicate-check. Null = (opnieuw) checken; gereset bij wijziging van titel/beschrijving/plaats/bedrijf/platform of heropenen.';
+
+-- Inhoud, platform gewijzigd of heropend -> opnieuw langs de detector.
+create or replace function job_postings_dedup_reset() returns trigger
+language plpgsql as $$
+begin
+  if new.title is distinct from old.title
+     or new.description is distinct from old.description
+     or new.city is distinct from old.city
+     or new.company_id is distinct from old.company_id
+     or new.platform_id is distinct from old.platform_id
+     or (old.archived_at is not null and new.archived_at is null) then
+    new.dedup_checked_at := null;
+  end if;
+  return new;
+end $$;
+
+create trigger trg_job_postings_dedup_reset
+  before update on job_postings
+  for each row execute function job_postings_dedup_reset();
+
+-- Groep vrijgeven en opnieuw laten groeperen door de detector, die dan een nieuwe
+-- (approved) canonical kiest. Zo verdwijnt een vacature niet van de publieke sites
+-- zolang er nog een actieve, goedgekeurde kopie is:
+--   - canonical gearchiveerd of niet meer approved -> siblings loskoppelen
+--   - sibling wordt approved terwijl de canonical dat niet is -> hele groep loskoppelen
+-- De updates raken alleen canonical_id/dedup_checked_at, dus de trigger vuurt niet opnieuw.
+create or replace function job_postings_release_siblings() returns trigger
+language plpgsql as $$
+begin
+  if new.canonical_id is null then
+    if new.archived_at is not null or new.review_status is distinct from 'approved' then
+      update job_postings
+         set canonical_id = null, dedup_checked_at = null
+       where canonical_id = new.id;
+    end if;
+  elsif new.review_status = 'approved' and new.archived_at is null then
+    update job_postings
+       set canonical_id = null, dedup_checked_at = null
+     where (id = new.canonical_id or canonical_id = new.canonical_id)
+       and exists (
+         select 1 from job_postings c
+          where c.id = new.canonical_id
+            and (c.review_status is distinct from 'approved' or c.archived_at is not null)
+       );
+  end if;
+  return null;
+end $$;
+
+create trigger trg_job_postings_release_siblings
+  after update of archived_at, review_status on job_postings
+  for each row
+  when ((old.archived_at is null and new.archived_at is not null)
+        or old.review_status is distinct from new.review_status)
+  execute function job_postings_release_siblings();
+
+-- ── Fingerprints (MinHash + LSH-banden) ───────────────────────────────────
+-- Service-role only, RLS aan, geen policies.
+create table job_posting_fingerprints (
+  job_posting_id  uuid primary key references job_postings(id) on delete cascade,
+  company_id      uuid not null,
+  platform_id     uuid,
+  title_norm      text not null,
+  city_norm       text,
+  minhash         integer[],          -- null = beschrijving te kort, alleen titel-band
+  lsh_bands       text[] not null,
+  computed_at     timestamptz not null default now()
+);
+create index idx_jp_fingerprints_company on job_posting_fingerprints (company_id);
+create index idx_jp_fingerprints_bands on job_posting_fingerprints using gin (lsh_bands);
+alter table job_posting_fingerprints enable row level security;
+comment on table job_posting_fingerprints is
+  'MinHash-signatuur (genormaliseerde titel + beschrijving-shingles) per job_posting. Kandidaten = zelfde company_id en minstens één gedeelde LSH-band.';
+
+-- ── Gevonden paren ────────────────────────────────────────────────────────
+-- pending = borderline, wacht op review (/review/duplicaten). auto_merged = boven de
+-- auto-drempel samengevoegd. merged/rejected = reviewbeslissing. Een rejected paar
+-- wordt niet opnieuw voorgesteld (unique op het paar).
+create table job_posting_duplicates (
+  id                      uuid primary key default gen_random_uuid(),
+  posting_a_id            uuid not null references job_postings(id) on delete cascade,
+  posting_b_id            uuid not null references job_postings(id) on delete cascade,
+  title_similarity        real not null,
+  description_similarity  real,
+  score                   real not null,
+  status                  text not null default 'pending'
+                          check (status in ('pending','auto_merged','merged','rejected')),
+  created_at              timestamptz not null default now(),
+  reviewed_at             timestamptz,
+  reviewed_by             uuid,
+  constraint job_posting_duplicates_ordered check (posting_a_id < posting_b_id),
+  constraint job_posting_duplicates_pair_key unique (posting_a_id, posting_b_id)
+);
+create index idx_jp_duplicates_status on job_posting_duplicates (status, created_at desc);
+alter table job_posting_duplicates enable row level security;
+comment on table job_posting_duplicates is
+  'Near-duplicate paren uit de job-dedup detector (posting_a_id < posting_b_id). Service-role only.';
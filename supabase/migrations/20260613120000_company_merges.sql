@@ -0,0 +1,261 @@
+-- Bedrijven samenvoegen (/bedrijven, lib/services/company-dedup/merge.service.ts).
+--
+-- merge_companies(survivor, loser, fields, user) hangt in één transactie alle
+-- verwijzingen van de loser om naar de survivor, verwijdert de loser en zet de
+-- per veld gekozen waarden op de survivor. Alles wat nodig is om dat terug te
+-- draaien staat in company_merges; undo_company_merge(id, user) zet de loser
+-- terug en hangt exact de verplaatste rijen weer terug.
+
+-- ── Audit ─────────────────────────────────────────────────────────────────
+create table company_merges (
+  id               uuid primary key default gen_random_uuid(),
+  survivor_id      uuid not null,
+  loser_id         uuid not null,
+  loser_name       text not null,
+  -- Volledige rijen vóór de merge (undo zet de loser hiermee terug)
+  survivor_before  jsonb not null,
+  loser_snapshot   jsonb not null,
+  -- Kolom -> waarde die op de survivor is gezet
+  field_values     jsonb not null default '{}'::jsonb,
+  -- Per tabel de verplaatste sleutels, zie merge_companies
+  moved            jsonb not null default '{}'::jsonb,
+  merged_by        uuid,
+  merged_at        timestamptz not null default now(),
+  undone_by        uuid,
+  undone_at        timestamptz
+);
+create index idx_company_merges_merged_at on company_merges (merged_at desc);
+create index idx_company_merges_survivor on company_merges (survivor_id);
+alter table company_merges enable row level security;
+comment on table company_merges is
+  'Audit van samengevoegde bedrijven met alles wat undo_company_merge nodig heeft. Service-role only.';
+
+-- ── Merge ─────────────────────────────────────────────────────────────────
+create or replace function public.merge_companies(
+  p_survivor uuid,
+  p_loser uuid,
+  p_fields jsonb,
+  p_user uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_survivor  companies;
+  v_loser     companies;
+  v_moved     jsonb := '{}'::jsonb;
+  v_ids       jsonb;
+  v_key       text;
+  v_src       record;
+  v_dropped   jsonb := '[]'::jsonb;
+  v_survivor_org text;
+  v_loser_org    text;
+  v_merge_id  uuid;
+begin
+  if p_survivor = p_loser then
+    raise exception 'Survivor en loser zijn hetzelfde bedrijf' using errcode = '22023';
+  end if;
+
+  select * into v_survivor from companies where id = p_survivor for update;
+  if not found then raise exception 'Survivor niet gevonden' using errcode = 'P0002'; end if;
+  select * into v_loser from companies where id = p_loser for update;
+  if not found then raise exception 'Loser niet gevonden' using errcode = 'P0002'; end if;
+
+  -- Career-page-bronnen die de survivor al heeft (zelfde url): vacatures omhangen
+  -- naar de bron van de survivor, loser-bron verwijderen (snapshot voor undo).
+  for v_src in
+    select ls.id as loser_source_id, to_jsonb(ls) as snapshot, ss.id as survivor_source_id
+      from job_sources ls
+      join job_sources ss
+        on ss.company_id = p_survivor and ss.kind = 'company_career_page' and ss.url = ls.url
+     where ls.company_id = p_loser and ls.kind = 'company_career_page'
+  loop
+    with m as (
+      update job_postings set source_id = v_src.survivor_source_id
+       where source_id = v_src.loser_source_id returning id
+    )
+    select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+    v_dropped := v_dropped || jsonb_build_object('source', v_src.snapshot, 'job_posting_ids', v_ids);
+    delete from job_sources where id = v_src.loser_source_id;
+  end loop;
+  v_moved := v_moved || jsonb_build_object('dropped_job_sources', v_dropped);
+
+  with m as (update job_sources set company_id = p_survivor where company_id = p_loser returning id)
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+  v_moved := v_moved || jsonb_build_object('job_sources', v_ids);
+
+  with m as (update job_postings set company_id = p_survivor where company_id = p_loser returning id)
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+  v_moved := v_moved || jsonb_build_object('job_postings', v_ids);
+
+  update job_posting_fingerprints set company_id = p_survivor where company_id = p_loser;
+
+  with m as (update contacts set company_id = p_survivor where company_id = p_loser returning id)
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+  v_moved := v_moved || jsonb_build_object('contacts', v_ids);
+
+  -- Eén actieve company-block per bedrijf (idx_blocklist_company_unique)
+  if exists (
+    select 1 from blocklist_entries
+     where company_id = p_survivor and block_type = 'company' and is_active
+  ) then
+    with m as (
+      update blocklist_entries set is_active = false
+       where company_id = p_loser and block_type = 'company' and is_active returning id
+    )
+    select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+    v_moved := v_moved || jsonb_build_object('blocklist_deactivated', v_ids);
+  end if;
+  with m as (update blocklist_entries set company_id = p_survivor where company_id = p_loser returning id)
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+  v_moved := v_moved || jsonb_build_object('blocklist_entries', v_ids);
+
+  with m as (update instantly_email_events set company_id = p_survivor where company_id = p_loser returning id)
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+  v_moved := v_moved || jsonb_build_object('instantly_email_events', v_ids);
+
+  with m as (update enrichment_status set company_id = p_survivor where company_id = p_loser returning id)
+  select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+  v_moved := v_moved || jsonb_build_object('enrichment_status', v_ids);
+
+  with m as (
+    update company_external_ids set company_id = p_survivor where company_id = p_loser
+    returning source_id, external_id
+  )
+  select coalesce(jsonb_agg(jsonb_build_object('source_id', source_id, 'external_id', external_id)), '[]'::jsonb)
+    into v_ids from m;
+  v_moved := v_moved || jsonb_build_object('company_external_ids', v_ids);
+
+  -- Transiente geocode-queue: loser-rij vervalt, wordt bij undo niet hersteld.
+  delete from postcode_geocode_queue where company_id = p_loser;
+
+  -- sales_lead_runs hebben geen company_id; de koppeling loopt via de
+  -- Pipedrive-organisatie. Houdt de survivor een andere org dan de loser, dan
+  -- verhuizen de runs van de loser-org mee.
+  v_survivor_org := case when p_fields ? 'pipedrive_id' then p_fields->>'pipedrive_id' else v_survivor.pipedrive_id end;
+  v_loser_org := v_loser.pipedrive_id;
+  if v_loser_org ~ '^\d+$' and v_survivor_org ~ '^\d+$' and v_loser_org <> v_survivor_org then
+    with m as (
+      update sales_lead_runs set pipedrive_org_id = v_survivor_org::bigint
+       where pipedrive_org_id = v_loser_org::bigint returning id
+    )
+    select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+    v_moved := v_moved || jsonb_build_object('sales_lead_runs', v_ids);
+
+    with m as (
+      update sales_lead_runs set existing_pipedrive_org_id = v_survivor_org::bigint
+       where existing_pipedrive_org_id = v_loser_org::bigint returning id
+    )
+    select coalesce(jsonb_agg(id), '[]'::jsonb) into v_ids from m;
+    v_moved := v_moved || jsonb_build_object(
+      'sales_lead_runs_existing', v_ids,
+      'pipedrive_org', jsonb_build_object('from', v_loser_org::bigint, 'to', v_survivor_org::bigint)
+    );
+  end if;
+
+  -- Eerst de loser weg, dan pas velden overnemen: unieke kolommen
+  -- (werknl_employer_id, werkenindekempen_id, ...) botsen anders.
+  delete from companies where id = p_loser;
+
+  for v_key in select jsonb_object_keys(coalesce(p_fields, '{}'::jsonb)) loop
+    if v_key in ('id', 'created_at') then
+      raise exception 'Veld % kan niet samengevoegd worden', v_key using errcode = '22023';
+    end if;
+    execute format(
+      'update companies set %I = (jsonb_populate_record(null::companies, $1)).%I where id = $2',
+      v_key, v_key
+    ) using p_fields, p_survivor;
+  end loop;
+
+  insert into company_merges (
+    survivor_id, loser_id, loser_name, survivor_before, loser_snapshot, field_values, moved, merged_by
+  ) values (
+    p_survivor, p_loser, v_loser.name, to_jsonb(v_survivor), to_jsonb(v_loser),
+    coalesce(p_fields, '{}'::jsonb), v_moved, p_user
+  )
+  returning id into v_merge_id;
+
+  return v_merge_id;
+end;
+$$;
+
+-- ── Undo ──────────────────────────────────────────────────────────────────
+-- Zet de loser terug uit de snapshot, herstelt de overgenomen velden op de
+-- survivor en hangt exact de verplaatste rijen terug. Rijen die sindsdien nieuw
+-- bij de survivor kwamen blijven daar.
+create or replace function public.undo_company_merge(p_merge_id uuid, p_user uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_merge  company_merges;
+  v_key    text;
+  v_src    jsonb;
+  v_org    jsonb;
+begin
+  select * into v_merge from company_merges where id = p_merge_id for update;
+  if not found then raise exception 'Merge niet gevonden' using errcode = 'P0002'; end if;
+  if v_merge.undone_at is not null then
+    raise exception 'Merge is al teruggedraaid' using errcode = '22023';
+  end if;
+  if not exists (select 1 from companies where id = v_merge.survivor_id) then
+    raise exception 'Survivor bestaat niet meer (later samengevoegd of verwijderd)' using errcode = '22023';
+  end if;
+
+  -- Overgenomen velden terug naar de oude survivor-waarde, daarna pas de loser
+  -- terugzetten (unieke kolommen).
+  for v_key in select jsonb_object_keys(v_merge.field_values) loop
+    execute format(
+      'update companies set %I = (jsonb_populate_record(null::companies, $1)).%I where id = $2',
+      v_key, v_key
+    ) using v_merge.survivor_before, v_merge.survivor_id;
+  end loop;
+
+  insert into companies select * from jsonb_populate_record(null::companies, v_merge.loser_snapshot);
+
+  update job_sources set company_id = v_merge.loser_id
+   where id in (select (jsonb_array_elements_text(v_merge.moved->'job_sources'))::uuid);
+  for v_src in select * from jsonb_array_elements(coalesce(v_merge.moved->'dropped_job_sources', '[]'::jsonb)) loop
+    insert into job_sources select * from jsonb_populate_record(null::job_sources, v_src->'source');
+    update job_postings set source_id = (v_src->'source'->>'id')::uuid
+     where id in (select (jsonb_array_elements_text(v_src->'job_posting_ids'))::uuid);
+  end loop;
+
+  update job_postings set company_id = v_merge.loser_id
+   where id in (select (jsonb_array_elements_text(v_merge.moved->'job_postings'))::uuid);
+  update job_posting_fingerprints set company_id = v_merge.loser_id
+   where job_posting_id in (select (jsonb_array_elements_text(v_merge.moved->'job_postings'))::uuid);
+  update contacts set company_id = v_merge.loser_id
+   where id in (select (jsonb_array_elements_text(v_merge.moved->'contacts'))::uuid);
+  update blocklist_entries set company_id = v_merge.loser_id
+   where id in (select (jsonb_array_elements_text(v_merge.moved->'blocklist_entries'))::uuid);
+  update blocklist_entries set is_active = true
+   where id in (select (jsonb_array_elements_text(coalesce(v_merge.moved->'blocklist_deactivated', '[]'::jsonb)))::uuid);
+  update instantly_email_events set company_id = v_merge.loser_id
+   where id in (select (jsonb_array_elements_text(v_merge.moved->'instantly_email_events'))::uuid);
+  update enrichment_status set company_id = v_merge.loser_id
+   where id in (select (jsonb_array_elements_text(v_merge.moved->'enrichment_status'))::uuid);
+  update company_external_ids e set company_id = v_merge.loser_id
+    from jsonb_array_elements(coalesce(v_merge.moved->'company_external_ids', '[]'::jsonb)) x
+   where e.source_id = (x->>'source_id')::uuid and e.external_id = x->>'external_id';
+
+  v_org := v_merge.moved->'pipedrive_org';
+  if v_org is not null then
+    update sales_lead_runs set pipedrive_org_id = (v_org->>'from')::bigint
+     where id in (select (jsonb_array_elements_text(v_merge.moved->'sales_lead_runs'))::uuid);
+    update sales_lead_runs set existing_pipedrive_org_id = (v_org->>'from')::bigint
+     where id in (select (jsonb_array_elements_text(v_merge.moved->'sales_lead_runs_existing'))::uuid);
+  end if;
+
+  update company_merges set undone_at = now(), undone_by = p_user where id = p_merge_id;
+end;
+$$;
+
+revoke all on function public.merge_companies(uuid, uuid, jsonb, uuid) from public, anon, authenticated;
+grant execute on function public.merge_companies(uuid, uuid, jsonb, uuid) to service_role;
+revoke all on function public.undo_company_merge(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.undo_company_merge(uuid, uuid) to service_role;
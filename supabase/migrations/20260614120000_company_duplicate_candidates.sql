@@ -0,0 +1,33 @@
+-- Kandidaat-duplicaten tussen bedrijven (automation company-dedup).
+--
+-- De nachtelijke finder zoekt paren die een hoofddomein, KvK-nummer,
+-- werk.nl werkgever-id, telefoonnummer of postcode delen, of een (bijna)
+-- gelijke naam hebben, en scoort ze. Paren boven de drempel komen hier met
+-- hun bewijs terecht; /review/bedrijven toont ze en opent de merge-tool.
+--
+-- Een samengevoegd paar verdwijnt vanzelf (cascade op de verwijderde loser);
+-- de historie staat in company_merges. Een afgewezen paar blijft staan zodat
+-- de finder het niet opnieuw voorstelt.
+
+-- ── Kandidaten ─────────────────────────────────────────────────────
+create table company_duplicate_candidates (
+  id             uuid primary key default gen_random_uuid(),
+  company_a_id   uuid not null references companies(id) on delete cascade,
+  company_b_id   uuid not null references companies(id) on delete cascade,
+  score          real not null,
+  signals        text[] not null default '{}',
+  evidence       jsonb not null default '{}'::jsonb,
+  status         text not null default 'pending'
+                 check (status in ('pending','rejected')),
+  created_at     timestamptz not null default now(),
+  updated_at     timestamptz not null default now(),
+  reviewed_at    timestamptz,
+  reviewed_by    uuid,
+  constraint company_duplicate_candidates_ordered check (company_a_id < company_b_id),
+  constraint company_duplicate_candidates_pair_key unique (company_a_id, company_b_id)
+);
+create index idx_company_dup_candidates_status on company_duplicate_candidates (status, score desc);
+create index idx_company_dup_candidates_b on company_duplicate_candidates (company_b_id);
+alter table company_duplicate_candidates enable row level security;
+comment on table company_duplicate_candidates is
+  'Gescoorde kandidaat-duplicaten uit de company-dedup finder (company_a_id < company_b_id), met bewijs per signaal. Service-role only.';
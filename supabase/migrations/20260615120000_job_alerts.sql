@@ -0,0 +1,47 @@
+-- Vacaturealerts voor werkzoekenden op de publieke sites.
+--
+-- Een alert bewaart de JobFilter van /vacatures (zoekterm, plaats, type,
+-- uren, opleiding, sector) per tenant (platform). Ingelogde Clerk-gebruikers
+-- met een geverifieerd e-mailadres zijn direct actief; e-mail-only alerts
+-- blijven 'pending' tot de bevestigingslink (double opt-in) is geklikt.
+--
+-- De digest-route op public-sites (/api/job-alerts/digest) stuurt per alert
+-- alleen vacatures met published_at > cursor_published_at en schuift de
+-- cursor daarna door, zodat geen vacature twee keer gemaild wordt.
+--
+-- Alle toegang loopt via server actions met de service-role key; de tabel
+-- heeft geen RLS-policies.
+
+-- ── Alerts ─────────────────────────────────────────────────────────
+create table job_alerts (
+  id                   uuid primary key default gen_random_uuid(),
+  platform_id          uuid not null references platforms(id) on delete cascade,
+  user_id              text,
+  email                text not null,
+  filter               jsonb not null default '{}'::jsonb,
+  frequency            text not null default 'daily'
+                       check (frequency in ('daily','instant')),
+  status               text not null default 'pending'
+                       check (status in ('pending','active','unsubscribed')),
+  confirm_token        uuid not null default gen_random_uuid(),
+  unsubscribe_token    uuid not null default gen_random_uuid(),
+  confirmed_at         timestamptz,
+  unsubscribed_at      timestamptz,
+  cursor_published_at  timestamptz,
+  last_sent_at         timestamptz,
+  created_at           timestamptz not null default now(),
+  updated_at           timestamptz not null default now(),
+  constraint job_alerts_confirm_token_key unique (confirm_token),
+  constraint job_alerts_unsubscribe_token_key unique (unsubscribe_token)
+);
+
+-- Zelfde adres + zelfde filter op hetzelfde portaal = één alert.
+create unique index job_alerts_subscription_key
+  on job_alerts (platform_id, lower(email), md5(filter::text));
+create index idx_job_alerts_due on job_alerts (frequency, last_sent_at)
+  where status = 'active';
+create index idx_job_alerts_user on job_alerts (user_id) where user_id is not null;
+
+alter table job_alerts enable row level security;
+comment on table job_alerts is
+  'Vacaturealerts (opgeslagen JobFilter + frequentie) per publiek portaal, met double opt-in en unsubscribe-token. Service-role only.';
@@ -0,0 +1,59 @@
+-- Solliciteren op de site zelf (method 'internal_form') naast de bestaande
+-- klik-tracking (method 'external_redirect').
+--
+-- Een native sollicitatie bewaart de kandidaatgegevens, het pad van het CV
+-- (en optioneel een motivatiebrief) in de private bucket
+-- 'application-documents' en naar welk contact van het bedrijf hij is
+-- doorgestuurd. Anonieme kandidaten mogen ook solliciteren, dus user_id
+-- wordt nullable.
+--
+-- Status-lifecycle:
+--   submitted  -> opgeslagen, nog niet doorgestuurd (geen contact/mail mislukt)
+--   forwarded  -> gemaild naar de werkgever
+--   in_review / invited / rejected / hired -> door de werkgever/admin gezet
+--   withdrawn  -> door de kandidaat ingetrokken
+-- External-redirect rijen houden status null.
+
+-- ── Kolommen ───────────────────────────────────────────────────────
+alter table job_applications
+  alter column user_id drop not null,
+  add column if not exists candidate_name     text,
+  add column if not exists candidate_email    text,
+  add column if not exists candidate_phone    text,
+  add column if not exists motivation         text,
+  add column if not exists cv_path            text,
+  add column if not exists motivation_path    text,
+  add column if not exists forwarded_to       text,
+  add column if not exists forwarded_at       timestamptz,
+  add column if not exists status_updated_at  timestamptz;
+
+-- NOT VALID: bestaande rijen hebben historisch vrije status-waarden.
+alter table job_applications
+  add constraint job_applications_status_check
+  check (status is null or status in
+    ('submitted','forwarded','in_review','invited','rejected','hired','withdrawn'))
+  not valid;
+
+create index if not exists idx_job_applications_candidate_email
+  on job_applications (lower(candidate_email))
+  where candidate_email is not null;
+
+comment on column job_applications.cv_path is
+  'Pad in storage bucket application-documents (private). Alleen service-role.';
+
+-- ── Storage ────────────────────────────────────────────────────────
+-- Private: CV''s bevatten persoonsgegevens. Uploads en downloads gaan via
+-- service-role; de werkgever krijgt de bestanden als mailbijlage.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'application-documents',
+  'application-documents',
+  false,
+  4194304,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+on conflict (id) do nothing;
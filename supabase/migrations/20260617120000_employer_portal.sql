@@ -0,0 +1,329 @@
+-- Werkgeversportaal (apps/employer-portal).
+--
+-- Werkgevers loggen in met Clerk (zelfde Supabase JWT-template "supabase"
+-- als de publieke sites; `sub` = Clerk user id, `email` = primair adres).
+-- Toegang tot bedrijfsdata loopt via RLS op lidmaatschap van het bedrijf:
+-- `company_members` koppelt een Clerk-gebruiker aan een bedrijf, en elke
+-- policy hieronder toetst via `is_company_member(company_id)`.
+--
+-- Claimen van een bedrijfsprofiel gaat via de RPC `claim_company`: komt het
+-- domein van het (Clerk-geverifieerde) e-mailadres overeen met
+-- `companies.hoofddomein`, dan wordt de claim direct goedgekeurd. Anders
+-- blijft hij 'pending' tot een admin hem goedkeurt op /review/werkgevers.
+-- Publieke e-maildomeinen (gmail.com, ziggo.nl, ...) keuren nooit automatisch
+-- goed: niet elke schrijver van hoofddomein filtert ze eruit.
+--
+-- Daarnaast per vacature per dag views, sollicitatiekliks en native
+-- sollicitaties in `job_posting_stats`, bijgehouden door de publieke sites
+-- via `track_job_event`.
+
+-- ── Lidmaatschap ───────────────────────────────────────────────────
+create table company_members (
+  id          uuid primary key default gen_random_uuid(),
+  company_id  uuid not null references companies(id) on delete cascade,
+  user_id     text not null,
+  email       text not null,
+  role        text not null default 'member' check (role in ('owner','member')),
+  created_at  timestamptz not null default now(),
+  constraint company_members_company_user_key unique (company_id, user_id)
+);
+create index idx_company_members_user on company_members (user_id);
+
+create table company_claims (
+  id           uuid primary key default gen_random_uuid(),
+  company_id   uuid not null references companies(id) on delete cascade,
+  user_id      text not null,
+  email        text not null,
+  method       text not null check (method in ('email_domain','manual')),
+  status       text not null default 'pending'
+               check (status in ('pending','approved','rejected')),
+  note         text,
+  reviewed_by  uuid references auth.users(id) on delete set null,
+  reviewed_at  timestamptz,
+  created_at   timestamptz not null default now()
+);
+create unique index company_claims_open_key
+  on company_claims (company_id, user_id) where status = 'pending';
+create index idx_company_claims_status on company_claims (status, created_at);
+
+comment on table company_members is
+  'Koppeling Clerk-gebruiker (werkgever) -> bedrijf. Basis voor alle RLS-policies van het werkgeversportaal.';
+comment on table company_claims is
+  'Claims van werkgevers op een bedrijfsprofiel. email_domain = automatisch goedgekeurd, manual = review op /review/werkgevers.';
+
+-- ── Helpers ────────────────────────────────────────────────────────
+create or replace function clerk_user_id() returns text
+language sql stable as $$
+  select nullif(auth.jwt() ->> 'sub', '')
+$$;
+
+-- security definer: anders zou de policy op company_members zichzelf
+-- recursief evalueren.
+create or replace function is_company_member(p_company uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from company_members
+    where company_id = p_company and user_id = clerk_user_id()
+  )
+$$;
+
+-- ── Claimen ────────────────────────────────────────────────────────
+create or replace function claim_company(p_company uuid) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_user   text := clerk_user_id();
+  v_email  text := lower(nullif(auth.jwt() ->> 'email', ''));
+  v_domain text;
+  v_hoofd  text;
+  -- Zelfde lijst als PUBLIC_EMAIL_DOMAINS in de sales-leads create-route,
+  -- aangevuld met de grote Nederlandse providers.
+  v_public text[] := array[
+    'gmail.com', 'googlemail.com', 'hotmail.com', 'hotmail.nl', 'outlook.com',
+    'live.com', 'live.nl', 'msn.com', 'yahoo.com', 'yahoo.nl', 'icloud.com',
+    'me.com', 'protonmail.com', 'proton.me', 'ziggo.nl', 'upcmail.nl',
+    'kpnmail.nl', 'kpnplanet.nl', 'planet.nl', 'xs4all.nl', 'hetnet.nl',
+    'home.nl', 'casema.nl', 'telfort.nl', 'tele2.nl'
+  ];
+begin
+  if v_user is null or v_email is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  if exists (select 1 from company_members where company_id = p_company and user_id = v_user) then
+    return 'approved';
+  end if;
+
+  select lower(hoofddomein) into v_hoofd from companies where id = p_company;
+  if not found then
+    raise exception 'company % not found', p_company using errcode = 'P0002';
+  end if;
+
+  v_domain := split_part(v_email, '@', 2);
+  if v_hoofd is not null
+     and v_hoofd <> all (v_public)
+     and v_domain <> all (v_public)
+     and (v_domain = v_hoofd or v_domain like '%.' || v_hoofd) then
+    insert into company_claims (company_id, user_id, email, method, status, reviewed_at)
+    values (p_company, v_user, v_email, 'email_domain', 'approved', now());
+    insert into company_members (company_id, user_id, email, role)
+    values (
+      p_company, v_user, v_email,
+      case when exists (select 1 from company_members where company_id = p_company and role = 'owner')
+           then 'member' else 'owner' end
+    )
+    on conflict (company_id, user_id) do nothing;
+    return 'approved';
+  end if;
+
+  insert into company_claims (company_id, user_id, email, method)
+  values (p_company, v_user, v_email, 'manual')
+  on conflict (company_id, user_id) where status = 'pending' do nothing;
+  return 'pending';
+end;
+$$;
+
+revoke all on function claim_company(uuid) from public;
+grant execute on function claim_company(uuid) to authenticated;
+
+-- ── Statistieken ───────────────────────────────────────────────────
+create table job_posting_stats (
+  job_posting_id  uuid not null references job_postings(id) on delete cascade,
+  day             date not null,
+  views           integer not null default 0,
+  apply_clicks    integer not null default 0,
+  applications    integer not null default 0,
+  primary key (job_posting_id, day)
+);
+
+comment on table job_posting_stats is
+  'Dagtotalen per vacature: views, kliks naar de externe sollicitatielink en native sollicitaties. Gevuld via track_job_event.';
+
+-- Aangeroepen vanaf de publieke sites (anon key); telt alleen voor
+-- bestaande, goedgekeurde vacatures.
+create or replace function track_job_event(p_job uuid, p_kind text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if p_kind not in ('view','apply_click','application') then
+    raise exception 'invalid kind %', p_kind using errcode = '22023';
+  end if;
+  if not exists (select 1 from job_postings where id = p_job and review_status = 'approved') then
+    return;
+  end if;
+
+  insert into job_posting_stats as s (job_posting_id, day, views, apply_clicks, applications)
+  values (
+    p_job,
+    (now() at time zone 'Europe/Amsterdam')::date,
+    (p_kind = 'view')::int,
+    (p_kind = 'apply_click')::int,
+    (p_kind = 'application')::int
+  )
+  on conflict (job_posting_id, day) do update set
+    views        = s.views + excluded.views,
+    apply_clicks = s.apply_clicks + excluded.apply_clicks,
+    applications = s.applications + excluded.applications;
+end;
+$$;
+
+revoke all on function track_job_event(uuid, text) from public;
+grant execute on function track_job_event(uuid, text) to anon, authenticated;
+
+-- ── RLS ────────────────────────────────────────────────────────────
+alter table company_members enable row level security;
+alter table company_claims enable row level security;
+alter table job_posting_stats enable row level security;
+
+create policy "company_members own read"
+  on company_members for select
+  to authenticated
+  using (user_id = clerk_user_id());
+
+create policy "company_claims own read"
+  on company_claims for select
+  to authenticated
+  using (user_id = clerk_user_id());
+
+create policy "job_posting_stats member read"
+  on job_posting_stats for select
+  to authenticated
+  using (
+    exists (
+      select 1 from job_postings jp
+      where jp.id = job_posting_stats.job_posting_id
+        and is_company_member(jp.company_id)
+    )
+  );
+
+-- Bestaande tabellen: alleen extra read-policies naast de bestaande. Schrijven
+-- gaat via de RPC's hieronder, zodat werkgevers alleen de kolommen kunnen
+-- wijzigen die het portaal aanbiedt (review_status, platform_id, pipedrive-
+-- velden enz. blijven buiten bereik). Bewust geen column-grants op
+-- `authenticated`: die rol deelt het admin-dashboard.
+create policy "companies member read"
+  on companies for select
+  to authenticated
+  using (is_company_member(id));
+
+create policy "job_postings member read"
+  on job_postings for select
+  to authenticated
+  using (is_company_member(company_id));
+
+create policy "job_applications member read"
+  on job_applications for select
+  to authenticated
+  using (
+    exists (
+      select 1 from job_postings jp
+      where jp.id = job_applications.job_posting_id
+        and is_company_member(jp.company_id)
+    )
+  );
+
+-- ── Schrijven (whitelisted) ────────────────────────────────────────
+create or replace function employer_update_company(p_company uuid, p_values jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if not is_company_member(p_company) then
+    raise exception 'not a member of company %', p_company using errcode = '42501';
+  end if;
+  -- Links worden als href gerenderd; alleen http(s), ook bij een directe RPC-aanroep.
+  if nullif(btrim(p_values ->> 'website'), '') !~* '^https?://'
+     or nullif(btrim(p_values ->> 'linkedin_url'), '') !~* '^https?://' then
+    raise exception 'website and linkedin_url must be http(s)' using errcode = '22023';
+  end if;
+  update companies set
+    description    = case when p_values ? 'description'    then p_values ->> 'description'    else description end,
+    website        = case when p_values ? 'website'        then p_values ->> 'website'        else website end,
+    linkedin_url   = case when p_values ? 'linkedin_url'   then p_values ->> 'linkedin_url'   else linkedin_url end,
+    phone          = case when p_values ? 'phone'          then p_values ->> 'phone'          else phone end,
+    street_address = case when p_values ? 'street_address' then p_values ->> 'street_address' else street_address end,
+    postal_code    = case when p_values ? 'postal_code'    then p_values ->> 'postal_code'    else postal_code end,
+    city           = case when p_values ? 'city'           then p_values ->> 'city'           else city end
+  where id = p_company;
+end;
+$$;
+
+-- Inhoudelijke wijzigingen aan een goedgekeurde vacature gaan terug de
+-- reviewqueue in (review_status 'pending') en zijn tot dan offline. Heropenen
+-- kan alleen als de werkgever zelf sloot; delisting door de bron of een
+-- verlopen pakket blijft staan. Geeft true als de vacature opnieuw gereviewd wordt.
+create or replace function employer_update_job(p_job uuid, p_values jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_job      job_postings;
+  v_changed  boolean;
+begin
+  select * into v_job from job_postings where id = p_job for update;
+  if not found or not is_company_member(v_job.company_id) then
+    raise exception 'job % not accessible', p_job using errcode = '42501';
+  end if;
+  if p_values ? 'archived' and not (p_values ->> 'archived')::boolean
+     and v_job.archived_at is not null
+     and v_job.archived_reason is distinct from 'employer_closed' then
+    raise exception 'job % cannot be reopened (archived_reason %)', p_job, v_job.archived_reason
+      using errcode = '42501';
+  end if;
+  if nullif(btrim(p_values ->> 'url'), '') !~* '^https?://' then
+    raise exception 'url must be http(s)' using errcode = '22023';
+  end if;
+
+  v_changed :=
+       (p_values ? 'title'      and (p_values ->> 'title')      is distinct from v_job.title)
+    or (p_values ? 'content_md' and (p_values ->> 'content_md') is distinct from v_job.content_md)
+    or (p_values ? 'salary'     and (p_values ->> 'salary')     is distinct from v_job.salary)
+    or (p_values ? 'employment' and (p_values ->> 'employment') is distinct from v_job.employment)
+    or (p_values ? 'url'        and (p_values ->> 'url')        is distinct from v_job.url)
+    or (p_values ? 'end_date'   and (p_values ->> 'end_date')::date is distinct from v_job.end_date);
+
+  update job_postings set
+    title       = case when p_values ? 'title'      then p_values ->> 'title'      else title end,
+    content_md  = case when p_values ? 'content_md' then p_values ->> 'content_md' else content_md end,
+    salary      = case when p_values ? 'salary'     then p_values ->> 'salary'     else salary end,
+    employment  = case when p_values ? 'employment' then p_values ->> 'employment' else employment end,
+    url         = case when p_values ? 'url'        then p_values ->> 'url'        else url end,
+    end_date    = case when p_values ? 'end_date'   then (p_values ->> 'end_date')::date else end_date end,
+    review_status = case when v_changed and review_status = 'approved' then 'pending' else review_status end,
+    archived_at = case
+                    when p_values ? 'archived' and (p_values ->> 'archived')::boolean then coalesce(archived_at, now())
+                    when p_values ? 'archived' then null
+                    else archived_at
+                  end,
+    archived_reason = case
+                    when p_values ? 'archived' and (p_values ->> 'archived')::boolean then coalesce(archived_reason, 'employer_closed')
+                    when p_values ? 'archived' then null
+                    else archived_reason
+                  end,
+    updated_at  = now()
+  where id = p_job;
+
+  return v_changed and v_job.review_status = 'approved';
+end;
+$$;
+
+create or replace function employer_set_application_status(p_application uuid, p_status text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if p_status not in ('in_review','invited','rejected','hired') then
+    raise exception 'invalid status %', p_status using errcode = '22023';
+  end if;
+  if not exists (
+    select 1 from job_applications a join job_postings jp on jp.id = a.job_posting_id
+    where a.id = p_application and is_company_member(jp.company_id)
+  ) then
+    raise exception 'application % not accessible', p_application using errcode = '42501';
+  end if;
+  update job_applications
+     set status = p_status, status_updated_at = now()
+   where id = p_application and method = 'internal_form'
+     -- Ingetrokken door de kandidaat blijft ingetrokken
+     and status is distinct from 'withdrawn';
+end;
+$$;
+
+revoke all on function employer_update_company(uuid, jsonb) from public;
+revoke all on function employer_update_job(uuid, jsonb) from public;
+revoke all on function employer_set_application_status(uuid, text) from public;
+grant execute on function employer_update_company(uuid, jsonb) to authenticated;
+grant execute on function employer_update_job(uuid, jsonb) to authenticated;
+grant execute on function employer_set_application_status(uuid, text) to authenticated;
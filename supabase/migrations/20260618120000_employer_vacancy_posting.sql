@@ -0,0 +1,134 @@
+-- Self-service vacatureplaatsing vanuit het werkgeversportaal.
+--
+-- Een werkgever (lid van het bedrijf, zie 20260617120000_employer_portal.sql)
+-- dient een vacature in met dezelfde gestructureerde velden als de AI-rewrite
+-- (content_md met de drie vaste secties, employment, education_level,
+-- categories, salary, uren, seo_title/seo_description) en kiest een pakket.
+-- De vacature komt als review_status 'pending' in de bestaande reviewqueue
+-- (/job-postings?status=pending), met bron "Werkgeversportaal".
+--
+-- Bij goedkeuren zet platform-publication.service.ts het regionale platform
+-- (dichtstbijzijnde publieke platform op postcode) en `expires_at` op basis
+-- van `vacancy_packages.duration_days`. De cron auto-archive-old haalt
+-- verlopen pakketvacatures offline.
+
+-- ── Pakketten ──────────────────────────────────────────────────────
+create table vacancy_packages (
+  code           text primary key,
+  name           text not null,
+  price_label    text not null,
+  -- null = geen vaste looptijd
+  duration_days  integer check (duration_days is null or duration_days > 0),
+  features       text[] not null default '{}',
+  sort_order     integer not null default 0,
+  active         boolean not null default true,
+  created_at     timestamptz not null default now()
+);
+
+comment on table vacancy_packages is
+  'Pakketten voor self-service vacatureplaatsing (werkgeversportaal). duration_days bepaalt job_postings.expires_at bij goedkeuren.';
+
+insert into vacancy_packages (code, name, price_label, duration_days, features, sort_order) values
+  ('online', 'Online vacatureplaatsing', 'Gratis', 30,
+   array['30 dagen online', 'Account omgeving voor beheer van sollicitaties', 'Inzet van vacature alert(s)', 'Nieuwsbrief plaatsing', 'Social media plaatsing'], 1),
+  ('online_social', 'Online vacatureplaatsing & social campagne', 'Op aanvraag', 60,
+   array['Online vacatureplaatsing', 'Bereik latent werkzoekenden', 'Doelgroepanalyse', 'Contentcreatie', 'Monitoring en optimalisatie'], 2),
+  ('onbeperkt', 'Onbeperkt online', 'Gratis', null,
+   array['Onbeperkt vacatures plaatsen', 'Geen vaste looptijd', 'Eigen bedrijfsprofiel-pagina', 'Account omgeving', 'Volledige integratie met je ATS'], 3);
+
+alter table vacancy_packages enable row level security;
+
+create policy "vacancy_packages public read"
+  on vacancy_packages for select
+  to anon, authenticated
+  using (active);
+
+-- ── Vacatures ──────────────────────────────────────────────────────
+alter table job_postings
+  add column package_code text references vacancy_packages(code),
+  add column submitted_by text;
+
+comment on column job_postings.package_code is
+  'Pakket waarmee een werkgever deze vacature zelf heeft geplaatst; null = gescraped of handmatig door admin.';
+comment on column job_postings.submitted_by is
+  'Clerk user id van de werkgever die de vacature via het portaal indiende.';
+
+-- Verlopen pakketvacatures (cron auto-archive-old).
+create index idx_job_postings_package_expiry
+  on job_postings (expires_at)
+  where package_code is not null and archived_at is null;
+
+-- Bron voor de reviewqueue en filters; wordt niet gescraped.
+insert into job_sources (name, kind, active, created_via)
+select 'Werkgeversportaal', 'aggregator', false, 'seed'
+where not exists (select 1 from job_sources where name = 'Werkgeversportaal');
+
+-- ── Indienen ───────────────────────────────────────────────────────
+create or replace function employer_submit_job(p_company uuid, p_package text, p_values jsonb)
+returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  v_id     uuid;
+  v_title  text := nullif(btrim(p_values ->> 'title'), '');
+  v_city   text := nullif(btrim(p_values ->> 'city'), '');
+  v_url    text := nullif(btrim(p_values ->> 'url'), '');
+  v_min    text := nullif(btrim(p_values ->> 'working_hours_min'), '');
+  v_max    text := nullif(btrim(p_values ->> 'working_hours_max'), '');
+begin
+  if not is_company_member(p_company) then
+    raise exception 'not a member of company %', p_company using errcode = '42501';
+  end if;
+  if not exists (select 1 from vacancy_packages where code = p_package and active) then
+    raise exception 'unknown package %', p_package using errcode = '22023';
+  end if;
+  if v_title is null or nullif(btrim(p_values ->> 'content_md'), '') is null then
+    raise exception 'title and content_md are required' using errcode = '22023';
+  end if;
+  -- De RPC is direct via PostgREST aan te roepen: de checks van het portaal
+  -- (actions/company.ts) gelden hier opnieuw.
+  if v_url is not null and v_url !~* '^https?://' then
+    raise exception 'url must be http(s)' using errcode = '22023';
+  end if;
+  if v_min !~ '^\d{1,2}$' or v_max !~ '^\d{1,2}$' then
+    raise exception 'invalid working hours' using errcode = '22023';
+  end if;
+  if v_min::integer not between 1 and 60 or v_max::integer not between 1 and 60
+     or v_min::integer > v_max::integer then
+    raise exception 'invalid working hours' using errcode = '22023';
+  end if;
+
+  insert into job_postings (
+    title, company_id, city, zipcode, street, location,
+    content_md, description, salary, employment, education_level, categories,
+    working_hours_min, working_hours_max, url, seo_title, seo_description,
+    review_status, status, scraped_at, created_at,
+    source_id, package_code, submitted_by
+  ) values (
+    v_title, p_company, v_city,
+    nullif(upper(replace(p_values ->> 'zipcode', ' ', '')), ''),
+    nullif(btrim(p_values ->> 'street'), ''),
+    v_city,
+    p_values ->> 'content_md',
+    p_values ->> 'content_md',
+    nullif(btrim(p_values ->> 'salary'), ''),
+    nullif(p_values ->> 'employment', ''),
+    nullif(p_values ->> 'education_level', ''),
+    nullif(p_values ->> 'categories', ''),
+    v_min::integer,
+    v_max::integer,
+    v_url,
+    nullif(p_values ->> 'seo_title', ''),
+    nullif(p_values ->> 'seo_description', ''),
+    'pending', 'active', now(), now(),
+    (select id from job_sources where name = 'Werkgeversportaal' limit 1),
+    p_package,
+    clerk_user_id()
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function employer_submit_job(uuid, text, jsonb) from public;
+grant execute on function employer_submit_job(uuid, text, jsonb) to authenticated;
@@ -0,0 +1,141 @@
+-- Straal-zoeken en "dichtstbij"-sortering op de publieke sites, in de
+-- database over de hele tenant-resultaatset (voorheen sorteerde
+-- components/eyeron/job-list.tsx alleen de huidige pagina client-side).
+--
+--   - job_geog(latitude, longitude): veilige text -> geography cast voor de
+--     bestaande text-kolommen op job_postings (ongeldige waarden -> null)
+--   - cities.latitude/longitude: centroid per 4-cijferige postcode, afgeleid
+--     van de geocodeerde bedrijven (refresh_city_coordinates)
+--   - resolve_location(p_query): getypte postcode of plaatsnaam -> punt
+--   - jobs_near(...): goedgekeurde vacatures van een platform binnen een straal,
+--     gesorteerd op afstand; PostgREST-filters (applyJobFilter) kunnen erop
+--     geketend worden omdat de functie setof job_postings teruggeeft
+
+create extension if not exists postgis with schema extensions;
+
+-- ── Coördinaten ────────────────────────────────────────────────────
+create or replace function job_geog(p_lat text, p_lng text)
+returns extensions.geography
+language sql immutable parallel safe
+set search_path = public, extensions as $$
+  select case
+    when p_lat ~ '^\s*-?\d{1,3}(\.\d+)?\s*$' and p_lng ~ '^\s*-?\d{1,3}(\.\d+)?\s*$' then
+      case
+        when abs(p_lat::float8) <= 90 and abs(p_lng::float8) <= 180 then
+          st_setsrid(st_makepoint(p_lng::float8, p_lat::float8), 4326)::geography
+      end
+  end
+$$;
+
+comment on function job_geog(text, text) is
+  'job_postings.latitude/longitude (text) als geography; null bij ontbrekende of ongeldige waarden.';
+
+-- ── Plaatsen ───────────────────────────────────────────────────────
+alter table cities
+  add column latitude double precision,
+  add column longitude double precision;
+
+comment on column cities.latitude is
+  'Centroid van de postcode (gemiddelde van geocodeerde bedrijven), zie refresh_city_coordinates().';
+
+create or replace function refresh_city_coordinates()
+returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  v_count integer;
+begin
+  update cities c
+     set latitude = s.lat, longitude = s.lng
+    from (
+      select left(regexp_replace(postal_code, '\s', '', 'g'), 4) as pc,
+             avg(latitude::float8) as lat,
+             avg(longitude::float8) as lng
+        from companies
+       where latitude is not null
+         and longitude is not null
+         and postal_code ~ '^\s*\d{4}'
+       group by 1
+    ) s
+   where c.postcode = s.pc;
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function refresh_city_coordinates() from public, anon, authenticated;
+grant execute on function refresh_city_coordinates() to service_role;
+
+select refresh_city_coordinates();
+
+-- Getypte zoeklocatie -> punt. Postcode (eerste 4 cijfers) eerst, anders een
+-- exacte plaatsnaam (alle postcodes van die plaats gemiddeld). Geen rij =
+-- onbekend; de listing valt dan terug op het tekstfilter op `city`.
+create or replace function resolve_location(p_query text)
+returns table (latitude double precision, longitude double precision, label text)
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_postcode text := substring(p_query from '^\s*(\d{4})');
+begin
+  if v_postcode is not null then
+    return query
+      select avg(c.latitude), avg(c.longitude), min(c.plaats)
+        from cities c
+       where c.postcode = v_postcode and c.latitude is not null
+      having count(*) > 0;
+  else
+    return query
+      select avg(c.latitude), avg(c.longitude), min(c.plaats)
+        from cities c
+       where lower(c.plaats) = lower(btrim(p_query)) and c.latitude is not null
+      having count(*) > 0;
+  end if;
+end;
+$$;
+
+revoke all on function resolve_location(text) from public;
+grant execute on function resolve_location(text) to anon, authenticated;
+
+-- ── Zoeken ─────────────────────────────────────────────────────────
+-- Zelfde basisset als getApprovedJobs (platform, approved, gepubliceerd,
+-- niet gearchiveerd, alleen canonicals). Positie = vacature, anders het
+-- bedrijf (zoals de afstandschip op de kaart). p_radius_km null = geen
+-- straal, alleen sorteren; vacatures zonder positie komen dan achteraan.
+--
+-- plpgsql (niet inlinebaar): de functie-output behoudt de volgorde, dus
+-- PostgREST levert de rijen op afstand zolang de caller geen eigen order zet.
+-- Een geografische index helpt hier niet: de positie is een coalesce over
+-- twee tabellen en de set is al begrensd door platform_id.
+create or replace function jobs_near(
+  p_platform_id uuid,
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km double precision default null
+)
+returns setof job_postings
+language plpgsql stable set search_path = public, extensions as $$
+declare
+  v_origin geography := st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography;
+begin
+  return query
+    select j.*
+      from job_postings j
+      left join companies c on c.id = j.company_id
+      cross join lateral (
+        select coalesce(
+          job_geog(j.latitude, j.longitude),
+          case when c.latitude is not null and c.longitude is not null then
+            st_setsrid(st_makepoint(c.longitude::float8, c.latitude::float8), 4326)::geography
+          end
+        ) as geog
+      ) p
+     where j.platform_id = p_platform_id
+       and j.review_status = 'approved'
+       and j.published_at is not null
+       and j.archived_at is null
+       and j.canonical_id is null
+       and (p_radius_km is null or st_dwithin(p.geog, v_origin, p_radius_km * 1000))
+     order by st_distance(p.geog, v_origin) asc nulls last, j.published_at desc;
+end;
+$$;
+
+grant execute on function jobs_near(uuid, double precision, double precision, double precision) to anon, authenticated;
@@ -0,0 +1,74 @@
+-- Gestructureerd salaris op job_postings (lib/services/salary-normalization, cron
+-- salary-normalize). De vrije tekst in `salary` blijft de weergave; sorteren,
+-- filteren en JobPosting.baseSalary op de publieke sites gebruiken de kolommen.
+--
+--   - salary_min/max + salary_unit: bedragen zoals geadverteerd (per uur, dag,
+--     week, maand of jaar), schema.org QuantitativeValue.unitText
+--   - salary_month_min/max: afgeleid door de trigger, fulltime-equivalent per
+--     maand, zodat uurlonen en jaarsalarissen vergelijkbaar zijn
+--   - salary_normalized_at: null = (opnieuw) normaliseren; de backfill-cron
+--     pakt deze rijen op
+
+-- ── Kolommen ───────────────────────────────────────────────────────
+alter table job_postings
+  add column if not exists salary_min numeric(10,2),
+  add column if not exists salary_max numeric(10,2),
+  add column if not exists salary_unit text
+    check (salary_unit in ('HOUR', 'DAY', 'WEEK', 'MONTH', 'YEAR')),
+  add column if not exists salary_currency text not null default 'EUR',
+  add column if not exists salary_month_min numeric(10,2),
+  add column if not exists salary_month_max numeric(10,2),
+  add column if not exists salary_normalized_at timestamptz;
+
+comment on column job_postings.salary_unit is
+  'Periode van salary_min/max: HOUR, DAY, WEEK, MONTH of YEAR. Null = geen (herkenbaar) salaris.';
+comment on column job_postings.salary_month_max is
+  'Bovenkant omgerekend naar een fulltime maandbedrag (trigger). Basis voor salary_desc en het salarisfilter.';
+comment on column job_postings.salary_normalized_at is
+  'Laatste normalisatie van `salary`. Null = (opnieuw) normaliseren; gereset als alleen de tekst wijzigt.';
+
+-- ── Omrekening naar maandbedrag ────────────────────────────────────
+-- Fulltime = 40 uur x 52 weken / 12 maanden = 173,33 uur, 21,67 werkdagen.
+create or replace function salary_month_factor(p_unit text)
+returns numeric
+language sql immutable parallel safe as $$
+  select case p_unit
+    when 'HOUR'  then 173.33
+    when 'DAY'   then 21.67
+    when 'WEEK'  then 4.33
+    when 'MONTH' then 1
+    when 'YEAR'  then 1.0 / 12
+  end
+$$;
+
+-- Maandbedragen afleiden, en de tekst opnieuw in de wachtrij zetten als een
+-- writer alleen `salary` wijzigt (bijv. een handmatige PATCH of een oude
+-- scraper) zonder zelf te normaliseren.
+create or replace function job_postings_salary_normalize() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'UPDATE'
+     and new.salary is distinct from old.salary
+     and new.salary_normalized_at is not distinct from old.salary_normalized_at then
+    new.salary_normalized_at := null;
+  end if;
+
+  new.salary_month_min := round(new.salary_min * salary_month_factor(new.salary_unit), 2);
+  new.salary_month_max := round(coalesce(new.salary_max, new.salary_min) * salary_month_factor(new.salary_unit), 2);
+  return new;
+end $$;
+
+create trigger trg_job_postings_salary_normalize
+  before insert or update on job_postings
+  for each row execute function job_postings_salary_normalize();
+
+-- ── Indexen ────────────────────────────────────────────────────────
+-- Smalle partial index voor de backfill: alleen nog-niet-genormaliseerde rijen met tekst.
+create index if not exists idx_job_postings_salary_pending
+  on job_postings (created_at)
+  where salary_normalized_at is null and salary is not null and archived_at is null;
+
+-- salary_desc en het salarisfilter op de publieke sites.
+create index if not exists idx_job_postings_salary_month_max
+  on job_postings (platform_id, salary_month_max desc nulls last)
+  where review_status = 'approved' and archived_at is null;
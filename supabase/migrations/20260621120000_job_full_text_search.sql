@@ -0,0 +1,227 @@
+-- Nederlandse full-text search op de publieke sites (voorheen ILIKE op de
+-- titel in getApprovedJobs en getJobTitleSuggestions).
+--
+--   - job_postings.search_nl: tsvector met de 'dutch'-config over titel (A),
+--     bedrijfsnaam (B) en beschrijving (C), bijgehouden door een trigger
+--   - job_search_synonyms: onderhoudbare synoniemgroepen; een zoekwoord uit
+--     een groep matcht op alle termen van die groep
+--   - job_search_tsquery(p_query): zoekvraag -> tsquery met synoniemen
+--   - jobs_search(...): goedgekeurde vacatures van een platform die matchen,
+--     met trigram-fallback op de titel voor typefouten; sorteert op relevantie
+--     of (met een punt) op afstand. PostgREST-filters kunnen erop geketend
+--     worden, net als bij jobs_near
+--   - job_title_suggestions(...): autosuggest op titel, typo-tolerant
+
+create extension if not exists pg_trgm with schema extensions;
+
+-- ── Document ───────────────────────────────────────────────────────
+create or replace function job_search_document(p_title text, p_company text, p_description text)
+returns tsvector
+language sql immutable parallel safe as $$
+  select setweight(to_tsvector('dutch', coalesce(p_title, '')), 'A')
+      || setweight(to_tsvector('dutch', coalesce(p_company, '')), 'B')
+      || setweight(to_tsvector('dutch', left(regexp_replace(coalesce(p_description, ''), '<[^>]+>', ' ', 'g'), 20000)), 'C')
+$$;
+
+alter table job_postings add column if not exists search_nl tsvector;
+
+comment on column job_postings.search_nl is
+  'Dutch full-text document (titel A, bedrijf B, beschrijving C) voor de publieke zoekfunctie. Null = opnieuw opbouwen bij de volgende update.';
+
+-- Opbouwen bij insert, bij een wijziging van titel/beschrijving/bedrijf, en
+-- als de kolom leeg is (legacy rijen en expliciete reset hieronder).
+create or replace function job_postings_search_nl() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'INSERT'
+     or new.search_nl is null
+     or new.title is distinct from old.title
+     or new.description is distinct from old.description
+     or new.company_id is distinct from old.company_id then
+    new.search_nl := job_search_document(
+      new.title,
+      (select c.name from companies c where c.id = new.company_id),
+      new.description
+    );
+  end if;
+  return new;
+end $$;
+
+create trigger trg_job_postings_search_nl
+  before insert or update on job_postings
+  for each row execute function job_postings_search_nl();
+
+-- Bedrijf hernoemd -> documenten van de actieve vacatures opnieuw opbouwen.
+create or replace function companies_search_nl_reset() returns trigger
+language plpgsql as $$
+begin
+  update job_postings
+     set search_nl = null
+   where company_id = new.id and archived_at is null;
+  return null;
+end $$;
+
+create trigger trg_companies_search_nl_reset
+  after update of name on companies
+  for each row
+  when (old.name is distinct from new.name)
+  execute function companies_search_nl_reset();
+
+-- Backfill alleen de publieke set; overige rijen bouwen op bij hun volgende
+-- update (o.a. goedkeuren).
+update job_postings j
+   set search_nl = job_search_document(
+         j.title,
+         (select c.name from companies c where c.id = j.company_id),
+         j.description
+       )
+ where j.review_status = 'approved' and j.archived_at is null;
+
+create index if not exists idx_job_postings_search_nl
+  on job_postings using gin (search_nl)
+  where review_status = 'approved' and archived_at is null;
+
+-- ── Synoniemen ─────────────────────────────────────────────────────
+-- Eén rij per groep, termen in kleine letters. Matching gaat per zoekwoord,
+-- dus een term van meerdere woorden ("software engineer") werkt alleen als
+-- uitbreiding, niet als trigger. RLS aan, geen policies: beheer via de
+-- service-role, lezen via job_search_tsquery (security definer).
+create table job_search_synonyms (
+  id          bigint generated always as identity primary key,
+  terms       text[] not null,
+  note        text,
+  created_at  timestamptz not null default now(),
+  constraint job_search_synonyms_min_terms check (cardinality(terms) >= 2),
+  constraint job_search_synonyms_lowercase check (terms::text = lower(terms::text))
+);
+create index idx_job_search_synonyms_terms on job_search_synonyms using gin (terms);
+alter table job_search_synonyms enable row level security;
+
+comment on table job_search_synonyms is
+  'Synoniemgroepen voor de publieke zoekfunctie: een zoekwoord uit terms matcht op alle termen van de groep.';
+
+insert into job_search_synonyms (terms, note) values
+  (array['chauffeur', 'vrachtwagenchauffeur', 'buschauffeur', 'bestuurder'], 'Samenstellingen splitst de dutch-stemmer niet'),
+  (array['verpleegkundige', 'zorg', 'verzorgende', 'zorgmedewerker'], null),
+  (array['monteur', 'servicemonteur', 'installateur', 'technicus'], null),
+  (array['magazijn', 'magazijnmedewerker', 'orderpicker', 'logistiek'], null),
+  (array['developer', 'ontwikkelaar', 'programmeur', 'software engineer'], null),
+  (array['kok', 'keukenmedewerker', 'keuken'], null),
+  (array['schoonmaker', 'schoonmaak', 'schoonmaakmedewerker', 'interieurverzorger'], null),
+  (array['verkoper', 'verkoopmedewerker', 'winkelmedewerker', 'sales'], null),
+  (array['docent', 'leraar', 'leerkracht', 'onderwijs'], null),
+  (array['klantenservice', 'callcenter', 'klantcontact'], null),
+  (array['boekhouder', 'administratie', 'administratief', 'financieel'], null);
+
+-- ── Zoekvraag ──────────────────────────────────────────────────────
+-- Per woord: het woord OF een van zijn synoniemen; woorden onderling AND.
+-- Stopwoorden vallen weg. Null als er geen zoekbare woorden overblijven.
+create or replace function job_search_tsquery(p_query text)
+returns tsquery
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_word text;
+  v_term text;
+  v_terms text[];
+  v_part tsquery;
+  v_term_query tsquery;
+  v_result tsquery;
+begin
+  foreach v_word in array regexp_split_to_array(lower(coalesce(p_query, '')), '[^[:alnum:]]+') loop
+    continue when v_word = '';
+
+    select array_agg(distinct t) into v_terms
+      from job_search_synonyms s, unnest(s.terms) t
+     where s.terms @> array[v_word];
+    v_terms := array_append(coalesce(v_terms, array[]::text[]), v_word);
+
+    v_part := null;
+    foreach v_term in array v_terms loop
+      v_term_query := plainto_tsquery('dutch', v_term);
+      continue when numnode(v_term_query) = 0;
+      v_part := case when v_part is null then v_term_query else v_part || v_term_query end;
+    end loop;
+
+    continue when v_part is null;
+    v_result := case when v_result is null then v_part else v_result && v_part end;
+  end loop;
+  return v_result;
+end;
+$$;
+
+-- ── Zoeken ─────────────────────────────────────────────────────────
+-- Zelfde basisset als jobs_near. Match = full-text (met synoniemen) of,
+-- voor typefouten, een titel met word_similarity >= 0.5. Volgorde bij
+-- 'relevance': full-text hits op ts_rank, daarna trigram-hits op
+-- gelijkenis; bij 'nearest' met een punt: afstand. Een trigram-index helpt
+-- niet voor word_similarity() en de set is al begrensd door platform_id.
+create or replace function jobs_search(
+  p_platform_id uuid,
+  p_query text,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_radius_km double precision default null,
+  p_order text default 'relevance'
+)
+returns setof job_postings
+language plpgsql stable set search_path = public, extensions as $$
+declare
+  v_tsquery tsquery := job_search_tsquery(p_query);
+  v_origin geography := case
+    when p_lat is not null and p_lng is not null then st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography
+  end;
+begin
+  return query
+    select j.*
+      from job_postings j
+      left join companies c on c.id = j.company_id
+      cross join lateral (
+        select case when v_tsquery is not null and j.search_nl @@ v_tsquery
+                    then ts_rank(j.search_nl, v_tsquery, 1) end as fts_rank,
+               word_similarity(p_query, j.title) as title_sim
+      ) r
+      cross join lateral (
+        select case when v_origin is not null then coalesce(
+          job_geog(j.latitude, j.longitude),
+          case when c.latitude is not null and c.longitude is not null then
+            st_setsrid(st_makepoint(c.longitude::float8, c.latitude::float8), 4326)::geography
+          end
+        ) end as geog
+      ) p
+     where j.platform_id = p_platform_id
+       and j.review_status = 'approved'
+       and j.published_at is not null
+       and j.archived_at is null
+       and j.canonical_id is null
+       and (r.fts_rank is not null or r.title_sim >= 0.5)
+       and (v_origin is null or p_radius_km is null or st_dwithin(p.geog, v_origin, p_radius_km * 1000))
+     order by
+       case when p_order = 'nearest' then st_distance(p.geog, v_origin) end asc nulls last,
+       r.fts_rank is null,
+       r.fts_rank desc,
+       r.title_sim desc,
+       j.published_at desc;
+end;
+$$;
+
+grant execute on function jobs_search(uuid, text, double precision, double precision, double precision, text) to anon, authenticated;
+
+-- Autosuggest: unieke titels die de invoer bevatten of er sterk op lijken,
+-- meest gelijkend en meest voorkomend eerst.
+create or replace function job_title_suggestions(p_platform_id uuid, p_query text, p_limit integer default 8)
+returns table (title text, job_count bigint)
+language sql stable set search_path = public, extensions as $$
+  select btrim(j.title), count(*)
+    from job_postings j
+   where j.platform_id = p_platform_id
+     and j.review_status = 'approved'
+     and j.published_at is not null
+     and j.archived_at is null
+     and j.canonical_id is null
+     and (strpos(lower(j.title), lower(btrim(p_query))) > 0 or word_similarity(btrim(p_query), j.title) >= 0.5)
+   group by btrim(j.title)
+   order by max(word_similarity(btrim(p_query), j.title)) desc, count(*) desc, btrim(j.title)
+   limit least(greatest(p_limit, 1), 20)
+$$;
+
+grant execute on function job_title_suggestions(uuid, text, integer) to anon, authenticated;
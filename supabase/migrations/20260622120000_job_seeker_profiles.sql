@@ -0,0 +1,33 @@
+-- Voorkeuren van werkzoekenden op de publieke sites (account/profiel).
+--
+-- Eén profiel per Clerk-gebruiker per portaal: gewenste functies (vrije
+-- tekst), vakgebieden en opleidingsniveaus (waarden uit de filterfacetten),
+-- uren-bucket, maximale reisafstand en postcode. De postcode wordt bij het
+-- opslaan via resolve_location omgezet naar een punt, zodat de
+-- aanbevelingen (accountpagina en alert-digest) geen lookup per keer nodig
+-- hebben.
+--
+-- Alle toegang loopt via server actions met de service-role key; de tabel
+-- heeft geen RLS-policies.
+
+create table job_seeker_profiles (
+  id               uuid primary key default gen_random_uuid(),
+  platform_id      uuid not null references platforms(id) on delete cascade,
+  user_id          text not null,
+  functions        text[] not null default '{}',
+  sectors          text[] not null default '{}',
+  education_levels text[] not null default '{}',
+  hours            text check (hours in ('lt36','36-40','gt40')),
+  max_distance_km  integer check (max_distance_km between 1 and 200),
+  postcode         text,
+  home_latitude    double precision,
+  home_longitude   double precision,
+  created_at       timestamptz not null default now(),
+  updated_at       timestamptz not null default now(),
+  constraint job_seeker_profiles_user_key unique (platform_id, user_id),
+  constraint job_seeker_profiles_max_functions check (cardinality(functions) <= 5)
+);
+
+alter table job_seeker_profiles enable row level security;
+comment on table job_seeker_profiles is
+  'Voorkeuren van werkzoekenden (functies, vakgebied, uren, opleiding, reisafstand, postcode) per publiek portaal; basis voor aanbevolen vacatures. Service-role only.';
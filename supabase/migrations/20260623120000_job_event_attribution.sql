@@ -0,0 +1,198 @@
+-- First-party attributie van vacature-events op de publieke sites.
+--
+-- `job_posting_stats` (werkgeversportaal) telt per vacature per dag alleen
+-- views, sollicitatiekliks en native sollicitaties, zonder portaal of bron.
+-- Hier komt een dagtabel naast met de dimensies voor het admin-dashboard:
+--
+--   - job_event_daily: events per dag x portaal x vacature x soort x bron
+--     x UTM (source/medium/campaign), met company_id gedenormaliseerd voor
+--     de uitsplitsing per bedrijf
+--   - record_job_event(...): aangeroepen door /api/job-events (anon key) en
+--     de sollicitatie-action; schrijft de dagtabel en houdt via
+--     track_job_event ook job_posting_stats bij
+--   - job_event_report(...): gegroepeerde totalen per dag, bedrijf,
+--     vacature, bron of UTM voor het admin-dashboard (service-role)
+--
+-- Geen ruwe events, geen bezoekers-id's: alleen tellers.
+
+create table job_event_daily (
+  day             date not null,
+  platform_id     uuid not null references platforms(id) on delete cascade,
+  job_posting_id  uuid not null references job_postings(id) on delete cascade,
+  company_id      uuid references companies(id) on delete set null,
+  kind            text not null
+                  check (kind in ('view','apply_click','application','save','share')),
+  -- Verwijzer-host bij binnenkomst (zonder www.), 'direct' of 'internal'.
+  source          text not null default 'direct',
+  utm_source      text not null default '',
+  utm_medium      text not null default '',
+  utm_campaign    text not null default '',
+  events          integer not null default 0,
+  primary key (day, platform_id, job_posting_id, kind, source, utm_source, utm_medium, utm_campaign)
+);
+
+create index idx_job_event_daily_platform on job_event_daily (platform_id, day);
+create index idx_job_event_daily_company on job_event_daily (company_id, day) where company_id is not null;
+
+comment on table job_event_daily is
+  'Dagtotalen van vacature-events (view, apply_click, application, save, share) per portaal, vacature, bron en UTM. Gevuld via record_job_event.';
+
+alter table job_event_daily enable row level security;
+
+-- Werkgevers kunnen later dezelfde cijfers zien voor hun eigen vacatures.
+create policy "job_event_daily member read"
+  on job_event_daily for select
+  to authenticated
+  using (company_id is not null and is_company_member(company_id));
+
+-- ── Schrijven ──────────────────────────────────────────────────────
+-- De beacon is anoniem aanroepbaar, dus alles wat de caller meegeeft is
+-- onbetrouwbaar:
+--   - 'application' alleen vanuit de service role (de sollicitatie-action)
+--   - p_platform_id alleen als het het portaal van de vacature of het
+--     master-portaal is, anders het portaal van de vacature
+--   - bron en UTM genormaliseerd ([a-z0-9._-], max 100 tekens) en per vacature
+--     per dag max 25 combinaties; daarboven telt het event als 'other'
+create or replace function record_job_event(
+  p_job uuid,
+  p_kind text,
+  p_platform_id uuid default null,
+  p_source text default null,
+  p_utm_source text default null,
+  p_utm_medium text default null,
+  p_utm_campaign text default null
+) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_company      uuid;
+  v_platform     uuid;
+  v_day          date := (now() at time zone 'Europe/Amsterdam')::date;
+  v_source       text;
+  v_utm_source   text;
+  v_utm_medium   text;
+  v_utm_campaign text;
+begin
+  if p_kind not in ('view','apply_click','application','save','share') then
+    raise exception 'invalid kind %', p_kind using errcode = '22023';
+  end if;
+  if p_kind = 'application' and coalesce(auth.jwt() ->> 'role', '') <> 'service_role' then
+    raise exception 'kind application is service-role only' using errcode = '42501';
+  end if;
+
+  select j.company_id, j.platform_id into v_company, v_platform
+    from job_postings j
+   where j.id = p_job and j.review_status = 'approved';
+  if not found then
+    return;
+  end if;
+
+  -- Portaal waar het event plaatsvond: het portaal van de vacature zelf of
+  -- het master-portaal (dat alle vacatures toont).
+  if p_platform_id is not null and p_platform_id is distinct from v_platform
+     and exists (select 1 from platforms where id = p_platform_id and tier = 'master') then
+    v_platform := p_platform_id;
+  end if;
+  if v_platform is null then
+    return;
+  end if;
+
+  v_source       := coalesce(nullif(left(regexp_replace(lower(btrim(p_source)), '[^a-z0-9._-]+', '', 'g'), 100), ''), 'direct');
+  v_utm_source   := coalesce(left(regexp_replace(lower(btrim(p_utm_source)), '[^a-z0-9._-]+', '', 'g'), 100), '');
+  v_utm_medium   := coalesce(left(regexp_replace(lower(btrim(p_utm_medium)), '[^a-z0-9._-]+', '', 'g'), 100), '');
+  v_utm_campaign := coalesce(left(regexp_replace(lower(btrim(p_utm_campaign)), '[^a-z0-9._-]+', '', 'g'), 100), '');
+
+  if not exists (
+    select 1 from job_event_daily
+     where day = v_day and platform_id = v_platform and job_posting_id = p_job
+       and source = v_source and utm_source = v_utm_source
+       and utm_medium = v_utm_medium and utm_campaign = v_utm_campaign
+  ) and (
+    select count(distinct (source, utm_source, utm_medium, utm_campaign))
+      from job_event_daily
+     where day = v_day and job_posting_id = p_job
+  ) >= 25 then
+    v_source := 'other';
+    v_utm_source := 'other';
+    v_utm_medium := 'other';
+    v_utm_campaign := 'other';
+  end if;
+
+  insert into job_event_daily as d
+    (day, platform_id, job_posting_id, company_id, kind, source, utm_source, utm_medium, utm_campaign, events)
+  values (v_day, v_platform, p_job, v_company, p_kind, v_source, v_utm_source, v_utm_medium, v_utm_campaign, 1)
+  on conflict (day, platform_id, job_posting_id, kind, source, utm_source, utm_medium, utm_campaign)
+  do update set events = d.events + 1, company_id = excluded.company_id;
+
+  if p_kind in ('view','apply_click','application') then
+    perform track_job_event(p_job, p_kind);
+  end if;
+end;
+$$;
+
+revoke all on function record_job_event(uuid, text, uuid, text, text, text, text) from public;
+grant execute on function record_job_event(uuid, text, uuid, text, text, text, text) to anon, authenticated, service_role;
+
+-- Alleen nog via record_job_event, anders omzeilt een directe aanroep de checks hierboven.
+revoke all on function track_job_event(uuid, text) from public, anon, authenticated;
+
+-- ── Rapportage ─────────────────────────────────────────────────────
+-- p_group: 'day' | 'company' | 'job' | 'source' | 'utm_source' | 'utm_campaign'.
+-- p_platform_id null = alle portalen. 'day' sorteert op datum, de rest op
+-- views + kliks aflopend.
+create or replace function job_event_report(
+  p_platform_id uuid,
+  p_from date,
+  p_to date,
+  p_group text,
+  p_company_id uuid default null,
+  p_limit integer default 50
+)
+returns table (
+  group_key     text,
+  group_label   text,
+  views         bigint,
+  apply_clicks  bigint,
+  applications  bigint,
+  saves         bigint,
+  shares        bigint
+)
+language sql stable security definer set search_path = public as $$
+  select g.key,
+         max(g.label),
+         coalesce(sum(e.events) filter (where e.kind = 'view'), 0),
+         coalesce(sum(e.events) filter (where e.kind = 'apply_click'), 0),
+         coalesce(sum(e.events) filter (where e.kind = 'application'), 0),
+         coalesce(sum(e.events) filter (where e.kind = 'save'), 0),
+         coalesce(sum(e.events) filter (where e.kind = 'share'), 0)
+    from job_event_daily e
+    left join companies c on p_group = 'company' and c.id = e.company_id
+    left join job_postings j on p_group = 'job' and j.id = e.job_posting_id
+    cross join lateral (
+      select case p_group
+               when 'day'          then e.day::text
+               when 'company'      then coalesce(e.company_id::text, '')
+               when 'job'          then e.job_posting_id::text
+               when 'source'       then e.source
+               when 'utm_source'   then e.utm_source
+               when 'utm_campaign' then e.utm_campaign
+             end as key,
+             case p_group
+               when 'company' then coalesce(c.name, 'Onbekend bedrijf')
+               when 'job'     then coalesce(j.title, 'Verwijderde vacature')
+               else null
+             end as label
+    ) g
+   where (p_platform_id is null or e.platform_id = p_platform_id)
+     and (p_company_id is null or e.company_id = p_company_id)
+     and e.day between p_from and p_to
+     and p_group in ('day','company','job','source','utm_source','utm_campaign')
+   group by g.key
+   order by
+     case when p_group = 'day' then g.key end asc,
+     coalesce(sum(e.events) filter (where e.kind in ('view','apply_click')), 0) desc,
+     g.key
+   limit case when p_group = 'day' then 400 else least(greatest(p_limit, 1), 500) end
+$$;
+
+revoke all on function job_event_report(uuid, date, date, text, uuid, integer) from public, anon, authenticated;
+grant execute on function job_event_report(uuid, date, date, text, uuid, integer) to service_role;
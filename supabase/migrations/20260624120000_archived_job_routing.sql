@@ -0,0 +1,69 @@
+-- Gearchiveerde vacatures: doorverwijzen of 410 Gone.
+--
+-- Een gearchiveerde vacature blijft een grace-periode bereikbaar als
+-- "niet meer beschikbaar"-pagina (noindex, gerelateerde vacatures). De proxy
+-- van de publieke sites vraagt per /vacature/<slug> deze RPC:
+--
+--   - is er op hetzelfde portaal een live opvolger (zelfde bedrijf, zelfde
+--     titel, later gepubliceerd) -> 'redirect' met de slug van de opvolger
+--     (308, de SEO-waarde gaat mee)
+--   - anders, na de grace-periode -> 'gone' (410)
+--   - actieve vacatures, onbekende slugs en het master-portaal -> geen rij;
+--     de pagina zelf beslist dan (normale pagina, grace-bordje of 404)
+
+create index if not exists idx_job_postings_successor
+  on job_postings (platform_id, company_id, lower(title))
+  where archived_at is null and review_status = 'approved' and published_at is not null;
+
+create or replace function archived_job_route(
+  p_host text,
+  p_slug text,
+  p_grace_days integer default 30
+)
+returns table (action text, target_slug text)
+language sql stable security definer set search_path = public as $$
+  with platform as (
+    select p.id
+      from platforms p
+     where p.is_public
+       and coalesce(p.tier, '') <> 'master'
+       and (p.domain = lower(p_host) or p.preview_domain = lower(p_host))
+     limit 1
+  ),
+  archived as (
+    select j.id, j.company_id, j.title, j.archived_at, j.platform_id
+      from job_postings j
+      join platform on platform.id = j.platform_id
+     where j.slug = p_slug
+       and j.review_status = 'approved'
+       and j.published_at is not null
+       and j.archived_at is not null
+     limit 1
+  ),
+  successor as (
+    select s.slug
+      from archived a
+      join job_postings s
+        on s.platform_id = a.platform_id
+       and s.company_id = a.company_id
+       and lower(s.title) = lower(a.title)
+     where a.company_id is not null
+       and s.id <> a.id
+       and s.archived_at is null
+       and s.review_status = 'approved'
+       and s.published_at is not null
+       and s.canonical_id is null
+       and s.slug is not null
+     order by s.published_at desc
+     limit 1
+  )
+  select 'redirect', successor.slug from successor
+  union all
+  select 'gone', null
+    from archived
+   where not exists (select 1 from successor)
+     and archived.archived_at < now() - make_interval(days => greatest(p_grace_days, 0))
+$$;
+
+revoke all on function archived_job_route(text, text, integer) from public;
+grant execute on function archived_job_route(text, text, integer) to anon, authenticated;
@@ -0,0 +1,37 @@
+-- Programmatische landingspagina's functie x plaats
+-- (/vacatures/<plaats>/<functie>, bv. "chauffeur in Eindhoven").
+--
+-- De functie-taxonomie staat in de publieke sites
+-- (`src/lib/function-landings.ts`): per functie sectorwaarden uit
+-- `job_postings.categories` en/of ILIKE-patronen op de titel. Die gaat als
+-- jsonb mee, zodat deze RPC alleen telt:
+--
+--   function_city_job_counts(p_platform_id, p_functions)
+--     -> (function_slug, city, job_count) voor actieve canonicals
+--
+-- De drempel tegen dunne pagina's en het samenvoegen van spellingvarianten
+-- van plaatsnamen gebeuren in TypeScript, net als bij get_city_job_counts.
+
+create or replace function function_city_job_counts(
+  p_platform_id uuid,
+  p_functions jsonb
+)
+returns table (function_slug text, city text, job_count bigint)
+language sql stable as $$
+  select f.slug, j.city, count(*)
+    from job_postings j
+    cross join jsonb_to_recordset(p_functions) as f(slug text, categories text[], title_patterns text[])
+   where j.platform_id = p_platform_id
+     and j.review_status = 'approved'
+     and j.published_at is not null
+     and j.archived_at is null
+     and j.canonical_id is null
+     and nullif(btrim(j.city), '') is not null
+     and (
+       j.categories = any(coalesce(f.categories, '{}'::text[]))
+       or j.title ilike any(coalesce(f.title_patterns, '{}'::text[]))
+     )
+   group by f.slug, j.city
+$$;
+
+grant execute on function function_city_job_counts(uuid, jsonb) to anon, authenticated;
@@ -0,0 +1,50 @@
+-- Engelstalige vacaturepagina's (/en) voor internationale kandidaten.
+--
+--   - job_postings.english_friendly: de werkgever (of de redactie in de
+--     admin) geeft aan dat Engelstalige kandidaten welkom zijn; alleen die
+--     vacatures krijgen een /en-pagina
+--   - job_posting_translations: machinevertaling (Mistral) van titel,
+--     vacaturetekst en SEO-omschrijving per vacature per taal. Gevuld door
+--     de admin-cron `vacancy-translate`; `source_hash` is de hash van de
+--     Nederlandse bron, zodat een gewijzigde vacature opnieuw vertaald wordt
+--
+-- Vooralsnog alleen 'en'; de check houdt het bewust smal.
+
+alter table job_postings
+  add column english_friendly boolean not null default false;
+
+create index idx_job_postings_english_friendly
+  on job_postings (platform_id, published_at desc)
+  where english_friendly and archived_at is null;
+
+create table job_posting_translations (
+  job_posting_id   uuid not null references job_postings(id) on delete cascade,
+  locale           text not null check (locale in ('en')),
+  title            text not null,
+  content_md       text,
+  seo_description  text,
+  source_hash      text not null,
+  model            text,
+  translated_at    timestamptz not null default now(),
+  primary key (job_posting_id, locale)
+);
+
+comment on table job_posting_translations is
+  'Machinevertalingen van vacatures per taal (nu alleen en). source_hash = hash van de Nederlandse titel + tekst op het moment van vertalen.';
+
+alter table job_posting_translations enable row level security;
+
+-- Publiek leesbaar zolang de vacature zelf publiek is.
+create policy "job_posting_translations public read"
+  on job_posting_translations for select
+  to anon, authenticated
+  using (
+    exists (
+      select 1
+        from job_postings j
+       where j.id = job_posting_id
+         and j.english_friendly
+         and j.review_status = 'approved'
+         and j.published_at is not null
+    )
+  );
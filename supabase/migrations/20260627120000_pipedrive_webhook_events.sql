@@ -0,0 +1,50 @@
+-- Inbound Pipedrive-webhooks (tweezijdige CRM-sync).
+--
+-- Pipedrive stuurt org-, person- en deal-events naar /api/webhook/pipedrive.
+-- Elk event komt eerst in pipedrive_webhook_events (uniek op event_id, dus
+-- een retry van Pipedrive wordt één keer verwerkt) en krijgt daarna de
+-- uitkomst: applied, skipped (met reden) of error.
+--
+-- companies.pipedrive_status spiegelt het Pipedrive-veld "Status prospect",
+-- zodat campaign-assignment geen live lookup meer nodig heeft.
+-- pipedrive_updated_at op companies en contacts is het tijdstip van het
+-- laatst toegepaste event; oudere events (out-of-order) worden overgeslagen.
+
+-- ── Spiegelkolommen ────────────────────────────────────────────────
+alter table companies
+  add column if not exists pipedrive_status text,
+  add column if not exists pipedrive_updated_at timestamptz;
+
+alter table contacts
+  add column if not exists pipedrive_updated_at timestamptz;
+
+create index if not exists idx_companies_pipedrive_id
+  on companies (pipedrive_id) where pipedrive_id is not null;
+create index if not exists idx_contacts_pipedrive_person_id
+  on contacts (pipedrive_person_id) where pipedrive_person_id is not null;
+
+-- ── Eventlog ───────────────────────────────────────────────────────
+create table pipedrive_webhook_events (
+  id             uuid primary key default gen_random_uuid(),
+  event_id       text not null unique,
+  entity         text not null check (entity in ('organization','person','deal')),
+  action         text not null check (action in ('create','change','delete','merge')),
+  pipedrive_id   bigint not null,
+  merged_id      bigint,
+  change_source  text,
+  occurred_at    timestamptz not null,
+  received_at    timestamptz not null default now(),
+  processed_at   timestamptz,
+  status         text not null default 'received'
+                 check (status in ('received','applied','skipped','error')),
+  reason         text,
+  changes        jsonb not null default '[]'::jsonb,
+  payload        jsonb not null
+);
+create index idx_pipedrive_webhook_events_entity
+  on pipedrive_webhook_events (entity, pipedrive_id, occurred_at desc);
+create index idx_pipedrive_webhook_events_status
+  on pipedrive_webhook_events (status, received_at desc);
+alter table pipedrive_webhook_events enable row level security;
+comment on table pipedrive_webhook_events is
+  'Inbound Pipedrive-webhooks met hun verwerking (applied/skipped/error + reden en toegepaste wijzigingen). Service-role only.';
@@ -0,0 +1,45 @@
+-- Push-state voor vacatures op het Lokale Banen-jobboard.
+--
+-- Tot nu toe was een push eenmalig: job_postings.lokalebanen_id werd gezet
+-- en daarna bleef de LB-kopie ongewijzigd online, ook als de vacature
+-- bewerkt, gearchiveerd of afgekeurd werd. Deze tabel legt per gepushte
+-- vacature het LB-id vast met een content_hash over de velden die naar LB
+-- gaan (LB_CONTENT_FIELDS in lokalebanen-push.service.ts). De cron
+-- lokalebanen-sync vergelijkt die hash met de huidige vacature en stuurt
+-- updates, en trekt vacatures in die gearchiveerd, afgekeurd of verwijderd
+-- zijn.
+--
+-- job_posting_id is on delete set null: een verwijderde vacature moet nog
+-- wel bij LB ingetrokken worden.
+
+create table lokalebanen_push_state (
+  id               uuid primary key default gen_random_uuid(),
+  job_posting_id   uuid unique references job_postings(id) on delete set null,
+  lokalebanen_id   text not null,
+  lb_company_id    text,
+  domain           text,
+  content_hash     text,
+  state            text not null default 'live'
+                   check (state in ('live','withdrawn')),
+  pushed_at        timestamptz not null default now(),
+  synced_at        timestamptz,
+  withdrawn_at     timestamptz,
+  withdraw_reason  text check (withdraw_reason in ('archived','rejected','deleted')),
+  last_error       text,
+  error_count      integer not null default 0,
+  updated_at       timestamptz not null default now()
+);
+create index idx_lokalebanen_push_state_live
+  on lokalebanen_push_state (state) where state = 'live';
+alter table lokalebanen_push_state enable row level security;
+comment on table lokalebanen_push_state is
+  'Gepushte vacatures op Lokale Banen: LB-id, content_hash van de laatst verstuurde versie en live/withdrawn. Bijgewerkt door cron lokalebanen-sync. Service-role only.';
+
+-- Bestaande pushes overnemen. content_hash blijft leeg: de eerste sync-run
+-- neemt de huidige vacature als basis in plaats van alles opnieuw te sturen.
+insert into lokalebanen_push_state (job_posting_id, lokalebanen_id, lb_company_id, pushed_at)
+select jp.id, jp.lokalebanen_id, c.lokalebanen_id, coalesce(jp.lokalebanen_pushed_at, now())
+from job_postings jp
+left join companies c on c.id = jp.company_id
+where jp.lokalebanen_id is not null
+on conflict (job_posting_id) do nothing;
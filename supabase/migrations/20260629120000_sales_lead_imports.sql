@@ -0,0 +1,64 @@
+-- Bulk-import van sales-leads uit een CSV/Excel-bestand (beurzen, KvK-lijsten).
+--
+-- Flow: upload + kolommapping (naam/domein/KvK/plaats) -> preview met per rij
+-- een classificatie (nieuw, bestaand bedrijf, bestaande run, dubbel in
+-- bestand, ongeldig) -> start. Pas bij dispatch wordt per rij een
+-- sales_lead_run aangemaakt, met een cap op het aantal runs dat tegelijk in
+-- 'enriching' staat (anders raakt een lijst van 500+ de rate-limits van
+-- Apollo/Mistral en faalt de watchdog runs die te lang wachten). De cron
+-- sales-lead-import-dispatch vult de cap elke paar minuten aan.
+
+-- ── Import-batches ─────────────────────────────────────────────────
+create table sales_lead_imports (
+  id                      uuid primary key default gen_random_uuid(),
+  created_by              uuid references auth.users(id),
+  file_name               text not null,
+  owner_config_id         uuid not null references sales_lead_owner_config(id),
+  scrape_vacancies        boolean not null default true,
+  contactmoment_override  date,
+  column_mapping          jsonb not null,
+  status                  text not null default 'preview'
+                          check (status in ('preview','dispatching','completed','cancelled')),
+  total_rows              integer not null default 0,
+  started_at              timestamptz,
+  completed_at            timestamptz,
+  created_at              timestamptz not null default now(),
+  updated_at              timestamptz not null default now()
+);
+create index idx_sales_lead_imports_created_at on sales_lead_imports (created_at desc);
+create index idx_sales_lead_imports_dispatching
+  on sales_lead_imports (started_at) where status = 'dispatching';
+alter table sales_lead_imports enable row level security;
+comment on table sales_lead_imports is
+  'Bulk-imports van sales-leads (CSV/Excel) met kolommapping en dispatch-status. Service-role only.';
+
+-- ── Rijen uit het bestand ──────────────────────────────────────────
+create table sales_lead_import_rows (
+  id                   uuid primary key default gen_random_uuid(),
+  import_id            uuid not null references sales_lead_imports(id) on delete cascade,
+  row_number           integer not null,
+  company_name         text,
+  domain               text,
+  kvk                  text,
+  city                 text,
+  classification       text not null
+                       check (classification in ('new','existing_company','existing_run','duplicate_in_file','invalid')),
+  message              text,
+  existing_run_id      uuid references sales_lead_runs(id) on delete set null,
+  existing_company_id  uuid references companies(id) on delete set null,
+  include              boolean not null default false,
+  dispatched_at        timestamptz,
+  run_id               uuid references sales_lead_runs(id) on delete set null,
+  unique (import_id, row_number)
+);
+create index idx_sales_lead_import_rows_pending
+  on sales_lead_import_rows (import_id, row_number) where include and dispatched_at is null;
+alter table sales_lead_import_rows enable row level security;
+comment on table sales_lead_import_rows is
+  'Rijen van een sales-lead bulk-import met preview-classificatie en de aangemaakte run. Service-role only.';
+
+-- ── Koppeling run -> import (voortgang en in-flight cap) ───────────
+alter table sales_lead_runs
+  add column if not exists import_id uuid references sales_lead_imports(id) on delete set null;
+create index if not exists idx_sales_lead_runs_import
+  on sales_lead_runs (import_id, status) where import_id is not null;
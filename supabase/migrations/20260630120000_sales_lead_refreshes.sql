@@ -0,0 +1,45 @@
+-- Periodieke her-verrijking van sales-leads die al naar Pipedrive zijn gesynct.
+--
+-- Een run wordt één keer verrijkt; KvK-, website- en Apollo-data verouderen
+-- daarna. De cron sales-lead-refresh haalt die bronnen opnieuw op (buiten de
+-- run om, zodat review-edits in master_record blijven staan), vergelijkt het
+-- nieuwe master-record met de vorige momentopname en legt de verschillen vast
+-- als signalen (verhuisd, personeelsgroei/-krimp, nieuwe vacatures, contact
+-- vertrokken). Optioneel gaat er per dealeigenaar een Pipedrive-taak mee.
+
+-- ── Refreshes per run ──────────────────────────────────────────────
+create table sales_lead_refreshes (
+  id                     uuid primary key default gen_random_uuid(),
+  run_id                 uuid not null references sales_lead_runs(id) on delete cascade,
+  trigger                text not null default 'cron' check (trigger in ('cron','manual')),
+  status                 text not null default 'running'
+                         check (status in ('running','completed','failed')),
+  sources_refreshed      text[] not null default '{}',
+  enrichments            jsonb not null default '{}'::jsonb,
+  master_record          jsonb,
+  signals                jsonb not null default '[]'::jsonb,
+  signal_count           integer not null default 0,
+  pipedrive_activity_id  bigint,
+  error                  text,
+  started_at             timestamptz not null default now(),
+  completed_at           timestamptz
+);
+create index idx_sales_lead_refreshes_run on sales_lead_refreshes (run_id, started_at desc);
+create index idx_sales_lead_refreshes_running
+  on sales_lead_refreshes (started_at) where status = 'running';
+alter table sales_lead_refreshes enable row level security;
+comment on table sales_lead_refreshes is
+  'Her-verrijkingen van gesyncte sales-leads met momentopname en gedetecteerde signalen. Service-role only.';
+
+-- ── Planning op de run ─────────────────────────────────────────────
+alter table sales_lead_runs
+  add column if not exists last_refreshed_at timestamptz;
+create index if not exists idx_sales_lead_runs_refresh_due
+  on sales_lead_runs (last_refreshed_at nulls first, created_at)
+  where status = 'completed' and pipedrive_org_id is not null and archived_at is null;
+
+-- ── Pipedrive-taak bij signalen (per dealeigenaar) ─────────────────
+alter table sales_lead_owner_config
+  add column if not exists refresh_activity_enabled boolean not null default false;
+comment on column sales_lead_owner_config.refresh_activity_enabled is
+  'Maak bij nieuwe refresh-signalen een Pipedrive-taak aan voor de dealeigenaar.';
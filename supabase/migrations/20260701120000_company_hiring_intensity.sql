@@ -0,0 +1,203 @@
+-- Hiring-intensity score per bedrijf: een koopsignaal op basis van de eigen
+-- vacaturedata.
+--
+-- refresh_hiring_intensity() (nachtelijk via de cron hiring-intensity) telt
+-- per bedrijf over job_postings (alleen canonieke vacatures, dus zonder
+-- cross-source duplicaten):
+--
+--   - volume:    vacatures in de laatste 90 dagen        (max 35 punten bij 10+)
+--   - snelheid:  vacatures in de laatste 30 dagen        (max 25 punten bij 5+)
+--   - herhaling: dezelfde functie opnieuw geplaatst, 180 dagen
+--                (som van aantal - 1 per genormaliseerde titel) (max 20 bij 3+)
+--   - delisting: mediane looptijd tot de bron de vacature offline haalde
+--                (archived_reason 'not_in_*', laatste 365 dagen, min. 2
+--                vacatures); 14 dagen of korter = 0, 60+ dagen = 15 punten
+--   - bronnen:   aantal verschillende bronnen in 90 dagen (max 5 bij 3+)
+--
+-- Score 0-100 in companies.hiring_intensity_score, de ruwe cijfers en punten
+-- in companies.hiring_intensity. Bedrijven zonder vacatures in 180 dagen
+-- krijgen null. Alleen gewijzigde rijen worden herschreven.
+--
+-- De cron pusht gewijzigde scores van bedrijven met een pipedrive_id naar het
+-- org-veld PIPEDRIVE_HIRING_INTENSITY_FIELD_ID; hiring_intensity_pushed_score
+-- onthoudt wat er in Pipedrive staat (hiring_intensity_push_queue). Een
+-- mislukte push wordt vastgelegd (hiring_intensity_push_error/_attempts/
+-- _failed_at) en het bedrijf wacht dan exponentieel langer tot de volgende
+-- poging (1, 2, 4 ... max. 32 dagen); een geslaagde push wist de teller.
+
+-- ── Kolommen ───────────────────────────────────────────────────────
+alter table companies
+  add column if not exists hiring_intensity_score smallint,
+  add column if not exists hiring_intensity jsonb,
+  add column if not exists hiring_intensity_updated_at timestamptz,
+  add column if not exists hiring_intensity_pushed_score smallint,
+  add column if not exists hiring_intensity_pushed_at timestamptz,
+  add column if not exists hiring_intensity_push_error text,
+  add column if not exists hiring_intensity_push_attempts smallint not null default 0,
+  add column if not exists hiring_intensity_push_failed_at timestamptz;
+
+create index if not exists idx_companies_hiring_intensity
+  on companies (hiring_intensity_score desc) where hiring_intensity_score is not null;
+
+comment on column companies.hiring_intensity_score is
+  'Hiring intensity 0-100 uit vacature-activiteit (volume, snelheid, herhaalde functies, looptijd tot delisting, bronnen). Null = geen vacatures in 180 dagen.';
+comment on column companies.hiring_intensity is
+  'Invoer en punten van de hiring-intensity score (refresh_hiring_intensity).';
+comment on column companies.hiring_intensity_pushed_score is
+  'Laatst naar het Pipedrive org-veld gepushte score.';
+comment on column companies.hiring_intensity_push_error is
+  'Reden van de laatst mislukte Pipedrive-push; null na een geslaagde push.';
+comment on column companies.hiring_intensity_push_attempts is
+  'Aantal mislukte Pipedrive-pushes op rij; bepaalt de wachttijd in hiring_intensity_push_queue.';
+
+-- Minimale score voor campaign assignment; null = geen filter.
+alter table campaign_assignment_settings
+  add column if not exists min_hiring_intensity smallint
+  check (min_hiring_intensity between 1 and 100);
+
+-- ── Berekening ─────────────────────────────────────────────────────
+create or replace function refresh_hiring_intensity()
+returns table (scored integer, changed integer, cleared integer)
+language plpgsql security definer set search_path = public as $$
+declare
+  v_now timestamptz := now();
+  v_scored integer;
+  v_changed integer;
+  v_cleared integer;
+begin
+  create temp table hiring_intensity_new on commit drop as
+  with recent as (
+    select j.company_id,
+           j.created_at,
+           j.source_id,
+           lower(btrim(regexp_replace(j.title, '\s*[\(\[][^\)\]]*[\)\]]', '', 'g'))) as fn
+      from job_postings j
+     where j.company_id is not null
+       and j.canonical_id is null
+       and j.created_at >= v_now - interval '180 days'
+  ),
+  per_company as (
+    select company_id,
+           (count(*) filter (where created_at >= v_now - interval '90 days'))::int as postings_90d,
+           (count(*) filter (where created_at >= v_now - interval '30 days'))::int as postings_30d,
+           (count(distinct source_id) filter (where created_at >= v_now - interval '90 days'))::int as sources_90d
+      from recent
+     group by company_id
+  ),
+  repeats as (
+    select company_id, sum(n - 1)::int as repeat_postings
+      from (
+        select company_id, fn, count(*) as n
+          from recent
+         where fn <> ''
+         group by company_id, fn
+      ) t
+     where n > 1
+     group by company_id
+  ),
+  delist as (
+    select j.company_id,
+           count(*)::int as delisted,
+           percentile_cont(0.5) within group (
+             order by extract(epoch from (j.archived_at - j.created_at)) / 86400
+           ) as median_days
+      from job_postings j
+     where j.company_id is not null
+       and j.canonical_id is null
+       and j.archived_reason like 'not\_in\_%'
+       and j.archived_at >= v_now - interval '365 days'
+       and j.archived_at > j.created_at
+     group by j.company_id
+  ),
+  metrics as (
+    select p.company_id,
+           p.postings_90d,
+           p.postings_30d,
+           coalesce(r.repeat_postings, 0) as repeat_postings,
+           p.sources_90d,
+           coalesce(d.delisted, 0) as delisted,
+           round(d.median_days::numeric, 1) as median_days_to_delist
+      from per_company p
+      left join repeats r using (company_id)
+      left join delist d using (company_id)
+  ),
+  points as (
+    select m.*,
+           round(35 * least(m.postings_90d / 10.0, 1))::int as volume_pts,
+           round(25 * least(m.postings_30d / 5.0, 1))::int as velocity_pts,
+           round(20 * least(m.repeat_postings / 3.0, 1))::int as repeat_pts,
+           case when m.delisted >= 2
+                then round(15 * least(greatest((m.median_days_to_delist - 14) / 46.0, 0), 1))::int
+                else 0 end as delist_pts,
+           round(5 * least(greatest(m.sources_90d - 1, 0) / 2.0, 1))::int as source_pts
+      from metrics m
+  )
+  select company_id,
+         (volume_pts + velocity_pts + repeat_pts + delist_pts + source_pts)::smallint as score,
+         jsonb_build_object(
+           'postings_90d', postings_90d,
+           'postings_30d', postings_30d,
+           'repeat_postings', repeat_postings,
+           'sources_90d', sources_90d,
+           'delisted', delisted,
+           'median_days_to_delist', median_days_to_delist,
+           'points', jsonb_build_object(
+             'volume', volume_pts,
+             'velocity', velocity_pts,
+             'repeat', repeat_pts,
+             'delist', delist_pts,
+             'sources', source_pts
+           )
+         ) as detail
+    from points;
+
+  select count(*)::int into v_scored from hiring_intensity_new;
+
+  update companies c
+     set hiring_intensity_score = n.score,
+         hiring_intensity = n.detail,
+         hiring_intensity_updated_at = v_now
+    from hiring_intensity_new n
+   where c.id = n.company_id
+     and (c.hiring_intensity_score is distinct from n.score
+          or c.hiring_intensity is distinct from n.detail);
+  get diagnostics v_changed = row_count;
+
+  update companies c
+     set hiring_intensity_score = null,
+         hiring_intensity = null,
+         hiring_intensity_updated_at = v_now
+   where c.hiring_intensity_score is not null
+     and not exists (select 1 from hiring_intensity_new n where n.company_id = c.id);
+  get diagnostics v_cleared = row_count;
+
+  return query select v_scored, v_changed, v_cleared;
+end;
+$$;
+
+revoke all on function refresh_hiring_intensity() from public, anon, authenticated;
+grant execute on function refresh_hiring_intensity() to service_role;
+
+-- ── Pipedrive-push ─────────────────────────────────────────────────
+-- Bedrijven in Pipedrive waarvan de score afwijkt van de laatst gepushte,
+-- grootste verschuivingen eerst. Na een mislukte push wacht een bedrijf
+-- 2^(pogingen - 1) dagen (max. 32; een uur speling voor de dagelijkse cron)
+-- en komt het daarna achter de bedrijven zonder mislukte pogingen.
+create or replace function hiring_intensity_push_queue(p_limit integer default 200)
+returns table (id uuid, pipedrive_id text, hiring_intensity_score smallint, hiring_intensity_push_attempts smallint)
+language sql stable security definer set search_path = public as $$
+  select c.id, c.pipedrive_id, c.hiring_intensity_score, c.hiring_intensity_push_attempts
+    from companies c
+   where c.pipedrive_id is not null
+     and (c.hiring_intensity_score is not null or c.hiring_intensity_pushed_score is not null)
+     and c.hiring_intensity_score is distinct from c.hiring_intensity_pushed_score
+     and (c.hiring_intensity_push_failed_at is null
+          or c.hiring_intensity_push_failed_at
+             < now() - (interval '1 day' * power(2, least(c.hiring_intensity_push_attempts, 6) - 1) - interval '1 hour'))
+   order by c.hiring_intensity_push_attempts,
+            abs(coalesce(c.hiring_intensity_score, 0) - coalesce(c.hiring_intensity_pushed_score, 0)) desc, c.id
+   limit p_limit;
+$$;
+
+revoke all on function hiring_intensity_push_queue(integer) from public, anon, authenticated;
+grant execute on function hiring_intensity_push_queue(integer) to service_role;